@@ -9,6 +9,7 @@
  * Usage:
  *   npm run db:export               - Export database to default timestamped file
  *   npm run db:export -- --file=path/to/file.json - Export to specific file
+ *   npm run db:export -- --labels   - Export only address labels and entities
  *   npm run db:import -- --file=path/to/file.json - Import from file
  *   npm run db:list                 - List available exports
  */
@@ -34,10 +35,11 @@ program
   .command('export')
   .description('Export the Neo4j database to a JSON file')
   .option('-f, --file <path>', 'Custom file path for the export')
+  .option('--labels', 'Export only address labels, entities and their CONTROLS edges')
   .action(async (options) => {
     try {
       const filePath = options.file ? path.resolve(options.file) : undefined;
-      const result = await exportDatabase({ filePath });
+      const result = await exportDatabase({ filePath, scope: options.labels ? 'labels' : 'all' });
       console.log('Export completed successfully:');
       console.log(`  File: ${result.filePath}`);
       console.log(`  Nodes: ${result.nodeCount}`);
@@ -12,6 +12,18 @@ export const config = {
   neo4jUri: process.env.NEO4J_URI || "bolt://localhost:7687",
   neo4jUser: process.env.NEO4J_USER || "neo4j",
   neo4jPassword: process.env.NEO4J_PASSWORD || "password",
+  // Where chain data comes from: 'rpc' (live endpoints) or 'fixtures' (recorded responses)
+  chainDataProvider: process.env.CHAIN_DATA_PROVIDER === 'fixtures' ? 'fixtures' as const : 'rpc' as const,
+  // Directory of recorded JSON-RPC responses replayed by the fixtures provider
+  chainFixturesPath: path.resolve(process.cwd(), process.env.CHAIN_FIXTURES_PATH || 'fixtures/chain'),
+  // When set, the rpc provider records every response here in the fixtures layout
+  chainRecordPath: process.env.CHAIN_RECORD_PATH
+    ? path.resolve(process.cwd(), process.env.CHAIN_RECORD_PATH)
+    : null,
+  cypherQuery: {
+    timeoutMs: parseInt(process.env.CYPHER_QUERY_TIMEOUT_MS || '10000', 10), // Longest a cypher_query may run
+    maxRows: parseInt(process.env.CYPHER_QUERY_MAX_ROWS || '5000', 10) // Most rows a cypher_query may return
+  },
   mcpServerName: pkg.name,
   mcpServerVersion: pkg.version,
   logLevel: process.env.LOG_LEVEL || "info",
@@ -22,6 +34,57 @@ export const config = {
     maxBackups: parseInt(process.env.BACKUP_MAX_COUNT || '10', 10), // Keep 10 backups by default
     backupOnStart: process.env.BACKUP_ON_START === 'true'  // Disabled by default
   },
+  trash: {
+    purgeEnabled: process.env.TRASH_PURGE_ENABLED !== 'false', // Enabled by default
+    purgeSchedule: process.env.TRASH_PURGE_SCHEDULE || '30 3 * * *', // Daily at 03:30 by default
+    retentionDays: parseInt(process.env.TRASH_RETENTION_DAYS || '30', 10) // Days a deleted project stays restorable
+  },
+  blockchain: {
+    solana: {
+      rpcUrl: process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com',
+      commitment: process.env.SOLANA_COMMITMENT || 'confirmed'
+    },
+    sui: {
+      rpcUrl: process.env.SUI_RPC_URL || 'https://fullnode.mainnet.sui.io:443'
+    },
+    // Timeout applied to every JSON-RPC request
+    rpcTimeoutMs: parseInt(process.env.CHAIN_RPC_TIMEOUT_MS || '30000', 10),
+    ingestion: {
+      maxConcurrentJobs: parseInt(process.env.INGEST_MAX_CONCURRENT_JOBS || '2', 10), // Jobs fetching at the same time
+      retryBaseMs: parseInt(process.env.INGEST_RETRY_BASE_MS || '5000', 10), // First retry delay, doubled per attempt
+      retryMaxMs: parseInt(process.env.INGEST_RETRY_MAX_MS || '300000', 10) // Cap on the retry delay
+    },
+    riskScoring: {
+      enabled: process.env.RISK_SCORING_ENABLED !== 'false', // Enabled by default
+      schedule: process.env.RISK_SCORING_SCHEDULE || '15 * * * *', // Every hour by default
+      scanLimit: parseInt(process.env.RISK_SCORING_SCAN_LIMIT || '50000', 10), // Most recent transfers scored per chain
+      outlierThreshold: parseFloat(process.env.RISK_OUTLIER_THRESHOLD || '4') // Score at which an address is flagged
+    },
+    idl: {
+      // Directory of Anchor IDL JSON files - use absolute path if provided, otherwise resolve relative to CWD
+      directory: process.env.ATLAS_IDL_PATH
+        ? (path.isAbsolute(process.env.ATLAS_IDL_PATH)
+            ? process.env.ATLAS_IDL_PATH
+            : path.resolve(process.cwd(), process.env.ATLAS_IDL_PATH))
+        : null
+    },
+    moveAbi: {
+      // Directory of Sui package ABI JSON files - use absolute path if provided, otherwise resolve relative to CWD
+      directory: process.env.ATLAS_MOVE_ABI_PATH
+        ? (path.isAbsolute(process.env.ATLAS_MOVE_ABI_PATH)
+            ? process.env.ATLAS_MOVE_ABI_PATH
+            : path.resolve(process.cwd(), process.env.ATLAS_MOVE_ABI_PATH))
+        : null,
+      fetch: process.env.MOVE_ABI_FETCH !== 'false' // Fetch missing package ABIs through the chain data provider
+    },
+    bridges: {
+      // JSON file of bridge definitions added to, or replacing by name, the built-in ones
+      registryPath: process.env.BRIDGE_REGISTRY_PATH
+        ? path.resolve(process.cwd(), process.env.BRIDGE_REGISTRY_PATH)
+        : null,
+      matchWindowMinutes: parseInt(process.env.BRIDGE_MATCH_WINDOW_MINUTES || '1440', 10) // Longest a crossing may take
+    }
+  },
   security: {
     // Default to false in development, true in production
     authRequired: process.env.NODE_ENV === 'production' 
@@ -3,6 +3,9 @@ import { createMcpServer } from "./mcp/server.js";
 import { logger } from "./utils/logger.js";
 import { closeDriver } from "./neo4j/driver.js";
 import { getBackupService } from "./neo4j/backupService.js";
+import { getIngestionJobService } from "./neo4j/ingestionJobService.js";
+import { getRiskScoringService } from "./neo4j/riskScoringService.js";
+import { getTrashPurgeService } from "./neo4j/trashPurgeService.js";
 import { config } from "./config/index.js";
 
 let server: Awaited<ReturnType<typeof createMcpServer>> | undefined;
@@ -12,6 +15,20 @@ let backupService = getBackupService({
   backupOnStart: config.backup.backupOnStart,
   enabled: config.backup.enabled
 });
+let ingestionJobService = getIngestionJobService({
+  maxConcurrentJobs: config.blockchain.ingestion.maxConcurrentJobs,
+  retryBaseMs: config.blockchain.ingestion.retryBaseMs,
+  retryMaxMs: config.blockchain.ingestion.retryMaxMs
+});
+let riskScoringService = getRiskScoringService({
+  schedule: config.blockchain.riskScoring.schedule,
+  enabled: config.blockchain.riskScoring.enabled
+});
+let trashPurgeService = getTrashPurgeService({
+  schedule: config.trash.purgeSchedule,
+  retentionDays: config.trash.retentionDays,
+  enabled: config.trash.purgeEnabled
+});
 
 const shutdown = async (signal: string) => {
   logger.info(`Received ${signal}. Starting graceful shutdown...`);
@@ -22,6 +39,18 @@ const shutdown = async (signal: string) => {
     backupService.stop();
     logger.info("Database backup service stopped.");
 
+    // Stop scheduling ingestion jobs; active jobs resume on the next start
+    logger.info("Stopping ingestion job service...");
+    ingestionJobService.stop();
+
+    // Stop scheduled risk scoring
+    logger.info("Stopping risk scoring service...");
+    riskScoringService.stop();
+
+    // Stop purging the trash
+    logger.info("Stopping trash purge service...");
+    trashPurgeService.stop();
+
     if (server) {
       logger.info("Closing MCP server...");
       await server.close();
@@ -50,6 +79,18 @@ const start = async () => {
     // Start the backup service
     logger.info("Starting database backup service...");
     await backupService.start();
+
+    // Resume active ingestion jobs
+    logger.info("Starting ingestion job service...");
+    await ingestionJobService.start();
+
+    // Schedule address risk scoring
+    logger.info("Starting risk scoring service...");
+    riskScoringService.start();
+
+    // Schedule purging of expired projects from the trash
+    logger.info("Starting trash purge service...");
+    trashPurgeService.start();
     
     logger.info("ATLAS MCP Server is running and awaiting messages.");
 
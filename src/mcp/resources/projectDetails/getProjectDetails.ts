@@ -4,7 +4,8 @@ import {
   getProjectNotes, 
   getProjectLinks, 
   listProjectDependencies, 
-  listProjectMembers 
+  listProjectMembers,
+  getProjectOnchainSummary
 } from '../../../neo4j/projectService.js';
 import { 
   ProjectDetailsResourceResponse, 
@@ -117,6 +118,12 @@ export const getProjectDetails: ProjectDetailsHandler = async (
                 roles: roleCount
               };
               break;
+
+            case 'onchain':
+              included.onchain = await getProjectOnchainSummary(validatedParams.projectId, {
+                since: validatedQuery.since
+              });
+              break;
           }
         } catch (error) {
           logger.warn(`Error fetching included data type '${type}'`, { 
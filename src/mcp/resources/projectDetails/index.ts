@@ -21,7 +21,8 @@ export const registerProjectDetailsResource = (server: McpServer) => {
   const metadata = {
     name: "Project Details",
     description: "Fetches detailed information about a specific project. " +
-                "Supports including related data like notes, links, dependencies, and members.",
+                "Supports including related data like notes, links, dependencies, and members, " +
+                "and recent on-chain activity of the addresses and programs the project watches.",
     mimeType: "application/json",
     uriParamsSchema: ProjectDetailsParamsSchema,
     querySchema: ProjectDetailsQuerySchema,
@@ -41,6 +42,11 @@ export const registerProjectDetailsResource = (server: McpServer) => {
         uri: "atlas-project://proj_123?include=notes&include=links&include=dependencies&include=members",
         description: "Get project details with all related information"
       },
+      {
+        name: "Project with on-chain activity",
+        uri: "atlas-project://proj_123?include=onchain&since=2025-03-01T00:00:00Z",
+        description: "Get project details with activity of watched addresses and programs since a date"
+      },
       {
         name: "Specific version",
         uri: "atlas-project://proj_123?version=2024-02",
@@ -58,7 +64,7 @@ export const registerProjectDetailsResource = (server: McpServer) => {
     caching: {
       enabled: true,
       ttl: 300,           // Cache for 5 minutes
-      vary: ['include']   // Vary cache by include parameter
+      vary: ['include', 'since'] // Vary cache by include and window parameters
     }
   };
 
@@ -1,6 +1,6 @@
 import { z } from 'zod';
 import { ResourceResponse } from '../../../types/mcp.js';
-import { Project } from '../../../neo4j/projectService.js';
+import { Project, ProjectOnchainSummary } from '../../../neo4j/projectService.js';
 import { ReadResourceTemplateCallback } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { normalizeEntityId } from '../../../utils/idGenerator.js';
 
@@ -21,12 +21,16 @@ export type ProjectDetailsParams = z.infer<typeof ProjectDetailsParamsSchema>;
  * Schema for validating query parameters
  */
 export const ProjectDetailsQuerySchema = z.object({
-  include: z.array(z.enum(['notes', 'links', 'dependencies', 'members']))
+  include: z.array(z.enum(['notes', 'links', 'dependencies', 'members', 'onchain']))
     .optional()
     .describe('Optional array of related data to include in the response'),
   version: z.string()
     .optional()
-    .describe('Optional version identifier to fetch a specific version of the project details')
+    .describe('Optional version identifier to fetch a specific version of the project details'),
+  since: z.string()
+    .datetime()
+    .optional()
+    .describe('Optional ISO timestamp starting the window of the onchain section (default: 7 days ago)')
 }).describe('Query parameters for customizing the project details response');
 
 export type ProjectDetailsQuery = z.infer<typeof ProjectDetailsQuerySchema>;
@@ -72,6 +76,7 @@ export interface ProjectDetailsResourceData {
       count: number;
       roles: Record<string, number>;
     };
+    onchain?: ProjectOnchainSummary; // Activity of watched addresses and programs if requested
   };
   version?: string;                // Version identifier if specified
   fetchedAt: string;              // ISO timestamp of when the data was fetched
@@ -0,0 +1,107 @@
+import { logger } from '../../../utils/logger.js';
+import { getProjectById } from '../../../neo4j/projectService.js';
+import { queryChangeEvents } from '../../../neo4j/auditService.js';
+import {
+  ProjectHistoryResourceResponse,
+  ProjectHistoryParamsSchema,
+  ProjectHistoryQuerySchema,
+  ProjectHistoryResourceData
+} from './types.js';
+import { McpError, BaseErrorCode, ProjectErrorCode } from '../../../types/errors.js';
+
+export const getProjectHistory = async (
+  uri: URL,
+  variables: Record<string, unknown>
+): Promise<ProjectHistoryResourceResponse> => {
+  try {
+    // Validate URI parameters
+    const validatedParams = ProjectHistoryParamsSchema.parse(variables);
+
+    // Parse and validate query parameters
+    const queryParams: Record<string, string | number> = {};
+    uri.searchParams.forEach((value, key) => {
+      if (key === 'limit') {
+        queryParams[key] = parseInt(value, 10);
+      } else {
+        queryParams[key] = value;
+      }
+    });
+
+    const validatedQuery = ProjectHistoryQuerySchema.parse(queryParams);
+
+    logger.info("Getting project history", {
+      projectId: validatedParams.projectId,
+      query: validatedQuery,
+      uri: uri.href
+    });
+
+    const history = await queryChangeEvents({
+      ...validatedQuery,
+      projectId: validatedParams.projectId
+    });
+
+    // A deleted project keeps its history; only a project that never existed is not found
+    const project = await getProjectById(validatedParams.projectId);
+    if (!project && !history.total) {
+      throw new McpError(
+        ProjectErrorCode.PROJECT_NOT_FOUND,
+        `Project with ID ${validatedParams.projectId} not found`,
+        { projectId: validatedParams.projectId }
+      );
+    }
+
+    // Format the resource data
+    const resourceData: ProjectHistoryResourceData = {
+      history: {
+        items: history.items,
+        total: history.total
+      },
+      metadata: {
+        projectId: validatedParams.projectId,
+        deleted: !project
+      },
+      query: {
+        entityType: validatedQuery.entityType,
+        actor: validatedQuery.actor,
+        action: validatedQuery.action,
+        since: validatedQuery.since,
+        until: validatedQuery.until,
+        limit: validatedQuery.limit
+      },
+      fetchedAt: new Date().toISOString()
+    };
+
+    logger.info("Project history retrieved successfully", {
+      projectId: validatedParams.projectId,
+      total: history.total,
+      returned: history.items.length
+    });
+
+    return {
+      contents: [{
+        uri: uri.href,
+        text: JSON.stringify(resourceData, null, 2),
+        mimeType: "application/json"
+      }],
+      _type: "resource_response"
+    };
+  } catch (error) {
+    // Handle specific error cases
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    logger.error("Error getting project history", {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      projectId: variables.projectId,
+      uri: uri.href
+    });
+
+    // Convert other errors to McpError
+    throw new McpError(
+      BaseErrorCode.INTERNAL_ERROR,
+      `Error getting project history: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      { projectId: variables.projectId }
+    );
+  }
+};
@@ -0,0 +1,81 @@
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { getProjectHistory } from './getProjectHistory.js';
+import { ProjectHistoryParamsSchema, ProjectHistoryQuerySchema } from './types.js';
+import { listProjects } from '../../../neo4j/projectService.js';
+import { extractProjectIds } from '../../../utils/projectHelpers.js';
+
+export const registerProjectHistoryResource = (server: McpServer) => {
+  // Create resource template with parameter completion
+  const template = new ResourceTemplate(
+    "atlas-project://{projectId}/history",
+    {
+      list: undefined, // No list completion needed
+      complete: {
+        projectId: async () => {
+          // Provide project ID completion from existing projects
+          try {
+            const projects = await listProjects();
+            return extractProjectIds(projects);
+          } catch (error) {
+            return []; // Return empty list if projects can't be fetched
+          }
+        }
+      }
+    }
+  );
+
+  // Define resource metadata
+  const metadata = {
+    name: "Project History",
+    description: "Lists the changes made to a project and its notes, links, members, tasks, whiteboards and dependencies, " +
+                "newest first. Each change records who made it, through which tool and request, and the state before and after. " +
+                "The history outlives the project, so deleted projects can still be looked up. " +
+                "Supports filtering by entity type, actor, action and time range.",
+    mimeType: "application/json",
+    uriParamsSchema: ProjectHistoryParamsSchema,
+    querySchema: ProjectHistoryQuerySchema,
+    examples: [
+      {
+        name: "Full history",
+        uri: "atlas-project://proj_123/history",
+        description: "Get the latest changes to a project"
+      },
+      {
+        name: "Link changes",
+        uri: "atlas-project://proj_123/history?entityType=link",
+        description: "Get only changes to the project's links"
+      },
+      {
+        name: "One user's deletions",
+        uri: "atlas-project://proj_123/history?actor=analyst-7&action=delete",
+        description: "Get everything one user deleted from the project"
+      },
+      {
+        name: "Time range",
+        uri: "atlas-project://proj_123/history?since=2025-03-01T00:00:00.000Z&until=2025-03-08T00:00:00.000Z",
+        description: "Get the changes made in one week"
+      }
+    ],
+    permissions: {
+      required: true,
+      scope: "project:history:read"
+    },
+    rateLimit: {
+      windowMs: 60 * 1000, // 1 minute
+      maxRequests: 60      // 60 requests per minute
+    },
+    caching: {
+      enabled: true,
+      ttl: 60,            // Cache for 1 minute, new changes arrive all the time
+      vary: ['entityType', 'actor', 'action', 'since', 'until', 'limit'] // Vary cache by all query params
+    }
+  };
+
+  // Register the resource
+  server.resource(
+    "project-history",   // Resource name
+    template,            // URI template
+    metadata,            // Resource metadata
+    getProjectHistory    // Handler function
+  );
+};
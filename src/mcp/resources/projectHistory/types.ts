@@ -0,0 +1,88 @@
+import { z } from 'zod';
+import { ResourceResponse } from '../../../types/mcp.js';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES, ChangeEvent } from '../../../neo4j/auditService.js';
+
+/**
+ * Schema for validating project ID from URI parameters
+ */
+export const ProjectHistoryParamsSchema = z.object({
+  projectId: z.string()
+    .min(1)
+    .regex(/^(?:PROJ|proj)_[A-Z0-9]{6}$/)
+    .describe('The unique identifier of the project to fetch the history of. Must be a valid project ID prefixed with "PROJ_" followed by 6 uppercase alphanumeric characters.')
+}).describe('URI parameters for accessing project history');
+
+export type ProjectHistoryParams = z.infer<typeof ProjectHistoryParamsSchema>;
+
+/**
+ * Schema for validating query parameters
+ */
+export const ProjectHistoryQuerySchema = z.object({
+  entityType: z.enum(AUDIT_ENTITY_TYPES)
+    .optional()
+    .describe('Optional kind of entity to filter changes by'),
+  actor: z.string()
+    .optional()
+    .describe('Optional user ID to filter changes by'),
+  action: z.enum(AUDIT_ACTIONS)
+    .optional()
+    .describe('Optional action (create, update, delete, trash, restore or purge) to filter changes by'),
+  since: z.string()
+    .datetime()
+    .optional()
+    .describe('Only changes made at or after this ISO timestamp'),
+  until: z.string()
+    .datetime()
+    .optional()
+    .describe('Only changes made at or before this ISO timestamp'),
+  limit: z.number()
+    .int()
+    .min(1)
+    .max(200)
+    .optional()
+    .default(50)
+    .describe('Maximum number of changes to return (1-200, default 50)')
+}).describe('Query parameters for filtering project history');
+
+export type ProjectHistoryQuery = z.infer<typeof ProjectHistoryQuerySchema>;
+
+/**
+ * Response type for the project history resource
+ */
+export interface ProjectHistoryResourceResponse extends ResourceResponse {
+  contents: [{
+    uri: string;                   // URI identifying this resource
+    text: string;                  // JSON string of ProjectHistoryResourceData
+    mimeType: "application/json";  // Always JSON for this resource
+  }];
+}
+
+/**
+ * Data structure for project history
+ */
+export interface ProjectHistoryResourceData {
+  history: {
+    items: ChangeEvent[];          // Changes matching the query, newest first
+    total: number;                 // Number of changes matching the query
+  };
+  metadata: {
+    projectId: string;            // ID of the project
+    deleted: boolean;             // Whether the project itself has been deleted
+  };
+  query?: {                       // Query parameters used (if any)
+    entityType?: string;         // Entity type filter applied
+    actor?: string;              // Actor filter applied
+    action?: string;             // Action filter applied
+    since?: string;              // Start of the time range
+    until?: string;              // End of the time range
+    limit: number;               // Limit used
+  };
+  fetchedAt: string;              // ISO timestamp of when the data was fetched
+}
+
+/**
+ * Template variables for the project history URI
+ */
+export interface ProjectHistoryTemplateVars {
+  projectId: string;              // Project ID from the URI template
+}
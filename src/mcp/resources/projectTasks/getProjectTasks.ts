@@ -0,0 +1,165 @@
+import { logger } from '../../../utils/logger.js';
+import { listProjectTasks, getProjectById, ProjectTask } from '../../../neo4j/projectService.js';
+import {
+  ProjectTasksResourceResponse,
+  ProjectTasksParamsSchema,
+  ProjectTasksQuerySchema,
+  ProjectTasksResourceData
+} from './types.js';
+import { VALID_TASK_PRIORITIES, VALID_TASK_STATUSES } from '../../tools/taskCreate/types.js';
+import { McpError, BaseErrorCode, ProjectErrorCode } from '../../../types/errors.js';
+
+const isOpen = (task: ProjectTask) => task.status !== 'done' && task.status !== 'cancelled';
+
+// Due dates may be plain dates, which count as due at the end of that day (UTC)
+const dueTime = (dueDate: string) =>
+  new Date(dueDate.length === 10 ? `${dueDate}T23:59:59.999Z` : dueDate).getTime();
+
+export const getProjectTasks = async (
+  uri: URL,
+  variables: Record<string, unknown>
+): Promise<ProjectTasksResourceResponse> => {
+  try {
+    // Validate URI parameters
+    const validatedParams = ProjectTasksParamsSchema.parse(variables);
+
+    // Parse and validate query parameters
+    const queryParams: Record<string, string | number> = {};
+    uri.searchParams.forEach((value, key) => {
+      if (key === 'limit') {
+        queryParams[key] = parseInt(value, 10);
+      } else {
+        queryParams[key] = value;
+      }
+    });
+
+    const validatedQuery = ProjectTasksQuerySchema.parse(queryParams);
+
+    logger.info("Getting project tasks", {
+      projectId: validatedParams.projectId,
+      query: validatedQuery,
+      uri: uri.href
+    });
+
+    // First verify the project exists
+    const project = await getProjectById(validatedParams.projectId);
+    if (!project) {
+      throw new McpError(
+        ProjectErrorCode.PROJECT_NOT_FOUND,
+        `Project with ID ${validatedParams.projectId} not found`,
+        { projectId: validatedParams.projectId }
+      );
+    }
+
+    // Get all tasks for the project
+    const allTasks = await listProjectTasks(validatedParams.projectId);
+
+    // Apply filtering
+    let filteredTasks = allTasks;
+
+    if (validatedQuery.status) {
+      filteredTasks = filteredTasks.filter(task => task.status === validatedQuery.status);
+    }
+
+    if (validatedQuery.priority) {
+      filteredTasks = filteredTasks.filter(task => task.priority === validatedQuery.priority);
+    }
+
+    if (validatedQuery.assigneeId) {
+      filteredTasks = filteredTasks.filter(task => task.assigneeId === validatedQuery.assigneeId);
+    }
+
+    // Apply sorting; tasks without a due date always come last
+    const sortOrder = validatedQuery.sortOrder === 'desc' ? -1 : 1;
+    filteredTasks.sort((a, b) => {
+      switch (validatedQuery.sortBy) {
+        case 'priority':
+          return sortOrder * (VALID_TASK_PRIORITIES.indexOf(a.priority) - VALID_TASK_PRIORITIES.indexOf(b.priority));
+        case 'dueDate':
+          if (!a.dueDate || !b.dueDate) return (a.dueDate ? 0 : 1) - (b.dueDate ? 0 : 1);
+          return sortOrder * (dueTime(a.dueDate) - dueTime(b.dueDate));
+        case 'createdAt':
+          return sortOrder * (new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+        case 'updatedAt':
+          return sortOrder * (new Date(a.updatedAt).getTime() - new Date(b.updatedAt).getTime());
+        default:
+          return 0;
+      }
+    });
+
+    // Apply limit
+    const limitedTasks = filteredTasks.slice(0, validatedQuery.limit);
+
+    // Collect metadata
+    const statuses = Object.fromEntries(VALID_TASK_STATUSES.map(status =>
+      [status, allTasks.filter(task => task.status === status).length]
+    )) as ProjectTasksResourceData['metadata']['statuses'];
+    const priorities = Object.fromEntries(VALID_TASK_PRIORITIES.map(priority =>
+      [priority, allTasks.filter(task => task.priority === priority).length]
+    )) as ProjectTasksResourceData['metadata']['priorities'];
+
+    const now = Date.now();
+    const openTasks = allTasks.filter(isOpen);
+    const overdue = openTasks.filter(task => task.dueDate && dueTime(task.dueDate) < now).length;
+    const unassigned = openTasks.filter(task => !task.assigneeId).length;
+
+    // Format the resource data
+    const resourceData: ProjectTasksResourceData = {
+      tasks: {
+        items: limitedTasks,
+        total: allTasks.length,
+        filtered: filteredTasks.length
+      },
+      metadata: {
+        projectId: validatedParams.projectId,
+        statuses,
+        priorities,
+        unassigned,
+        overdue
+      },
+      query: {
+        status: validatedQuery.status,
+        priority: validatedQuery.priority,
+        assigneeId: validatedQuery.assigneeId,
+        sortBy: validatedQuery.sortBy,
+        sortOrder: validatedQuery.sortOrder,
+        limit: validatedQuery.limit
+      },
+      fetchedAt: new Date().toISOString()
+    };
+
+    logger.info("Project tasks retrieved successfully", {
+      projectId: validatedParams.projectId,
+      total: allTasks.length,
+      filtered: filteredTasks.length,
+      returned: limitedTasks.length
+    });
+
+    return {
+      contents: [{
+        uri: uri.href,
+        text: JSON.stringify(resourceData, null, 2),
+        mimeType: "application/json"
+      }],
+      _type: "resource_response"
+    };
+  } catch (error) {
+    // Handle specific error cases
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    logger.error("Error getting project tasks", {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      projectId: variables.projectId,
+      uri: uri.href
+    });
+
+    // Convert other errors to McpError
+    throw new McpError(
+      BaseErrorCode.INTERNAL_ERROR,
+      `Error getting project tasks: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      { projectId: variables.projectId }
+    );
+  }
+};
@@ -0,0 +1,81 @@
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { getProjectTasks } from './getProjectTasks.js';
+import { ProjectTasksParamsSchema, ProjectTasksQuerySchema } from './types.js';
+import { listProjects } from '../../../neo4j/projectService.js';
+import { extractProjectIds } from '../../../utils/projectHelpers.js';
+
+export const registerProjectTasksResource = (server: McpServer) => {
+  // Create resource template with parameter completion
+  const template = new ResourceTemplate(
+    "atlas-project://{projectId}/tasks",
+    {
+      list: undefined, // No list completion needed
+      complete: {
+        projectId: async () => {
+          // Provide project ID completion from existing projects
+          try {
+            const projects = await listProjects();
+            return extractProjectIds(projects);
+          } catch (error) {
+            return []; // Return empty list if projects can't be fetched
+          }
+        }
+      }
+    }
+  );
+
+  // Define resource metadata
+  const metadata = {
+    name: "Project Tasks",
+    description: "Lists the tasks of a project with their status, priority, assignee, due date and parent task. " +
+                "Results are ordered by priority, most urgent first, and come with counts by status and priority " +
+                "and the number of open tasks that are overdue or unassigned. " +
+                "Supports filtering by status, priority and assignee.",
+    mimeType: "application/json",
+    uriParamsSchema: ProjectTasksParamsSchema,
+    querySchema: ProjectTasksQuerySchema,
+    examples: [
+      {
+        name: "All tasks",
+        uri: "atlas-project://proj_123/tasks",
+        description: "Get all tasks of a project"
+      },
+      {
+        name: "Blocked tasks",
+        uri: "atlas-project://proj_123/tasks?status=blocked",
+        description: "Get only blocked tasks"
+      },
+      {
+        name: "Member's tasks",
+        uri: "atlas-project://proj_123/tasks?assigneeId=MEMBER_1741356000000",
+        description: "Get the tasks assigned to one member"
+      },
+      {
+        name: "Upcoming deadlines",
+        uri: "atlas-project://proj_123/tasks?sortBy=dueDate&sortOrder=asc",
+        description: "Get tasks sorted by due date, soonest first"
+      }
+    ],
+    permissions: {
+      required: true,
+      scope: "project:tasks:read"
+    },
+    rateLimit: {
+      windowMs: 60 * 1000, // 1 minute
+      maxRequests: 60      // 60 requests per minute
+    },
+    caching: {
+      enabled: true,
+      ttl: 60,            // Cache for 1 minute, tasks change often
+      vary: ['status', 'priority', 'assigneeId', 'sortBy', 'sortOrder'] // Vary cache by all query params
+    }
+  };
+
+  // Register the resource
+  server.resource(
+    "project-tasks",     // Resource name
+    template,            // URI template
+    metadata,            // Resource metadata
+    getProjectTasks      // Handler function
+  );
+};
@@ -0,0 +1,93 @@
+import { z } from 'zod';
+import { ResourceResponse } from '../../../types/mcp.js';
+import { ProjectTask } from '../../../neo4j/projectService.js';
+import { VALID_TASK_PRIORITIES, VALID_TASK_STATUSES } from '../../tools/taskCreate/types.js';
+
+/**
+ * Schema for validating project ID from URI parameters
+ */
+export const ProjectTasksParamsSchema = z.object({
+  projectId: z.string()
+    .min(1)
+    .regex(/^(?:PROJ|proj)_[A-Z0-9]{6}$/)
+    .describe('The unique identifier of the project to fetch tasks for. Must be a valid project ID prefixed with "PROJ_" followed by 6 uppercase alphanumeric characters.')
+}).describe('URI parameters for accessing project tasks');
+
+export type ProjectTasksParams = z.infer<typeof ProjectTasksParamsSchema>;
+
+/**
+ * Schema for validating query parameters
+ */
+export const ProjectTasksQuerySchema = z.object({
+  status: z.enum(VALID_TASK_STATUSES)
+    .optional()
+    .describe('Optional status to filter tasks by'),
+  priority: z.enum(VALID_TASK_PRIORITIES)
+    .optional()
+    .describe('Optional priority to filter tasks by'),
+  assigneeId: z.string()
+    .optional()
+    .describe('Optional member ID to filter tasks by assignee'),
+  sortBy: z.enum(['priority', 'dueDate', 'createdAt', 'updatedAt'])
+    .optional()
+    .default('priority')
+    .describe('Field to sort tasks by'),
+  sortOrder: z.enum(['asc', 'desc'])
+    .optional()
+    .default('desc')
+    .describe('Sort direction (ascending or descending)'),
+  limit: z.number()
+    .int()
+    .min(1)
+    .max(100)
+    .optional()
+    .default(50)
+    .describe('Maximum number of tasks to return (1-100, default 50)')
+}).describe('Query parameters for filtering and sorting project tasks');
+
+export type ProjectTasksQuery = z.infer<typeof ProjectTasksQuerySchema>;
+
+/**
+ * Response type for the project tasks resource
+ */
+export interface ProjectTasksResourceResponse extends ResourceResponse {
+  contents: [{
+    uri: string;                   // URI identifying this resource
+    text: string;                  // JSON string of ProjectTasksResourceData
+    mimeType: "application/json";  // Always JSON for this resource
+  }];
+}
+
+/**
+ * Data structure for project tasks
+ */
+export interface ProjectTasksResourceData {
+  tasks: {
+    items: ProjectTask[];          // Array of tasks matching the query
+    total: number;                 // Total number of tasks (before filtering)
+    filtered: number;              // Number of tasks after filtering
+  };
+  metadata: {
+    projectId: string;            // ID of the project
+    statuses: Record<typeof VALID_TASK_STATUSES[number], number>;     // Count of tasks by status
+    priorities: Record<typeof VALID_TASK_PRIORITIES[number], number>; // Count of tasks by priority
+    unassigned: number;           // Open tasks without an assignee
+    overdue: number;              // Open tasks past their due date
+  };
+  query?: {                       // Query parameters used (if any)
+    status?: string;             // Status filter applied
+    priority?: string;           // Priority filter applied
+    assigneeId?: string;         // Assignee filter applied
+    sortBy: string;              // Sort field used
+    sortOrder: string;           // Sort direction used
+    limit: number;               // Limit used
+  };
+  fetchedAt: string;              // ISO timestamp of when the data was fetched
+}
+
+/**
+ * Template variables for the project tasks URI
+ */
+export interface ProjectTasksTemplateVars {
+  projectId: string;              // Project ID from the URI template
+}
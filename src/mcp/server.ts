@@ -19,6 +19,44 @@ import { registerMemberTools } from "./tools/manageMembers/index.js";
 import { registerAddProjectNoteTool } from "./tools/addProjectNote/index.js";
 import { registerUpdateProjectTool } from "./tools/updateProject/index.js";
 import { registerWhiteboardTools } from "./tools/whiteboard/index.js";
+import { registerChainIngestTool } from "./tools/chainIngest/index.js";
+import { registerChainAddressLookupTool } from "./tools/chainAddressLookup/index.js";
+import { registerWalletGraphTool } from "./tools/walletGraph/index.js";
+import { registerPatternDetectTool } from "./tools/patternDetect/index.js";
+import { registerContractAnalyzeTool } from "./tools/contractAnalyze/index.js";
+import { registerTokenFlowTool } from "./tools/tokenFlow/index.js";
+import { registerBalanceHistoryTool } from "./tools/balanceHistory/index.js";
+import { registerNetworkMetricsCollectTool } from "./tools/networkMetricsCollect/index.js";
+import { registerNetworkMetricsTool } from "./tools/networkMetrics/index.js";
+import { registerIngestStartTool } from "./tools/ingestStart/index.js";
+import { registerIngestStatusTool } from "./tools/ingestStatus/index.js";
+import { registerIngestStopTool } from "./tools/ingestStop/index.js";
+import { registerAddressLabelSetTool } from "./tools/addressLabelSet/index.js";
+import { registerEntityGetTool } from "./tools/entityGet/index.js";
+import { registerProjectWatchTools } from "./tools/projectWatch/index.js";
+import { registerAlertRuleCreateTool } from "./tools/alertRuleCreate/index.js";
+import { registerAlertRuleListTool } from "./tools/alertRuleList/index.js";
+import { registerAlertListTool } from "./tools/alertList/index.js";
+import { registerAlertAckTool } from "./tools/alertAck/index.js";
+import { registerCypherQueryTool } from "./tools/cypherQuery/index.js";
+import { registerQuerySaveTool } from "./tools/querySave/index.js";
+import { registerQueryListTool } from "./tools/queryList/index.js";
+import { registerQueryRunTool } from "./tools/queryRun/index.js";
+import { registerAddressRiskScoreTool } from "./tools/addressRiskScore/index.js";
+import { registerTokenHoldersTool } from "./tools/tokenHolders/index.js";
+import { registerBridgeTraceTool } from "./tools/bridgeTrace/index.js";
+import { registerIdlRegisterTool } from "./tools/idlRegister/index.js";
+import { registerEventQueryTool } from "./tools/eventQuery/index.js";
+import { registerTaskCreateTool } from "./tools/taskCreate/index.js";
+import { registerTaskUpdateTool } from "./tools/taskUpdate/index.js";
+import { registerTaskListTool } from "./tools/taskList/index.js";
+import { registerTaskDeleteTool } from "./tools/taskDelete/index.js";
+import { registerAuditLogTool } from "./tools/auditLog/index.js";
+import { registerProjectRestoreTool } from "./tools/projectRestore/index.js";
+import { registerTrashListTool } from "./tools/trashList/index.js";
+import { registerWorkflowDefineTool } from "./tools/workflowDefine/index.js";
+import { registerWorkflowAssignTool } from "./tools/workflowAssign/index.js";
+import { registerWorkflowListTool } from "./tools/workflowList/index.js";
 
 // Import resource registrations
 import { registerProjectListResource } from "./resources/projectList/index.js";
@@ -27,6 +65,8 @@ import { registerProjectNotesResource } from "./resources/projectNotes/index.js"
 import { registerProjectLinksResource } from "./resources/projectLinks/index.js";
 import { registerProjectDependenciesResource } from "./resources/projectDependencies/index.js";
 import { registerProjectMembersResource } from "./resources/projectMembers/index.js";
+import { registerProjectTasksResource } from "./resources/projectTasks/index.js";
+import { registerProjectHistoryResource } from "./resources/projectHistory/index.js";
 
 export const createMcpServer = async () => {
   try {
@@ -67,6 +107,44 @@ export const createMcpServer = async () => {
     registerAddProjectNoteTool(server); // project_note_add
     registerUpdateProjectTool(server); // project_update
     registerWhiteboardTools(server); // Register whiteboard tools
+    registerChainIngestTool(server); // chain_ingest
+    registerChainAddressLookupTool(server); // chain_address_lookup
+    registerWalletGraphTool(server); // wallet_graph
+    registerPatternDetectTool(server); // pattern_detect
+    registerContractAnalyzeTool(server); // contract_analyze
+    registerTokenFlowTool(server); // token_flow
+    registerBalanceHistoryTool(server); // balance_history
+    registerNetworkMetricsCollectTool(server); // network_metrics_collect
+    registerNetworkMetricsTool(server); // network_metrics
+    registerIngestStartTool(server); // ingest_start
+    registerIngestStatusTool(server); // ingest_status
+    registerIngestStopTool(server); // ingest_stop
+    registerAddressLabelSetTool(server); // address_label_set
+    registerEntityGetTool(server); // entity_get
+    registerProjectWatchTools(server); // project_watch_address, project_watch_program
+    registerAlertRuleCreateTool(server); // alert_rule_create
+    registerAlertRuleListTool(server); // alert_rule_list
+    registerAlertListTool(server); // alert_list
+    registerAlertAckTool(server); // alert_ack
+    registerCypherQueryTool(server); // cypher_query
+    registerQuerySaveTool(server); // query_save
+    registerQueryListTool(server); // query_list
+    registerQueryRunTool(server); // query_run
+    registerAddressRiskScoreTool(server); // address_risk_score
+    registerTokenHoldersTool(server); // token_holders
+    registerBridgeTraceTool(server); // bridge_trace
+    registerIdlRegisterTool(server); // idl_register
+    registerEventQueryTool(server); // event_query
+    registerTaskCreateTool(server); // task_create
+    registerTaskUpdateTool(server); // task_update
+    registerTaskListTool(server); // task_list
+    registerTaskDeleteTool(server); // task_delete
+    registerAuditLogTool(server); // audit_log
+    registerProjectRestoreTool(server); // project_restore
+    registerTrashListTool(server); // trash_list
+    registerWorkflowDefineTool(server); // workflow_define
+    registerWorkflowAssignTool(server); // workflow_assign
+    registerWorkflowListTool(server); // workflow_list
 
     // Register resources
     registerProjectListResource(server);
@@ -75,6 +153,8 @@ export const createMcpServer = async () => {
     registerProjectLinksResource(server);
     registerProjectDependenciesResource(server);
     registerProjectMembersResource(server);
+    registerProjectTasksResource(server);
+    registerProjectHistoryResource(server);
 
     // Connect using stdio transport
     const transport = new StdioServerTransport();
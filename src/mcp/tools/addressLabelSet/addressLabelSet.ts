@@ -0,0 +1,59 @@
+import { logger } from '../../../utils/logger.js';
+import { setAddressLabel } from '../../../neo4j/blockchainService.js';
+import { AddressLabelSetSchema } from './types.js';
+import { createToolResponse } from '../../../types/mcp.js';
+import { McpError, BaseErrorCode } from '../../../types/errors.js';
+import { ToolContext } from '../../../utils/security.js';
+import { normalizeChainAddress } from '../../../utils/chainAddress.js';
+
+export const addressLabelSet = async (
+  input: unknown,
+  context: ToolContext
+) => {
+  try {
+    // Validate input
+    const { chain, address: rawAddress, cluster, heuristics, minConfidence, ...changes } =
+      AddressLabelSetSchema.parse(input);
+    const address = normalizeChainAddress(chain, rawAddress);
+
+    logger.info("Setting address label", {
+      chain,
+      address,
+      label: changes.label,
+      entityId: changes.entityId,
+      entityName: changes.entityName,
+      cluster,
+      requestId: context.requestContext?.requestId
+    });
+
+    const result = await setAddressLabel(
+      { chain, address, ...changes },
+      cluster ? { heuristics, minConfidence } : undefined
+    );
+
+    logger.info("Address label set", {
+      chain,
+      address,
+      entityId: result.entity?.id,
+      clustered: result.clustered.length,
+      requestId: context.requestContext?.requestId
+    });
+
+    return createToolResponse(JSON.stringify(result, null, 2));
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    logger.error("Error setting address label", {
+      error,
+      input,
+      requestId: context.requestContext?.requestId
+    });
+
+    throw new McpError(
+      BaseErrorCode.INTERNAL_ERROR,
+      `Error setting address label: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+};
@@ -0,0 +1,86 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { AddressLabelSetSchemaShape, EntityCandidateSchema } from './types.js';
+import { addressLabelSet } from './addressLabelSet.js';
+import { registerTool, createToolExample, createToolMetadata } from '../../../types/tool.js';
+import { z } from 'zod';
+
+export const registerAddressLabelSetTool = (server: McpServer) => {
+  registerTool(
+    server,
+    "address_label_set",
+    "Attach a human label (e.g. 'Exchange X hot wallet') to an address and assign it to an entity, creating the entity by name if needed. With cluster, addresses linked to the entity by a shared fee payer, co-signing, or a common first funder are attached as well. Labels and entity names then appear in the 'names' of every analytics result.",
+    AddressLabelSetSchemaShape,
+    addressLabelSet,
+    createToolMetadata({
+      examples: [
+        createToolExample(
+          {
+            chain: "solana",
+            address: "5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1",
+            label: "Exchange X hot wallet",
+            category: "exchange",
+            entityName: "Exchange X",
+            cluster: true,
+            heuristics: ["shared_fee_payer", "co_signer"]
+          },
+          `{
+  "chain": "solana",
+  "address": "5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1",
+  "label": "Exchange X hot wallet",
+  "category": "exchange",
+  "labeledAt": "2025-01-15T10:02:11.000Z",
+  "entity": { "id": "ENT_Q7W2K9", "name": "Exchange X" },
+  "clustered": [
+    {
+      "chain": "solana",
+      "address": "3Kz9vZ5vDk7iYk8YH3s4DkNfgLXqpjB3Sr1WUxZxhcDx",
+      "label": null,
+      "entity": { "id": "ENT_Q7W2K9", "name": "Exchange X" },
+      "heuristics": ["shared_fee_payer"],
+      "confidence": 0.97,
+      "evidence": ["had fees for 3 transactions paid by 5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1"],
+      "signatures": ["..."]
+    }
+  ]
+}`,
+          "Label an exchange hot wallet and pull in the addresses it pays fees for"
+        ),
+        createToolExample(
+          {
+            chain: "sui",
+            address: "0x2",
+            label: null,
+            entityId: null
+          },
+          `{
+  "chain": "sui",
+  "address": "0x0000000000000000000000000000000000000000000000000000000000000002",
+  "label": null,
+  "category": null,
+  "labeledAt": "2025-01-15T10:05:40.000Z",
+  "entity": null,
+  "clustered": []
+}`,
+          "Remove a label and detach the address from its entity"
+        )
+      ],
+      requiredPermission: "chain:analyze",
+      returnSchema: z.object({
+        chain: z.string().describe("Chain of the address"),
+        address: z.string().describe("Canonical address"),
+        label: z.string().nullable().describe("Human label"),
+        category: z.string().nullable().describe("Kind of address"),
+        labeledAt: z.string().nullable().describe("When the label or category last changed"),
+        entity: z.object({
+          id: z.string().describe("Entity ID"),
+          name: z.string().describe("Entity name")
+        }).nullable().describe("Entity controlling the address"),
+        clustered: z.array(EntityCandidateSchema).describe("Addresses attached to the entity by clustering")
+      }),
+      rateLimit: {
+        windowMs: 60 * 1000, // 1 minute
+        maxRequests: 30 // 30 label updates per minute
+      }
+    })
+  );
+};
@@ -0,0 +1,74 @@
+import { z } from "zod";
+import { McpToolResponse } from '../../../types/mcp.js';
+import { SUPPORTED_CHAINS } from '../../../utils/chainAddress.js';
+import { CLUSTER_HEURISTICS } from '../../../neo4j/blockchainService.js';
+
+// Schema shapes for tool registration
+export const AddressLabelSetSchemaShape = {
+  chain: z.enum(SUPPORTED_CHAINS).describe(
+    "Chain the address belongs to: 'solana' or 'sui'."
+  ),
+  address: z.string().min(1).describe(
+    "Address to label. It does not need to have been ingested yet."
+  ),
+  label: z.string().min(1).max(200).nullable().optional().describe(
+    "Human label, e.g. 'Exchange X hot wallet'. Pass null to remove the label."
+  ),
+  category: z.string().min(1).max(50).nullable().optional().describe(
+    "Free-form kind of address, e.g. 'exchange', 'multisig' or 'bridge'. Pass null to remove it."
+  ),
+  entityId: z.string().nullable().optional().describe(
+    "Entity that controls the address. Pass null to detach the address from its entity."
+  ),
+  entityName: z.string().min(1).max(200).optional().describe(
+    "Attach the address to the entity with this name, creating the entity if it does not exist."
+  ),
+  cluster: z.boolean().default(false).describe(
+    "Also attach addresses the clustering heuristics link to the entity and that no other entity controls (default: false)."
+  ),
+  heuristics: z.array(z.enum(CLUSTER_HEURISTICS)).min(1).optional().describe(
+    "Clustering heuristics to apply: 'shared_fee_payer', 'co_signer' and/or 'common_funder' (default: all)."
+  ),
+  minConfidence: z.number().min(0).max(1).optional().describe(
+    "Minimum combined confidence for clustering to attach an address (default: 0.5)."
+  )
+} as const;
+
+// Schema for validation
+export const AddressLabelSetSchema = z.object(AddressLabelSetSchemaShape)
+  .refine(
+    input => input.entityId === undefined || input.entityName === undefined,
+    "Provide either 'entityId' or 'entityName', not both"
+  )
+  .refine(
+    input => input.label !== undefined || input.category !== undefined ||
+      input.entityId !== undefined || input.entityName !== undefined || input.cluster,
+    "Nothing to change: provide a label, category, entity, or 'cluster'"
+  );
+
+export type AddressLabelSetInput = z.infer<typeof AddressLabelSetSchema>;
+export type AddressLabelSetResponse = McpToolResponse;
+
+// Label and entity names attached to analytics results
+export const AddressNamesSchema = z.record(z.object({
+  label: z.string().nullable().describe("Human label of the address"),
+  entity: z.object({
+    id: z.string().describe("Entity ID"),
+    name: z.string().describe("Entity name")
+  }).nullable().describe("Entity controlling the address")
+})).describe("Labels and entities of addresses in the result, keyed by address; unnamed addresses are omitted");
+
+// Candidate returned by clustering in address_label_set and entity_get
+export const EntityCandidateSchema = z.object({
+  chain: z.string().describe("Chain of the address"),
+  address: z.string().describe("Candidate address"),
+  label: z.string().nullable().describe("Label of the address"),
+  entity: z.object({
+    id: z.string().describe("Entity ID"),
+    name: z.string().describe("Entity name")
+  }).nullable().describe("Entity controlling the address"),
+  heuristics: z.array(z.string()).describe("Heuristics linking the address, strongest first"),
+  confidence: z.number().describe("Combined confidence from 0 to 1"),
+  evidence: z.array(z.string()).describe("What links the address to the entity"),
+  signatures: z.array(z.string()).describe("Sample transactions behind the evidence")
+});
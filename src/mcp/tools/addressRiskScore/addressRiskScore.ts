@@ -0,0 +1,56 @@
+import { logger } from '../../../utils/logger.js';
+import { getAddressRiskScore } from '../../../neo4j/blockchainService.js';
+import { AddressRiskScoreSchema } from './types.js';
+import { createToolResponse } from '../../../types/mcp.js';
+import { McpError, BaseErrorCode } from '../../../types/errors.js';
+import { ToolContext } from '../../../utils/security.js';
+import { normalizeChainAddress } from '../../../utils/chainAddress.js';
+
+export const addressRiskScore = async (
+  input: unknown,
+  context: ToolContext
+) => {
+  try {
+    // Validate input
+    const validatedInput = AddressRiskScoreSchema.parse(input);
+    const address = normalizeChainAddress(validatedInput.chain, validatedInput.address);
+
+    logger.info("Getting address risk score", {
+      chain: validatedInput.chain,
+      address,
+      rescore: validatedInput.rescore,
+      requestId: context.requestContext?.requestId
+    });
+
+    const result = await getAddressRiskScore(validatedInput.chain, address, {
+      rescore: validatedInput.rescore,
+      since: validatedInput.since
+    });
+
+    logger.info("Address risk score retrieved", {
+      chain: result.chain,
+      address: result.address,
+      score: result.score,
+      outlier: result.outlier,
+      runId: result.run.runId,
+      requestId: context.requestContext?.requestId
+    });
+
+    return createToolResponse(JSON.stringify(result, null, 2));
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    logger.error("Error getting address risk score", {
+      error,
+      input,
+      requestId: context.requestContext?.requestId
+    });
+
+    throw new McpError(
+      BaseErrorCode.INTERNAL_ERROR,
+      `Error getting address risk score: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+};
@@ -0,0 +1,122 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { AddressRiskScoreSchemaShape } from './types.js';
+import { addressRiskScore } from './addressRiskScore.js';
+import { AddressNamesSchema } from '../addressLabelSet/types.js';
+import { RISK_FEATURE_NAMES } from '../../../neo4j/blockchainService.js';
+import { registerTool, createToolExample, createToolMetadata } from '../../../types/tool.js';
+import { z } from 'zod';
+
+const FeatureName = z.enum(RISK_FEATURE_NAMES as [string, ...string[]]);
+
+export const registerAddressRiskScoreTool = (server: McpServer) => {
+  registerTool(
+    server,
+    "address_risk_score",
+    "Get an address's anomaly score over the chain's transfer graph and which features contributed to it. Degree centrality, PageRank, clustering coefficient, burstiness and age are computed in-process for every address in the most recent transfers, compared with robust z-scores, and combined into a score; addresses at or above the threshold are flagged as outliers. Scores are refreshed on a schedule, or on request with rescore.",
+    AddressRiskScoreSchemaShape,
+    addressRiskScore,
+    createToolMetadata({
+      examples: [
+        createToolExample(
+          {
+            chain: "solana",
+            address: "5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1"
+          },
+          `{
+  "chain": "solana",
+  "address": "5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1",
+  "score": 6.214,
+  "outlier": true,
+  "percentile": 0.9981,
+  "stale": false,
+  "scoredAt": "2025-03-01T12:15:08.412Z",
+  "run": {
+    "runId": "RISK_P7D2KX",
+    "chain": "solana",
+    "transferCount": 50000,
+    "scanTruncated": true,
+    "addressCount": 18342,
+    "outlierCount": 57,
+    "threshold": 4,
+    "...": "..."
+  },
+  "features": [
+    {
+      "feature": "burstiness",
+      "value": 0.91,
+      "median": -0.12,
+      "zScore": 4.87,
+      "contribution": 4.87,
+      "share": 0.614,
+      "explanation": "Burstiness is 0.91 against a median of -0.12 (z = 4.9), higher than usual"
+    },
+    {
+      "feature": "ageDays",
+      "value": 0.4,
+      "median": 96.3,
+      "zScore": -3.86,
+      "contribution": 3.86,
+      "share": 0.386,
+      "explanation": "Age in days is 0.4 against a median of 96.3 (z = -3.9), lower than usual"
+    },
+    {
+      "feature": "degreeCentrality",
+      "value": 0.00087,
+      "median": 0.000109,
+      "zScore": -0.41,
+      "contribution": 0,
+      "share": 0,
+      "explanation": "Degree centrality is 0.000870 against a median of 0.000109 (z = -0.4)"
+    }
+  ],
+  "summary": "Outlier: score 6.214 is at or above 4, driven by burstiness (61%), ageDays (39%)",
+  "names": {}
+}`,
+          "Explain why a fresh, bursty address is flagged"
+        )
+      ],
+      requiredPermission: "chain:analyze",
+      returnSchema: z.object({
+        chain: z.string().describe("Chain"),
+        address: z.string().describe("Address"),
+        score: z.number().describe("Length of the feature contributions taken together"),
+        outlier: z.boolean().describe("Whether the score is at or above the run's threshold"),
+        percentile: z.number().describe("Share of scored addresses with a lower score"),
+        stale: z.boolean().describe("Whether the score comes from an earlier run than the latest"),
+        scoredAt: z.string().describe("When the address was scored"),
+        run: z.object({
+          runId: z.string().describe("Run ID"),
+          chain: z.string().describe("Chain"),
+          startedAt: z.string().describe("When the run started"),
+          completedAt: z.string().describe("When the run completed"),
+          since: z.string().nullable().describe("Start of the scored window, if limited"),
+          transferCount: z.number().describe("Transfers in the graph"),
+          scanTruncated: z.boolean().describe("Whether older transfers were left out"),
+          addressCount: z.number().describe("Addresses scored"),
+          outlierCount: z.number().describe("Addresses flagged"),
+          threshold: z.number().describe("Score at which addresses are flagged"),
+          featureStats: z.record(z.object({
+            median: z.number().describe("Median in the feature's units"),
+            center: z.number().describe("Median on the scoring scale"),
+            scale: z.number().describe("Robust standard deviation on the scoring scale")
+          })).describe("Population statistics per feature")
+        }).describe("Latest scoring run of the chain"),
+        features: z.array(z.object({
+          feature: FeatureName.describe("Feature"),
+          value: z.number().nullable().describe("Value for the address"),
+          median: z.number().describe("Median over all scored addresses"),
+          zScore: z.number().describe("Robust z-score"),
+          contribution: z.number().describe("Part of the z-score in the suspicious direction"),
+          share: z.number().describe("Fraction of the score due to this feature"),
+          explanation: z.string().describe("The comparison in words")
+        })).describe("Features, largest contribution first"),
+        summary: z.string().describe("Whether the address is an outlier and why"),
+        names: AddressNamesSchema
+      }),
+      rateLimit: {
+        windowMs: 60 * 1000, // 1 minute
+        maxRequests: 30 // 30 requests per minute
+      }
+    })
+  );
+};
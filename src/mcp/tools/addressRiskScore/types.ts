@@ -0,0 +1,25 @@
+import { z } from "zod";
+import { McpToolResponse } from '../../../types/mcp.js';
+import { SUPPORTED_CHAINS } from '../../../utils/chainAddress.js';
+
+// Schema shapes for tool registration
+export const AddressRiskScoreSchemaShape = {
+  chain: z.enum(SUPPORTED_CHAINS).describe(
+    "Chain the address belongs to: 'solana' or 'sui'."
+  ),
+  address: z.string().min(1).describe(
+    "Address to score: base58 for Solana, 0x-prefixed hex for Sui."
+  ),
+  rescore: z.boolean().default(false).describe(
+    "Score the chain's transfer graph again before answering, instead of using the latest run (default: false)."
+  ),
+  since: z.string().datetime().optional().describe(
+    "When scoring, only use transfers at or after this ISO timestamp (default: the most recent transfers up to RISK_SCORING_SCAN_LIMIT)."
+  )
+} as const;
+
+// Schema for validation
+export const AddressRiskScoreSchema = z.object(AddressRiskScoreSchemaShape);
+
+export type AddressRiskScoreInput = z.infer<typeof AddressRiskScoreSchema>;
+export type AddressRiskScoreResponse = McpToolResponse;
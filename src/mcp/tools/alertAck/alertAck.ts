@@ -0,0 +1,48 @@
+import { logger } from '../../../utils/logger.js';
+import { acknowledgeAlerts } from '../../../neo4j/blockchainService.js';
+import { AlertAckSchema } from './types.js';
+import { createToolResponse } from '../../../types/mcp.js';
+import { McpError, BaseErrorCode } from '../../../types/errors.js';
+import { ToolContext } from '../../../utils/security.js';
+
+export const alertAck = async (
+  input: unknown,
+  context: ToolContext
+) => {
+  try {
+    // Validate input
+    const { alertIds, acknowledgedBy, note } = AlertAckSchema.parse(input);
+
+    logger.info("Acknowledging alerts", {
+      count: alertIds.length,
+      acknowledgedBy,
+      requestId: context.requestContext?.requestId
+    });
+
+    const result = await acknowledgeAlerts([...new Set(alertIds)], { by: acknowledgedBy, note });
+
+    if (result.notFound.length > 0) {
+      logger.warn("Some alerts to acknowledge were not found", {
+        notFound: result.notFound,
+        requestId: context.requestContext?.requestId
+      });
+    }
+
+    return createToolResponse(JSON.stringify(result, null, 2));
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    logger.error("Error acknowledging alerts", {
+      error,
+      input,
+      requestId: context.requestContext?.requestId
+    });
+
+    throw new McpError(
+      BaseErrorCode.INTERNAL_ERROR,
+      `Error acknowledging alerts: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+};
@@ -0,0 +1,50 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { AlertAckSchemaShape } from './types.js';
+import { alertAck } from './alertAck.js';
+import { AlertSchema } from '../alertList/types.js';
+import { registerTool, createToolExample, createToolMetadata } from '../../../types/tool.js';
+import { z } from 'zod';
+
+export const registerAlertAckTool = (server: McpServer) => {
+  registerTool(
+    server,
+    "alert_ack",
+    "Acknowledge alerts so they leave the open list, recording who acknowledged them and why. Alerts that were already acknowledged keep their original acknowledgement.",
+    AlertAckSchemaShape,
+    alertAck,
+    createToolMetadata({
+      examples: [
+        createToolExample(
+          {
+            alertIds: ["ALERT_H7N3VQ", "ALERT_ZZZZZZ"],
+            acknowledgedBy: "analyst@example.com",
+            note: "Known treasury rebalance"
+          },
+          `{
+  "acknowledged": [
+    {
+      "id": "ALERT_H7N3VQ",
+      "status": "acknowledged",
+      "acknowledgedAt": "2025-03-02T09:00:00.000Z",
+      "acknowledgedBy": "analyst@example.com",
+      "acknowledgeNote": "Known treasury rebalance",
+      "...": "..."
+    }
+  ],
+  "notFound": ["ALERT_ZZZZZZ"]
+}`,
+          "Acknowledge alerts after review"
+        )
+      ],
+      requiredPermission: "chain:analyze",
+      returnSchema: z.object({
+        acknowledged: z.array(AlertSchema).describe("Alerts after acknowledgement"),
+        notFound: z.array(z.string()).describe("IDs that matched no alert")
+      }),
+      rateLimit: {
+        windowMs: 60 * 1000, // 1 minute
+        maxRequests: 30 // 30 requests per minute
+      }
+    })
+  );
+};
@@ -0,0 +1,21 @@
+import { z } from "zod";
+import { McpToolResponse } from '../../../types/mcp.js';
+
+// Schema shapes for tool registration
+export const AlertAckSchemaShape = {
+  alertIds: z.array(z.string()).min(1).max(100).describe(
+    "Alerts to acknowledge (1-100)."
+  ),
+  acknowledgedBy: z.string().min(1).max(200).optional().describe(
+    "Who is acknowledging the alerts."
+  ),
+  note: z.string().max(1000).optional().describe(
+    "Why the alerts are acknowledged, e.g. 'Known treasury rebalance'."
+  )
+} as const;
+
+// Schema for validation
+export const AlertAckSchema = z.object(AlertAckSchemaShape);
+
+export type AlertAckInput = z.infer<typeof AlertAckSchema>;
+export type AlertAckResponse = McpToolResponse;
@@ -0,0 +1,40 @@
+import { logger } from '../../../utils/logger.js';
+import { listAlerts } from '../../../neo4j/blockchainService.js';
+import { AlertListSchema } from './types.js';
+import { createToolResponse } from '../../../types/mcp.js';
+import { McpError, BaseErrorCode } from '../../../types/errors.js';
+import { ToolContext } from '../../../utils/security.js';
+
+export const alertList = async (
+  input: unknown,
+  context: ToolContext
+) => {
+  try {
+    // Validate input
+    const options = AlertListSchema.parse(input);
+
+    logger.info("Listing alerts", {
+      options,
+      requestId: context.requestContext?.requestId
+    });
+
+    const result = await listAlerts(options);
+
+    return createToolResponse(JSON.stringify(result, null, 2));
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    logger.error("Error listing alerts", {
+      error,
+      input,
+      requestId: context.requestContext?.requestId
+    });
+
+    throw new McpError(
+      BaseErrorCode.INTERNAL_ERROR,
+      `Error listing alerts: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+};
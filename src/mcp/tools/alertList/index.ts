@@ -0,0 +1,66 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { AlertListSchemaShape, AlertSchema } from './types.js';
+import { alertList } from './alertList.js';
+import { registerTool, createToolExample, createToolMetadata } from '../../../types/tool.js';
+import { AddressNamesSchema } from '../addressLabelSet/types.js';
+import { z } from 'zod';
+
+export const registerAlertListTool = (server: McpServer) => {
+  registerTool(
+    server,
+    "alert_list",
+    "List alerts raised by alert rules, newest first, filtered by status, rule, project, chain, and time.",
+    AlertListSchemaShape,
+    alertList,
+    createToolMetadata({
+      examples: [
+        createToolExample(
+          { status: "open", projectId: "PROJ_X7K2M9" },
+          `{
+  "items": [
+    {
+      "id": "ALERT_H7N3VQ",
+      "ruleId": "ARULE_Q4T8ZP",
+      "ruleName": "Large USDC outflows",
+      "kind": "large_transfer",
+      "chain": "solana",
+      "projectId": "PROJ_X7K2M9",
+      "signature": "4hXTCkRzt9WyecNzV1XPgCDfGAZzQKNxLXgynz5QDuWWPSAZBZSHptvWRL3BjCvzUXRdKvHL2b7yGrRQcWyaqsaBCncVG7BF",
+      "blockTime": "2025-03-02T08:14:51.000Z",
+      "subject": "5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1",
+      "summary": "5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1 sent 250000000000 of EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v to 9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM (threshold 100000000000)",
+      "noteId": "NOTE_B2K8RT",
+      "status": "open",
+      "...": "..."
+    }
+  ],
+  "total": 1,
+  "page": 1,
+  "limit": 20,
+  "names": {
+    "solana": {
+      "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM": {
+        "label": "Binance hot wallet",
+        "entity": { "id": "ENT_B4N9KX", "name": "Binance" }
+      }
+    }
+  }
+}`,
+          "List a project's open alerts"
+        )
+      ],
+      requiredPermission: "chain:read",
+      returnSchema: z.object({
+        items: z.array(AlertSchema).describe("Alerts, newest first"),
+        total: z.number().describe("Alerts matching the filters"),
+        page: z.number().describe("Current page"),
+        limit: z.number().describe("Alerts per page"),
+        names: z.record(AddressNamesSchema).describe("Labels and entities of the addresses involved in the alerts, per chain")
+      }),
+      rateLimit: {
+        windowMs: 60 * 1000, // 1 minute
+        maxRequests: 60 // 60 requests per minute
+      }
+    })
+  );
+};
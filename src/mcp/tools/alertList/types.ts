@@ -0,0 +1,56 @@
+import { z } from "zod";
+import { McpToolResponse } from '../../../types/mcp.js';
+import { SUPPORTED_CHAINS } from '../../../utils/chainAddress.js';
+
+// Schema shapes for tool registration
+export const AlertListSchemaShape = {
+  status: z.enum(['open', 'acknowledged']).optional().describe(
+    "Only include alerts in this status."
+  ),
+  ruleId: z.string().optional().describe(
+    "Only include alerts raised by this rule."
+  ),
+  projectId: z.string().optional().describe(
+    "Only include alerts of rules belonging to this project."
+  ),
+  chain: z.enum(SUPPORTED_CHAINS).optional().describe(
+    "Only include alerts on this chain."
+  ),
+  since: z.string().datetime().optional().describe(
+    "Only include alerts raised at or after this ISO timestamp."
+  ),
+  page: z.number().int().min(1).default(1).describe(
+    "Page number (default: 1)."
+  ),
+  limit: z.number().int().min(1).max(100).default(20).describe(
+    "Alerts per page (default: 20)."
+  )
+} as const;
+
+// Schema for validation
+export const AlertListSchema = z.object(AlertListSchemaShape);
+
+export type AlertListInput = z.infer<typeof AlertListSchema>;
+export type AlertListResponse = McpToolResponse;
+
+// Alert returned by alert_list and alert_ack
+export const AlertSchema = z.object({
+  id: z.string().describe("Alert ID"),
+  ruleId: z.string().describe("Rule that raised the alert"),
+  ruleName: z.string().describe("Name of the rule"),
+  kind: z.string().describe("Kind of condition matched"),
+  chain: z.string().describe("Chain of the transaction"),
+  projectId: z.string().nullable().describe("Project of the rule"),
+  signature: z.string().describe("Transaction signature or digest"),
+  blockTime: z.string().nullable().describe("Block time of the transaction"),
+  subject: z.string().describe("Address, account or object the alert is about"),
+  summary: z.string().describe("What happened"),
+  addresses: z.array(z.string()).describe("Addresses involved"),
+  details: z.record(z.unknown()).describe("Condition-specific details"),
+  noteId: z.string().nullable().describe("Note added to the project for the alert"),
+  status: z.enum(['open', 'acknowledged']).describe("Alert status"),
+  createdAt: z.string().describe("When the alert was raised"),
+  acknowledgedAt: z.string().nullable().describe("When the alert was acknowledged"),
+  acknowledgedBy: z.string().nullable().describe("Who acknowledged the alert"),
+  acknowledgeNote: z.string().nullable().describe("Why the alert was acknowledged")
+});
@@ -0,0 +1,50 @@
+import { logger } from '../../../utils/logger.js';
+import { createAlertRule } from '../../../neo4j/blockchainService.js';
+import { AlertRuleCreateSchema } from './types.js';
+import { createToolResponse } from '../../../types/mcp.js';
+import { McpError, BaseErrorCode } from '../../../types/errors.js';
+import { ToolContext } from '../../../utils/security.js';
+import { normalizeChainAddress } from '../../../utils/chainAddress.js';
+
+export const alertRuleCreate = async (
+  input: unknown,
+  context: ToolContext
+) => {
+  try {
+    // Validate input
+    const validatedInput = AlertRuleCreateSchema.parse(input);
+    const addresses = validatedInput.addresses?.map(address => normalizeChainAddress(validatedInput.chain, address));
+
+    logger.info("Creating alert rule", {
+      name: validatedInput.name,
+      chain: validatedInput.chain,
+      kind: validatedInput.condition.kind,
+      projectId: validatedInput.projectId,
+      requestId: context.requestContext?.requestId
+    });
+
+    const rule = await createAlertRule({ ...validatedInput, addresses });
+
+    logger.info("Alert rule created", {
+      ruleId: rule.id,
+      requestId: context.requestContext?.requestId
+    });
+
+    return createToolResponse(JSON.stringify(rule, null, 2));
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    logger.error("Error creating alert rule", {
+      error,
+      input,
+      requestId: context.requestContext?.requestId
+    });
+
+    throw new McpError(
+      BaseErrorCode.INTERNAL_ERROR,
+      `Error creating alert rule: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+};
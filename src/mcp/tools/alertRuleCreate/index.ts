@@ -0,0 +1,70 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { AlertRuleCreateSchemaShape, AlertRuleSchema } from './types.js';
+import { alertRuleCreate } from './alertRuleCreate.js';
+import { registerTool, createToolExample, createToolMetadata } from '../../../types/tool.js';
+
+export const registerAlertRuleCreateTool = (server: McpServer) => {
+  registerTool(
+    server,
+    "alert_rule_create",
+    "Create an alert rule checked against every batch of transactions ingestion writes: large transfers of a token, upgrade authority changes, or interactions with flagged entities. Matches are stored as alerts and, when the rule belongs to a project, added to it as notes.",
+    AlertRuleCreateSchemaShape,
+    alertRuleCreate,
+    createToolMetadata({
+      examples: [
+        createToolExample(
+          {
+            name: "Large USDC outflows",
+            chain: "solana",
+            condition: {
+              kind: "large_transfer",
+              mint: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+              minAmount: "100000000000"
+            },
+            projectId: "PROJ_X7K2M9"
+          },
+          `{
+  "id": "ARULE_Q4T8ZP",
+  "name": "Large USDC outflows",
+  "chain": "solana",
+  "condition": { "kind": "large_transfer", "mint": "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v", "minAmount": "100000000000" },
+  "addresses": [],
+  "projectId": "PROJ_X7K2M9",
+  "enabled": true,
+  "alertCount": 0,
+  "openAlertCount": 0,
+  "createdAt": "2025-03-01T12:00:00.000Z",
+  "updatedAt": "2025-03-01T12:00:00.000Z",
+  "lastTriggeredAt": null
+}`,
+          "Alert on USDC transfers of 100,000 or more from the project's watched addresses"
+        ),
+        createToolExample(
+          {
+            name: "Contact with mixers",
+            chain: "sui",
+            condition: { kind: "entity_interaction", categories: ["mixer"] },
+            addresses: ["0x7d20dcdb2bca4f508ea9613994683eb4e76e9c4ed371169677c1be02aaf0b58e"]
+          },
+          `{
+  "id": "ARULE_M2R6WD",
+  "name": "Contact with mixers",
+  "chain": "sui",
+  "condition": { "kind": "entity_interaction", "categories": ["mixer"] },
+  "addresses": ["0x7d20dcdb2bca4f508ea9613994683eb4e76e9c4ed371169677c1be02aaf0b58e"],
+  "projectId": null,
+  "enabled": true,
+  "...": "..."
+}`,
+          "Alert when an address transacts with an address labeled as a mixer"
+        )
+      ],
+      requiredPermission: "chain:analyze",
+      returnSchema: AlertRuleSchema,
+      rateLimit: {
+        windowMs: 60 * 1000, // 1 minute
+        maxRequests: 20 // 20 rules per minute
+      }
+    })
+  );
+};
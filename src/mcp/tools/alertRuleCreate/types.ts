@@ -0,0 +1,91 @@
+import { z } from "zod";
+import { McpToolResponse } from '../../../types/mcp.js';
+import { SUPPORTED_CHAINS } from '../../../utils/chainAddress.js';
+
+const BaseUnitAmount = z.string().regex(/^\d+$/, "Amounts must be non-negative integers in base units");
+
+// Per-kind condition schemas
+const LargeTransferSchema = z.object({
+  kind: z.literal("large_transfer"),
+  minAmount: BaseUnitAmount.describe(
+    "Transfers at or above this amount in base units match."
+  ),
+  mint: z.string().min(1).optional().describe(
+    "Token mint or coin type to watch (default: the chain's native asset)."
+  ),
+  direction: z.enum(["out", "in", "both"]).optional().describe(
+    "'out' for transfers sent by a scoped address, 'in' for received, 'both' for either (default: 'out')."
+  )
+}).describe("A transfer of at least minAmount of one token from or to a scoped address.");
+
+const UpgradeAuthorityChangeSchema = z.object({
+  kind: z.literal("upgrade_authority_change")
+}).describe(
+  "A program's upgrade authority changed or was removed: SetAuthority on the Solana upgradeable loader " +
+  "(scoped by program data account or authority), or an UpgradeCap moved away from its owner or destroyed " +
+  "on Sui (scoped by UpgradeCap ID or owner)."
+);
+
+const EntityInteractionSchema = z.object({
+  kind: z.literal("entity_interaction"),
+  entityIds: z.array(z.string()).min(1).max(100).optional().describe(
+    "Entities whose addresses are flagged."
+  ),
+  categories: z.array(z.string().min(1)).min(1).max(20).optional().describe(
+    "Address label categories that are flagged, e.g. 'mixer' or 'sanctioned'."
+  )
+}).refine(
+  condition => condition.entityIds || condition.categories,
+  "Provide 'entityIds' and/or 'categories' to flag"
+).describe("A scoped address appearing in a transaction with a flagged address.");
+
+export const AlertConditionSchema = z.union([
+  LargeTransferSchema,
+  UpgradeAuthorityChangeSchema,
+  EntityInteractionSchema
+]);
+
+// Schema shapes for tool registration
+export const AlertRuleCreateSchemaShape = {
+  name: z.string().min(1).max(200).describe(
+    "Name of the rule, shown in alerts and project notes."
+  ),
+  chain: z.enum(SUPPORTED_CHAINS).describe(
+    "Chain whose ingested transactions the rule checks: 'solana' or 'sui'."
+  ),
+  condition: AlertConditionSchema.describe(
+    "What to alert on: 'large_transfer', 'upgrade_authority_change' or 'entity_interaction', with its parameters."
+  ),
+  addresses: z.array(z.string().min(1)).max(1000).optional().describe(
+    "Addresses the rule applies to. Omit to use the addresses and programs the project watches, " +
+    "or every address when no project is given."
+  ),
+  projectId: z.string().optional().describe(
+    "Project that receives each alert as a note."
+  ),
+  enabled: z.boolean().default(true).describe(
+    "Whether ingestion checks the rule (default: true)."
+  )
+} as const;
+
+// Schema for validation
+export const AlertRuleCreateSchema = z.object(AlertRuleCreateSchemaShape);
+
+export type AlertRuleCreateInput = z.infer<typeof AlertRuleCreateSchema>;
+export type AlertRuleCreateResponse = McpToolResponse;
+
+// Rule returned by alert_rule_create and alert_rule_list
+export const AlertRuleSchema = z.object({
+  id: z.string().describe("Rule ID"),
+  name: z.string().describe("Rule name"),
+  chain: z.string().describe("Chain the rule checks"),
+  condition: z.record(z.unknown()).describe("Kind and parameters of the condition"),
+  addresses: z.array(z.string()).describe("Addresses the rule applies to; empty uses the project's watches or every address"),
+  projectId: z.string().nullable().describe("Project receiving alerts as notes"),
+  enabled: z.boolean().describe("Whether ingestion checks the rule"),
+  alertCount: z.number().describe("Alerts raised"),
+  openAlertCount: z.number().describe("Alerts not yet acknowledged"),
+  createdAt: z.string().describe("Creation time"),
+  updatedAt: z.string().describe("Last update time"),
+  lastTriggeredAt: z.string().nullable().describe("When the rule last raised an alert")
+});
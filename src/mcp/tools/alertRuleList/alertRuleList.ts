@@ -0,0 +1,40 @@
+import { logger } from '../../../utils/logger.js';
+import { listAlertRules } from '../../../neo4j/blockchainService.js';
+import { AlertRuleListSchema } from './types.js';
+import { createToolResponse } from '../../../types/mcp.js';
+import { McpError, BaseErrorCode } from '../../../types/errors.js';
+import { ToolContext } from '../../../utils/security.js';
+
+export const alertRuleList = async (
+  input: unknown,
+  context: ToolContext
+) => {
+  try {
+    // Validate input
+    const filters = AlertRuleListSchema.parse(input);
+
+    logger.info("Listing alert rules", {
+      filters,
+      requestId: context.requestContext?.requestId
+    });
+
+    const rules = await listAlertRules(filters);
+
+    return createToolResponse(JSON.stringify({ rules }, null, 2));
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    logger.error("Error listing alert rules", {
+      error,
+      input,
+      requestId: context.requestContext?.requestId
+    });
+
+    throw new McpError(
+      BaseErrorCode.INTERNAL_ERROR,
+      `Error listing alert rules: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+};
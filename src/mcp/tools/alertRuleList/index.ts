@@ -0,0 +1,48 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { AlertRuleListSchemaShape } from './types.js';
+import { alertRuleList } from './alertRuleList.js';
+import { AlertRuleSchema } from '../alertRuleCreate/types.js';
+import { registerTool, createToolExample, createToolMetadata } from '../../../types/tool.js';
+import { z } from 'zod';
+
+export const registerAlertRuleListTool = (server: McpServer) => {
+  registerTool(
+    server,
+    "alert_rule_list",
+    "List alert rules with how many alerts each raised and how many are still open, filtered by chain, project, and enabled state.",
+    AlertRuleListSchemaShape,
+    alertRuleList,
+    createToolMetadata({
+      examples: [
+        createToolExample(
+          { projectId: "PROJ_X7K2M9" },
+          `{
+  "rules": [
+    {
+      "id": "ARULE_Q4T8ZP",
+      "name": "Large USDC outflows",
+      "chain": "solana",
+      "condition": { "kind": "large_transfer", "mint": "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v", "minAmount": "100000000000" },
+      "projectId": "PROJ_X7K2M9",
+      "enabled": true,
+      "alertCount": 4,
+      "openAlertCount": 1,
+      "lastTriggeredAt": "2025-03-02T08:14:51.000Z",
+      "...": "..."
+    }
+  ]
+}`,
+          "List a project's rules"
+        )
+      ],
+      requiredPermission: "chain:read",
+      returnSchema: z.object({
+        rules: z.array(AlertRuleSchema).describe("Rules, newest first")
+      }),
+      rateLimit: {
+        windowMs: 60 * 1000, // 1 minute
+        maxRequests: 60 // 60 requests per minute
+      }
+    })
+  );
+};
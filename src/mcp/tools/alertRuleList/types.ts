@@ -0,0 +1,22 @@
+import { z } from "zod";
+import { McpToolResponse } from '../../../types/mcp.js';
+import { SUPPORTED_CHAINS } from '../../../utils/chainAddress.js';
+
+// Schema shapes for tool registration
+export const AlertRuleListSchemaShape = {
+  chain: z.enum(SUPPORTED_CHAINS).optional().describe(
+    "Only include rules on this chain."
+  ),
+  projectId: z.string().optional().describe(
+    "Only include rules of this project."
+  ),
+  enabled: z.boolean().optional().describe(
+    "Only include enabled (true) or disabled (false) rules."
+  )
+} as const;
+
+// Schema for validation
+export const AlertRuleListSchema = z.object(AlertRuleListSchemaShape);
+
+export type AlertRuleListInput = z.infer<typeof AlertRuleListSchema>;
+export type AlertRuleListResponse = McpToolResponse;
@@ -0,0 +1,39 @@
+import { logger } from '../../../utils/logger.js';
+import { queryChangeEvents } from '../../../neo4j/auditService.js';
+import { AuditLogSchema } from './types.js';
+import { createToolResponse } from '../../../types/mcp.js';
+import { McpError, BaseErrorCode } from '../../../types/errors.js';
+import { ToolContext } from '../../../utils/security.js';
+
+export const auditLog = async (
+  input: unknown,
+  context: ToolContext
+) => {
+  try {
+    const validatedInput = AuditLogSchema.parse(input);
+
+    logger.info("Querying audit log", {
+      ...validatedInput,
+      requestId: context.requestContext?.requestId
+    });
+
+    const result = await queryChangeEvents(validatedInput);
+
+    return createToolResponse(JSON.stringify(result, null, 2));
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    logger.error("Error querying audit log", {
+      error,
+      input,
+      requestId: context.requestContext?.requestId
+    });
+
+    throw new McpError(
+      BaseErrorCode.INTERNAL_ERROR,
+      `Error querying audit log: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+};
@@ -0,0 +1,94 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { AuditLogSchemaShape } from './types.js';
+import { auditLog } from './auditLog.js';
+import { registerTool, createToolExample, createToolMetadata } from '../../../types/tool.js';
+import { z } from 'zod';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '../../../neo4j/auditService.js';
+
+const FieldChangeSchema = z.object({
+  before: z.unknown().describe("Value before the change"),
+  after: z.unknown().describe("Value after the change")
+});
+
+export const registerAuditLogTool = (server: McpServer) => {
+  registerTool(
+    server,
+    "audit_log",
+    "Query the append-only change history of projects, notes, links, members, dependencies, tasks, whiteboards and workflows, newest first. " +
+    "Each change records who made it, through which tool and request, when, and the entity's state before and after, with the changed fields of updates listed under 'changes'. " +
+    "Filter by entity, project, actor, tool, action and time range.",
+    AuditLogSchemaShape,
+    auditLog,
+    createToolMetadata({
+      examples: [
+        createToolExample(
+          {
+            entityType: "project",
+            entityId: "PROJ_A1B2C3",
+            action: "update"
+          },
+          `{
+  "items": [
+    {
+      "entityType": "project",
+      "entityId": "PROJ_A1B2C3",
+      "projectIds": ["PROJ_A1B2C3"],
+      "action": "update",
+      "actor": "analyst-7",
+      "tool": "project_update",
+      "requestId": "req_1741356000000_k3j9x2",
+      "before": { "name": "Exchange Hack", "status": "active", "id": "PROJ_A1B2C3", "parentId": null },
+      "after": { "name": "Exchange Hack", "status": "completed", "id": "PROJ_A1B2C3", "parentId": null },
+      "changes": { "status": { "before": "active", "after": "completed" } },
+      "timestamp": "2025-03-08T09:30:00.000Z",
+      "id": "CHG_F7G8H9"
+    }
+  ],
+  "total": 1,
+  "page": 1,
+  "limit": 50
+}`,
+          "See who changed a project and how"
+        ),
+        createToolExample(
+          {
+            actor: "analyst-7",
+            since: "2025-03-01T00:00:00.000Z",
+            until: "2025-03-08T00:00:00.000Z"
+          },
+          `{
+  "items": [],
+  "total": 0,
+  "page": 1,
+  "limit": 50
+}`,
+          "Everything one user changed in a week"
+        )
+      ],
+      requiredPermission: "audit:read",
+      returnSchema: z.object({
+        items: z.array(z.object({
+          id: z.string().describe("Change event ID"),
+          entityType: z.enum(AUDIT_ENTITY_TYPES).describe("Kind of entity changed"),
+          entityId: z.string().describe("ID of the entity changed"),
+          projectIds: z.array(z.string()).describe("Projects the change belongs to"),
+          action: z.enum(AUDIT_ACTIONS).describe("Kind of change"),
+          actor: z.string().describe("User who made the change"),
+          tool: z.string().nullable().describe("Tool the change was made through"),
+          requestId: z.string().nullable().describe("Request the change was made in"),
+          before: z.record(z.unknown()).nullable().describe("State before an update, delete, trash or purge"),
+          after: z.record(z.unknown()).nullable().describe("State after a create, update or restore"),
+          changes: z.record(FieldChangeSchema).nullable().describe("Fields changed by an update"),
+          timestamp: z.string().describe("When the change was made")
+        })).describe("Changes on this page, newest first"),
+        total: z.number().describe("Changes matching the filters"),
+        page: z.number().describe("Page number"),
+        limit: z.number().describe("Changes per page")
+      }),
+      rateLimit: {
+        windowMs: 60 * 1000, // 1 minute
+        maxRequests: 30 // 30 requests per minute
+      }
+    })
+  );
+};
@@ -0,0 +1,44 @@
+import { z } from "zod";
+import { McpToolResponse } from '../../../types/mcp.js';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '../../../neo4j/auditService.js';
+
+export const AuditLogSchemaShape = {
+  entityType: z.enum(AUDIT_ENTITY_TYPES).optional().describe(
+    "Only changes to this kind of entity: 'project', 'note', 'link', 'member', 'dependency', 'task', 'whiteboard' or 'workflow'."
+  ),
+  entityId: z.string().optional().describe(
+    "Only changes to the entity with this ID (e.g. a project, link or task ID)."
+  ),
+  projectId: z.string().optional().describe(
+    "Only changes within this project, including its notes, links, members, tasks, whiteboards and dependencies on either end."
+  ),
+  actor: z.string().optional().describe(
+    "Only changes made by this user ID ('anonymous' for unauthenticated calls, 'system' for writes outside a tool call)."
+  ),
+  tool: z.string().optional().describe(
+    "Only changes made through this tool (e.g. 'project_update')."
+  ),
+  action: z.enum(AUDIT_ACTIONS).optional().describe(
+    "Only changes of this kind: 'create', 'update', 'delete' (permanent), 'trash' (moved to the trash), 'restore' (out of the trash) or 'purge' (deleted from the trash)."
+  ),
+  since: z.string().datetime().optional().describe(
+    "Only changes made at or after this ISO timestamp."
+  ),
+  until: z.string().datetime().optional().describe(
+    "Only changes made at or before this ISO timestamp."
+  ),
+  page: z.number().int().positive().optional().describe(
+    "Page number for pagination (default: 1)"
+  ),
+  limit: z.number().int().positive().max(200).optional().describe(
+    "Number of changes per page (default: 50, max: 200)"
+  )
+} as const;
+
+export const AuditLogSchema = z.object(AuditLogSchemaShape).refine(
+  input => !input.since || !input.until || input.since <= input.until,
+  "'since' must not be after 'until'"
+);
+
+export type AuditLogInput = z.infer<typeof AuditLogSchema>;
+export type AuditLogResponse = McpToolResponse;
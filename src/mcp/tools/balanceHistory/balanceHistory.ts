@@ -0,0 +1,56 @@
+import { logger } from '../../../utils/logger.js';
+import { getBalanceHistory } from '../../../neo4j/blockchainService.js';
+import { BalanceHistorySchema } from './types.js';
+import { createToolResponse } from '../../../types/mcp.js';
+import { McpError, BaseErrorCode } from '../../../types/errors.js';
+import { ToolContext } from '../../../utils/security.js';
+import { normalizeChainAddress } from '../../../utils/chainAddress.js';
+
+export const balanceHistory = async (
+  input: unknown,
+  context: ToolContext
+) => {
+  try {
+    // Validate input
+    const { chain, mint, ...options } = BalanceHistorySchema.parse(input);
+    const address = normalizeChainAddress(chain, options.address);
+
+    logger.info("Reconstructing balance history", {
+      chain,
+      address,
+      mint,
+      at: options.at,
+      requestId: context.requestContext?.requestId
+    });
+
+    const result = await getBalanceHistory(chain, address, mint, {
+      at: options.at,
+      page: options.page,
+      limit: options.limit
+    });
+
+    logger.info("Balance history reconstructed", {
+      chain,
+      address,
+      entries: result.total,
+      requestId: context.requestContext?.requestId
+    });
+
+    return createToolResponse(JSON.stringify(result, null, 2));
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    logger.error("Error reconstructing balance history", {
+      error,
+      input,
+      requestId: context.requestContext?.requestId
+    });
+
+    throw new McpError(
+      BaseErrorCode.INTERNAL_ERROR,
+      `Error reconstructing balance history: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+};
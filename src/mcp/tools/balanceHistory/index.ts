@@ -0,0 +1,72 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { BalanceHistorySchemaShape } from './types.js';
+import { balanceHistory } from './balanceHistory.js';
+import { AddressNamesSchema } from '../addressLabelSet/types.js';
+import { registerTool, createToolExample, createToolMetadata } from '../../../types/tool.js';
+import { z } from 'zod';
+
+export const registerBalanceHistoryTool = (server: McpServer) => {
+  registerTool(
+    server,
+    "balance_history",
+    "Reconstruct an address's balance of one token over time from ingested balance changes, and report the balance at a given slot (Solana) or checkpoint (Sui). Solana balances are exact where the chain reported them; Sui balances are running sums of observed changes and are marked inexact.",
+    BalanceHistorySchemaShape,
+    balanceHistory,
+    createToolMetadata({
+      examples: [
+        createToolExample(
+          {
+            chain: "solana",
+            address: "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM",
+            mint: "SOL",
+            at: "311204977"
+          },
+          `{
+  "chain": "solana",
+  "address": "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM",
+  "mint": "SOL",
+  "decimals": 9,
+  "at": "311204977",
+  "balance": "1520000000",
+  "exact": true,
+  "items": [
+    { "signature": "...", "position": "311204518", "blockTime": "2025-01-03T10:00:00.000Z", "delta": "-2500005000", "balance": "4020000000", "exact": true },
+    { "signature": "...", "position": "311204977", "blockTime": "2025-01-03T10:03:04.000Z", "delta": "-2500000000", "balance": "1520000000", "exact": true }
+  ],
+  "total": 2,
+  "page": 1,
+  "limit": 50,
+  "names": {}
+}`,
+          "SOL balance of a wallet at a slot"
+        )
+      ],
+      requiredPermission: "chain:read",
+      returnSchema: z.object({
+        chain: z.string().describe("Chain"),
+        address: z.string().describe("Address"),
+        mint: z.string().describe("Token"),
+        decimals: z.number().nullable().describe("Token decimals, if known"),
+        at: z.string().nullable().describe("Requested slot or checkpoint"),
+        balance: z.string().nullable().describe("Balance at the requested position in base units"),
+        exact: z.boolean().describe("Whether the balance is anchored to a reported absolute balance"),
+        items: z.array(z.object({
+          signature: z.string().describe("Transaction signature or digest"),
+          position: z.string().nullable().describe("Slot (Solana) or checkpoint (Sui)"),
+          blockTime: z.string().nullable().describe("Block time"),
+          delta: z.string().describe("Change in base units"),
+          balance: z.string().describe("Balance after the change in base units"),
+          exact: z.boolean().describe("Whether the balance is anchored to a reported absolute balance")
+        })).describe("Balance changes up to the requested position, oldest first"),
+        total: z.number().describe("Total history entries"),
+        page: z.number().describe("Current page number"),
+        limit: z.number().describe("Number of items per page"),
+        names: AddressNamesSchema
+      }),
+      rateLimit: {
+        windowMs: 60 * 1000, // 1 minute
+        maxRequests: 60 // 60 lookups per minute
+      }
+    })
+  );
+};
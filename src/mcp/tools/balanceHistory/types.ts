@@ -0,0 +1,31 @@
+import { z } from "zod";
+import { McpToolResponse } from '../../../types/mcp.js';
+import { SUPPORTED_CHAINS } from '../../../utils/chainAddress.js';
+
+// Schema shapes for tool registration
+export const BalanceHistorySchemaShape = {
+  chain: z.enum(SUPPORTED_CHAINS).describe(
+    "Chain of the address: 'solana' or 'sui'."
+  ),
+  address: z.string().min(1).describe(
+    "Address whose balance to reconstruct."
+  ),
+  mint: z.string().min(1).describe(
+    "SPL mint, Sui coin type, or native asset ('SOL' or '0x2::sui::SUI')."
+  ),
+  at: z.string().regex(/^\d+$/, "at must be a slot or checkpoint number").optional().describe(
+    "Slot (Solana) or checkpoint (Sui) to report the balance at (default: latest)."
+  ),
+  page: z.number().int().positive().optional().describe(
+    "Page number of the history (default: 1)."
+  ),
+  limit: z.number().int().positive().max(500).optional().describe(
+    "Number of history entries per page (default: 50, max: 500)."
+  )
+} as const;
+
+// Schema for validation
+export const BalanceHistorySchema = z.object(BalanceHistorySchemaShape);
+
+export type BalanceHistoryInput = z.infer<typeof BalanceHistorySchema>;
+export type BalanceHistoryResponse = McpToolResponse;
@@ -0,0 +1,57 @@
+import { logger } from '../../../utils/logger.js';
+import { traceBridgeFlows } from '../../../neo4j/blockchainService.js';
+import { BridgeTraceSchema } from './types.js';
+import { createToolResponse } from '../../../types/mcp.js';
+import { McpError, BaseErrorCode } from '../../../types/errors.js';
+import { ToolContext } from '../../../utils/security.js';
+import { normalizeChainAddress } from '../../../utils/chainAddress.js';
+
+export const bridgeTrace = async (
+  input: unknown,
+  context: ToolContext
+) => {
+  try {
+    // Validate input
+    const validatedInput = BridgeTraceSchema.parse(input);
+    const address = normalizeChainAddress(validatedInput.chain, validatedInput.address);
+
+    logger.info("Tracing bridge flows", {
+      chain: validatedInput.chain,
+      address,
+      direction: validatedInput.direction,
+      requestId: context.requestContext?.requestId
+    });
+
+    const result = await traceBridgeFlows(validatedInput.chain, address, {
+      direction: validatedInput.direction,
+      onwardLimit: validatedInput.onwardLimit,
+      since: validatedInput.since,
+      until: validatedInput.until
+    });
+
+    logger.info("Bridge flows traced", {
+      chain: result.chain,
+      address: result.address,
+      hopCount: result.hops.length,
+      pendingCount: result.pending.length,
+      requestId: context.requestContext?.requestId
+    });
+
+    return createToolResponse(JSON.stringify(result, null, 2));
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    logger.error("Error tracing bridge flows", {
+      error,
+      input,
+      requestId: context.requestContext?.requestId
+    });
+
+    throw new McpError(
+      BaseErrorCode.INTERNAL_ERROR,
+      `Error tracing bridge flows: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+};
@@ -0,0 +1,118 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { BridgeTraceSchemaShape } from './types.js';
+import { bridgeTrace } from './bridgeTrace.js';
+import { AddressNamesSchema } from '../addressLabelSet/types.js';
+import { registerTool, createToolExample, createToolMetadata } from '../../../types/tool.js';
+import { z } from 'zod';
+
+const HopSideSchema = z.object({
+  chain: z.string().describe("Chain of this side"),
+  address: z.string().describe("Sender on the source side, recipient on the destination side"),
+  signature: z.string().describe("Transaction signature or digest"),
+  mint: z.string().nullable().describe("Token mint or coin type moved on this side"),
+  amount: z.string().nullable().describe("Base units moved on this side"),
+  blockTime: z.string().nullable().describe("When this side happened")
+});
+
+export const registerBridgeTraceTool = (server: McpServer) => {
+  registerTool(
+    server,
+    "bridge_trace",
+    "Follow an address's funds across bridges between Solana and Sui. Lock or burn transfers of known bridge programs and packages are decoded during ingestion and matched with the mint or unlock on the other chain by amount, time window and, when the payload names one, recipient; matches are stored as BRIDGED_TO edges. Returns each crossing with its confidence and the transfers carrying the funds further on the far side, plus bridge transfers still waiting for their other side to be ingested.",
+    BridgeTraceSchemaShape,
+    bridgeTrace,
+    createToolMetadata({
+      examples: [
+        createToolExample(
+          {
+            chain: "solana",
+            address: "5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1",
+            direction: "outbound",
+            onwardLimit: 2
+          },
+          `{
+  "chain": "solana",
+  "address": "5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1",
+  "hops": [
+    {
+      "bridge": "wormhole",
+      "confidence": "high",
+      "matchedOn": ["amount", "time", "recipient"],
+      "source": {
+        "chain": "solana",
+        "address": "5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1",
+        "signature": "4sGjMW1sUnHzSxGspuhpqLDx6wiyjNtZAMdL4VZHirAn...",
+        "mint": "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+        "amount": "250000000000",
+        "blockTime": "2025-03-01T09:12:44.000Z"
+      },
+      "destination": {
+        "chain": "sui",
+        "address": "0x7d20dcdb2bca4f508ea9613994683eb4e76e9c4ed371169677c1be02aaf0b58e",
+        "signature": "8Yk3cq1R9sKxW...",
+        "mint": "0x5d4b302506645c37ff133b98c4b50a5ae14841659738d6d733d59d0d217a93bf::coin::COIN",
+        "amount": "250000000000",
+        "blockTime": "2025-03-01T09:31:02.512Z"
+      },
+      "onward": [
+        {
+          "from": "0x7d20dcdb2bca4f508ea9613994683eb4e76e9c4ed371169677c1be02aaf0b58e",
+          "to": "0x3a1f...",
+          "mint": "0x5d4b302506645c37ff133b98c4b50a5ae14841659738d6d733d59d0d217a93bf::coin::COIN",
+          "amount": "250000000000",
+          "signature": "Fh2Zp...",
+          "blockTime": "2025-03-01T09:40:18.004Z"
+        }
+      ]
+    }
+  ],
+  "pending": [],
+  "names": {
+    "solana": {},
+    "sui": {
+      "0x3a1f...": { "label": "Exchange X deposit", "entity": { "id": "ENT_K2M8QZ", "name": "Exchange X" } }
+    }
+  }
+}`,
+          "Follow USDC bridged from Solana to Sui and where it went next"
+        )
+      ],
+      requiredPermission: "chain:read",
+      returnSchema: z.object({
+        chain: z.string().describe("Chain of the traced address"),
+        address: z.string().describe("Traced address"),
+        hops: z.array(z.object({
+          bridge: z.string().describe("Bridge the funds crossed"),
+          confidence: z.enum(['high', 'medium', 'low']).describe("High when the payload recipient matched, medium for a single amount and time match, low when several candidates matched"),
+          matchedOn: z.array(z.string()).describe("Criteria both sides agreed on"),
+          source: HopSideSchema.describe("Lock or burn side"),
+          destination: HopSideSchema.describe("Mint or unlock side"),
+          onward: z.array(z.object({
+            from: z.string().describe("Sender"),
+            to: z.string().describe("Recipient"),
+            mint: z.string().describe("Token mint or coin type"),
+            amount: z.string().describe("Base-unit amount"),
+            signature: z.string().describe("Transaction signature or digest"),
+            blockTime: z.string().nullable().describe("Block time")
+          })).describe("Transfers carrying the funds further on the far side of the crossing")
+        })).describe("Matched crossings, most recent first"),
+        pending: z.array(z.object({
+          id: z.string().describe("Bridge event ID"),
+          bridge: z.string().describe("Bridge"),
+          chain: z.string().describe("Chain"),
+          signature: z.string().describe("Transaction signature or digest"),
+          direction: z.enum(['outbound', 'inbound']).describe("Whether funds left or arrived"),
+          action: z.enum(['lock', 'burn', 'mint', 'unlock']).nullable().describe("What the bridge did, when known"),
+          amount: z.string().nullable().describe("Base units moved"),
+          targetChain: z.string().nullable().describe("Destination named in the payload"),
+          recipient: z.string().nullable().describe("Recipient named in the payload")
+        })).describe("Bridge transfers of the address not yet matched with their other side"),
+        names: z.record(AddressNamesSchema).describe("Labels and entities of addresses in the result, per chain")
+      }),
+      rateLimit: {
+        windowMs: 60 * 1000, // 1 minute
+        maxRequests: 30 // 30 requests per minute
+      }
+    })
+  );
+};
@@ -0,0 +1,34 @@
+import { z } from "zod";
+import { McpToolResponse } from '../../../types/mcp.js';
+import { SUPPORTED_CHAINS } from '../../../utils/chainAddress.js';
+
+// Schema shapes for tool registration
+export const BridgeTraceSchemaShape = {
+  chain: z.enum(SUPPORTED_CHAINS).describe(
+    "Chain the address belongs to: 'solana' or 'sui'."
+  ),
+  address: z.string().min(1).describe(
+    "Address whose bridge crossings to follow: base58 for Solana, 0x-prefixed hex for Sui."
+  ),
+  direction: z.enum(['outbound', 'inbound', 'both']).default('both').describe(
+    "Follow funds the address sent across a bridge ('outbound'), funds it received from one ('inbound'), or both (default: 'both')."
+  ),
+  onwardLimit: z.number().int().min(0).max(100).optional().describe(
+    "Transfers listed per crossing that carry the funds further: out of the destination after arrival, or into the source before departure (default: 10, max: 100)."
+  ),
+  since: z.string().datetime().optional().describe(
+    "Only follow crossings sent at or after this ISO timestamp."
+  ),
+  until: z.string().datetime().optional().describe(
+    "Only follow crossings sent at or before this ISO timestamp."
+  )
+} as const;
+
+// Schema for validation
+export const BridgeTraceSchema = z.object(BridgeTraceSchemaShape).refine(
+  input => !input.since || !input.until || input.since <= input.until,
+  "'since' must not be after 'until'"
+);
+
+export type BridgeTraceInput = z.infer<typeof BridgeTraceSchema>;
+export type BridgeTraceResponse = McpToolResponse;
@@ -0,0 +1,52 @@
+import { logger } from '../../../utils/logger.js';
+import { lookupAddress } from '../../../neo4j/blockchainService.js';
+import { ChainAddressLookupSchema } from './types.js';
+import { createToolResponse } from '../../../types/mcp.js';
+import { McpError, BaseErrorCode } from '../../../types/errors.js';
+import { ToolContext } from '../../../utils/security.js';
+import { normalizeChainAddress } from '../../../utils/chainAddress.js';
+
+export const chainAddressLookup = async (
+  input: unknown,
+  context: ToolContext
+) => {
+  try {
+    // Validate input
+    const validatedInput = ChainAddressLookupSchema.parse(input);
+    const address = normalizeChainAddress(validatedInput.chain, validatedInput.address);
+
+    logger.info("Looking up chain address", {
+      chain: validatedInput.chain,
+      address,
+      requestId: context.requestContext?.requestId
+    });
+
+    const result = await lookupAddress(validatedInput.chain, address, {
+      counterpartyLimit: validatedInput.counterpartyLimit
+    });
+
+    logger.info("Chain address lookup completed", {
+      chain: result.chain,
+      address: result.address,
+      transactionCount: result.activity.transactionCount,
+      requestId: context.requestContext?.requestId
+    });
+
+    return createToolResponse(JSON.stringify(result, null, 2));
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    logger.error("Error looking up chain address", {
+      error,
+      input,
+      requestId: context.requestContext?.requestId
+    });
+
+    throw new McpError(
+      BaseErrorCode.INTERNAL_ERROR,
+      `Error looking up chain address: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+};
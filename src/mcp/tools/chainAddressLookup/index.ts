@@ -0,0 +1,97 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ChainAddressLookupSchemaShape } from './types.js';
+import { chainAddressLookup } from './chainAddressLookup.js';
+import { AddressNamesSchema } from '../addressLabelSet/types.js';
+import { registerTool, createToolExample, createToolMetadata } from '../../../types/tool.js';
+import { z } from 'zod';
+
+export const registerChainAddressLookupTool = (server: McpServer) => {
+  registerTool(
+    server,
+    "chain_address_lookup",
+    "Look up a Solana or Sui address in the graph. Validates the address for its chain and returns balances seen in ingested transactions, first and last activity, most frequent counterparties, and linked projects.",
+    ChainAddressLookupSchemaShape,
+    chainAddressLookup,
+    createToolMetadata({
+      examples: [
+        createToolExample(
+          {
+            chain: "solana",
+            address: "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM",
+            counterpartyLimit: 5
+          },
+          `{
+  "chain": "solana",
+  "address": "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM",
+  "balances": [
+    { "mint": "SOL", "decimals": 9, "latest": "1520000000", "netObserved": "-480000000", "lastChangedAt": "2025-01-14T09:12:44.000Z" }
+  ],
+  "activity": {
+    "firstSeen": "2025-01-02T17:30:01.000Z",
+    "lastSeen": "2025-01-14T09:12:44.000Z",
+    "transactionCount": 25,
+    "sentCount": 19
+  },
+  "counterparties": [
+    { "chain": "solana", "address": "5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1", "sharedTransactions": 7 }
+  ],
+  "linkedProjects": [],
+  "names": {
+    "5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1": { "label": "Exchange X hot wallet", "entity": { "id": "ENT_Q7W2K9", "name": "Exchange X" } }
+  }
+}`,
+          "Summarize a Solana wallet"
+        ),
+        createToolExample(
+          {
+            chain: "sui",
+            address: "0x2"
+          },
+          `{
+  "chain": "sui",
+  "address": "0x0000000000000000000000000000000000000000000000000000000000000002",
+  "balances": [],
+  "activity": { "firstSeen": "2025-01-10T11:00:00.000Z", "lastSeen": "2025-01-10T11:00:00.000Z", "transactionCount": 1, "sentCount": 0 },
+  "counterparties": [],
+  "linkedProjects": [],
+  "names": {}
+}`,
+          "Short Sui addresses are normalized before lookup"
+        )
+      ],
+      requiredPermission: "chain:read",
+      returnSchema: z.object({
+        chain: z.string().describe("Chain of the address"),
+        address: z.string().describe("Canonical address"),
+        balances: z.array(z.object({
+          mint: z.string().describe("Token mint, coin type, or native asset"),
+          decimals: z.number().nullable().describe("Token decimals, if known"),
+          latest: z.string().nullable().describe("Last reported balance in base units, if the chain reports balances"),
+          netObserved: z.string().describe("Sum of observed balance changes in base units"),
+          lastChangedAt: z.string().nullable().describe("Block time of the last change")
+        })).describe("Balances seen in ingested transactions"),
+        activity: z.object({
+          firstSeen: z.string().nullable().describe("Earliest block time"),
+          lastSeen: z.string().nullable().describe("Latest block time"),
+          transactionCount: z.number().describe("Ingested transactions involving the address"),
+          sentCount: z.number().describe("Transactions signed by the address")
+        }).describe("Activity window"),
+        counterparties: z.array(z.object({
+          chain: z.string().describe("Counterparty chain"),
+          address: z.string().describe("Counterparty address"),
+          sharedTransactions: z.number().describe("Transactions involving both addresses")
+        })).describe("Most frequent counterparties"),
+        linkedProjects: z.array(z.object({
+          id: z.string().describe("Project ID"),
+          name: z.string().describe("Project name"),
+          relationship: z.string().describe("Relationship type")
+        })).describe("Projects linked to the address"),
+        names: AddressNamesSchema
+      }),
+      rateLimit: {
+        windowMs: 60 * 1000, // 1 minute
+        maxRequests: 60 // 60 lookups per minute
+      }
+    })
+  );
+};
@@ -0,0 +1,22 @@
+import { z } from "zod";
+import { McpToolResponse } from '../../../types/mcp.js';
+import { SUPPORTED_CHAINS } from '../../../utils/chainAddress.js';
+
+// Schema shapes for tool registration
+export const ChainAddressLookupSchemaShape = {
+  chain: z.enum(SUPPORTED_CHAINS).describe(
+    "Chain the address belongs to: 'solana' or 'sui'."
+  ),
+  address: z.string().min(1).describe(
+    "Address to look up: base58 for Solana, 0x-prefixed hex for Sui (short Sui forms such as '0x2' are padded)."
+  ),
+  counterpartyLimit: z.number().int().min(1).max(100).optional().describe(
+    "Maximum number of counterparties to return, most frequent first (default: 20)."
+  )
+} as const;
+
+// Schema for validation
+export const ChainAddressLookupSchema = z.object(ChainAddressLookupSchemaShape);
+
+export type ChainAddressLookupInput = z.infer<typeof ChainAddressLookupSchema>;
+export type ChainAddressLookupResponse = McpToolResponse;
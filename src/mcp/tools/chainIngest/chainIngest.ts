@@ -0,0 +1,92 @@
+import { logger } from '../../../utils/logger.js';
+import {
+  ingestSolanaFromRpc,
+  ingestSolanaFromDirectory,
+  ingestSuiFromRpc,
+  ingestSuiFromDirectory,
+  getChainDataProvider,
+  IngestResult
+} from '../../../neo4j/blockchainService.js';
+import { ChainIngestSchema, ChainIngestInput } from './types.js';
+import { createToolResponse } from '../../../types/mcp.js';
+import { McpError, BaseErrorCode } from '../../../types/errors.js';
+import { ToolContext } from '../../../utils/security.js';
+import { normalizeChainAddress } from '../../../utils/chainAddress.js';
+
+const runIngestion = async (input: ChainIngestInput): Promise<IngestResult> => {
+  if (input.source === 'directory') {
+    return input.chain === 'sui'
+      ? ingestSuiFromDirectory(input.directory)
+      : ingestSolanaFromDirectory(input.directory);
+  }
+  const address = input.address ? normalizeChainAddress(input.chain, input.address) : undefined;
+  const provider = getChainDataProvider(input.provider);
+  if (input.chain === 'sui') {
+    return ingestSuiFromRpc({
+      digests: input.signatures,
+      address,
+      limit: input.limit,
+      provider
+    });
+  }
+  return ingestSolanaFromRpc({
+    signatures: input.signatures,
+    address,
+    limit: input.limit,
+    provider
+  });
+};
+
+export const chainIngest = async (
+  input: unknown,
+  context: ToolContext
+) => {
+  try {
+    // Validate input
+    const validatedInput = ChainIngestSchema.parse(input);
+
+    logger.info("Starting chain ingestion", {
+      chain: validatedInput.chain,
+      source: validatedInput.source,
+      requestId: context.requestContext?.requestId
+    });
+
+    const result = await runIngestion(validatedInput);
+
+    logger.info("Chain ingestion completed", {
+      chain: result.chain,
+      ingestedCount: result.ingested.length,
+      errorCount: result.errors.length,
+      requestId: context.requestContext?.requestId
+    });
+
+    if (result.errors.length > 0) {
+      logger.warn("Some transactions failed to ingest", {
+        errors: result.errors,
+        requestId: context.requestContext?.requestId
+      });
+    }
+
+    return createToolResponse(JSON.stringify({
+      success: result.ingested.length > 0,
+      message: `Ingested ${result.ingested.length} of ${result.requested} ${result.chain} transactions` +
+              (result.errors.length > 0 ? `. ${result.errors.length} failed.` : ''),
+      ...result
+    }, null, 2));
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    logger.error("Error ingesting chain data", {
+      error,
+      input,
+      requestId: context.requestContext?.requestId
+    });
+
+    throw new McpError(
+      BaseErrorCode.INTERNAL_ERROR,
+      `Error ingesting chain data: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+};
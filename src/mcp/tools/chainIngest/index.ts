@@ -0,0 +1,90 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ChainIngestSchemaShape } from './types.js';
+import { chainIngest } from './chainIngest.js';
+import { registerTool, createToolExample, createToolMetadata } from '../../../types/tool.js';
+import { z } from 'zod';
+
+export const registerChainIngestTool = (server: McpServer) => {
+  registerTool(
+    server,
+    "chain_ingest",
+    "Ingest Solana or Sui transactions into the graph as address, transaction, instruction, program, Move call, and object nodes, recording per-address balance changes. Fetches from the configured RPC endpoint or replays saved JSON responses from a directory.",
+    ChainIngestSchemaShape,
+    chainIngest,
+    createToolMetadata({
+      examples: [
+        createToolExample(
+          {
+            chain: "solana",
+            source: "rpc",
+            address: "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM",
+            limit: 25
+          },
+          `{
+  "success": true,
+  "message": "Ingested 25 of 25 solana transactions",
+  "chain": "solana",
+  "requested": 25,
+  "ingested": ["5VERv8NMvzbJMEkV8xnrLkEaWRtSz9CosKDYjCJjBRnbJLgp8uirBgmQpjKhoR4tjF3ZpRzrFmBV6UjKdiSZkQUW", "..."],
+  "alerts": [],
+  "errors": []
+}`,
+          "Ingest recent transactions for a wallet"
+        ),
+        createToolExample(
+          {
+            chain: "solana",
+            source: "directory",
+            directory: "./fixtures/solana"
+          },
+          `{
+  "success": true,
+  "message": "Ingested 3 of 4 solana transactions. 1 failed.",
+  "chain": "solana",
+  "requested": 4,
+  "ingested": ["..."],
+  "alerts": ["ALERT_H7N3VQ"],
+  "errors": [{ "index": 2, "code": "INVALID_TRANSACTION", "message": "Transaction response is missing a signature or message" }]
+}`,
+          "Replay saved transactions from disk"
+        ),
+        createToolExample(
+          {
+            chain: "sui",
+            source: "rpc",
+            signatures: ["8RXfg5wZmnmZoVaH3dUGBXrLEJoTLdBE7yKCWxjZdXhF"]
+          },
+          `{
+  "success": true,
+  "message": "Ingested 1 of 1 sui transactions",
+  "chain": "sui",
+  "requested": 1,
+  "ingested": ["8RXfg5wZmnmZoVaH3dUGBXrLEJoTLdBE7yKCWxjZdXhF"],
+  "alerts": [],
+  "errors": []
+}`,
+          "Ingest a Sui transaction block by digest"
+        )
+      ],
+      requiredPermission: "chain:ingest",
+      returnSchema: z.object({
+        success: z.boolean().describe("Whether any transaction was ingested"),
+        message: z.string().describe("Result message"),
+        chain: z.string().describe("Chain ingested"),
+        requested: z.number().describe("Transactions requested"),
+        ingested: z.array(z.string()).describe("Ingested transaction identifiers"),
+        alerts: z.array(z.string()).describe("IDs of alerts raised by alert rules matching the ingested transactions"),
+        errors: z.array(z.object({
+          index: z.number().describe("Position in the batch"),
+          id: z.string().optional().describe("Transaction identifier, if known"),
+          code: z.string().describe("Error code"),
+          message: z.string().describe("Error message")
+        })).describe("Per-transaction failures")
+      }),
+      rateLimit: {
+        windowMs: 60 * 1000, // 1 minute
+        maxRequests: 10 // 10 ingestion runs per minute
+      }
+    })
+  );
+};
@@ -0,0 +1,73 @@
+import { z } from "zod";
+import { McpToolResponse } from '../../../types/mcp.js';
+import { SUPPORTED_CHAINS } from '../../../utils/chainAddress.js';
+import { CHAIN_DATA_PROVIDERS } from '../../../neo4j/blockchainService.js';
+
+// RPC source schema
+const RpcSourceSchema = z.object({
+  chain: z.enum(SUPPORTED_CHAINS),
+  source: z.literal("rpc"),
+  signatures: z.array(z.string().min(1)).max(1000).optional().describe(
+    "Transaction signatures (Solana) or digests (Sui) to fetch and ingest."
+  ),
+  address: z.string().min(1).optional().describe(
+    "Ingest the most recent transactions involving this address."
+  ),
+  limit: z.number().int().min(1).max(1000).default(100).describe(
+    "Maximum number of transactions to fetch for an address (default: 100)."
+  ),
+  provider: z.enum(CHAIN_DATA_PROVIDERS).optional().describe(
+    "'rpc' for the live endpoint or 'fixtures' to replay recorded responses (default: CHAIN_DATA_PROVIDER)."
+  )
+}).refine(
+  input => (input.signatures?.length ?? 0) > 0 || !!input.address,
+  "Either 'signatures' or 'address' is required for the rpc source"
+).describe(
+  "Fetch transactions through the chain data provider: the live RPC endpoint or recorded fixtures."
+);
+
+// Directory source schema
+const DirectorySourceSchema = z.object({
+  chain: z.enum(SUPPORTED_CHAINS),
+  source: z.literal("directory"),
+  directory: z.string().min(1).describe(
+    "Directory of saved JSON transaction responses."
+  )
+}).describe(
+  "Replay saved transaction responses from disk."
+);
+
+// Schema shapes for tool registration
+export const ChainIngestSchemaShape = {
+  chain: z.enum(SUPPORTED_CHAINS).describe(
+    "Chain to ingest from: 'solana' or 'sui'."
+  ),
+  source: z.enum(["rpc", "directory"]).describe(
+    "'rpc' to fetch through the chain data provider, 'directory' to load saved JSON transaction responses."
+  ),
+  signatures: z.array(z.string().min(1)).max(1000).optional().describe(
+    "For rpc source: Transaction signatures (Solana) or digests (Sui) to ingest."
+  ),
+  address: z.string().min(1).optional().describe(
+    "For rpc source: Ingest recent transactions involving this address (sent from it on Sui)."
+  ),
+  limit: z.number().int().min(1).max(1000).optional().describe(
+    "For rpc source with address: Maximum transactions to fetch (default: 100)."
+  ),
+  provider: z.enum(CHAIN_DATA_PROVIDERS).optional().describe(
+    "For rpc source: 'rpc' for the live endpoint or 'fixtures' to replay recorded JSON-RPC responses " +
+    "offline (default: CHAIN_DATA_PROVIDER setting)."
+  ),
+  directory: z.string().min(1).optional().describe(
+    "Required for directory source: Path to a directory of saved JSON responses."
+  )
+} as const;
+
+// Schema for validation
+export const ChainIngestSchema = z.union([
+  RpcSourceSchema,
+  DirectorySourceSchema
+]);
+
+export type ChainIngestInput = z.infer<typeof ChainIngestSchema>;
+export type ChainIngestResponse = McpToolResponse;
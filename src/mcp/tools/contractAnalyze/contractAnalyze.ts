@@ -0,0 +1,119 @@
+import { logger } from "../../../utils/logger.js";
+import { createToolResponse } from "../../../types/mcp.js";
+import { McpError, BaseErrorCode } from "../../../types/errors.js";
+import { ToolContext } from "../../../utils/security.js";
+import { normalizeChainAddress } from "../../../utils/chainAddress.js";
+import { ContractAnalyzeInput, ContractAnalyzeInputSchema, CONTRACT_ANALYZE_MODES } from "./types.js";
+
+// Import Neo4j service functions
+import {
+  getContractCalls,
+  getContractCallers,
+  getContractActivity,
+  getContractTokenFlows,
+  getTransactionCallTree
+} from "../../../neo4j/blockchainService.js";
+
+/**
+ * Unified tool for analyzing how a program or Move package is used
+ */
+export const contractAnalyze = async (
+  input: unknown,
+  context: ToolContext
+) => {
+  try {
+    // Validate input
+    const validatedInput = ContractAnalyzeInputSchema.parse(input);
+
+    logger.info("Contract analyze tool called", {
+      mode: validatedInput.mode,
+      chain: validatedInput.chain,
+      program: validatedInput.program,
+      signature: validatedInput.signature,
+      requestId: context.requestContext?.requestId
+    });
+
+    const result = await processContractRequest(validatedInput);
+
+    logger.info("Contract analyze tool completed successfully", {
+      mode: validatedInput.mode,
+      total: result.total,
+      requestId: context.requestContext?.requestId
+    });
+
+    return createToolResponse(JSON.stringify(result, null, 2));
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    logger.error("Error in contract analyze tool", {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+      requestId: context.requestContext?.requestId
+    });
+
+    throw new McpError(
+      BaseErrorCode.INTERNAL_ERROR,
+      `Error analyzing contract: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+};
+
+/**
+ * Process the request based on the requested mode
+ */
+const processContractRequest = async (input: ContractAnalyzeInput) => {
+  const options = {
+    since: input.since,
+    until: input.until,
+    interval: input.interval,
+    page: input.page || 1,
+    limit: Math.min(input.limit || 20, 100)
+  };
+
+  if (input.mode === "call_tree") {
+    if (!input.signature) {
+      throw new McpError(
+        BaseErrorCode.VALIDATION_ERROR,
+        "The 'signature' parameter is required for mode 'call_tree'"
+      );
+    }
+    return getTransactionCallTree(input.chain, input.signature, options);
+  }
+
+  if (!input.program) {
+    throw new McpError(
+      BaseErrorCode.VALIDATION_ERROR,
+      `The 'program' parameter is required for mode '${input.mode}'`,
+      { mode: input.mode }
+    );
+  }
+
+  // Sui package addresses share the account address format
+  const program = input.chain === "sui"
+    ? normalizeChainAddress("sui", input.program)
+    : input.program;
+
+  switch (input.mode) {
+    case "calls":
+      return getContractCalls(input.chain, program, options);
+
+    case "callers":
+      return getContractCallers(input.chain, program, options);
+
+    case "activity":
+      return getContractActivity(input.chain, program, options);
+
+    case "tokens":
+      return getContractTokenFlows(input.chain, program, options);
+
+    default:
+      // This shouldn't happen due to enum validation, but for type safety
+      throw new McpError(
+        BaseErrorCode.VALIDATION_ERROR,
+        `Unsupported mode: ${input.mode}`,
+        { supportedModes: CONTRACT_ANALYZE_MODES }
+      );
+  }
+};
@@ -0,0 +1,93 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ContractAnalyzeSchema } from './types.js';
+import { contractAnalyze } from './contractAnalyze.js';
+import { AddressNamesSchema } from '../addressLabelSet/types.js';
+import { registerTool, createToolExample, createToolMetadata } from '../../../types/tool.js';
+import { z } from 'zod';
+
+export const registerContractAnalyzeTool = (server: McpServer) => {
+  registerTool(
+    server,
+    "contract_analyze",
+    "Analyze who calls a Solana program or Sui Move package and how. Modes: 'calls' (call counts per instruction or function), 'callers' (calling addresses), 'activity' (calls and unique callers over time), 'tokens' (top tokens moved through the program), and 'call_tree' (CPI tree or Move call list of one transaction). Results are paginated.",
+    ContractAnalyzeSchema,
+    contractAnalyze,
+    createToolMetadata({
+      examples: [
+        createToolExample(
+          {
+            mode: "calls",
+            chain: "solana",
+            program: "JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4",
+            limit: 2
+          },
+          `{
+  "items": [
+    { "name": "e517cb977ae3ad2a", "callCount": 1203, "uniqueCallers": 418, "firstSeen": "2025-01-02T00:01:12.000Z", "lastSeen": "2025-01-14T23:59:40.000Z" },
+    { "name": "c1209b3341d69c81", "callCount": 377, "uniqueCallers": 201, "firstSeen": "2025-01-02T00:03:45.000Z", "lastSeen": "2025-01-14T23:41:02.000Z" }
+  ],
+  "total": 6,
+  "page": 1,
+  "limit": 2
+}`,
+          "Most called instructions of a Solana program"
+        ),
+        createToolExample(
+          {
+            mode: "activity",
+            chain: "sui",
+            program: "0x2",
+            interval: "week"
+          },
+          `{
+  "items": [
+    { "period": "2024-12-30", "callCount": 5120, "uniqueCallers": 860, "newCallers": 860 },
+    { "period": "2025-01-06", "callCount": 6034, "uniqueCallers": 912, "newCallers": 388 }
+  ],
+  "total": 2,
+  "page": 1,
+  "limit": 20
+}`,
+          "Weekly callers of a Sui package"
+        ),
+        createToolExample(
+          {
+            mode: "call_tree",
+            chain: "solana",
+            signature: "5VERv8NMvzbJMEkV8xnrLkEaWRtSz9CosKDYjCJjBRnbJLgp8uirBgmQpjKhoR4tjF3ZpRzrFmBV6UjKdiSZkQUW"
+          },
+          `{
+  "items": [
+    {
+      "id": "5VERv8...:0",
+      "path": "0",
+      "program": "JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4",
+      "name": "e517cb977ae3ad2a",
+      "stackHeight": 1,
+      "children": [
+        { "id": "5VERv8...:0.0", "path": "0.0", "program": "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA", "name": "transferChecked", "stackHeight": 2, "children": [] }
+      ]
+    }
+  ],
+  "total": 1,
+  "page": 1,
+  "limit": 20
+}`,
+          "CPI tree of a transaction"
+        )
+      ],
+      requiredPermission: "chain:read",
+      returnSchema: z.object({
+        items: z.array(z.record(z.unknown())).describe("Mode-specific result items"),
+        total: z.number().describe("Total number of items"),
+        page: z.number().describe("Current page number"),
+        limit: z.number().describe("Number of items per page"),
+        names: AddressNamesSchema.optional().describe("Labels and entities of the callers (mode 'callers' only)")
+      }),
+      rateLimit: {
+        windowMs: 60 * 1000, // 1 minute
+        maxRequests: 30 // 30 analyses per minute
+      }
+    })
+  );
+};
@@ -0,0 +1,67 @@
+import { z } from "zod";
+import { McpToolResponse } from '../../../types/mcp.js';
+import { SUPPORTED_CHAINS } from '../../../utils/chainAddress.js';
+
+export const CONTRACT_ANALYZE_MODES = [
+  "calls",           // Call counts per instruction (Solana) or module function (Sui)
+  "callers",         // Addresses calling the program or package
+  "activity",        // Calls and unique callers over time
+  "tokens",          // Tokens moved by transactions calling the program or package
+  "call_tree"        // CPI tree (Solana) or Move call list (Sui) of one transaction
+] as const;
+
+// Input schema for the tool
+export const ContractAnalyzeInputSchema = z.object({
+  mode: z.enum(CONTRACT_ANALYZE_MODES).describe(
+    "Analysis to run: 'calls', 'callers', 'activity', 'tokens', or 'call_tree'"
+  ),
+  chain: z.enum(SUPPORTED_CHAINS).describe(
+    "Chain of the program or package: 'solana' or 'sui'"
+  ),
+
+  // Required for all modes except 'call_tree'
+  program: z.string().min(1).optional().describe(
+    "Solana program ID or Sui package address (required for all modes except 'call_tree')"
+  ),
+
+  // Required for 'call_tree'
+  signature: z.string().min(1).optional().describe(
+    "Transaction signature (Solana) or digest (Sui) (required for 'call_tree' mode)"
+  ),
+
+  // Time window
+  since: z.string().datetime().optional().describe(
+    "Only include transactions at or after this ISO timestamp"
+  ),
+  until: z.string().datetime().optional().describe(
+    "Only include transactions at or before this ISO timestamp"
+  ),
+  interval: z.enum(["day", "week", "month"]).optional().describe(
+    "Bucket size for 'activity' mode (default: 'day')"
+  ),
+
+  // Pagination parameters
+  page: z.number().int().positive().optional().describe(
+    "Page number for pagination (default: 1)"
+  ),
+  limit: z.number().int().positive().max(100).optional().describe(
+    "Number of items per page (default: 20, max: 100)"
+  )
+});
+
+// Type definition for the input
+export type ContractAnalyzeInput = z.infer<typeof ContractAnalyzeInputSchema>;
+export type ContractAnalyzeResponse = McpToolResponse;
+
+// Define the schema for public export
+export const ContractAnalyzeSchema = {
+  mode: ContractAnalyzeInputSchema.shape.mode,
+  chain: ContractAnalyzeInputSchema.shape.chain,
+  program: ContractAnalyzeInputSchema.shape.program,
+  signature: ContractAnalyzeInputSchema.shape.signature,
+  since: ContractAnalyzeInputSchema.shape.since,
+  until: ContractAnalyzeInputSchema.shape.until,
+  interval: ContractAnalyzeInputSchema.shape.interval,
+  page: ContractAnalyzeInputSchema.shape.page,
+  limit: ContractAnalyzeInputSchema.shape.limit
+};
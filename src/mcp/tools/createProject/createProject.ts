@@ -67,7 +67,9 @@ export const createProject = async (
       const project = await createProjectDb({
         name: projectInput.name,
         description: projectInput.description || "",
-        status: projectInput.status
+        status: projectInput.status,
+        parentId: projectInput.parentId,
+        workflowId: projectInput.workflowId
       });
       
       logger.info("Project created successfully", { 
@@ -1,5 +1,5 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { ProjectSchema, CreateProjectSchema, VALID_PROJECT_STATUSES } from './types.js';
+import { ProjectSchema, CreateProjectSchema } from './types.js';
 import { createProject } from './createProject.js';
 import { registerTool, createToolExample, createToolMetadata } from '../../../types/tool.js';
 import { z } from 'zod';
@@ -8,7 +8,7 @@ export const registerCreateProjectTool = (server: McpServer) => {
   registerTool(
     server,
     "project_create",
-    "Create projects with unique names and optional descriptions. Supports both single project creation and bulk operations for multiple projects.",
+    "Create projects with unique names and optional descriptions. A parent project can be given to build hierarchies such as portfolio > program > project, and a workflow for the project to follow from the start, in which case the status must be one of the workflow's. Supports both single project creation and bulk operations for multiple projects.",
     {
       mode: z.enum(["single", "bulk"]).describe(
         "'single' for one project, 'bulk' for multiple projects."
@@ -19,11 +19,17 @@ export const registerCreateProjectTool = (server: McpServer) => {
       description: z.string().optional().describe(
         "Optional project description."
       ),
-      status: z.enum(VALID_PROJECT_STATUSES).optional().describe(
-        "Project status: 'active' (default), 'pending', 'completed', or 'archived'."
+      status: z.string().min(1).optional().describe(
+        "Project status: a built-in status ('active' by default, 'pending', 'completed', 'archived'), or a status of the workflow given in workflowId (default: its initial status)."
+      ),
+      parentId: z.string().optional().describe(
+        "Optional parent project ID, making the new project a sub-project."
+      ),
+      workflowId: z.string().optional().describe(
+        "Optional workflow the new project follows from the start."
       ),
       projects: z.array(ProjectSchema).min(1).max(100).optional().describe(
-        "Required for bulk mode: Array of 1-100 projects. Each project requires a unique name and can have optional description and status."
+        "Required for bulk mode: Array of 1-100 projects. Each project requires a unique name and can have optional description, status, parent project and workflow."
       )
     },
     createProject,
@@ -43,6 +49,35 @@ export const registerCreateProjectTool = (server: McpServer) => {
 }`,
           "Create a single project"
         ),
+        createToolExample(
+          {
+            mode: "single",
+            name: "Bridge Investigations",
+            parentId: "proj_100"
+          },
+          `{
+  "id": "proj_125",
+  "name": "Bridge Investigations",
+  "description": "",
+  "status": "active",
+  "parentId": "proj_100"
+}`,
+          "Create a program within a portfolio"
+        ),
+        createToolExample(
+          {
+            mode: "single",
+            name: "Exchange Listing Review",
+            workflowId: "WF_A1B2C3"
+          },
+          `{
+  "id": "proj_126",
+  "name": "Exchange Listing Review",
+  "description": "",
+  "status": "discovery"
+}`,
+          "Create a project in a custom workflow's initial status"
+        ),
         createToolExample(
           {
             mode: "bulk",
@@ -86,7 +121,8 @@ export const registerCreateProjectTool = (server: McpServer) => {
           id: z.string().describe("Project ID (proj_ prefix)"),
           name: z.string().describe("Project name"),
           description: z.string().describe("Project description"),
-          status: z.string().describe("Project status")
+          status: z.string().describe("Project status"),
+          parentId: z.string().nullable().optional().describe("Parent project ID")
         }),
         // Bulk creation response
         z.object({
@@ -2,7 +2,8 @@ import { z } from "zod";
 import { McpToolResponse } from '../../../types/mcp.js';
 import { Project } from '../../../neo4j/projectService.js';
 
-export const VALID_PROJECT_STATUSES = ['active', 'pending', 'completed', 'archived'] as const;
+// A free string, since a project following a workflow starts in one of its statuses
+const StatusSchema = z.string().min(1);
 
 export const ProjectSchema = z.object({
   name: z.string().min(1).describe(
@@ -11,9 +12,15 @@ export const ProjectSchema = z.object({
   description: z.string().optional().describe(
     "An optional description of the project that provides additional details or context."
   ),
-  status: z.enum(VALID_PROJECT_STATUSES).default("active").describe(
-    "The initial status of the project. Defaults to 'active' if not specified. " +
-    "Valid values include: 'active', 'pending', 'completed', 'archived'."
+  status: StatusSchema.optional().describe(
+    "The initial status of the project. Without a workflow, one of the built-in statuses 'active' (default), " +
+    "'pending', 'completed' or 'archived'; with one, a status of the workflow (default: its initial status)."
+  ),
+  parentId: z.string().optional().describe(
+    "Optional ID of the parent project, making this a sub-project (e.g. a program within a portfolio)."
+  ),
+  workflowId: z.string().optional().describe(
+    "Optional ID of a workflow the project follows from the start."
   )
 });
 
@@ -42,8 +49,14 @@ export const CreateProjectSchemaShape = {
   description: z.string().optional().describe(
     "Optional project description for additional context."
   ),
-  status: z.enum(VALID_PROJECT_STATUSES).optional().describe(
-    "Project status: 'active' (default), 'pending', 'completed', or 'archived'."
+  status: StatusSchema.optional().describe(
+    "Project status: a built-in status ('active' by default), or a status of the workflow given in workflowId (default: its initial status)."
+  ),
+  parentId: z.string().optional().describe(
+    "Optional parent project ID, making this a sub-project."
+  ),
+  workflowId: z.string().optional().describe(
+    "Optional workflow the project follows from the start."
   ),
   projects: z.array(z.object({
     name: z.string().min(1).describe(
@@ -52,8 +65,14 @@ export const CreateProjectSchemaShape = {
     description: z.string().optional().describe(
       "Optional project description."
     ),
-    status: z.enum(VALID_PROJECT_STATUSES).optional().describe(
-      "Optional project status. Defaults to 'active'."
+    status: StatusSchema.optional().describe(
+      "Optional project status. Defaults to 'active', or to the workflow's initial status."
+    ),
+    parentId: z.string().optional().describe(
+      "Optional parent project ID."
+    ),
+    workflowId: z.string().optional().describe(
+      "Optional workflow the project follows."
     )
   })).min(1).max(100).optional().describe(
     "Required for bulk mode. Array of 1-100 projects, each with unique name."
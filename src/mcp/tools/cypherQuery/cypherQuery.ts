@@ -0,0 +1,50 @@
+import { logger } from '../../../utils/logger.js';
+import { runCypherQuery } from '../../../neo4j/cypherQueryService.js';
+import { CypherQuerySchema } from './types.js';
+import { createToolResponse } from '../../../types/mcp.js';
+import { McpError, BaseErrorCode } from '../../../types/errors.js';
+import { ToolContext } from '../../../utils/security.js';
+
+export const cypherQuery = async (
+  input: unknown,
+  context: ToolContext
+) => {
+  try {
+    // Validate input
+    const { query, ...options } = CypherQuerySchema.parse(input);
+
+    logger.info("Running custom Cypher query", {
+      query,
+      params: options.params ? Object.keys(options.params) : [],
+      maxRows: options.maxRows,
+      graph: options.graph,
+      requestId: context.requestContext?.requestId
+    });
+
+    const result = await runCypherQuery(query, options);
+
+    logger.info("Custom Cypher query completed", {
+      rowCount: result.rowCount,
+      truncated: result.truncated,
+      elapsedMs: result.elapsedMs,
+      requestId: context.requestContext?.requestId
+    });
+
+    return createToolResponse(JSON.stringify(result, null, 2));
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    logger.error("Error running custom Cypher query", {
+      error,
+      input,
+      requestId: context.requestContext?.requestId
+    });
+
+    throw new McpError(
+      BaseErrorCode.INTERNAL_ERROR,
+      `Error running custom Cypher query: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+};
@@ -0,0 +1,90 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { CypherQuerySchemaShape } from './types.js';
+import { cypherQuery } from './cypherQuery.js';
+import { registerTool, createToolExample, createToolMetadata } from '../../../types/tool.js';
+import { z } from 'zod';
+
+const GraphElementProperties = z.record(z.unknown()).describe("Properties");
+
+export const registerCypherQueryTool = (server: McpServer) => {
+  registerTool(
+    server,
+    "cypher_query",
+    "Run a custom read-only Cypher query for analytics the other tools do not cover. The query runs in a read transaction with a timeout and a row cap, after write clauses and unsafe procedures are rejected and the planner confirms it only reads. Returns rows as a table, and optionally the nodes and relationships in them as a graph.",
+    CypherQuerySchemaShape,
+    cypherQuery,
+    createToolMetadata({
+      examples: [
+        createToolExample(
+          {
+            query: "MATCH (a:Address {chain: $chain})-[t:TRANSFERRED]->(b:Address) WHERE t.blockTime >= $since RETURN a.address AS sender, count(t) AS transfers ORDER BY transfers DESC LIMIT $limit",
+            params: { chain: "solana", since: "2025-03-01T00:00:00Z", limit: 3 }
+          },
+          `{
+  "columns": ["sender", "transfers"],
+  "rows": [
+    ["5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1", 412],
+    ["9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM", 257],
+    ["2AQdpHJ2JpcEgPiATUXjQxA8QmafFegfQwSLWSprPicm", 98]
+  ],
+  "rowCount": 3,
+  "truncated": false,
+  "elapsedMs": 84
+}`,
+          "Top senders since a date, with bound parameters"
+        ),
+        createToolExample(
+          {
+            query: "MATCH p = (:Entity {name: $name})-[:CONTROLS]->(:Address)-[:TRANSFERRED]->(:Address) RETURN p",
+            params: { name: "Exchange X" },
+            maxRows: 50,
+            graph: true
+          },
+          `{
+  "columns": ["p"],
+  "rows": [[{ "nodes": ["..."], "relationships": ["..."] }]],
+  "rowCount": 1,
+  "truncated": false,
+  "graph": {
+    "nodes": [
+      { "id": "4:9f1c:12", "labels": ["Entity"], "properties": { "name": "Exchange X", "customId": "ENT_K2P9QD" } },
+      { "id": "4:9f1c:57", "labels": ["Address"], "properties": { "chain": "solana", "address": "5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1" } }
+    ],
+    "relationships": [
+      { "id": "5:9f1c:301", "type": "CONTROLS", "start": "4:9f1c:12", "end": "4:9f1c:57", "properties": { "source": "manual", "confidence": 1 } }
+    ]
+  },
+  "elapsedMs": 31
+}`,
+          "Graph-shaped output for an entity's outgoing transfers"
+        )
+      ],
+      requiredPermission: "database:query",
+      returnSchema: z.object({
+        columns: z.array(z.string()).describe("Column names in order"),
+        rows: z.array(z.array(z.unknown())).describe("Rows as arrays of values, in column order"),
+        rowCount: z.number().describe("Rows returned"),
+        truncated: z.boolean().describe("Whether the query had more rows than maxRows"),
+        graph: z.object({
+          nodes: z.array(z.object({
+            id: z.string().describe("Element ID"),
+            labels: z.array(z.string()).describe("Labels"),
+            properties: GraphElementProperties
+          })),
+          relationships: z.array(z.object({
+            id: z.string().describe("Element ID"),
+            type: z.string().describe("Relationship type"),
+            start: z.string().describe("Element ID of the start node"),
+            end: z.string().describe("Element ID of the end node"),
+            properties: GraphElementProperties
+          }))
+        }).optional().describe("Nodes and relationships in the rows, when graph is set"),
+        elapsedMs: z.number().describe("Time taken in milliseconds")
+      }),
+      rateLimit: {
+        windowMs: 60 * 1000, // 1 minute
+        maxRequests: 30 // 30 queries per minute
+      }
+    })
+  );
+};
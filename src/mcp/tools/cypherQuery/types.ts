@@ -0,0 +1,28 @@
+import { z } from "zod";
+import { McpToolResponse } from '../../../types/mcp.js';
+
+// Schema shapes for tool registration
+export const CypherQuerySchemaShape = {
+  query: z.string().min(1).max(20000).describe(
+    "Read-only Cypher query. Write clauses (CREATE, MERGE, SET, DELETE, ...), LOAD CSV, " +
+    "several statements, and procedures other than db.labels and similar schema helpers are rejected."
+  ),
+  params: z.record(z.unknown()).optional().describe(
+    "Parameters bound to $name placeholders in the query. Whole numbers are passed as integers."
+  ),
+  maxRows: z.number().int().min(1).optional().describe(
+    "Rows to return before truncating (default and cap: CYPHER_QUERY_MAX_ROWS)."
+  ),
+  timeoutMs: z.number().int().min(100).optional().describe(
+    "Cancel the query after this many milliseconds (default and cap: CYPHER_QUERY_TIMEOUT_MS)."
+  ),
+  graph: z.boolean().default(false).describe(
+    "Also return the nodes and relationships in the rows as a graph (default: false)."
+  )
+} as const;
+
+// Schema for validation
+export const CypherQuerySchema = z.object(CypherQuerySchemaShape);
+
+export type CypherQueryInput = z.infer<typeof CypherQuerySchema>;
+export type CypherQueryResponse = McpToolResponse;
@@ -21,10 +21,12 @@ export const deleteProject = async (
         requestId: context.requestContext?.requestId 
       });
 
-      const result = await deleteProjectsBulk(validatedInput.projectIds);
+      const { children, trash } = validatedInput;
+      const result = await deleteProjectsBulk(validatedInput.projectIds, { children, trash });
       
       logger.info("Projects deletion completed", { 
         deletedCount: result.deletedCount,
+        childProjectCount: result.childProjectCount,
         notFoundCount: result.notFoundIds.length,
         requestId: context.requestContext?.requestId 
       });
@@ -36,24 +38,43 @@ export const deleteProject = async (
         });
       }
 
+      // Projects purged from the trash take their own sub-projects with them
+      // whatever `children` says, so the message follows what was done
+      const liveCount = result.deletedCount - result.purgedCount;
+      const removedChildCount = result.childProjectCount - result.movedChildProjectCount;
+      const actions = [
+        liveCount > 0 || result.purgedCount === 0
+          ? trash
+            ? `moved ${liveCount} projects to the trash`
+            : `deleted ${liveCount} projects`
+          : '',
+        result.purgedCount > 0 ? `purged ${result.purgedCount} projects from the trash` : '',
+        removedChildCount > 0 ? `${trash ? 'trashed' : 'deleted'} ${removedChildCount} sub-projects` : '',
+        result.movedChildProjectCount > 0 ? `moved ${result.movedChildProjectCount} sub-projects up a level` : ''
+      ].filter(Boolean).join(', ');
+
       return createToolResponse(JSON.stringify({
         success: result.success,
-        message: `Successfully deleted ${result.deletedCount} projects` + 
+        message: `Successfully ${actions}` +
                 (result.notFoundIds.length > 0 ? `. ${result.notFoundIds.length} projects not found.` : ''),
         deletedCount: result.deletedCount,
+        purgedCount: result.purgedCount,
+        childProjectCount: result.childProjectCount,
+        movedChildProjectCount: result.movedChildProjectCount,
         notFoundIds: result.notFoundIds
       }, null, 2));
 
     } else {
       // Single project deletion
-      const { mode, projectId } = validatedInput;
+      const { mode, projectId, children, trash } = validatedInput;
       
       logger.info("Deleting project", { 
         projectId,
+        trash,
         requestId: context.requestContext?.requestId 
       });
 
-      const result = await deleteProjectDb(projectId);
+      const result = await deleteProjectDb(projectId, { children, trash });
       
       if (!result.success) {
         logger.warn("Project not found for deletion", { 
@@ -74,13 +95,21 @@ export const deleteProject = async (
 
       return createToolResponse(JSON.stringify({
         success: result.success,
-        message: `Project ${projectId} deleted successfully` + 
+        message: (trash
+                  ? `Project ${projectId} moved to the trash`
+                  : `Project ${projectId} deleted successfully`) +
                 (result.relatedNodes ? 
-                  `. Cleaned up: ${result.relatedNodes.noteCount} notes, ` +
+                  `. ${trash ? 'Trashed with it' : 'Cleaned up'}: ${result.relatedNodes.noteCount} notes, ` +
                   `${result.relatedNodes.linkCount} links, ` +
                   `${result.relatedNodes.memberCount} members, ` +
                   `${result.relatedNodes.outgoingDepsCount} outgoing dependencies, ` +
-                  `${result.relatedNodes.incomingDepsCount} incoming dependencies` : '')
+                  `${result.relatedNodes.incomingDepsCount} incoming dependencies` : '') +
+                (result.childProjects?.count
+                  ? result.childProjects.action === 'cascade'
+                    ? `. ${trash ? 'Trashed' : 'Deleted'} ${result.childProjects.count} sub-projects`
+                    : `. Moved ${result.childProjects.count} sub-projects up a level`
+                  : ''),
+        childProjects: result.childProjects
       }, null, 2));
     }
   } catch (error) {
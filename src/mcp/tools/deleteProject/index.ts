@@ -8,7 +8,7 @@ export const registerDeleteProjectTool = (server: McpServer) => {
   registerTool(
     server,
     "project_delete",
-    "Delete projects and their associated data from the system. Supports both single project deletion and bulk operations for multiple projects.",
+    "Delete projects and their associated data from the system. Deleting a project listed by trash_list purges it from the trash. Set trash to move projects to the trash instead, where they can be restored with project_restore until the purge job removes them. Sub-projects are moved up to the deleted project's parent by default, or deleted along with it when children is 'cascade'. Supports both single project deletion and bulk operations for multiple projects.",
     DeleteProjectSchemaShape,
     deleteProject,
     createToolMetadata({
@@ -24,6 +24,23 @@ export const registerDeleteProjectTool = (server: McpServer) => {
 }`,
           "Delete a single project"
         ),
+        createToolExample(
+          {
+            mode: "single",
+            projectId: "proj_789",
+            children: "cascade",
+            trash: true
+          },
+          `{
+  "success": true,
+  "message": "Project proj_789 moved to the trash. Trashed with it: 1 notes, 0 links, 2 members, 0 outgoing dependencies, 0 incoming dependencies. Trashed 4 sub-projects",
+  "childProjects": {
+    "action": "cascade",
+    "count": 4
+  }
+}`,
+          "Move a portfolio to the trash with everything under it"
+        ),
         createToolExample(
           {
             mode: "bulk",
@@ -31,8 +48,11 @@ export const registerDeleteProjectTool = (server: McpServer) => {
           },
           `{
   "success": true,
-  "message": "Successfully deleted 2 projects",
+  "message": "Successfully deleted 2 projects, moved 3 sub-projects up a level",
   "deletedCount": 2,
+  "purgedCount": 0,
+  "childProjectCount": 3,
+  "movedChildProjectCount": 3,
   "notFoundIds": []
 }`,
           "Delete multiple projects"
@@ -43,13 +63,20 @@ export const registerDeleteProjectTool = (server: McpServer) => {
         // Single deletion response
         z.object({
           success: z.boolean().describe("Operation success"),
-          message: z.string().describe("Result with cleanup details. WARNING: This action removes all associated data and cannot be undone.")
+          message: z.string().describe("Result with cleanup details. WARNING: Without trash set, this removes all associated data and cannot be undone."),
+          childProjects: z.object({
+            action: z.enum(["reparent", "cascade"]).describe("What happened to sub-projects"),
+            count: z.number().describe("Sub-projects moved up, trashed or deleted")
+          }).optional()
         }),
         // Bulk deletion response
         z.object({
           success: z.boolean().describe("Operation success"),
           message: z.string().describe("Result message"),
-          deletedCount: z.number().describe("Projects deleted"),
+          deletedCount: z.number().describe("Projects deleted, trashed or purged from the trash"),
+          purgedCount: z.number().describe("Of those, projects purged from the trash"),
+          childProjectCount: z.number().describe("Sub-projects moved up, deleted, trashed or purged"),
+          movedChildProjectCount: z.number().describe("Of those, sub-projects moved up a level"),
           notFoundIds: z.array(z.string()).describe("Projects not found")
         })
       ]),
@@ -1,12 +1,24 @@
 import { z } from "zod";
 import { McpToolResponse } from '../../../types/mcp.js';
 
+export const CHILD_PROJECT_ACTIONS = ['reparent', 'cascade'] as const;
+
+const ChildrenSchema = z.enum(CHILD_PROJECT_ACTIONS).default('reparent').describe(
+  "What happens to sub-projects: 'reparent' (default) moves them up to the deleted project's parent, or to the top level; 'cascade' deletes them with all their data."
+);
+
+const TrashSchema = z.boolean().default(false).describe(
+  "Move to the trash, where project_restore can bring it back, instead of deleting at once (default: false). Without it, deletion cannot be undone, and a project listed by trash_list is purged from the trash."
+);
+
 // Single project deletion schema
 const SingleDeletionSchema = z.object({
   mode: z.literal("single"),
   projectId: z.string().describe(
     "Project ID to delete (must start with 'proj_')."
-  )
+  ),
+  children: ChildrenSchema,
+  trash: TrashSchema
 }).describe(
   "Delete a single project by ID."
 );
@@ -16,7 +28,9 @@ const BulkDeletionSchema = z.object({
   mode: z.literal("bulk"),
   projectIds: z.array(z.string()).min(1).max(100).describe(
     "Array of project IDs to delete (1-100 projects, must start with 'proj_')."
-  )
+  ),
+  children: ChildrenSchema,
+  trash: TrashSchema
 }).describe(
   "Delete multiple projects in a single operation."
 );
@@ -31,6 +45,12 @@ export const DeleteProjectSchemaShape = {
   ),
   projectIds: z.array(z.string()).min(1).max(100).optional().describe(
     "Required for bulk mode: Array of 1-100 project IDs to delete."
+  ),
+  children: z.enum(CHILD_PROJECT_ACTIONS).optional().describe(
+    "Sub-projects: 'reparent' (default) moves them up a level, 'cascade' deletes them too."
+  ),
+  trash: z.boolean().optional().describe(
+    "Move to the trash instead of deleting at once (default: false). Without it, projects already in the trash are purged from it."
   )
 } as const;
 
@@ -0,0 +1,60 @@
+import { logger } from '../../../utils/logger.js';
+import { lookupEntity } from '../../../neo4j/blockchainService.js';
+import { EntityGetSchema } from './types.js';
+import { createToolResponse } from '../../../types/mcp.js';
+import { McpError, BaseErrorCode } from '../../../types/errors.js';
+import { ToolContext } from '../../../utils/security.js';
+import { normalizeChainAddress } from '../../../utils/chainAddress.js';
+
+export const entityGet = async (
+  input: unknown,
+  context: ToolContext
+) => {
+  try {
+    // Validate input
+    const { entityId, chain, address, ...options } = EntityGetSchema.parse(input);
+    const target = entityId
+      ? { entityId }
+      : chain && address
+        ? { chain, address: normalizeChainAddress(chain, address) }
+        : null;
+
+    if (!target) {
+      throw new McpError(
+        BaseErrorCode.VALIDATION_ERROR,
+        "Provide either 'entityId', or 'chain' and 'address'"
+      );
+    }
+
+    logger.info("Getting entity", {
+      ...target,
+      requestId: context.requestContext?.requestId
+    });
+
+    const result = await lookupEntity(target, options);
+
+    logger.info("Entity retrieved", {
+      entityId: result.entity?.id,
+      addressCount: result.entity?.addresses.length ?? 0,
+      candidateCount: result.candidates.length,
+      requestId: context.requestContext?.requestId
+    });
+
+    return createToolResponse(JSON.stringify(result, null, 2));
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    logger.error("Error getting entity", {
+      error,
+      input,
+      requestId: context.requestContext?.requestId
+    });
+
+    throw new McpError(
+      BaseErrorCode.INTERNAL_ERROR,
+      `Error getting entity: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+};
@@ -0,0 +1,83 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { EntityGetSchemaShape } from './types.js';
+import { entityGet } from './entityGet.js';
+import { EntityCandidateSchema } from '../addressLabelSet/types.js';
+import { registerTool, createToolExample, createToolMetadata } from '../../../types/tool.js';
+import { z } from 'zod';
+
+export const registerEntityGetTool = (server: McpServer) => {
+  registerTool(
+    server,
+    "entity_get",
+    "Get an entity by ID, or the entity controlling an address, with every address it controls and how each was attributed. Also suggests further addresses it likely controls, from a shared fee payer, co-signed transactions, or a common first funder, with a confidence and the evidence behind it. Use address_label_set with cluster to attach the suggestions.",
+    EntityGetSchemaShape,
+    entityGet,
+    createToolMetadata({
+      examples: [
+        createToolExample(
+          {
+            entityId: "ENT_Q7W2K9",
+            minConfidence: 0.6
+          },
+          `{
+  "entity": {
+    "id": "ENT_Q7W2K9",
+    "name": "Exchange X",
+    "createdAt": "2025-01-15T10:02:11.000Z",
+    "updatedAt": "2025-01-15T10:02:11.000Z",
+    "addresses": [
+      {
+        "chain": "solana",
+        "address": "5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1",
+        "label": "Exchange X hot wallet",
+        "category": "exchange",
+        "source": "manual",
+        "confidence": 1,
+        "evidence": null,
+        "addedAt": "2025-01-15T10:02:11.000Z"
+      }
+    ]
+  },
+  "candidates": [
+    {
+      "chain": "solana",
+      "address": "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM",
+      "label": null,
+      "entity": null,
+      "heuristics": ["common_funder"],
+      "confidence": 0.5,
+      "evidence": ["first funded by 3Kz9vZ5vDk7iYk8YH3s4DkNfgLXqpjB3Sr1WUxZxhcDx, like 5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1"],
+      "signatures": ["..."]
+    }
+  ]
+}`,
+          "Review an entity and the addresses clustering links to it"
+        )
+      ],
+      requiredPermission: "chain:read",
+      returnSchema: z.object({
+        entity: z.object({
+          id: z.string().describe("Entity ID"),
+          name: z.string().describe("Entity name"),
+          createdAt: z.string().describe("Creation time"),
+          updatedAt: z.string().describe("Last change to the entity or its addresses"),
+          addresses: z.array(z.object({
+            chain: z.string().describe("Chain of the address"),
+            address: z.string().describe("Controlled address"),
+            label: z.string().nullable().describe("Label of the address"),
+            category: z.string().nullable().describe("Kind of address"),
+            source: z.string().describe("'manual' or the clustering heuristic that attached it"),
+            confidence: z.number().describe("Confidence of the attribution, 1 for manual"),
+            evidence: z.string().nullable().describe("What linked the address when clustered"),
+            addedAt: z.string().describe("When the address was attached")
+          })).describe("Addresses the entity controls")
+        }).nullable().describe("The entity, or null when no entity controls the address"),
+        candidates: z.array(EntityCandidateSchema).describe("Addresses the entity likely also controls")
+      }),
+      rateLimit: {
+        windowMs: 60 * 1000, // 1 minute
+        maxRequests: 30 // 30 entity lookups per minute
+      }
+    })
+  );
+};
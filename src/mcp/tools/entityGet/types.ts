@@ -0,0 +1,35 @@
+import { z } from "zod";
+import { McpToolResponse } from '../../../types/mcp.js';
+import { SUPPORTED_CHAINS } from '../../../utils/chainAddress.js';
+import { CLUSTER_HEURISTICS } from '../../../neo4j/blockchainService.js';
+
+// Schema shapes for tool registration
+export const EntityGetSchemaShape = {
+  entityId: z.string().optional().describe(
+    "ID of the entity to get."
+  ),
+  chain: z.enum(SUPPORTED_CHAINS).optional().describe(
+    "Chain of 'address': 'solana' or 'sui'."
+  ),
+  address: z.string().min(1).optional().describe(
+    "Get the entity controlling this address instead; without one, candidates are clustered around the address itself."
+  ),
+  heuristics: z.array(z.enum(CLUSTER_HEURISTICS)).min(1).optional().describe(
+    "Clustering heuristics used to suggest candidates: 'shared_fee_payer', 'co_signer' and/or 'common_funder' (default: all)."
+  ),
+  minConfidence: z.number().min(0).max(1).optional().describe(
+    "Minimum combined confidence of reported candidates (default: 0.5)."
+  ),
+  limit: z.number().int().min(0).max(200).optional().describe(
+    "Maximum candidates to return, most confident first; 0 skips clustering (default: 50)."
+  )
+} as const;
+
+// Schema for validation
+export const EntityGetSchema = z.object(EntityGetSchemaShape).refine(
+  input => Boolean(input.entityId) !== Boolean(input.chain && input.address),
+  "Provide either 'entityId', or 'chain' and 'address'"
+);
+
+export type EntityGetInput = z.infer<typeof EntityGetSchema>;
+export type EntityGetResponse = McpToolResponse;
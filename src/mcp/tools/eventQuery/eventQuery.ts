@@ -0,0 +1,40 @@
+import { logger } from '../../../utils/logger.js';
+import { queryEvents } from '../../../neo4j/blockchainService.js';
+import { EventQuerySchema } from './types.js';
+import { createToolResponse } from '../../../types/mcp.js';
+import { McpError, BaseErrorCode } from '../../../types/errors.js';
+import { ToolContext } from '../../../utils/security.js';
+
+export const eventQuery = async (
+  input: unknown,
+  context: ToolContext
+) => {
+  try {
+    // Validate input
+    const options = EventQuerySchema.parse(input);
+
+    logger.info("Querying events", {
+      options,
+      requestId: context.requestContext?.requestId
+    });
+
+    const result = await queryEvents(options);
+
+    return createToolResponse(JSON.stringify(result, null, 2));
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    logger.error("Error querying events", {
+      error,
+      input,
+      requestId: context.requestContext?.requestId
+    });
+
+    throw new McpError(
+      BaseErrorCode.INTERNAL_ERROR,
+      `Error querying events: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+};
@@ -0,0 +1,88 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { EventQuerySchemaShape } from './types.js';
+import { eventQuery } from './eventQuery.js';
+import { registerTool, createToolExample, createToolMetadata } from '../../../types/tool.js';
+import { AddressNamesSchema } from '../addressLabelSet/types.js';
+import { z } from 'zod';
+
+export const registerEventQueryTool = (server: McpServer) => {
+  registerTool(
+    server,
+    "event_query",
+    "Find ingested Sui events of a struct type, filtered on their decoded field values, sender and time. Events are decoded during ingestion through the ABI of the package defining them, so fields carry their Move types; integers are strings and can be compared exactly with gt/gte/lt/lte.",
+    EventQuerySchemaShape,
+    eventQuery,
+    createToolMetadata({
+      examples: [
+        createToolExample(
+          {
+            type: "0x26efee2b51c911237888e5dc6702868abca3c7ac12c53f76ef8eba0697695e3d::state::TransferRedeemed",
+            fields: [{ field: "emitter_chain", op: "eq", value: 1 }],
+            limit: 1
+          },
+          `{
+  "items": [
+    {
+      "id": "8Yk3cq1R9sKxW...:0",
+      "digest": "8Yk3cq1R9sKxW...",
+      "eventSeq": 0,
+      "packageId": "0x26efee2b51c911237888e5dc6702868abca3c7ac12c53f76ef8eba0697695e3d",
+      "module": "complete_transfer",
+      "sender": "0x7d20dcdb2bca4f508ea9613994683eb4e76e9c4ed371169677c1be02aaf0b58e",
+      "type": "0x26efee2b51c911237888e5dc6702868abca3c7ac12c53f76ef8eba0697695e3d::state::TransferRedeemed",
+      "blockTime": "2025-03-01T09:31:02.512Z",
+      "checkpoint": 118204551,
+      "fields": {
+        "emitter_chain": 1,
+        "emitter_address": { "value": { "data": [236, 125, 17] } },
+        "sequence": "741203"
+      },
+      "fieldTypes": {
+        "emitter_chain": "u16",
+        "emitter_address": "0x5306f64e312b581766351c07af79c72fcb1cd25147157fdc2f8ad76de9a3fb6a::external_address::ExternalAddress",
+        "sequence": "u64"
+      },
+      "decoder": "abi"
+    }
+  ],
+  "total": 37,
+  "page": 1,
+  "limit": 1,
+  "names": {
+    "0x7d20dcdb2bca4f508ea9613994683eb4e76e9c4ed371169677c1be02aaf0b58e": {
+      "label": "Wormhole relayer",
+      "entity": null
+    }
+  }
+}`,
+          "Find Wormhole transfers redeemed on Sui that came from Solana"
+        )
+      ],
+      requiredPermission: "chain:read",
+      returnSchema: z.object({
+        items: z.array(z.object({
+          id: z.string().describe("Event ID (digest and event sequence)"),
+          digest: z.string().describe("Transaction digest"),
+          eventSeq: z.number().describe("Position of the event within the transaction"),
+          packageId: z.string().describe("Package of the module that emitted the event"),
+          module: z.string().describe("Module that emitted the event"),
+          sender: z.string().describe("Sender of the transaction"),
+          type: z.string().describe("Event struct type, with type arguments"),
+          blockTime: z.string().nullable().describe("Block time of the transaction"),
+          checkpoint: z.number().nullable().describe("Checkpoint of the transaction"),
+          fields: z.record(z.unknown()).nullable().describe("Decoded field values"),
+          fieldTypes: z.record(z.string()).nullable().describe("Move type of each field, when the struct layout is known"),
+          decoder: z.enum(['abi', 'json']).nullable().describe("'abi' when read through the struct layout, 'json' when the node's rendering was kept")
+        })).describe("Events, newest first"),
+        total: z.number().describe("Events matching the filters"),
+        page: z.number().describe("Current page"),
+        limit: z.number().describe("Events per page"),
+        names: AddressNamesSchema
+      }),
+      rateLimit: {
+        windowMs: 60 * 1000, // 1 minute
+        maxRequests: 60 // 60 requests per minute
+      }
+    })
+  );
+};
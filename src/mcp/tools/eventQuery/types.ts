@@ -0,0 +1,46 @@
+import { z } from "zod";
+import { McpToolResponse } from '../../../types/mcp.js';
+import { EVENT_FIELD_OPERATORS } from '../../../neo4j/blockchainService.js';
+
+const EventFieldFilterSchema = z.object({
+  field: z.string().min(1).describe(
+    "Top-level field of the event struct, e.g. 'amount'."
+  ),
+  op: z.enum(EVENT_FIELD_OPERATORS).default('eq').describe(
+    "Comparison: eq or ne for any value, gt/gte/lt/lte for unsigned integers (default: eq)."
+  ),
+  value: z.union([z.string(), z.number(), z.boolean()]).describe(
+    "Value to compare with. Integers can be given as strings to keep 64-bit precision."
+  )
+});
+
+// Schema shapes for tool registration
+export const EventQuerySchemaShape = {
+  type: z.string().min(1).describe(
+    "Event struct type, e.g. '0x2::coin::CoinMetadata' to match every instantiation, or with type arguments to match one."
+  ),
+  fields: z.array(EventFieldFilterSchema).optional().describe(
+    "Conditions on decoded field values; all must hold."
+  ),
+  sender: z.string().optional().describe(
+    "Only include events of transactions sent by this address."
+  ),
+  since: z.string().datetime().optional().describe(
+    "Only include events at or after this ISO timestamp."
+  ),
+  until: z.string().datetime().optional().describe(
+    "Only include events at or before this ISO timestamp."
+  ),
+  page: z.number().int().min(1).default(1).describe(
+    "Page number (default: 1)."
+  ),
+  limit: z.number().int().min(1).max(100).default(20).describe(
+    "Events per page (default: 20)."
+  )
+} as const;
+
+// Schema for validation
+export const EventQuerySchema = z.object(EventQuerySchemaShape);
+
+export type EventQueryInput = z.infer<typeof EventQuerySchema>;
+export type EventQueryResponse = McpToolResponse;
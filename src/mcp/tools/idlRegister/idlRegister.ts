@@ -0,0 +1,51 @@
+import { logger } from '../../../utils/logger.js';
+import { Idl, registerIdl } from '../../../neo4j/blockchainService.js';
+import { IdlRegisterSchema } from './types.js';
+import { createToolResponse } from '../../../types/mcp.js';
+import { McpError, BaseErrorCode } from '../../../types/errors.js';
+import { ToolContext } from '../../../utils/security.js';
+
+export const idlRegister = async (
+  input: unknown,
+  context: ToolContext
+) => {
+  try {
+    // Validate input
+    const validatedInput = IdlRegisterSchema.parse(input);
+
+    logger.info("Registering IDL", {
+      programId: validatedInput.programId,
+      redecode: validatedInput.redecode,
+      requestId: context.requestContext?.requestId
+    });
+
+    // The registry checks the IDL's structure and reports what is wrong with it
+    const result = await registerIdl(validatedInput.idl as unknown as Idl, {
+      programId: validatedInput.programId,
+      redecode: validatedInput.redecode
+    });
+
+    logger.info("IDL registered", {
+      programId: result.programId,
+      name: result.name,
+      redecoded: result.redecoded,
+      requestId: context.requestContext?.requestId
+    });
+
+    return createToolResponse(JSON.stringify(result, null, 2));
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    logger.error("Error registering IDL", {
+      error,
+      requestId: context.requestContext?.requestId
+    });
+
+    throw new McpError(
+      BaseErrorCode.INTERNAL_ERROR,
+      `Error registering IDL: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+};
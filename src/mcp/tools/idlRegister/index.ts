@@ -0,0 +1,62 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { IdlRegisterSchemaShape } from './types.js';
+import { idlRegister } from './idlRegister.js';
+import { registerTool, createToolExample, createToolMetadata } from '../../../types/tool.js';
+import { z } from 'zod';
+
+export const registerIdlRegisterTool = (server: McpServer) => {
+  registerTool(
+    server,
+    "idl_register",
+    "Register an Anchor IDL so a Solana program's instructions are decoded into names and arguments on Instruction nodes. The IDL is stored on the Program node and used for every later ingestion; by default the program's already ingested instructions are decoded again. System, SPL Token and Token-2022 are decoded without an IDL.",
+    IdlRegisterSchemaShape,
+    idlRegister,
+    createToolMetadata({
+      examples: [
+        createToolExample(
+          {
+            idl: {
+              address: "JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4",
+              metadata: { name: "jupiter", version: "0.1.0", spec: "0.1.0" },
+              instructions: [
+                {
+                  name: "route",
+                  discriminator: [229, 23, 203, 151, 122, 227, 173, 42],
+                  accounts: [],
+                  args: [
+                    { name: "in_amount", type: "u64" },
+                    { name: "quoted_out_amount", type: "u64" },
+                    { name: "slippage_bps", type: "u16" },
+                    { name: "platform_fee_bps", type: "u8" }
+                  ]
+                }
+              ]
+            }
+          },
+          `{
+  "programId": "JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4",
+  "name": "jupiter",
+  "source": "registered",
+  "instructionCount": 1,
+  "registeredAt": "2025-03-01T10:04:12.331Z",
+  "redecoded": 18234
+}`,
+          "Decode stored and future Jupiter route instructions"
+        )
+      ],
+      requiredPermission: "chain:ingest",
+      returnSchema: z.object({
+        programId: z.string().describe("Program the IDL decodes"),
+        name: z.string().describe("IDL name, stored on decoded instructions as `decoder`"),
+        source: z.literal('registered').describe("Where the IDL came from"),
+        instructionCount: z.number().describe("Instructions the IDL describes"),
+        registeredAt: z.string().describe("When the IDL was registered"),
+        redecoded: z.number().describe("Stored instructions of the program decoded again")
+      }),
+      rateLimit: {
+        windowMs: 60 * 1000, // 1 minute
+        maxRequests: 10 // 10 requests per minute
+      }
+    })
+  );
+};
@@ -0,0 +1,21 @@
+import { z } from "zod";
+import { McpToolResponse } from '../../../types/mcp.js';
+
+// Schema shapes for tool registration
+export const IdlRegisterSchemaShape = {
+  idl: z.record(z.unknown()).describe(
+    "Anchor IDL JSON, in the 0.30 layout (snake_case names, explicit discriminators, `address`) or the older one (camelCase names, `metadata.address`)."
+  ),
+  programId: z.string().min(1).optional().describe(
+    "Program to decode with this IDL (default: the address the IDL names)."
+  ),
+  redecode: z.boolean().default(true).describe(
+    "Decode the program's already ingested instructions again with this IDL (default: true)."
+  )
+} as const;
+
+// Schema for validation
+export const IdlRegisterSchema = z.object(IdlRegisterSchemaShape);
+
+export type IdlRegisterInput = z.infer<typeof IdlRegisterSchema>;
+export type IdlRegisterResponse = McpToolResponse;
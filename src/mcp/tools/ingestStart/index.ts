@@ -0,0 +1,77 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { IngestStartSchemaShape, IngestionJobStateSchema } from './types.js';
+import { ingestStart } from './ingestStart.js';
+import { registerTool, createToolExample, createToolMetadata } from '../../../types/tool.js';
+
+export const registerIngestStartTool = (server: McpServer) => {
+  registerTool(
+    server,
+    "ingest_start",
+    "Start a background ingestion job for an address, or resume a stopped or failed one. Backfill jobs walk the address's history from newest to oldest; follow jobs pick up new transactions on a cron schedule. The cursor (last slot on Solana, last checkpoint on Sui) is saved after every batch, so jobs resume after a restart.",
+    IngestStartSchemaShape,
+    ingestStart,
+    createToolMetadata({
+      examples: [
+        createToolExample(
+          {
+            chain: "solana",
+            address: "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM",
+            mode: "backfill",
+            batchSize: 200,
+            stopAt: "290000000"
+          },
+          `{
+  "id": "IJOB_K3M9QX",
+  "chain": "solana",
+  "address": "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM",
+  "mode": "backfill",
+  "status": "active",
+  "provider": "rpc",
+  "schedule": null,
+  "batchSize": 200,
+  "concurrency": 4,
+  "maxRetries": 5,
+  "stopAt": "290000000",
+  "cursor": { "id": null, "position": null },
+  "processed": 0,
+  "failed": 0,
+  "attempts": 0,
+  "lastError": null,
+  "createdAt": "2025-01-03T10:00:00.000Z",
+  "updatedAt": "2025-01-03T10:00:00.000Z",
+  "lastRunAt": null,
+  "completedAt": null,
+  "running": true,
+  "queued": false,
+  "nextRunAt": null
+}`,
+          "Backfill a wallet's history down to a slot"
+        ),
+        createToolExample(
+          {
+            chain: "sui",
+            address: "0x7d20dcdb2bca4f508ea9613994683eb4e76e9c4ed371169677c1be02aaf0b58e",
+            mode: "follow",
+            schedule: "*/10 * * * *"
+          },
+          `{
+  "id": "IJOB_P8TZ2D",
+  "chain": "sui",
+  "mode": "follow",
+  "status": "active",
+  "schedule": "*/10 * * * *",
+  "...": "...",
+  "nextRunAt": "2025-01-03T10:10:00.000Z"
+}`,
+          "Follow a Sui address every 10 minutes"
+        )
+      ],
+      requiredPermission: "chain:ingest",
+      returnSchema: IngestionJobStateSchema,
+      rateLimit: {
+        windowMs: 60 * 1000, // 1 minute
+        maxRequests: 10 // 10 job starts per minute
+      }
+    })
+  );
+};
@@ -0,0 +1,57 @@
+import { logger } from '../../../utils/logger.js';
+import { getIngestionJobService } from '../../../neo4j/ingestionJobService.js';
+import { IngestStartSchema } from './types.js';
+import { createToolResponse } from '../../../types/mcp.js';
+import { McpError, BaseErrorCode } from '../../../types/errors.js';
+import { ToolContext } from '../../../utils/security.js';
+import { normalizeChainAddress } from '../../../utils/chainAddress.js';
+
+export const ingestStart = async (
+  input: unknown,
+  context: ToolContext
+) => {
+  try {
+    // Validate input
+    const { jobId, chain, address, mode = 'backfill', ...options } = IngestStartSchema.parse(input);
+    const service = getIngestionJobService();
+
+    logger.info("Starting ingestion job", {
+      jobId,
+      chain,
+      mode,
+      requestId: context.requestContext?.requestId
+    });
+
+    // The schema guarantees chain and address whenever jobId is absent
+    const job = jobId || !chain || !address
+      ? await service.resumeJob(jobId as string)
+      : await service.startJob({
+          chain,
+          address: normalizeChainAddress(chain, address),
+          mode,
+          ...options
+        });
+
+    logger.info("Ingestion job started", {
+      jobId: job.id,
+      requestId: context.requestContext?.requestId
+    });
+
+    return createToolResponse(JSON.stringify(job, null, 2));
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    logger.error("Error starting ingestion job", {
+      error,
+      input,
+      requestId: context.requestContext?.requestId
+    });
+
+    throw new McpError(
+      BaseErrorCode.INTERNAL_ERROR,
+      `Error starting ingestion job: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+};
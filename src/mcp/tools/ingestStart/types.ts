@@ -0,0 +1,78 @@
+import { z } from "zod";
+import { McpToolResponse } from '../../../types/mcp.js';
+import { SUPPORTED_CHAINS } from '../../../utils/chainAddress.js';
+import { CHAIN_DATA_PROVIDERS } from '../../../neo4j/blockchainService.js';
+
+// Schema shapes for tool registration
+export const IngestStartSchemaShape = {
+  jobId: z.string().optional().describe(
+    "Resume an existing stopped or failed job from its saved cursor instead of creating one."
+  ),
+  chain: z.enum(SUPPORTED_CHAINS).optional().describe(
+    "Chain to ingest from: 'solana' or 'sui'. Required when creating a job."
+  ),
+  address: z.string().min(1).optional().describe(
+    "Address whose transactions to ingest (Sui: transactions sent from it). Required when creating a job."
+  ),
+  mode: z.enum(['backfill', 'follow']).optional().describe(
+    "'backfill' walks the address's history from newest to oldest and completes (default); " +
+    "'follow' ingests new transactions on a schedule."
+  ),
+  provider: z.enum(CHAIN_DATA_PROVIDERS).optional().describe(
+    "'rpc' for the live endpoint or 'fixtures' to replay recorded responses (default: CHAIN_DATA_PROVIDER setting)."
+  ),
+  schedule: z.string().optional().describe(
+    "Cron expression for follow jobs (default: '*/5 * * * *')."
+  ),
+  batchSize: z.number().int().min(1).max(1000).optional().describe(
+    "Transactions per batch; the cursor is saved after each batch (default: 100)."
+  ),
+  concurrency: z.number().int().min(1).max(16).optional().describe(
+    "Transaction fetches in flight per batch (default: 4)."
+  ),
+  maxRetries: z.number().int().min(0).max(20).optional().describe(
+    "Consecutive failed batches retried with exponential backoff before the job fails (default: 5)."
+  ),
+  stopAt: z.string().regex(/^\d+$/, "stopAt must be a slot or checkpoint number").optional().describe(
+    "Backfill only: stop once history reaches this slot (Solana) or checkpoint (Sui)."
+  )
+} as const;
+
+// Schema for validation
+export const IngestStartSchema = z.object(IngestStartSchemaShape).refine(
+  input => input.jobId || (input.chain && input.address),
+  "Provide either 'jobId' to resume a job, or 'chain' and 'address' to create one"
+);
+
+export type IngestStartInput = z.infer<typeof IngestStartSchema>;
+export type IngestStartResponse = McpToolResponse;
+
+// Job state returned by ingest_start, ingest_status and ingest_stop
+export const IngestionJobStateSchema = z.object({
+  id: z.string().describe("Job ID"),
+  chain: z.string().describe("Chain"),
+  address: z.string().describe("Address being ingested"),
+  mode: z.string().describe("'backfill' or 'follow'"),
+  status: z.string().describe("'active', 'stopped', 'completed' or 'failed'"),
+  provider: z.string().describe("Chain data provider: 'rpc' or 'fixtures'"),
+  schedule: z.string().nullable().describe("Cron schedule of a follow job"),
+  batchSize: z.number().describe("Transactions per batch"),
+  concurrency: z.number().describe("Fetches in flight per batch"),
+  maxRetries: z.number().describe("Retries before the job fails"),
+  stopAt: z.string().nullable().describe("Backfill stop slot or checkpoint"),
+  cursor: z.object({
+    id: z.string().nullable().describe("Last processed signature or digest"),
+    position: z.string().nullable().describe("Its slot (Solana) or checkpoint (Sui)")
+  }).describe("Saved cursor"),
+  processed: z.number().describe("Transactions ingested"),
+  failed: z.number().describe("Transactions that could not be ingested"),
+  attempts: z.number().describe("Consecutive failed batches"),
+  lastError: z.string().nullable().describe("Most recent error"),
+  createdAt: z.string().describe("Creation time"),
+  updatedAt: z.string().describe("Last update time"),
+  lastRunAt: z.string().nullable().describe("Time of the last completed batch"),
+  completedAt: z.string().nullable().describe("Completion time of a backfill"),
+  running: z.boolean().describe("Whether a batch is in progress"),
+  queued: z.boolean().describe("Whether the job is waiting for a free slot"),
+  nextRunAt: z.string().nullable().describe("Next scheduled run or retry")
+});
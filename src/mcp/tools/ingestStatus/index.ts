@@ -0,0 +1,59 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { IngestStatusSchemaShape } from './types.js';
+import { ingestStatus } from './ingestStatus.js';
+import { IngestionJobStateSchema } from '../ingestStart/types.js';
+import { registerTool, createToolExample, createToolMetadata } from '../../../types/tool.js';
+import { z } from 'zod';
+
+export const registerIngestStatusTool = (server: McpServer) => {
+  registerTool(
+    server,
+    "ingest_status",
+    "Report the progress of an ingestion job (cursor, processed and failed counts, retries, next run), or list jobs filtered by status and chain.",
+    IngestStatusSchemaShape,
+    ingestStatus,
+    createToolMetadata({
+      examples: [
+        createToolExample(
+          { jobId: "IJOB_K3M9QX" },
+          `{
+  "id": "IJOB_K3M9QX",
+  "chain": "solana",
+  "mode": "backfill",
+  "status": "active",
+  "cursor": { "id": "4hXTCkRzt9WyecNzV1XPgCDfGAZzQKNxLXgynz5QDuWWPSAZBZSHptvWRL3BjCvzUXRdKvHL2b7yGrRQcWyaqsaBCncVG7BF", "position": "301552310" },
+  "processed": 1800,
+  "failed": 3,
+  "attempts": 0,
+  "lastError": "Transaction not found",
+  "running": true,
+  "queued": false,
+  "nextRunAt": null,
+  "...": "..."
+}`,
+          "Check a backfill's progress"
+        ),
+        createToolExample(
+          { status: "failed" },
+          `{
+  "jobs": [
+    { "id": "IJOB_P8TZ2D", "chain": "sui", "mode": "follow", "status": "failed", "attempts": 6, "lastError": "RPC request suix_queryTransactionBlocks failed with HTTP 429", "...": "..." }
+  ]
+}`,
+          "List failed jobs"
+        )
+      ],
+      requiredPermission: "chain:read",
+      returnSchema: z.union([
+        IngestionJobStateSchema,
+        z.object({
+          jobs: z.array(IngestionJobStateSchema).describe("Jobs, newest first")
+        })
+      ]),
+      rateLimit: {
+        windowMs: 60 * 1000, // 1 minute
+        maxRequests: 60 // 60 status checks per minute
+      }
+    })
+  );
+};
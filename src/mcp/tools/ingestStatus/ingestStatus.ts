@@ -0,0 +1,44 @@
+import { logger } from '../../../utils/logger.js';
+import { getIngestionJobService } from '../../../neo4j/ingestionJobService.js';
+import { IngestStatusSchema } from './types.js';
+import { createToolResponse } from '../../../types/mcp.js';
+import { McpError, BaseErrorCode } from '../../../types/errors.js';
+import { ToolContext } from '../../../utils/security.js';
+
+export const ingestStatus = async (
+  input: unknown,
+  context: ToolContext
+) => {
+  try {
+    // Validate input
+    const { jobId, ...filters } = IngestStatusSchema.parse(input);
+    const service = getIngestionJobService();
+
+    logger.info("Querying ingestion job status", {
+      jobId,
+      filters,
+      requestId: context.requestContext?.requestId
+    });
+
+    const result = jobId
+      ? await service.getJobState(jobId)
+      : { jobs: await service.listJobStates(filters) };
+
+    return createToolResponse(JSON.stringify(result, null, 2));
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    logger.error("Error querying ingestion job status", {
+      error,
+      input,
+      requestId: context.requestContext?.requestId
+    });
+
+    throw new McpError(
+      BaseErrorCode.INTERNAL_ERROR,
+      `Error querying ingestion job status: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+};
@@ -0,0 +1,22 @@
+import { z } from "zod";
+import { McpToolResponse } from '../../../types/mcp.js';
+import { SUPPORTED_CHAINS } from '../../../utils/chainAddress.js';
+
+// Schema shapes for tool registration
+export const IngestStatusSchemaShape = {
+  jobId: z.string().optional().describe(
+    "Job to report on. Omit to list jobs."
+  ),
+  status: z.enum(['active', 'stopped', 'completed', 'failed']).optional().describe(
+    "When listing, only include jobs in this status."
+  ),
+  chain: z.enum(SUPPORTED_CHAINS).optional().describe(
+    "When listing, only include jobs on this chain."
+  )
+} as const;
+
+// Schema for validation
+export const IngestStatusSchema = z.object(IngestStatusSchemaShape);
+
+export type IngestStatusInput = z.infer<typeof IngestStatusSchema>;
+export type IngestStatusResponse = McpToolResponse;
@@ -0,0 +1,39 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { IngestStopSchemaShape } from './types.js';
+import { ingestStop } from './ingestStop.js';
+import { IngestionJobStateSchema } from '../ingestStart/types.js';
+import { registerTool, createToolExample, createToolMetadata } from '../../../types/tool.js';
+
+export const registerIngestStopTool = (server: McpServer) => {
+  registerTool(
+    server,
+    "ingest_stop",
+    "Stop an ingestion job. A batch in progress finishes and its cursor is saved; resume the job later with ingest_start and its jobId.",
+    IngestStopSchemaShape,
+    ingestStop,
+    createToolMetadata({
+      examples: [
+        createToolExample(
+          { jobId: "IJOB_K3M9QX" },
+          `{
+  "id": "IJOB_K3M9QX",
+  "chain": "solana",
+  "mode": "backfill",
+  "status": "stopped",
+  "cursor": { "id": "4hXTCkRzt9WyecNzV1XPgCDfGAZzQKNxLXgynz5QDuWWPSAZBZSHptvWRL3BjCvzUXRdKvHL2b7yGrRQcWyaqsaBCncVG7BF", "position": "301552310" },
+  "processed": 1800,
+  "running": true,
+  "...": "..."
+}`,
+          "Stop a backfill"
+        )
+      ],
+      requiredPermission: "chain:ingest",
+      returnSchema: IngestionJobStateSchema,
+      rateLimit: {
+        windowMs: 60 * 1000, // 1 minute
+        maxRequests: 20 // 20 job stops per minute
+      }
+    })
+  );
+};
@@ -0,0 +1,40 @@
+import { logger } from '../../../utils/logger.js';
+import { getIngestionJobService } from '../../../neo4j/ingestionJobService.js';
+import { IngestStopSchema } from './types.js';
+import { createToolResponse } from '../../../types/mcp.js';
+import { McpError, BaseErrorCode } from '../../../types/errors.js';
+import { ToolContext } from '../../../utils/security.js';
+
+export const ingestStop = async (
+  input: unknown,
+  context: ToolContext
+) => {
+  try {
+    // Validate input
+    const { jobId } = IngestStopSchema.parse(input);
+
+    logger.info("Stopping ingestion job", {
+      jobId,
+      requestId: context.requestContext?.requestId
+    });
+
+    const job = await getIngestionJobService().stopJob(jobId);
+
+    return createToolResponse(JSON.stringify(job, null, 2));
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    logger.error("Error stopping ingestion job", {
+      error,
+      input,
+      requestId: context.requestContext?.requestId
+    });
+
+    throw new McpError(
+      BaseErrorCode.INTERNAL_ERROR,
+      `Error stopping ingestion job: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+};
@@ -0,0 +1,15 @@
+import { z } from "zod";
+import { McpToolResponse } from '../../../types/mcp.js';
+
+// Schema shapes for tool registration
+export const IngestStopSchemaShape = {
+  jobId: z.string().min(1).describe(
+    "Job to stop. A batch in progress finishes and its cursor is saved, so the job can be resumed with ingest_start."
+  )
+} as const;
+
+// Schema for validation
+export const IngestStopSchema = z.object(IngestStopSchemaShape);
+
+export type IngestStopInput = z.infer<typeof IngestStopSchema>;
+export type IngestStopResponse = McpToolResponse;
@@ -131,10 +131,10 @@ export async function searchNeo4j(args: Neo4jSearchArgs): Promise<any> {
       ? `ANY(item IN ${propertyRef} WHERE ${buildWhereClause(args, 'item')})`
       : whereClause;
 
-    // Build the complete query
+    // Build the complete query; nodes in the trash are never found
     const query = `
       MATCH (n${labelFilter})
-      ${args.fuzzy ? '' : `WHERE ${arrayWhereClause}`} 
+      WHERE n.trashedAt IS NULL${args.fuzzy ? '' : ` AND (${arrayWhereClause})`}
       WITH n 
       ${args.fuzzy ? '' : `SKIP toInteger($skip)
       LIMIT toInteger($limit)`} ${args.fuzzy ? `LIMIT ${fuzzyQueryLimit}` : ''}
@@ -230,7 +230,7 @@ export async function searchNeo4j(args: Neo4jSearchArgs): Promise<any> {
     // For non-fuzzy search, get total count for pagination metadata
     const countQuery = `
       MATCH (n${labelFilter}) 
-      WHERE ${arrayWhereClause}
+      WHERE n.trashedAt IS NULL AND (${arrayWhereClause})
       RETURN count(n) as total
     `;
     const countResult = await session.run(countQuery, params);
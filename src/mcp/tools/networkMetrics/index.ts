@@ -0,0 +1,94 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { NetworkMetricsSchemaShape } from './types.js';
+import { networkMetrics } from './networkMetrics.js';
+import { registerTool, createToolExample, createToolMetadata } from '../../../types/tool.js';
+import { z } from 'zod';
+
+const PercentilesSchema = z.object({
+  avg: z.number().describe("Transactions over total sampled seconds"),
+  p50: z.number().describe("Median per-minute rate"),
+  p90: z.number().describe("90th percentile per-minute rate"),
+  p99: z.number().describe("99th percentile per-minute rate"),
+  max: z.number().describe("Highest per-minute rate")
+});
+
+const WindowStatsShape = {
+  txCount: z.number().describe("Transactions"),
+  tps: PercentilesSchema.describe("Transactions per second"),
+  failedRatio: z.number().nullable().describe("Failed share of transactions (ingested source only)"),
+  feeTotal: z.string().nullable().describe("Fees or net gas in base units (lamports or MIST)"),
+  avgFee: z.string().nullable().describe("Average fee per transaction in base units"),
+  computeUnits: z.string().nullable().describe("Compute units consumed (ingested Solana only)"),
+  bucketCount: z.number().describe("One-minute buckets aggregated")
+};
+
+export const registerNetworkMetricsTool = (server: McpServer) => {
+  registerTool(
+    server,
+    "network_metrics",
+    "Query stored network performance metrics as a time series: TPS with percentiles over per-minute rates, fees or gas paid, compute units and failed transaction ratio, aggregated into 1m, 1h or 1d windows. Pass several chains to compare them.",
+    NetworkMetricsSchemaShape,
+    networkMetrics,
+    createToolMetadata({
+      examples: [
+        createToolExample(
+          { chains: ["solana", "sui"], window: "1h", since: "2025-01-03T08:00:00Z", until: "2025-01-03T10:00:00Z" },
+          `{
+  "window": "1h",
+  "source": "network",
+  "since": "2025-01-03T08:00:00Z",
+  "until": "2025-01-03T10:00:00Z",
+  "series": [
+    {
+      "chain": "solana",
+      "points": [
+        { "start": "2025-01-03T08:00:00.000Z", "txCount": 3902400, "tps": { "avg": 1084, "p50": 1079.5, "p90": 1190.2, "p99": 1288.1, "max": 1301.7 }, "failedRatio": null, "feeTotal": null, "avgFee": null, "computeUnits": null, "bucketCount": 60 }
+      ],
+      "summary": { "txCount": 7893120, "tps": { "avg": 1096.267, "p50": 1088.4, "p90": 1201.3, "p99": 1297.6, "max": 1311.2 }, "failedRatio": null, "feeTotal": null, "avgFee": null, "computeUnits": null, "bucketCount": 120 }
+    },
+    {
+      "chain": "sui",
+      "points": [
+        { "start": "2025-01-03T08:00:00.000Z", "txCount": 126000, "tps": { "avg": 35, "p50": 33.1, "p90": 48.7, "p99": 61.2, "max": 64.9 }, "failedRatio": null, "feeTotal": "4310238810000", "avgFee": "34208244", "computeUnits": null, "bucketCount": 60 }
+      ],
+      "summary": { "txCount": 259200, "tps": { "avg": 36, "p50": 34.2, "p90": 49.9, "p99": 62.5, "max": 66.1 }, "failedRatio": null, "feeTotal": "8872117230000", "avgFee": "34229001", "computeUnits": null, "bucketCount": 120 }
+    }
+  ],
+  "comparison": [
+    { "metric": "avgTps", "values": { "solana": 1096.267, "sui": 36 }, "leader": "solana" },
+    { "metric": "p99Tps", "values": { "solana": 1297.6, "sui": 62.5 }, "leader": "solana" },
+    { "metric": "maxTps", "values": { "solana": 1311.2, "sui": 66.1 }, "leader": "solana" },
+    { "metric": "txCount", "values": { "solana": 7893120, "sui": 259200 }, "leader": "solana" },
+    { "metric": "failedRatio", "values": { "solana": null, "sui": null }, "leader": null }
+  ]
+}`,
+          "Compare hourly throughput of Solana and Sui"
+        )
+      ],
+      requiredPermission: "chain:read",
+      returnSchema: z.object({
+        window: z.string().describe("Aggregation window"),
+        source: z.string().describe("Bucket source"),
+        since: z.string().describe("Start of the range"),
+        until: z.string().describe("End of the range"),
+        series: z.array(z.object({
+          chain: z.string().describe("Chain"),
+          points: z.array(z.object({
+            start: z.string().describe("Window start"),
+            ...WindowStatsShape
+          })).describe("Windows in chronological order"),
+          summary: z.object(WindowStatsShape).describe("Whole range")
+        })).describe("Series per chain"),
+        comparison: z.array(z.object({
+          metric: z.string().describe("Compared metric"),
+          values: z.record(z.number().nullable()).describe("Value per chain"),
+          leader: z.string().nullable().describe("Chain with the highest value")
+        })).describe("Side-by-side comparison when several chains are requested")
+      }),
+      rateLimit: {
+        windowMs: 60 * 1000, // 1 minute
+        maxRequests: 30 // 30 queries per minute
+      }
+    })
+  );
+};
@@ -0,0 +1,48 @@
+import { logger } from '../../../utils/logger.js';
+import { getNetworkMetrics } from '../../../neo4j/blockchainService.js';
+import { NetworkMetricsSchema } from './types.js';
+import { createToolResponse } from '../../../types/mcp.js';
+import { McpError, BaseErrorCode } from '../../../types/errors.js';
+import { ToolContext } from '../../../utils/security.js';
+
+export const networkMetrics = async (
+  input: unknown,
+  context: ToolContext
+) => {
+  try {
+    // Validate input
+    const { chains, ...options } = NetworkMetricsSchema.parse(input);
+
+    logger.info("Querying network metrics", {
+      chains,
+      window: options.window,
+      source: options.source,
+      requestId: context.requestContext?.requestId
+    });
+
+    const result = await getNetworkMetrics([...new Set(chains)], options);
+
+    logger.info("Network metrics queried", {
+      chains,
+      points: result.series.reduce((sum, series) => sum + series.points.length, 0),
+      requestId: context.requestContext?.requestId
+    });
+
+    return createToolResponse(JSON.stringify(result, null, 2));
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    logger.error("Error querying network metrics", {
+      error,
+      input,
+      requestId: context.requestContext?.requestId
+    });
+
+    throw new McpError(
+      BaseErrorCode.INTERNAL_ERROR,
+      `Error querying network metrics: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+};
@@ -0,0 +1,32 @@
+import { z } from "zod";
+import { McpToolResponse } from '../../../types/mcp.js';
+import { SUPPORTED_CHAINS } from '../../../utils/chainAddress.js';
+
+// Schema shapes for tool registration
+export const NetworkMetricsSchemaShape = {
+  chains: z.array(z.enum(SUPPORTED_CHAINS)).min(1).max(SUPPORTED_CHAINS.length).describe(
+    "Chains to report on. Passing several chains adds a side-by-side comparison of headline metrics."
+  ),
+  window: z.enum(['1m', '1h', '1d']).optional().describe(
+    "Aggregation window: '1m', '1h' or '1d' (default: '1h'). Windows are aligned to UTC."
+  ),
+  source: z.enum(['network', 'ingested']).optional().describe(
+    "'network' for chain-wide samples collected with network_metrics_collect (default), or 'ingested' " +
+    "for rollups of transactions stored in the graph, which also carry failure ratios and compute units."
+  ),
+  since: z.string().datetime().optional().describe(
+    "Start of the range as an ISO timestamp (default: 24 hours before 'until')."
+  ),
+  until: z.string().datetime().optional().describe(
+    "End of the range as an ISO timestamp, exclusive (default: now)."
+  )
+} as const;
+
+// Schema for validation
+export const NetworkMetricsSchema = z.object(NetworkMetricsSchemaShape).refine(
+  input => !input.since || !input.until || input.since <= input.until,
+  "'since' must not be after 'until'"
+);
+
+export type NetworkMetricsInput = z.infer<typeof NetworkMetricsSchema>;
+export type NetworkMetricsResponse = McpToolResponse;
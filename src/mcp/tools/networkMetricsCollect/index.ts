@@ -0,0 +1,53 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { NetworkMetricsCollectSchemaShape } from './types.js';
+import { networkMetricsCollect } from './networkMetricsCollect.js';
+import { registerTool, createToolExample, createToolMetadata } from '../../../types/tool.js';
+import { z } from 'zod';
+
+export const registerNetworkMetricsCollectTool = (server: McpServer) => {
+  registerTool(
+    server,
+    "network_metrics_collect",
+    "Collect network performance metrics into one-minute buckets. 'network' samples chain-wide throughput and gas from the RPC endpoint (Solana performance samples, Sui checkpoints); 'ingested' rolls up stored transactions into transaction counts, failures, fees and compute units. Re-collecting a minute replaces its bucket.",
+    NetworkMetricsCollectSchemaShape,
+    networkMetricsCollect,
+    createToolMetadata({
+      examples: [
+        createToolExample(
+          { chain: "sui", source: "network", limit: 500 },
+          `{
+  "chain": "sui",
+  "source": "network",
+  "bucketCount": 3,
+  "from": "2025-01-03T10:00:00.000Z",
+  "to": "2025-01-03T10:02:00.000Z"
+}`,
+          "Sample the latest Sui checkpoints"
+        ),
+        createToolExample(
+          { chain: "solana", source: "ingested", since: "2025-01-01T00:00:00Z" },
+          `{
+  "chain": "solana",
+  "source": "ingested",
+  "bucketCount": 412,
+  "from": "2025-01-01T00:03:00.000Z",
+  "to": "2025-01-03T09:58:00.000Z"
+}`,
+          "Roll up ingested Solana transactions"
+        )
+      ],
+      requiredPermission: "chain:ingest",
+      returnSchema: z.object({
+        chain: z.string().describe("Chain"),
+        source: z.string().describe("Bucket source: 'network' or 'ingested'"),
+        bucketCount: z.number().describe("One-minute buckets written"),
+        from: z.string().nullable().describe("Start of the oldest bucket written"),
+        to: z.string().nullable().describe("Start of the newest bucket written")
+      }),
+      rateLimit: {
+        windowMs: 60 * 1000, // 1 minute
+        maxRequests: 10 // 10 collections per minute
+      }
+    })
+  );
+};
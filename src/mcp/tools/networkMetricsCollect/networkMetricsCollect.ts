@@ -0,0 +1,50 @@
+import { logger } from '../../../utils/logger.js';
+import { collectNetworkMetrics, getChainDataProvider, rollupIngestedMetrics } from '../../../neo4j/blockchainService.js';
+import { NetworkMetricsCollectSchema } from './types.js';
+import { createToolResponse } from '../../../types/mcp.js';
+import { McpError, BaseErrorCode } from '../../../types/errors.js';
+import { ToolContext } from '../../../utils/security.js';
+
+export const networkMetricsCollect = async (
+  input: unknown,
+  context: ToolContext
+) => {
+  try {
+    // Validate input
+    const { chain, source = 'network', limit, provider, since, until } = NetworkMetricsCollectSchema.parse(input);
+
+    logger.info("Collecting network metrics", {
+      chain,
+      source,
+      requestId: context.requestContext?.requestId
+    });
+
+    const result = source === 'network'
+      ? await collectNetworkMetrics(chain, limit, getChainDataProvider(provider))
+      : await rollupIngestedMetrics(chain, { since, until });
+
+    logger.info("Network metrics collected", {
+      chain,
+      source,
+      bucketCount: result.bucketCount,
+      requestId: context.requestContext?.requestId
+    });
+
+    return createToolResponse(JSON.stringify(result, null, 2));
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    logger.error("Error collecting network metrics", {
+      error,
+      input,
+      requestId: context.requestContext?.requestId
+    });
+
+    throw new McpError(
+      BaseErrorCode.INTERNAL_ERROR,
+      `Error collecting network metrics: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+};
@@ -0,0 +1,36 @@
+import { z } from "zod";
+import { McpToolResponse } from '../../../types/mcp.js';
+import { SUPPORTED_CHAINS } from '../../../utils/chainAddress.js';
+import { CHAIN_DATA_PROVIDERS } from '../../../neo4j/blockchainService.js';
+
+// Schema shapes for tool registration
+export const NetworkMetricsCollectSchemaShape = {
+  chain: z.enum(SUPPORTED_CHAINS).describe(
+    "Chain to collect metrics for: 'solana' or 'sui'."
+  ),
+  source: z.enum(['network', 'ingested']).optional().describe(
+    "'network' samples chain-wide throughput from the RPC endpoint (default); 'ingested' rolls up " +
+    "transactions already stored in the graph into per-minute buckets."
+  ),
+  limit: z.number().int().min(1).max(1000).optional().describe(
+    "For 'network': ~60 second performance samples (Solana, max 720) or checkpoints (Sui) to fetch (default: 60)."
+  ),
+  provider: z.enum(CHAIN_DATA_PROVIDERS).optional().describe(
+    "For 'network': 'rpc' for the live endpoint or 'fixtures' to replay recorded responses (default: CHAIN_DATA_PROVIDER setting)."
+  ),
+  since: z.string().datetime().optional().describe(
+    "For 'ingested': only roll up transactions at or after this ISO timestamp."
+  ),
+  until: z.string().datetime().optional().describe(
+    "For 'ingested': only roll up transactions before this ISO timestamp."
+  )
+} as const;
+
+// Schema for validation
+export const NetworkMetricsCollectSchema = z.object(NetworkMetricsCollectSchemaShape).refine(
+  input => !input.since || !input.until || input.since <= input.until,
+  "'since' must not be after 'until'"
+);
+
+export type NetworkMetricsCollectInput = z.infer<typeof NetworkMetricsCollectSchema>;
+export type NetworkMetricsCollectResponse = McpToolResponse;
@@ -0,0 +1,94 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { PatternDetectSchemaShape } from './types.js';
+import { patternDetect } from './patternDetect.js';
+import { AddressNamesSchema } from '../addressLabelSet/types.js';
+import { registerTool, createToolExample, createToolMetadata } from '../../../types/tool.js';
+import { z } from 'zod';
+
+export const registerPatternDetectTool = (server: McpServer) => {
+  registerTool(
+    server,
+    "pattern_detect",
+    "Run named detectors over the ingested transfer graph of a chain: circular value flows (circular_flow), fan-out/fan-in bursts (fan_burst), repeated round-trip trades (round_trip), and dust sweeps (dust_sweep). Each detector takes its own parameters. Findings are stored as Finding nodes linked to the involved addresses and, optionally, a project.",
+    PatternDetectSchemaShape,
+    patternDetect,
+    createToolMetadata({
+      examples: [
+        createToolExample(
+          {
+            chain: "solana",
+            detectors: [
+              { detector: "circular_flow", maxHops: 3, minAmount: "1000000000" },
+              { detector: "round_trip", minRoundTrips: 5 }
+            ],
+            mint: "SOL",
+            projectId: "PROJ_A1B2C3"
+          },
+          `{
+  "chain": "solana",
+  "scannedTransfers": 4821,
+  "scanTruncated": false,
+  "detectors": [
+    { "detector": "circular_flow", "findingCount": 1 },
+    { "detector": "round_trip", "findingCount": 0 }
+  ],
+  "findings": [
+    {
+      "detector": "circular_flow",
+      "score": 0.97,
+      "summary": "5000000000 of SOL left 9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM and 4850000000 returned through 3 hops",
+      "mint": "SOL",
+      "addresses": [
+        { "address": "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM", "role": "origin" },
+        { "address": "5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1", "role": "intermediary" },
+        { "address": "3Kz9vZ5vDk7iYk8YH3s4DkNfgLXqpjB3Sr1WUxZxhcDx", "role": "intermediary" }
+      ],
+      "signatures": ["..."],
+      "details": { "hops": 3, "sent": "5000000000", "returned": "4850000000" },
+      "id": "FIND_K3M9Q2",
+      "chain": "solana",
+      "fingerprint": "3f5a0c8e1b2d4f6a7c9e0b1d2f3a4c5e",
+      "projectId": "PROJ_A1B2C3"
+    }
+  ],
+  "names": {
+    "5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1": { "label": "Exchange X hot wallet", "entity": { "id": "ENT_Q7W2K9", "name": "Exchange X" } }
+  }
+}`,
+          "Look for SOL round trips and attach findings to a project"
+        )
+      ],
+      requiredPermission: "chain:analyze",
+      returnSchema: z.object({
+        chain: z.string().describe("Chain analyzed"),
+        scannedTransfers: z.number().describe("Transfers loaded for analysis"),
+        scanTruncated: z.boolean().describe("Whether only the most recent transfers were scanned"),
+        detectors: z.array(z.object({
+          detector: z.string().describe("Detector name"),
+          findingCount: z.number().describe("Findings reported")
+        })).describe("Per-detector counts"),
+        findings: z.array(z.object({
+          id: z.string().nullable().describe("Finding ID, when stored"),
+          detector: z.string().describe("Detector that produced the finding"),
+          chain: z.string().describe("Chain"),
+          score: z.number().describe("Suspicion score from 0 to 1"),
+          summary: z.string().describe("Human-readable summary"),
+          mint: z.string().nullable().describe("Token mint or coin type involved"),
+          addresses: z.array(z.object({
+            address: z.string().describe("Involved address"),
+            role: z.string().describe("Role in the pattern")
+          })).describe("Involved addresses"),
+          signatures: z.array(z.string()).describe("Transactions making up the pattern"),
+          details: z.record(z.unknown()).describe("Detector-specific details"),
+          fingerprint: z.string().describe("Stable identity of the pattern across runs"),
+          projectId: z.string().nullable().describe("Linked project")
+        })).describe("Detected patterns"),
+        names: AddressNamesSchema
+      }),
+      rateLimit: {
+        windowMs: 60 * 1000, // 1 minute
+        maxRequests: 10 // 10 detection runs per minute
+      }
+    })
+  );
+};
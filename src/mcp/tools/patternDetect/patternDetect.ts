@@ -0,0 +1,65 @@
+import { logger } from '../../../utils/logger.js';
+import { detectPatterns } from '../../../neo4j/blockchainService.js';
+import { PatternDetectSchema } from './types.js';
+import { createToolResponse } from '../../../types/mcp.js';
+import { McpError, BaseErrorCode } from '../../../types/errors.js';
+import { ToolContext } from '../../../utils/security.js';
+import { normalizeChainAddress } from '../../../utils/chainAddress.js';
+
+export const patternDetect = async (
+  input: unknown,
+  context: ToolContext
+) => {
+  try {
+    // Validate input
+    const validatedInput = PatternDetectSchema.parse(input);
+    const { chain, detectors } = validatedInput;
+    const address = validatedInput.address
+      ? normalizeChainAddress(chain, validatedInput.address)
+      : undefined;
+
+    logger.info("Running pattern detection", {
+      chain,
+      detectors: detectors.map(d => d.detector),
+      address,
+      projectId: validatedInput.projectId,
+      requestId: context.requestContext?.requestId
+    });
+
+    const result = await detectPatterns(chain, detectors, {
+      filters: {
+        address,
+        mint: validatedInput.mint,
+        since: validatedInput.since,
+        until: validatedInput.until
+      },
+      limit: validatedInput.limit,
+      persist: validatedInput.persist,
+      projectId: validatedInput.projectId
+    });
+
+    logger.info("Pattern detection completed", {
+      chain,
+      findingCount: result.findings.length,
+      scannedTransfers: result.scannedTransfers,
+      requestId: context.requestContext?.requestId
+    });
+
+    return createToolResponse(JSON.stringify(result, null, 2));
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    logger.error("Error running pattern detection", {
+      error,
+      input,
+      requestId: context.requestContext?.requestId
+    });
+
+    throw new McpError(
+      BaseErrorCode.INTERNAL_ERROR,
+      `Error running pattern detection: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+};
@@ -0,0 +1,105 @@
+import { z } from "zod";
+import { McpToolResponse } from '../../../types/mcp.js';
+import { SUPPORTED_CHAINS } from '../../../utils/chainAddress.js';
+
+const BaseUnitAmount = z.string().regex(/^\d+$/, "Amounts must be non-negative integers in base units");
+
+// Per-detector parameter schemas
+const CircularFlowSchema = z.object({
+  detector: z.literal("circular_flow"),
+  maxHops: z.number().int().min(2).max(6).optional().describe(
+    "Maximum transfers before value must return to its origin (default: 4)."
+  ),
+  minAmount: BaseUnitAmount.optional().describe(
+    "Ignore transfers smaller than this amount in base units."
+  ),
+  minReturnRatio: z.number().min(0).max(1).optional().describe(
+    "Minimum fraction of the initial amount that must come back (default: 0.5)."
+  )
+}).describe("Value leaving an address and returning to it through time-ordered transfers.");
+
+const FanBurstSchema = z.object({
+  detector: z.literal("fan_burst"),
+  direction: z.enum(["out", "in", "both"]).optional().describe(
+    "'out' for fan-out, 'in' for fan-in, 'both' for either (default: 'both')."
+  ),
+  minCounterparties: z.number().int().min(2).max(1000).optional().describe(
+    "Distinct counterparties within the window required to report (default: 10)."
+  ),
+  windowMinutes: z.number().int().min(1).max(10080).optional().describe(
+    "Length of the sliding window in minutes (default: 60)."
+  ),
+  minAmount: BaseUnitAmount.optional().describe(
+    "Ignore transfers smaller than this amount in base units."
+  )
+}).describe("One address sending to or receiving from many addresses in a short burst.");
+
+const RoundTripSchema = z.object({
+  detector: z.literal("round_trip"),
+  minRoundTrips: z.number().int().min(2).max(1000).optional().describe(
+    "Transfers in each direction required to report (default: 3)."
+  ),
+  maxNetRatio: z.number().min(0).max(1).optional().describe(
+    "Maximum net change as a fraction of total volume (default: 0.1)."
+  )
+}).describe("Two addresses repeatedly trading the same asset back and forth.");
+
+const DustSweepSchema = z.object({
+  detector: z.literal("dust_sweep"),
+  maxAmount: BaseUnitAmount.describe(
+    "Transfers at or below this amount in base units count as dust."
+  ),
+  minSources: z.number().int().min(2).max(1000).optional().describe(
+    "Distinct dust senders within the window required to report (default: 10)."
+  ),
+  windowMinutes: z.number().int().min(1).max(43200).optional().describe(
+    "Length of the sliding window in minutes (default: 1440)."
+  )
+}).describe("Many tiny balances consolidated into one address.");
+
+export const DetectorRequestSchema = z.discriminatedUnion("detector", [
+  CircularFlowSchema,
+  FanBurstSchema,
+  RoundTripSchema,
+  DustSweepSchema
+]);
+
+// Schema shapes for tool registration
+export const PatternDetectSchemaShape = {
+  chain: z.enum(SUPPORTED_CHAINS).describe(
+    "Chain whose transfer graph to analyze: 'solana' or 'sui'."
+  ),
+  detectors: z.array(DetectorRequestSchema).min(1).max(10).describe(
+    "Detectors to run, each with its own parameters."
+  ),
+  address: z.string().min(1).optional().describe(
+    "Only report patterns involving this address."
+  ),
+  mint: z.string().min(1).optional().describe(
+    "Only analyze transfers of this token mint or coin type."
+  ),
+  since: z.string().datetime().optional().describe(
+    "Only analyze transfers at or after this ISO timestamp."
+  ),
+  until: z.string().datetime().optional().describe(
+    "Only analyze transfers at or before this ISO timestamp."
+  ),
+  limit: z.number().int().min(1).max(100).optional().describe(
+    "Maximum findings per detector (default: 20)."
+  ),
+  persist: z.boolean().default(true).describe(
+    "Store findings as Finding nodes linked to the involved addresses (default: true)."
+  ),
+  projectId: z.string().optional().describe(
+    "Project to attach stored findings to."
+  )
+} as const;
+
+// Schema for validation
+export const PatternDetectSchema = z.object(PatternDetectSchemaShape).refine(
+  input => !input.since || !input.until || input.since <= input.until,
+  "'since' must not be after 'until'"
+);
+
+export type PatternDetectInput = z.infer<typeof PatternDetectSchema>;
+export type PatternDetectResponse = McpToolResponse;
@@ -12,7 +12,7 @@ export const registerProjectListTool = (server: McpServer) => {
   registerTool(
     server,
     "project_list",
-    "Unified tool for retrieving project information in various formats. Consolidates all project resource endpoints into a single tool.",
+    "Unified tool for retrieving project information in various formats. Consolidates all project resource endpoints into a single tool, and returns the project hierarchy with roll-up counts of notes, members and statuses in 'tree' mode.",
     {
       // Input schema
       ...ProjectListSchema
@@ -129,6 +129,50 @@ export const registerProjectListTool = (server: McpServer) => {
   "dependents": []
 }`,
           "Get project dependencies and dependents"
+        ),
+        
+        // Example 5: Get a portfolio's hierarchy
+        createToolExample(
+          {
+            mode: "tree",
+            projectId: "proj_1"
+          },
+          `{
+  "items": [
+    {
+      "id": "proj_1",
+      "name": "Exchange Monitoring",
+      "status": "active",
+      "parentId": null,
+      "counts": { "notes": 1, "members": 2 },
+      "rollup": {
+        "descendants": 1,
+        "notes": 4,
+        "members": 3,
+        "statuses": { "active": 1, "completed": 1 }
+      },
+      "children": [
+        {
+          "id": "proj_3",
+          "name": "Bridge Investigations",
+          "status": "completed",
+          "parentId": "proj_1",
+          "counts": { "notes": 3, "members": 2 },
+          "rollup": {
+            "descendants": 0,
+            "notes": 3,
+            "members": 2,
+            "statuses": { "completed": 1 }
+          },
+          "children": []
+        }
+      ]
+    }
+  ],
+  "rootId": "proj_1",
+  "totalProjects": 2
+}`,
+          "Get a portfolio with its sub-projects and roll-up counts"
         )
       ],
       requiredPermission: "project:read",
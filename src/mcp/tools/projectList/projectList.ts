@@ -11,7 +11,8 @@ import {
   getProjectNotes,
   getProjectLinks,
   listProjectDependencies,
-  listProjectMembers
+  listProjectMembers,
+  getProjectTree
 } from "../../../neo4j/projectService.js";
 
 /**
@@ -33,7 +34,7 @@ export const projectList = async (
     });
     
     // Validate projectId for modes that require it
-    if (validatedInput.mode !== "all" && !validatedInput.projectId) {
+    if (validatedInput.mode !== "all" && validatedInput.mode !== "tree" && !validatedInput.projectId) {
       throw new McpError(
         BaseErrorCode.VALIDATION_ERROR,
         `The 'projectId' parameter is required for mode '${validatedInput.mode}'`,
@@ -99,12 +100,15 @@ const processProjectRequest = async (
     case "members":
       return handleProjectMembers(input);
     
+    case "tree":
+      return handleProjectTree(input);
+    
     default:
       // This shouldn't happen due to enum validation, but for type safety
       throw new McpError(
         BaseErrorCode.VALIDATION_ERROR,
         `Unsupported mode: ${mode}`,
-        { supportedModes: ["all", "details", "notes", "links", "dependencies", "members"] }
+        { supportedModes: ["all", "details", "notes", "links", "dependencies", "members", "tree"] }
       );
   }
 };
@@ -278,4 +282,17 @@ const handleProjectMembers = async (input: ProjectListInput) => {
     filteredByRole: input.role,
     totalItems: filteredMembers.length
   };
+};
+
+/**
+ * Handle 'tree' mode - get the project hierarchy
+ */
+const handleProjectTree = async (input: ProjectListInput) => {
+  const items = await getProjectTree(input.projectId);
+  
+  return {
+    items,
+    rootId: input.projectId,
+    totalProjects: items.reduce((total, root) => total + 1 + root.rollup.descendants, 0)
+  };
 };
\ No newline at end of file
@@ -7,18 +7,19 @@ export const PROJECT_LIST_MODES = [
   "notes",           // Get project notes (atlas-project://{projectId}/notes)
   "links",           // Get project links (atlas-project://{projectId}/links)
   "dependencies",    // Get project dependencies (atlas-project://{projectId}/dependencies)
-  "members"          // Get project members (atlas-project://{projectId}/members)
+  "members",         // Get project members (atlas-project://{projectId}/members)
+  "tree"             // Get the project hierarchy with roll-up counts
 ] as const;
 
 // Input schema for the tool
 export const ProjectListInputSchema = z.object({
   mode: z.enum(PROJECT_LIST_MODES).describe(
-    "The type of project information to retrieve: 'all' for listing all projects, 'details' for a specific project, or specific content like 'notes', 'links', 'dependencies', or 'members'"
+    "The type of project information to retrieve: 'all' for listing all projects, 'details' for a specific project, 'tree' for the project hierarchy, or specific content like 'notes', 'links', 'dependencies', or 'members'"
   ),
   
-  // Required for all modes except 'all'
+  // Required for all modes except 'all' and 'tree'
   projectId: z.string().optional().describe(
-    "Project ID (required for all modes except 'all')"
+    "Project ID (required for all modes except 'all'; for 'tree', the root to start from instead of every top-level project)"
   ),
   
   // Pagination parameters (for 'all' mode)
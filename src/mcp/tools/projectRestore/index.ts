@@ -0,0 +1,82 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ProjectRestoreSchemaShape } from './types.js';
+import { projectRestore } from './projectRestore.js';
+import { registerTool, createToolExample, createToolMetadata } from '../../../types/tool.js';
+import { z } from 'zod';
+
+export const registerProjectRestoreTool = (server: McpServer) => {
+  registerTool(
+    server,
+    "project_restore",
+    "Restore projects from the trash with their notes, links, members, tasks, whiteboards and any sub-projects trashed along with them. " +
+    "A project whose parent is still in the trash comes back at the top level. A project stays in the trash if it, or a sub-project trashed with it, " +
+    "has the name of an existing project; rename or delete that project first. Use trash_list to find restorable projects.",
+    ProjectRestoreSchemaShape,
+    projectRestore,
+    createToolMetadata({
+      examples: [
+        createToolExample(
+          {
+            mode: "single",
+            projectId: "PROJ_A1B2C3"
+          },
+          `{
+  "success": true,
+  "message": "Restored 1 projects and 4 sub-projects",
+  "restored": [
+    {
+      "id": "PROJ_A1B2C3",
+      "parentId": null,
+      "restoredProjects": 4
+    }
+  ],
+  "conflicts": [],
+  "notFoundIds": []
+}`,
+          "Restore a portfolio trashed with everything under it"
+        ),
+        createToolExample(
+          {
+            mode: "bulk",
+            projectIds: ["PROJ_D4E5F6", "PROJ_X9Y8Z7"]
+          },
+          `{
+  "success": true,
+  "message": "Restored 1 projects. 1 projects not found in the trash.",
+  "restored": [
+    {
+      "id": "PROJ_D4E5F6",
+      "parentId": "PROJ_A1B2C3",
+      "restoredProjects": 0
+    }
+  ],
+  "conflicts": [],
+  "notFoundIds": ["PROJ_X9Y8Z7"]
+}`,
+          "Restore multiple projects"
+        )
+      ],
+      requiredPermission: "project:restore",
+      returnSchema: z.object({
+        success: z.boolean().describe("Whether any project was restored"),
+        message: z.string().describe("Result message"),
+        restored: z.array(z.object({
+          id: z.string().describe("Project ID"),
+          parentId: z.string().nullable().describe("Parent the project is back under, or null at the top level"),
+          restoredProjects: z.number().describe("Sub-projects restored with it")
+        })).describe("Projects restored"),
+        conflicts: z.array(z.object({
+          id: z.string().describe("Project left in the trash"),
+          projectId: z.string().describe("It, or a sub-project trashed with it, whose name is taken"),
+          name: z.string().describe("The name"),
+          conflictingProjectId: z.string().describe("Existing project with that name")
+        })).describe("Projects not restored because their names are taken"),
+        notFoundIds: z.array(z.string()).describe("Projects not found in the trash")
+      }),
+      rateLimit: {
+        windowMs: 60 * 1000, // 1 minute
+        maxRequests: 10 // 10 restores per minute (single or bulk)
+      }
+    })
+  );
+};
@@ -0,0 +1,88 @@
+import { logger } from '../../../utils/logger.js';
+import { restoreProjects } from '../../../neo4j/projectService.js';
+import { ProjectRestoreSchema } from './types.js';
+import { createToolResponse } from '../../../types/mcp.js';
+import { McpError, BaseErrorCode, ProjectErrorCode } from '../../../types/errors.js';
+import { ToolContext } from '../../../utils/security.js';
+
+export const projectRestore = async (
+  input: unknown,
+  context: ToolContext
+) => {
+  try {
+    const validatedInput = ProjectRestoreSchema.parse(input);
+    const projectIds = validatedInput.mode === 'bulk'
+      ? validatedInput.projectIds
+      : [validatedInput.projectId];
+
+    logger.info("Restoring projects from the trash", {
+      projectIds,
+      requestId: context.requestContext?.requestId
+    });
+
+    const result = await restoreProjects(projectIds);
+
+    if (validatedInput.mode === 'single' && result.conflicts.length) {
+      const [conflict] = result.conflicts;
+      logger.warn("Project name taken, not restoring", {
+        projectId: validatedInput.projectId,
+        conflicts: result.conflicts,
+        requestId: context.requestContext?.requestId
+      });
+      throw new McpError(
+        ProjectErrorCode.DUPLICATE_NAME,
+        `Cannot restore project ${validatedInput.projectId}: project ${conflict.conflictingProjectId} is already named '${conflict.name}'`,
+        { projectId: validatedInput.projectId, conflicts: result.conflicts }
+      );
+    }
+
+    if (validatedInput.mode === 'single' && !result.restored.length) {
+      logger.warn("Project not found in the trash", {
+        projectId: validatedInput.projectId,
+        requestId: context.requestContext?.requestId
+      });
+      throw new McpError(
+        ProjectErrorCode.PROJECT_NOT_FOUND,
+        `Project with ID ${validatedInput.projectId} not found in the trash`,
+        { projectId: validatedInput.projectId }
+      );
+    }
+
+    const conflictIds = [...new Set(result.conflicts.map(conflict => conflict.id))];
+    const subProjectCount = result.restored.reduce((sum, project) => sum + project.restoredProjects, 0);
+
+    logger.info("Projects restored from the trash", {
+      restoredCount: result.restored.length,
+      subProjectCount,
+      conflictCount: result.conflicts.length,
+      notFoundCount: result.notFoundIds.length,
+      requestId: context.requestContext?.requestId
+    });
+
+    return createToolResponse(JSON.stringify({
+      success: result.restored.length > 0,
+      message: `Restored ${result.restored.length} projects` +
+              (subProjectCount > 0 ? ` and ${subProjectCount} sub-projects` : '') +
+              (conflictIds.length > 0 ? `. ${conflictIds.length} projects left in the trash because their names are taken` : '') +
+              (result.notFoundIds.length > 0 ? `. ${result.notFoundIds.length} projects not found in the trash.` : ''),
+      restored: result.restored,
+      conflicts: result.conflicts,
+      notFoundIds: result.notFoundIds
+    }, null, 2));
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    logger.error("Error restoring project(s)", {
+      error,
+      input,
+      requestId: context.requestContext?.requestId
+    });
+
+    throw new McpError(
+      BaseErrorCode.INTERNAL_ERROR,
+      `Error restoring project(s): ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+};
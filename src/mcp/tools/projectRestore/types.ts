@@ -0,0 +1,44 @@
+import { z } from "zod";
+import { McpToolResponse } from '../../../types/mcp.js';
+
+// Single project restore schema
+const SingleRestoreSchema = z.object({
+  mode: z.literal("single"),
+  projectId: z.string().describe(
+    "ID of a project listed by trash_list."
+  )
+}).describe(
+  "Restore a single project from the trash."
+);
+
+// Bulk project restore schema
+const BulkRestoreSchema = z.object({
+  mode: z.literal("bulk"),
+  projectIds: z.array(z.string()).min(1).max(100).describe(
+    "Array of 1-100 IDs of projects listed by trash_list."
+  )
+}).describe(
+  "Restore multiple projects from the trash in a single operation."
+);
+
+// Schema shapes for tool registration
+export const ProjectRestoreSchemaShape = {
+  mode: z.enum(["single", "bulk"]).describe(
+    "'single' for one project, 'bulk' for multiple projects."
+  ),
+  projectId: z.string().optional().describe(
+    "Required for single mode: ID of a project listed by trash_list."
+  ),
+  projectIds: z.array(z.string()).min(1).max(100).optional().describe(
+    "Required for bulk mode: Array of 1-100 IDs of projects listed by trash_list."
+  )
+} as const;
+
+// Schema for validation
+export const ProjectRestoreSchema = z.discriminatedUnion("mode", [
+  SingleRestoreSchema,
+  BulkRestoreSchema
+]);
+
+export type ProjectRestoreInput = z.infer<typeof ProjectRestoreSchema>;
+export type ProjectRestoreResponse = McpToolResponse;
@@ -0,0 +1,98 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { WatchAddressSchemaShape, WatchProgramSchemaShape, WatchResultSchema } from './types.js';
+import { watchAddress } from './watchAddress.js';
+import { watchProgram } from './watchProgram.js';
+import { registerTool, createToolExample, createToolMetadata } from '../../../types/tool.js';
+
+export const registerProjectWatchTools = (server: McpServer) => {
+  // Register watch address tool
+  registerTool(
+    server,
+    "project_watch_address",
+    "Watch an on-chain address from a project, or stop watching it. Watched addresses, with their recent transactions and open findings, appear in the project's details under include=onchain.",
+    WatchAddressSchemaShape,
+    watchAddress,
+    createToolMetadata({
+      examples: [
+        createToolExample(
+          {
+            projectId: "proj_ms_migration",
+            chain: "solana",
+            address: "5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1",
+            note: "Suspected exploiter funding wallet"
+          },
+          `{
+  "projectId": "proj_ms_migration",
+  "kind": "address",
+  "chain": "solana",
+  "address": "5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1",
+  "note": "Suspected exploiter funding wallet",
+  "watchedAt": "2025-03-01T12:00:00.000Z",
+  "watching": true
+}`,
+          "Add an address to an investigation"
+        ),
+        createToolExample(
+          {
+            projectId: "proj_ms_migration",
+            chain: "sui",
+            address: "0x2",
+            action: "unwatch"
+          },
+          `{
+  "projectId": "proj_ms_migration",
+  "kind": "address",
+  "chain": "sui",
+  "address": "0x0000000000000000000000000000000000000000000000000000000000000002",
+  "watching": false,
+  "removed": true
+}`,
+          "Stop watching an address"
+        )
+      ],
+      requiredPermission: "project:update",
+      returnSchema: WatchResultSchema,
+      rateLimit: {
+        windowMs: 60 * 1000, // 1 minute
+        maxRequests: 30 // 30 requests per minute
+      }
+    })
+  );
+
+  // Register watch program tool
+  registerTool(
+    server,
+    "project_watch_program",
+    "Watch a Solana program or Sui Move package from a project, or stop watching it. Recent calls and callers of watched programs appear in the project's details under include=onchain.",
+    WatchProgramSchemaShape,
+    watchProgram,
+    createToolMetadata({
+      examples: [
+        createToolExample(
+          {
+            projectId: "proj_ms_migration",
+            chain: "solana",
+            program: "JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4",
+            note: "Router used by the exploiter"
+          },
+          `{
+  "projectId": "proj_ms_migration",
+  "kind": "program",
+  "chain": "solana",
+  "address": "JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4",
+  "note": "Router used by the exploiter",
+  "watchedAt": "2025-03-01T12:05:00.000Z",
+  "watching": true
+}`,
+          "Watch a program's activity"
+        )
+      ],
+      requiredPermission: "project:update",
+      returnSchema: WatchResultSchema,
+      rateLimit: {
+        windowMs: 60 * 1000, // 1 minute
+        maxRequests: 30 // 30 requests per minute
+      }
+    })
+  );
+};
@@ -0,0 +1,58 @@
+import { z } from "zod";
+import { McpToolResponse } from '../../../types/mcp.js';
+import { SUPPORTED_CHAINS } from '../../../utils/chainAddress.js';
+
+// Fields shared by both watch tools
+const WatchSchemaShape = {
+  projectId: z.string().describe(
+    "Project ID that watches the target (must start with 'proj_')."
+  ),
+  chain: z.enum(SUPPORTED_CHAINS).describe(
+    "Chain the target belongs to: 'solana' or 'sui'."
+  ),
+  action: z.enum(['watch', 'unwatch']).default('watch').describe(
+    "'watch' to add the target to the project (default), 'unwatch' to remove it."
+  ),
+  note: z.string().max(500).optional().describe(
+    "Why the project watches the target. Ignored when unwatching."
+  )
+} as const;
+
+// Schema shapes for tool registration
+export const WatchAddressSchemaShape = {
+  ...WatchSchemaShape,
+  address: z.string().min(1).describe(
+    "Address to watch. It does not need to have been ingested yet."
+  )
+} as const;
+
+export const WatchProgramSchemaShape = {
+  ...WatchSchemaShape,
+  program: z.string().min(1).describe(
+    "Solana program ID or Sui package ID to watch. It does not need to have been ingested yet."
+  )
+} as const;
+
+// Schemas for validation
+export const WatchAddressSchema = z.object(WatchAddressSchemaShape);
+export const WatchProgramSchema = z.object(WatchProgramSchemaShape);
+
+// Input types
+export type WatchAddressInput = z.infer<typeof WatchAddressSchema>;
+export type WatchProgramInput = z.infer<typeof WatchProgramSchema>;
+
+// Response types
+export type WatchAddressResponse = McpToolResponse;
+export type WatchProgramResponse = McpToolResponse;
+
+// Result of both watch tools
+export const WatchResultSchema = z.object({
+  projectId: z.string().describe("Project ID"),
+  kind: z.enum(['address', 'program']).describe("What is watched"),
+  chain: z.string().describe("Chain of the target"),
+  address: z.string().describe("Canonical address of the target"),
+  watching: z.boolean().describe("Whether the project watches the target after the call"),
+  removed: z.boolean().optional().describe("Unwatch only: whether the project was watching the target"),
+  note: z.string().nullable().optional().describe("Why the target is watched"),
+  watchedAt: z.string().optional().describe("When the project started watching the target")
+});
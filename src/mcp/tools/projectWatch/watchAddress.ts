@@ -0,0 +1,55 @@
+import { logger } from '../../../utils/logger.js';
+import { unwatchTarget, watchTarget } from '../../../neo4j/projectService.js';
+import { WatchAddressSchema } from './types.js';
+import { createToolResponse } from '../../../types/mcp.js';
+import { McpError, BaseErrorCode } from '../../../types/errors.js';
+import { ToolContext } from '../../../utils/security.js';
+import { normalizeChainAddress } from '../../../utils/chainAddress.js';
+
+export const watchAddress = async (
+  input: unknown,
+  context: ToolContext
+) => {
+  try {
+    // Validate input
+    const { projectId, chain, action, note, address: rawAddress } = WatchAddressSchema.parse(input);
+    const address = normalizeChainAddress(chain, rawAddress);
+
+    logger.info(action === 'watch' ? "Watching address from project" : "Unwatching address from project", {
+      projectId,
+      chain,
+      address,
+      requestId: context.requestContext?.requestId
+    });
+
+    if (action === 'unwatch') {
+      const removed = await unwatchTarget(projectId, 'address', chain, address);
+      return createToolResponse(JSON.stringify({
+        projectId,
+        kind: 'address',
+        chain,
+        address,
+        watching: false,
+        removed
+      }, null, 2));
+    }
+
+    const watch = await watchTarget(projectId, 'address', chain, address, note);
+    return createToolResponse(JSON.stringify({ ...watch, watching: true }, null, 2));
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    logger.error("Error updating address watch", {
+      error,
+      input,
+      requestId: context.requestContext?.requestId
+    });
+
+    throw new McpError(
+      BaseErrorCode.INTERNAL_ERROR,
+      `Error updating address watch: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+};
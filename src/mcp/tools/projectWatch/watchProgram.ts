@@ -0,0 +1,55 @@
+import { logger } from '../../../utils/logger.js';
+import { unwatchTarget, watchTarget } from '../../../neo4j/projectService.js';
+import { WatchProgramSchema } from './types.js';
+import { createToolResponse } from '../../../types/mcp.js';
+import { McpError, BaseErrorCode } from '../../../types/errors.js';
+import { ToolContext } from '../../../utils/security.js';
+import { normalizeChainAddress } from '../../../utils/chainAddress.js';
+
+export const watchProgram = async (
+  input: unknown,
+  context: ToolContext
+) => {
+  try {
+    // Validate input
+    const { projectId, chain, action, note, program: rawProgram } = WatchProgramSchema.parse(input);
+    const address = normalizeChainAddress(chain, rawProgram);
+
+    logger.info(action === 'watch' ? "Watching program from project" : "Unwatching program from project", {
+      projectId,
+      chain,
+      address,
+      requestId: context.requestContext?.requestId
+    });
+
+    if (action === 'unwatch') {
+      const removed = await unwatchTarget(projectId, 'program', chain, address);
+      return createToolResponse(JSON.stringify({
+        projectId,
+        kind: 'program',
+        chain,
+        address,
+        watching: false,
+        removed
+      }, null, 2));
+    }
+
+    const watch = await watchTarget(projectId, 'program', chain, address, note);
+    return createToolResponse(JSON.stringify({ ...watch, watching: true }, null, 2));
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    logger.error("Error updating program watch", {
+      error,
+      input,
+      requestId: context.requestContext?.requestId
+    });
+
+    throw new McpError(
+      BaseErrorCode.INTERNAL_ERROR,
+      `Error updating program watch: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+};
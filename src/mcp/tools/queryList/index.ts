@@ -0,0 +1,61 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { QueryListSchemaShape } from './types.js';
+import { queryList } from './queryList.js';
+import { SavedQuerySchema } from '../querySave/types.js';
+import { registerTool, createToolExample, createToolMetadata } from '../../../types/tool.js';
+import { z } from 'zod';
+
+export const registerQueryListTool = (server: McpServer) => {
+  registerTool(
+    server,
+    "query_list",
+    "List saved queries by name, with their declared parameters, filtered by project, kind or search text. A project's listing includes globally shared queries unless includeGlobal is false.",
+    QueryListSchemaShape,
+    queryList,
+    createToolMetadata({
+      examples: [
+        createToolExample(
+          { projectId: "PROJ_X7K2M9", search: "fan" },
+          `{
+  "items": [
+    {
+      "id": "QUERY_T6N2RB",
+      "name": "Fan-out around a wallet",
+      "description": "Fan-out bursts involving one address, stored as findings",
+      "kind": "pattern",
+      "query": null,
+      "pattern": { "chain": "solana", "address": "$address", "since": "$since", "detectors": ["..."] },
+      "parameters": [
+        { "name": "address", "description": "Address to investigate", "type": "string", "required": true },
+        { "name": "since", "description": "Start of the window", "type": "datetime" },
+        { "name": "minCounterparties", "description": "Recipients per burst", "type": "integer", "default": 20 }
+      ],
+      "projectId": "PROJ_X7K2M9",
+      "createdBy": null,
+      "createdAt": "2025-03-01T12:00:00.000Z",
+      "updatedAt": "2025-03-01T12:00:00.000Z",
+      "lastRunAt": "2025-03-02T09:30:00.000Z",
+      "runCount": 4
+    }
+  ],
+  "total": 1,
+  "page": 1,
+  "limit": 20
+}`,
+          "Find a project's saved queries about fan-out"
+        )
+      ],
+      requiredPermission: "database:query",
+      returnSchema: z.object({
+        items: z.array(SavedQuerySchema).describe("Saved queries on this page"),
+        total: z.number().describe("Total matching queries"),
+        page: z.number().describe("Current page"),
+        limit: z.number().describe("Queries per page")
+      }),
+      rateLimit: {
+        windowMs: 60 * 1000, // 1 minute
+        maxRequests: 60 // 60 requests per minute
+      }
+    })
+  );
+};
@@ -0,0 +1,40 @@
+import { logger } from '../../../utils/logger.js';
+import { listSavedQueries } from '../../../neo4j/savedQueryService.js';
+import { QueryListSchema } from './types.js';
+import { createToolResponse } from '../../../types/mcp.js';
+import { McpError, BaseErrorCode } from '../../../types/errors.js';
+import { ToolContext } from '../../../utils/security.js';
+
+export const queryList = async (
+  input: unknown,
+  context: ToolContext
+) => {
+  try {
+    // Validate input
+    const options = QueryListSchema.parse(input);
+
+    logger.info("Listing saved queries", {
+      options,
+      requestId: context.requestContext?.requestId
+    });
+
+    const result = await listSavedQueries(options);
+
+    return createToolResponse(JSON.stringify(result, null, 2));
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    logger.error("Error listing saved queries", {
+      error,
+      input,
+      requestId: context.requestContext?.requestId
+    });
+
+    throw new McpError(
+      BaseErrorCode.INTERNAL_ERROR,
+      `Error listing saved queries: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+};
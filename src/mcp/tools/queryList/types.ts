@@ -0,0 +1,30 @@
+import { z } from "zod";
+import { McpToolResponse } from '../../../types/mcp.js';
+
+// Schema shapes for tool registration
+export const QueryListSchemaShape = {
+  projectId: z.string().optional().describe(
+    "Only include queries saved in this project, plus global ones unless includeGlobal is false."
+  ),
+  includeGlobal: z.boolean().default(true).describe(
+    "With projectId, also include globally shared queries (default: true)."
+  ),
+  kind: z.enum(["cypher", "pattern"]).optional().describe(
+    "Only include queries of this kind."
+  ),
+  search: z.string().min(1).optional().describe(
+    "Only include queries whose name or description contains this text (case-insensitive)."
+  ),
+  page: z.number().int().min(1).default(1).describe(
+    "Page number (default: 1)."
+  ),
+  limit: z.number().int().min(1).max(100).default(20).describe(
+    "Queries per page (default: 20)."
+  )
+} as const;
+
+// Schema for validation
+export const QueryListSchema = z.object(QueryListSchemaShape);
+
+export type QueryListInput = z.infer<typeof QueryListSchema>;
+export type QueryListResponse = McpToolResponse;
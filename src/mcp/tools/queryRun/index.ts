@@ -0,0 +1,78 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { QueryRunSchemaShape } from './types.js';
+import { queryRun } from './queryRun.js';
+import { registerTool, createToolExample, createToolMetadata } from '../../../types/tool.js';
+import { z } from 'zod';
+
+export const registerQueryRunTool = (server: McpServer) => {
+  registerTool(
+    server,
+    "query_run",
+    "Run a saved query by ID or name. Arguments are checked against the declared parameter types first; optional parameters that are not given take their default. Cypher queries run like cypher_query and return a table; pattern queries run like pattern_detect and return findings.",
+    QueryRunSchemaShape,
+    queryRun,
+    createToolMetadata({
+      examples: [
+        createToolExample(
+          {
+            name: "Top senders",
+            parameters: { chain: "solana", since: "2025-03-01T00:00:00Z", limit: 3 }
+          },
+          `{
+  "query": { "id": "QUERY_H3K8PW", "name": "Top senders", "kind": "cypher", "projectId": null },
+  "parameters": { "chain": "solana", "since": "2025-03-01T00:00:00Z", "mint": null, "limit": 3 },
+  "result": {
+    "columns": ["sender", "transfers"],
+    "rows": [
+      ["5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1", 412],
+      ["9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM", 257],
+      ["2AQdpHJ2JpcEgPiATUXjQxA8QmafFegfQwSLWSprPicm", 98]
+    ],
+    "rowCount": 3,
+    "truncated": false,
+    "elapsedMs": 84
+  }
+}`,
+          "Run a global Cypher recipe by name"
+        ),
+        createToolExample(
+          {
+            name: "Fan-out around a wallet",
+            projectId: "PROJ_X7K2M9",
+            parameters: { address: "5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1" }
+          },
+          `{
+  "query": { "id": "QUERY_T6N2RB", "name": "Fan-out around a wallet", "kind": "pattern", "projectId": "PROJ_X7K2M9" },
+  "parameters": { "address": "5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1", "since": null, "minCounterparties": 20 },
+  "result": {
+    "chain": "solana",
+    "scannedTransfers": 1840,
+    "scanTruncated": false,
+    "detectors": [{ "detector": "fan_burst", "findingCount": 1 }],
+    "findings": ["..."],
+    "names": {}
+  }
+}`,
+          "Run a project's pattern recipe, using the default for minCounterparties"
+        )
+      ],
+      requiredPermission: "database:query",
+      returnSchema: z.object({
+        query: z.object({
+          id: z.string().describe("Saved query ID"),
+          name: z.string().describe("Name"),
+          kind: z.enum(["cypher", "pattern"]).describe("Kind of query"),
+          projectId: z.string().nullable().describe("Project the query is saved in")
+        }).describe("The saved query that ran"),
+        parameters: z.record(z.unknown()).describe("Arguments used, including defaults"),
+        result: z.record(z.unknown()).describe(
+          "For 'cypher' queries, the cypher_query result; for 'pattern' queries, the pattern_detect result"
+        )
+      }),
+      rateLimit: {
+        windowMs: 60 * 1000, // 1 minute
+        maxRequests: 30 // 30 runs per minute
+      }
+    })
+  );
+};
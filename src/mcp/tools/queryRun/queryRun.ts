@@ -0,0 +1,107 @@
+import { logger } from '../../../utils/logger.js';
+import {
+  bindPatternTemplate,
+  getSavedQuery,
+  recordSavedQueryRun,
+  resolveSavedQueryArguments,
+  SavedQuery
+} from '../../../neo4j/savedQueryService.js';
+import { runCypherQuery } from '../../../neo4j/cypherQueryService.js';
+import { detectPatterns } from '../../../neo4j/blockchainService.js';
+import { QueryRunSchema, QueryRunInput } from './types.js';
+import { PatternDetectSchema } from '../patternDetect/types.js';
+import { createToolResponse } from '../../../types/mcp.js';
+import { McpError, BaseErrorCode, QueryErrorCode } from '../../../types/errors.js';
+import { ToolContext } from '../../../utils/security.js';
+import { normalizeChainAddress } from '../../../utils/chainAddress.js';
+
+/**
+ * Binds the arguments into a pattern template and runs it like pattern_detect
+ */
+const runPattern = async (savedQuery: SavedQuery, args: Record<string, unknown>) => {
+  const parsed = PatternDetectSchema.safeParse(bindPatternTemplate(savedQuery.pattern ?? {}, args));
+  if (!parsed.success) {
+    const errors = parsed.error.issues.map(issue => `${issue.path.join('.') || 'input'}: ${issue.message}`);
+    throw new McpError(
+      QueryErrorCode.INVALID_PARAMETERS,
+      `Pattern template is not a valid pattern_detect input with these arguments: ${errors.join('; ')}`,
+      { errors }
+    );
+  }
+
+  const request = parsed.data;
+  return detectPatterns(request.chain, request.detectors, {
+    filters: {
+      address: request.address ? normalizeChainAddress(request.chain, request.address) : undefined,
+      mint: request.mint,
+      since: request.since,
+      until: request.until
+    },
+    limit: request.limit,
+    persist: request.persist,
+    projectId: request.projectId
+  });
+};
+
+const runQuery = (savedQuery: SavedQuery, args: Record<string, unknown>, input: QueryRunInput) =>
+  savedQuery.kind === 'cypher'
+    ? runCypherQuery(savedQuery.query ?? '', {
+      params: args,
+      maxRows: input.maxRows,
+      timeoutMs: input.timeoutMs,
+      graph: input.graph
+    })
+    : runPattern(savedQuery, args);
+
+export const queryRun = async (
+  input: unknown,
+  context: ToolContext
+) => {
+  try {
+    // Validate input
+    const validatedInput = QueryRunSchema.parse(input);
+
+    const savedQuery = await getSavedQuery(
+      { id: validatedInput.id, name: validatedInput.name },
+      validatedInput.projectId
+    );
+    const args = resolveSavedQueryArguments(savedQuery.parameters, validatedInput.parameters);
+
+    logger.info("Running saved query", {
+      queryId: savedQuery.id,
+      name: savedQuery.name,
+      kind: savedQuery.kind,
+      parameters: Object.keys(args),
+      requestId: context.requestContext?.requestId
+    });
+
+    const result = await runQuery(savedQuery, args, validatedInput);
+    await recordSavedQueryRun(savedQuery.id);
+
+    return createToolResponse(JSON.stringify({
+      query: {
+        id: savedQuery.id,
+        name: savedQuery.name,
+        kind: savedQuery.kind,
+        projectId: savedQuery.projectId
+      },
+      parameters: args,
+      result
+    }, null, 2));
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    logger.error("Error running saved query", {
+      error,
+      input,
+      requestId: context.requestContext?.requestId
+    });
+
+    throw new McpError(
+      BaseErrorCode.INTERNAL_ERROR,
+      `Error running saved query: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+};
@@ -0,0 +1,36 @@
+import { z } from "zod";
+import { McpToolResponse } from '../../../types/mcp.js';
+
+// Schema shapes for tool registration
+export const QueryRunSchemaShape = {
+  id: z.string().optional().describe(
+    "ID of the saved query to run."
+  ),
+  name: z.string().min(1).optional().describe(
+    "Name of the saved query to run, looked up in projectId first and then among global queries."
+  ),
+  projectId: z.string().optional().describe(
+    "Project to look up the name in."
+  ),
+  parameters: z.record(z.unknown()).optional().describe(
+    "Arguments for the query's declared parameters, checked against their types before it runs."
+  ),
+  maxRows: z.number().int().min(1).optional().describe(
+    "For 'cypher' queries, rows to return before truncating (default and cap: CYPHER_QUERY_MAX_ROWS)."
+  ),
+  timeoutMs: z.number().int().min(100).optional().describe(
+    "For 'cypher' queries, cancel the query after this many milliseconds (default and cap: CYPHER_QUERY_TIMEOUT_MS)."
+  ),
+  graph: z.boolean().default(false).describe(
+    "For 'cypher' queries, also return the nodes and relationships in the rows as a graph (default: false)."
+  )
+} as const;
+
+// Schema for validation
+export const QueryRunSchema = z.object(QueryRunSchemaShape).refine(
+  input => !!input.id !== !!input.name,
+  "Provide either 'id' or 'name'"
+);
+
+export type QueryRunInput = z.infer<typeof QueryRunSchema>;
+export type QueryRunResponse = McpToolResponse;
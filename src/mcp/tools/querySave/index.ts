@@ -0,0 +1,82 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { QuerySaveSchemaShape, SavedQuerySchema } from './types.js';
+import { querySave } from './querySave.js';
+import { registerTool, createToolExample, createToolMetadata } from '../../../types/tool.js';
+
+export const registerQuerySaveTool = (server: McpServer) => {
+  registerTool(
+    server,
+    "query_save",
+    "Save a Cypher query or pattern_detect input by name as a reusable recipe with typed parameters, in a project or shared globally. Cypher queries must pass the same read-only checks as cypher_query, and every $name they use must be declared.",
+    QuerySaveSchemaShape,
+    querySave,
+    createToolMetadata({
+      examples: [
+        createToolExample(
+          {
+            name: "Top senders",
+            description: "Addresses that sent the most transfers of a token since a date",
+            query: "MATCH (a:Address {chain: $chain})-[t:TRANSFERRED]->() WHERE t.blockTime >= $since AND ($mint IS NULL OR t.mint = $mint) RETURN a.address AS sender, count(t) AS transfers ORDER BY transfers DESC LIMIT $limit",
+            parameters: [
+              { name: "chain", description: "Chain to look at", type: "chain", required: true },
+              { name: "since", description: "Start of the window", type: "datetime", required: true },
+              { name: "mint", description: "Token mint or coin type (default: all)", type: "string" },
+              { name: "limit", description: "Senders to return", type: "integer", default: 10 }
+            ]
+          },
+          `{
+  "id": "QUERY_H3K8PW",
+  "name": "Top senders",
+  "description": "Addresses that sent the most transfers of a token since a date",
+  "kind": "cypher",
+  "query": "MATCH (a:Address {chain: $chain})-[t:TRANSFERRED]->() ...",
+  "pattern": null,
+  "parameters": ["..."],
+  "projectId": null,
+  "createdBy": null,
+  "createdAt": "2025-03-01T12:00:00.000Z",
+  "updatedAt": "2025-03-01T12:00:00.000Z",
+  "lastRunAt": null,
+  "runCount": 0
+}`,
+          "Save a global Cypher recipe with typed parameters"
+        ),
+        createToolExample(
+          {
+            name: "Fan-out around a wallet",
+            description: "Fan-out bursts involving one address, stored as findings",
+            kind: "pattern",
+            pattern: {
+              chain: "solana",
+              address: "$address",
+              since: "$since",
+              detectors: [{ detector: "fan_burst", direction: "out", minCounterparties: "$minCounterparties" }]
+            },
+            parameters: [
+              { name: "address", description: "Address to investigate", type: "string", required: true },
+              { name: "since", description: "Start of the window", type: "datetime" },
+              { name: "minCounterparties", description: "Recipients per burst", type: "integer", default: 20 }
+            ],
+            projectId: "PROJ_X7K2M9"
+          },
+          `{
+  "id": "QUERY_T6N2RB",
+  "name": "Fan-out around a wallet",
+  "kind": "pattern",
+  "query": null,
+  "pattern": { "chain": "solana", "address": "$address", "since": "$since", "detectors": ["..."] },
+  "projectId": "PROJ_X7K2M9",
+  "...": "..."
+}`,
+          "Save a pattern detection recipe in a project"
+        )
+      ],
+      requiredPermission: "database:query",
+      returnSchema: SavedQuerySchema,
+      rateLimit: {
+        windowMs: 60 * 1000, // 1 minute
+        maxRequests: 20 // 20 saves per minute
+      }
+    })
+  );
+};
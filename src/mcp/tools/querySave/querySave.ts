@@ -0,0 +1,48 @@
+import { logger } from '../../../utils/logger.js';
+import { saveQuery } from '../../../neo4j/savedQueryService.js';
+import { QuerySaveSchema } from './types.js';
+import { createToolResponse } from '../../../types/mcp.js';
+import { McpError, BaseErrorCode } from '../../../types/errors.js';
+import { ToolContext } from '../../../utils/security.js';
+
+export const querySave = async (
+  input: unknown,
+  context: ToolContext
+) => {
+  try {
+    // Validate input
+    const validatedInput = QuerySaveSchema.parse(input);
+
+    logger.info("Saving query", {
+      name: validatedInput.name,
+      kind: validatedInput.kind,
+      projectId: validatedInput.projectId,
+      requestId: context.requestContext?.requestId
+    });
+
+    const savedQuery = await saveQuery(validatedInput);
+
+    logger.info("Query saved", {
+      queryId: savedQuery.id,
+      name: savedQuery.name,
+      requestId: context.requestContext?.requestId
+    });
+
+    return createToolResponse(JSON.stringify(savedQuery, null, 2));
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    logger.error("Error saving query", {
+      error,
+      input,
+      requestId: context.requestContext?.requestId
+    });
+
+    throw new McpError(
+      BaseErrorCode.INTERNAL_ERROR,
+      `Error saving query: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+};
@@ -0,0 +1,76 @@
+import { z } from "zod";
+import { McpToolResponse } from '../../../types/mcp.js';
+import { SAVED_QUERY_PARAMETER_TYPES } from '../../../neo4j/savedQueryService.js';
+
+const SavedQueryParameterSchema = z.object({
+  name: z.string().min(1).max(100).describe(
+    "Parameter name, referred to as $name in the query or template."
+  ),
+  description: z.string().max(1000).describe(
+    "What the parameter controls."
+  ),
+  type: z.enum(SAVED_QUERY_PARAMETER_TYPES).describe(
+    "Type arguments must have: 'string', 'integer', 'number', 'boolean', 'datetime' (ISO timestamp), " +
+    "'chain' ('solana' or 'sui') or 'string_list'."
+  ),
+  required: z.boolean().optional().describe(
+    "Whether the parameter must be given when running the query (default: false)."
+  ),
+  default: z.unknown().optional().describe(
+    "Value used when an optional parameter is not given. Without one, the parameter is null."
+  )
+});
+
+// Schema shapes for tool registration
+export const QuerySaveSchemaShape = {
+  name: z.string().min(1).max(200).describe(
+    "Name to save the query under. Saving again under the same name in the same scope replaces it."
+  ),
+  description: z.string().min(1).max(2000).describe(
+    "What the query finds and when to use it."
+  ),
+  kind: z.enum(["cypher", "pattern"]).default("cypher").describe(
+    "'cypher' for a read-only Cypher query run like cypher_query, or 'pattern' for a pattern_detect input (default: 'cypher')."
+  ),
+  query: z.string().min(1).max(20000).optional().describe(
+    "Cypher text, for 'cypher' queries. Parameters are bound to $name placeholders."
+  ),
+  pattern: z.record(z.unknown()).optional().describe(
+    "pattern_detect input, for 'pattern' queries. Any string value of the form \"$name\" is replaced by that parameter."
+  ),
+  parameters: z.array(SavedQueryParameterSchema).max(50).optional().describe(
+    "Parameters the query takes. Every $name used must be declared."
+  ),
+  projectId: z.string().optional().describe(
+    "Project to save the query in. Omit to share it globally."
+  ),
+  createdBy: z.string().optional().describe(
+    "Who saved the query."
+  )
+} as const;
+
+// Schema for validation
+export const QuerySaveSchema = z.object(QuerySaveSchemaShape).refine(
+  input => input.kind === "cypher" ? !!input.query && !input.pattern : !!input.pattern && !input.query,
+  "Provide 'query' for 'cypher' queries or 'pattern' for 'pattern' queries, not both"
+);
+
+export type QuerySaveInput = z.infer<typeof QuerySaveSchema>;
+export type QuerySaveResponse = McpToolResponse;
+
+// Saved query returned by query_save and query_list
+export const SavedQuerySchema = z.object({
+  id: z.string().describe("Saved query ID"),
+  name: z.string().describe("Name"),
+  description: z.string().describe("Description"),
+  kind: z.enum(["cypher", "pattern"]).describe("Kind of query"),
+  query: z.string().nullable().describe("Cypher text, for 'cypher' queries"),
+  pattern: z.record(z.unknown()).nullable().describe("pattern_detect input template, for 'pattern' queries"),
+  parameters: z.array(SavedQueryParameterSchema).describe("Declared parameters"),
+  projectId: z.string().nullable().describe("Project the query is saved in, or null when global"),
+  createdBy: z.string().nullable().describe("Who saved the query"),
+  createdAt: z.string().describe("When the query was first saved"),
+  updatedAt: z.string().describe("When the query was last saved"),
+  lastRunAt: z.string().nullable().describe("When the query was last run"),
+  runCount: z.number().describe("Times the query was run")
+});
@@ -0,0 +1,115 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { CreateTaskSchemaShape, VALID_TASK_STATUSES, VALID_TASK_PRIORITIES } from './types.js';
+import { taskCreate } from './taskCreate.js';
+import { registerTool, createToolExample, createToolMetadata } from '../../../types/tool.js';
+import { z } from 'zod';
+
+const TaskReturnSchema = z.object({
+  id: z.string().describe("Task ID (TASK_ prefix)"),
+  projectId: z.string().describe("Project the task belongs to"),
+  title: z.string().describe("Task title"),
+  description: z.string().describe("Task description"),
+  status: z.enum(VALID_TASK_STATUSES).describe("Task status"),
+  priority: z.enum(VALID_TASK_PRIORITIES).describe("Task priority"),
+  assigneeId: z.string().nullable().describe("Assigned member ID"),
+  dueDate: z.string().nullable().describe("Due date"),
+  parentTaskId: z.string().nullable().describe("Parent task ID"),
+  createdAt: z.string().describe("Creation time"),
+  updatedAt: z.string().describe("Last update time")
+});
+
+export const registerTaskCreateTool = (server: McpServer) => {
+  registerTool(
+    server,
+    "task_create",
+    "Create tasks in a project with a status, priority, optional assignee (a member of the project), due date and parent task. Supports both single task creation and bulk operations for multiple tasks.",
+    CreateTaskSchemaShape,
+    taskCreate,
+    createToolMetadata({
+      examples: [
+        createToolExample(
+          {
+            mode: "single",
+            projectId: "PROJ_A1B2C3",
+            title: "Trace bridge outflows",
+            priority: "high",
+            assigneeId: "MEMBER_1741356000000",
+            dueDate: "2025-03-14"
+          },
+          `{
+  "title": "Trace bridge outflows",
+  "description": "",
+  "status": "todo",
+  "priority": "high",
+  "dueDate": "2025-03-14",
+  "createdAt": "2025-03-07T12:00:00.000Z",
+  "updatedAt": "2025-03-07T12:00:00.000Z",
+  "id": "TASK_D4E5F6",
+  "projectId": "PROJ_A1B2C3",
+  "assigneeId": "MEMBER_1741356000000",
+  "parentTaskId": null
+}`,
+          "Create a single assigned task with a due date"
+        ),
+        createToolExample(
+          {
+            mode: "bulk",
+            projectId: "PROJ_A1B2C3",
+            tasks: [
+              { title: "Label exchange hot wallets", parentTaskId: "TASK_D4E5F6" },
+              { title: "Write up findings", priority: "low" }
+            ]
+          },
+          `{
+  "success": true,
+  "message": "Successfully processed 2 items",
+  "created": [
+    {
+      "title": "Label exchange hot wallets",
+      "status": "todo",
+      "priority": "medium",
+      "id": "TASK_G7H8I9",
+      "projectId": "PROJ_A1B2C3",
+      "parentTaskId": "TASK_D4E5F6"
+    },
+    {
+      "title": "Write up findings",
+      "status": "todo",
+      "priority": "low",
+      "id": "TASK_J1K2L3",
+      "projectId": "PROJ_A1B2C3",
+      "parentTaskId": null
+    }
+  ],
+  "errors": []
+}`,
+          "Create a subtask and a top-level task"
+        )
+      ],
+      requiredPermission: "project:task:create",
+      returnSchema: z.union([
+        // Single task response
+        TaskReturnSchema,
+        // Bulk creation response
+        z.object({
+          success: z.boolean().describe("Operation success status"),
+          message: z.string().describe("Result message"),
+          created: z.array(TaskReturnSchema).describe("Created tasks"),
+          errors: z.array(z.object({
+            index: z.number().describe("Position of the task in the request"),
+            task: z.unknown().describe("The task that failed"),
+            error: z.object({
+              code: z.string().describe("Error code"),
+              message: z.string().describe("Error message"),
+              details: z.unknown().optional().describe("Error details")
+            })
+          })).describe("Tasks that could not be created")
+        })
+      ]),
+      rateLimit: {
+        windowMs: 60 * 1000, // 1 minute
+        maxRequests: 15 // 15 requests per minute (either single or bulk)
+      }
+    })
+  );
+};
@@ -0,0 +1,87 @@
+import { logger } from '../../../utils/logger.js';
+import { createTask, createTasksBulk } from '../../../neo4j/projectService.js';
+import { CreateTaskSchema } from './types.js';
+import { createToolResponse } from '../../../types/mcp.js';
+import { McpError, BaseErrorCode } from '../../../types/errors.js';
+import { ToolContext } from '../../../utils/security.js';
+
+export const taskCreate = async (
+  input: unknown,
+  context: ToolContext
+) => {
+  try {
+    const validatedInput = CreateTaskSchema.parse(input);
+
+    if (validatedInput.mode === 'bulk') {
+      logger.info("Creating multiple tasks", {
+        projectId: validatedInput.projectId,
+        count: validatedInput.tasks.length,
+        requestId: context.requestContext?.requestId
+      });
+
+      const result = await createTasksBulk(validatedInput.projectId, validatedInput.tasks);
+
+      logger.info("Bulk task creation completed", {
+        successCount: result.successes.length,
+        errorCount: result.errors.length,
+        taskIds: result.successes.map(t => t.id),
+        requestId: context.requestContext?.requestId
+      });
+
+      if (result.errors.length > 0) {
+        logger.warn("Some tasks failed to create", {
+          errors: result.errors,
+          requestId: context.requestContext?.requestId
+        });
+      }
+
+      return createToolResponse(JSON.stringify({
+        success: result.success,
+        message: result.message,
+        created: result.successes,
+        errors: result.errors.map(error => ({
+          index: error.index,
+          task: error.item,
+          error: {
+            code: error.error.code,
+            message: error.error.message,
+            details: error.error.details
+          }
+        }))
+      }, null, 2));
+
+    } else {
+      const { mode, projectId, ...task } = validatedInput;
+
+      logger.info("Creating new task", {
+        projectId,
+        title: task.title,
+        requestId: context.requestContext?.requestId
+      });
+
+      const created = await createTask(projectId, task);
+
+      logger.info("Task created successfully", {
+        taskId: created.id,
+        projectId,
+        requestId: context.requestContext?.requestId
+      });
+
+      return createToolResponse(JSON.stringify(created, null, 2));
+    }
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    logger.error("Error creating task(s)", {
+      error,
+      requestId: context.requestContext?.requestId
+    });
+
+    throw new McpError(
+      BaseErrorCode.INTERNAL_ERROR,
+      `Error creating task(s): ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+};
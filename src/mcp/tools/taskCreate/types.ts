@@ -0,0 +1,80 @@
+import { z } from "zod";
+import { McpToolResponse } from '../../../types/mcp.js';
+
+export const VALID_TASK_STATUSES = ['todo', 'in_progress', 'blocked', 'done', 'cancelled'] as const;
+export const VALID_TASK_PRIORITIES = ['low', 'medium', 'high', 'critical'] as const;
+
+// Due dates are either a calendar date or a full ISO 8601 timestamp
+export const TaskDueDateSchema = z.union([z.string().date(), z.string().datetime({ offset: true })]);
+
+export const TaskSchema = z.object({
+  title: z.string().min(1).describe(
+    "Short title of the task."
+  ),
+  description: z.string().optional().describe(
+    "Optional details about what the task involves."
+  ),
+  status: z.enum(VALID_TASK_STATUSES).optional().describe(
+    "Task status: 'todo' (default), 'in_progress', 'blocked', 'done', or 'cancelled'."
+  ),
+  priority: z.enum(VALID_TASK_PRIORITIES).optional().describe(
+    "Task priority: 'low', 'medium' (default), 'high', or 'critical'."
+  ),
+  assigneeId: z.string().optional().describe(
+    "ID of the project member the task is assigned to."
+  ),
+  dueDate: TaskDueDateSchema.optional().describe(
+    "Due date as YYYY-MM-DD or an ISO 8601 timestamp."
+  ),
+  parentTaskId: z.string().optional().describe(
+    "ID of a task in the same project this task is a subtask of."
+  )
+});
+
+const SingleTaskSchema = z.object({
+  mode: z.literal("single"),
+  projectId: z.string(),
+  ...TaskSchema.shape
+}).describe(
+  "Creates a single task in a project."
+);
+
+const BulkTaskSchema = z.object({
+  mode: z.literal("bulk"),
+  projectId: z.string(),
+  tasks: z.array(TaskSchema).min(1).max(100).describe(
+    "Array of tasks to create in the project. Supports 1-100 tasks per request."
+  )
+}).describe("Create multiple tasks in a project in a single operation.");
+
+// Schema shapes for tool registration
+export const CreateTaskSchemaShape = {
+  mode: z.enum(["single", "bulk"]).describe(
+    "'single' for one task, 'bulk' for multiple tasks."
+  ),
+  projectId: z.string().describe(
+    "ID of the project the tasks belong to."
+  ),
+  title: z.string().min(1).optional().describe(
+    "Required for single mode: Task title."
+  ),
+  description: TaskSchema.shape.description,
+  status: TaskSchema.shape.status,
+  priority: TaskSchema.shape.priority,
+  assigneeId: TaskSchema.shape.assigneeId,
+  dueDate: TaskSchema.shape.dueDate,
+  parentTaskId: TaskSchema.shape.parentTaskId,
+  tasks: z.array(TaskSchema).min(1).max(100).optional().describe(
+    "Required for bulk mode: Array of 1-100 tasks. Tasks are created in order, so a later task cannot be the parent of an earlier one."
+  )
+} as const;
+
+// Schema for validation
+export const CreateTaskSchema = z.discriminatedUnion("mode", [
+  SingleTaskSchema,
+  BulkTaskSchema
+]);
+
+export type CreateTaskInput = z.infer<typeof CreateTaskSchema>;
+export type TaskSchemaInput = z.infer<typeof TaskSchema>;
+export type CreateTaskResponse = McpToolResponse;
@@ -0,0 +1,66 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { DeleteTaskSchemaShape } from './types.js';
+import { taskDelete } from './taskDelete.js';
+import { registerTool, createToolExample, createToolMetadata } from '../../../types/tool.js';
+import { z } from 'zod';
+
+export const registerTaskDeleteTool = (server: McpServer) => {
+  registerTool(
+    server,
+    "task_delete",
+    "Delete tasks together with all of their subtasks. Supports both single task deletion and bulk operations for multiple tasks.",
+    DeleteTaskSchemaShape,
+    taskDelete,
+    createToolMetadata({
+      examples: [
+        createToolExample(
+          {
+            mode: "single",
+            taskId: "TASK_D4E5F6"
+          },
+          `{
+  "success": true,
+  "message": "Task TASK_D4E5F6 deleted successfully with 1 subtasks",
+  "subtaskCount": 1
+}`,
+          "Delete a task and its subtask"
+        ),
+        createToolExample(
+          {
+            mode: "bulk",
+            taskIds: ["TASK_G7H8I9", "TASK_J1K2L3"]
+          },
+          `{
+  "success": true,
+  "message": "Successfully deleted 2 tasks",
+  "deletedCount": 2,
+  "subtaskCount": 0,
+  "notFoundIds": []
+}`,
+          "Delete multiple tasks"
+        )
+      ],
+      requiredPermission: "project:task:delete",
+      returnSchema: z.union([
+        // Single deletion response
+        z.object({
+          success: z.boolean().describe("Operation success"),
+          message: z.string().describe("Result message"),
+          subtaskCount: z.number().describe("Subtasks deleted along with the task")
+        }),
+        // Bulk deletion response
+        z.object({
+          success: z.boolean().describe("Operation success"),
+          message: z.string().describe("Result message"),
+          deletedCount: z.number().describe("Tasks deleted"),
+          subtaskCount: z.number().describe("Subtasks deleted along with them"),
+          notFoundIds: z.array(z.string()).describe("Tasks not found")
+        })
+      ]),
+      rateLimit: {
+        windowMs: 60 * 1000, // 1 minute
+        maxRequests: 10 // 10 task deletions per minute (single or bulk)
+      }
+    })
+  );
+};
@@ -0,0 +1,98 @@
+import { logger } from '../../../utils/logger.js';
+import { deleteTask, deleteTasksBulk } from '../../../neo4j/projectService.js';
+import { DeleteTaskSchema } from './types.js';
+import { createToolResponse } from '../../../types/mcp.js';
+import { McpError, BaseErrorCode, TaskErrorCode } from '../../../types/errors.js';
+import { ToolContext } from '../../../utils/security.js';
+
+export const taskDelete = async (
+  input: unknown,
+  context: ToolContext
+) => {
+  try {
+    const validatedInput = DeleteTaskSchema.parse(input);
+
+    if (validatedInput.mode === 'bulk') {
+      logger.info("Deleting multiple tasks", {
+        count: validatedInput.taskIds.length,
+        taskIds: validatedInput.taskIds,
+        requestId: context.requestContext?.requestId
+      });
+
+      const result = await deleteTasksBulk(validatedInput.taskIds);
+
+      logger.info("Tasks deletion completed", {
+        deletedCount: result.deletedCount,
+        subtaskCount: result.subtaskCount,
+        notFoundCount: result.notFoundIds.length,
+        requestId: context.requestContext?.requestId
+      });
+
+      if (result.notFoundIds.length > 0) {
+        logger.warn("Some tasks were not found", {
+          notFoundIds: result.notFoundIds,
+          requestId: context.requestContext?.requestId
+        });
+      }
+
+      return createToolResponse(JSON.stringify({
+        success: result.success,
+        message: `Successfully deleted ${result.deletedCount} tasks` +
+                (result.subtaskCount > 0 ? ` and ${result.subtaskCount} subtasks` : '') +
+                (result.notFoundIds.length > 0 ? `. ${result.notFoundIds.length} tasks not found.` : ''),
+        deletedCount: result.deletedCount,
+        subtaskCount: result.subtaskCount,
+        notFoundIds: result.notFoundIds
+      }, null, 2));
+
+    } else {
+      const { taskId } = validatedInput;
+
+      logger.info("Deleting task", {
+        taskId,
+        requestId: context.requestContext?.requestId
+      });
+
+      const result = await deleteTask(taskId);
+
+      if (!result.success) {
+        logger.warn("Task not found for deletion", {
+          taskId,
+          requestId: context.requestContext?.requestId
+        });
+        throw new McpError(
+          TaskErrorCode.TASK_NOT_FOUND,
+          `Task with ID ${taskId} not found`,
+          { taskId }
+        );
+      }
+
+      logger.info("Task deleted successfully", {
+        taskId,
+        requestId: context.requestContext?.requestId
+      });
+
+      return createToolResponse(JSON.stringify({
+        success: result.success,
+        message: `Task ${taskId} deleted successfully` +
+                (result.subtaskCount > 0 ? ` with ${result.subtaskCount} subtasks` : ''),
+        subtaskCount: result.subtaskCount
+      }, null, 2));
+    }
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    logger.error("Error deleting task(s)", {
+      error,
+      input,
+      requestId: context.requestContext?.requestId
+    });
+
+    throw new McpError(
+      BaseErrorCode.INTERNAL_ERROR,
+      `Error deleting task(s): ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+};
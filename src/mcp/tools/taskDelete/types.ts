@@ -0,0 +1,44 @@
+import { z } from "zod";
+import { McpToolResponse } from '../../../types/mcp.js';
+
+// Single task deletion schema
+const SingleDeletionSchema = z.object({
+  mode: z.literal("single"),
+  taskId: z.string().describe(
+    "Task ID to delete."
+  )
+}).describe(
+  "Delete a single task and its subtasks by ID."
+);
+
+// Bulk task deletion schema
+const BulkDeletionSchema = z.object({
+  mode: z.literal("bulk"),
+  taskIds: z.array(z.string()).min(1).max(100).describe(
+    "Array of task IDs to delete (1-100 tasks)."
+  )
+}).describe(
+  "Delete multiple tasks and their subtasks in a single operation."
+);
+
+// Schema shapes for tool registration
+export const DeleteTaskSchemaShape = {
+  mode: z.enum(["single", "bulk"]).describe(
+    "'single' for one task, 'bulk' for multiple tasks."
+  ),
+  taskId: z.string().optional().describe(
+    "Required for single mode: Task ID to delete."
+  ),
+  taskIds: z.array(z.string()).min(1).max(100).optional().describe(
+    "Required for bulk mode: Array of 1-100 task IDs to delete."
+  )
+} as const;
+
+// Schema for validation
+export const DeleteTaskSchema = z.discriminatedUnion("mode", [
+  SingleDeletionSchema,
+  BulkDeletionSchema
+]);
+
+export type DeleteTaskInput = z.infer<typeof DeleteTaskSchema>;
+export type DeleteTaskResponse = McpToolResponse;
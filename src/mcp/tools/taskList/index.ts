@@ -0,0 +1,71 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { TaskListSchemaShape } from './types.js';
+import { taskList } from './taskList.js';
+import { registerTool, createToolExample, createToolMetadata } from '../../../types/tool.js';
+import { z } from 'zod';
+import { VALID_TASK_PRIORITIES, VALID_TASK_STATUSES } from '../taskCreate/types.js';
+
+export const registerTaskListTool = (server: McpServer) => {
+  registerTool(
+    server,
+    "task_list",
+    "List a project's tasks, most urgent first: by priority, then by due date (undated last). Filter by status, priority, assignee or parent task.",
+    TaskListSchemaShape,
+    taskList,
+    createToolMetadata({
+      examples: [
+        createToolExample(
+          {
+            projectId: "PROJ_A1B2C3",
+            assigneeId: "MEMBER_1741356000000",
+            status: "in_progress"
+          },
+          `{
+  "items": [
+    {
+      "title": "Trace bridge outflows",
+      "description": "",
+      "status": "in_progress",
+      "priority": "high",
+      "dueDate": "2025-03-14",
+      "createdAt": "2025-03-07T12:00:00.000Z",
+      "updatedAt": "2025-03-08T09:30:00.000Z",
+      "id": "TASK_D4E5F6",
+      "projectId": "PROJ_A1B2C3",
+      "assigneeId": "MEMBER_1741356000000",
+      "parentTaskId": null
+    }
+  ],
+  "total": 1,
+  "page": 1,
+  "limit": 20
+}`,
+          "List a member's tasks in progress"
+        )
+      ],
+      requiredPermission: "project:task:list",
+      returnSchema: z.object({
+        items: z.array(z.object({
+          id: z.string().describe("Task ID"),
+          projectId: z.string().describe("Project ID"),
+          title: z.string().describe("Title"),
+          description: z.string().describe("Description"),
+          status: z.enum(VALID_TASK_STATUSES).describe("Status"),
+          priority: z.enum(VALID_TASK_PRIORITIES).describe("Priority"),
+          assigneeId: z.string().nullable().describe("Assigned member ID"),
+          dueDate: z.string().nullable().describe("Due date"),
+          parentTaskId: z.string().nullable().describe("Parent task ID"),
+          createdAt: z.string().describe("Created"),
+          updatedAt: z.string().describe("Updated")
+        })).describe("Tasks on this page"),
+        total: z.number().describe("Tasks matching the filters"),
+        page: z.number().describe("Page number"),
+        limit: z.number().describe("Tasks per page")
+      }),
+      rateLimit: {
+        windowMs: 60 * 1000, // 1 minute
+        maxRequests: 30 // 30 requests per minute
+      }
+    })
+  );
+};
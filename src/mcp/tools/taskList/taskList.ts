@@ -0,0 +1,39 @@
+import { logger } from '../../../utils/logger.js';
+import { listTasks } from '../../../neo4j/projectService.js';
+import { TaskListSchema } from './types.js';
+import { createToolResponse } from '../../../types/mcp.js';
+import { McpError, BaseErrorCode } from '../../../types/errors.js';
+import { ToolContext } from '../../../utils/security.js';
+
+export const taskList = async (
+  input: unknown,
+  context: ToolContext
+) => {
+  try {
+    const validatedInput = TaskListSchema.parse(input);
+
+    logger.info("Listing project tasks", {
+      ...validatedInput,
+      requestId: context.requestContext?.requestId
+    });
+
+    const result = await listTasks(validatedInput);
+
+    return createToolResponse(JSON.stringify(result, null, 2));
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    logger.error("Error listing tasks", {
+      error,
+      input,
+      requestId: context.requestContext?.requestId
+    });
+
+    throw new McpError(
+      BaseErrorCode.INTERNAL_ERROR,
+      `Error listing tasks: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+};
@@ -0,0 +1,32 @@
+import { z } from "zod";
+import { McpToolResponse } from '../../../types/mcp.js';
+import { VALID_TASK_PRIORITIES, VALID_TASK_STATUSES } from '../taskCreate/types.js';
+
+export const TaskListSchemaShape = {
+  projectId: z.string().describe(
+    "ID of the project whose tasks to list."
+  ),
+  status: z.enum(VALID_TASK_STATUSES).optional().describe(
+    "Only tasks with this status."
+  ),
+  priority: z.enum(VALID_TASK_PRIORITIES).optional().describe(
+    "Only tasks with this priority."
+  ),
+  assigneeId: z.string().optional().describe(
+    "Only tasks assigned to this member."
+  ),
+  parentTaskId: z.string().optional().describe(
+    "Only direct subtasks of this task."
+  ),
+  page: z.number().int().positive().optional().describe(
+    "Page number for pagination (default: 1)"
+  ),
+  limit: z.number().int().positive().max(100).optional().describe(
+    "Number of tasks per page (default: 20, max: 100)"
+  )
+} as const;
+
+export const TaskListSchema = z.object(TaskListSchemaShape);
+
+export type TaskListInput = z.infer<typeof TaskListSchema>;
+export type TaskListResponse = McpToolResponse;
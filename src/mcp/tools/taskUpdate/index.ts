@@ -0,0 +1,101 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { UpdateTaskSchemaShape } from './types.js';
+import { taskUpdate } from './taskUpdate.js';
+import { registerTool, createToolExample, createToolMetadata } from '../../../types/tool.js';
+import { z } from 'zod';
+import { VALID_TASK_PRIORITIES, VALID_TASK_STATUSES } from '../taskCreate/types.js';
+
+const TaskReturnSchema = z.object({
+  id: z.string().describe("Task ID"),
+  projectId: z.string().describe("Project the task belongs to"),
+  title: z.string().describe("Current title"),
+  description: z.string().describe("Current description"),
+  status: z.enum(VALID_TASK_STATUSES).describe("Current status"),
+  priority: z.enum(VALID_TASK_PRIORITIES).describe("Current priority"),
+  assigneeId: z.string().nullable().describe("Assigned member ID"),
+  dueDate: z.string().nullable().describe("Due date"),
+  parentTaskId: z.string().nullable().describe("Parent task ID"),
+  createdAt: z.string().describe("Creation time"),
+  updatedAt: z.string().describe("Last update time")
+});
+
+export const registerTaskUpdateTool = (server: McpServer) => {
+  registerTool(
+    server,
+    "task_update",
+    "Update tasks: title, description, status, priority, assignee, due date and parent task. Setting assigneeId, dueDate or parentTaskId to null clears it. A task cannot be moved under itself or one of its own subtasks. Supports both single task updates and bulk operations.",
+    UpdateTaskSchemaShape,
+    taskUpdate,
+    createToolMetadata({
+      examples: [
+        createToolExample(
+          {
+            mode: "single",
+            taskId: "TASK_D4E5F6",
+            updates: {
+              status: "in_progress",
+              assigneeId: "MEMBER_1741356000000"
+            }
+          },
+          `{
+  "title": "Trace bridge outflows",
+  "description": "",
+  "status": "in_progress",
+  "priority": "high",
+  "dueDate": "2025-03-14",
+  "createdAt": "2025-03-07T12:00:00.000Z",
+  "updatedAt": "2025-03-08T09:30:00.000Z",
+  "id": "TASK_D4E5F6",
+  "projectId": "PROJ_A1B2C3",
+  "assigneeId": "MEMBER_1741356000000",
+  "parentTaskId": null
+}`,
+          "Start work on a task and assign it"
+        ),
+        createToolExample(
+          {
+            mode: "bulk",
+            tasks: [
+              { taskId: "TASK_G7H8I9", updates: { status: "done" } },
+              { taskId: "TASK_J1K2L3", updates: { dueDate: null, parentTaskId: "TASK_D4E5F6" } }
+            ]
+          },
+          `{
+  "success": true,
+  "message": "Successfully processed 2 items",
+  "updated": [
+    { "id": "TASK_G7H8I9", "status": "done", "parentTaskId": "TASK_D4E5F6" },
+    { "id": "TASK_J1K2L3", "dueDate": null, "parentTaskId": "TASK_D4E5F6" }
+  ],
+  "errors": []
+}`,
+          "Complete one task and move another under a parent"
+        )
+      ],
+      requiredPermission: "project:task:update",
+      returnSchema: z.union([
+        // Single update response
+        TaskReturnSchema,
+        // Bulk update response
+        z.object({
+          success: z.boolean().describe("Operation success"),
+          message: z.string().describe("Result message"),
+          updated: z.array(TaskReturnSchema).describe("Updated tasks"),
+          errors: z.array(z.object({
+            index: z.number().describe("Position of the update in the request"),
+            taskId: z.string().describe("Task that could not be updated"),
+            error: z.object({
+              code: z.string().describe("Error code"),
+              message: z.string().describe("Error message"),
+              details: z.unknown().optional().describe("Error details")
+            })
+          })).describe("Updates that failed")
+        })
+      ]),
+      rateLimit: {
+        windowMs: 60 * 1000, // 1 minute
+        maxRequests: 20 // 20 task updates per minute (single or bulk)
+      }
+    })
+  );
+};
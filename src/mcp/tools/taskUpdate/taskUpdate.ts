@@ -0,0 +1,85 @@
+import { logger } from '../../../utils/logger.js';
+import { updateTask, updateTasksBulk } from '../../../neo4j/projectService.js';
+import { UpdateTaskSchema } from './types.js';
+import { createToolResponse } from '../../../types/mcp.js';
+import { McpError, BaseErrorCode } from '../../../types/errors.js';
+import { ToolContext } from '../../../utils/security.js';
+
+export const taskUpdate = async (
+  input: unknown,
+  context: ToolContext
+) => {
+  try {
+    const validatedInput = UpdateTaskSchema.parse(input);
+
+    if (validatedInput.mode === 'bulk') {
+      logger.info("Updating multiple tasks", {
+        count: validatedInput.tasks.length,
+        requestId: context.requestContext?.requestId
+      });
+
+      const result = await updateTasksBulk(validatedInput.tasks);
+
+      logger.info("Bulk task update completed", {
+        successCount: result.successes.length,
+        errorCount: result.errors.length,
+        requestId: context.requestContext?.requestId
+      });
+
+      if (result.errors.length > 0) {
+        logger.warn("Some tasks failed to update", {
+          errors: result.errors,
+          requestId: context.requestContext?.requestId
+        });
+      }
+
+      return createToolResponse(JSON.stringify({
+        success: result.success,
+        message: result.message,
+        updated: result.successes,
+        errors: result.errors.map(error => ({
+          index: error.index,
+          taskId: error.item.taskId,
+          error: {
+            code: error.error.code,
+            message: error.error.message,
+            details: error.error.details
+          }
+        }))
+      }, null, 2));
+
+    } else {
+      const { taskId, updates } = validatedInput;
+
+      logger.info("Updating task", {
+        taskId,
+        updates,
+        requestId: context.requestContext?.requestId
+      });
+
+      const task = await updateTask(taskId, updates);
+
+      logger.info("Task updated successfully", {
+        taskId,
+        requestId: context.requestContext?.requestId
+      });
+
+      return createToolResponse(JSON.stringify(task, null, 2));
+    }
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    logger.error("Error updating task(s)", {
+      error,
+      input,
+      requestId: context.requestContext?.requestId
+    });
+
+    throw new McpError(
+      BaseErrorCode.INTERNAL_ERROR,
+      `Error updating task(s): ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+};
@@ -0,0 +1,90 @@
+import { z } from "zod";
+import { McpToolResponse } from '../../../types/mcp.js';
+import { TaskDueDateSchema, VALID_TASK_PRIORITIES, VALID_TASK_STATUSES } from '../taskCreate/types.js';
+
+// Define the update schema shape; null clears the assignee, due date or parent
+const TaskUpdateShape = {
+  title: z.string().min(1).describe(
+    "Task title (non-empty)."
+  ),
+  description: z.string().describe(
+    "Task description."
+  ),
+  status: z.enum(VALID_TASK_STATUSES).describe(
+    "Task status ('todo', 'in_progress', 'blocked', 'done', 'cancelled')."
+  ),
+  priority: z.enum(VALID_TASK_PRIORITIES).describe(
+    "Task priority ('low', 'medium', 'high', 'critical')."
+  ),
+  assigneeId: z.string().nullable().describe(
+    "ID of the project member to assign, or null to unassign."
+  ),
+  dueDate: TaskDueDateSchema.nullable().describe(
+    "Due date as YYYY-MM-DD or an ISO 8601 timestamp, or null to clear it."
+  ),
+  parentTaskId: z.string().nullable().describe(
+    "ID of the new parent task in the same project, or null to make the task top-level."
+  )
+} as const;
+
+// Single task update schema
+const SingleUpdateSchema = z.object({
+  mode: z.literal("single"),
+  taskId: z.string().describe(
+    "Task ID to update."
+  ),
+  updates: z.object(TaskUpdateShape).partial().describe(
+    "Fields to update - only specified fields will be modified."
+  )
+}).describe(
+  "Update a single task by ID with partial field updates."
+);
+
+// Bulk task update schema
+const BulkUpdateSchema = z.object({
+  mode: z.literal("bulk"),
+  tasks: z.array(z.object({
+    taskId: z.string().describe(
+      "Task ID to update."
+    ),
+    updates: z.object(TaskUpdateShape).partial().describe(
+      "Fields to update for this task."
+    )
+  })).min(1).max(100).describe(
+    "Array of task updates (1-100 tasks)."
+  )
+}).describe(
+  "Update multiple tasks in a single operation."
+);
+
+// Schema shapes for tool registration
+export const UpdateTaskSchemaShape = {
+  mode: z.enum(["single", "bulk"]).describe(
+    "'single' for one task, 'bulk' for multiple tasks."
+  ),
+  taskId: z.string().optional().describe(
+    "Required for single mode: Task ID to update."
+  ),
+  updates: z.object(TaskUpdateShape).partial().optional().describe(
+    "Required for single mode: Fields to update."
+  ),
+  tasks: z.array(z.object({
+    taskId: z.string().describe(
+      "Task ID to update."
+    ),
+    updates: z.object(TaskUpdateShape).partial().describe(
+      "Fields to update for this task."
+    )
+  })).min(1).max(100).optional().describe(
+    "Required for bulk mode: Array of 1-100 task updates, applied in order."
+  )
+} as const;
+
+// Schema for validation
+export const UpdateTaskSchema = z.discriminatedUnion("mode", [
+  SingleUpdateSchema,
+  BulkUpdateSchema
+]);
+
+export type UpdateTaskInput = z.infer<typeof UpdateTaskSchema>;
+export type UpdateTaskResponse = McpToolResponse;
@@ -0,0 +1,87 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { TokenFlowSchemaShape } from './types.js';
+import { tokenFlow } from './tokenFlow.js';
+import { AddressNamesSchema } from '../addressLabelSet/types.js';
+import { registerTool, createToolExample, createToolMetadata } from '../../../types/tool.js';
+import { z } from 'zod';
+
+export const registerTokenFlowTool = (server: McpServer) => {
+  registerTool(
+    server,
+    "token_flow",
+    "Trace the paths along which a token moved from one address to another, following transfers of that mint in chronological order. Amounts are base-unit integer strings.",
+    TokenFlowSchemaShape,
+    tokenFlow,
+    createToolMetadata({
+      examples: [
+        createToolExample(
+          {
+            chain: "solana",
+            from: "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM",
+            to: "3Kz9vZ5vDk7iYk8YH3s4DkNfgLXqpjB3Sr1WUxZxhcDx",
+            mint: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+            maxHops: 3
+          },
+          `{
+  "chain": "solana",
+  "from": "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM",
+  "to": "3Kz9vZ5vDk7iYk8YH3s4DkNfgLXqpjB3Sr1WUxZxhcDx",
+  "mint": "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+  "decimals": 6,
+  "paths": [
+    {
+      "hops": 2,
+      "amount": "2500000000",
+      "transfers": [
+        { "from": "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM", "to": "5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1", "amount": "2500000000", "signature": "...", "position": "311204518", "blockTime": "2025-01-03T10:00:00.000Z" },
+        { "from": "5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1", "to": "3Kz9vZ5vDk7iYk8YH3s4DkNfgLXqpjB3Sr1WUxZxhcDx", "amount": "2500000000", "signature": "...", "position": "311204977", "blockTime": "2025-01-03T10:03:04.000Z" }
+      ]
+    }
+  ],
+  "summary": {
+    "pathCount": 1,
+    "directAmount": "0",
+    "intermediaries": ["5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1"],
+    "truncated": false
+  },
+  "names": {
+    "5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1": { "label": "Exchange X hot wallet", "entity": { "id": "ENT_Q7W2K9", "name": "Exchange X" } }
+  }
+}`,
+          "Trace USDC between two wallets"
+        )
+      ],
+      requiredPermission: "chain:read",
+      returnSchema: z.object({
+        chain: z.string().describe("Chain"),
+        from: z.string().describe("Source address"),
+        to: z.string().describe("Destination address"),
+        mint: z.string().describe("Token traced"),
+        decimals: z.number().nullable().describe("Token decimals, if known"),
+        paths: z.array(z.object({
+          hops: z.number().describe("Transfers in the path"),
+          amount: z.string().describe("Smallest transfer along the path in base units"),
+          transfers: z.array(z.object({
+            from: z.string().describe("Sender"),
+            to: z.string().describe("Receiver"),
+            amount: z.string().describe("Amount in base units"),
+            signature: z.string().describe("Transaction signature or digest"),
+            position: z.string().nullable().describe("Slot (Solana) or checkpoint (Sui)"),
+            blockTime: z.string().nullable().describe("Block time")
+          })).describe("Transfers in order")
+        })).describe("Paths, shortest first"),
+        summary: z.object({
+          pathCount: z.number().describe("Paths found"),
+          directAmount: z.string().describe("Sum of direct transfers in base units"),
+          intermediaries: z.array(z.string()).describe("Addresses the token passed through"),
+          truncated: z.boolean().describe("Whether more candidate paths existed than were scanned")
+        }).describe("Summary"),
+        names: AddressNamesSchema
+      }),
+      rateLimit: {
+        windowMs: 60 * 1000, // 1 minute
+        maxRequests: 30 // 30 traces per minute
+      }
+    })
+  );
+};
@@ -0,0 +1,52 @@
+import { logger } from '../../../utils/logger.js';
+import { getTokenFlow } from '../../../neo4j/blockchainService.js';
+import { TokenFlowSchema } from './types.js';
+import { createToolResponse } from '../../../types/mcp.js';
+import { McpError, BaseErrorCode } from '../../../types/errors.js';
+import { ToolContext } from '../../../utils/security.js';
+import { normalizeChainAddress } from '../../../utils/chainAddress.js';
+
+export const tokenFlow = async (
+  input: unknown,
+  context: ToolContext
+) => {
+  try {
+    // Validate input
+    const { chain, mint, ...options } = TokenFlowSchema.parse(input);
+    const from = normalizeChainAddress(chain, options.from);
+    const to = normalizeChainAddress(chain, options.to);
+
+    logger.info("Tracing token flow", {
+      chain,
+      from,
+      to,
+      mint,
+      requestId: context.requestContext?.requestId
+    });
+
+    const result = await getTokenFlow(chain, from, to, mint, options);
+
+    logger.info("Token flow traced", {
+      chain,
+      pathCount: result.summary.pathCount,
+      requestId: context.requestContext?.requestId
+    });
+
+    return createToolResponse(JSON.stringify(result, null, 2));
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    logger.error("Error tracing token flow", {
+      error,
+      input,
+      requestId: context.requestContext?.requestId
+    });
+
+    throw new McpError(
+      BaseErrorCode.INTERNAL_ERROR,
+      `Error tracing token flow: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+};
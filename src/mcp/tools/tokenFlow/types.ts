@@ -0,0 +1,40 @@
+import { z } from "zod";
+import { McpToolResponse } from '../../../types/mcp.js';
+import { SUPPORTED_CHAINS } from '../../../utils/chainAddress.js';
+
+// Schema shapes for tool registration
+export const TokenFlowSchemaShape = {
+  chain: z.enum(SUPPORTED_CHAINS).describe(
+    "Chain of both addresses: 'solana' or 'sui'."
+  ),
+  from: z.string().min(1).describe(
+    "Address the token moved from."
+  ),
+  to: z.string().min(1).describe(
+    "Address the token moved to."
+  ),
+  mint: z.string().min(1).describe(
+    "SPL mint, Sui coin type, or native asset ('SOL' or '0x2::sui::SUI')."
+  ),
+  maxHops: z.number().int().min(1).max(6).optional().describe(
+    "Maximum transfers in a path (default: 4, max: 6)."
+  ),
+  minAmount: z.string().regex(/^\d+$/, "minAmount must be a non-negative integer in base units").optional().describe(
+    "Ignore paths whose smallest transfer is below this amount in base units."
+  ),
+  since: z.string().datetime().optional().describe(
+    "Only follow transfers at or after this ISO timestamp."
+  ),
+  until: z.string().datetime().optional().describe(
+    "Only follow transfers at or before this ISO timestamp."
+  ),
+  limit: z.number().int().min(1).max(100).optional().describe(
+    "Maximum number of paths to return (default: 10)."
+  )
+} as const;
+
+// Schema for validation
+export const TokenFlowSchema = z.object(TokenFlowSchemaShape);
+
+export type TokenFlowInput = z.infer<typeof TokenFlowSchema>;
+export type TokenFlowResponse = McpToolResponse;
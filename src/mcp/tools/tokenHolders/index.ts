@@ -0,0 +1,121 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { TokenHoldersSchemaShape } from './types.js';
+import { tokenHolders } from './tokenHolders.js';
+import { AddressNamesSchema } from '../addressLabelSet/types.js';
+import { registerTool, createToolExample, createToolMetadata } from '../../../types/tool.js';
+import { z } from 'zod';
+
+const DistributionSchema = z.object({
+  at: z.string().nullable().describe("Slot or checkpoint reconstructed at"),
+  holderCount: z.number().describe("Addresses with a positive balance"),
+  totalHeld: z.string().describe("Sum of their balances in base units"),
+  exact: z.boolean().describe("Whether every balance is anchored to a reported absolute balance"),
+  gini: z.number().describe("Gini coefficient of the balances"),
+  nakamoto: z.number().describe("Fewest holders together holding more than half"),
+  labeledShare: z.number().describe("Fraction held by addresses with a label or entity"),
+  labeledHolders: z.array(z.object({
+    name: z.string().describe("Entity name, or address label"),
+    entityId: z.string().nullable().describe("Entity ID"),
+    addressCount: z.number().describe("Holding addresses in the group"),
+    share: z.number().describe("Fraction held by the group")
+  })).describe("Largest labeled holders, grouped by entity"),
+  topHolders: z.array(z.object({
+    rank: z.number().describe("Rank by balance"),
+    address: z.string().describe("Holder address"),
+    balance: z.string().describe("Balance in base units"),
+    share: z.number().describe("Fraction of the total held"),
+    exact: z.boolean().describe("Whether the balance is anchored to a reported absolute balance")
+  })).describe("Largest holders")
+});
+
+export const registerTokenHoldersTool = (server: McpServer) => {
+  registerTool(
+    server,
+    "token_holders",
+    "Reconstruct the holders of a token at a slot (Solana) or checkpoint (Sui) from ingested balance changes, with top holders, Gini and Nakamoto coefficients, and the share held by labeled addresses. With compareAt, also shows how the distribution and top holders changed between two positions. Results can be stored as a whiteboard snapshot for annotation; snapshots pinned to a position are reused until refreshed.",
+    TokenHoldersSchemaShape,
+    tokenHolders,
+    createToolMetadata({
+      examples: [
+        createToolExample(
+          {
+            chain: "solana",
+            mint: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+            at: "311204977",
+            compareAt: "310000000",
+            top: 3,
+            snapshot: true,
+            projectId: "PROJ_X7K2M9"
+          },
+          `{
+  "chain": "solana",
+  "mint": "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+  "decimals": 6,
+  "distribution": {
+    "at": "311204977",
+    "holderCount": 1842,
+    "totalHeld": "48211930000000",
+    "exact": true,
+    "gini": 0.9312,
+    "nakamoto": 4,
+    "labeledShare": 0.412,
+    "labeledHolders": [
+      { "name": "Exchange X", "entityId": "ENT_K2P9QD", "addressCount": 3, "share": 0.356 }
+    ],
+    "topHolders": [
+      { "rank": 1, "address": "5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1", "balance": "12000000000000", "share": 0.2489, "exact": true },
+      { "rank": 2, "address": "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM", "balance": "6100000000000", "share": 0.1265, "exact": true },
+      { "rank": 3, "address": "2AQdpHJ2JpcEgPiATUXjQxA8QmafFegfQwSLWSprPicm", "balance": "4200000000000", "share": 0.0871, "exact": true }
+    ]
+  },
+  "comparison": {
+    "distribution": { "at": "310000000", "holderCount": 1710, "gini": 0.9207, "nakamoto": 5, "...": "..." },
+    "holderCountChange": 132,
+    "giniChange": 0.0105,
+    "nakamotoChange": -1,
+    "labeledShareChange": 0.021,
+    "topHolderChanges": [
+      { "address": "5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1", "balanceBefore": "9000000000000", "balanceAfter": "12000000000000", "delta": "3000000000000", "rankBefore": 1, "rankAfter": 1 }
+    ]
+  },
+  "names": { "5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1": { "label": "Exchange X hot wallet", "entity": { "id": "ENT_K2P9QD", "name": "Exchange X" } } },
+  "snapshot": { "whiteboardId": "token-holders:solana:EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v:311204977", "version": 1, "cached": false }
+}`,
+          "USDC holder concentration at a slot compared with an earlier one, stored as a whiteboard"
+        )
+      ],
+      requiredPermission: "chain:read",
+      returnSchema: z.object({
+        chain: z.string().describe("Chain"),
+        mint: z.string().describe("Token"),
+        decimals: z.number().nullable().describe("Token decimals, if known"),
+        distribution: DistributionSchema.describe("Holders at the requested position"),
+        comparison: z.object({
+          distribution: DistributionSchema.describe("Holders at compareAt"),
+          holderCountChange: z.number().describe("Change in holder count"),
+          giniChange: z.number().describe("Change in the Gini coefficient"),
+          nakamotoChange: z.number().describe("Change in the Nakamoto coefficient"),
+          labeledShareChange: z.number().describe("Change in the labeled share"),
+          topHolderChanges: z.array(z.object({
+            address: z.string().describe("Holder address"),
+            balanceBefore: z.string().nullable().describe("Balance at compareAt, null if not a holder"),
+            balanceAfter: z.string().nullable().describe("Balance at the requested position, null if not a holder"),
+            delta: z.string().describe("Change in base units"),
+            rankBefore: z.number().nullable().describe("Rank at compareAt"),
+            rankAfter: z.number().nullable().describe("Rank at the requested position")
+          })).describe("Holders in the top list at either position")
+        }).nullable().describe("Comparison with compareAt, if requested"),
+        names: AddressNamesSchema,
+        snapshot: z.object({
+          whiteboardId: z.string().describe("Whiteboard holding the snapshot"),
+          version: z.number().describe("Whiteboard version"),
+          cached: z.boolean().describe("Whether the stored snapshot was returned instead of recomputing")
+        }).nullable().describe("Whiteboard snapshot, if requested")
+      }),
+      rateLimit: {
+        windowMs: 60 * 1000, // 1 minute
+        maxRequests: 20 // 20 reconstructions per minute
+      }
+    })
+  );
+};
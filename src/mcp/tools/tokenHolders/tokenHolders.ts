@@ -0,0 +1,129 @@
+import { logger } from '../../../utils/logger.js';
+import { getTokenHolders, TokenHolders } from '../../../neo4j/blockchainService.js';
+import { createWhiteboard, getWhiteboard, updateWhiteboard } from '../../../neo4j/whiteboardService.js';
+import { TokenHoldersSchema, TokenHoldersInput } from './types.js';
+import { createToolResponse } from '../../../types/mcp.js';
+import { McpError, BaseErrorCode } from '../../../types/errors.js';
+import { ToolContext } from '../../../utils/security.js';
+
+// Marks whiteboards holding a token_holders snapshot
+const SNAPSHOT_TYPE = 'token_holders_snapshot';
+
+const snapshotId = (input: TokenHoldersInput, at: string) =>
+  input.whiteboardId ?? `token-holders:${input.chain}:${input.mint}:${at}`;
+
+const snapshotQuery = (input: TokenHoldersInput) => ({
+  chain: input.chain,
+  mint: input.mint,
+  at: input.at ?? null,
+  compareAt: input.compareAt ?? null,
+  top: input.top ?? null
+});
+
+/**
+ * Returns the snapshot stored for the same query, if any. Only queries
+ * pinned to a position are reused, since "latest" moves with ingestion.
+ */
+const findSnapshot = async (input: TokenHoldersInput) => {
+  if (input.at === undefined || input.refresh) return null;
+
+  const whiteboard = await getWhiteboard(snapshotId(input, input.at));
+  const data = whiteboard?.data;
+  if (
+    data?.type !== SNAPSHOT_TYPE ||
+    JSON.stringify(data.query) !== JSON.stringify(snapshotQuery(input))
+  ) {
+    return null;
+  }
+  return { whiteboard: whiteboard!, result: data.result as TokenHolders };
+};
+
+/**
+ * Stores the result in the snapshot whiteboard. Updates merge into the
+ * existing data, so annotations added by analysts are kept.
+ */
+const saveSnapshot = async (input: TokenHoldersInput, result: TokenHolders) => {
+  const id = snapshotId(input, result.distribution.at as string);
+  const data = {
+    type: SNAPSHOT_TYPE,
+    query: snapshotQuery(input),
+    capturedAt: new Date().toISOString(),
+    result
+  };
+
+  return (await getWhiteboard(id))
+    ? updateWhiteboard(id, data, true)
+    : createWhiteboard(id, { ...data, annotations: [] }, input.projectId);
+};
+
+export const tokenHolders = async (
+  input: unknown,
+  context: ToolContext
+) => {
+  try {
+    // Validate input
+    const validatedInput = TokenHoldersSchema.parse(input);
+    const { chain, mint } = validatedInput;
+    const snapshot = validatedInput.snapshot || validatedInput.whiteboardId !== undefined;
+
+    logger.info("Getting token holders", {
+      chain,
+      mint,
+      at: validatedInput.at,
+      compareAt: validatedInput.compareAt,
+      snapshot,
+      requestId: context.requestContext?.requestId
+    });
+
+    if (snapshot) {
+      const cached = await findSnapshot(validatedInput);
+      if (cached) {
+        logger.info("Returning cached token holders snapshot", {
+          whiteboardId: cached.whiteboard.id,
+          requestId: context.requestContext?.requestId
+        });
+        return createToolResponse(JSON.stringify({
+          ...cached.result,
+          snapshot: { whiteboardId: cached.whiteboard.id, version: cached.whiteboard.version, cached: true }
+        }, null, 2));
+      }
+    }
+
+    const result = await getTokenHolders(chain, mint, {
+      at: validatedInput.at,
+      compareAt: validatedInput.compareAt,
+      top: validatedInput.top
+    });
+
+    const whiteboard = snapshot ? await saveSnapshot(validatedInput, result) : null;
+
+    logger.info("Token holders retrieved", {
+      chain,
+      mint,
+      at: result.distribution.at,
+      holderCount: result.distribution.holderCount,
+      whiteboardId: whiteboard?.id,
+      requestId: context.requestContext?.requestId
+    });
+
+    return createToolResponse(JSON.stringify({
+      ...result,
+      snapshot: whiteboard ? { whiteboardId: whiteboard.id, version: whiteboard.version, cached: false } : null
+    }, null, 2));
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    logger.error("Error getting token holders", {
+      error,
+      input,
+      requestId: context.requestContext?.requestId
+    });
+
+    throw new McpError(
+      BaseErrorCode.INTERNAL_ERROR,
+      `Error getting token holders: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+};
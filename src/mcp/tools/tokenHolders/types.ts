@@ -0,0 +1,42 @@
+import { z } from "zod";
+import { McpToolResponse } from '../../../types/mcp.js';
+import { SUPPORTED_CHAINS } from '../../../utils/chainAddress.js';
+
+const Position = z.string().regex(/^\d+$/, "Positions must be slot or checkpoint numbers");
+
+// Schema shapes for tool registration
+export const TokenHoldersSchemaShape = {
+  chain: z.enum(SUPPORTED_CHAINS).describe(
+    "Chain of the token: 'solana' or 'sui'."
+  ),
+  mint: z.string().min(1).describe(
+    "SPL mint, Sui coin type, or native asset ('SOL' or '0x2::sui::SUI')."
+  ),
+  at: Position.optional().describe(
+    "Slot (Solana) or checkpoint (Sui) to reconstruct holders at (default: latest)."
+  ),
+  compareAt: Position.optional().describe(
+    "Another slot or checkpoint, usually earlier, to compare the distribution with."
+  ),
+  top: z.number().int().min(1).max(100).optional().describe(
+    "Top holders to list at each position (default: 20)."
+  ),
+  snapshot: z.boolean().default(false).describe(
+    "Store the result as a whiteboard snapshot that analysts can annotate (default: false)."
+  ),
+  whiteboardId: z.string().min(1).optional().describe(
+    "Whiteboard to store the snapshot in (implies snapshot). Default: 'token-holders:<chain>:<mint>:<at>'."
+  ),
+  projectId: z.string().optional().describe(
+    "Project to link a new snapshot whiteboard to."
+  ),
+  refresh: z.boolean().default(false).describe(
+    "Recompute even when the whiteboard already holds a snapshot of the same query (default: false)."
+  )
+} as const;
+
+// Schema for validation
+export const TokenHoldersSchema = z.object(TokenHoldersSchemaShape);
+
+export type TokenHoldersInput = z.infer<typeof TokenHoldersSchema>;
+export type TokenHoldersResponse = McpToolResponse;
@@ -0,0 +1,77 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { TrashListSchemaShape } from './types.js';
+import { trashList } from './trashList.js';
+import { registerTool, createToolExample, createToolMetadata } from '../../../types/tool.js';
+import { z } from 'zod';
+
+export const registerTrashListTool = (server: McpServer) => {
+  registerTool(
+    server,
+    "trash_list",
+    "List projects in the trash, most recently deleted first, with who deleted them, what was trashed along with them and when the purge job will delete them for good. " +
+    "Sub-projects trashed with a project are counted under it rather than listed. Restore with project_restore, or delete at once with project_delete.",
+    TrashListSchemaShape,
+    trashList,
+    createToolMetadata({
+      examples: [
+        createToolExample(
+          {},
+          `{
+  "items": [
+    {
+      "name": "Exchange Hack",
+      "description": "Trace funds from the March exploit",
+      "status": "active",
+      "trashedAt": "2025-03-08T09:30:00.000Z",
+      "trashedBy": "analyst-7",
+      "id": "PROJ_A1B2C3",
+      "parentId": null,
+      "purgeAt": "2025-04-07T09:30:00.000Z",
+      "contents": {
+        "projects": 4,
+        "notes": 12,
+        "links": 3,
+        "members": 2,
+        "tasks": 8,
+        "whiteboards": 1
+      }
+    }
+  ],
+  "total": 1,
+  "page": 1,
+  "limit": 20
+}`,
+          "See what is in the trash"
+        )
+      ],
+      requiredPermission: "project:trash:list",
+      returnSchema: z.object({
+        items: z.array(z.object({
+          id: z.string().describe("Project ID"),
+          name: z.string().describe("Project name"),
+          description: z.string().optional().describe("Project description"),
+          status: z.string().describe("Project status when deleted"),
+          parentId: z.string().nullable().describe("Parent the project was under"),
+          trashedAt: z.string().describe("When the project was moved to the trash"),
+          trashedBy: z.string().describe("User who moved it to the trash"),
+          purgeAt: z.string().nullable().describe("When the purge job will delete it, or null if purging is disabled"),
+          contents: z.object({
+            projects: z.number().describe("Sub-projects trashed with it"),
+            notes: z.number().describe("Notes trashed with it"),
+            links: z.number().describe("Links trashed with it"),
+            members: z.number().describe("Members trashed with it"),
+            tasks: z.number().describe("Tasks trashed with it"),
+            whiteboards: z.number().describe("Whiteboards trashed with it")
+          }).describe("What a restore brings back along with the project")
+        })).describe("Projects in the trash on this page"),
+        total: z.number().describe("Projects in the trash"),
+        page: z.number().describe("Page number"),
+        limit: z.number().describe("Projects per page")
+      }),
+      rateLimit: {
+        windowMs: 60 * 1000, // 1 minute
+        maxRequests: 30 // 30 requests per minute
+      }
+    })
+  );
+};
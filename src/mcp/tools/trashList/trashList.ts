@@ -0,0 +1,39 @@
+import { logger } from '../../../utils/logger.js';
+import { listTrash } from '../../../neo4j/projectService.js';
+import { TrashListSchema } from './types.js';
+import { createToolResponse } from '../../../types/mcp.js';
+import { McpError, BaseErrorCode } from '../../../types/errors.js';
+import { ToolContext } from '../../../utils/security.js';
+
+export const trashList = async (
+  input: unknown,
+  context: ToolContext
+) => {
+  try {
+    const validatedInput = TrashListSchema.parse(input);
+
+    logger.info("Listing trash", {
+      ...validatedInput,
+      requestId: context.requestContext?.requestId
+    });
+
+    const result = await listTrash(validatedInput);
+
+    return createToolResponse(JSON.stringify(result, null, 2));
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    logger.error("Error listing trash", {
+      error,
+      input,
+      requestId: context.requestContext?.requestId
+    });
+
+    throw new McpError(
+      BaseErrorCode.INTERNAL_ERROR,
+      `Error listing trash: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+};
@@ -0,0 +1,16 @@
+import { z } from "zod";
+import { McpToolResponse } from '../../../types/mcp.js';
+
+export const TrashListSchemaShape = {
+  page: z.number().int().positive().optional().describe(
+    "Page number for pagination (default: 1)"
+  ),
+  limit: z.number().int().positive().max(100).optional().describe(
+    "Number of projects per page (default: 20, max: 100)"
+  )
+} as const;
+
+export const TrashListSchema = z.object(TrashListSchemaShape);
+
+export type TrashListInput = z.infer<typeof TrashListSchema>;
+export type TrashListResponse = McpToolResponse;
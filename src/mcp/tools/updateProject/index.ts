@@ -3,13 +3,12 @@ import { UpdateProjectSchemaShape } from './types.js';
 import { updateProject } from './updateProject.js';
 import { registerTool, createToolExample, createToolMetadata } from '../../../types/tool.js';
 import { z } from 'zod';
-import { VALID_PROJECT_STATUSES } from '../createProject/types.js';
 
 export const registerUpdateProjectTool = (server: McpServer) => {
   registerTool(
     server,
     "project_update",
-    "Update existing project properties including name, description, and status. Supports both single project updates and bulk operations.",
+    "Update existing project properties including name, description, status and parent project. A project assigned a workflow (see workflow_assign) can only move to a status its workflow allows from the current one, and only if the workflow's guards for that status pass. Supports both single project updates and bulk operations.",
     UpdateProjectSchemaShape,
     updateProject,
     createToolMetadata({
@@ -33,6 +32,25 @@ export const registerUpdateProjectTool = (server: McpServer) => {
 }`,
           "Update a single project"
         ),
+        createToolExample(
+          {
+            mode: "single",
+            id: "proj_789",
+            updates: {
+              parentId: "proj_100"
+            }
+          },
+          `{
+  "id": "proj_789",
+  "name": "Bridge Investigations",
+  "description": "",
+  "status": "active",
+  "parentId": "proj_100",
+  "createdAt": "2025-02-20T13:45:30Z",
+  "updatedAt": "2025-02-21T09:00:00Z"
+}`,
+          "Move a project under another parent"
+        ),
         createToolExample(
           {
             mode: "bulk",
@@ -86,7 +104,8 @@ export const registerUpdateProjectTool = (server: McpServer) => {
           id: z.string().describe("Project ID"),
           name: z.string().describe("Current name"),
           description: z.string().describe("Current description"),
-          status: z.enum(VALID_PROJECT_STATUSES).describe("Current status"),
+          status: z.string().describe("Current status"),
+          parentId: z.string().nullable().describe("Current parent project"),
           createdAt: z.string().describe("Creation time"),
           updatedAt: z.string().describe("Last update time")
         }),
@@ -98,7 +117,8 @@ export const registerUpdateProjectTool = (server: McpServer) => {
             id: z.string().describe("Project ID"),
             name: z.string().describe("Name"),
             description: z.string().describe("Description"),
-            status: z.enum(VALID_PROJECT_STATUSES).describe("Status"),
+            status: z.string().describe("Status"),
+            parentId: z.string().nullable().describe("Parent project"),
             createdAt: z.string().describe("Created"),
             updatedAt: z.string().describe("Updated")
           })).describe("Updated projects"),
@@ -1,7 +1,6 @@
 import { z } from "zod";
 import { McpToolResponse } from '../../../types/mcp.js';
 import { Project } from '../../../neo4j/projectService.js';
-import { VALID_PROJECT_STATUSES } from '../createProject/types.js';
 
 // Define the update schema shape
 const ProjectUpdateShape = {
@@ -11,8 +10,11 @@ const ProjectUpdateShape = {
   description: z.string().describe(
     "Project description for additional context."
   ),
-  status: z.enum(VALID_PROJECT_STATUSES).describe(
-    "Project status ('active', 'pending', 'completed', 'archived')."
+  status: z.string().min(1).describe(
+    "Project status: one of the built-in statuses ('active', 'pending', 'completed', 'archived'), or, for a project assigned a workflow, a status the workflow allows it to move to."
+  ),
+  parentId: z.string().nullable().describe(
+    "Parent project ID, or null to make the project top-level. A project cannot be moved under one of its own sub-projects."
   )
 } as const;
 
@@ -0,0 +1,99 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { WalletGraphSchemaShape } from './types.js';
+import { walletGraph } from './walletGraph.js';
+import { AddressNamesSchema } from '../addressLabelSet/types.js';
+import { registerTool, createToolExample, createToolMetadata } from '../../../types/tool.js';
+import { z } from 'zod';
+
+const MintTotalsSchema = z.record(z.object({
+  in: z.string().describe("Amount received in base units"),
+  out: z.string().describe("Amount sent in base units")
+}));
+
+export const registerWalletGraphTool = (server: McpServer) => {
+  registerTool(
+    server,
+    "wallet_graph",
+    "Map the N-hop counterparty graph around a Solana or Sui address from transfers inferred at ingestion. Filter by minimum amount, time window, and token mint. Returns nodes/edges JSON (suitable for storing on a whiteboard) with per-address degree, in/out totals, and the root's top counterparties.",
+    WalletGraphSchemaShape,
+    walletGraph,
+    createToolMetadata({
+      examples: [
+        createToolExample(
+          {
+            chain: "solana",
+            address: "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM",
+            depth: 1,
+            mint: "SOL",
+            minAmount: "1000000000"
+          },
+          `{
+  "nodes": [
+    { "id": "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM", "chain": "solana", "address": "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM", "hop": 0, "degree": 1, "totals": { "SOL": { "in": "0", "out": "5000000000" } } },
+    { "id": "5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1", "chain": "solana", "address": "5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1", "hop": 1, "degree": 1, "totals": { "SOL": { "in": "5000000000", "out": "0" } } }
+  ],
+  "edges": [
+    { "source": "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM", "target": "5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1", "mint": "SOL", "decimals": 9, "amount": "5000000000", "transferCount": 2, "firstAt": "2025-01-02T17:30:01.000Z", "lastAt": "2025-01-14T09:12:44.000Z" }
+  ],
+  "summary": {
+    "root": "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM",
+    "chain": "solana",
+    "depth": 1,
+    "nodeCount": 2,
+    "edgeCount": 1,
+    "transferCount": 2,
+    "truncated": false,
+    "topCounterparties": [
+      { "address": "5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1", "transferCount": 2, "totals": { "SOL": { "in": "0", "out": "5000000000" } } }
+    ]
+  },
+  "names": {
+    "5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1": { "label": "Exchange X hot wallet", "entity": { "id": "ENT_Q7W2K9", "name": "Exchange X" } }
+  }
+}`,
+          "Direct SOL counterparties above 1 SOL"
+        )
+      ],
+      requiredPermission: "chain:read",
+      returnSchema: z.object({
+        nodes: z.array(z.object({
+          id: z.string().describe("Node identifier (the address)"),
+          chain: z.string().describe("Chain of the address"),
+          address: z.string().describe("Address"),
+          hop: z.number().describe("Distance from the root"),
+          degree: z.number().describe("Distinct counterparties within the graph"),
+          totals: MintTotalsSchema.describe("Amounts in and out per mint within the graph")
+        })).describe("Addresses in the graph"),
+        edges: z.array(z.object({
+          source: z.string().describe("Sending address"),
+          target: z.string().describe("Receiving address"),
+          mint: z.string().describe("Token mint or coin type"),
+          decimals: z.number().nullable().describe("Token decimals, if known"),
+          amount: z.string().describe("Total amount in base units"),
+          transferCount: z.number().describe("Number of transfers aggregated"),
+          firstAt: z.string().nullable().describe("Earliest transfer time"),
+          lastAt: z.string().nullable().describe("Latest transfer time")
+        })).describe("Transfers aggregated per direction and mint"),
+        summary: z.object({
+          root: z.string().describe("Root address"),
+          chain: z.string().describe("Chain"),
+          depth: z.number().describe("Hops expanded"),
+          nodeCount: z.number().describe("Number of nodes"),
+          edgeCount: z.number().describe("Number of edges"),
+          transferCount: z.number().describe("Number of underlying transfers"),
+          truncated: z.boolean().describe("Whether maxNodes or the per-hop transfer cap cut the traversal short"),
+          topCounterparties: z.array(z.object({
+            address: z.string().describe("Counterparty address"),
+            transferCount: z.number().describe("Transfers with the root"),
+            totals: MintTotalsSchema.describe("Amounts from the root's point of view")
+          })).describe("Root's most frequent counterparties")
+        }).describe("Summary statistics"),
+        names: AddressNamesSchema
+      }),
+      rateLimit: {
+        windowMs: 60 * 1000, // 1 minute
+        maxRequests: 30 // 30 graph builds per minute
+      }
+    })
+  );
+};
@@ -0,0 +1,40 @@
+import { z } from "zod";
+import { McpToolResponse } from '../../../types/mcp.js';
+import { SUPPORTED_CHAINS } from '../../../utils/chainAddress.js';
+
+// Schema shapes for tool registration
+export const WalletGraphSchemaShape = {
+  chain: z.enum(SUPPORTED_CHAINS).describe(
+    "Chain the address belongs to: 'solana' or 'sui'."
+  ),
+  address: z.string().min(1).describe(
+    "Root address of the graph."
+  ),
+  depth: z.number().int().min(1).max(4).optional().describe(
+    "Number of counterparty hops to expand (default: 2, max: 4)."
+  ),
+  maxNodes: z.number().int().min(1).max(500).optional().describe(
+    "Maximum number of addresses in the result; nearest hops are kept first (default: 100, max: 500)."
+  ),
+  minAmount: z.string().regex(/^\d+$/, "minAmount must be a non-negative integer in base units").optional().describe(
+    "Ignore transfers smaller than this amount, in base units (lamports, MIST, or raw token units)."
+  ),
+  mint: z.string().min(1).optional().describe(
+    "Only follow transfers of this token mint or coin type. Native assets are 'SOL' and '0x2::sui::SUI'."
+  ),
+  since: z.string().datetime().optional().describe(
+    "Only follow transfers at or after this ISO timestamp."
+  ),
+  until: z.string().datetime().optional().describe(
+    "Only follow transfers at or before this ISO timestamp."
+  )
+} as const;
+
+// Schema for validation
+export const WalletGraphSchema = z.object(WalletGraphSchemaShape).refine(
+  input => !input.since || !input.until || input.since <= input.until,
+  "'since' must not be after 'until'"
+);
+
+export type WalletGraphInput = z.infer<typeof WalletGraphSchema>;
+export type WalletGraphResponse = McpToolResponse;
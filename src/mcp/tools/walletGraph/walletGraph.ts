@@ -0,0 +1,53 @@
+import { logger } from '../../../utils/logger.js';
+import { getWalletGraph } from '../../../neo4j/blockchainService.js';
+import { WalletGraphSchema } from './types.js';
+import { createToolResponse } from '../../../types/mcp.js';
+import { McpError, BaseErrorCode } from '../../../types/errors.js';
+import { ToolContext } from '../../../utils/security.js';
+import { normalizeChainAddress } from '../../../utils/chainAddress.js';
+
+export const walletGraph = async (
+  input: unknown,
+  context: ToolContext
+) => {
+  try {
+    // Validate input
+    const { chain, address: rawAddress, ...options } = WalletGraphSchema.parse(input);
+    const address = normalizeChainAddress(chain, rawAddress);
+
+    logger.info("Building wallet graph", {
+      chain,
+      address,
+      depth: options.depth,
+      requestId: context.requestContext?.requestId
+    });
+
+    const result = await getWalletGraph(chain, address, options);
+
+    logger.info("Wallet graph built", {
+      chain,
+      address,
+      nodeCount: result.summary.nodeCount,
+      edgeCount: result.summary.edgeCount,
+      truncated: result.summary.truncated,
+      requestId: context.requestContext?.requestId
+    });
+
+    return createToolResponse(JSON.stringify(result, null, 2));
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    logger.error("Error building wallet graph", {
+      error,
+      input,
+      requestId: context.requestContext?.requestId
+    });
+
+    throw new McpError(
+      BaseErrorCode.INTERNAL_ERROR,
+      `Error building wallet graph: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+};
@@ -0,0 +1,90 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { WorkflowAssignSchemaShape } from './types.js';
+import { workflowAssign } from './workflowAssign.js';
+import { registerTool, createToolExample, createToolMetadata } from '../../../types/tool.js';
+import { z } from 'zod';
+
+export const registerWorkflowAssignTool = (server: McpServer) => {
+  registerTool(
+    server,
+    "workflow_assign",
+    "Make projects follow a status workflow defined with workflow_define, or go back to the built-in statuses with a null workflowId. " +
+    "A project whose status is not part of the workflow moves to the given status or the workflow's initial status; transitions and guards do not apply to this move. " +
+    "Sub-projects are not affected. Supports both single project and bulk assignment.",
+    WorkflowAssignSchemaShape,
+    workflowAssign,
+    createToolMetadata({
+      examples: [
+        createToolExample(
+          {
+            mode: "bulk",
+            projectIds: ["PROJ_A1B2C3", "PROJ_D4E5F6"],
+            workflowId: "WF_X7Y8Z9"
+          },
+          `{
+  "success": true,
+  "message": "Assigned workflow WF_X7Y8Z9 to 2 projects, changing the status of 2",
+  "assigned": [
+    {
+      "projectId": "PROJ_A1B2C3",
+      "workflowId": "WF_X7Y8Z9",
+      "previousWorkflowId": null,
+      "status": "discovery",
+      "previousStatus": "active"
+    },
+    {
+      "projectId": "PROJ_D4E5F6",
+      "workflowId": "WF_X7Y8Z9",
+      "previousWorkflowId": null,
+      "status": "discovery",
+      "previousStatus": "pending"
+    }
+  ],
+  "notFoundIds": []
+}`,
+          "Move projects onto a custom workflow"
+        ),
+        createToolExample(
+          {
+            mode: "single",
+            projectId: "PROJ_A1B2C3",
+            workflowId: null,
+            status: "completed"
+          },
+          `{
+  "success": true,
+  "message": "Moved 1 projects back to the built-in statuses, changing the status of 1",
+  "assigned": [
+    {
+      "projectId": "PROJ_A1B2C3",
+      "workflowId": null,
+      "previousWorkflowId": "WF_X7Y8Z9",
+      "status": "completed",
+      "previousStatus": "shipped"
+    }
+  ],
+  "notFoundIds": []
+}`,
+          "Take a project off its workflow"
+        )
+      ],
+      requiredPermission: "workflow:assign",
+      returnSchema: z.object({
+        success: z.boolean().describe("Whether any project was found"),
+        message: z.string().describe("Result message"),
+        assigned: z.array(z.object({
+          projectId: z.string().describe("Project ID"),
+          workflowId: z.string().nullable().describe("Workflow the project now follows, or null for the built-in statuses"),
+          previousWorkflowId: z.string().nullable().describe("Workflow it followed before"),
+          status: z.string().describe("Status now"),
+          previousStatus: z.string().describe("Status before")
+        })).describe("Projects assigned"),
+        notFoundIds: z.array(z.string()).describe("Projects not found")
+      }),
+      rateLimit: {
+        windowMs: 60 * 1000, // 1 minute
+        maxRequests: 20 // 20 assignments per minute (single or bulk)
+      }
+    })
+  );
+};
@@ -0,0 +1,62 @@
+import { z } from "zod";
+import { McpToolResponse } from '../../../types/mcp.js';
+
+const WorkflowIdSchema = z.string().nullable().describe(
+  "Workflow ID, or null to go back to the built-in statuses ('active', 'pending', 'completed', 'archived')."
+);
+
+const StatusSchema = z.string().min(1).optional().describe(
+  "Status for projects whose current status is not part of the workflow (default: the workflow's initial status, or 'active')."
+);
+
+// Single project assignment schema
+const SingleAssignSchema = z.object({
+  mode: z.literal("single"),
+  projectId: z.string().describe(
+    "Project ID to assign the workflow to."
+  ),
+  workflowId: WorkflowIdSchema,
+  status: StatusSchema
+}).describe(
+  "Assign a workflow to a single project."
+);
+
+// Bulk project assignment schema
+const BulkAssignSchema = z.object({
+  mode: z.literal("bulk"),
+  projectIds: z.array(z.string()).min(1).max(100).describe(
+    "Array of 1-100 project IDs to assign the workflow to."
+  ),
+  workflowId: WorkflowIdSchema,
+  status: StatusSchema
+}).describe(
+  "Assign a workflow to multiple projects in a single operation."
+);
+
+// Schema shapes for tool registration
+export const WorkflowAssignSchemaShape = {
+  mode: z.enum(["single", "bulk"]).describe(
+    "'single' for one project, 'bulk' for multiple projects."
+  ),
+  projectId: z.string().optional().describe(
+    "Required for single mode: Project ID."
+  ),
+  projectIds: z.array(z.string()).min(1).max(100).optional().describe(
+    "Required for bulk mode: Array of 1-100 project IDs."
+  ),
+  workflowId: z.string().nullable().describe(
+    "Workflow ID, or null to go back to the built-in statuses."
+  ),
+  status: z.string().min(1).optional().describe(
+    "Status for projects whose current status is not part of the workflow (default: its initial status)."
+  )
+} as const;
+
+// Schema for validation
+export const WorkflowAssignSchema = z.discriminatedUnion("mode", [
+  SingleAssignSchema,
+  BulkAssignSchema
+]);
+
+export type WorkflowAssignInput = z.infer<typeof WorkflowAssignSchema>;
+export type WorkflowAssignResponse = McpToolResponse;
@@ -0,0 +1,75 @@
+import { logger } from '../../../utils/logger.js';
+import { assignWorkflow } from '../../../neo4j/projectService.js';
+import { WorkflowAssignSchema } from './types.js';
+import { createToolResponse } from '../../../types/mcp.js';
+import { McpError, BaseErrorCode, ProjectErrorCode } from '../../../types/errors.js';
+import { ToolContext } from '../../../utils/security.js';
+
+export const workflowAssign = async (
+  input: unknown,
+  context: ToolContext
+) => {
+  try {
+    const validatedInput = WorkflowAssignSchema.parse(input);
+    const { workflowId, status } = validatedInput;
+    const projectIds = validatedInput.mode === 'bulk'
+      ? validatedInput.projectIds
+      : [validatedInput.projectId];
+
+    logger.info("Assigning workflow", {
+      workflowId,
+      projectIds,
+      requestId: context.requestContext?.requestId
+    });
+
+    const result = await assignWorkflow(projectIds, workflowId, status);
+
+    if (validatedInput.mode === 'single' && !result.assigned.length) {
+      logger.warn("Project not found for workflow assignment", {
+        projectId: validatedInput.projectId,
+        requestId: context.requestContext?.requestId
+      });
+      throw new McpError(
+        ProjectErrorCode.PROJECT_NOT_FOUND,
+        `Project with ID ${validatedInput.projectId} not found`,
+        { projectId: validatedInput.projectId }
+      );
+    }
+
+    const movedCount = result.assigned.filter(a => a.status !== a.previousStatus).length;
+
+    logger.info("Workflow assigned", {
+      workflowId,
+      assignedCount: result.assigned.length,
+      movedCount,
+      notFoundCount: result.notFoundIds.length,
+      requestId: context.requestContext?.requestId
+    });
+
+    return createToolResponse(JSON.stringify({
+      success: result.assigned.length > 0,
+      message: (workflowId
+                ? `Assigned workflow ${workflowId} to ${result.assigned.length} projects`
+                : `Moved ${result.assigned.length} projects back to the built-in statuses`) +
+              (movedCount > 0 ? `, changing the status of ${movedCount}` : '') +
+              (result.notFoundIds.length > 0 ? `. ${result.notFoundIds.length} projects not found.` : ''),
+      assigned: result.assigned,
+      notFoundIds: result.notFoundIds
+    }, null, 2));
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    logger.error("Error assigning workflow", {
+      error,
+      input,
+      requestId: context.requestContext?.requestId
+    });
+
+    throw new McpError(
+      BaseErrorCode.INTERNAL_ERROR,
+      `Error assigning workflow: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+};
@@ -0,0 +1,55 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { WorkflowDefineSchemaShape, WorkflowReturnSchema } from './types.js';
+import { workflowDefine } from './workflowDefine.js';
+import { registerTool, createToolExample, createToolMetadata } from '../../../types/tool.js';
+
+export const registerWorkflowDefineTool = (server: McpServer) => {
+  registerTool(
+    server,
+    "workflow_define",
+    "Define a project status workflow: its statuses, which status can move to which, and guards a project must pass to enter a status (e.g. no open tasks before 'shipped'). " +
+    "Pass workflowId to replace an existing workflow's definition. Assign workflows to projects with workflow_assign; project_update then enforces them.",
+    WorkflowDefineSchemaShape,
+    workflowDefine,
+    createToolMetadata({
+      examples: [
+        createToolExample(
+          {
+            name: "Product delivery",
+            statuses: ["discovery", "in-review", "shipped"],
+            initialStatus: "discovery",
+            transitions: {
+              "discovery": ["in-review"],
+              "in-review": ["discovery", "shipped"]
+            },
+            guards: [{ status: "shipped", rule: "no_open_tasks" }]
+          },
+          `{
+  "name": "Product delivery",
+  "description": null,
+  "statuses": ["discovery", "in-review", "shipped"],
+  "initialStatus": "discovery",
+  "finalStatuses": ["shipped"],
+  "transitions": {
+    "discovery": ["in-review"],
+    "in-review": ["discovery", "shipped"],
+    "shipped": []
+  },
+  "guards": [{ "status": "shipped", "rule": "no_open_tasks" }],
+  "createdAt": "2025-03-08T09:30:00.000Z",
+  "updatedAt": "2025-03-08T09:30:00.000Z",
+  "id": "WF_A1B2C3",
+  "projectCount": 0
+}`,
+          "Define a workflow that cannot ship with open tasks"
+        )
+      ],
+      requiredPermission: "workflow:define",
+      returnSchema: WorkflowReturnSchema,
+      rateLimit: {
+        windowMs: 60 * 1000, // 1 minute
+        maxRequests: 10 // 10 workflow definitions per minute
+      }
+    })
+  );
+};
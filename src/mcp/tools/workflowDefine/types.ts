@@ -0,0 +1,61 @@
+import { z } from "zod";
+import { McpToolResponse } from '../../../types/mcp.js';
+
+export const WORKFLOW_GUARD_RULES = ['no_open_tasks', 'no_open_subprojects'] as const;
+
+const StatusSchema = z.string().min(1).max(50);
+
+export const WorkflowDefineSchemaShape = {
+  workflowId: z.string().optional().describe(
+    "ID of an existing workflow to replace; omit to create a new one. Statuses that projects following the workflow are in cannot be removed."
+  ),
+  name: z.string().min(1).describe(
+    "Unique workflow name (e.g. 'Product delivery')."
+  ),
+  description: z.string().optional().describe(
+    "What the workflow is for."
+  ),
+  statuses: z.array(StatusSchema).min(1).max(50).describe(
+    "Every status a project following the workflow can be in (e.g. ['discovery', 'in-review', 'shipped'])."
+  ),
+  initialStatus: StatusSchema.describe(
+    "Status a project moves to when it is assigned the workflow and its current status is not one of the workflow's statuses."
+  ),
+  finalStatuses: z.array(StatusSchema).optional().describe(
+    "Statuses in which a project counts as finished, for the 'no_open_subprojects' guard of its parent. Defaults to the statuses with no transitions out."
+  ),
+  transitions: z.record(StatusSchema, z.array(StatusSchema)).describe(
+    "Statuses each status can move to, e.g. { \"discovery\": [\"in-review\"], \"in-review\": [\"discovery\", \"shipped\"] }. Statuses left out cannot be left."
+  ),
+  guards: z.array(z.object({
+    status: StatusSchema.describe("Status the guard protects"),
+    rule: z.enum(WORKFLOW_GUARD_RULES).describe(
+      "'no_open_tasks': every task is done or cancelled; 'no_open_subprojects': every sub-project is in a final status of its own workflow."
+    )
+  })).optional().describe(
+    "Checks a project must pass to enter a status."
+  )
+} as const;
+
+export const WorkflowDefineSchema = z.object(WorkflowDefineSchemaShape);
+
+// Workflow as returned by workflow_define and workflow_list
+export const WorkflowReturnSchema = z.object({
+  id: z.string().describe("Workflow ID"),
+  name: z.string().describe("Workflow name"),
+  description: z.string().nullable().optional().describe("What the workflow is for"),
+  statuses: z.array(z.string()).describe("Statuses a project can be in"),
+  initialStatus: z.string().describe("Status for newly assigned projects whose status is not in the workflow"),
+  finalStatuses: z.array(z.string()).describe("Statuses in which a project counts as finished"),
+  transitions: z.record(z.array(z.string())).describe("Statuses each status can move to"),
+  guards: z.array(z.object({
+    status: z.string().describe("Status the guard protects"),
+    rule: z.enum(WORKFLOW_GUARD_RULES).describe("Check a project must pass to enter it")
+  })).describe("Guards"),
+  projectCount: z.number().describe("Live projects following the workflow"),
+  createdAt: z.string().describe("Creation time"),
+  updatedAt: z.string().describe("Last update time")
+});
+
+export type WorkflowDefineInput = z.infer<typeof WorkflowDefineSchema>;
+export type WorkflowDefineResponse = McpToolResponse;
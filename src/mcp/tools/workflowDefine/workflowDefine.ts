@@ -0,0 +1,40 @@
+import { logger } from '../../../utils/logger.js';
+import { defineWorkflow } from '../../../neo4j/projectService.js';
+import { WorkflowDefineSchema } from './types.js';
+import { createToolResponse } from '../../../types/mcp.js';
+import { McpError, BaseErrorCode } from '../../../types/errors.js';
+import { ToolContext } from '../../../utils/security.js';
+
+export const workflowDefine = async (
+  input: unknown,
+  context: ToolContext
+) => {
+  try {
+    const { workflowId, ...definition } = WorkflowDefineSchema.parse(input);
+
+    logger.info(workflowId ? "Updating workflow" : "Creating workflow", {
+      workflowId,
+      name: definition.name,
+      requestId: context.requestContext?.requestId
+    });
+
+    const workflow = await defineWorkflow(definition, workflowId);
+
+    return createToolResponse(JSON.stringify(workflow, null, 2));
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    logger.error("Error defining workflow", {
+      error,
+      input,
+      requestId: context.requestContext?.requestId
+    });
+
+    throw new McpError(
+      BaseErrorCode.INTERNAL_ERROR,
+      `Error defining workflow: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+};
@@ -0,0 +1,53 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { WorkflowListSchemaShape } from './types.js';
+import { workflowList } from './workflowList.js';
+import { registerTool, createToolExample, createToolMetadata } from '../../../types/tool.js';
+import { WorkflowReturnSchema } from '../workflowDefine/types.js';
+import { z } from 'zod';
+
+export const registerWorkflowListTool = (server: McpServer) => {
+  registerTool(
+    server,
+    "workflow_list",
+    "List the project status workflows by name, with their statuses, transitions and guards and how many projects follow each. Projects without a workflow use the built-in statuses ('active', 'pending', 'completed', 'archived').",
+    WorkflowListSchemaShape,
+    workflowList,
+    createToolMetadata({
+      examples: [
+        createToolExample(
+          {},
+          `{
+  "workflows": [
+    {
+      "name": "Product delivery",
+      "description": null,
+      "statuses": ["discovery", "in-review", "shipped"],
+      "initialStatus": "discovery",
+      "finalStatuses": ["shipped"],
+      "transitions": {
+        "discovery": ["in-review"],
+        "in-review": ["discovery", "shipped"],
+        "shipped": []
+      },
+      "guards": [{ "status": "shipped", "rule": "no_open_tasks" }],
+      "createdAt": "2025-03-08T09:30:00.000Z",
+      "updatedAt": "2025-03-08T09:30:00.000Z",
+      "id": "WF_X7Y8Z9",
+      "projectCount": 2
+    }
+  ]
+}`,
+          "List workflows"
+        )
+      ],
+      requiredPermission: "workflow:read",
+      returnSchema: z.object({
+        workflows: z.array(WorkflowReturnSchema).describe("Workflows by name")
+      }),
+      rateLimit: {
+        windowMs: 60 * 1000, // 1 minute
+        maxRequests: 30 // 30 requests per minute
+      }
+    })
+  );
+};
@@ -0,0 +1,9 @@
+import { z } from "zod";
+import { McpToolResponse } from '../../../types/mcp.js';
+
+export const WorkflowListSchemaShape = {} as const;
+
+export const WorkflowListSchema = z.object(WorkflowListSchemaShape);
+
+export type WorkflowListInput = z.infer<typeof WorkflowListSchema>;
+export type WorkflowListResponse = McpToolResponse;
@@ -0,0 +1,38 @@
+import { logger } from '../../../utils/logger.js';
+import { listWorkflows } from '../../../neo4j/projectService.js';
+import { WorkflowListSchema } from './types.js';
+import { createToolResponse } from '../../../types/mcp.js';
+import { McpError, BaseErrorCode } from '../../../types/errors.js';
+import { ToolContext } from '../../../utils/security.js';
+
+export const workflowList = async (
+  input: unknown,
+  context: ToolContext
+) => {
+  try {
+    WorkflowListSchema.parse(input);
+
+    logger.info("Listing workflows", {
+      requestId: context.requestContext?.requestId
+    });
+
+    const workflows = await listWorkflows();
+
+    return createToolResponse(JSON.stringify({ workflows }, null, 2));
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    logger.error("Error listing workflows", {
+      error,
+      input,
+      requestId: context.requestContext?.requestId
+    });
+
+    throw new McpError(
+      BaseErrorCode.INTERNAL_ERROR,
+      `Error listing workflows: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+};
@@ -0,0 +1,191 @@
+import { ManagedTransaction } from 'neo4j-driver';
+import { getSession } from './driver.js';
+import { McpError } from '../types/errors.js';
+import { getAuditContext } from '../utils/auditContext.js';
+import { generateCustomId } from '../utils/idGenerator.js';
+import { handleNeo4jError } from './projectService/utils.js';
+import { toNumberOrNull } from './blockchainService/utils.js';
+import { Paginated } from './blockchainService/types.js';
+
+export type AuditEntityType = 'project' | 'note' | 'link' | 'member' | 'dependency' | 'task' | 'whiteboard' | 'workflow';
+
+// 'trash' moves a project to the trash, 'purge' deletes it from there for good
+export type AuditAction = 'create' | 'update' | 'delete' | 'trash' | 'restore' | 'purge';
+
+export const AUDIT_ENTITY_TYPES = [
+  'project',
+  'note',
+  'link',
+  'member',
+  'dependency',
+  'task',
+  'whiteboard',
+  'workflow'
+] as const satisfies readonly AuditEntityType[];
+
+export const AUDIT_ACTIONS = ['create', 'update', 'delete', 'trash', 'restore', 'purge'] as const satisfies readonly AuditAction[];
+
+type EntityState = Record<string, unknown>;
+
+// One write to one entity, as reported by the service that made it
+export interface ChangeRecord {
+  entityType: AuditEntityType;
+  entityId: string;
+  projectIds: string[];        // Projects whose history shows the change (two for a dependency)
+  action: AuditAction;
+  before?: object | null;      // State before an update, delete, trash or purge
+  after?: object | null;       // State after a create, update or restore
+}
+
+export interface ChangeEvent {
+  id: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  projectIds: string[];
+  action: AuditAction;
+  actor: string;
+  tool: string | null;
+  requestId: string | null;
+  before: EntityState | null;
+  after: EntityState | null;
+  changes: Record<string, { before: unknown; after: unknown }> | null;  // Updated fields only
+  timestamp: string;
+}
+
+export interface AuditLogOptions {
+  entityType?: AuditEntityType;
+  entityId?: string;
+  projectId?: string;
+  actor?: string;
+  tool?: string;
+  action?: AuditAction;
+  since?: string;
+  until?: string;
+  page?: number;
+  limit?: number;
+}
+
+// Bookkeeping fields that change on every write and say nothing on their own
+const IGNORED_FIELDS = new Set(['updatedAt']);
+
+const diffStates = (before: EntityState, after: EntityState): Record<string, { before: unknown; after: unknown }> => {
+  const changes: Record<string, { before: unknown; after: unknown }> = {};
+  for (const field of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    const was = before[field] ?? null;
+    const is = after[field] ?? null;
+    if (JSON.stringify(was) !== JSON.stringify(is)) changes[field] = { before: was, after: is };
+  }
+  return changes;
+};
+
+const parseState = (value: unknown): EntityState | null =>
+  typeof value === 'string' ? JSON.parse(value) : null;
+
+/**
+ * Appends change events for writes made in the same transaction, attributed
+ * to the user, tool and request of the surrounding tool call. The events
+ * commit or roll back together with the writes they describe, so a write
+ * that cannot be recorded does not happen.
+ * @param records The writes, in the order they were made
+ */
+export const recordChanges = async (tx: ManagedTransaction, records: ChangeRecord[]): Promise<void> => {
+  if (!records.length) return;
+
+  const context = getAuditContext();
+  const timestamp = new Date().toISOString();
+  const events = records.map(record => ({
+    customId: generateCustomId('CHANGE_EVENT'),
+    entityType: record.entityType,
+    entityId: record.entityId,
+    projectIds: record.projectIds,
+    action: record.action,
+    before: record.before ? JSON.stringify(record.before) : null,
+    after: record.after ? JSON.stringify(record.after) : null,
+    changes: record.action === 'update' && record.before && record.after
+      ? JSON.stringify(diffStates(record.before as EntityState, record.after as EntityState))
+      : null
+  }));
+
+  await tx.run(
+    `UNWIND $events AS event
+    CREATE (c:ChangeEvent)
+    SET c = event,
+        c.actor = $actor,
+        c.tool = $tool,
+        c.requestId = $requestId,
+        c.timestamp = $timestamp`,
+    { events, ...context, timestamp }
+  );
+};
+
+/**
+ * Convenience for the common case of a single write
+ */
+export const recordChange = (tx: ManagedTransaction, record: ChangeRecord): Promise<void> => recordChanges(tx, [record]);
+
+/**
+ * Lists change events, newest first
+ * @param options Filters on entity, project, actor, tool, action and time range
+ */
+export const queryChangeEvents = async (options: AuditLogOptions = {}): Promise<Paginated<ChangeEvent> | never> => {
+  const { page = 1, limit = 50 } = options;
+  const params = {
+    entityType: options.entityType ?? null,
+    entityId: options.entityId ?? null,
+    projectId: options.projectId ?? null,
+    actor: options.actor ?? null,
+    tool: options.tool ?? null,
+    action: options.action ?? null,
+    since: options.since ?? null,
+    until: options.until ?? null
+  };
+  const match = `MATCH (c:ChangeEvent)
+      WHERE ($entityType IS NULL OR c.entityType = $entityType)
+        AND ($entityId IS NULL OR c.entityId = $entityId)
+        AND ($projectId IS NULL OR $projectId IN c.projectIds)
+        AND ($actor IS NULL OR c.actor = $actor)
+        AND ($tool IS NULL OR c.tool = $tool)
+        AND ($action IS NULL OR c.action = $action)
+        AND ($since IS NULL OR c.timestamp >= $since)
+        AND ($until IS NULL OR c.timestamp <= $until)`;
+
+  const session = getSession();
+  try {
+    const result = await session.run(
+      `${match}
+      RETURN c {
+        .entityType, .entityId, .projectIds, .action, .actor, .tool, .requestId,
+        .before, .after, .changes, .timestamp,
+        id: c.customId
+      } AS event
+      ORDER BY c.timestamp DESC, c.customId
+      SKIP toInteger($skip) LIMIT toInteger($limit)`,
+      { ...params, skip: (page - 1) * limit, limit }
+    );
+
+    const countResult = await session.run(`${match} RETURN count(c) AS total`, params);
+
+    return {
+      items: result.records.map(record => {
+        const event = record.get("event");
+        return {
+          ...event,
+          tool: event.tool ?? null,
+          requestId: event.requestId ?? null,
+          before: parseState(event.before),
+          after: parseState(event.after),
+          changes: parseState(event.changes)
+        } as ChangeEvent;
+      }),
+      total: toNumberOrNull(countResult.records[0].get("total")) ?? 0,
+      page,
+      limit
+    };
+  } catch (error) {
+    if (error instanceof McpError) throw error;
+    throw handleNeo4jError(error, { options });
+  } finally {
+    await session.close();
+  }
+};
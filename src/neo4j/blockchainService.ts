@@ -0,0 +1,253 @@
+// Re-export types
+export type {
+  AddressBalance,
+  AddressFeatures,
+  AddressRiskScore,
+  Alert,
+  AlertAckResult,
+  AlertCondition,
+  AlertListOptions,
+  AlertPage,
+  AlertRule,
+  AlertRuleKind,
+  AlertStatus,
+  AddressLabel,
+  AddressLabelResult,
+  AddressLookupOptions,
+  AddressLookupResult,
+  AddressName,
+  AddressNames,
+  BalanceChange,
+  BalanceHistory,
+  BalanceHistoryEntry,
+  BalanceHistoryOptions,
+  BridgeAction,
+  BridgeDefinition,
+  BridgeDirection,
+  BridgeEvent,
+  BridgeHop,
+  BridgeHopSide,
+  BridgeTrace,
+  BridgeTraceOptions,
+  Chain,
+  ChainDataProviderKind,
+  ChainInstruction,
+  ChainMetricSeries,
+  ChainTransaction,
+  ClusterHeuristic,
+  ContractActivityBucket,
+  ContractAnalyzeMode,
+  ContractAnalyzeOptions,
+  ContractCallNode,
+  ContractCallStat,
+  ContractCaller,
+  ContractCallers,
+  ContractTokenFlow,
+  ControlSource,
+  CreateAlertRuleInput,
+  CreateIngestionJobInput,
+  DetectedPattern,
+  DetectorName,
+  DetectorRequest,
+  HolderDistribution,
+  Idl,
+  IdlRegisterResult,
+  IdlSource,
+  Entity,
+  EntityCandidate,
+  EntityClusterOptions,
+  EntityLookupResult,
+  EntityMember,
+  EntityRef,
+  EventFieldFilter,
+  EventFieldOperator,
+  EventQueryOptions,
+  EventPage,
+  EventRecord,
+  Finding,
+  IngestResult,
+  IngestionBatchResult,
+  IngestionJob,
+  IngestionJobMode,
+  IngestionJobState,
+  IngestionJobStatus,
+  MetricBucket,
+  MetricCollectResult,
+  MetricPercentiles,
+  MetricQueryOptions,
+  MetricSource,
+  MetricWindow,
+  MetricWindowPoint,
+  MoveDecoder,
+  MovePackageAbi,
+  MoveType,
+  MoveValue,
+  NetworkMetricsResult,
+  Paginated,
+  PatternDetectOptions,
+  PatternDetectResult,
+  ProgramIdl,
+  RiskFeatureContribution,
+  RiskFeatureName,
+  RiskFeatureStats,
+  RiskScoringRun,
+  SetAddressLabelInput,
+  SolanaTransactionResponse,
+  SolanaPerformanceSample,
+  SuiChainTransaction,
+  SuiCheckpoint,
+  SuiEvent,
+  SuiMoveCall,
+  SuiObjectVersionChange,
+  SuiRawEvent,
+  SuiTransactionBlockResponse,
+  TokenFlow,
+  TokenFlowOptions,
+  TokenFlowPath,
+  TokenFlowTransfer,
+  TokenHolder,
+  TokenHolderChange,
+  TokenHolderGroup,
+  TokenHolders,
+  TokenHoldersOptions,
+  Transfer,
+  TransferFilters,
+  WalletGraph,
+  WalletGraphEdge,
+  WalletGraphNode,
+  WalletGraphOptions
+} from "./blockchainService/types.js";
+
+// Re-export chain data providers
+export type { ChainDataProvider } from "./blockchainService/chainDataProvider.js";
+export {
+  CHAIN_DATA_PROVIDERS,
+  getChainDataProvider,
+  RpcChainDataProvider,
+  FixtureChainDataProvider
+} from "./blockchainService/chainDataProvider.js";
+
+// Re-export Solana ingestion operations
+export {
+  parseSolanaTransaction,
+  ingestSolanaTransaction,
+  ingestSolanaTransactions,
+  ingestSolanaFromRpc,
+  ingestSolanaFromDirectory
+} from "./blockchainService/solanaIngest.js";
+
+// Re-export instruction decoding
+export {
+  loadIdlRegistry,
+  decodeInstruction,
+  listProgramIdls,
+  registerIdl
+} from "./blockchainService/idlRegistry.js";
+
+// Re-export Move call and event decoding
+export {
+  loadMoveAbis,
+  prepareMoveAbis,
+  decodeMoveCall,
+  decodeSuiEvent
+} from "./blockchainService/moveAbiRegistry.js";
+export {
+  EVENT_FIELD_OPERATORS,
+  queryEvents
+} from "./blockchainService/eventService.js";
+
+// Re-export Sui ingestion operations
+export {
+  parseSuiTransaction,
+  ingestSuiTransaction,
+  ingestSuiTransactions,
+  ingestSuiFromRpc,
+  ingestSuiFromDirectory
+} from "./blockchainService/suiIngest.js";
+
+// Re-export address operations
+export {
+  lookupAddress
+} from "./blockchainService/addressService.js";
+
+// Re-export address labels and entity clustering
+export {
+  CLUSTER_HEURISTICS,
+  resolveAddressNames,
+  lookupEntity,
+  setAddressLabel
+} from "./blockchainService/entityService.js";
+
+// Re-export wallet graph traversal
+export {
+  getWalletGraph
+} from "./blockchainService/walletGraph.js";
+
+// Re-export contract analysis
+export {
+  getContractCalls,
+  getContractCallers,
+  getContractActivity,
+  getContractTokenFlows,
+  getTransactionCallTree
+} from "./blockchainService/contractAnalysis.js";
+
+// Re-export token ledger operations
+export {
+  getBalanceHistory,
+  getTokenFlow,
+  getTokenHolders
+} from "./blockchainService/tokenLedger.js";
+
+// Re-export pattern detection
+export {
+  detectPatterns,
+  saveFindings
+} from "./blockchainService/findingService.js";
+
+// Re-export network metrics
+export {
+  collectNetworkMetrics,
+  rollupIngestedMetrics,
+  getNetworkMetrics
+} from "./blockchainService/metricsService.js";
+
+// Re-export ingestion job persistence
+export {
+  createIngestionJob,
+  getIngestionJob,
+  listIngestionJobs,
+  updateIngestionJob,
+  runIngestionBatch
+} from "./blockchainService/ingestionJobs.js";
+
+// Re-export alert rules
+export {
+  ALERT_RULE_KINDS,
+  createAlertRule,
+  listAlertRules,
+  listAlerts,
+  acknowledgeAlerts,
+  evaluateAlertRules
+} from "./blockchainService/alertService.js";
+
+// Re-export address risk scoring
+export { RISK_FEATURE_NAMES } from "./blockchainService/riskFeatures.js";
+export {
+  runRiskScoring,
+  getAddressRiskScore
+} from "./blockchainService/riskScoring.js";
+
+// Re-export cross-chain bridge tracing
+export {
+  getBridgeRegistry,
+  decodeSolanaBridgeEvents,
+  decodeSuiBridgeEvents
+} from "./blockchainService/bridges.js";
+export {
+  matchBridgeEvents,
+  traceBridgeFlows
+} from "./blockchainService/bridgeTracing.js";
+
+// Note: This file is the main entry point for the blockchain service, mirroring
+// the layout of projectService.ts so tools import chain operations from one place.
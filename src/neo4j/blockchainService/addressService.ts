@@ -0,0 +1,224 @@
+import neo4j, { ManagedTransaction } from "neo4j-driver";
+import { getSession } from "../driver.js";
+import { McpError, ChainErrorCode } from "../../types/errors.js";
+import { handleNeo4jError } from "../projectService/utils.js";
+import { toNumberOrNull } from "./utils.js";
+import { resolveAddressNames } from "./entityService.js";
+import {
+  AddressBalance,
+  AddressLookupOptions,
+  AddressLookupResult,
+  BalanceChange,
+  Chain,
+  Transfer
+} from "./types.js";
+
+const DEFAULT_COUNTERPARTY_LIMIT = 20;
+
+// Where a transaction sits on its chain; Solana transactions carry a slot, Sui a checkpoint
+export interface TransactionPosition {
+  chain: Chain;
+  signature: string;
+  blockTime: string | null;
+  slot?: number | null;
+  checkpoint?: number | null;
+}
+
+/**
+ * Writes BALANCE_CHANGED edges from a transaction to the addresses whose
+ * balances it moved
+ * @param tx The open transaction
+ * @param position The chain transaction and its position on the chain
+ * @param changes Aggregated balance changes
+ */
+export const writeBalanceChanges = async (
+  tx: ManagedTransaction,
+  position: TransactionPosition,
+  changes: BalanceChange[]
+): Promise<void> => {
+  if (!changes.length) return;
+
+  await tx.run(
+    `MATCH (t:Transaction {signature: $signature})
+    UNWIND $changes AS change
+    MERGE (a:Address {chain: $chain, address: change.address})
+    ON CREATE SET a.createdAt = $now
+    MERGE (t)-[b:BALANCE_CHANGED {mint: change.mint}]->(a)
+    SET b.delta = change.delta,
+        b.pre = change.pre,
+        b.post = change.post,
+        b.decimals = change.decimals,
+        b.slot = $slot,
+        b.checkpoint = $checkpoint,
+        b.blockTime = $blockTime`,
+    {
+      signature: position.signature,
+      chain: position.chain,
+      blockTime: position.blockTime,
+      slot: position.slot == null ? null : neo4j.int(position.slot),
+      checkpoint: position.checkpoint == null ? null : neo4j.int(position.checkpoint),
+      now: new Date().toISOString(),
+      changes: changes.map(change => ({
+        ...change,
+        decimals: change.decimals === null ? null : neo4j.int(change.decimals)
+      }))
+    }
+  );
+};
+
+/**
+ * Writes TRANSFERRED edges between addresses. Edges are keyed by transaction
+ * and mint, so re-ingesting a transaction does not duplicate them.
+ * @param tx The open transaction
+ * @param position The chain transaction and its position on the chain
+ * @param transfers Transfers inferred from the transaction's balance changes
+ */
+export const writeTransfers = async (
+  tx: ManagedTransaction,
+  position: TransactionPosition,
+  transfers: Transfer[]
+): Promise<void> => {
+  if (!transfers.length) return;
+
+  await tx.run(
+    `UNWIND $transfers AS transfer
+    MERGE (from:Address {chain: $chain, address: transfer.from})
+    ON CREATE SET from.createdAt = $now
+    MERGE (to:Address {chain: $chain, address: transfer.to})
+    ON CREATE SET to.createdAt = $now
+    MERGE (from)-[tr:TRANSFERRED {signature: $signature, mint: transfer.mint}]->(to)
+    SET tr.amount = transfer.amount,
+        tr.decimals = transfer.decimals,
+        tr.slot = $slot,
+        tr.checkpoint = $checkpoint,
+        tr.blockTime = $blockTime`,
+    {
+      signature: position.signature,
+      chain: position.chain,
+      blockTime: position.blockTime,
+      slot: position.slot == null ? null : neo4j.int(position.slot),
+      checkpoint: position.checkpoint == null ? null : neo4j.int(position.checkpoint),
+      now: new Date().toISOString(),
+      transfers: transfers.map(transfer => ({
+        ...transfer,
+        decimals: transfer.decimals === null ? null : neo4j.int(transfer.decimals)
+      }))
+    }
+  );
+};
+
+/**
+ * Summarizes everything the graph knows about an address: balances seen,
+ * activity window, most frequent counterparties and linked projects
+ * @param chain The chain the address belongs to
+ * @param address The canonical address (see normalizeChainAddress)
+ * @param options Lookup options
+ * @returns The address summary
+ * @throws {McpError} If the address has not been ingested
+ */
+export const lookupAddress = async (
+  chain: Chain,
+  address: string,
+  options: AddressLookupOptions = {}
+): Promise<AddressLookupResult> => {
+  const session = getSession();
+  try {
+    const activityResult = await session.run(
+      `MATCH (a:Address {chain: $chain, address: $address})
+      OPTIONAL MATCH (a)-[r:SENT|BALANCE_CHANGED]-(t:Transaction)
+      WITH a, collect(DISTINCT t) AS txs,
+           collect(DISTINCT CASE WHEN type(r) = 'SENT' THEN t END) AS sent
+      RETURN size(txs) AS transactionCount,
+             size(sent) AS sentCount,
+             reduce(first = null, t IN txs |
+               CASE WHEN first IS NULL OR t.blockTime < first THEN t.blockTime ELSE first END) AS firstSeen,
+             reduce(last = null, t IN txs |
+               CASE WHEN last IS NULL OR t.blockTime > last THEN t.blockTime ELSE last END) AS lastSeen`,
+      { chain, address }
+    );
+
+    if (!activityResult.records.length) {
+      throw new McpError(
+        ChainErrorCode.ADDRESS_NOT_FOUND,
+        `Address ${address} on ${chain} has not been ingested`,
+        { chain, address }
+      );
+    }
+
+    const activity = activityResult.records[0];
+
+    // Sum deltas in JS; amounts are strings that may exceed 64-bit integers
+    const balanceResult = await session.run(
+      `MATCH (:Address {chain: $chain, address: $address})<-[b:BALANCE_CHANGED]-(t:Transaction)
+      RETURN b.mint AS mint, b.decimals AS decimals, b.delta AS delta, b.post AS post,
+             t.blockTime AS blockTime
+      ORDER BY t.blockTime ASC`,
+      { chain, address }
+    );
+
+    const balances = new Map<string, { decimals: number | null; latest: string | null; net: bigint; lastChangedAt: string | null }>();
+    for (const record of balanceResult.records) {
+      const mint: string = record.get("mint");
+      const entry = balances.get(mint) ?? { decimals: null, latest: null, net: BigInt(0), lastChangedAt: null };
+      entry.decimals = toNumberOrNull(record.get("decimals")) ?? entry.decimals;
+      entry.net += BigInt(record.get("delta"));
+      entry.latest = record.get("post") ?? entry.latest;
+      entry.lastChangedAt = record.get("blockTime") ?? entry.lastChangedAt;
+      balances.set(mint, entry);
+    }
+
+    const counterpartyResult = await session.run(
+      `MATCH (a:Address {chain: $chain, address: $address})-[:SENT|BALANCE_CHANGED]-(t:Transaction)
+            -[:SENT|BALANCE_CHANGED]-(c:Address)
+      WHERE c <> a
+      WITH c, count(DISTINCT t) AS sharedTransactions
+      RETURN c.chain AS chain, c.address AS address, sharedTransactions
+      ORDER BY sharedTransactions DESC, address ASC
+      LIMIT $limit`,
+      { chain, address, limit: neo4j.int(options.counterpartyLimit ?? DEFAULT_COUNTERPARTY_LIMIT) }
+    );
+
+    const projectResult = await session.run(
+      `MATCH (:Address {chain: $chain, address: $address})-[r]-(p:Project)
+      RETURN DISTINCT p.customId AS id, p.name AS name, type(r) AS relationship
+      ORDER BY name ASC`,
+      { chain, address }
+    );
+
+    const counterparties = counterpartyResult.records.map(record => ({
+      chain: record.get("chain"),
+      address: record.get("address"),
+      sharedTransactions: toNumberOrNull(record.get("sharedTransactions")) ?? 0
+    }));
+
+    return {
+      chain,
+      address,
+      balances: [...balances.entries()].map(([mint, entry]): AddressBalance => ({
+        mint,
+        decimals: entry.decimals,
+        latest: entry.latest,
+        netObserved: entry.net.toString(),
+        lastChangedAt: entry.lastChangedAt
+      })),
+      activity: {
+        firstSeen: activity.get("firstSeen"),
+        lastSeen: activity.get("lastSeen"),
+        transactionCount: toNumberOrNull(activity.get("transactionCount")) ?? 0,
+        sentCount: toNumberOrNull(activity.get("sentCount")) ?? 0
+      },
+      counterparties,
+      linkedProjects: projectResult.records.map(record => ({
+        id: record.get("id"),
+        name: record.get("name"),
+        relationship: record.get("relationship")
+      })),
+      names: await resolveAddressNames(chain, [address, ...counterparties.map(c => c.address)])
+    };
+  } catch (error) {
+    if (error instanceof McpError) throw error;
+    throw handleNeo4jError(error, { chain, address });
+  } finally {
+    await session.close();
+  }
+};
@@ -0,0 +1,681 @@
+import { createHash } from "crypto";
+import { getSession, withTransaction } from "../driver.js";
+import { logger } from "../../utils/logger.js";
+import { McpError, ProjectErrorCode } from "../../types/errors.js";
+import { generateCustomId } from "../../utils/idGenerator.js";
+import { handleNeo4jError } from "../projectService/utils.js";
+import { getProjectById } from "../projectService/projectCore.js";
+import { addProjectNote } from "../projectService/projectContent.js";
+import { NATIVE_ASSETS, toNumberOrNull } from "./utils.js";
+import { resolveAddressNames } from "./entityService.js";
+import {
+  Alert,
+  AlertAckResult,
+  AlertCondition,
+  AlertListOptions,
+  AlertPage,
+  AlertMatch,
+  AlertRule,
+  AlertRuleKind,
+  AlertStatus,
+  AddressNames,
+  Chain,
+  CreateAlertRuleInput
+} from "./types.js";
+
+export const ALERT_RULE_KINDS = [
+  'large_transfer',
+  'upgrade_authority_change',
+  'entity_interaction'
+] as const satisfies readonly AlertRuleKind[];
+
+// BPF upgradeable loader SetAuthority and SetAuthorityChecked, parsed or as raw u32 tags
+const SOLANA_UPGRADEABLE_LOADER = 'BPFLoaderUpgradeab1e11111111111111111111111';
+const SOLANA_SET_AUTHORITY = ['setAuthority', 'setAuthorityChecked', '04000000', '07000000'];
+
+const RULE_PROJECTION = `r {
+  .name, .chain, .kind, .params, .addresses, .enabled, .createdAt, .updatedAt, .lastTriggeredAt,
+  id: r.customId
+}`;
+
+const ALERT_PROJECTION = `a {
+  .chain, .kind, .signature, .blockTime, .subject, .summary, .details, .addresses, .status, .noteId,
+  .createdAt, .acknowledgedAt, .acknowledgedBy, .acknowledgeNote,
+  id: a.customId
+}`;
+
+const toAlertRule = (row: Record<string, unknown>): AlertRule => ({
+  id: row.id as string,
+  name: row.name as string,
+  chain: row.chain as Chain,
+  condition: { ...JSON.parse(row.params as string), kind: row.kind } as AlertCondition,
+  addresses: (row.addresses as string[] | null) ?? [],
+  projectId: (row.projectId as string | null) ?? null,
+  enabled: row.enabled as boolean,
+  alertCount: toNumberOrNull(row.alertCount) ?? 0,
+  openAlertCount: toNumberOrNull(row.openAlertCount) ?? 0,
+  createdAt: row.createdAt as string,
+  updatedAt: row.updatedAt as string,
+  lastTriggeredAt: (row.lastTriggeredAt as string | null) ?? null
+});
+
+const toAlert = (row: Record<string, unknown>): Alert => ({
+  id: row.id as string,
+  ruleId: row.ruleId as string,
+  ruleName: row.ruleName as string,
+  kind: row.kind as AlertRuleKind,
+  chain: row.chain as Chain,
+  projectId: (row.projectId as string | null) ?? null,
+  signature: row.signature as string,
+  blockTime: (row.blockTime as string | null) ?? null,
+  subject: row.subject as string,
+  summary: row.summary as string,
+  addresses: (row.addresses as string[] | null) ?? [],
+  details: JSON.parse((row.details as string | null) ?? '{}'),
+  noteId: (row.noteId as string | null) ?? null,
+  status: row.status as AlertStatus,
+  createdAt: row.createdAt as string,
+  acknowledgedAt: (row.acknowledgedAt as string | null) ?? null,
+  acknowledgedBy: (row.acknowledgedBy as string | null) ?? null,
+  acknowledgeNote: (row.acknowledgeNote as string | null) ?? null
+});
+
+/**
+ * Creates an alert rule. Rules are checked against every batch of
+ * transactions written by ingestion from then on; existing data is not scanned.
+ * @param input Name, chain, condition, scope and optional project
+ * @returns The new rule
+ * @throws {McpError} If the project does not exist
+ */
+export const createAlertRule = async (input: CreateAlertRuleInput): Promise<AlertRule> => {
+  if (input.projectId && !(await getProjectById(input.projectId))) {
+    throw new McpError(
+      ProjectErrorCode.PROJECT_NOT_FOUND,
+      `Project with ID ${input.projectId} not found`,
+      { projectId: input.projectId }
+    );
+  }
+
+  const { kind, ...params } = input.condition;
+  const session = getSession();
+  try {
+    const now = new Date().toISOString();
+    const result = await session.run(
+      `CREATE (r:AlertRule {
+        customId: $customId,
+        name: $name,
+        chain: $chain,
+        kind: $kind,
+        params: $params,
+        addresses: $addresses,
+        enabled: $enabled,
+        createdAt: $now,
+        updatedAt: $now,
+        lastTriggeredAt: null
+      })
+      WITH r
+      OPTIONAL MATCH (p:Project {customId: $projectId})
+      FOREACH (x IN CASE WHEN p IS NOT NULL THEN [1] ELSE [] END |
+        MERGE (p)-[:HAS_ALERT_RULE]->(r)
+      )
+      RETURN ${RULE_PROJECTION} AS rule, p.customId AS projectId`,
+      {
+        customId: generateCustomId('ALERT_RULE'),
+        name: input.name,
+        chain: input.chain,
+        kind,
+        params: JSON.stringify(params),
+        addresses: input.addresses ?? [],
+        enabled: input.enabled ?? true,
+        projectId: input.projectId ?? null,
+        now
+      }
+    );
+
+    const record = result.records[0];
+    return toAlertRule({ ...record.get("rule"), projectId: record.get("projectId") });
+  } catch (error) {
+    throw handleNeo4jError(error, { input });
+  } finally {
+    await session.close();
+  }
+};
+
+/**
+ * Lists alert rules with their alert counts, newest first
+ * @param filters Optional chain, project and enabled state to match
+ */
+export const listAlertRules = async (
+  filters: { chain?: Chain; projectId?: string; enabled?: boolean } = {}
+): Promise<AlertRule[]> => {
+  const session = getSession();
+  try {
+    const result = await session.run(
+      `MATCH (r:AlertRule)
+      WHERE ($chain IS NULL OR r.chain = $chain)
+        AND ($enabled IS NULL OR r.enabled = $enabled)
+      OPTIONAL MATCH (p:Project)-[:HAS_ALERT_RULE]->(r)
+      WITH r, p
+      WHERE $projectId IS NULL OR p.customId = $projectId
+      OPTIONAL MATCH (r)-[:RAISED]->(a:Alert)
+      WITH r, p, count(a) AS alertCount, count(CASE WHEN a.status = 'open' THEN a END) AS openAlertCount
+      RETURN ${RULE_PROJECTION} AS rule, p.customId AS projectId, alertCount, openAlertCount
+      ORDER BY r.createdAt DESC`,
+      {
+        chain: filters.chain ?? null,
+        projectId: filters.projectId ?? null,
+        enabled: filters.enabled ?? null
+      }
+    );
+
+    return result.records.map(record => toAlertRule({
+      ...record.get("rule"),
+      projectId: record.get("projectId"),
+      alertCount: record.get("alertCount"),
+      openAlertCount: record.get("openAlertCount")
+    }));
+  } catch (error) {
+    throw handleNeo4jError(error, { filters });
+  } finally {
+    await session.close();
+  }
+};
+
+/**
+ * Lists alerts, newest first
+ * @param options Status, rule, project, chain and time filters, and pagination
+ * @returns One page of alerts, with the names of the addresses involved
+ */
+export const listAlerts = async (options: AlertListOptions = {}): Promise<AlertPage> => {
+  const { page = 1, limit = 20 } = options;
+  const match = `MATCH (r:AlertRule)-[:RAISED]->(a:Alert)
+      OPTIONAL MATCH (p:Project)-[:HAS_ALERT_RULE]->(r)
+      WITH r, a, p
+      WHERE ($status IS NULL OR a.status = $status)
+        AND ($ruleId IS NULL OR r.customId = $ruleId)
+        AND ($projectId IS NULL OR p.customId = $projectId)
+        AND ($chain IS NULL OR a.chain = $chain)
+        AND ($since IS NULL OR a.createdAt >= $since)`;
+  const params = {
+    status: options.status ?? null,
+    ruleId: options.ruleId ?? null,
+    projectId: options.projectId ?? null,
+    chain: options.chain ?? null,
+    since: options.since ?? null
+  };
+
+  const session = getSession();
+  try {
+    const result = await session.run(
+      `${match}
+      RETURN ${ALERT_PROJECTION} AS alert, r.customId AS ruleId, r.name AS ruleName, p.customId AS projectId
+      ORDER BY a.createdAt DESC, a.customId ASC
+      SKIP toInteger($skip) LIMIT toInteger($limit)`,
+      { ...params, skip: (page - 1) * limit, limit }
+    );
+
+    const countResult = await session.run(`${match} RETURN count(a) AS total`, params);
+
+    const items = result.records.map(record => toAlert({
+      ...record.get("alert"),
+      ruleId: record.get("ruleId"),
+      ruleName: record.get("ruleName"),
+      projectId: record.get("projectId")
+    }));
+
+    // Names are looked up per chain, since a page can hold alerts of both
+    const names: Partial<Record<Chain, AddressNames>> = {};
+    for (const alertChain of new Set(items.map(item => item.chain))) {
+      names[alertChain] = await resolveAddressNames(
+        alertChain,
+        items.filter(item => item.chain === alertChain).flatMap(item => item.addresses)
+      );
+    }
+
+    return {
+      items,
+      total: toNumberOrNull(countResult.records[0].get("total")) ?? 0,
+      page,
+      limit,
+      names
+    };
+  } catch (error) {
+    throw handleNeo4jError(error, { options });
+  } finally {
+    await session.close();
+  }
+};
+
+/**
+ * Acknowledges alerts. Alerts that were already acknowledged keep their
+ * original acknowledgement.
+ * @param ids Alert IDs
+ * @param acknowledgement Who acknowledged the alerts and why
+ * @returns The alerts, and IDs that matched no alert
+ */
+export const acknowledgeAlerts = async (
+  ids: string[],
+  acknowledgement: { by?: string; note?: string } = {}
+): Promise<AlertAckResult> => {
+  const session = getSession();
+  try {
+    const result = await session.run(
+      `MATCH (r:AlertRule)-[:RAISED]->(a:Alert)
+      WHERE a.customId IN $ids
+      FOREACH (x IN CASE WHEN a.status = 'open' THEN [1] ELSE [] END |
+        SET a.status = 'acknowledged',
+            a.acknowledgedAt = $now,
+            a.acknowledgedBy = $by,
+            a.acknowledgeNote = $note
+      )
+      WITH r, a
+      OPTIONAL MATCH (p:Project)-[:HAS_ALERT_RULE]->(r)
+      RETURN ${ALERT_PROJECTION} AS alert, r.customId AS ruleId, r.name AS ruleName, p.customId AS projectId`,
+      {
+        ids,
+        now: new Date().toISOString(),
+        by: acknowledgement.by ?? null,
+        note: acknowledgement.note ?? null
+      }
+    );
+
+    const acknowledged = result.records.map(record => toAlert({
+      ...record.get("alert"),
+      ruleId: record.get("ruleId"),
+      ruleName: record.get("ruleName"),
+      projectId: record.get("projectId")
+    }));
+    const found = new Set(acknowledged.map(alert => alert.id));
+
+    return { acknowledged, notFound: ids.filter(id => !found.has(id)) };
+  } catch (error) {
+    throw handleNeo4jError(error, { ids });
+  } finally {
+    await session.close();
+  }
+};
+
+// An enabled rule with its resolved scope; a null scope matches every address
+interface ScopedRule {
+  rule: AlertRule;
+  scope: Set<string> | null;
+}
+
+const inScope = (scope: Set<string> | null, address: string | null) =>
+  address !== null && (scope === null || scope.has(address));
+
+const matchLargeTransfers = async (
+  chain: Chain,
+  signatures: string[],
+  { rule, scope }: ScopedRule
+): Promise<AlertMatch[]> => {
+  const condition = rule.condition as Extract<AlertCondition, { kind: 'large_transfer' }>;
+  const mint = condition.mint ?? NATIVE_ASSETS[chain].mint;
+  const direction = condition.direction ?? 'out';
+  const minAmount = BigInt(condition.minAmount);
+
+  const session = getSession();
+  try {
+    // Transfers always involve addresses whose balance the transaction changed
+    const result = await session.run(
+      `UNWIND $signatures AS signature
+      MATCH (t:Transaction {signature: signature})-[:BALANCE_CHANGED]->(from:Address)-[tr:TRANSFERRED]->(to:Address)
+      WHERE tr.signature = signature AND tr.mint = $mint
+      RETURN DISTINCT signature, t.blockTime AS blockTime, from.address AS from, to.address AS to,
+             tr.amount AS amount, tr.decimals AS decimals`,
+      { signatures, mint }
+    );
+
+    return result.records.flatMap(record => {
+      const from: string = record.get("from");
+      const to: string = record.get("to");
+      const amount = BigInt(record.get("amount"));
+      if (amount < minAmount) return [];
+
+      const outgoing = direction !== 'in' && inScope(scope, from);
+      if (!outgoing && !(direction !== 'out' && inScope(scope, to))) return [];
+
+      return [{
+        key: `${from}>${to}`,
+        signature: record.get("signature"),
+        blockTime: record.get("blockTime"),
+        subject: outgoing ? from : to,
+        summary: outgoing
+          ? `${from} sent ${amount} of ${mint} to ${to} (threshold ${minAmount})`
+          : `${to} received ${amount} of ${mint} from ${from} (threshold ${minAmount})`,
+        addresses: [from, to],
+        details: { from, to, mint, amount: amount.toString(), decimals: toNumberOrNull(record.get("decimals")) }
+      }];
+    });
+  } finally {
+    await session.close();
+  }
+};
+
+// Reads SetAuthority accounts from the instruction, or from its parsed form for jsonParsed responses
+const solanaAuthorityChange = (accounts: string[], data: string) => {
+  if (accounts.length >= 2) {
+    return { account: accounts[0], authority: accounts[1], newAuthority: accounts[2] ?? null };
+  }
+  try {
+    const info = (JSON.parse(data) as { info?: Record<string, string | null> }).info ?? {};
+    return { account: info.account ?? null, authority: info.authority ?? null, newAuthority: info.newAuthority ?? null };
+  } catch {
+    return { account: null, authority: null, newAuthority: null };
+  }
+};
+
+const matchUpgradeAuthorityChanges = async (
+  chain: Chain,
+  signatures: string[],
+  { scope }: ScopedRule
+): Promise<AlertMatch[]> => {
+  const session = getSession();
+  try {
+    if (chain === 'solana') {
+      const result = await session.run(
+        `UNWIND $signatures AS signature
+        MATCH (t:Transaction {signature: signature})-[:HAS_INSTRUCTION]->(i:Instruction)
+        WHERE t.success AND i.programId = $loader AND i.discriminator IN $discriminators
+        RETURN signature, t.blockTime AS blockTime, i.path AS path, i.accounts AS accounts, i.data AS data`,
+        { signatures, loader: SOLANA_UPGRADEABLE_LOADER, discriminators: SOLANA_SET_AUTHORITY }
+      );
+
+      return result.records.flatMap(record => {
+        const { account, authority, newAuthority } = solanaAuthorityChange(record.get("accounts") ?? [], record.get("data") ?? '');
+        if (!account) return [];
+        const involved = [account, authority, newAuthority].filter((a): a is string => a !== null);
+        if (!involved.some(address => inScope(scope, address))) return [];
+
+        return [{
+          key: record.get("path"),
+          signature: record.get("signature"),
+          blockTime: record.get("blockTime"),
+          subject: account,
+          summary: newAuthority
+            ? `Upgrade authority of ${account} changed from ${authority ?? 'unknown'} to ${newAuthority}`
+            : `Upgrade authority of ${account} removed by ${authority ?? 'unknown'}; it is now immutable`,
+          addresses: involved.slice(1),
+          details: { account, authority, newAuthority }
+        }];
+      });
+    }
+
+    // Sui upgrade rights are held as UpgradeCap objects; moving one away from
+    // the signers or destroying it changes who can upgrade the package
+    const result = await session.run(
+      `UNWIND $signatures AS signature
+      MATCH (t:Transaction {signature: signature})-[:MUTATED|DELETED]->(v:ObjectVersion)<-[:HAS_VERSION]-(o:SuiObject)
+      WHERE t.success AND o.objectType ENDS WITH '::package::UpgradeCap'
+      MATCH (signer:Address)-[:SENT]->(t)
+      WITH signature, t, v, o, collect(signer.address) AS signers
+      WHERE v.deleted OR NOT v.owner IN signers
+      RETURN signature, t.blockTime AS blockTime, o.objectId AS capId, v.owner AS owner,
+             v.ownerType AS ownerType, v.deleted AS deleted, signers`,
+      { signatures }
+    );
+
+    return result.records.flatMap(record => {
+      const capId: string = record.get("capId");
+      const signers: string[] = record.get("signers");
+      const owner: string | null = record.get("ownerType") === 'address' ? record.get("owner") : null;
+      const involved = [capId, ...signers, ...(owner ? [owner] : [])];
+      if (!involved.some(address => inScope(scope, address))) return [];
+
+      return [{
+        key: capId,
+        signature: record.get("signature"),
+        blockTime: record.get("blockTime"),
+        subject: capId,
+        summary: record.get("deleted")
+          ? `UpgradeCap ${capId} destroyed by ${signers.join(', ')}; its package can no longer be upgraded`
+          : `UpgradeCap ${capId} moved from ${signers.join(', ')} to ${record.get("owner") ?? 'an object or shared owner'}`,
+        addresses: [...signers, ...(owner ? [owner] : [])],
+        details: {
+          capId,
+          previousOwners: signers,
+          newOwner: record.get("owner"),
+          newOwnerType: record.get("ownerType"),
+          deleted: record.get("deleted") ?? false
+        }
+      }];
+    });
+  } finally {
+    await session.close();
+  }
+};
+
+const matchEntityInteractions = async (
+  chain: Chain,
+  signatures: string[],
+  { rule, scope }: ScopedRule
+): Promise<AlertMatch[]> => {
+  const condition = rule.condition as Extract<AlertCondition, { kind: 'entity_interaction' }>;
+
+  const session = getSession();
+  try {
+    const result = await session.run(
+      `UNWIND $signatures AS signature
+      MATCH (t:Transaction {signature: signature})
+      UNWIND [(t)<-[:SENT]-(a:Address) | a] + [(t)-[:BALANCE_CHANGED]->(a:Address) | a] AS participant
+      WITH signature, t, collect(DISTINCT participant) AS participants
+      UNWIND participants AS flagged
+      OPTIONAL MATCH (e:Entity)-[:CONTROLS]->(flagged)
+      WITH signature, t, participants, flagged, e
+      WHERE e.customId IN $entityIds OR flagged.labelCategory IN $categories
+      RETURN signature, t.blockTime AS blockTime, flagged.address AS flagged,
+             flagged.label AS label, flagged.labelCategory AS category,
+             e.customId AS entityId, e.name AS entityName,
+             [p IN participants WHERE p <> flagged | p.address] AS counterparties`,
+      {
+        signatures,
+        entityIds: condition.entityIds ?? [],
+        categories: condition.categories ?? []
+      }
+    );
+
+    return result.records.flatMap(record => {
+      const flagged: string = record.get("flagged");
+      const counterparties: string[] = record.get("counterparties");
+      const flag = record.get("entityName") ?? record.get("label") ?? record.get("category");
+      const details = {
+        flagged,
+        entity: record.get("entityId") ? { id: record.get("entityId"), name: record.get("entityName") } : null,
+        label: record.get("label"),
+        category: record.get("category")
+      };
+      const base = { signature: record.get("signature"), blockTime: record.get("blockTime") };
+
+      // Without a scope the flagged address itself is the subject
+      if (scope === null) {
+        return [{
+          ...base,
+          key: flagged,
+          subject: flagged,
+          summary: `Flagged address ${flagged} (${flag}) transacted with ${counterparties.length} other address(es)`,
+          addresses: [flagged, ...counterparties],
+          details: { ...details, counterparties }
+        }];
+      }
+
+      return counterparties.filter(address => scope.has(address)).map(address => ({
+        ...base,
+        key: `${address}<>${flagged}`,
+        subject: address,
+        summary: `${address} interacted with flagged address ${flagged} (${flag})`,
+        addresses: [address, flagged],
+        details
+      }));
+    });
+  } finally {
+    await session.close();
+  }
+};
+
+const MATCHERS: Record<AlertRuleKind, (chain: Chain, signatures: string[], rule: ScopedRule) => Promise<AlertMatch[]>> = {
+  large_transfer: matchLargeTransfers,
+  upgrade_authority_change: matchUpgradeAuthorityChanges,
+  entity_interaction: matchEntityInteractions
+};
+
+// Loads enabled rules of a chain, scoped to their own addresses or else to what their project watches
+const loadScopedRules = async (chain: Chain): Promise<ScopedRule[]> => {
+  const session = getSession();
+  try {
+    const result = await session.run(
+      `MATCH (r:AlertRule {chain: $chain, enabled: true})
+      OPTIONAL MATCH (p:Project)-[:HAS_ALERT_RULE]->(r)
+      OPTIONAL MATCH (p)-[:WATCHES]->(w {chain: $chain})
+      RETURN ${RULE_PROJECTION} AS rule, p.customId AS projectId, collect(DISTINCT w.address) AS watched`,
+      { chain }
+    );
+
+    return result.records.map(record => {
+      const rule = toAlertRule({ ...record.get("rule"), projectId: record.get("projectId") });
+      const scope = rule.addresses.length ? rule.addresses : rule.projectId ? record.get("watched") as string[] : null;
+      return { rule, scope: scope ? new Set(scope) : null };
+    });
+  } finally {
+    await session.close();
+  }
+};
+
+// Same rule matching the same thing in the same transaction always maps to the same alert
+const fingerprintAlert = (ruleId: string, match: AlertMatch): string =>
+  createHash('sha256')
+    .update([ruleId, match.signature, match.key].join('|'))
+    .digest('hex')
+    .slice(0, 32);
+
+/**
+ * Stores matches as Alert nodes raised by their rule and linked to the
+ * involved addresses. Matches seen before are left as they are.
+ * @returns Only the alerts created by this call
+ */
+const saveAlerts = async (chain: Chain, rule: AlertRule, matches: AlertMatch[]): Promise<Alert[]> =>
+  withTransaction(async tx => {
+    const now = new Date().toISOString();
+    const result = await tx.run(
+      `MATCH (r:AlertRule {customId: $ruleId})
+      UNWIND $matches AS match
+      MERGE (a:Alert {fingerprint: match.fingerprint})
+      ON CREATE SET a.customId = match.customId,
+                    a.chain = $chain,
+                    a.kind = r.kind,
+                    a.signature = match.signature,
+                    a.blockTime = match.blockTime,
+                    a.subject = match.subject,
+                    a.summary = match.summary,
+                    a.addresses = match.addresses,
+                    a.details = match.details,
+                    a.status = 'open',
+                    a.noteId = null,
+                    a.createdAt = $now
+      WITH r, a, match
+      WHERE a.customId = match.customId
+      MERGE (r)-[:RAISED]->(a)
+      SET r.lastTriggeredAt = $now
+      FOREACH (involved IN match.addresses |
+        MERGE (addr:Address {chain: $chain, address: involved})
+        ON CREATE SET addr.createdAt = $now
+        MERGE (a)-[:INVOLVES]->(addr)
+      )
+      RETURN ${ALERT_PROJECTION} AS alert`,
+      {
+        ruleId: rule.id,
+        chain,
+        now,
+        matches: matches.map(match => ({
+          ...match,
+          fingerprint: fingerprintAlert(rule.id, match),
+          customId: generateCustomId('ALERT'),
+          details: JSON.stringify(match.details)
+        }))
+      }
+    );
+
+    return result.records.map(record => toAlert({
+      ...record.get("alert"),
+      ruleId: rule.id,
+      ruleName: rule.name,
+      projectId: rule.projectId
+    }));
+  });
+
+// Records each new alert as a note on the rule's project
+const addAlertNotes = async (rule: AlertRule, alerts: Alert[]): Promise<Alert[]> => {
+  if (!rule.projectId || !alerts.length) return alerts;
+  const projectId = rule.projectId;
+
+  const noted = await Promise.all(alerts.map(async alert => {
+    try {
+      const note = await addProjectNote(projectId, {
+        customId: generateCustomId('NOTE'),
+        text: `Alert ${alert.id} from rule "${rule.name}": ${alert.summary} (transaction ${alert.signature})`,
+        tags: ['alert', alert.kind, alert.chain],
+        timestamp: alert.createdAt
+      });
+      return { ...alert, noteId: note.id };
+    } catch (error) {
+      logger.warn("Failed to add alert note to project", { alertId: alert.id, projectId, error });
+      return alert;
+    }
+  }));
+
+  const session = getSession();
+  try {
+    await session.run(
+      `UNWIND $alerts AS alert
+      MATCH (a:Alert {customId: alert.id})
+      SET a.noteId = alert.noteId`,
+      { alerts: noted.filter(alert => alert.noteId).map(alert => ({ id: alert.id, noteId: alert.noteId })) }
+    );
+  } finally {
+    await session.close();
+  }
+  return noted;
+};
+
+/**
+ * Checks enabled alert rules of a chain against newly ingested transactions,
+ * stores matches as alerts and adds them as notes to the rules' projects.
+ * A failing rule is logged and skipped so the others still run.
+ * @param chain The chain the transactions belong to
+ * @param signatures Signatures (Solana) or digests (Sui) just written
+ * @returns Alerts raised for the first time
+ */
+export const evaluateAlertRules = async (chain: Chain, signatures: string[]): Promise<Alert[]> => {
+  if (!signatures.length) return [];
+
+  let rules: ScopedRule[];
+  try {
+    rules = await loadScopedRules(chain);
+  } catch (error) {
+    throw handleNeo4jError(error, { chain });
+  }
+
+  const raised: Alert[] = [];
+  for (const scoped of rules) {
+    // A project without watches gives its rule nothing to match
+    if (scoped.scope?.size === 0) continue;
+
+    try {
+      const matches = await MATCHERS[scoped.rule.condition.kind](chain, signatures, scoped);
+      if (!matches.length) continue;
+
+      const alerts = await saveAlerts(chain, scoped.rule, matches);
+      raised.push(...await addAlertNotes(scoped.rule, alerts));
+    } catch (error) {
+      logger.warn("Failed to evaluate alert rule", {
+        ruleId: scoped.rule.id,
+        chain,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  if (raised.length) {
+    logger.info("Alert rules raised alerts", { chain, count: raised.length, alertIds: raised.map(a => a.id) });
+  }
+  return raised;
+};
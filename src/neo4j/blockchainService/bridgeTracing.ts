@@ -0,0 +1,383 @@
+import neo4j, { ManagedTransaction } from "neo4j-driver";
+import { getSession, withTransaction } from "../driver.js";
+import { config } from "../../config/index.js";
+import { logger } from "../../utils/logger.js";
+import { McpError, ChainErrorCode } from "../../types/errors.js";
+import { handleNeo4jError } from "../projectService/utils.js";
+import { resolveAddressNames } from "./entityService.js";
+import { toNumberOrNull } from "./utils.js";
+import {
+  AddressNames,
+  BridgeEvent,
+  BridgeHop,
+  BridgeTrace,
+  BridgeTraceOptions,
+  Chain
+} from "./types.js";
+
+const MINUTE_MS = 60 * 1000;
+const DEFAULT_ONWARD_LIMIT = 10;
+
+export interface MatchCandidate {
+  event: BridgeEvent;
+  confidence: BridgeHop['confidence'];
+  matchedOn: string[];
+}
+
+const toEvent = (row: Record<string, unknown>): BridgeEvent => ({
+  id: row.id as string,
+  bridge: row.bridge as string,
+  chain: row.chain as Chain,
+  signature: row.signature as string,
+  position: row.position as string,
+  direction: row.direction as BridgeEvent['direction'],
+  action: (row.action as BridgeEvent['action']) ?? null,
+  address: row.address as string,
+  mint: (row.mint as string | null) ?? null,
+  amount: (row.amount as string | null) ?? null,
+  decimals: toNumberOrNull(row.decimals),
+  normalizedAmount: (row.normalizedAmount as string | null) ?? null,
+  fee: (row.fee as string | null) ?? null,
+  blockTime: (row.blockTime as string | null) ?? null,
+  targetChain: (row.targetChain as Chain | null) ?? null,
+  recipient: (row.recipient as string | null) ?? null,
+  receivers: (row.receivers as string[] | null) ?? []
+});
+
+/**
+ * Writes decoded bridge transfers of a transaction as BridgeEvent nodes.
+ * Matching state survives re-ingestion, so a matched event stays matched.
+ * @param tx The open transaction
+ * @param signature The transaction the events were decoded from
+ * @param events Decoded bridge transfers
+ */
+export const writeBridgeEvents = async (
+  tx: ManagedTransaction,
+  signature: string,
+  events: BridgeEvent[]
+): Promise<void> => {
+  if (!events.length) return;
+
+  await tx.run(
+    `MATCH (t:Transaction {signature: $signature})
+    UNWIND $events AS event
+    MERGE (e:BridgeEvent {id: event.id})
+    ON CREATE SET e.createdAt = $now
+    SET e += event
+    MERGE (t)-[:EMITTED_BRIDGE_EVENT]->(e)`,
+    {
+      signature,
+      now: new Date().toISOString(),
+      events: events.map(event => ({
+        ...event,
+        decimals: event.decimals === null ? null : neo4j.int(event.decimals)
+      }))
+    }
+  );
+};
+
+// The destination may receive the amount less the relayer fee named in the payload
+const amountsAgree = (outbound: BridgeEvent, inbound: BridgeEvent): boolean => {
+  if (outbound.normalizedAmount === null || inbound.normalizedAmount === null) return false;
+  const sent = BigInt(outbound.normalizedAmount);
+  const received = BigInt(inbound.normalizedAmount);
+  if (sent === received) return true;
+  return outbound.fee !== null && sent - BigInt(outbound.fee) === received;
+};
+
+// Outbound transfers arrive after they leave, so the window opens on one side only
+const matchWindow = (event: BridgeEvent, windowMs: number): [number, number] => {
+  const time = Date.parse(event.blockTime as string);
+  return event.direction === 'outbound' ? [time, time + windowMs] : [time - windowMs, time];
+};
+
+/**
+ * Picks the counterpart of a bridge transfer among unmatched transfers of the
+ * same bridge on the other chain. Candidates must fall within the match window
+ * and agree on the amount; a recipient named in the payload must appear on the
+ * receiving side. Without a payload recipient, the candidate nearest in time is
+ * taken, with less confidence when there were several.
+ * @param event The transfer to match
+ * @param candidates Transfers on the other side
+ * @param windowMs How long a crossing may take
+ * @returns The counterpart, with what it matched on; null if none qualifies
+ */
+export const pickCounterpart = (
+  event: BridgeEvent,
+  candidates: BridgeEvent[],
+  windowMs: number
+): MatchCandidate | null => {
+  const [from, to] = matchWindow(event, windowMs);
+  const pairs = candidates
+    .filter(candidate => {
+      const time = Date.parse(candidate.blockTime as string);
+      return time >= from && time <= to;
+    })
+    .map(candidate => event.direction === 'outbound'
+      ? { candidate, outbound: event, inbound: candidate }
+      : { candidate, outbound: candidate, inbound: event })
+    .filter(({ outbound, inbound }) => amountsAgree(outbound, inbound));
+  if (!pairs.length) return null;
+
+  const named = pairs.filter(({ outbound }) => outbound.recipient !== null);
+  if (named.length) {
+    const match = named.find(({ outbound, inbound }) => inbound.receivers.includes(outbound.recipient as string));
+    return match ? { event: match.candidate, confidence: 'high', matchedOn: ['amount', 'time', 'recipient'] } : null;
+  }
+
+  const distance = (candidate: BridgeEvent) =>
+    Math.abs(Date.parse(candidate.blockTime as string) - Date.parse(event.blockTime as string));
+  const nearest = pairs.reduce((best, pair) => (distance(pair.candidate) < distance(best.candidate) ? pair : best));
+  return {
+    event: nearest.candidate,
+    confidence: pairs.length === 1 ? 'medium' : 'low',
+    matchedOn: ['amount', 'time']
+  };
+};
+
+const findCandidates = async (event: BridgeEvent, windowMs: number): Promise<BridgeEvent[]> => {
+  const [from, to] = matchWindow(event, windowMs);
+
+  const session = getSession();
+  try {
+    const result = await session.run(
+      `MATCH (c:BridgeEvent {bridge: $bridge, direction: $direction})
+      WHERE c.chain <> $chain
+        AND c.matchedWith IS NULL
+        AND c.blockTime >= $from AND c.blockTime <= $to
+        AND ($targetChain IS NULL OR c.chain = $targetChain)
+        AND ($direction = 'inbound' OR c.targetChain IS NULL OR c.targetChain = $chain)
+      RETURN properties(c) AS event`,
+      {
+        bridge: event.bridge,
+        direction: event.direction === 'outbound' ? 'inbound' : 'outbound',
+        chain: event.chain,
+        targetChain: event.direction === 'outbound' ? event.targetChain : null,
+        from: new Date(from).toISOString(),
+        to: new Date(to).toISOString()
+      }
+    );
+    return result.records.map(record => toEvent(record.get("event")));
+  } catch (error) {
+    throw handleNeo4jError(error, { eventId: event.id });
+  } finally {
+    await session.close();
+  }
+};
+
+const writeHop = async (outbound: BridgeEvent, inbound: BridgeEvent, match: MatchCandidate): Promise<boolean> =>
+  withTransaction(async tx => {
+    const result = await tx.run(
+      `MATCH (o:BridgeEvent {id: $outboundId}), (i:BridgeEvent {id: $inboundId})
+      WHERE o.matchedWith IS NULL AND i.matchedWith IS NULL
+      SET o.matchedWith = i.id, i.matchedWith = o.id
+      MERGE (s:Address {chain: o.chain, address: o.address})
+      ON CREATE SET s.createdAt = $now
+      MERGE (d:Address {chain: i.chain, address: i.address})
+      ON CREATE SET d.createdAt = $now
+      MERGE (s)-[b:BRIDGED_TO {sourceEvent: o.id}]->(d)
+      SET b.bridge = o.bridge,
+          b.destinationEvent = i.id,
+          b.sourceSignature = o.signature,
+          b.destinationSignature = i.signature,
+          b.sourceMint = o.mint,
+          b.destinationMint = i.mint,
+          b.amount = o.amount,
+          b.receivedAmount = i.amount,
+          b.sentAt = o.blockTime,
+          b.receivedAt = i.blockTime,
+          b.confidence = $confidence,
+          b.matchedOn = $matchedOn,
+          b.matchedAt = $now
+      RETURN count(b) AS created`,
+      {
+        outboundId: outbound.id,
+        inboundId: inbound.id,
+        confidence: match.confidence,
+        matchedOn: match.matchedOn,
+        now: new Date().toISOString()
+      }
+    );
+    return (toNumberOrNull(result.records[0]?.get("created")) ?? 0) > 0;
+  });
+
+/**
+ * Matches unmatched bridge transfers of freshly ingested transactions with
+ * their other side, and links the sending and receiving addresses with
+ * BRIDGED_TO edges. Whichever side is ingested second completes the match.
+ * @param chain The chain the transactions were ingested on
+ * @param signatures Signatures or digests of the ingested transactions
+ * @returns Number of crossings matched
+ */
+export const matchBridgeEvents = async (chain: Chain, signatures: string[]): Promise<number> => {
+  if (!signatures.length) return 0;
+
+  const session = getSession();
+  let events: BridgeEvent[];
+  try {
+    const result = await session.run(
+      `UNWIND $signatures AS signature
+      MATCH (:Transaction {signature: signature})-[:EMITTED_BRIDGE_EVENT]->(e:BridgeEvent)
+      WHERE e.matchedWith IS NULL AND e.blockTime IS NOT NULL
+      RETURN properties(e) AS event
+      ORDER BY e.blockTime`,
+      { signatures }
+    );
+    events = result.records.map(record => toEvent(record.get("event")));
+  } catch (error) {
+    throw handleNeo4jError(error, { chain, count: signatures.length });
+  } finally {
+    await session.close();
+  }
+
+  const windowMs = config.blockchain.bridges.matchWindowMinutes * MINUTE_MS;
+  let matched = 0;
+  // One at a time, so two events of the batch never claim the same counterpart
+  for (const event of events) {
+    const match = pickCounterpart(event, await findCandidates(event, windowMs), windowMs);
+    if (!match) continue;
+
+    const [outbound, inbound] = event.direction === 'outbound' ? [event, match.event] : [match.event, event];
+    try {
+      if (await writeHop(outbound, inbound, match)) matched++;
+    } catch (error) {
+      throw handleNeo4jError(error, { outboundId: outbound.id, inboundId: inbound.id });
+    }
+  }
+
+  if (matched) {
+    logger.info("Matched bridge transfers", { chain, matched, candidates: events.length });
+  }
+  return matched;
+};
+
+const ONWARD_FIELDS = `{from: startNode(tr).address, to: endNode(tr).address, mint: tr.mint,
+  amount: tr.amount, signature: tr.signature, blockTime: tr.blockTime}`;
+
+// Outbound crossings continue with transfers out of the destination after
+// arrival; inbound ones with transfers into the source before departure
+const HOP_QUERIES = {
+  outbound: `MATCH (source:Address {chain: $chain, address: $address})-[b:BRIDGED_TO]->(destination:Address)
+    WHERE ($since IS NULL OR b.sentAt >= $since) AND ($until IS NULL OR b.sentAt <= $until)
+    OPTIONAL MATCH (destination)-[tr:TRANSFERRED]->(:Address)
+    WHERE tr.blockTime >= b.receivedAt
+    WITH source, b, destination, tr ORDER BY tr.blockTime
+    WITH source, b, destination, collect(CASE WHEN tr IS NULL THEN null ELSE ${ONWARD_FIELDS} END)[0..$onwardLimit] AS onward
+    RETURN properties(b) AS hop, source.chain AS sourceChain, source.address AS sourceAddress,
+           destination.chain AS destinationChain, destination.address AS destinationAddress, onward`,
+  inbound: `MATCH (source:Address)-[b:BRIDGED_TO]->(destination:Address {chain: $chain, address: $address})
+    WHERE ($since IS NULL OR b.sentAt >= $since) AND ($until IS NULL OR b.sentAt <= $until)
+    OPTIONAL MATCH (:Address)-[tr:TRANSFERRED]->(source)
+    WHERE tr.blockTime <= b.sentAt
+    WITH source, b, destination, tr ORDER BY tr.blockTime DESC
+    WITH source, b, destination, collect(CASE WHEN tr IS NULL THEN null ELSE ${ONWARD_FIELDS} END)[0..$onwardLimit] AS onward
+    RETURN properties(b) AS hop, source.chain AS sourceChain, source.address AS sourceAddress,
+           destination.chain AS destinationChain, destination.address AS destinationAddress, onward`
+};
+
+const toHop = (hop: Record<string, unknown>, record: { get: (key: string) => unknown }): BridgeHop => ({
+  bridge: hop.bridge as string,
+  confidence: hop.confidence as BridgeHop['confidence'],
+  matchedOn: (hop.matchedOn as string[] | null) ?? [],
+  source: {
+    chain: record.get("sourceChain") as Chain,
+    address: record.get("sourceAddress") as string,
+    signature: hop.sourceSignature as string,
+    mint: (hop.sourceMint as string | null) ?? null,
+    amount: (hop.amount as string | null) ?? null,
+    blockTime: (hop.sentAt as string | null) ?? null
+  },
+  destination: {
+    chain: record.get("destinationChain") as Chain,
+    address: record.get("destinationAddress") as string,
+    signature: hop.destinationSignature as string,
+    mint: (hop.destinationMint as string | null) ?? null,
+    amount: (hop.receivedAmount as string | null) ?? null,
+    blockTime: (hop.receivedAt as string | null) ?? null
+  },
+  onward: record.get("onward") as BridgeHop['onward']
+});
+
+/**
+ * Follows funds of an address across bridges: crossings it sent or received,
+ * the transfers that carried the funds further on the far side, and bridge
+ * transfers still waiting for their other side
+ * @param chain The chain the address belongs to
+ * @param address The canonical address
+ * @param options Which crossings to follow, their time range, and how many onward transfers to list
+ * @returns Matched crossings and pending bridge transfers
+ * @throws {McpError} If the address has not been ingested
+ */
+export const traceBridgeFlows = async (
+  chain: Chain,
+  address: string,
+  options: BridgeTraceOptions = {}
+): Promise<BridgeTrace> => {
+  const direction = options.direction ?? 'both';
+  const onwardLimit = options.onwardLimit ?? DEFAULT_ONWARD_LIMIT;
+
+  const session = getSession();
+  try {
+    const root = await session.run(
+      `MATCH (a:Address {chain: $chain, address: $address}) RETURN a.address AS address`,
+      { chain, address }
+    );
+    if (!root.records.length) {
+      throw new McpError(
+        ChainErrorCode.ADDRESS_NOT_FOUND,
+        `Address ${address} on ${chain} has not been ingested`,
+        { chain, address }
+      );
+    }
+
+    const hops: BridgeHop[] = [];
+    for (const way of ['outbound', 'inbound'] as const) {
+      if (direction !== 'both' && direction !== way) continue;
+      const result = await session.run(HOP_QUERIES[way], {
+        chain,
+        address,
+        since: options.since ?? null,
+        until: options.until ?? null,
+        onwardLimit: neo4j.int(onwardLimit)
+      });
+      hops.push(...result.records.map(record => toHop(record.get("hop"), record)));
+    }
+    hops.sort((a, b) => (b.source.blockTime ?? '').localeCompare(a.source.blockTime ?? ''));
+
+    const pendingResult = await session.run(
+      `MATCH (e:BridgeEvent {chain: $chain, address: $address})
+      WHERE e.matchedWith IS NULL
+        AND ($direction = 'both' OR e.direction = $direction)
+        AND ($since IS NULL OR e.blockTime >= $since)
+        AND ($until IS NULL OR e.blockTime <= $until)
+      RETURN properties(e) AS event
+      ORDER BY e.blockTime DESC`,
+      { chain, address, direction, since: options.since ?? null, until: options.until ?? null }
+    );
+    const pending = pendingResult.records.map(record => toEvent(record.get("event")));
+
+    // Names are looked up per chain, since a trace spans both
+    const addresses = new Map<Chain, Set<string>>([[chain, new Set([address])]]);
+    for (const hop of hops) {
+      for (const side of [hop.source, hop.destination]) {
+        addresses.set(side.chain, (addresses.get(side.chain) ?? new Set()).add(side.address));
+      }
+      // Onward transfers stay on the far side of the crossing
+      const far = hop.source.address === address && hop.source.chain === chain ? hop.destination.chain : hop.source.chain;
+      hop.onward.forEach(transfer => {
+        addresses.get(far)?.add(transfer.from).add(transfer.to);
+      });
+    }
+    const names: Partial<Record<Chain, AddressNames>> = {};
+    for (const [nameChain, chainAddresses] of addresses) {
+      names[nameChain] = await resolveAddressNames(nameChain, chainAddresses);
+    }
+
+    return { chain, address, hops, pending, names };
+  } catch (error) {
+    if (error instanceof McpError) throw error;
+    throw handleNeo4jError(error, { chain, address });
+  } finally {
+    await session.close();
+  }
+};
@@ -0,0 +1,331 @@
+import { readFileSync } from "fs";
+import { config } from "../../config/index.js";
+import { logger } from "../../utils/logger.js";
+import { decodeBase58, encodeBase58, normalizeChainAddress } from "../../utils/chainAddress.js";
+import { NATIVE_ASSETS } from "./utils.js";
+import {
+  BalanceChange,
+  BridgeAction,
+  BridgeDefinition,
+  BridgeDirection,
+  BridgeEvent,
+  Chain,
+  ParsedSolanaTransaction,
+  ParsedSuiTransaction,
+  SuiMoveCallCommand,
+  SuiTransactionBlockResponse
+} from "./types.js";
+
+const DEFAULT_BRIDGES: BridgeDefinition[] = [
+  {
+    // Portal token bridge: Solana instructions carry a one-byte tag, the Sui
+    // package splits a transfer into prepare_transfer and transfer_tokens
+    name: 'wormhole',
+    transitDecimals: 8,
+    chainIds: { solana: 1, sui: 21 },
+    payload: 'wormhole',
+    solana: {
+      programIds: ['wormDTUJ6AWPNvk59vGQbDvGJmqbDTdgWgAqcLBCgUb'],
+      instructions: {
+        '02': 'unlock',         // complete_native
+        '03': 'mint',           // complete_wrapped
+        '04': 'burn',           // transfer_wrapped
+        '05': 'lock'            // transfer_native
+      }
+    },
+    sui: {
+      packages: ['0x26efee2b51c911237888e5dc6702868abca3c7ac12c53f76ef8eba0697695e3d'],
+      functions: {
+        'transfer_tokens::prepare_transfer': 'outbound',
+        'complete_transfer::authorize_transfer': 'inbound'
+      }
+    }
+  }
+];
+
+const OUTBOUND_ACTIONS = new Set<string>(['lock', 'burn']);
+
+// Argument layout after the instruction tag: nonce u32, amount u64, fee u64,
+// target address [u8; 32], target chain u16, all little-endian
+const WORMHOLE_SOLANA_TRANSFER_BYTES = 1 + 4 + 8 + 8 + 32 + 2;
+
+// prepare_transfer(asset_info, funded, recipient_chain, recipient, relayer_fee, nonce)
+const WORMHOLE_SUI_ARGUMENTS = { recipientChain: 2, recipient: 3, relayerFee: 4 };
+
+interface BridgePayload {
+  amount: string | null;
+  fee: string | null;
+  targetChain: Chain | null;
+  recipient: string | null;
+}
+
+let registry: BridgeDefinition[] | null = null;
+
+const toDefinition = (entry: Partial<BridgeDefinition>): BridgeDefinition => {
+  if (!entry || typeof entry.name !== 'string' || !entry.name) {
+    throw new Error('Every bridge needs a name');
+  }
+  return {
+    name: entry.name,
+    transitDecimals: entry.transitDecimals ?? null,
+    chainIds: entry.chainIds ?? {},
+    payload: entry.payload ?? null,
+    ...(entry.solana ? { solana: entry.solana } : {}),
+    ...(entry.sui
+      ? {
+          sui: {
+            ...entry.sui,
+            packages: entry.sui.packages.map(pkg => normalizeChainAddress('sui', pkg))
+          }
+        }
+      : {})
+  };
+};
+
+const loadRegistry = (): BridgeDefinition[] => {
+  const bridges = new Map(DEFAULT_BRIDGES.map(bridge => [bridge.name, bridge]));
+  const path = config.blockchain.bridges.registryPath;
+  if (!path) return [...bridges.values()];
+
+  try {
+    const entries = JSON.parse(readFileSync(path, 'utf-8'));
+    if (!Array.isArray(entries)) throw new Error('Expected an array of bridge definitions');
+    for (const entry of entries) {
+      const bridge = toDefinition(entry);
+      bridges.set(bridge.name, bridge);
+    }
+    logger.info("Loaded bridge registry", { path, bridges: [...bridges.keys()] });
+  } catch (error) {
+    // A broken registry file should not stop ingestion; the built-in bridges still apply
+    logger.error("Failed to load bridge registry, using built-in bridges only", { path, error });
+    return DEFAULT_BRIDGES;
+  }
+  return [...bridges.values()];
+};
+
+/**
+ * Lists the bridges decoded during ingestion: the built-in definitions,
+ * extended or overridden by name from BRIDGE_REGISTRY_PATH
+ * @returns Bridge definitions
+ */
+export const getBridgeRegistry = (): BridgeDefinition[] => {
+  registry ??= loadRegistry();
+  return registry;
+};
+
+const toDirection = (selector: BridgeAction | BridgeDirection): { direction: BridgeDirection; action: BridgeAction | null } =>
+  selector === 'outbound' || selector === 'inbound'
+    ? { direction: selector, action: null }
+    : { direction: OUTBOUND_ACTIONS.has(selector) ? 'outbound' : 'inbound', action: selector };
+
+const chainForId = (bridge: BridgeDefinition, id: number): Chain | null =>
+  (Object.entries(bridge.chainIds).find(([, chainId]) => chainId === id)?.[0] as Chain | undefined) ?? null;
+
+const formatRecipient = (chain: Chain | null, bytes: Uint8Array): string | null => {
+  if (!chain || bytes.length !== 32) return null;
+  return chain === 'sui'
+    ? normalizeChainAddress('sui', `0x${Buffer.from(bytes).toString('hex')}`)
+    : encodeBase58(bytes);
+};
+
+/**
+ * Truncates an amount to the precision a bridge carries it at, so amounts
+ * in tokens of different decimals compare on both sides of a crossing.
+ * Amounts of unknown decimals are assumed to be at transit precision already.
+ */
+export const normalizeBridgeAmount = (
+  amount: string | null,
+  decimals: number | null,
+  transitDecimals: number | null
+): string | null => {
+  if (amount === null) return null;
+  if (transitDecimals === null || decimals === null || decimals <= transitDecimals) return amount;
+  return (BigInt(amount) / BigInt(10) ** BigInt(decimals - transitDecimals)).toString();
+};
+
+/**
+ * Finds the balance change a bridge transfer moved: the largest outgoing (or
+ * incoming) token change, or the native asset when no token moved. The fee
+ * payer's native change is taken net of the transaction fee.
+ */
+const movedBalance = (
+  changes: BalanceChange[],
+  direction: BridgeDirection,
+  chain: Chain,
+  feePayer: string,
+  fee: string
+): { address: string; mint: string; amount: string; decimals: number | null } | null => {
+  const native = NATIVE_ASSETS[chain].mint;
+  const sign = direction === 'outbound' ? BigInt(-1) : BigInt(1);
+  const moved = changes
+    .map(change => {
+      const delta = BigInt(change.delta) + (change.mint === native && change.address === feePayer ? BigInt(fee) : BigInt(0));
+      return { change, amount: delta * sign };
+    })
+    .filter(entry => entry.amount > BigInt(0));
+
+  const tokens = moved.filter(entry => entry.change.mint !== native);
+  const pool = tokens.length ? tokens : moved;
+  if (!pool.length) return null;
+
+  const largest = pool.reduce((best, entry) => (entry.amount > best.amount ? entry : best));
+  return {
+    address: largest.change.address,
+    mint: largest.change.mint,
+    amount: largest.amount.toString(),
+    decimals: largest.change.decimals
+  };
+};
+
+const decodeWormholeSolanaTransfer = (bridge: BridgeDefinition, data: Uint8Array): BridgePayload | null => {
+  if (data.length < WORMHOLE_SOLANA_TRANSFER_BYTES) return null;
+  const view = Buffer.from(data);
+  const targetChain = chainForId(bridge, view.readUInt16LE(1 + 4 + 8 + 8 + 32));
+  return {
+    amount: view.readBigUInt64LE(1 + 4).toString(),
+    fee: view.readBigUInt64LE(1 + 4 + 8).toString(),
+    targetChain,
+    recipient: formatRecipient(targetChain, data.subarray(1 + 4 + 8 + 8, 1 + 4 + 8 + 8 + 32))
+  };
+};
+
+const toEvent = (
+  bridge: BridgeDefinition,
+  chain: Chain,
+  signature: string,
+  position: string,
+  blockTime: string | null,
+  selector: BridgeAction | BridgeDirection,
+  moved: ReturnType<typeof movedBalance>,
+  payload: BridgePayload | null,
+  receivers: string[]
+): BridgeEvent | null => {
+  if (!moved) return null;
+  const { direction, action } = toDirection(selector);
+  // The payload amount is what the bridge carries; balances may include dust returned to the sender
+  const amount = payload?.amount ?? moved.amount;
+  return {
+    id: `${bridge.name}:${signature}:${position}`,
+    bridge: bridge.name,
+    chain,
+    signature,
+    position,
+    direction,
+    action,
+    address: moved.address,
+    mint: moved.mint,
+    amount,
+    decimals: moved.decimals,
+    normalizedAmount: normalizeBridgeAmount(amount, moved.decimals, bridge.transitDecimals),
+    fee: payload?.fee ?? null,
+    blockTime,
+    targetChain: payload?.targetChain ?? null,
+    recipient: payload?.recipient ?? null,
+    receivers: direction === 'inbound' ? [...new Set([moved.address, ...receivers])] : []
+  };
+};
+
+/**
+ * Decodes bridge transfers from a parsed Solana transaction: instructions of
+ * a registered bridge program whose data starts with a registered prefix.
+ * Inner instructions count, so transfers routed through other programs are found.
+ * @param parsed The parsed transaction
+ * @returns One event per matching instruction; none for failed transactions
+ */
+export const decodeSolanaBridgeEvents = (parsed: Omit<ParsedSolanaTransaction, 'bridgeEvents'>): BridgeEvent[] => {
+  const { transaction, instructions, balanceChanges } = parsed;
+  if (!transaction.success) return [];
+  const bridges = getBridgeRegistry().filter(bridge => bridge.solana);
+
+  return instructions.flatMap(ix => {
+    const bridge = bridges.find(candidate => candidate.solana!.programIds.includes(ix.programId));
+    if (!bridge) return [];
+    const data = decodeBase58(ix.data);
+    if (!data || !data.length) return [];
+
+    const hex = Buffer.from(data).toString('hex');
+    const prefix = Object.keys(bridge.solana!.instructions).find(key => hex.startsWith(key.toLowerCase()));
+    if (!prefix) return [];
+
+    const selector = bridge.solana!.instructions[prefix];
+    const { direction } = toDirection(selector);
+    const payload = direction === 'outbound' && bridge.payload === 'wormhole'
+      ? decodeWormholeSolanaTransfer(bridge, data)
+      : null;
+    const moved = movedBalance(balanceChanges, direction, 'solana', transaction.feePayer, String(transaction.fee));
+    const event = toEvent(
+      bridge, 'solana', transaction.signature, ix.path, transaction.blockTime, selector, moved, payload,
+      // Payloads name a token account, which appears among the instruction's accounts
+      ix.accounts
+    );
+    return event ? [event] : [];
+  });
+};
+
+// Reads a pure input passed to a Move call argument
+const pureArgument = (raw: SuiTransactionBlockResponse, argument: unknown): unknown => {
+  const ref = argument as { Input?: unknown } | undefined;
+  if (typeof ref?.Input !== 'number') return undefined;
+  const input = raw.transaction?.data.transaction?.inputs?.[ref.Input] as { type?: string; value?: unknown } | undefined;
+  return input?.type === 'pure' ? input.value : undefined;
+};
+
+const toBytes = (value: unknown): Uint8Array | null => {
+  if (Array.isArray(value) && value.every(byte => Number.isInteger(byte))) return Uint8Array.from(value as number[]);
+  if (typeof value === 'string' && /^0x[0-9a-fA-F]*$/.test(value)) return Uint8Array.from(Buffer.from(value.slice(2), 'hex'));
+  return null;
+};
+
+const decodeWormholeSuiTransfer = (
+  bridge: BridgeDefinition,
+  raw: SuiTransactionBlockResponse,
+  call: SuiMoveCallCommand
+): BridgePayload | null => {
+  const args = call.arguments || [];
+  const chainId = Number(pureArgument(raw, args[WORMHOLE_SUI_ARGUMENTS.recipientChain]));
+  if (!Number.isInteger(chainId)) return null;
+  const targetChain = chainForId(bridge, chainId);
+  const recipient = toBytes(pureArgument(raw, args[WORMHOLE_SUI_ARGUMENTS.recipient]));
+  const fee = pureArgument(raw, args[WORMHOLE_SUI_ARGUMENTS.relayerFee]);
+  return {
+    amount: null,
+    fee: typeof fee === 'string' || typeof fee === 'number' ? String(fee) : null,
+    targetChain,
+    recipient: recipient ? formatRecipient(targetChain, recipient) : null
+  };
+};
+
+/**
+ * Decodes bridge transfers from a parsed Sui transaction block: Move calls
+ * to a registered function of a registered bridge package
+ * @param parsed The parsed transaction block
+ * @param raw The raw response, for the pure arguments of outbound calls
+ * @returns One event per matching Move call; none for failed transactions
+ */
+export const decodeSuiBridgeEvents = (
+  parsed: Omit<ParsedSuiTransaction, 'bridgeEvents'>,
+  raw: SuiTransactionBlockResponse
+): BridgeEvent[] => {
+  const { transaction, moveCalls, balanceChanges } = parsed;
+  if (!transaction.success) return [];
+  const bridges = getBridgeRegistry().filter(bridge => bridge.sui);
+  const commands = raw.transaction?.data.transaction?.transactions || [];
+
+  return moveCalls.flatMap(call => {
+    const pkg = normalizeChainAddress('sui', call.package);
+    const bridge = bridges.find(candidate => candidate.sui!.packages.includes(pkg));
+    const selector = bridge?.sui!.functions[`${call.module}::${call.function}`];
+    if (!bridge || !selector) return [];
+
+    const { direction } = toDirection(selector);
+    const command = commands[call.commandIndex]?.MoveCall as SuiMoveCallCommand | undefined;
+    const payload = direction === 'outbound' && bridge.payload === 'wormhole' && command
+      ? decodeWormholeSuiTransfer(bridge, raw, command)
+      : null;
+    const moved = movedBalance(balanceChanges, direction, 'sui', transaction.feePayer, transaction.fee);
+    const event = toEvent(
+      bridge, 'sui', transaction.signature, String(call.commandIndex), transaction.blockTime, selector, moved, payload, []
+    );
+    return event ? [event] : [];
+  });
+};
@@ -0,0 +1,150 @@
+import { Idl, IdlField, IdlInstruction } from "./types.js";
+
+// Native programs are not Anchor programs, but their instruction layouts fit
+// an IDL once discriminators are given explicitly: the System program tags
+// instructions with a u32, the token programs with a single byte.
+
+export const SYSTEM_PROGRAM_ID = '11111111111111111111111111111111';
+export const TOKEN_PROGRAM_ID = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+export const TOKEN_2022_PROGRAM_ID = 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb';
+
+const field = (name: string, type: IdlField['type']): IdlField => ({ name, type });
+
+const systemInstruction = (tag: number, name: string, args: IdlField[] = []): IdlInstruction => ({
+  name,
+  discriminator: [tag, 0, 0, 0],
+  args
+});
+
+const tokenInstruction = (tag: number | number[], name: string, args: IdlField[] = []): IdlInstruction => ({
+  name,
+  discriminator: Array.isArray(tag) ? tag : [tag],
+  args
+});
+
+const SYSTEM_IDL: Idl = {
+  name: 'system',
+  instructions: [
+    systemInstruction(0, 'create_account', [field('lamports', 'u64'), field('space', 'u64'), field('owner', 'pubkey')]),
+    systemInstruction(1, 'assign', [field('owner', 'pubkey')]),
+    systemInstruction(2, 'transfer', [field('lamports', 'u64')]),
+    systemInstruction(3, 'create_account_with_seed', [
+      field('base', 'pubkey'), field('seed', 'bincodeString'), field('lamports', 'u64'),
+      field('space', 'u64'), field('owner', 'pubkey')
+    ]),
+    systemInstruction(4, 'advance_nonce_account'),
+    systemInstruction(5, 'withdraw_nonce_account', [field('lamports', 'u64')]),
+    systemInstruction(6, 'initialize_nonce_account', [field('authorized', 'pubkey')]),
+    systemInstruction(7, 'authorize_nonce_account', [field('authorized', 'pubkey')]),
+    systemInstruction(8, 'allocate', [field('space', 'u64')]),
+    systemInstruction(9, 'allocate_with_seed', [
+      field('base', 'pubkey'), field('seed', 'bincodeString'), field('space', 'u64'), field('owner', 'pubkey')
+    ]),
+    systemInstruction(10, 'assign_with_seed', [field('base', 'pubkey'), field('seed', 'bincodeString'), field('owner', 'pubkey')]),
+    systemInstruction(11, 'transfer_with_seed', [
+      field('lamports', 'u64'), field('from_seed', 'bincodeString'), field('from_owner', 'pubkey')
+    ]),
+    systemInstruction(12, 'upgrade_nonce_account')
+  ]
+};
+
+const TOKEN_INSTRUCTIONS: IdlInstruction[] = [
+  tokenInstruction(0, 'initialize_mint', [
+    field('decimals', 'u8'), field('mint_authority', 'pubkey'), field('freeze_authority', { option: 'pubkey' })
+  ]),
+  tokenInstruction(1, 'initialize_account'),
+  tokenInstruction(2, 'initialize_multisig', [field('m', 'u8')]),
+  tokenInstruction(3, 'transfer', [field('amount', 'u64')]),
+  tokenInstruction(4, 'approve', [field('amount', 'u64')]),
+  tokenInstruction(5, 'revoke'),
+  tokenInstruction(6, 'set_authority', [
+    field('authority_type', { defined: 'AuthorityType' }), field('new_authority', { option: 'pubkey' })
+  ]),
+  tokenInstruction(7, 'mint_to', [field('amount', 'u64')]),
+  tokenInstruction(8, 'burn', [field('amount', 'u64')]),
+  tokenInstruction(9, 'close_account'),
+  tokenInstruction(10, 'freeze_account'),
+  tokenInstruction(11, 'thaw_account'),
+  tokenInstruction(12, 'transfer_checked', [field('amount', 'u64'), field('decimals', 'u8')]),
+  tokenInstruction(13, 'approve_checked', [field('amount', 'u64'), field('decimals', 'u8')]),
+  tokenInstruction(14, 'mint_to_checked', [field('amount', 'u64'), field('decimals', 'u8')]),
+  tokenInstruction(15, 'burn_checked', [field('amount', 'u64'), field('decimals', 'u8')]),
+  tokenInstruction(16, 'initialize_account2', [field('owner', 'pubkey')]),
+  tokenInstruction(17, 'sync_native'),
+  tokenInstruction(18, 'initialize_account3', [field('owner', 'pubkey')]),
+  tokenInstruction(19, 'initialize_multisig2', [field('m', 'u8')]),
+  tokenInstruction(20, 'initialize_mint2', [
+    field('decimals', 'u8'), field('mint_authority', 'pubkey'), field('freeze_authority', { option: 'pubkey' })
+  ]),
+  tokenInstruction(21, 'get_account_data_size'),
+  tokenInstruction(22, 'initialize_immutable_owner'),
+  tokenInstruction(23, 'amount_to_ui_amount', [field('amount', 'u64')]),
+  tokenInstruction(24, 'ui_amount_to_amount')
+];
+
+const AUTHORITY_TYPES = [
+  'MintTokens', 'FreezeAccount', 'AccountOwner', 'CloseAccount',
+  // Token-2022 extension authorities
+  'TransferFeeConfig', 'WithheldWithdraw', 'CloseMint', 'InterestRate', 'PermanentDelegate',
+  'ConfidentialTransferMint', 'TransferHookProgramId', 'ConfidentialTransferFeeConfig',
+  'MetadataPointer', 'GroupPointer', 'GroupMemberPointer'
+];
+
+const TOKEN_TYPES: Idl['types'] = [
+  {
+    name: 'AuthorityType',
+    type: { kind: 'enum', variants: AUTHORITY_TYPES.map(name => ({ name })) }
+  }
+];
+
+const TOKEN_IDL: Idl = {
+  name: 'spl_token',
+  instructions: TOKEN_INSTRUCTIONS,
+  types: TOKEN_TYPES
+};
+
+// Extensions group their instructions under one tag; only the commonly
+// analyzed ones are named down to the sub-instruction
+const TOKEN_2022_IDL: Idl = {
+  name: 'spl_token_2022',
+  instructions: [
+    ...TOKEN_INSTRUCTIONS,
+    tokenInstruction(25, 'initialize_mint_close_authority', [field('close_authority', { option: 'pubkey' })]),
+    tokenInstruction(26, 'transfer_fee_extension'),
+    tokenInstruction([26, 0], 'initialize_transfer_fee_config', [
+      field('transfer_fee_config_authority', { option: 'pubkey' }),
+      field('withdraw_withheld_authority', { option: 'pubkey' }),
+      field('transfer_fee_basis_points', 'u16'),
+      field('maximum_fee', 'u64')
+    ]),
+    tokenInstruction([26, 1], 'transfer_checked_with_fee', [
+      field('amount', 'u64'), field('decimals', 'u8'), field('fee', 'u64')
+    ]),
+    tokenInstruction([26, 2], 'withdraw_withheld_tokens_from_mint'),
+    tokenInstruction([26, 3], 'withdraw_withheld_tokens_from_accounts', [field('num_token_accounts', 'u8')]),
+    tokenInstruction([26, 4], 'harvest_withheld_tokens_to_mint'),
+    tokenInstruction([26, 5], 'set_transfer_fee', [field('transfer_fee_basis_points', 'u16'), field('maximum_fee', 'u64')]),
+    tokenInstruction(27, 'confidential_transfer_extension'),
+    tokenInstruction(28, 'default_account_state_extension'),
+    tokenInstruction(29, 'reallocate'),
+    tokenInstruction(30, 'memo_transfer_extension'),
+    tokenInstruction(31, 'create_native_mint'),
+    tokenInstruction(32, 'initialize_non_transferable_mint'),
+    tokenInstruction(33, 'interest_bearing_mint_extension'),
+    tokenInstruction(34, 'cpi_guard_extension'),
+    tokenInstruction(35, 'initialize_permanent_delegate', [field('delegate', 'pubkey')]),
+    tokenInstruction(36, 'transfer_hook_extension'),
+    tokenInstruction(37, 'confidential_transfer_fee_extension'),
+    tokenInstruction(38, 'withdraw_excess_lamports'),
+    tokenInstruction(39, 'metadata_pointer_extension'),
+    tokenInstruction(40, 'group_pointer_extension'),
+    tokenInstruction(41, 'group_member_pointer_extension')
+  ],
+  types: TOKEN_TYPES
+};
+
+export const BUILTIN_IDLS: Record<string, Idl> = {
+  [SYSTEM_PROGRAM_ID]: SYSTEM_IDL,
+  [TOKEN_PROGRAM_ID]: TOKEN_IDL,
+  [TOKEN_2022_PROGRAM_ID]: TOKEN_2022_IDL
+};
@@ -0,0 +1,180 @@
+import path from "path";
+import { createHash } from "crypto";
+import { promises as fsPromises } from "fs";
+import { config } from "../../config/index.js";
+import { logger } from "../../utils/logger.js";
+import { McpError, ChainErrorCode } from "../../types/errors.js";
+import { callJsonRpc } from "./rpc.js";
+import { Chain, ChainDataProviderKind } from "./types.js";
+
+export const CHAIN_DATA_PROVIDERS = ['rpc', 'fixtures'] as const satisfies readonly ChainDataProviderKind[];
+
+/**
+ * Source of raw chain data. Every chain read in ingestion and analytics goes
+ * through a provider, so the same code runs against live endpoints or
+ * recorded responses.
+ */
+export interface ChainDataProvider {
+  readonly kind: ChainDataProviderKind;
+  /**
+   * Performs a JSON-RPC request against a chain
+   * @param chain The chain to query
+   * @param method The RPC method name
+   * @param params Positional parameters for the method
+   * @returns The `result` member of the response
+   */
+  request<T>(chain: Chain, method: string, params: unknown[]): Promise<T>;
+}
+
+// A recorded request and its result, as written by the rpc provider
+interface RecordedResponse {
+  method: string;
+  params: unknown[];
+  result: unknown;
+}
+
+// Serializes with sorted object keys so equal params always produce the same key
+const canonicalJson = (value: unknown): string => JSON.stringify(value, (_key, v) =>
+  v && typeof v === 'object' && !Array.isArray(v)
+    ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b)))
+    : v
+);
+
+const fixtureKey = (method: string, params: unknown[]) => `${method}:${canonicalJson(params)}`;
+
+const fixtureFileName = (method: string, params: unknown[]) =>
+  `${method}-${createHash('sha256').update(fixtureKey(method, params)).digest('hex').slice(0, 16)}.json`;
+
+const RPC_URLS: Record<Chain, () => string> = {
+  solana: () => config.blockchain.solana.rpcUrl,
+  sui: () => config.blockchain.sui.rpcUrl
+};
+
+/**
+ * Calls the configured RPC endpoint of each chain. When a record directory is
+ * set, every response is also written there in the layout the fixtures
+ * provider reads.
+ */
+export class RpcChainDataProvider implements ChainDataProvider {
+  public readonly kind = 'rpc' as const;
+
+  constructor(private recordPath: string | null = null) {}
+
+  public async request<T>(chain: Chain, method: string, params: unknown[]): Promise<T> {
+    const result = await callJsonRpc<T>(RPC_URLS[chain](), method, params);
+    if (this.recordPath) {
+      await this.record(chain, { method, params, result });
+    }
+    return result;
+  }
+
+  private async record(chain: Chain, response: RecordedResponse): Promise<void> {
+    const directory = path.join(this.recordPath as string, chain);
+    try {
+      await fsPromises.mkdir(directory, { recursive: true });
+      await fsPromises.writeFile(
+        path.join(directory, fixtureFileName(response.method, response.params)),
+        JSON.stringify(response, null, 2)
+      );
+    } catch (error) {
+      // Recording is best effort and never fails the request
+      logger.warn("Failed to record chain RPC response", { chain, method: response.method, error });
+    }
+  }
+}
+
+/**
+ * Replays recorded JSON-RPC responses from `<directory>/<chain>/`, so
+ * analytics can run without network access. Files are read recursively; each
+ * holds one `{ method, params, result }` object or an array of them, and is
+ * matched on method and parameters regardless of its file name.
+ */
+export class FixtureChainDataProvider implements ChainDataProvider {
+  public readonly kind = 'fixtures' as const;
+  private indexes = new Map<Chain, Promise<Map<string, unknown>>>();
+
+  constructor(private directory: string) {}
+
+  public async request<T>(chain: Chain, method: string, params: unknown[]): Promise<T> {
+    const index = await this.loadIndex(chain);
+    const key = fixtureKey(method, params);
+    if (!index.has(key)) {
+      throw new McpError(
+        ChainErrorCode.SOURCE_NOT_FOUND,
+        `No recorded ${chain} response for ${method} with these parameters`,
+        { chain, method, params, directory: path.join(this.directory, chain) }
+      );
+    }
+    return index.get(key) as T;
+  }
+
+  private loadIndex(chain: Chain): Promise<Map<string, unknown>> {
+    let index = this.indexes.get(chain);
+    if (!index) {
+      index = this.buildIndex(path.join(this.directory, chain));
+      // Drop failed loads so a fixed directory is picked up on the next request
+      index.catch(() => this.indexes.delete(chain));
+      this.indexes.set(chain, index);
+    }
+    return index;
+  }
+
+  private async buildIndex(directory: string): Promise<Map<string, unknown>> {
+    const index = new Map<string, unknown>();
+
+    let entries: string[];
+    try {
+      entries = (await fsPromises.readdir(directory, { recursive: true }))
+        .filter(entry => entry.endsWith('.json'))
+        .sort();
+    } catch (error) {
+      throw new McpError(
+        ChainErrorCode.SOURCE_NOT_FOUND,
+        `Cannot read chain fixtures directory: ${directory}`,
+        { directory }
+      );
+    }
+
+    for (const entry of entries) {
+      const filePath = path.join(directory, entry);
+      let content: unknown;
+      try {
+        content = JSON.parse(await fsPromises.readFile(filePath, 'utf-8'));
+      } catch (error) {
+        throw new McpError(
+          ChainErrorCode.INVALID_TRANSACTION,
+          `Invalid JSON in ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          { filePath }
+        );
+      }
+
+      for (const recorded of (Array.isArray(content) ? content : [content]) as RecordedResponse[]) {
+        if (!recorded || typeof recorded.method !== 'string' || !Array.isArray(recorded.params) || !('result' in recorded)) {
+          logger.warn("Skipping chain fixture without method, params and result", { filePath });
+          continue;
+        }
+        index.set(fixtureKey(recorded.method, recorded.params), recorded.result);
+      }
+    }
+
+    logger.debug("Indexed chain fixtures", { directory, files: entries.length, responses: index.size });
+    return index;
+  }
+}
+
+const providers = new Map<ChainDataProviderKind, ChainDataProvider>();
+
+/**
+ * Gets the chain data provider of a kind, defaulting to the configured one
+ * @param kind 'rpc' or 'fixtures' (default: CHAIN_DATA_PROVIDER)
+ */
+export const getChainDataProvider = (kind: ChainDataProviderKind = config.chainDataProvider): ChainDataProvider => {
+  let provider = providers.get(kind);
+  if (!provider) {
+    provider = kind === 'fixtures'
+      ? new FixtureChainDataProvider(config.chainFixturesPath)
+      : new RpcChainDataProvider(config.chainRecordPath);
+    providers.set(kind, provider);
+  }
+  return provider;
+};
@@ -0,0 +1,361 @@
+import { getSession } from "../driver.js";
+import { McpError, ChainErrorCode } from "../../types/errors.js";
+import { handleNeo4jError } from "../projectService/utils.js";
+import { paginate, toNumberOrNull } from "./utils.js";
+import { resolveAddressNames } from "./entityService.js";
+import {
+  Chain,
+  ContractActivityBucket,
+  ContractAnalyzeOptions,
+  ContractCallNode,
+  ContractCallStat,
+  ContractCaller,
+  ContractCallers,
+  ContractTokenFlow,
+  Paginated
+} from "./types.js";
+
+// How calls into a program or package are reached on each chain
+const CALL_PATTERNS: Record<Chain, { match: string; name: string }> = {
+  solana: {
+    match: `(c:Program {address: $program})<-[:INVOKED]-(call:Instruction)<-[:HAS_INSTRUCTION]-(t:Transaction)`,
+    name: `coalesce(call.discriminator, 'unknown')`
+  },
+  sui: {
+    match: `(c:MovePackage {address: $program})<-[:INVOKED]-(call:MoveCall)<-[:HAS_MOVE_CALL]-(t:Transaction)`,
+    name: `call.module + '::' + call.function`
+  }
+};
+
+const TIME_FILTER = `($since IS NULL OR t.blockTime >= $since)
+  AND ($until IS NULL OR t.blockTime <= $until)`;
+
+const assertContractExists = async (chain: Chain, program: string) => {
+  const session = getSession();
+  try {
+    const label = chain === 'sui' ? 'MovePackage' : 'Program';
+    const result = await session.run(
+      `MATCH (c:${label} {address: $program}) RETURN count(c) AS count`,
+      { program }
+    );
+    if (!toNumberOrNull(result.records[0].get("count"))) {
+      throw new McpError(
+        ChainErrorCode.PROGRAM_NOT_FOUND,
+        `${chain === 'sui' ? 'Move package' : 'Program'} ${program} has not been ingested`,
+        { chain, program }
+      );
+    }
+  } finally {
+    await session.close();
+  }
+};
+
+/**
+ * Counts calls per instruction (Solana) or per module function (Sui)
+ * @param chain The chain of the program or package
+ * @param program The program or package address
+ * @param options Time window and pagination
+ * @returns Call statistics, most called first
+ */
+export const getContractCalls = async (
+  chain: Chain,
+  program: string,
+  options: ContractAnalyzeOptions = {}
+): Promise<Paginated<ContractCallStat>> => {
+  const { page = 1, limit = 20 } = options;
+  await assertContractExists(chain, program);
+
+  const pattern = CALL_PATTERNS[chain];
+  const session = getSession();
+  try {
+    const params = { program, since: options.since ?? null, until: options.until ?? null };
+
+    const result = await session.run(
+      `MATCH ${pattern.match}
+      WHERE ${TIME_FILTER}
+      OPTIONAL MATCH (caller:Address)-[:SENT]->(t)
+      WITH ${pattern.name} AS name,
+           count(DISTINCT call) AS callCount,
+           count(DISTINCT caller) AS uniqueCallers,
+           min(t.blockTime) AS firstSeen,
+           max(t.blockTime) AS lastSeen
+      RETURN name, callCount, uniqueCallers, firstSeen, lastSeen
+      ORDER BY callCount DESC, name ASC
+      SKIP toInteger($skip) LIMIT toInteger($limit)`,
+      { ...params, skip: (page - 1) * limit, limit }
+    );
+
+    const countResult = await session.run(
+      `MATCH ${pattern.match}
+      WHERE ${TIME_FILTER}
+      RETURN count(DISTINCT ${pattern.name}) AS total`,
+      params
+    );
+
+    return {
+      items: result.records.map(record => ({
+        name: record.get("name"),
+        callCount: toNumberOrNull(record.get("callCount")) ?? 0,
+        uniqueCallers: toNumberOrNull(record.get("uniqueCallers")) ?? 0,
+        firstSeen: record.get("firstSeen"),
+        lastSeen: record.get("lastSeen")
+      })),
+      total: toNumberOrNull(countResult.records[0].get("total")) ?? 0,
+      page,
+      limit
+    };
+  } catch (error) {
+    throw handleNeo4jError(error, { chain, program, options });
+  } finally {
+    await session.close();
+  }
+};
+
+/**
+ * Lists the addresses that sign transactions calling a program or package
+ * @param chain The chain of the program or package
+ * @param program The program or package address
+ * @param options Time window and pagination
+ * @returns Callers, most active first, with their labels and entities
+ */
+export const getContractCallers = async (
+  chain: Chain,
+  program: string,
+  options: ContractAnalyzeOptions = {}
+): Promise<ContractCallers> => {
+  const { page = 1, limit = 20 } = options;
+  await assertContractExists(chain, program);
+
+  const pattern = CALL_PATTERNS[chain];
+  const session = getSession();
+  try {
+    const params = { program, since: options.since ?? null, until: options.until ?? null };
+
+    const result = await session.run(
+      `MATCH ${pattern.match}, (caller:Address)-[:SENT]->(t)
+      WHERE ${TIME_FILTER}
+      WITH caller,
+           count(DISTINCT call) AS callCount,
+           count(DISTINCT t) AS transactionCount,
+           min(t.blockTime) AS firstSeen,
+           max(t.blockTime) AS lastSeen
+      RETURN caller.address AS address, callCount, transactionCount, firstSeen, lastSeen
+      ORDER BY callCount DESC, address ASC
+      SKIP toInteger($skip) LIMIT toInteger($limit)`,
+      { ...params, skip: (page - 1) * limit, limit }
+    );
+
+    const countResult = await session.run(
+      `MATCH ${pattern.match}, (caller:Address)-[:SENT]->(t)
+      WHERE ${TIME_FILTER}
+      RETURN count(DISTINCT caller) AS total`,
+      params
+    );
+
+    const items: ContractCaller[] = result.records.map(record => ({
+      address: record.get("address"),
+      callCount: toNumberOrNull(record.get("callCount")) ?? 0,
+      transactionCount: toNumberOrNull(record.get("transactionCount")) ?? 0,
+      firstSeen: record.get("firstSeen"),
+      lastSeen: record.get("lastSeen")
+    }));
+
+    return {
+      items,
+      total: toNumberOrNull(countResult.records[0].get("total")) ?? 0,
+      page,
+      limit,
+      names: await resolveAddressNames(chain, items.map(item => item.address))
+    };
+  } catch (error) {
+    throw handleNeo4jError(error, { chain, program, options });
+  } finally {
+    await session.close();
+  }
+};
+
+/**
+ * Buckets calls and unique callers of a program or package over time
+ * @param chain The chain of the program or package
+ * @param program The program or package address
+ * @param options Time window, bucket interval and pagination
+ * @returns Activity buckets, oldest first
+ */
+export const getContractActivity = async (
+  chain: Chain,
+  program: string,
+  options: ContractAnalyzeOptions = {}
+): Promise<Paginated<ContractActivityBucket>> => {
+  const { page = 1, limit = 20, interval = 'day' } = options;
+  await assertContractExists(chain, program);
+
+  const pattern = CALL_PATTERNS[chain];
+  const session = getSession();
+  try {
+    const result = await session.run(
+      `MATCH ${pattern.match}
+      WHERE t.blockTime IS NOT NULL AND ${TIME_FILTER}
+      WITH call, t, toString(date.truncate($interval, datetime(t.blockTime))) AS period
+      OPTIONAL MATCH (caller:Address)-[:SENT]->(t)
+      WITH period, count(DISTINCT call) AS callCount, collect(DISTINCT caller.address) AS callers
+      RETURN period, callCount, callers
+      ORDER BY period ASC`,
+      { program, interval, since: options.since ?? null, until: options.until ?? null }
+    );
+
+    // New callers depend on every earlier bucket, so paging happens after the walk
+    const seen = new Set<string>();
+    const buckets = result.records.map((record): ContractActivityBucket => {
+      const callers: string[] = record.get("callers");
+      const newCallers = callers.filter(caller => !seen.has(caller));
+      newCallers.forEach(caller => seen.add(caller));
+      return {
+        period: record.get("period"),
+        callCount: toNumberOrNull(record.get("callCount")) ?? 0,
+        uniqueCallers: callers.length,
+        newCallers: newCallers.length
+      };
+    });
+
+    return paginate(buckets, page, limit);
+  } catch (error) {
+    throw handleNeo4jError(error, { chain, program, options });
+  } finally {
+    await session.close();
+  }
+};
+
+/**
+ * Ranks the tokens moved by transactions that call a program or package
+ * @param chain The chain of the program or package
+ * @param program The program or package address
+ * @param options Time window and pagination
+ * @returns Token flows, largest volume first
+ */
+export const getContractTokenFlows = async (
+  chain: Chain,
+  program: string,
+  options: ContractAnalyzeOptions = {}
+): Promise<Paginated<ContractTokenFlow>> => {
+  const { page = 1, limit = 20 } = options;
+  await assertContractExists(chain, program);
+
+  const pattern = CALL_PATTERNS[chain];
+  const session = getSession();
+  try {
+    // Volume counts only inflows so each unit moved is counted once
+    const result = await session.run(
+      `MATCH ${pattern.match}
+      WHERE ${TIME_FILTER}
+      WITH DISTINCT t
+      MATCH (t)-[b:BALANCE_CHANGED]->(:Address)
+      WHERE NOT b.delta STARTS WITH '-'
+      RETURN b.mint AS mint,
+             max(b.decimals) AS decimals,
+             collect(b.delta) AS inflows,
+             count(DISTINCT t) AS transactionCount`,
+      { program, since: options.since ?? null, until: options.until ?? null }
+    );
+
+    const flows = result.records
+      .map(record => ({
+        mint: record.get("mint") as string,
+        decimals: toNumberOrNull(record.get("decimals")),
+        volume: (record.get("inflows") as string[]).reduce((sum, delta) => sum + BigInt(delta), BigInt(0)),
+        transactionCount: toNumberOrNull(record.get("transactionCount")) ?? 0
+      }))
+      .sort((a, b) => (a.volume === b.volume ? a.mint.localeCompare(b.mint) : a.volume > b.volume ? -1 : 1))
+      .map(flow => ({ ...flow, volume: flow.volume.toString() }));
+
+    return paginate(flows, page, limit);
+  } catch (error) {
+    throw handleNeo4jError(error, { chain, program, options });
+  } finally {
+    await session.close();
+  }
+};
+
+/**
+ * Rebuilds the CPI tree (Solana) or Move call list (Sui) of a transaction
+ * @param chain The chain of the transaction
+ * @param signature The transaction signature or digest
+ * @param options Pagination over top-level calls
+ * @returns Top-level calls with nested children
+ * @throws {McpError} If the transaction has not been ingested
+ */
+export const getTransactionCallTree = async (
+  chain: Chain,
+  signature: string,
+  options: ContractAnalyzeOptions = {}
+): Promise<Paginated<ContractCallNode>> => {
+  const { page = 1, limit = 20 } = options;
+  const session = getSession();
+  try {
+    const exists = await session.run(
+      `MATCH (t:Transaction {signature: $signature, chain: $chain}) RETURN count(t) AS count`,
+      { signature, chain }
+    );
+    if (!toNumberOrNull(exists.records[0].get("count"))) {
+      throw new McpError(
+        ChainErrorCode.TRANSACTION_NOT_FOUND,
+        `Transaction ${signature} on ${chain} has not been ingested`,
+        { chain, signature }
+      );
+    }
+
+    if (chain === 'sui') {
+      const result = await session.run(
+        `MATCH (:Transaction {signature: $signature})-[:HAS_MOVE_CALL]->(call:MoveCall)
+        RETURN call.id AS id, call.commandIndex AS commandIndex, call.package AS program,
+               call.module + '::' + call.function AS name
+        ORDER BY call.commandIndex ASC`,
+        { signature }
+      );
+      const calls = result.records.map((record): ContractCallNode => ({
+        id: record.get("id"),
+        path: String(toNumberOrNull(record.get("commandIndex"))),
+        program: record.get("program"),
+        name: record.get("name"),
+        stackHeight: 1,
+        children: []
+      }));
+      return paginate(calls, page, limit);
+    }
+
+    const result = await session.run(
+      `MATCH (:Transaction {signature: $signature})-[:HAS_INSTRUCTION]->(i:Instruction)
+      OPTIONAL MATCH (parent:Instruction)-[:CALLED]->(i)
+      RETURN i.id AS id, i.path AS path, i.programId AS program, i.discriminator AS name,
+             i.stackHeight AS stackHeight, i.index AS index, i.innerIndex AS innerIndex,
+             parent.id AS parentId
+      ORDER BY i.index ASC, coalesce(i.innerIndex, -1) ASC`,
+      { signature }
+    );
+
+    const nodes = new Map<string, ContractCallNode>();
+    const roots: ContractCallNode[] = [];
+    for (const record of result.records) {
+      nodes.set(record.get("id"), {
+        id: record.get("id"),
+        path: record.get("path"),
+        program: record.get("program"),
+        name: record.get("name") ?? null,
+        stackHeight: toNumberOrNull(record.get("stackHeight")) ?? 1,
+        children: []
+      });
+    }
+    for (const record of result.records) {
+      const node = nodes.get(record.get("id")) as ContractCallNode;
+      const parent = record.get("parentId") ? nodes.get(record.get("parentId")) : undefined;
+      if (parent) parent.children.push(node);
+      else roots.push(node);
+    }
+
+    return paginate(roots, page, limit);
+  } catch (error) {
+    if (error instanceof McpError) throw error;
+    throw handleNeo4jError(error, { chain, signature, options });
+  } finally {
+    await session.close();
+  }
+};
@@ -0,0 +1,573 @@
+import neo4j, { ManagedTransaction } from "neo4j-driver";
+import { getSession, withTransaction } from "../driver.js";
+import { McpError, BaseErrorCode, ChainErrorCode } from "../../types/errors.js";
+import { generateCustomId } from "../../utils/idGenerator.js";
+import { handleNeo4jError } from "../projectService/utils.js";
+import { NATIVE_ASSETS, toNumberOrNull } from "./utils.js";
+import {
+  AddressLabel,
+  AddressLabelResult,
+  AddressNames,
+  Chain,
+  ClusterHeuristic,
+  ControlSource,
+  EntityCandidate,
+  EntityClusterOptions,
+  EntityLookupResult,
+  EntityMember,
+  EntityRef,
+  SetAddressLabelInput
+} from "./types.js";
+
+export const CLUSTER_HEURISTICS = ['shared_fee_payer', 'co_signer', 'common_funder'] as const satisfies readonly ClusterHeuristic[];
+
+// Confidence contributed by one transaction of evidence for each heuristic
+const HEURISTIC_WEIGHTS: Record<ClusterHeuristic, number> = {
+  shared_fee_payer: 0.7,
+  co_signer: 0.6,
+  common_funder: 0.5
+};
+
+// Fee payers and funders touching more addresses than this are treated as
+// services (relayers, exchanges, faucets) rather than common owners
+const MAX_CLUSTER_FANOUT = 25;
+const DEFAULT_MIN_CONFIDENCE = 0.5;
+const DEFAULT_CANDIDATE_LIMIT = 50;
+const SAMPLE_SIGNATURES = 3;
+
+interface Evidence {
+  heuristic: ClusterHeuristic;
+  transactions: number;
+  description: string;
+  signatures: string[];
+}
+
+const addEvidence = (found: Map<string, Evidence[]>, address: string, evidence: Evidence) => {
+  found.set(address, [...(found.get(address) ?? []), evidence]);
+};
+
+// Independent pieces of evidence combine as 1 - Π(1 - weight)^transactions
+const combineConfidence = (evidence: Evidence[]): number => {
+  const doubt = evidence.reduce(
+    (product, item) => product * (1 - HEURISTIC_WEIGHTS[item.heuristic]) ** Math.max(item.transactions, 1),
+    1
+  );
+  return Math.round((1 - doubt) * 100) / 100;
+};
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+const toEntityRef = (id: string | null, name: string | null): EntityRef | null =>
+  id && name ? { id, name } : null;
+
+/**
+ * Looks up labels and controlling entities of addresses, for annotating
+ * analytics results
+ * @param chain The chain of the addresses
+ * @param addresses Addresses appearing in a result
+ * @returns Names keyed by address; addresses without a label or entity are omitted
+ */
+export const resolveAddressNames = async (
+  chain: Chain,
+  addresses: Iterable<string>
+): Promise<AddressNames> => {
+  const unique = [...new Set(addresses)];
+  if (!unique.length) return {};
+
+  const session = getSession();
+  try {
+    const result = await session.run(
+      `UNWIND $addresses AS address
+      MATCH (a:Address {chain: $chain, address: address})
+      OPTIONAL MATCH (e:Entity)-[:CONTROLS]->(a)
+      WITH a, e
+      WHERE a.label IS NOT NULL OR e IS NOT NULL
+      RETURN a.address AS address, a.label AS label, e.customId AS entityId, e.name AS entityName`,
+      { chain, addresses: unique }
+    );
+
+    const names: AddressNames = {};
+    for (const record of result.records) {
+      names[record.get("address")] = {
+        label: record.get("label") ?? null,
+        entity: toEntityRef(record.get("entityId"), record.get("entityName"))
+      };
+    }
+    return names;
+  } catch (error) {
+    throw handleNeo4jError(error, { chain, count: unique.length });
+  } finally {
+    await session.close();
+  }
+};
+
+/**
+ * Addresses whose fees were paid by the same account as a seed's, the seed's
+ * own fee payers, and addresses whose fees the seed paid
+ */
+const findSharedFeePayers = async (chain: Chain, seeds: string[], found: Map<string, Evidence[]>) => {
+  const session = getSession();
+  try {
+    const result = await session.run(
+      `UNWIND $seeds AS seed
+      MATCH (s:Address {chain: $chain, address: seed})
+      OPTIONAL MATCH (s)-[:SENT {feePayer: false}]->(:Transaction)<-[:SENT {feePayer: true}]-(p:Address)
+      WITH seed, collect(DISTINCT p) + [s] AS payers
+      UNWIND payers AS payer
+      MATCH (payer)-[:SENT {feePayer: true}]->(t:Transaction)<-[:SENT {feePayer: false}]-(c:Address)
+      WITH seed, payer, c, count(DISTINCT t) AS transactions, collect(DISTINCT t.signature)[..$samples] AS signatures
+      WITH seed, payer, collect({address: c.address, transactions: transactions, signatures: signatures}) AS sponsored
+      WHERE size(sponsored) <= $maxFanout
+      RETURN seed, payer.address AS payer, sponsored`,
+      { chain, seeds, maxFanout: neo4j.int(MAX_CLUSTER_FANOUT), samples: neo4j.int(SAMPLE_SIGNATURES) }
+    );
+
+    for (const record of result.records) {
+      const seed: string = record.get("seed");
+      const payer: string = record.get("payer");
+      const sponsored = (record.get("sponsored") as Array<Record<string, unknown>>).map(entry => ({
+        address: entry.address as string,
+        transactions: toNumberOrNull(entry.transactions) ?? 0,
+        signatures: entry.signatures as string[]
+      }));
+
+      if (payer !== seed) {
+        const paidForSeed = sponsored.find(entry => entry.address === seed);
+        if (paidForSeed) {
+          addEvidence(found, payer, {
+            heuristic: 'shared_fee_payer',
+            transactions: paidForSeed.transactions,
+            description: `paid fees for ${plural(paidForSeed.transactions, 'transaction')} of ${seed}`,
+            signatures: paidForSeed.signatures
+          });
+        }
+      }
+
+      for (const entry of sponsored) {
+        if (entry.address === seed) continue;
+        addEvidence(found, entry.address, payer === seed
+          ? {
+              heuristic: 'shared_fee_payer',
+              transactions: entry.transactions,
+              description: `had fees for ${plural(entry.transactions, 'transaction')} paid by ${seed}`,
+              signatures: entry.signatures
+            }
+          : {
+              // A common sponsor is weaker evidence than direct sponsorship, whatever the volume
+              heuristic: 'shared_fee_payer',
+              transactions: 1,
+              description: `shares fee payer ${payer} with ${seed}`,
+              signatures: entry.signatures
+            });
+      }
+    }
+  } finally {
+    await session.close();
+  }
+};
+
+/**
+ * Addresses that signed the same transactions as a seed, neither paying the
+ * fee. Sponsorship is covered by shared_fee_payer, so this only fires on
+ * transactions with more than one non-paying signer.
+ */
+const findCoSigners = async (chain: Chain, seeds: string[], found: Map<string, Evidence[]>) => {
+  const session = getSession();
+  try {
+    const result = await session.run(
+      `UNWIND $seeds AS seed
+      MATCH (s:Address {chain: $chain, address: seed})-[ss:SENT]->(t:Transaction)<-[cs:SENT]-(c:Address)
+      WHERE c <> s AND NOT ss.feePayer AND NOT cs.feePayer
+      RETURN seed, c.address AS address, count(DISTINCT t) AS transactions,
+             collect(DISTINCT t.signature)[..$samples] AS signatures`,
+      { chain, seeds, samples: neo4j.int(SAMPLE_SIGNATURES) }
+    );
+
+    for (const record of result.records) {
+      const transactions = toNumberOrNull(record.get("transactions")) ?? 0;
+      addEvidence(found, record.get("address"), {
+        heuristic: 'co_signer',
+        transactions,
+        description: `co-signed ${plural(transactions, 'transaction')} with ${record.get("seed")}`,
+        signatures: record.get("signatures")
+      });
+    }
+  } finally {
+    await session.close();
+  }
+};
+
+/**
+ * Addresses whose first native-asset deposit came from the same funder as a
+ * seed's first deposit
+ */
+const findCommonFunders = async (chain: Chain, seeds: string[], found: Map<string, Evidence[]>) => {
+  const session = getSession();
+  try {
+    const result = await session.run(
+      `UNWIND $seeds AS seed
+      MATCH (:Address {chain: $chain, address: seed})<-[tr:TRANSFERRED {mint: $mint}]-(f:Address)
+      WITH seed, tr, f ORDER BY tr.blockTime ASC
+      WITH seed, head(collect(f)) AS f
+      MATCH (f)-[:TRANSFERRED {mint: $mint}]->(c:Address)
+      WITH seed, f, collect(DISTINCT c) AS funded
+      WHERE size(funded) <= $maxFanout
+      UNWIND funded AS c
+      MATCH (c)<-[tr:TRANSFERRED {mint: $mint}]-(g:Address)
+      WITH seed, f, c, tr, g ORDER BY tr.blockTime ASC
+      WITH seed, f, c, head(collect({funder: g.address, signature: tr.signature})) AS first
+      WHERE first.funder = f.address AND c.address <> seed
+      RETURN seed, f.address AS funder, c.address AS address, first.signature AS signature`,
+      { chain, seeds, mint: NATIVE_ASSETS[chain].mint, maxFanout: neo4j.int(MAX_CLUSTER_FANOUT) }
+    );
+
+    for (const record of result.records) {
+      addEvidence(found, record.get("address"), {
+        heuristic: 'common_funder',
+        transactions: 1,
+        description: `first funded by ${record.get("funder")}, like ${record.get("seed")}`,
+        signatures: [record.get("signature")]
+      });
+    }
+  } finally {
+    await session.close();
+  }
+};
+
+const HEURISTIC_FINDERS: Record<ClusterHeuristic, typeof findCoSigners> = {
+  shared_fee_payer: findSharedFeePayers,
+  co_signer: findCoSigners,
+  common_funder: findCommonFunders
+};
+
+/**
+ * Runs clustering heuristics outward from seed addresses on one chain
+ * @returns Candidates not among the seeds, most confident first
+ */
+const findClusterCandidates = async (
+  chain: Chain,
+  seeds: string[],
+  options: EntityClusterOptions = {}
+): Promise<EntityCandidate[]> => {
+  if (!seeds.length) return [];
+
+  const heuristics = options.heuristics ?? [...CLUSTER_HEURISTICS];
+  const minConfidence = options.minConfidence ?? DEFAULT_MIN_CONFIDENCE;
+  const limit = options.limit ?? DEFAULT_CANDIDATE_LIMIT;
+
+  const found = new Map<string, Evidence[]>();
+  for (const heuristic of heuristics) {
+    await HEURISTIC_FINDERS[heuristic](chain, seeds, found);
+  }
+
+  const seedSet = new Set(seeds);
+  const ranked = [...found.entries()]
+    .filter(([address]) => !seedSet.has(address))
+    .map(([address, evidence]) => ({ address, evidence, confidence: combineConfidence(evidence) }))
+    .filter(candidate => candidate.confidence >= minConfidence)
+    .sort((a, b) => b.confidence - a.confidence || a.address.localeCompare(b.address))
+    .slice(0, limit);
+
+  const names = await resolveAddressNames(chain, ranked.map(candidate => candidate.address));
+
+  return ranked.map(candidate => ({
+    chain,
+    address: candidate.address,
+    label: names[candidate.address]?.label ?? null,
+    entity: names[candidate.address]?.entity ?? null,
+    // Strongest first; the first one is recorded as the source when attached
+    heuristics: [...new Set(candidate.evidence.map(item => item.heuristic))]
+      .sort((a, b) => HEURISTIC_WEIGHTS[b] - HEURISTIC_WEIGHTS[a]),
+    confidence: candidate.confidence,
+    evidence: candidate.evidence.map(item => item.description),
+    signatures: [...new Set(candidate.evidence.flatMap(item => item.signatures))].slice(0, SAMPLE_SIGNATURES)
+  }));
+};
+
+/**
+ * Runs heuristics from every address of an entity, grouped by chain
+ */
+const findEntityCandidates = async (
+  members: Array<{ chain: Chain; address: string }>,
+  options: EntityClusterOptions = {}
+): Promise<EntityCandidate[]> => {
+  if (options.limit === 0) return [];
+
+  const byChain = new Map<Chain, string[]>();
+  members.forEach(member => byChain.set(member.chain, [...(byChain.get(member.chain) ?? []), member.address]));
+
+  const candidates: EntityCandidate[] = [];
+  for (const [chain, seeds] of byChain) {
+    candidates.push(...await findClusterCandidates(chain, seeds, options));
+  }
+  return candidates
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, options.limit ?? DEFAULT_CANDIDATE_LIMIT);
+};
+
+const readEntityMembers = async (id: string): Promise<EntityLookupResult['entity']> => {
+  const session = getSession();
+  try {
+    const result = await session.run(
+      `MATCH (e:Entity {customId: $id})
+      OPTIONAL MATCH (e)-[c:CONTROLS]->(a:Address)
+      WITH e, c, a ORDER BY c.confidence DESC, a.address ASC
+      RETURN e.customId AS id, e.name AS name, e.createdAt AS createdAt, e.updatedAt AS updatedAt,
+             collect(a {
+               .chain, .address, .label, category: a.labelCategory,
+               source: c.source, confidence: c.confidence, evidence: c.evidence, addedAt: c.addedAt
+             }) AS members`,
+      { id }
+    );
+    if (!result.records.length) return null;
+
+    const record = result.records[0];
+    return {
+      id: record.get("id"),
+      name: record.get("name"),
+      createdAt: record.get("createdAt"),
+      updatedAt: record.get("updatedAt"),
+      addresses: (record.get("members") as Array<Record<string, unknown>>).map((member): EntityMember => ({
+        chain: member.chain as Chain,
+        address: member.address as string,
+        label: (member.label as string | null) ?? null,
+        category: (member.category as string | null) ?? null,
+        source: member.source as ControlSource,
+        confidence: toNumberOrNull(member.confidence) ?? 0,
+        evidence: (member.evidence as string | null) ?? null,
+        addedAt: member.addedAt as string
+      }))
+    };
+  } finally {
+    await session.close();
+  }
+};
+
+/**
+ * Gets an entity with the addresses it controls, plus addresses the
+ * clustering heuristics suggest it also controls
+ * @param target The entity ID, or an address whose entity to look up
+ * @param options Heuristics to run, confidence floor and candidate limit
+ * @returns The entity (null for an address no entity controls) and candidates
+ * @throws {McpError} If the entity or address does not exist
+ */
+export const lookupEntity = async (
+  target: { entityId: string } | { chain: Chain; address: string },
+  options: EntityClusterOptions = {}
+): Promise<EntityLookupResult> => {
+  try {
+    let entityId: string | null;
+    let seeds: Array<{ chain: Chain; address: string }>;
+
+    if ('entityId' in target) {
+      entityId = target.entityId;
+      seeds = [];
+    } else {
+      const session = getSession();
+      try {
+        const result = await session.run(
+          `MATCH (a:Address {chain: $chain, address: $address})
+          OPTIONAL MATCH (e:Entity)-[:CONTROLS]->(a)
+          RETURN e.customId AS entityId`,
+          target
+        );
+        if (!result.records.length) {
+          throw new McpError(
+            ChainErrorCode.ADDRESS_NOT_FOUND,
+            `Address ${target.address} on ${target.chain} has not been ingested`,
+            target
+          );
+        }
+        entityId = result.records[0].get("entityId");
+      } finally {
+        await session.close();
+      }
+      seeds = [target];
+    }
+
+    const entity = entityId ? await readEntityMembers(entityId) : null;
+    if (entityId && !entity) {
+      throw new McpError(
+        ChainErrorCode.ENTITY_NOT_FOUND,
+        `Entity with ID ${entityId} not found`,
+        { entityId }
+      );
+    }
+
+    return {
+      entity,
+      candidates: await findEntityCandidates(entity ? entity.addresses : seeds, options)
+    };
+  } catch (error) {
+    if (error instanceof McpError) throw error;
+    throw handleNeo4jError(error, { target, options });
+  }
+};
+
+/**
+ * Writes CONTROLS edges from an entity, moving each address away from any
+ * other entity that controlled it
+ */
+const writeControls = async (
+  tx: ManagedTransaction,
+  entityId: string,
+  chain: Chain,
+  members: Array<{ address: string; source: ControlSource; confidence: number; evidence: string | null }>
+): Promise<void> => {
+  await tx.run(
+    `MATCH (e:Entity {customId: $entityId})
+    SET e.updatedAt = $now
+    WITH e
+    UNWIND $members AS member
+    MERGE (a:Address {chain: $chain, address: member.address})
+    ON CREATE SET a.createdAt = $now
+    WITH e, a, member
+    OPTIONAL MATCH (other:Entity)-[old:CONTROLS]->(a)
+    WHERE other <> e
+    DELETE old
+    WITH DISTINCT e, a, member
+    MERGE (e)-[c:CONTROLS]->(a)
+    ON CREATE SET c.addedAt = $now
+    SET c.source = member.source,
+        c.confidence = member.confidence,
+        c.evidence = member.evidence`,
+    { entityId, chain, members, now: new Date().toISOString() }
+  );
+};
+
+/**
+ * Sets the label of an address and the entity controlling it. Optionally
+ * clusters: addresses the heuristics link to the entity with enough
+ * confidence, and that no other entity controls, are attached to it too.
+ * @param input Label, category and entity changes; omitted fields are unchanged
+ * @param cluster Clustering options, or undefined to skip clustering
+ * @returns The updated label and any addresses attached by clustering
+ * @throws {McpError} If the entity does not exist, or clustering is requested
+ *   for an address without an entity
+ */
+export const setAddressLabel = async (
+  input: SetAddressLabelInput,
+  cluster?: EntityClusterOptions
+): Promise<AddressLabelResult> => {
+  const { chain, address } = input;
+
+  try {
+    const label = await withTransaction(async (tx): Promise<AddressLabel> => {
+      const now = new Date().toISOString();
+      await tx.run(
+        `MERGE (a:Address {chain: $chain, address: $address})
+        ON CREATE SET a.createdAt = $now
+        SET a.label = CASE WHEN $setLabel THEN $label ELSE a.label END,
+            a.labelCategory = CASE WHEN $setCategory THEN $category ELSE a.labelCategory END,
+            a.labeledAt = CASE WHEN $setLabel OR $setCategory THEN $now ELSE a.labeledAt END`,
+        {
+          chain,
+          address,
+          now,
+          setLabel: input.label !== undefined,
+          label: input.label ?? null,
+          setCategory: input.category !== undefined,
+          category: input.category ?? null
+        }
+      );
+
+      let entityId: string | null | undefined = input.entityId;
+      if (input.entityName) {
+        const result = await tx.run(
+          `MERGE (e:Entity {name: $name})
+          ON CREATE SET e.customId = $customId, e.createdAt = $now, e.updatedAt = $now
+          RETURN e.customId AS id`,
+          { name: input.entityName, customId: generateCustomId('ENTITY'), now }
+        );
+        entityId = result.records[0].get("id");
+      } else if (entityId) {
+        const result = await tx.run(
+          `MATCH (e:Entity {customId: $entityId}) RETURN count(e) AS count`,
+          { entityId }
+        );
+        if (!toNumberOrNull(result.records[0].get("count"))) {
+          throw new McpError(
+            ChainErrorCode.ENTITY_NOT_FOUND,
+            `Entity with ID ${entityId} not found`,
+            { entityId }
+          );
+        }
+      }
+
+      if (entityId === null) {
+        await tx.run(
+          `MATCH (:Entity)-[c:CONTROLS]->(:Address {chain: $chain, address: $address}) DELETE c`,
+          { chain, address }
+        );
+      } else if (entityId) {
+        await writeControls(tx, entityId, chain, [
+          { address, source: 'manual', confidence: 1, evidence: null }
+        ]);
+      }
+
+      const result = await tx.run(
+        `MATCH (a:Address {chain: $chain, address: $address})
+        OPTIONAL MATCH (e:Entity)-[:CONTROLS]->(a)
+        RETURN a.label AS label, a.labelCategory AS category, a.labeledAt AS labeledAt,
+               e.customId AS entityId, e.name AS entityName`,
+        { chain, address }
+      );
+      const record = result.records[0];
+      const entity = toEntityRef(record.get("entityId"), record.get("entityName"));
+
+      if (cluster && !entity) {
+        throw new McpError(
+          BaseErrorCode.VALIDATION_ERROR,
+          "Clustering needs an entity to attach addresses to; pass 'entityId' or 'entityName'",
+          { chain, address }
+        );
+      }
+
+      return {
+        chain,
+        address,
+        label: record.get("label") ?? null,
+        category: record.get("category") ?? null,
+        labeledAt: record.get("labeledAt") ?? null,
+        entity
+      };
+    });
+
+    if (!cluster || !label.entity) {
+      return { ...label, clustered: [] };
+    }
+
+    const members = await readEntityMembers(label.entity.id);
+    const candidates = await findEntityCandidates(members ? members.addresses : [label], cluster);
+    const unclaimed = candidates.filter(candidate => candidate.entity === null);
+
+    if (unclaimed.length) {
+      const entityId = label.entity.id;
+      await withTransaction(async tx => {
+        for (const chainOfCandidates of new Set(unclaimed.map(candidate => candidate.chain))) {
+          await writeControls(
+            tx,
+            entityId,
+            chainOfCandidates,
+            unclaimed
+              .filter(candidate => candidate.chain === chainOfCandidates)
+              .map(candidate => ({
+                address: candidate.address,
+                source: candidate.heuristics[0],
+                confidence: candidate.confidence,
+                evidence: candidate.evidence.join('; ')
+              }))
+          );
+        }
+      });
+    }
+
+    return {
+      ...label,
+      clustered: unclaimed.map(candidate => ({ ...candidate, entity: label.entity }))
+    };
+  } catch (error) {
+    if (error instanceof McpError) throw error;
+    throw handleNeo4jError(error, { input, cluster });
+  }
+};
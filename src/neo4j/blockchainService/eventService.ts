@@ -0,0 +1,137 @@
+import { getSession } from "../driver.js";
+import { McpError, ChainErrorCode, BaseErrorCode } from "../../types/errors.js";
+import { handleNeo4jError } from "../projectService/utils.js";
+import { normalizeChainAddress } from "../../utils/chainAddress.js";
+import { formatMoveType, moveStructName, parseMoveType } from "./moveAbi.js";
+import { resolveAddressNames } from "./entityService.js";
+import { toNumberOrNull } from "./utils.js";
+import {
+  EventFieldFilter,
+  EventFieldOperator,
+  EventPage,
+  EventQueryOptions,
+  EventRecord,
+  MoveDecoder
+} from "./types.js";
+
+export const EVENT_FIELD_OPERATORS = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte'] as const satisfies readonly EventFieldOperator[];
+
+const UNSIGNED_INTEGER = /^[0-9]+$/;
+
+// Field values are stored as strings, so unsigned integers are ordered by
+// length first and then digit by digit, which keeps 64-bit and wider values exact
+const FIELD_CONDITIONS: Record<EventFieldOperator, (value: string, param: string) => string> = {
+  eq: (value, param) => `${value} = ${param}`,
+  ne: (value, param) => `${value} <> ${param}`,
+  gt: (value, param) => `${value} =~ '[0-9]+' AND (size(${value}) > size(${param}) OR (size(${value}) = size(${param}) AND ${value} > ${param}))`,
+  gte: (value, param) => `${value} =~ '[0-9]+' AND (size(${value}) > size(${param}) OR (size(${value}) = size(${param}) AND ${value} >= ${param}))`,
+  lt: (value, param) => `${value} =~ '[0-9]+' AND (size(${value}) < size(${param}) OR (size(${value}) = size(${param}) AND ${value} < ${param}))`,
+  lte: (value, param) => `${value} =~ '[0-9]+' AND (size(${value}) < size(${param}) OR (size(${value}) = size(${param}) AND ${value} <= ${param}))`
+};
+
+const toEventRecord = (row: Record<string, unknown>): EventRecord => ({
+  id: row.id as string,
+  digest: row.digest as string,
+  eventSeq: toNumberOrNull(row.eventSeq) ?? 0,
+  packageId: row.packageId as string,
+  module: row.module as string,
+  sender: row.sender as string,
+  type: row.type as string,
+  blockTime: (row.blockTime as string | null) ?? null,
+  checkpoint: toNumberOrNull(row.checkpoint),
+  fields: row.fields ? JSON.parse(row.fields as string) : null,
+  fieldTypes: row.fieldTypes ? JSON.parse(row.fieldTypes as string) : null,
+  decoder: (row.decoder as MoveDecoder | null) ?? null
+});
+
+// Filters on a full type (with type arguments) match exactly; filters on a
+// bare struct type match every instantiation
+const typeCondition = (type: string): { condition: string; value: string } => {
+  try {
+    return type.includes('<')
+      ? { condition: 'e.type = $type', value: formatMoveType(parseMoveType(type)) }
+      : { condition: 'e.structType = $type', value: moveStructName(type) };
+  } catch (error) {
+    throw new McpError(
+      ChainErrorCode.INVALID_MOVE_TYPE,
+      `Invalid event struct type: ${error instanceof Error ? error.message : type}`,
+      { type }
+    );
+  }
+};
+
+// Addresses are stored in full length, so short forms are padded like everywhere else
+const filterValue = (filter: EventFieldFilter): string => {
+  const value = String(filter.value);
+  if (filter.op !== 'eq' && filter.op !== 'ne') {
+    if (!UNSIGNED_INTEGER.test(value)) {
+      throw new McpError(
+        BaseErrorCode.VALIDATION_ERROR,
+        `Field ${filter.field}: ${filter.op} compares unsigned integers, got ${value}`,
+        { filter }
+      );
+    }
+    return value.replace(/^0+(?=\d)/, '');
+  }
+  return /^0x[0-9a-fA-F]{1,64}$/.test(value) ? normalizeChainAddress('sui', value) : value;
+};
+
+/**
+ * Lists Sui events of one struct type, filtered on their decoded field values.
+ * Only top-level fields holding a single value can be filtered on.
+ * @param options Struct type, field filters, sender, time range and page
+ * @returns One page of events, newest first, with the names of their senders
+ * @throws {McpError} If the type cannot be parsed or an ordering filter is not an unsigned integer
+ */
+export const queryEvents = async (options: EventQueryOptions): Promise<EventPage> => {
+  const { page = 1, limit = 20 } = options;
+  const type = typeCondition(options.type);
+  const filters = (options.fields ?? []).map(filter => ({ key: `field.${filter.field}`, value: filterValue(filter) }));
+  const fieldConditions = (options.fields ?? []).map((filter, i) =>
+    FIELD_CONDITIONS[filter.op](`toStringOrNull(e[$filters[${i}].key])`, `$filters[${i}].value`)
+  );
+
+  const match = `MATCH (e:Event)
+      WHERE ${type.condition}
+        AND ($sender IS NULL OR e.sender = $sender)
+        AND ($since IS NULL OR e.blockTime >= $since)
+        AND ($until IS NULL OR e.blockTime <= $until)${fieldConditions.map(condition => `
+        AND ${condition}`).join('')}`;
+  const params = {
+    type: type.value,
+    sender: options.sender ? normalizeChainAddress('sui', options.sender) : null,
+    since: options.since ?? null,
+    until: options.until ?? null,
+    filters
+  };
+
+  const session = getSession();
+  try {
+    const result = await session.run(
+      `${match}
+      RETURN e {
+        .id, .digest, .eventSeq, .packageId, .module, .sender, .type,
+        .blockTime, .checkpoint, .fields, .fieldTypes, .decoder
+      } AS event
+      ORDER BY e.blockTime DESC, e.id ASC
+      SKIP toInteger($skip) LIMIT toInteger($limit)`,
+      { ...params, skip: (page - 1) * limit, limit }
+    );
+
+    const countResult = await session.run(`${match} RETURN count(e) AS total`, params);
+
+    const items = result.records.map(record => toEventRecord(record.get("event")));
+    return {
+      items,
+      total: toNumberOrNull(countResult.records[0].get("total")) ?? 0,
+      page,
+      limit,
+      names: await resolveAddressNames('sui', items.map(item => item.sender))
+    };
+  } catch (error) {
+    if (error instanceof McpError) throw error;
+    throw handleNeo4jError(error, { options });
+  } finally {
+    await session.close();
+  }
+};
@@ -0,0 +1,230 @@
+import { createHash } from "crypto";
+import neo4j from "neo4j-driver";
+import { getSession, withTransaction } from "../driver.js";
+import { logger } from "../../utils/logger.js";
+import { McpError, ProjectErrorCode } from "../../types/errors.js";
+import { generateCustomId } from "../../utils/idGenerator.js";
+import { handleNeo4jError } from "../projectService/utils.js";
+import { getProjectById } from "../projectService/projectCore.js";
+import { neighbourhoodHops, runDetector } from "./patternDetectors.js";
+import { toNumberOrNull } from "./utils.js";
+import { resolveAddressNames } from "./entityService.js";
+import {
+  Chain,
+  DetectedPattern,
+  DetectorRequest,
+  Finding,
+  PatternDetectOptions,
+  PatternDetectResult,
+  TransferFilters,
+  TransferRecord
+} from "./types.js";
+
+// Most recent transfers loaded into memory for a detection run
+const DETECTION_SCAN_LIMIT = 20000;
+const DEFAULT_FINDING_LIMIT = 20;
+
+/**
+ * Loads the most recent TRANSFERRED edges on a chain matching the filters.
+ * With an address, only the transfers into it and those sent by addresses it
+ * reaches within `hops` matching transfers are loaded.
+ * @param hops How far out from the address to follow transfers
+ * @returns The transfers and whether the scan limit was reached
+ */
+export const loadTransfers = async (
+  chain: Chain,
+  filters: TransferFilters = {},
+  scanLimit: number = DETECTION_SCAN_LIMIT,
+  hops: number = 0
+): Promise<{ transfers: TransferRecord[]; truncated: boolean }> => {
+  const matching = (tr: string) => `($mint IS NULL OR ${tr}.mint = $mint)
+        AND ($since IS NULL OR ${tr}.blockTime >= $since)
+        AND ($until IS NULL OR ${tr}.blockTime <= $until)`;
+
+  // The hop bound cannot be parameterized in Cypher; hops is a small integer
+  const source = filters.address
+    ? `MATCH (focus:Address {chain: $chain, address: $address})
+      CALL {
+        WITH focus
+        MATCH path = (focus)-[:TRANSFERRED*0..${Math.trunc(hops)}]->(sender:Address)
+        WHERE all(r IN relationships(path) WHERE ${matching('r')})
+        WITH DISTINCT sender
+        MATCH (sender)-[tr:TRANSFERRED]->(to:Address)
+        RETURN sender AS from, tr, to
+        UNION
+        WITH focus
+        MATCH (from:Address)-[tr:TRANSFERRED]->(focus)
+        RETURN from, tr, focus AS to
+      }
+      WITH from, tr, to`
+    : `MATCH (from:Address {chain: $chain})-[tr:TRANSFERRED]->(to:Address)`;
+
+  const session = getSession();
+  try {
+    const result = await session.run(
+      `${source}
+      WHERE ${matching('tr')}
+      RETURN from.address AS from, to.address AS to, tr.mint AS mint, tr.amount AS amount,
+             tr.decimals AS decimals, tr.signature AS signature, tr.blockTime AS blockTime
+      ORDER BY tr.blockTime DESC
+      LIMIT $limit`,
+      {
+        chain,
+        address: filters.address ?? null,
+        mint: filters.mint ?? null,
+        since: filters.since ?? null,
+        until: filters.until ?? null,
+        limit: neo4j.int(scanLimit + 1)
+      }
+    );
+
+    const transfers = result.records.slice(0, scanLimit).map(record => ({
+      from: record.get("from"),
+      to: record.get("to"),
+      mint: record.get("mint"),
+      amount: BigInt(record.get("amount")),
+      decimals: toNumberOrNull(record.get("decimals")),
+      signature: record.get("signature"),
+      blockTime: record.get("blockTime")
+    }));
+
+    return { transfers, truncated: result.records.length > scanLimit };
+  } catch (error) {
+    throw handleNeo4jError(error, { chain, filters });
+  } finally {
+    await session.close();
+  }
+};
+
+// Same pattern over the same addresses and transactions always maps to the same finding
+const fingerprintPattern = (chain: Chain, pattern: DetectedPattern): string =>
+  createHash('sha256')
+    .update([
+      chain,
+      pattern.detector,
+      pattern.mint ?? '',
+      pattern.addresses.map(a => a.address).sort().join(','),
+      [...pattern.signatures].sort().join(',')
+    ].join('|'))
+    .digest('hex')
+    .slice(0, 32);
+
+/**
+ * Stores findings as Finding nodes linked to the involved addresses and,
+ * optionally, a project. Re-detected findings are updated in place.
+ * @param findings Findings to store
+ * @param projectId Optional project to attach the findings to
+ * @returns The findings with their custom IDs
+ */
+export const saveFindings = async (findings: Finding[], projectId?: string): Promise<Finding[]> => {
+  if (!findings.length) return findings;
+
+  try {
+    return await withTransaction(async tx => {
+      const now = new Date().toISOString();
+      const result = await tx.run(
+        `UNWIND $findings AS finding
+        MERGE (f:Finding {fingerprint: finding.fingerprint})
+        ON CREATE SET f.customId = finding.customId,
+                      f.status = 'open',
+                      f.createdAt = $now
+        SET f.detector = finding.detector,
+            f.chain = finding.chain,
+            f.mint = finding.mint,
+            f.score = finding.score,
+            f.summary = finding.summary,
+            f.signatures = finding.signatures,
+            f.details = finding.details,
+            f.updatedAt = $now
+        FOREACH (involved IN finding.addresses |
+          MERGE (a:Address {chain: finding.chain, address: involved.address})
+          ON CREATE SET a.createdAt = $now
+          MERGE (f)-[r:INVOLVES]->(a)
+          SET r.role = involved.role
+        )
+        WITH f, finding
+        OPTIONAL MATCH (p:Project {customId: $projectId})
+        FOREACH (x IN CASE WHEN p IS NOT NULL THEN [1] ELSE [] END |
+          MERGE (p)-[:HAS_FINDING]->(f)
+        )
+        RETURN finding.fingerprint AS fingerprint, f.customId AS id`,
+        {
+          now,
+          projectId: projectId ?? null,
+          findings: findings.map(finding => ({
+            ...finding,
+            customId: generateCustomId('FINDING'),
+            details: JSON.stringify(finding.details)
+          }))
+        }
+      );
+
+      const ids = new Map<string, string>(
+        result.records.map(record => [record.get("fingerprint"), record.get("id")])
+      );
+      return findings.map(finding => ({ ...finding, id: ids.get(finding.fingerprint) ?? null }));
+    });
+  } catch (error) {
+    throw handleNeo4jError(error, { count: findings.length, projectId });
+  }
+};
+
+/**
+ * Runs the requested detectors over the transfer graph of a chain
+ * @param chain The chain to analyze
+ * @param detectors Detectors and their parameters
+ * @param options Transfer filters, finding limit, persistence and project link
+ * @returns Findings per detector
+ * @throws {McpError} If the project to link does not exist
+ */
+export const detectPatterns = async (
+  chain: Chain,
+  detectors: DetectorRequest[],
+  options: PatternDetectOptions = {}
+): Promise<PatternDetectResult> => {
+  if (options.projectId && !(await getProjectById(options.projectId))) {
+    throw new McpError(
+      ProjectErrorCode.PROJECT_NOT_FOUND,
+      `Project with ID ${options.projectId} not found`
+    );
+  }
+
+  const filters = options.filters ?? {};
+  const limit = options.limit ?? DEFAULT_FINDING_LIMIT;
+  const { transfers, truncated } = await loadTransfers(
+    chain,
+    filters,
+    DETECTION_SCAN_LIMIT,
+    neighbourhoodHops(detectors)
+  );
+
+  logger.info("Running pattern detectors", {
+    chain,
+    detectors: detectors.map(d => d.detector),
+    transferCount: transfers.length,
+    truncated
+  });
+
+  const runs = detectors.map(request => ({
+    detector: request.detector,
+    findings: runDetector(transfers, request, filters.address, limit).map((pattern): Finding => ({
+      ...pattern,
+      id: null,
+      chain,
+      fingerprint: fingerprintPattern(chain, pattern),
+      projectId: options.projectId ?? null
+    }))
+  }));
+
+  const found = runs.flatMap(run => run.findings);
+  const findings = options.persist === false ? found : await saveFindings(found, options.projectId);
+
+  return {
+    chain,
+    scannedTransfers: transfers.length,
+    scanTruncated: truncated,
+    detectors: runs.map(run => ({ detector: run.detector, findingCount: run.findings.length })),
+    findings,
+    names: await resolveAddressNames(chain, findings.flatMap(finding => finding.addresses.map(a => a.address)))
+  };
+};
@@ -0,0 +1,187 @@
+import { createHash } from "crypto";
+import { encodeBase58 } from "../../utils/chainAddress.js";
+import {
+  DecodedInstruction,
+  Idl,
+  IdlField,
+  IdlInstruction,
+  IdlType,
+  IdlTypeDef
+} from "./types.js";
+
+// Anchor derives an instruction's discriminator from its snake_case name
+const ANCHOR_DISCRIMINATOR_BYTES = 8;
+
+export interface CompiledIdl {
+  name: string;
+  instructions: Array<{ name: string; discriminator: Buffer; args: IdlField[] }>;
+  types: Map<string, IdlTypeDef>;
+}
+
+// Reads borsh-encoded values front to back; running past the end throws
+class Reader {
+  private offset = 0;
+
+  constructor(private readonly data: Buffer) {}
+
+  take(length: number): Buffer {
+    if (this.offset + length > this.data.length) {
+      throw new Error(`Data ends after ${this.data.length} bytes`);
+    }
+    const bytes = this.data.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return bytes;
+  }
+}
+
+const toSnakeCase = (name: string): string =>
+  name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+
+const anchorDiscriminator = (name: string): Buffer =>
+  createHash('sha256').update(`global:${toSnakeCase(name)}`).digest().subarray(0, ANCHOR_DISCRIMINATOR_BYTES);
+
+const definedName = (type: { defined: string | { name: string } }): string =>
+  typeof type.defined === 'string' ? type.defined : type.defined.name;
+
+const readInteger = (bytes: Buffer, signed: boolean): string => {
+  let value = BigInt(0);
+  for (let i = bytes.length - 1; i >= 0; i--) value = (value << BigInt(8)) | BigInt(bytes[i]);
+  const bits = BigInt(bytes.length * 8);
+  if (signed && bytes[bytes.length - 1] & 0x80) value -= BigInt(1) << bits;
+  return value.toString();
+};
+
+const readFields = (
+  reader: Reader,
+  fields: Array<IdlField | IdlType> | undefined,
+  types: Map<string, IdlTypeDef>
+): Record<string, unknown> | unknown[] => {
+  if (!fields?.length) return {};
+  // Tuple fields are bare types; named fields carry a name
+  if (fields.every(field => typeof field === 'object' && 'name' in field && 'type' in field)) {
+    return Object.fromEntries((fields as IdlField[]).map(field => [field.name, readValue(reader, field.type, types)]));
+  }
+  return (fields as IdlType[]).map(type => readValue(reader, type, types));
+};
+
+const readValue = (reader: Reader, type: IdlType, types: Map<string, IdlTypeDef>): unknown => {
+  if (typeof type === 'string') {
+    switch (type) {
+      case 'bool': return reader.take(1)[0] !== 0;
+      case 'u8': return reader.take(1).readUInt8();
+      case 'i8': return reader.take(1).readInt8();
+      case 'u16': return reader.take(2).readUInt16LE();
+      case 'i16': return reader.take(2).readInt16LE();
+      case 'u32': return reader.take(4).readUInt32LE();
+      case 'i32': return reader.take(4).readInt32LE();
+      // 64-bit and wider integers are strings, like amounts everywhere else
+      case 'u64': case 'u128': case 'u256':
+        return readInteger(reader.take(Number(type.slice(1)) / 8), false);
+      case 'i64': case 'i128': case 'i256':
+        return readInteger(reader.take(Number(type.slice(1)) / 8), true);
+      case 'f32': return reader.take(4).readFloatLE();
+      case 'f64': return reader.take(8).readDoubleLE();
+      case 'string': return reader.take(reader.take(4).readUInt32LE()).toString('utf-8');
+      // Native programs serialize with bincode, whose lengths are u64
+      case 'bincodeString': return reader.take(Number(reader.take(8).readBigUInt64LE())).toString('utf-8');
+      case 'bytes': return reader.take(reader.take(4).readUInt32LE()).toString('hex');
+      case 'pubkey': case 'publicKey': return encodeBase58(reader.take(32));
+      default: throw new Error(`Unsupported type ${type}`);
+    }
+  }
+  if ('vec' in type) {
+    const length = reader.take(4).readUInt32LE();
+    return Array.from({ length }, () => readValue(reader, type.vec, types));
+  }
+  if ('option' in type) return reader.take(1)[0] ? readValue(reader, type.option, types) : null;
+  if ('coption' in type) return reader.take(4).readUInt32LE() ? readValue(reader, type.coption, types) : null;
+  if ('array' in type) {
+    const [inner, length] = type.array;
+    return Array.from({ length }, () => readValue(reader, inner, types));
+  }
+  if ('defined' in type) {
+    const name = definedName(type);
+    const definition = types.get(name);
+    if (!definition) throw new Error(`Unknown type ${name}`);
+    const body = definition.type;
+    if (body.kind === 'struct') return readFields(reader, body.fields, types);
+    if (body.kind === 'type') return readValue(reader, body.alias, types);
+    const index = reader.take(1)[0];
+    const variant = body.variants[index];
+    if (!variant) throw new Error(`Unknown variant ${index} of ${name}`);
+    return variant.fields?.length ? { [variant.name]: readFields(reader, variant.fields, types) } : variant.name;
+  }
+  throw new Error(`Unsupported type ${JSON.stringify(type)}`);
+};
+
+/**
+ * Checks an IDL's shape and prepares it for decoding: discriminators are
+ * taken from the IDL, or derived from instruction names for older IDLs
+ * @param idl The IDL
+ * @param fallbackName Name to use when the IDL has none
+ * @throws {Error} If the IDL is malformed
+ */
+export const compileIdl = (idl: Idl, fallbackName: string): CompiledIdl => {
+  if (!idl || typeof idl !== 'object' || !Array.isArray(idl.instructions)) {
+    throw new Error('IDL must have an instructions array');
+  }
+
+  const instructions = idl.instructions.map((instruction: IdlInstruction, i) => {
+    if (!instruction || typeof instruction.name !== 'string') {
+      throw new Error(`Instruction ${i} has no name`);
+    }
+    if (instruction.args !== undefined && !Array.isArray(instruction.args)) {
+      throw new Error(`Arguments of ${instruction.name} must be an array`);
+    }
+    if (
+      instruction.discriminator !== undefined &&
+      (!Array.isArray(instruction.discriminator) || !instruction.discriminator.length ||
+        !instruction.discriminator.every(byte => Number.isInteger(byte) && byte >= 0 && byte <= 255))
+    ) {
+      throw new Error(`Discriminator of ${instruction.name} must be a non-empty byte array`);
+    }
+    return {
+      name: instruction.name,
+      discriminator: instruction.discriminator
+        ? Buffer.from(instruction.discriminator)
+        : anchorDiscriminator(instruction.name),
+      args: instruction.args ?? []
+    };
+  });
+
+  if (idl.types !== undefined && !Array.isArray(idl.types)) {
+    throw new Error('IDL types must be an array');
+  }
+
+  return {
+    name: idl.metadata?.name ?? idl.name ?? fallbackName,
+    // Longest discriminators first, so sub-instructions win over their group
+    instructions: instructions.sort((a, b) => b.discriminator.length - a.discriminator.length),
+    types: new Map((idl.types ?? []).map(type => [type.name, type]))
+  };
+};
+
+/**
+ * Decodes instruction data through a compiled IDL
+ * @param idl The compiled IDL
+ * @param data Raw instruction data
+ * @returns The instruction name and arguments, with null arguments when the
+ * data does not fit their layout; null if no instruction matches
+ */
+export const decodeWithIdl = (idl: CompiledIdl, data: Uint8Array): DecodedInstruction | null => {
+  const bytes = Buffer.from(data);
+  const instruction = idl.instructions.find(candidate =>
+    bytes.length >= candidate.discriminator.length &&
+    bytes.subarray(0, candidate.discriminator.length).equals(candidate.discriminator)
+  );
+  if (!instruction) return null;
+
+  let args: Record<string, unknown> | null;
+  try {
+    const reader = new Reader(bytes.subarray(instruction.discriminator.length));
+    args = Object.fromEntries(instruction.args.map(arg => [arg.name, readValue(reader, arg.type, idl.types)]));
+  } catch {
+    args = null;
+  }
+  return { decoder: idl.name, name: instruction.name, args };
+};
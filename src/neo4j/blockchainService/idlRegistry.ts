@@ -0,0 +1,239 @@
+import { promises as fsPromises } from "fs";
+import path from "path";
+import { getSession, withTransaction } from "../driver.js";
+import { config } from "../../config/index.js";
+import { logger } from "../../utils/logger.js";
+import { McpError, ChainErrorCode } from "../../types/errors.js";
+import { handleNeo4jError } from "../projectService/utils.js";
+import { decodeBase58, normalizeChainAddress } from "../../utils/chainAddress.js";
+import { BUILTIN_IDLS } from "./builtinIdls.js";
+import { CompiledIdl, compileIdl, decodeWithIdl } from "./idlDecoder.js";
+import {
+  DecodedInstruction,
+  Idl,
+  IdlRegisterResult,
+  IdlSource,
+  ProgramIdl
+} from "./types.js";
+
+const REDECODE_BATCH_SIZE = 1000;
+
+interface RegistryEntry {
+  idl: CompiledIdl;
+  source: IdlSource;
+}
+
+// Built-in decoders are always available; IDLs from the directory and the
+// graph are added once loadIdlRegistry has run
+const registry = new Map<string, RegistryEntry>(
+  Object.entries(BUILTIN_IDLS).map(([programId, idl]) => [programId, { idl: compileIdl(idl, programId), source: 'builtin' }])
+);
+let loading: Promise<void> | null = null;
+
+const idlProgramId = (idl: Idl): string | undefined => idl.address ?? idl.metadata?.address;
+
+const loadDirectory = async (directory: string) => {
+  let files: string[];
+  try {
+    files = (await fsPromises.readdir(directory)).filter(f => f.endsWith('.json')).sort();
+  } catch (error) {
+    logger.warn("Cannot read IDL directory, skipping it", { directory, error });
+    return;
+  }
+
+  for (const file of files) {
+    const filePath = path.join(directory, file);
+    try {
+      const idl = JSON.parse(await fsPromises.readFile(filePath, 'utf-8')) as Idl;
+      const programId = idlProgramId(idl);
+      if (!programId) throw new Error('IDL has no program address (address or metadata.address)');
+      const address = normalizeChainAddress('solana', programId);
+      registry.set(address, { idl: compileIdl(idl, path.basename(file, '.json')), source: 'directory' });
+    } catch (error) {
+      // One bad file should not keep the other IDLs from loading
+      logger.warn("Skipping invalid IDL file", {
+        filePath,
+        error: error instanceof Error ? error.message : error
+      });
+    }
+  }
+};
+
+const loadRegistered = async () => {
+  const session = getSession();
+  try {
+    const result = await session.run(
+      `MATCH (p:Program) WHERE p.idl IS NOT NULL
+      RETURN p.address AS programId, p.idl AS idl`
+    );
+    for (const record of result.records) {
+      const programId = record.get("programId") as string;
+      try {
+        registry.set(programId, { idl: compileIdl(JSON.parse(record.get("idl")), programId), source: 'registered' });
+      } catch (error) {
+        logger.warn("Skipping invalid registered IDL", { programId, error });
+      }
+    }
+  } catch (error) {
+    throw handleNeo4jError(error, {});
+  } finally {
+    await session.close();
+  }
+};
+
+/**
+ * Loads IDLs from ATLAS_IDL_PATH and those registered at runtime, on top of
+ * the built-in decoders. Runs once; later calls wait for the first load.
+ * Registered IDLs win over directory files for the same program.
+ */
+export const loadIdlRegistry = (): Promise<void> => {
+  loading ??= (async () => {
+    if (config.blockchain.idl.directory) await loadDirectory(config.blockchain.idl.directory);
+    await loadRegistered();
+    logger.info("Loaded IDL registry", { programCount: registry.size });
+  })().catch(error => {
+    // Allow a later ingestion to try again
+    loading = null;
+    throw error;
+  });
+  return loading;
+};
+
+/**
+ * Decodes instruction data through the IDL registered for its program
+ * @param programId The program the instruction invokes
+ * @param data Base58 instruction data as stored on Instruction nodes
+ * @returns The decoded instruction, or null if the program has no IDL or no
+ * instruction of it matches
+ */
+export const decodeInstruction = (programId: string, data: string): DecodedInstruction | null => {
+  const entry = registry.get(programId);
+  if (!entry || !data) return null;
+  const bytes = decodeBase58(data);
+  return bytes && bytes.length ? decodeWithIdl(entry.idl, bytes) : null;
+};
+
+/**
+ * Lists the programs instructions can be decoded for
+ * @returns Programs with the name and origin of their IDL
+ */
+export const listProgramIdls = (): ProgramIdl[] =>
+  [...registry.entries()].map(([programId, entry]) => ({
+    programId,
+    name: entry.idl.name,
+    source: entry.source,
+    instructionCount: entry.idl.instructions.length
+  }));
+
+const redecodeInstructions = async (programId: string): Promise<number> => {
+  let after = '';
+  let redecoded = 0;
+
+  for (;;) {
+    const session = getSession();
+    let rows: Array<{ id: string; data: string }>;
+    try {
+      const result = await session.run(
+        `MATCH (i:Instruction {programId: $programId})
+        WHERE i.id > $after
+        RETURN i.id AS id, i.data AS data
+        ORDER BY i.id
+        LIMIT toInteger($limit)`,
+        { programId, after, limit: REDECODE_BATCH_SIZE }
+      );
+      rows = result.records.map(record => ({ id: record.get("id"), data: record.get("data") }));
+    } finally {
+      await session.close();
+    }
+    if (!rows.length) return redecoded;
+
+    const decoded = rows.map(row => {
+      const instruction = decodeInstruction(programId, row.data);
+      return {
+        id: row.id,
+        name: instruction?.name ?? null,
+        args: instruction?.args ? JSON.stringify(instruction.args) : null,
+        decoder: instruction?.decoder ?? null
+      };
+    });
+    await withTransaction(async tx => {
+      await tx.run(
+        `UNWIND $rows AS row
+        MATCH (i:Instruction {id: row.id})
+        SET i.name = row.name, i.args = row.args, i.decoder = row.decoder`,
+        { rows: decoded }
+      );
+    });
+
+    redecoded += rows.length;
+    after = rows[rows.length - 1].id;
+  }
+};
+
+/**
+ * Registers an Anchor IDL for a program at runtime. The IDL is stored on the
+ * Program node, so it survives restarts, and is used for every instruction
+ * ingested afterwards.
+ * @param idl The IDL
+ * @param options Program to register it for when the IDL does not name one,
+ *   and whether to decode the program's already stored instructions again
+ * @returns The registration, with how many stored instructions were decoded again
+ * @throws {McpError} If the IDL is malformed or names no valid program
+ */
+export const registerIdl = async (
+  idl: Idl,
+  options: { programId?: string; redecode?: boolean } = {}
+): Promise<IdlRegisterResult> => {
+  const programRef = options.programId ?? idlProgramId(idl);
+  if (!programRef) {
+    throw new McpError(
+      ChainErrorCode.INVALID_IDL,
+      'The IDL names no program address (address or metadata.address); pass programId'
+    );
+  }
+  const programId = normalizeChainAddress('solana', programRef);
+
+  let compiled: CompiledIdl;
+  try {
+    compiled = compileIdl(idl, programId);
+  } catch (error) {
+    throw new McpError(
+      ChainErrorCode.INVALID_IDL,
+      `Invalid IDL: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      { programId }
+    );
+  }
+
+  await loadIdlRegistry();
+  const registeredAt = new Date().toISOString();
+
+  try {
+    await withTransaction(async tx => {
+      await tx.run(
+        `MERGE (p:Program {address: $programId})
+        ON CREATE SET p.chain = 'solana',
+                      p.createdAt = $now
+        SET p.idl = $idl,
+            p.idlName = $name,
+            p.idlRegisteredAt = $now`,
+        { programId, idl: JSON.stringify(idl), name: compiled.name, now: registeredAt }
+      );
+    });
+    registry.set(programId, { idl: compiled, source: 'registered' });
+
+    const redecoded = options.redecode === false ? 0 : await redecodeInstructions(programId);
+    logger.info("Registered IDL", { programId, name: compiled.name, redecoded });
+
+    return {
+      programId,
+      name: compiled.name,
+      source: 'registered',
+      instructionCount: compiled.instructions.length,
+      registeredAt,
+      redecoded
+    };
+  } catch (error) {
+    if (error instanceof McpError) throw error;
+    throw handleNeo4jError(error, { programId });
+  }
+};
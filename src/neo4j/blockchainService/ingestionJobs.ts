@@ -0,0 +1,342 @@
+import neo4j from "neo4j-driver";
+import { getSession } from "../driver.js";
+import { config } from "../../config/index.js";
+import { McpError, ChainErrorCode } from "../../types/errors.js";
+import { generateCustomId } from "../../utils/idGenerator.js";
+import { handleNeo4jError } from "../projectService/utils.js";
+import { fetchSolanaSignaturePage, ingestSolanaFromRpc } from "./solanaIngest.js";
+import { fetchSuiDigestPage, ingestSuiFromRpc } from "./suiIngest.js";
+import { ChainDataProvider, getChainDataProvider } from "./chainDataProvider.js";
+import { toNumberOrNull } from "./utils.js";
+import {
+  Chain,
+  ChainDataProviderKind,
+  CreateIngestionJobInput,
+  IngestionBatchResult,
+  IngestionJob,
+  IngestionJobStatus,
+  IngestResult
+} from "./types.js";
+
+const DEFAULT_BATCH_SIZE = 100;
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_MAX_RETRIES = 5;
+const DEFAULT_FOLLOW_SCHEDULE = '*/5 * * * *';
+
+// Largest page getSignaturesForAddress returns
+const SOLANA_SIGNATURE_PAGE_LIMIT = 1000;
+
+const JOB_PROJECTION = `j {
+  .chain, .address, .mode, .status, .provider, .schedule, .batchSize, .concurrency, .maxRetries,
+  .stopAt, .cursorId, .cursorPosition, .processed, .failed, .attempts, .lastError,
+  .createdAt, .updatedAt, .lastRunAt, .completedAt,
+  id: j.customId
+}`;
+
+const toIngestionJob = (row: Record<string, unknown>): IngestionJob => ({
+  id: row.id as string,
+  chain: row.chain as Chain,
+  address: row.address as string,
+  mode: row.mode as IngestionJob['mode'],
+  status: row.status as IngestionJobStatus,
+  provider: (row.provider as ChainDataProviderKind | null) ?? 'rpc',
+  schedule: (row.schedule as string | null) ?? null,
+  batchSize: toNumberOrNull(row.batchSize) ?? DEFAULT_BATCH_SIZE,
+  concurrency: toNumberOrNull(row.concurrency) ?? DEFAULT_CONCURRENCY,
+  maxRetries: toNumberOrNull(row.maxRetries) ?? DEFAULT_MAX_RETRIES,
+  stopAt: (row.stopAt as string | null) ?? null,
+  cursor: {
+    id: (row.cursorId as string | null) ?? null,
+    position: (row.cursorPosition as string | null) ?? null
+  },
+  processed: toNumberOrNull(row.processed) ?? 0,
+  failed: toNumberOrNull(row.failed) ?? 0,
+  attempts: toNumberOrNull(row.attempts) ?? 0,
+  lastError: (row.lastError as string | null) ?? null,
+  createdAt: row.createdAt as string,
+  updatedAt: row.updatedAt as string,
+  lastRunAt: (row.lastRunAt as string | null) ?? null,
+  completedAt: (row.completedAt as string | null) ?? null
+});
+
+/**
+ * Creates an ingestion job with an empty cursor
+ * @param input Chain, address, mode and tuning of the job
+ * @returns The new job, in 'active' status
+ */
+export const createIngestionJob = async (input: CreateIngestionJobInput): Promise<IngestionJob> => {
+  const session = getSession();
+  try {
+    const now = new Date().toISOString();
+    const result = await session.run(
+      `CREATE (j:IngestionJob {
+        customId: $customId,
+        chain: $chain,
+        address: $address,
+        mode: $mode,
+        status: 'active',
+        provider: $provider,
+        schedule: $schedule,
+        batchSize: $batchSize,
+        concurrency: $concurrency,
+        maxRetries: $maxRetries,
+        stopAt: $stopAt,
+        cursorId: null,
+        cursorPosition: null,
+        processed: 0,
+        failed: 0,
+        attempts: 0,
+        createdAt: $now,
+        updatedAt: $now
+      })
+      RETURN ${JOB_PROJECTION} AS job`,
+      {
+        customId: generateCustomId('INGEST_JOB'),
+        chain: input.chain,
+        address: input.address,
+        mode: input.mode,
+        provider: input.provider ?? config.chainDataProvider,
+        schedule: input.mode === 'follow' ? input.schedule ?? DEFAULT_FOLLOW_SCHEDULE : null,
+        batchSize: neo4j.int(input.batchSize ?? DEFAULT_BATCH_SIZE),
+        concurrency: neo4j.int(input.concurrency ?? DEFAULT_CONCURRENCY),
+        maxRetries: neo4j.int(input.maxRetries ?? DEFAULT_MAX_RETRIES),
+        stopAt: input.stopAt ?? null,
+        now
+      }
+    );
+    return toIngestionJob(result.records[0].get("job"));
+  } catch (error) {
+    throw handleNeo4jError(error, { input });
+  } finally {
+    await session.close();
+  }
+};
+
+/**
+ * Retrieves an ingestion job by ID
+ * @returns The job, or null if it does not exist
+ */
+export const getIngestionJob = async (id: string): Promise<IngestionJob | null> => {
+  const session = getSession();
+  try {
+    const result = await session.run(
+      `MATCH (j:IngestionJob {customId: $id}) RETURN ${JOB_PROJECTION} AS job`,
+      { id }
+    );
+    return result.records.length ? toIngestionJob(result.records[0].get("job")) : null;
+  } catch (error) {
+    throw handleNeo4jError(error, { id });
+  } finally {
+    await session.close();
+  }
+};
+
+/**
+ * Lists ingestion jobs, newest first
+ * @param filters Optional status and chain to match
+ */
+export const listIngestionJobs = async (
+  filters: { status?: IngestionJobStatus; chain?: Chain } = {}
+): Promise<IngestionJob[]> => {
+  const session = getSession();
+  try {
+    const result = await session.run(
+      `MATCH (j:IngestionJob)
+      WHERE ($status IS NULL OR j.status = $status)
+        AND ($chain IS NULL OR j.chain = $chain)
+      RETURN ${JOB_PROJECTION} AS job
+      ORDER BY j.createdAt DESC`,
+      { status: filters.status ?? null, chain: filters.chain ?? null }
+    );
+    return result.records.map(record => toIngestionJob(record.get("job")));
+  } catch (error) {
+    throw handleNeo4jError(error, { filters });
+  } finally {
+    await session.close();
+  }
+};
+
+/**
+ * Updates the state of an ingestion job. Counters in `increment` are added to
+ * the stored values rather than replacing them.
+ * @param id The job ID
+ * @param updates Fields to set
+ * @param increment Processed and failed counts to add
+ * @returns The updated job
+ * @throws {McpError} If the job does not exist
+ */
+export const updateIngestionJob = async (
+  id: string,
+  updates: Partial<Pick<IngestionJob, 'status' | 'cursor' | 'attempts' | 'lastError' | 'lastRunAt' | 'completedAt'>>,
+  increment: { processed?: number; failed?: number } = {}
+): Promise<IngestionJob> => {
+  const { cursor, ...rest } = updates;
+  const properties: Record<string, unknown> = {
+    ...rest,
+    ...(rest.attempts !== undefined ? { attempts: neo4j.int(rest.attempts) } : {}),
+    ...(cursor ? { cursorId: cursor.id, cursorPosition: cursor.position } : {}),
+    updatedAt: new Date().toISOString()
+  };
+
+  const session = getSession();
+  try {
+    const result = await session.run(
+      `MATCH (j:IngestionJob {customId: $id})
+      SET j += $properties,
+          j.processed = j.processed + $processed,
+          j.failed = j.failed + $failed
+      RETURN ${JOB_PROJECTION} AS job`,
+      {
+        id,
+        properties,
+        processed: neo4j.int(increment.processed ?? 0),
+        failed: neo4j.int(increment.failed ?? 0)
+      }
+    );
+    if (!result.records.length) {
+      throw new McpError(
+        ChainErrorCode.JOB_NOT_FOUND,
+        `Ingestion job with ID ${id} not found`,
+        { id }
+      );
+    }
+    return toIngestionJob(result.records[0].get("job"));
+  } catch (error) {
+    if (error instanceof McpError) throw error;
+    throw handleNeo4jError(error, { id, updates });
+  } finally {
+    await session.close();
+  }
+};
+
+interface CursorEntry {
+  id: string;
+  position: string | null;
+}
+
+/**
+ * Lists the next batch of Solana signatures for a job, in processing order.
+ * The RPC only pages backwards, so following walks back from the newest
+ * signature to the cursor and keeps the oldest entries.
+ */
+const nextSolanaBatch = async (
+  job: IngestionJob,
+  provider: ChainDataProvider
+): Promise<{ entries: CursorEntry[]; exhausted: boolean }> => {
+  const toEntry = (entry: { signature: string; slot: number }): CursorEntry => ({
+    id: entry.signature,
+    position: String(entry.slot)
+  });
+
+  if (job.mode === 'backfill' || !job.cursor.id) {
+    const page = await fetchSolanaSignaturePage(job.address, {
+      limit: job.batchSize,
+      before: job.mode === 'backfill' ? job.cursor.id ?? undefined : undefined
+    }, provider);
+    // A follow job without a cursor starts from the latest page
+    return job.mode === 'backfill'
+      ? { entries: page.map(toEntry), exhausted: page.length < job.batchSize }
+      : { entries: page.map(toEntry).reverse(), exhausted: true };
+  }
+
+  const newer: CursorEntry[] = [];
+  let before: string | undefined;
+  for (;;) {
+    const page = await fetchSolanaSignaturePage(job.address, {
+      limit: SOLANA_SIGNATURE_PAGE_LIMIT,
+      before,
+      until: job.cursor.id
+    }, provider);
+    newer.push(...page.map(toEntry));
+    if (page.length < SOLANA_SIGNATURE_PAGE_LIMIT) break;
+    before = page[page.length - 1].signature;
+  }
+
+  const chronological = newer.reverse();
+  return {
+    entries: chronological.slice(0, job.batchSize),
+    exhausted: chronological.length <= job.batchSize
+  };
+};
+
+/**
+ * Lists the next batch of Sui digests for a job, in processing order
+ */
+const nextSuiBatch = async (
+  job: IngestionJob,
+  provider: ChainDataProvider
+): Promise<{ entries: CursorEntry[]; exhausted: boolean }> => {
+  // A follow job without a cursor starts from the latest page
+  if (job.mode === 'follow' && !job.cursor.id) {
+    const page = await fetchSuiDigestPage(job.address, { limit: job.batchSize, descending: true }, provider);
+    return {
+      entries: page.entries.map(entry => ({ id: entry.digest, position: entry.checkpoint })).reverse(),
+      exhausted: true
+    };
+  }
+
+  const entries: CursorEntry[] = [];
+  let cursor = job.cursor.id;
+  let hasNextPage = true;
+  while (entries.length < job.batchSize && hasNextPage) {
+    const page = await fetchSuiDigestPage(job.address, {
+      limit: job.batchSize - entries.length,
+      cursor,
+      descending: job.mode === 'backfill'
+    }, provider);
+    entries.push(...page.entries.map(entry => ({ id: entry.digest, position: entry.checkpoint })));
+    hasNextPage = page.hasNextPage && page.nextCursor !== null;
+    cursor = page.nextCursor;
+  }
+  return { entries, exhausted: !hasNextPage };
+};
+
+/**
+ * Fetches and ingests the next batch of a job's transactions, without
+ * touching the stored job. Backfills stop at `stopAt` when it is set.
+ * @param job The job to advance
+ * @returns The cursor after the batch and what was ingested
+ * @throws {McpError} If listing fails, or every transaction in the batch fails
+ */
+export const runIngestionBatch = async (job: IngestionJob): Promise<IngestionBatchResult> => {
+  const provider = getChainDataProvider(job.provider);
+  const batch = job.chain === 'solana'
+    ? await nextSolanaBatch(job, provider)
+    : await nextSuiBatch(job, provider);
+
+  let entries = batch.entries;
+  let done = batch.exhausted;
+  if (job.mode === 'backfill' && job.stopAt !== null) {
+    const stopAt = BigInt(job.stopAt);
+    const kept = entries.filter(entry => entry.position === null || BigInt(entry.position) >= stopAt);
+    done = done || kept.length < entries.length;
+    entries = kept;
+  }
+
+  if (!entries.length) {
+    return { cursor: job.cursor, ingested: 0, failed: 0, lastError: null, done: true };
+  }
+
+  const ids = entries.map(entry => entry.id);
+  const result: IngestResult = job.chain === 'solana'
+    ? await ingestSolanaFromRpc({ signatures: ids, concurrency: job.concurrency, provider })
+    : await ingestSuiFromRpc({ digests: ids, concurrency: job.concurrency, provider });
+
+  // Advancing past a batch that entirely failed would skip it for good
+  if (!result.ingested.length && result.errors.length) {
+    throw new McpError(
+      ChainErrorCode.RPC_ERROR,
+      `All ${result.errors.length} transactions in the batch failed: ${result.errors[0].message}`,
+      { jobId: job.id }
+    );
+  }
+
+  const last = entries[entries.length - 1];
+  return {
+    cursor: { id: last.id, position: last.position },
+    ingested: result.ingested.length,
+    failed: result.errors.length,
+    lastError: result.errors.length ? result.errors[0].message : null,
+    done
+  };
+};
@@ -0,0 +1,454 @@
+import neo4j from "neo4j-driver";
+import { getSession, withTransaction } from "../driver.js";
+import { logger } from "../../utils/logger.js";
+import { handleNeo4jError } from "../projectService/utils.js";
+import { ChainDataProvider, getChainDataProvider } from "./chainDataProvider.js";
+import { toIntegerString, toNumberOrNull } from "./utils.js";
+import {
+  Chain,
+  ChainMetricSeries,
+  MetricBucket,
+  MetricCollectResult,
+  MetricPercentiles,
+  MetricQueryOptions,
+  MetricSource,
+  MetricWindow,
+  MetricWindowPoint,
+  NetworkMetricsResult,
+  SolanaPerformanceSample,
+  SuiCheckpoint
+} from "./types.js";
+
+const MINUTE_MS = 60 * 1000;
+
+const WINDOW_MS: Record<MetricWindow, number> = {
+  '1m': MINUTE_MS,
+  '1h': 60 * MINUTE_MS,
+  '1d': 24 * 60 * MINUTE_MS
+};
+
+// Solana keeps at most 720 performance samples (~12 hours)
+const SOLANA_MAX_SAMPLES = 720;
+const SUI_CHECKPOINT_PAGE_SIZE = 100;
+const DEFAULT_QUERY_RANGE_MS = 24 * 60 * MINUTE_MS;
+
+const floorTo = (ms: number, size: number) => Math.floor(ms / size) * size;
+
+const bucketId = (chain: Chain, source: MetricSource, start: string) => `${chain}:${source}:${start}`;
+
+interface MetricSample {
+  durationSecs: number;
+  txCount: number;
+  failedCount?: number | null;
+  fee?: bigint | null;
+  computeUnits?: bigint | null;
+  position?: string | null;
+}
+
+/**
+ * Adds one sample to the one-minute bucket containing its timestamp
+ */
+const addSample = (
+  buckets: Map<string, MetricBucket>,
+  chain: Chain,
+  source: MetricSource,
+  timeMs: number,
+  sample: MetricSample
+) => {
+  const start = new Date(floorTo(timeMs, MINUTE_MS)).toISOString();
+  const bucket = buckets.get(start) ?? {
+    id: bucketId(chain, source, start),
+    chain,
+    source,
+    start,
+    durationSecs: 0,
+    txCount: 0,
+    failedCount: null,
+    feeTotal: null,
+    computeUnits: null,
+    firstPosition: null,
+    lastPosition: null
+  };
+
+  bucket.durationSecs += sample.durationSecs;
+  bucket.txCount += sample.txCount;
+  if (sample.failedCount != null) bucket.failedCount = (bucket.failedCount ?? 0) + sample.failedCount;
+  if (sample.fee != null) bucket.feeTotal = (BigInt(bucket.feeTotal ?? 0) + sample.fee).toString();
+  if (sample.computeUnits != null) {
+    bucket.computeUnits = (BigInt(bucket.computeUnits ?? 0) + sample.computeUnits).toString();
+  }
+  if (sample.position != null) {
+    const position = BigInt(sample.position);
+    if (bucket.firstPosition === null || position < BigInt(bucket.firstPosition)) bucket.firstPosition = sample.position;
+    if (bucket.lastPosition === null || position > BigInt(bucket.lastPosition)) bucket.lastPosition = sample.position;
+  }
+
+  buckets.set(start, bucket);
+};
+
+const sortedBuckets = (buckets: Map<string, MetricBucket>): MetricBucket[] =>
+  [...buckets.values()].sort((a, b) => a.start.localeCompare(b.start));
+
+/**
+ * Stores metric buckets, replacing any previously collected values for the
+ * same chain, source and minute
+ */
+const saveMetricBuckets = async (buckets: MetricBucket[]): Promise<void> => {
+  if (!buckets.length) return;
+
+  try {
+    await withTransaction(async tx => {
+      await tx.run(
+        `UNWIND $buckets AS bucket
+        MERGE (m:MetricBucket {id: bucket.id})
+        SET m.chain = bucket.chain,
+            m.source = bucket.source,
+            m.start = bucket.start,
+            m.durationSecs = bucket.durationSecs,
+            m.txCount = bucket.txCount,
+            m.failedCount = bucket.failedCount,
+            m.feeTotal = bucket.feeTotal,
+            m.computeUnits = bucket.computeUnits,
+            m.firstPosition = bucket.firstPosition,
+            m.lastPosition = bucket.lastPosition,
+            m.updatedAt = $now`,
+        {
+          now: new Date().toISOString(),
+          buckets: buckets.map(bucket => ({
+            ...bucket,
+            txCount: neo4j.int(bucket.txCount),
+            failedCount: bucket.failedCount === null ? null : neo4j.int(bucket.failedCount)
+          }))
+        }
+      );
+    });
+  } catch (error) {
+    throw handleNeo4jError(error, { count: buckets.length });
+  }
+};
+
+const collectResult = (chain: Chain, source: MetricSource, buckets: MetricBucket[]): MetricCollectResult => ({
+  chain,
+  source,
+  bucketCount: buckets.length,
+  from: buckets.length ? buckets[0].start : null,
+  to: buckets.length ? buckets[buckets.length - 1].start : null
+});
+
+/**
+ * Collects chain-wide throughput from Solana's recent performance samples.
+ * Samples carry no timestamps, so they are placed backwards in time from the
+ * block time of the newest sample's slot. Vote transactions are excluded
+ * where the node reports them separately.
+ * @param limit Number of ~60 second samples to fetch
+ */
+const collectSolanaNetworkMetrics = async (limit: number, provider: ChainDataProvider): Promise<MetricBucket[]> => {
+  const samples = await provider.request<SolanaPerformanceSample[]>(
+    'solana',
+    'getRecentPerformanceSamples',
+    [Math.min(limit, SOLANA_MAX_SAMPLES)]
+  );
+  if (!samples.length) return [];
+
+  const anchorTime = await provider.request<number | null>(
+    'solana',
+    'getBlockTime',
+    [samples[0].slot]
+  );
+
+  const buckets = new Map<string, MetricBucket>();
+  let endMs = anchorTime ? anchorTime * 1000 : Date.now();
+  for (const sample of samples) {
+    const startMs = endMs - sample.samplePeriodSecs * 1000;
+    addSample(buckets, 'solana', 'network', startMs, {
+      durationSecs: sample.samplePeriodSecs,
+      txCount: sample.numNonVoteTransactions ?? sample.numTransactions,
+      position: String(sample.slot)
+    });
+    endMs = startMs;
+  }
+  return sortedBuckets(buckets);
+};
+
+// Net gas of a rolling epoch summary: computation + storage - rebate
+const rollingGas = (checkpoint: SuiCheckpoint): bigint => {
+  const summary = checkpoint.epochRollingGasCostSummary;
+  return BigInt(summary.computationCost) + BigInt(summary.storageCost) - BigInt(summary.storageRebate);
+};
+
+/**
+ * Collects per-checkpoint transaction counts and gas from the most recent Sui
+ * checkpoints. Counts and gas are differences of the network-wide running
+ * totals between consecutive checkpoints; gas totals reset at each epoch.
+ * @param limit Number of checkpoints to fetch
+ */
+const collectSuiNetworkMetrics = async (limit: number, provider: ChainDataProvider): Promise<MetricBucket[]> => {
+  // One extra checkpoint is needed to difference the oldest one
+  const checkpoints: SuiCheckpoint[] = [];
+  let cursor: string | null = null;
+  while (checkpoints.length < limit + 1) {
+    const page: {
+      data: SuiCheckpoint[];
+      nextCursor: string | null;
+      hasNextPage: boolean;
+    } = await provider.request(
+      'sui',
+      'suix_getCheckpoints',
+      [cursor, Math.min(SUI_CHECKPOINT_PAGE_SIZE, limit + 1 - checkpoints.length), true]
+    );
+    checkpoints.push(...page.data);
+    if (!page.hasNextPage || !page.nextCursor) break;
+    cursor = page.nextCursor;
+  }
+
+  const buckets = new Map<string, MetricBucket>();
+  // Checkpoints are newest first; each is paired with the one before it
+  for (let i = 0; i < checkpoints.length - 1; i++) {
+    const current = checkpoints[i];
+    const previous = checkpoints[i + 1];
+    const sameEpoch = current.epoch === previous.epoch;
+    addSample(buckets, 'sui', 'network', Number(current.timestampMs), {
+      durationSecs: (Number(current.timestampMs) - Number(previous.timestampMs)) / 1000,
+      txCount: Number(BigInt(current.networkTotalTransactions) - BigInt(previous.networkTotalTransactions)),
+      fee: sameEpoch ? rollingGas(current) - rollingGas(previous) : rollingGas(current),
+      position: current.sequenceNumber
+    });
+  }
+  return sortedBuckets(buckets);
+};
+
+/**
+ * Collects chain-wide network metrics through a chain data provider and
+ * stores them as one-minute MetricBucket nodes with source 'network'
+ * @param chain The chain to sample
+ * @param limit Number of samples (Solana) or checkpoints (Sui) to fetch
+ * @param provider Provider to read from (default: the configured one)
+ * @returns The number and time range of buckets written
+ * @throws {McpError} If the requests fail
+ */
+export const collectNetworkMetrics = async (
+  chain: Chain,
+  limit: number = 60,
+  provider: ChainDataProvider = getChainDataProvider()
+): Promise<MetricCollectResult> => {
+  logger.info("Collecting network metrics", { chain, limit, provider: provider.kind });
+
+  const buckets = chain === 'solana'
+    ? await collectSolanaNetworkMetrics(limit, provider)
+    : await collectSuiNetworkMetrics(limit, provider);
+
+  await saveMetricBuckets(buckets);
+  return collectResult(chain, 'network', buckets);
+};
+
+/**
+ * Rolls ingested Transaction nodes up into one-minute MetricBucket nodes with
+ * source 'ingested'. The range is widened to whole minutes so that every
+ * bucket it touches is recomputed from all of its transactions.
+ * @param chain The chain to roll up
+ * @param options Time range of transactions to include (defaults to everything)
+ * @returns The number and time range of buckets written
+ */
+export const rollupIngestedMetrics = async (
+  chain: Chain,
+  options: { since?: string; until?: string } = {}
+): Promise<MetricCollectResult> => {
+  const since = options.since ? new Date(floorTo(Date.parse(options.since), MINUTE_MS)).toISOString() : null;
+  const until = options.until
+    ? new Date(floorTo(Date.parse(options.until) + MINUTE_MS - 1, MINUTE_MS)).toISOString()
+    : null;
+
+  const collected = new Map<string, MetricBucket>();
+  const session = getSession();
+  try {
+    const result = await session.run(
+      `MATCH (t:Transaction {chain: $chain})
+      WHERE t.blockTime IS NOT NULL
+        AND ($since IS NULL OR t.blockTime >= $since)
+        AND ($until IS NULL OR t.blockTime < $until)
+      RETURN t.blockTime AS blockTime, t.success AS success, t.fee AS fee,
+             t.computeUnits AS computeUnits, coalesce(t.slot, t.checkpoint) AS position`,
+      { chain, since, until }
+    );
+
+    for (const record of result.records) {
+      const fee = toIntegerString(record.get("fee"));
+      const computeUnits = toIntegerString(record.get("computeUnits"));
+      addSample(collected, chain, 'ingested', Date.parse(record.get("blockTime")), {
+        durationSecs: 0,
+        txCount: 1,
+        failedCount: record.get("success") === false ? 1 : 0,
+        fee: fee === null ? null : BigInt(fee),
+        computeUnits: computeUnits === null ? null : BigInt(computeUnits),
+        position: toIntegerString(record.get("position"))
+      });
+    }
+  } catch (error) {
+    throw handleNeo4jError(error, { chain, options });
+  } finally {
+    await session.close();
+  }
+
+  // Ingested buckets always span their full minute
+  const buckets = sortedBuckets(collected).map(bucket => ({ ...bucket, durationSecs: MINUTE_MS / 1000 }));
+  logger.info("Rolled up ingested transaction metrics", { chain, since, until, buckets: buckets.length });
+
+  await saveMetricBuckets(buckets);
+  return collectResult(chain, 'ingested', buckets);
+};
+
+// Nearest-rank percentile over an ascending list
+export const percentile = (sorted: number[], p: number): number =>
+  sorted.length ? sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1))] : 0;
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * Summarizes a window of buckets: TPS percentiles are taken over the
+ * per-bucket rates, while totals and ratios are over the whole window
+ */
+export const summarizeBuckets = (buckets: MetricBucket[]) => {
+  const txCount = buckets.reduce((sum, b) => sum + b.txCount, 0);
+  const durationSecs = buckets.reduce((sum, b) => sum + b.durationSecs, 0);
+  const rates = buckets
+    .filter(b => b.durationSecs > 0)
+    .map(b => b.txCount / b.durationSecs)
+    .sort((a, b) => a - b);
+
+  const tps: MetricPercentiles = {
+    avg: round(durationSecs > 0 ? txCount / durationSecs : 0),
+    p50: round(percentile(rates, 50)),
+    p90: round(percentile(rates, 90)),
+    p99: round(percentile(rates, 99)),
+    max: round(rates.length ? rates[rates.length - 1] : 0)
+  };
+
+  const withFailures = buckets.filter(b => b.failedCount !== null);
+  const failedTx = withFailures.reduce((sum, b) => sum + (b.failedCount as number), 0);
+  const failedOf = withFailures.reduce((sum, b) => sum + b.txCount, 0);
+
+  const withFees = buckets.filter(b => b.feeTotal !== null);
+  const feeTotal = withFees.reduce((sum, b) => sum + BigInt(b.feeTotal as string), BigInt(0));
+  const feeTxCount = withFees.reduce((sum, b) => sum + b.txCount, 0);
+
+  const withUnits = buckets.filter(b => b.computeUnits !== null);
+  const computeUnits = withUnits.reduce((sum, b) => sum + BigInt(b.computeUnits as string), BigInt(0));
+
+  return {
+    txCount,
+    tps,
+    failedRatio: failedOf ? round(failedTx / failedOf) : null,
+    feeTotal: withFees.length ? feeTotal.toString() : null,
+    avgFee: feeTxCount ? (feeTotal / BigInt(feeTxCount)).toString() : null,
+    computeUnits: withUnits.length ? computeUnits.toString() : null,
+    bucketCount: buckets.length
+  };
+};
+
+/**
+ * Groups buckets into fixed windows aligned to the epoch and summarizes each
+ * @param buckets Buckets in ascending order of start
+ * @param window Window size
+ * @returns One point per window that has buckets, in the buckets' order
+ */
+export const windowBuckets = (buckets: MetricBucket[], window: MetricWindow): MetricWindowPoint[] => {
+  const windows = new Map<string, MetricBucket[]>();
+  for (const bucket of buckets) {
+    const start = new Date(floorTo(Date.parse(bucket.start), WINDOW_MS[window])).toISOString();
+    const group = windows.get(start);
+    if (group) group.push(bucket);
+    else windows.set(start, [bucket]);
+  }
+
+  return [...windows.entries()].map(([start, group]) => {
+    const { txCount, tps, failedRatio, feeTotal, avgFee, computeUnits, bucketCount } = summarizeBuckets(group);
+    return { start, txCount, tps, failedRatio, feeTotal, avgFee, computeUnits, bucketCount };
+  });
+};
+
+const loadMetricBuckets = async (
+  chain: Chain,
+  source: MetricSource,
+  since: string,
+  until: string
+): Promise<MetricBucket[]> => {
+  const session = getSession();
+  try {
+    const result = await session.run(
+      `MATCH (m:MetricBucket {chain: $chain, source: $source})
+      WHERE m.start >= $since AND m.start < $until
+      RETURN m
+      ORDER BY m.start ASC`,
+      { chain, source, since, until }
+    );
+
+    return result.records.map(record => {
+      const m = record.get("m").properties;
+      return {
+        id: m.id,
+        chain: m.chain,
+        source: m.source,
+        start: m.start,
+        durationSecs: toNumberOrNull(m.durationSecs) ?? 0,
+        txCount: toNumberOrNull(m.txCount) ?? 0,
+        failedCount: toNumberOrNull(m.failedCount),
+        feeTotal: m.feeTotal ?? null,
+        computeUnits: m.computeUnits ?? null,
+        firstPosition: m.firstPosition ?? null,
+        lastPosition: m.lastPosition ?? null
+      };
+    });
+  } catch (error) {
+    throw handleNeo4jError(error, { chain, source, since, until });
+  } finally {
+    await session.close();
+  }
+};
+
+/**
+ * Aggregates stored metric buckets into fixed windows for one or more chains.
+ * With several chains, headline metrics are compared side by side; fees are
+ * left out of the comparison since each chain reports them in its own unit.
+ * @param chains Chains to report on
+ * @param options Window size, bucket source and time range (defaults to the last 24 hours)
+ * @returns A windowed series and summary per chain, plus the comparison
+ */
+export const getNetworkMetrics = async (
+  chains: Chain[],
+  options: MetricQueryOptions = {}
+): Promise<NetworkMetricsResult> => {
+  const window = options.window ?? '1h';
+  const source = options.source ?? 'network';
+  const until = options.until ?? new Date().toISOString();
+  const since = options.since ?? new Date(Date.parse(until) - DEFAULT_QUERY_RANGE_MS).toISOString();
+
+  const series: ChainMetricSeries[] = [];
+  for (const chain of chains) {
+    const buckets = await loadMetricBuckets(chain, source, since, until);
+    series.push({ chain, points: windowBuckets(buckets, window), summary: summarizeBuckets(buckets) });
+  }
+
+  const compare = (metric: string, value: (s: ChainMetricSeries) => number | null) => {
+    const values = Object.fromEntries(series.map(s => [s.chain, s.summary.bucketCount ? value(s) : null]));
+    const ranked = series.filter(s => values[s.chain] !== null)
+      .sort((a, b) => (values[b.chain] as number) - (values[a.chain] as number));
+    return { metric, values, leader: ranked.length ? ranked[0].chain : null };
+  };
+
+  return {
+    window,
+    source,
+    since,
+    until,
+    series,
+    comparison: series.length > 1
+      ? [
+          compare('avgTps', s => s.summary.tps.avg),
+          compare('p99Tps', s => s.summary.tps.p99),
+          compare('maxTps', s => s.summary.tps.max),
+          compare('txCount', s => s.summary.txCount),
+          compare('failedRatio', s => s.summary.failedRatio)
+        ]
+      : []
+  };
+};
@@ -0,0 +1,346 @@
+import { decodeBase58, normalizeChainAddress } from "../../utils/chainAddress.js";
+import {
+  MoveDecoder,
+  MoveFunctionSignature,
+  MoveStructLayout,
+  MoveStructTag,
+  MoveType,
+  MoveValue,
+  SuiRawEvent
+} from "./types.js";
+
+// Finds the layout of a struct in the loaded package ABIs
+export type StructResolver = (tag: MoveStructTag) => MoveStructLayout | undefined;
+
+const PRIMITIVES: Record<string, MoveType> = {
+  bool: 'Bool', u8: 'U8', u16: 'U16', u32: 'U32', u64: 'U64', u128: 'U128', u256: 'U256',
+  address: 'Address', signer: 'Signer'
+};
+
+const INTEGER_BYTES: Partial<Record<string, number>> = { U8: 1, U16: 2, U32: 4, U64: 8, U128: 16, U256: 32 };
+
+// Reads BCS-encoded values front to back; running past the end throws
+class Reader {
+  private offset = 0;
+
+  constructor(private readonly data: Buffer) {}
+
+  take(length: number): Buffer {
+    if (this.offset + length > this.data.length) {
+      throw new Error(`Data ends after ${this.data.length} bytes`);
+    }
+    const bytes = this.data.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return bytes;
+  }
+
+  // Sequence lengths and enum tags are ULEB128
+  uleb128(): number {
+    let value = 0;
+    for (let shift = 0; shift < 32; shift += 7) {
+      const byte = this.take(1)[0];
+      value += (byte & 0x7f) * 2 ** shift;
+      if (!(byte & 0x80)) return value;
+    }
+    throw new Error('ULEB128 length overflows u32');
+  }
+
+  get remaining(): number {
+    return this.data.length - this.offset;
+  }
+}
+
+export const normalizeMoveAddress = (address: string): string =>
+  normalizeChainAddress('sui', address.startsWith('0x') ? address : `0x${address}`);
+
+const MOVE_STDLIB = normalizeMoveAddress('0x1');
+const SUI_FRAMEWORK = normalizeMoveAddress('0x2');
+
+const structKey = (tag: Pick<MoveStructTag, 'address' | 'module' | 'name'>) =>
+  `${normalizeMoveAddress(tag.address)}::${tag.module}::${tag.name}`;
+
+/**
+ * Parses a Move type as written in type arguments and event types, e.g.
+ * `vector<u8>` or `0x2::coin::Coin<0x2::sui::SUI>`
+ * @param text The type
+ * @returns The type in the normalized ABI layout
+ * @throws {Error} If the type cannot be parsed
+ */
+export const parseMoveType = (text: string): MoveType => {
+  const tokens = text.match(/[A-Za-z0-9_]+|::|<|>|,|&mut|&/g) ?? [];
+  let position = 0;
+  const next = () => tokens[position++];
+  const expect = (token: string) => {
+    if (next() !== token) throw new Error(`Expected "${token}" in Move type ${text}`);
+  };
+
+  const parse = (): MoveType => {
+    const token = next();
+    if (token === undefined) throw new Error(`Unexpected end of Move type ${text}`);
+    if (token === '&') return { Reference: parse() };
+    if (token === '&mut') return { MutableReference: parse() };
+    if (PRIMITIVES[token]) return PRIMITIVES[token];
+    if (token === 'vector') {
+      expect('<');
+      const inner = parse();
+      expect('>');
+      return { Vector: inner };
+    }
+    expect('::');
+    const module = next();
+    expect('::');
+    const name = next();
+    const typeArguments: MoveType[] = [];
+    if (tokens[position] === '<') {
+      position++;
+      typeArguments.push(parse());
+      while (tokens[position] === ',') {
+        position++;
+        typeArguments.push(parse());
+      }
+      expect('>');
+    }
+    return { Struct: { address: normalizeMoveAddress(token), module, name, typeArguments } };
+  };
+
+  const type = parse();
+  if (position !== tokens.length) throw new Error(`Trailing input in Move type ${text}`);
+  return type;
+};
+
+/**
+ * Replaces type parameters with the type arguments a call or struct was
+ * instantiated with
+ */
+export const substituteMoveType = (type: MoveType, typeArguments: MoveType[]): MoveType => {
+  if (typeof type === 'string') return type;
+  if ('TypeParameter' in type) return typeArguments[type.TypeParameter] ?? type;
+  if ('Vector' in type) return { Vector: substituteMoveType(type.Vector, typeArguments) };
+  if ('Reference' in type) return { Reference: substituteMoveType(type.Reference, typeArguments) };
+  if ('MutableReference' in type) return { MutableReference: substituteMoveType(type.MutableReference, typeArguments) };
+  return {
+    Struct: {
+      ...type.Struct,
+      typeArguments: (type.Struct.typeArguments ?? []).map(arg => substituteMoveType(arg, typeArguments))
+    }
+  };
+};
+
+/**
+ * Renders a Move type the way Sui writes it, with full-length addresses
+ */
+export const formatMoveType = (type: MoveType): string => {
+  if (typeof type === 'string') return type.toLowerCase();
+  if ('TypeParameter' in type) return `T${type.TypeParameter}`;
+  if ('Vector' in type) return `vector<${formatMoveType(type.Vector)}>`;
+  if ('Reference' in type) return `&${formatMoveType(type.Reference)}`;
+  if ('MutableReference' in type) return `&mut ${formatMoveType(type.MutableReference)}`;
+  const args = type.Struct.typeArguments ?? [];
+  return `${structKey(type.Struct)}${args.length ? `<${args.map(formatMoveType).join(', ')}>` : ''}`;
+};
+
+/**
+ * Strips type arguments from a struct type, e.g. `0x2::coin::Coin<...>` to
+ * `0x2::coin::Coin`, with the address in full length
+ * @throws {Error} If the type is not a struct type
+ */
+export const moveStructName = (type: string): string => {
+  const parsed = parseMoveType(type);
+  if (typeof parsed === 'string' || !('Struct' in parsed)) throw new Error(`Not a struct type: ${type}`);
+  return structKey(parsed.Struct);
+};
+
+/**
+ * Lists the struct types a type refers to, including inside type arguments
+ */
+export const moveStructTags = (type: MoveType): MoveStructTag[] => {
+  if (typeof type === 'string' || 'TypeParameter' in type) return [];
+  if ('Vector' in type) return moveStructTags(type.Vector);
+  if ('Reference' in type) return moveStructTags(type.Reference);
+  if ('MutableReference' in type) return moveStructTags(type.MutableReference);
+  return [type.Struct, ...(type.Struct.typeArguments ?? []).flatMap(moveStructTags)];
+};
+
+const readInteger = (bytes: Buffer): string => {
+  let value = BigInt(0);
+  for (let i = bytes.length - 1; i >= 0; i--) value = (value << BigInt(8)) | BigInt(bytes[i]);
+  return value.toString();
+};
+
+const readString = (reader: Reader) => reader.take(reader.uleb128()).toString('utf-8');
+
+// Framework structs whose encoding is fixed, so they decode without their
+// package ABI and read as the value they wrap
+const BUILTIN_STRUCTS: Record<string, (reader: Reader, tag: MoveStructTag, resolve: StructResolver) => unknown> = {
+  [`${MOVE_STDLIB}::string::String`]: readString,
+  [`${MOVE_STDLIB}::ascii::String`]: readString,
+  [`${MOVE_STDLIB}::type_name::TypeName`]: readString,
+  [`${MOVE_STDLIB}::option::Option`]: (reader, tag, resolve) =>
+    reader.uleb128() ? readValue(reader, tag.typeArguments[0], resolve) : null,
+  [`${SUI_FRAMEWORK}::object::ID`]: reader => `0x${reader.take(32).toString('hex')}`,
+  [`${SUI_FRAMEWORK}::object::UID`]: reader => `0x${reader.take(32).toString('hex')}`,
+  [`${SUI_FRAMEWORK}::balance::Balance`]: reader => readInteger(reader.take(8)),
+  [`${SUI_FRAMEWORK}::url::Url`]: readString
+};
+
+/**
+ * Whether a struct decodes without its package ABI
+ */
+export const isBuiltinMoveStruct = (tag: MoveStructTag): boolean => structKey(tag) in BUILTIN_STRUCTS;
+
+const readStruct = (reader: Reader, tag: MoveStructTag, resolve: StructResolver): Record<string, unknown> => {
+  const layout = resolve(tag);
+  if (!layout) throw new Error(`No layout for ${structKey(tag)}`);
+  return Object.fromEntries(layout.fields.map(field => [
+    field.name,
+    readValue(reader, substituteMoveType(field.type, tag.typeArguments ?? []), resolve)
+  ]));
+};
+
+const readValue = (reader: Reader, type: MoveType, resolve: StructResolver): unknown => {
+  if (typeof type === 'string') {
+    if (type === 'Bool') return reader.take(1)[0] !== 0;
+    if (type === 'Address' || type === 'Signer') return `0x${reader.take(32).toString('hex')}`;
+    const size = INTEGER_BYTES[type];
+    if (!size) throw new Error(`Unsupported type ${type}`);
+    // Like amounts everywhere else, 64-bit and wider integers are strings
+    return size < 8 ? reader.take(size).readUIntLE(0, size) : readInteger(reader.take(size));
+  }
+  if ('Vector' in type) {
+    const length = reader.uleb128();
+    return Array.from({ length }, () => readValue(reader, type.Vector, resolve));
+  }
+  if ('Struct' in type) {
+    const builtin = BUILTIN_STRUCTS[structKey(type.Struct)];
+    return builtin ? builtin(reader, type.Struct, resolve) : readStruct(reader, type.Struct, resolve);
+  }
+  throw new Error(`Cannot decode ${formatMoveType(type)}`);
+};
+
+const decodeBcs = (bytes: Buffer, type: MoveType, resolve: StructResolver): unknown => {
+  const reader = new Reader(bytes);
+  const value = readValue(reader, type, resolve);
+  if (reader.remaining) throw new Error(`${reader.remaining} bytes left after ${formatMoveType(type)}`);
+  return value;
+};
+
+// Pure inputs arrive as JSON typed by the node (valueType), or as raw BCS
+// bytes from nodes that do not type them
+const toPureValue = (input: { valueType?: string; value?: unknown }, type: MoveType, resolve: StructResolver): unknown => {
+  const { value } = input;
+  if (!input.valueType && Array.isArray(value) && !(typeof type === 'object' && 'Vector' in type && type.Vector === 'U8')) {
+    try {
+      return decodeBcs(Buffer.from(value as number[]), type, resolve);
+    } catch {
+      return value;
+    }
+  }
+  if (typeof type === 'string') {
+    if (type === 'Address' && typeof value === 'string') return normalizeMoveAddress(value);
+    const size = INTEGER_BYTES[type];
+    if (size && (typeof value === 'string' || typeof value === 'number')) {
+      return size < 8 ? Number(value) : String(value);
+    }
+  }
+  return value;
+};
+
+const isTxContext = (type: MoveType): boolean => {
+  const inner = typeof type === 'object' && 'MutableReference' in type ? type.MutableReference
+    : typeof type === 'object' && 'Reference' in type ? type.Reference
+    : type;
+  return typeof inner === 'object' && 'Struct' in inner &&
+    structKey(inner.Struct) === `${SUI_FRAMEWORK}::tx_context::TxContext`;
+};
+
+/**
+ * Types the arguments of a Move call through the called function's signature.
+ * Pure arguments are decoded, objects are given by ID, and results of earlier
+ * commands by their command index.
+ * @param signature The called function
+ * @param typeArguments Type arguments of the call
+ * @param args The call's arguments, as listed in the transaction
+ * @param inputs The transaction's inputs
+ * @param resolve Struct layout lookup for pure struct arguments
+ * @returns Arguments keyed arg0, arg1, ...
+ */
+export const decodeMoveCallArguments = (
+  signature: MoveFunctionSignature,
+  typeArguments: string[],
+  args: unknown[],
+  inputs: unknown[],
+  resolve: StructResolver
+): Record<string, MoveValue> => {
+  const instantiation = typeArguments.map(parseMoveType);
+  // The runtime passes TxContext itself; it never appears among the arguments
+  const parameters = signature.parameters.filter(parameter => !isTxContext(parameter));
+
+  return Object.fromEntries(args.map((arg, i) => {
+    const parameter = parameters[i];
+    const type = parameter ? substituteMoveType(parameter, instantiation) : null;
+    const ref = arg as { Input?: number; Result?: number; NestedResult?: [number, number] } | string;
+    let value: unknown = ref;
+    if (ref === 'GasCoin') {
+      value = 'GasCoin';
+    } else if (typeof ref === 'object' && typeof ref?.Input === 'number') {
+      const input = inputs[ref.Input] as { type?: string; objectId?: string; valueType?: string; value?: unknown } | undefined;
+      value = input?.type === 'object'
+        ? { objectId: input.objectId }
+        : input && type ? toPureValue(input, type, resolve) : input?.value;
+    } else if (typeof ref === 'object' && typeof ref?.Result === 'number') {
+      value = { result: ref.Result };
+    } else if (typeof ref === 'object' && Array.isArray(ref?.NestedResult)) {
+      value = { result: ref.NestedResult[0], index: ref.NestedResult[1] };
+    }
+    return [`arg${i}`, { type: type ? formatMoveType(type) : 'unknown', value }];
+  }));
+};
+
+const eventBytes = (event: SuiRawEvent): Buffer | null => {
+  if (!event.bcs) return null;
+  if (event.bcsEncoding === 'base64') return Buffer.from(event.bcs, 'base64');
+  const bytes = decodeBase58(event.bcs);
+  return bytes ? Buffer.from(bytes) : null;
+};
+
+/**
+ * Decodes the fields of an event through its struct layout. The BCS payload
+ * is read when the layouts of every nested struct are known; otherwise the
+ * node's parsedJson is kept, typed by the top-level layout when there is one.
+ * @param event The raw event
+ * @param resolve Struct layout lookup
+ * @returns Field values, their Move types, and how they were decoded
+ */
+export const decodeMoveEvent = (
+  event: SuiRawEvent,
+  resolve: StructResolver
+): { fields: Record<string, unknown> | null; fieldTypes: Record<string, string> | null; decoder: MoveDecoder | null } => {
+  let tag: MoveStructTag | null = null;
+  try {
+    const type = parseMoveType(event.type);
+    if (typeof type === 'object' && 'Struct' in type) tag = type.Struct;
+  } catch {
+    tag = null;
+  }
+  const layout = tag ? resolve(tag) : undefined;
+  const fieldTypes = tag && layout
+    ? Object.fromEntries(layout.fields.map(field => [
+        field.name,
+        formatMoveType(substituteMoveType(field.type, (tag as MoveStructTag).typeArguments))
+      ]))
+    : null;
+
+  const bytes = eventBytes(event);
+  if (tag && layout && bytes) {
+    try {
+      return { fields: decodeBcs(bytes, { Struct: tag }, resolve) as Record<string, unknown>, fieldTypes, decoder: 'abi' };
+    } catch {
+      // Fall through to the node's rendering
+    }
+  }
+
+  const json = event.parsedJson;
+  return json && typeof json === 'object' && !Array.isArray(json)
+    ? { fields: json as Record<string, unknown>, fieldTypes, decoder: 'json' }
+    : { fields: null, fieldTypes, decoder: null };
+};
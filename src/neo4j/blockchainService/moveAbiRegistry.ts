@@ -0,0 +1,221 @@
+import { promises as fsPromises } from "fs";
+import path from "path";
+import { getSession, withTransaction } from "../driver.js";
+import { config } from "../../config/index.js";
+import { logger } from "../../utils/logger.js";
+import { ChainDataProvider, getChainDataProvider } from "./chainDataProvider.js";
+import {
+  StructResolver,
+  decodeMoveCallArguments,
+  decodeMoveEvent,
+  isBuiltinMoveStruct,
+  moveStructTags,
+  normalizeMoveAddress,
+  parseMoveType,
+  substituteMoveType
+} from "./moveAbi.js";
+import {
+  MoveDecoder,
+  MovePackageAbi,
+  MoveStructTag,
+  MoveValue,
+  SuiMoveCallCommand,
+  SuiRawEvent,
+  SuiTransactionBlockResponse
+} from "./types.js";
+
+// Nested structs can live in other packages; layouts are followed this many
+// packages deep before an event falls back to its JSON rendering
+const MAX_LAYOUT_DEPTH = 4;
+
+// ABIs by package address
+const registry = new Map<string, MovePackageAbi>();
+// Packages neither stored nor fetchable, not asked for again until restart
+const unavailable = new Set<string>();
+let loadingDirectory: Promise<void> | null = null;
+
+const isPackageAbi = (value: unknown): value is MovePackageAbi =>
+  !!value && typeof value === 'object' && !Array.isArray(value) &&
+  Object.values(value).every(module => !!module && typeof module === 'object' && !Array.isArray(module));
+
+// A package JSON file is named after its address unless its modules say otherwise
+const packageAddress = (abi: MovePackageAbi, fallback: string): string =>
+  normalizeMoveAddress(Object.values(abi).find(module => module.address)?.address ?? fallback);
+
+const loadDirectory = async (directory: string) => {
+  let files: string[];
+  try {
+    files = (await fsPromises.readdir(directory)).filter(f => f.endsWith('.json')).sort();
+  } catch (error) {
+    logger.warn("Cannot read Move ABI directory, skipping it", { directory, error });
+    return;
+  }
+
+  for (const file of files) {
+    const filePath = path.join(directory, file);
+    try {
+      const abi = JSON.parse(await fsPromises.readFile(filePath, 'utf-8'));
+      if (!isPackageAbi(abi)) throw new Error('Expected normalized modules keyed by module name');
+      registry.set(packageAddress(abi, path.basename(file, '.json')), abi);
+    } catch (error) {
+      // One bad file should not keep the other packages from loading
+      logger.warn("Skipping invalid Move ABI file", {
+        filePath,
+        error: error instanceof Error ? error.message : error
+      });
+    }
+  }
+};
+
+const loadStored = async (addresses: string[]): Promise<void> => {
+  const session = getSession();
+  try {
+    const result = await session.run(
+      `MATCH (p:MovePackage) WHERE p.address IN $addresses AND p.abi IS NOT NULL
+      RETURN p.address AS address, p.abi AS abi`,
+      { addresses }
+    );
+    for (const record of result.records) {
+      const abi = JSON.parse(record.get("abi"));
+      if (isPackageAbi(abi)) registry.set(record.get("address"), abi);
+    }
+  } finally {
+    await session.close();
+  }
+};
+
+const fetchAbi = async (address: string, provider: ChainDataProvider): Promise<void> => {
+  let abi: unknown;
+  try {
+    abi = await provider.request('sui', 'sui_getNormalizedMoveModulesByPackage', [address]);
+  } catch (error) {
+    logger.debug("Move ABI not available from provider", { address, provider: provider.kind, error });
+    unavailable.add(address);
+    return;
+  }
+  if (!isPackageAbi(abi)) {
+    unavailable.add(address);
+    return;
+  }
+
+  registry.set(address, abi);
+  const now = new Date().toISOString();
+  await withTransaction(async tx => {
+    await tx.run(
+      `MERGE (p:MovePackage {address: $address})
+      ON CREATE SET p.chain = 'sui',
+                    p.createdAt = $now
+      SET p.abi = $abi,
+          p.abiFetchedAt = $now`,
+      { address, abi: JSON.stringify(abi), now }
+    );
+  });
+};
+
+/**
+ * Makes the ABIs of packages available for decoding: from ATLAS_MOVE_ABI_PATH,
+ * from earlier fetches stored on MovePackage nodes, or fetched through the
+ * chain data provider and stored for next time. Packages whose ABI cannot be
+ * found are remembered and not asked for again until restart.
+ * @param addresses Package addresses
+ * @param provider Provider to fetch missing ABIs from (default: the configured one)
+ */
+export const loadMoveAbis = async (
+  addresses: string[],
+  provider: ChainDataProvider = getChainDataProvider()
+): Promise<void> => {
+  if (config.blockchain.moveAbi.directory) {
+    loadingDirectory ??= loadDirectory(config.blockchain.moveAbi.directory);
+    await loadingDirectory;
+  }
+
+  const wanted = [...new Set(addresses.map(normalizeMoveAddress))]
+    .filter(address => !registry.has(address) && !unavailable.has(address));
+  if (!wanted.length) return;
+
+  await loadStored(wanted);
+  for (const address of wanted) {
+    if (registry.has(address)) continue;
+    if (config.blockchain.moveAbi.fetch) await fetchAbi(address, provider);
+    else unavailable.add(address);
+  }
+};
+
+export const resolveMoveStruct: StructResolver = tag =>
+  registry.get(normalizeMoveAddress(tag.address))?.[tag.module]?.structs?.[tag.name];
+
+// Packages holding the layouts of structs, or of structs nested in their
+// fields, that are not loaded yet. Type arguments are already in `tags`.
+const missingLayoutPackages = (tags: MoveStructTag[], seen: Set<string> = new Set()): string[] =>
+  tags.flatMap(tag => {
+    if (isBuiltinMoveStruct(tag)) return [];
+    const key = `${normalizeMoveAddress(tag.address)}::${tag.module}::${tag.name}`;
+    if (seen.has(key)) return [];
+    seen.add(key);
+    const layout = resolveMoveStruct(tag);
+    if (!layout) return [normalizeMoveAddress(tag.address)];
+    return missingLayoutPackages(
+      layout.fields.flatMap(field => moveStructTags(substituteMoveType(field.type, tag.typeArguments ?? []))),
+      seen
+    );
+  });
+
+/**
+ * Loads the ABIs needed to decode a transaction block: the packages it calls
+ * and those defining its events, including structs nested in event fields.
+ * Never fails; what cannot be loaded is left undecoded.
+ * @param raw The raw transaction block response
+ * @param provider Provider to fetch missing ABIs from (default: the configured one)
+ */
+export const prepareMoveAbis = async (
+  raw: SuiTransactionBlockResponse,
+  provider: ChainDataProvider = getChainDataProvider()
+): Promise<void> => {
+  try {
+    const calls = (raw.transaction?.data.transaction?.transactions || [])
+      .flatMap(command => command.MoveCall ? [(command.MoveCall as SuiMoveCallCommand).package] : []);
+    const eventTags = (raw.events || []).flatMap(event => {
+      try {
+        return moveStructTags(parseMoveType(event.type));
+      } catch {
+        return [];
+      }
+    });
+
+    await loadMoveAbis([...calls, ...eventTags.map(tag => tag.address)], provider);
+    for (let depth = 0; depth < MAX_LAYOUT_DEPTH; depth++) {
+      const missing = missingLayoutPackages(eventTags)
+        .filter(address => !registry.has(address) && !unavailable.has(address));
+      if (!missing.length) break;
+      await loadMoveAbis(missing, provider);
+    }
+  } catch (error) {
+    logger.warn("Failed to load Move ABIs, leaving calls and events undecoded", { digest: raw.digest, error });
+  }
+};
+
+/**
+ * Types the arguments of a Move call through the called function's ABI
+ * @param call The MoveCall command
+ * @param inputs The transaction's inputs
+ * @returns Arguments keyed arg0, arg1, ..., or null if the function's ABI is not loaded
+ */
+export const decodeMoveCall = (call: SuiMoveCallCommand, inputs: unknown[]): Record<string, MoveValue> | null => {
+  const signature = registry.get(normalizeMoveAddress(call.package))?.[call.module]?.exposedFunctions?.[call.function];
+  if (!signature) return null;
+  try {
+    return decodeMoveCallArguments(signature, call.type_arguments || [], call.arguments || [], inputs, resolveMoveStruct);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Decodes the fields of an event through the layout of its struct
+ * @param event The raw event
+ */
+export const decodeSuiEvent = (event: SuiRawEvent): {
+  fields: Record<string, unknown> | null;
+  fieldTypes: Record<string, string> | null;
+  decoder: MoveDecoder | null;
+} => decodeMoveEvent(event, resolveMoveStruct);
@@ -0,0 +1,320 @@
+import { DetectedPattern, DetectorRequest, TransferRecord } from "./types.js";
+
+// Upper bound on DFS expansions for circular flow detection
+const CYCLE_SEARCH_BUDGET = 200000;
+const DEFAULT_CYCLE_HOPS = 4;
+
+const MINUTE_MS = 60 * 1000;
+
+type Detector<R extends DetectorRequest> = (
+  transfers: TransferRecord[],
+  request: R,
+  scope: string | undefined,
+  limit: number
+) => DetectedPattern[];
+
+const byTime = (a: TransferRecord, b: TransferRecord) =>
+  (a.blockTime ?? '').localeCompare(b.blockTime ?? '');
+
+const sumAmounts = (transfers: TransferRecord[]): bigint =>
+  transfers.reduce((total, t) => total + t.amount, BigInt(0));
+
+// Ratio of two bigints as a float; precision loss is acceptable for scoring
+const ratio = (numerator: bigint, denominator: bigint): number =>
+  denominator === BigInt(0) ? 0 : Number((numerator * BigInt(10000)) / denominator) / 10000;
+
+const groupBy = <K>(transfers: TransferRecord[], key: (t: TransferRecord) => K): Map<K, TransferRecord[]> => {
+  const groups = new Map<K, TransferRecord[]>();
+  for (const transfer of transfers) {
+    const k = key(transfer);
+    const group = groups.get(k);
+    if (group) group.push(transfer);
+    else groups.set(k, [transfer]);
+  }
+  return groups;
+};
+
+/**
+ * Finds the densest window of transfers with the most distinct counterparties
+ */
+const densestWindow = (
+  transfers: TransferRecord[],
+  windowMs: number,
+  counterparty: (t: TransferRecord) => string
+): TransferRecord[] => {
+  const timed = transfers.filter(t => t.blockTime).sort(byTime);
+  const counts = new Map<string, number>();
+  let best = { start: 0, end: -1, count: 0 };
+  let start = 0;
+
+  for (let end = 0; end < timed.length; end++) {
+    const added = counterparty(timed[end]);
+    counts.set(added, (counts.get(added) ?? 0) + 1);
+
+    const endTime = Date.parse(timed[end].blockTime as string);
+    while (endTime - Date.parse(timed[start].blockTime as string) > windowMs) {
+      const removed = counterparty(timed[start]);
+      const remaining = (counts.get(removed) ?? 1) - 1;
+      if (remaining) counts.set(removed, remaining);
+      else counts.delete(removed);
+      start++;
+    }
+
+    if (counts.size > best.count) best = { start, end, count: counts.size };
+  }
+
+  return timed.slice(best.start, best.end + 1);
+};
+
+/**
+ * Value that leaves an address and returns to it through a chain of
+ * time-ordered transfers of the same mint within maxHops
+ */
+const detectCircularFlows: Detector<Extract<DetectorRequest, { detector: 'circular_flow' }>> = (
+  transfers, request, scope, limit
+) => {
+  const maxHops = request.maxHops ?? DEFAULT_CYCLE_HOPS;
+  const minAmount = request.minAmount ? BigInt(request.minAmount) : BigInt(0);
+  const minReturnRatio = request.minReturnRatio ?? 0.5;
+
+  const eligible = transfers.filter(t => t.blockTime && t.amount >= minAmount);
+  const outgoing = groupBy(eligible, t => `${t.from}|${t.mint}`);
+  outgoing.forEach(list => list.sort(byTime));
+  const bySender = groupBy(eligible, t => t.from);
+
+  const patterns: DetectedPattern[] = [];
+  const seen = new Set<string>();
+  let budget = CYCLE_SEARCH_BUDGET;
+
+  const origins = scope ? [scope] : [...bySender.keys()];
+
+  for (const origin of origins) {
+    for (const first of bySender.get(origin) ?? []) {
+      const stack: TransferRecord[][] = [[first]];
+
+      while (stack.length && patterns.length < limit && budget-- > 0) {
+        const path = stack.pop() as TransferRecord[];
+        const last = path[path.length - 1];
+
+        if (last.to === origin) {
+          if (path.length < 2) continue;
+          const members = path.map(t => t.from);
+          const returned = path.reduce((min, t) => (t.amount < min ? t.amount : min), first.amount);
+          if (ratio(returned, first.amount) < minReturnRatio) continue;
+          // Time order decides where a cycle starts, but transfers in the same
+          // block can close it from several members; report it once
+          const key = path.map(t => `${t.signature}:${t.from}`).sort().join('>');
+          if (seen.has(key)) continue;
+          seen.add(key);
+
+          patterns.push({
+            detector: 'circular_flow',
+            score: Math.min(1, ratio(returned, first.amount)),
+            summary: `${first.amount} of ${first.mint} left ${origin} and ${returned} returned through ${path.length} hops`,
+            mint: first.mint,
+            addresses: members.map((address, i) => ({ address, role: i === 0 ? 'origin' : 'intermediary' })),
+            signatures: [...new Set(path.map(t => t.signature))],
+            details: {
+              hops: path.length,
+              sent: first.amount.toString(),
+              returned: returned.toString(),
+              startedAt: first.blockTime,
+              completedAt: last.blockTime
+            }
+          });
+          continue;
+        }
+
+        if (path.length >= maxHops) continue;
+        const visited = new Set(path.map(t => t.from));
+        for (const next of outgoing.get(`${last.to}|${last.mint}`) ?? []) {
+          if ((next.blockTime as string) < (last.blockTime as string)) continue;
+          if (next.to !== origin && visited.has(next.to)) continue;
+          stack.push([...path, next]);
+        }
+      }
+    }
+  }
+
+  return patterns;
+};
+
+/**
+ * An address sending to (fan-out) or receiving from (fan-in) many distinct
+ * counterparties within a short window
+ */
+const detectFanBursts: Detector<Extract<DetectorRequest, { detector: 'fan_burst' }>> = (
+  transfers, request, scope, limit
+) => {
+  const direction = request.direction ?? 'both';
+  const minCounterparties = request.minCounterparties ?? 10;
+  const windowMs = (request.windowMinutes ?? 60) * MINUTE_MS;
+  const minAmount = request.minAmount ? BigInt(request.minAmount) : BigInt(0);
+  const eligible = transfers.filter(t => t.amount >= minAmount);
+
+  const patterns: DetectedPattern[] = [];
+  const directions = direction === 'both' ? (['out', 'in'] as const) : ([direction] as const);
+
+  for (const dir of directions) {
+    const hub = (t: TransferRecord) => (dir === 'out' ? t.from : t.to);
+    const counterparty = (t: TransferRecord) => (dir === 'out' ? t.to : t.from);
+
+    for (const [key, group] of groupBy(eligible, t => `${hub(t)}|${t.mint}`)) {
+      const [address] = key.split('|');
+      if (scope && address !== scope) continue;
+
+      const window = densestWindow(group, windowMs, counterparty);
+      const counterparties = [...new Set(window.map(counterparty))];
+      if (counterparties.length < minCounterparties) continue;
+
+      patterns.push({
+        detector: 'fan_burst',
+        score: Math.min(1, counterparties.length / (minCounterparties * 2)),
+        summary: `${address} ${dir === 'out' ? 'sent to' : 'received from'} ${counterparties.length} addresses within ${request.windowMinutes ?? 60} minutes`,
+        mint: group[0].mint,
+        addresses: [
+          { address, role: dir === 'out' ? 'source' : 'sink' },
+          ...counterparties.map(c => ({ address: c, role: dir === 'out' ? 'recipient' : 'sender' }))
+        ],
+        signatures: [...new Set(window.map(t => t.signature))],
+        details: {
+          direction: dir,
+          counterpartyCount: counterparties.length,
+          total: sumAmounts(window).toString(),
+          startedAt: window[0].blockTime,
+          endedAt: window[window.length - 1].blockTime
+        }
+      });
+    }
+  }
+
+  return patterns.sort((a, b) => b.score - a.score).slice(0, limit);
+};
+
+/**
+ * Pairs of addresses trading the same asset back and forth repeatedly with
+ * little net change, a common wash trading signature
+ */
+const detectRoundTrips: Detector<Extract<DetectorRequest, { detector: 'round_trip' }>> = (
+  transfers, request, scope, limit
+) => {
+  const minRoundTrips = request.minRoundTrips ?? 3;
+  const maxNetRatio = request.maxNetRatio ?? 0.1;
+
+  const pairs = groupBy(transfers, t => {
+    const [a, b] = [t.from, t.to].sort();
+    return `${a}|${b}|${t.mint}`;
+  });
+
+  const patterns: DetectedPattern[] = [];
+  for (const [key, group] of pairs) {
+    const [a, b, mint] = key.split('|');
+    if (scope && a !== scope && b !== scope) continue;
+
+    const forward = group.filter(t => t.from === a);
+    const backward = group.filter(t => t.from === b);
+    const roundTrips = Math.min(forward.length, backward.length);
+    if (roundTrips < minRoundTrips) continue;
+
+    const forwardTotal = sumAmounts(forward);
+    const backwardTotal = sumAmounts(backward);
+    const net = forwardTotal > backwardTotal ? forwardTotal - backwardTotal : backwardTotal - forwardTotal;
+    const netRatio = ratio(net, forwardTotal + backwardTotal);
+    if (netRatio > maxNetRatio) continue;
+
+    patterns.push({
+      detector: 'round_trip',
+      score: Math.min(1, (1 - netRatio) * (roundTrips / (minRoundTrips * 2))),
+      summary: `${a} and ${b} exchanged ${mint} back and forth ${roundTrips} times with ${(netRatio * 100).toFixed(1)}% net change`,
+      mint,
+      addresses: [{ address: a, role: 'participant' }, { address: b, role: 'participant' }],
+      signatures: [...new Set(group.map(t => t.signature))],
+      details: {
+        roundTrips,
+        forwardTotal: forwardTotal.toString(),
+        backwardTotal: backwardTotal.toString(),
+        netRatio
+      }
+    });
+  }
+
+  return patterns.sort((x, y) => y.score - x.score).slice(0, limit);
+};
+
+/**
+ * Many tiny balances from distinct addresses consolidated into one address
+ * within a short window
+ */
+const detectDustSweeps: Detector<Extract<DetectorRequest, { detector: 'dust_sweep' }>> = (
+  transfers, request, scope, limit
+) => {
+  const maxAmount = BigInt(request.maxAmount);
+  const minSources = request.minSources ?? 10;
+  const windowMs = (request.windowMinutes ?? 24 * 60) * MINUTE_MS;
+  const dust = transfers.filter(t => t.amount <= maxAmount);
+
+  const patterns: DetectedPattern[] = [];
+  for (const [key, group] of groupBy(dust, t => `${t.to}|${t.mint}`)) {
+    const [address, mint] = key.split('|');
+    if (scope && address !== scope) continue;
+
+    const window = densestWindow(group, windowMs, t => t.from);
+    const sources = [...new Set(window.map(t => t.from))];
+    if (sources.length < minSources) continue;
+
+    patterns.push({
+      detector: 'dust_sweep',
+      score: Math.min(1, sources.length / (minSources * 2)),
+      summary: `${address} swept ${mint} dust from ${sources.length} addresses`,
+      mint,
+      addresses: [
+        { address, role: 'collector' },
+        ...sources.map(source => ({ address: source, role: 'source' }))
+      ],
+      signatures: [...new Set(window.map(t => t.signature))],
+      details: {
+        sourceCount: sources.length,
+        total: sumAmounts(window).toString(),
+        startedAt: window[0].blockTime,
+        endedAt: window[window.length - 1].blockTime
+      }
+    });
+  }
+
+  return patterns.sort((a, b) => b.score - a.score).slice(0, limit);
+};
+
+/**
+ * How many transfers away from a scoped address the detectors need to see.
+ * A cycle through the address can pass through senders up to maxHops - 1
+ * transfers out; the other detectors only look at the address's own transfers.
+ */
+export const neighbourhoodHops = (requests: DetectorRequest[]): number =>
+  Math.max(0, ...requests.map(request =>
+    request.detector === 'circular_flow' ? (request.maxHops ?? DEFAULT_CYCLE_HOPS) - 1 : 0
+  ));
+
+/**
+ * Runs a single detector over an in-memory set of transfers
+ * @param transfers Transfers to analyze
+ * @param request The detector and its parameters
+ * @param scope Only report patterns involving this address
+ * @param limit Maximum number of patterns to return
+ */
+export const runDetector = (
+  transfers: TransferRecord[],
+  request: DetectorRequest,
+  scope: string | undefined,
+  limit: number
+): DetectedPattern[] => {
+  switch (request.detector) {
+    case 'circular_flow':
+      return detectCircularFlows(transfers, request, scope, limit);
+    case 'fan_burst':
+      return detectFanBursts(transfers, request, scope, limit);
+    case 'round_trip':
+      return detectRoundTrips(transfers, request, scope, limit);
+    case 'dust_sweep':
+      return detectDustSweeps(transfers, request, scope, limit);
+  }
+};
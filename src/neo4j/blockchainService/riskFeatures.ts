@@ -0,0 +1,274 @@
+import {
+  AddressFeatures,
+  RiskFeatureContribution,
+  RiskFeatureName,
+  RiskFeatureStats,
+  TransferRecord
+} from "./types.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PAGERANK_DAMPING = 0.85;
+const PAGERANK_MAX_ITERATIONS = 100;
+const PAGERANK_TOLERANCE = 1e-9;
+
+// Robust z-scores are capped so one extreme feature cannot hide the others
+const Z_SCORE_CAP = 10;
+
+// Below this many addresses, medians say too little to call anything an outlier
+export const MIN_SCORING_POPULATION = 20;
+
+interface FeatureSpec {
+  label: string;
+  // Maps values onto the scale z-scores are taken on
+  transform: (value: number) => number;
+  // Which side of the median counts towards the score
+  direction: 'high' | 'low';
+  format: (value: number) => string;
+}
+
+const fixed = (digits: number) => (value: number) => value.toFixed(digits);
+
+const FEATURE_SPECS: Record<RiskFeatureName, FeatureSpec> = {
+  degreeCentrality: {
+    label: 'degree centrality',
+    transform: value => Math.log10(Math.max(value, 1e-12)),
+    direction: 'high',
+    format: value => value.toPrecision(3)
+  },
+  pageRank: {
+    label: 'PageRank (1 = average)',
+    transform: value => Math.log10(Math.max(value, 1e-12)),
+    direction: 'high',
+    format: fixed(2)
+  },
+  clusteringCoefficient: {
+    label: 'clustering coefficient',
+    transform: value => value,
+    direction: 'high',
+    format: fixed(3)
+  },
+  burstiness: {
+    label: 'burstiness',
+    transform: value => value,
+    direction: 'high',
+    format: fixed(2)
+  },
+  ageDays: {
+    label: 'age in days',
+    transform: value => Math.log1p(Math.max(value, 0)),
+    direction: 'low',
+    format: fixed(1)
+  }
+};
+
+export const RISK_FEATURE_NAMES = Object.keys(FEATURE_SPECS) as RiskFeatureName[];
+
+const median = (values: number[]): number => {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * PageRank over the directed transfer graph, weighted by transfer count.
+ * Rank of addresses that send nothing is spread evenly over all addresses.
+ * @returns Ranks scaled so they average 1
+ */
+const pageRank = (size: number, edges: Map<number, Map<number, number>>): number[] => {
+  if (!size) return [];
+
+  const outWeight = new Array<number>(size).fill(0);
+  for (const [from, targets] of edges) {
+    for (const weight of targets.values()) outWeight[from] += weight;
+  }
+
+  let rank = new Array<number>(size).fill(1 / size);
+  for (let iteration = 0; iteration < PAGERANK_MAX_ITERATIONS; iteration++) {
+    let dangling = 0;
+    for (let i = 0; i < size; i++) {
+      if (!outWeight[i]) dangling += rank[i];
+    }
+
+    const next = new Array<number>(size).fill((1 - PAGERANK_DAMPING + PAGERANK_DAMPING * dangling) / size);
+    for (const [from, targets] of edges) {
+      const share = PAGERANK_DAMPING * rank[from] / outWeight[from];
+      for (const [to, weight] of targets) next[to] += share * weight;
+    }
+
+    const change = next.reduce((total, value, i) => total + Math.abs(value - rank[i]), 0);
+    rank = next;
+    if (change < PAGERANK_TOLERANCE) break;
+  }
+
+  return rank.map(value => value * size);
+};
+
+/**
+ * Local clustering coefficient on the undirected graph: the share of pairs
+ * of an address's counterparties that also transferred with each other
+ */
+const clusteringCoefficients = (neighbors: Set<number>[]): number[] =>
+  neighbors.map(own => {
+    const degree = own.size;
+    if (degree < 2) return 0;
+
+    let links = 0;
+    for (const neighbor of own) {
+      const other = neighbors[neighbor];
+      const [small, large] = other.size < own.size ? [other, own] : [own, other];
+      for (const candidate of small) {
+        if (candidate !== neighbor && large.has(candidate)) links++;
+      }
+    }
+    // Every link between two counterparties is seen from both ends
+    return links / (degree * (degree - 1));
+  });
+
+/**
+ * Burstiness of the gaps between an address's transactions, from -1 for
+ * perfectly regular activity through 0 for random activity to 1 for bursts
+ * @returns null with fewer than 3 transactions
+ */
+const burstiness = (times: number[]): number | null => {
+  if (times.length < 3) return null;
+  const sorted = [...times].sort((a, b) => a - b);
+  const gaps = sorted.slice(1).map((time, i) => time - sorted[i]);
+  const mean = gaps.reduce((total, gap) => total + gap, 0) / gaps.length;
+  const deviation = Math.sqrt(gaps.reduce((total, gap) => total + (gap - mean) ** 2, 0) / gaps.length);
+  return mean + deviation === 0 ? 1 : (deviation - mean) / (deviation + mean);
+};
+
+/**
+ * Computes graph features of every address in a set of transfers
+ * @param transfers Transfers forming the graph
+ * @param firstSeen Earliest stored transfer time of each address, for age
+ * @param now Time ages are measured to
+ * @returns Features per address
+ */
+export const computeAddressFeatures = (
+  transfers: TransferRecord[],
+  firstSeen: Map<string, string>,
+  now: number = Date.now()
+): AddressFeatures[] => {
+  const index = new Map<string, number>();
+  const addresses: string[] = [];
+  const indexOf = (address: string) => {
+    let i = index.get(address);
+    if (i === undefined) {
+      i = addresses.length;
+      index.set(address, i);
+      addresses.push(address);
+    }
+    return i;
+  };
+
+  const edges = new Map<number, Map<number, number>>();
+  const senders: Set<number>[] = [];
+  const recipients: Set<number>[] = [];
+  const transferCounts: number[] = [];
+  // Activity is timed per transaction, since one transaction may hold several transfers
+  const transactions: Map<string, number>[] = [];
+
+  for (const transfer of transfers) {
+    const from = indexOf(transfer.from);
+    const to = indexOf(transfer.to);
+    for (const i of [from, to]) {
+      senders[i] ??= new Set();
+      recipients[i] ??= new Set();
+      transactions[i] ??= new Map();
+      transferCounts[i] = (transferCounts[i] ?? 0) + 1;
+      if (transfer.blockTime) transactions[i].set(transfer.signature, Date.parse(transfer.blockTime));
+    }
+    if (from === to) continue;
+
+    const targets = edges.get(from) ?? new Map<number, number>();
+    targets.set(to, (targets.get(to) ?? 0) + 1);
+    edges.set(from, targets);
+    recipients[from].add(to);
+    senders[to].add(from);
+  }
+
+  const neighbors = addresses.map((_, i) => new Set([...senders[i], ...recipients[i]]));
+  const ranks = pageRank(addresses.length, edges);
+  const clustering = clusteringCoefficients(neighbors);
+
+  return addresses.map((address, i): AddressFeatures => {
+    const seen = firstSeen.get(address) ?? null;
+    return {
+      address,
+      inDegree: senders[i].size,
+      outDegree: recipients[i].size,
+      counterparties: neighbors[i].size,
+      transferCount: transferCounts[i],
+      degreeCentrality: addresses.length > 1 ? neighbors[i].size / (addresses.length - 1) : 0,
+      pageRank: ranks[i],
+      clusteringCoefficient: clustering[i],
+      burstiness: burstiness([...transactions[i].values()]),
+      ageDays: seen ? Math.max(0, (now - Date.parse(seen)) / DAY_MS) : null,
+      firstSeen: seen
+    };
+  });
+};
+
+/**
+ * Median and robust spread of each feature. The spread is the scaled median
+ * absolute deviation, or the scaled mean absolute deviation when more than
+ * half the addresses share one value.
+ */
+export const featureStats = (features: AddressFeatures[]): Record<RiskFeatureName, RiskFeatureStats> =>
+  Object.fromEntries(RISK_FEATURE_NAMES.map(name => {
+    const raw = features.map(entry => entry[name]).filter((value): value is number => value !== null);
+    const values = raw.map(FEATURE_SPECS[name].transform);
+    const center = median(values);
+    const deviations = values.map(value => Math.abs(value - center));
+    const mad = 1.4826 * median(deviations);
+    const scale = mad || (values.length ? 1.2533 * deviations.reduce((a, b) => a + b, 0) / values.length : 0);
+    return [name, { median: median(raw), center, scale }];
+  })) as Record<RiskFeatureName, RiskFeatureStats>;
+
+/**
+ * Scores an address against the population: each feature's robust z-score
+ * counts when it lies on the suspicious side of the median, and the score is
+ * the length of those contributions taken together
+ * @returns The score and each feature's contribution, largest first
+ */
+export const scoreAddress = (
+  features: AddressFeatures,
+  stats: Record<RiskFeatureName, RiskFeatureStats>
+): { score: number; contributions: RiskFeatureContribution[] } => {
+  const parts = RISK_FEATURE_NAMES.map(name => {
+    const spec = FEATURE_SPECS[name];
+    const value = features[name];
+    const { median: typical, center, scale } = stats[name];
+    const zScore = value === null || !scale
+      ? 0
+      : Math.max(-Z_SCORE_CAP, Math.min(Z_SCORE_CAP, (spec.transform(value) - center) / scale));
+    const contribution = Math.max(0, spec.direction === 'high' ? zScore : -zScore);
+    return { name, spec, value, typical, zScore, contribution };
+  });
+
+  const total = parts.reduce((sum, part) => sum + part.contribution ** 2, 0);
+
+  const contributions = parts.map(({ name, spec, value, typical, zScore, contribution }): RiskFeatureContribution => ({
+    feature: name,
+    value,
+    median: typical,
+    zScore: Number(zScore.toFixed(3)),
+    contribution: Number(contribution.toFixed(3)),
+    share: total ? Number((contribution ** 2 / total).toFixed(3)) : 0,
+    explanation: value === null
+      ? `Too little dated activity to measure ${spec.label}`
+      : `${spec.label[0].toUpperCase()}${spec.label.slice(1)} is ${spec.format(value)} against a median of ` +
+        `${spec.format(typical)} (z = ${zScore.toFixed(1)})` +
+        (contribution > 0
+          ? `, ${spec.direction === 'high' ? 'higher' : 'lower'} than usual`
+          : '')
+  }));
+
+  return {
+    score: Number(Math.sqrt(total).toFixed(3)),
+    contributions: contributions.sort((a, b) => b.contribution - a.contribution)
+  };
+};
@@ -0,0 +1,278 @@
+import { getSession, withTransaction } from "../driver.js";
+import { config } from "../../config/index.js";
+import { logger } from "../../utils/logger.js";
+import { McpError, ChainErrorCode } from "../../types/errors.js";
+import { generateCustomId } from "../../utils/idGenerator.js";
+import { handleNeo4jError } from "../projectService/utils.js";
+import { loadTransfers } from "./findingService.js";
+import { resolveAddressNames } from "./entityService.js";
+import {
+  MIN_SCORING_POPULATION,
+  computeAddressFeatures,
+  featureStats,
+  scoreAddress
+} from "./riskFeatures.js";
+import { toNumberOrNull } from "./utils.js";
+import {
+  AddressRiskScore,
+  Chain,
+  RiskFeatureContribution,
+  RiskScoringRun
+} from "./types.js";
+
+const FIRST_SEEN_BATCH_SIZE = 5000;
+const WRITE_BATCH_SIZE = 1000;
+
+// One scoring run per chain at a time; callers during a run share its result
+const runsInFlight = new Map<Chain, Promise<RiskScoringRun>>();
+
+const toRun = (row: Record<string, unknown>): RiskScoringRun => ({
+  runId: row.runId as string,
+  chain: row.chain as Chain,
+  startedAt: row.startedAt as string,
+  completedAt: row.completedAt as string,
+  since: (row.since as string | null) ?? null,
+  transferCount: toNumberOrNull(row.transferCount) ?? 0,
+  scanTruncated: row.scanTruncated as boolean,
+  addressCount: toNumberOrNull(row.addressCount) ?? 0,
+  outlierCount: toNumberOrNull(row.outlierCount) ?? 0,
+  threshold: toNumberOrNull(row.threshold) ?? 0,
+  featureStats: JSON.parse(row.featureStats as string)
+});
+
+/**
+ * Finds the earliest stored transfer of each address, over all transfers
+ * rather than only the scored window
+ */
+const loadFirstSeen = async (chain: Chain, addresses: string[]): Promise<Map<string, string>> => {
+  const firstSeen = new Map<string, string>();
+  const session = getSession();
+  try {
+    for (let i = 0; i < addresses.length; i += FIRST_SEEN_BATCH_SIZE) {
+      const result = await session.run(
+        `UNWIND $addresses AS address
+        MATCH (a:Address {chain: $chain, address: address})-[tr:TRANSFERRED]-()
+        WHERE tr.blockTime IS NOT NULL
+        RETURN address, min(tr.blockTime) AS firstSeen`,
+        { chain, addresses: addresses.slice(i, i + FIRST_SEEN_BATCH_SIZE) }
+      );
+      result.records.forEach(record => firstSeen.set(record.get("address"), record.get("firstSeen")));
+    }
+    return firstSeen;
+  } catch (error) {
+    throw handleNeo4jError(error, { chain, addressCount: addresses.length });
+  } finally {
+    await session.close();
+  }
+};
+
+const scoreChain = async (chain: Chain, since?: string): Promise<RiskScoringRun> => {
+  const { scanLimit, outlierThreshold } = config.blockchain.riskScoring;
+  const startedAt = new Date().toISOString();
+
+  const { transfers, truncated } = await loadTransfers(chain, { since }, scanLimit);
+  const addresses = [...new Set(transfers.flatMap(transfer => [transfer.from, transfer.to]))];
+  const features = computeAddressFeatures(transfers, await loadFirstSeen(chain, addresses));
+  const stats = featureStats(features);
+  const flagOutliers = features.length >= MIN_SCORING_POPULATION;
+
+  const scored = features.map(entry => ({ features: entry, ...scoreAddress(entry, stats) }));
+  const scores = scored.map(entry => entry.score).sort((a, b) => a - b);
+  // Share of addresses scoring strictly lower, found by binary search over the sorted scores
+  const percentile = (score: number) => {
+    let low = 0;
+    let high = scores.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (scores[middle] < score) low = middle + 1;
+      else high = middle;
+    }
+    return scores.length ? Number((low / scores.length).toFixed(4)) : 0;
+  };
+
+  const run: RiskScoringRun = {
+    runId: generateCustomId('RISK_RUN'),
+    chain,
+    startedAt,
+    completedAt: new Date().toISOString(),
+    since: since ?? null,
+    transferCount: transfers.length,
+    scanTruncated: truncated,
+    addressCount: features.length,
+    outlierCount: flagOutliers ? scored.filter(entry => entry.score >= outlierThreshold).length : 0,
+    threshold: outlierThreshold,
+    featureStats: stats
+  };
+
+  const rows = scored.map(({ features: entry, score, contributions }) => ({
+    address: entry.address,
+    properties: {
+      degreeCentrality: entry.degreeCentrality,
+      pageRank: entry.pageRank,
+      clusteringCoefficient: entry.clusteringCoefficient,
+      burstiness: entry.burstiness,
+      ageDays: entry.ageDays,
+      riskScore: score,
+      riskPercentile: percentile(score),
+      riskOutlier: flagOutliers && score >= outlierThreshold,
+      riskFeatures: JSON.stringify(entry),
+      riskContributions: JSON.stringify(contributions),
+      riskRunId: run.runId,
+      riskScoredAt: run.completedAt
+    }
+  }));
+
+  try {
+    for (let i = 0; i < rows.length; i += WRITE_BATCH_SIZE) {
+      await withTransaction(async tx => {
+        await tx.run(
+          `UNWIND $rows AS row
+          MATCH (a:Address {chain: $chain, address: row.address})
+          SET a += row.properties`,
+          { chain, rows: rows.slice(i, i + WRITE_BATCH_SIZE) }
+        );
+      });
+    }
+
+    await withTransaction(async tx => {
+      await tx.run(
+        `MERGE (r:RiskScoringRun {chain: $chain})
+        SET r += $run`,
+        { chain, run: { ...run, featureStats: JSON.stringify(run.featureStats) } }
+      );
+    });
+  } catch (error) {
+    throw handleNeo4jError(error, { chain, runId: run.runId });
+  }
+
+  logger.info("Address risk scoring completed", {
+    chain,
+    runId: run.runId,
+    transferCount: run.transferCount,
+    addressCount: run.addressCount,
+    outlierCount: run.outlierCount
+  });
+
+  return run;
+};
+
+/**
+ * Computes graph features of every address in the most recent transfers of
+ * a chain, scores them against each other, and stores features and scores
+ * on the Address nodes. Runs entirely in-process, so no graph plugins are
+ * needed. A run requested while one is in progress for the chain shares it.
+ * @param chain The chain to score
+ * @param options Only score transfers at or after since
+ * @returns The run, with the population statistics scores were taken against
+ */
+export const runRiskScoring = (
+  chain: Chain,
+  options: { since?: string } = {}
+): Promise<RiskScoringRun> => {
+  const running = runsInFlight.get(chain);
+  if (running) return running;
+
+  const run = scoreChain(chain, options.since).finally(() => runsInFlight.delete(chain));
+  runsInFlight.set(chain, run);
+  return run;
+};
+
+const getLatestRun = async (chain: Chain): Promise<RiskScoringRun | null> => {
+  const session = getSession();
+  try {
+    const result = await session.run(
+      `MATCH (r:RiskScoringRun {chain: $chain}) RETURN properties(r) AS run`,
+      { chain }
+    );
+    return result.records.length ? toRun(result.records[0].get("run")) : null;
+  } catch (error) {
+    throw handleNeo4jError(error, { chain });
+  } finally {
+    await session.close();
+  }
+};
+
+const summarize = (
+  score: number,
+  outlier: boolean,
+  run: RiskScoringRun,
+  contributions: RiskFeatureContribution[]
+): string => {
+  const drivers = contributions
+    .filter(entry => entry.contribution > 0)
+    .slice(0, 3)
+    .map(entry => `${entry.feature} (${Math.round(entry.share * 100)}%)`);
+
+  if (run.addressCount < MIN_SCORING_POPULATION) {
+    return `Score ${score}, but only ${run.addressCount} addresses were scored, too few to flag outliers`;
+  }
+  if (outlier) {
+    return `Outlier: score ${score} is at or above ${run.threshold}, driven by ${drivers.join(', ')}`;
+  }
+  return `Not an outlier: score ${score} is below ${run.threshold}` + (drivers.length
+    ? `; largest contributions from ${drivers.join(', ')}`
+    : '; no feature is unusual in a suspicious direction');
+};
+
+/**
+ * Gets the stored risk score of an address and explains which features
+ * contributed to it. The chain is scored first when asked to, or when it
+ * has never been scored.
+ * @param chain The chain of the address
+ * @param address The canonical address
+ * @param options Whether to score the chain again first, and from when
+ * @returns The score, its feature contributions and the run it came from
+ * @throws {McpError} If the address has never been scored
+ */
+export const getAddressRiskScore = async (
+  chain: Chain,
+  address: string,
+  options: { rescore?: boolean; since?: string } = {}
+): Promise<AddressRiskScore> => {
+  const run = options.rescore
+    ? await runRiskScoring(chain, { since: options.since })
+    : (await getLatestRun(chain)) ?? await runRiskScoring(chain, { since: options.since });
+
+  const session = getSession();
+  try {
+    const result = await session.run(
+      `MATCH (a:Address {chain: $chain, address: $address})
+      WHERE a.riskScoredAt IS NOT NULL
+      RETURN a.riskScore AS score, a.riskOutlier AS outlier, a.riskPercentile AS percentile,
+             a.riskContributions AS contributions, a.riskRunId AS runId, a.riskScoredAt AS scoredAt`,
+      { chain, address }
+    );
+
+    if (!result.records.length) {
+      throw new McpError(
+        ChainErrorCode.ADDRESS_NOT_FOUND,
+        `Address ${address} has not been risk scored on ${chain}: it has no transfers in the scored window`,
+        { chain, address, runId: run.runId }
+      );
+    }
+
+    const record = result.records[0];
+    const score = toNumberOrNull(record.get("score")) ?? 0;
+    const outlier = record.get("outlier") as boolean;
+    const features = JSON.parse(record.get("contributions")) as RiskFeatureContribution[];
+
+    return {
+      chain,
+      address,
+      score,
+      outlier,
+      percentile: toNumberOrNull(record.get("percentile")) ?? 0,
+      stale: record.get("runId") !== run.runId,
+      scoredAt: record.get("scoredAt"),
+      run,
+      features,
+      summary: summarize(score, outlier, run, features),
+      names: await resolveAddressNames(chain, [address])
+    };
+  } catch (error) {
+    if (error instanceof McpError) throw error;
+    throw handleNeo4jError(error, { chain, address });
+  } finally {
+    await session.close();
+  }
+};
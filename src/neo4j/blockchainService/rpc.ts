@@ -0,0 +1,123 @@
+import path from "path";
+import { promises as fsPromises } from "fs";
+import { config } from "../../config/index.js";
+import { logger } from "../../utils/logger.js";
+import { McpError, ChainErrorCode } from "../../types/errors.js";
+
+interface JsonRpcResponse<T> {
+  jsonrpc: string;
+  id: number | string;
+  result?: T;
+  error?: {
+    code: number;
+    message: string;
+    data?: unknown;
+  };
+}
+
+let requestCounter = 0;
+
+/**
+ * Calls a JSON-RPC 2.0 method on a chain node
+ * @param url The RPC endpoint
+ * @param method The RPC method name (e.g. "getTransaction")
+ * @param params Positional parameters for the method
+ * @returns The `result` member of the response
+ * @throws {McpError} If the request fails, times out, or returns an RPC error
+ */
+export const callJsonRpc = async <T>(url: string, method: string, params: unknown[]): Promise<T> => {
+  const id = ++requestCounter;
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), config.blockchain.rpcTimeoutMs);
+
+  try {
+    logger.debug("Calling chain RPC", { url, method, id });
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ jsonrpc: "2.0", id, method, params }),
+      signal: controller.signal
+    });
+
+    if (!response.ok) {
+      throw new McpError(
+        ChainErrorCode.RPC_ERROR,
+        `RPC request ${method} failed with HTTP ${response.status}`,
+        { url, method, status: response.status }
+      );
+    }
+
+    const body = await response.json() as JsonRpcResponse<T>;
+    if (body.error) {
+      throw new McpError(
+        ChainErrorCode.RPC_ERROR,
+        `RPC request ${method} failed: ${body.error.message}`,
+        { url, method, rpcCode: body.error.code }
+      );
+    }
+
+    return body.result as T;
+  } catch (error) {
+    if (error instanceof McpError) throw error;
+
+    throw new McpError(
+      ChainErrorCode.RPC_ERROR,
+      `RPC request ${method} failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      { url, method }
+    );
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+/**
+ * Loads saved RPC payloads from a directory of JSON files.
+ * Each file may contain a bare result object, a JSON-RPC envelope with a
+ * `result` member, or an array of either.
+ * @param directory Directory to read (non-recursive)
+ * @returns The unwrapped payloads, ordered by file name
+ * @throws {McpError} If the directory cannot be read or a file is not valid JSON
+ */
+export const loadJsonDirectory = async <T>(directory: string): Promise<T[]> => {
+  let files: string[];
+  try {
+    files = (await fsPromises.readdir(directory))
+      .filter(f => f.endsWith('.json'))
+      .sort();
+  } catch (error) {
+    throw new McpError(
+      ChainErrorCode.SOURCE_NOT_FOUND,
+      `Cannot read directory: ${directory}`,
+      { directory }
+    );
+  }
+
+  const payloads: T[] = [];
+  for (const file of files) {
+    const filePath = path.join(directory, file);
+    let content: unknown;
+    try {
+      content = JSON.parse(await fsPromises.readFile(filePath, 'utf-8'));
+    } catch (error) {
+      throw new McpError(
+        ChainErrorCode.INVALID_TRANSACTION,
+        `Invalid JSON in ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        { filePath }
+      );
+    }
+
+    const entries = Array.isArray(content) ? content : [content];
+    for (const entry of entries) {
+      const unwrapped = entry && typeof entry === 'object' && 'result' in entry
+        ? (entry as JsonRpcResponse<T>).result
+        : entry as T;
+      if (unwrapped) {
+        payloads.push(unwrapped);
+      }
+    }
+  }
+
+  logger.debug("Loaded chain payloads from directory", { directory, files: files.length, payloads: payloads.length });
+  return payloads;
+};
@@ -0,0 +1,519 @@
+import neo4j, { ManagedTransaction } from "neo4j-driver";
+import { withTransaction } from "../driver.js";
+import { config } from "../../config/index.js";
+import { logger } from "../../utils/logger.js";
+import { McpError, BaseErrorCode, ChainErrorCode } from "../../types/errors.js";
+import { processBulk } from "../../utils/bulkOperationManager.js";
+import { handleNeo4jError } from "../projectService/utils.js";
+import { decodeBase58, normalizeChainAddress } from "../../utils/chainAddress.js";
+import { loadJsonDirectory } from "./rpc.js";
+import { ChainDataProvider, getChainDataProvider } from "./chainDataProvider.js";
+import { writeBalanceChanges, writeTransfers } from "./addressService.js";
+import { evaluateAlertRules } from "./alertService.js";
+import { decodeSolanaBridgeEvents } from "./bridges.js";
+import { decodeInstruction, loadIdlRegistry } from "./idlRegistry.js";
+import { matchBridgeEvents, writeBridgeEvents } from "./bridgeTracing.js";
+import { NATIVE_ASSETS, aggregateBalanceChanges, deriveTransfers } from "./utils.js";
+import {
+  BalanceChange,
+  ChainInstruction,
+  IngestResult,
+  ParsedSolanaTransaction,
+  SolanaAccountKey,
+  SolanaRawInstruction,
+  SolanaTokenBalance,
+  SolanaTransactionResponse
+} from "./types.js";
+
+/**
+ * Resolves the full account list of a transaction, including addresses
+ * loaded from lookup tables for v0 transactions
+ */
+const resolveAccountKeys = (tx: SolanaTransactionResponse): SolanaAccountKey[] => {
+  const { message } = tx.transaction;
+  const numSigners = message.header?.numRequiredSignatures ?? 1;
+
+  const keys: SolanaAccountKey[] = message.accountKeys.map((key, i) =>
+    typeof key === 'string'
+      ? { pubkey: key, signer: i < numSigners, writable: false }
+      : key
+  );
+
+  // jsonParsed responses already include lookup table addresses in accountKeys
+  const alreadyResolved = message.accountKeys.some(key => typeof key !== 'string' && key.source === 'lookupTable');
+  const loaded = tx.meta?.loadedAddresses;
+  if (loaded && !alreadyResolved) {
+    loaded.writable.forEach(pubkey => keys.push({ pubkey, signer: false, writable: true }));
+    loaded.readonly.forEach(pubkey => keys.push({ pubkey, signer: false, writable: false }));
+  }
+
+  return keys;
+};
+
+const resolveAccount = (keys: SolanaAccountKey[], ref: number | string, signature: string): string => {
+  if (typeof ref === 'string') return ref;
+  const key = keys[ref];
+  if (!key) {
+    throw new McpError(
+      ChainErrorCode.INVALID_TRANSACTION,
+      `Account index ${ref} out of range in transaction ${signature}`,
+      { signature }
+    );
+  }
+  return key.pubkey;
+};
+
+// Anchor programs prefix instruction data with an 8-byte discriminator
+const DISCRIMINATOR_BYTES = 8;
+
+/**
+ * Derives a stable key for grouping calls by instruction: the parsed type for
+ * known programs, otherwise the leading bytes of the instruction data as hex
+ */
+const instructionDiscriminator = (raw: SolanaRawInstruction): string | null => {
+  const parsed = raw.parsed as { type?: unknown } | undefined;
+  if (parsed && typeof parsed === 'object' && typeof parsed.type === 'string') return parsed.type;
+  if (!raw.data) return null;
+  const bytes = decodeBase58(raw.data);
+  if (!bytes || !bytes.length) return null;
+  return Buffer.from(bytes.subarray(0, DISCRIMINATOR_BYTES)).toString('hex');
+};
+
+const normalizeInstruction = (
+  keys: SolanaAccountKey[],
+  raw: SolanaRawInstruction,
+  signature: string
+): Pick<ChainInstruction, 'programId' | 'accounts' | 'data' | 'discriminator' | 'name' | 'args' | 'decoder'> => {
+  const programRef = raw.programId ?? raw.programIdIndex;
+  if (programRef === undefined) {
+    throw new McpError(
+      ChainErrorCode.INVALID_TRANSACTION,
+      `Instruction without program in transaction ${signature}`,
+      { signature }
+    );
+  }
+
+  const programId = resolveAccount(keys, programRef, signature);
+  const decoded = raw.data ? decodeInstruction(programId, raw.data) : null;
+
+  return {
+    programId,
+    accounts: (raw.accounts || []).map(ref => resolveAccount(keys, ref, signature)),
+    // Parsed instructions carry no raw data; keep the decoded form instead
+    data: raw.data ?? (raw.parsed !== undefined ? JSON.stringify(raw.parsed) : ''),
+    discriminator: instructionDiscriminator(raw),
+    name: decoded?.name ?? null,
+    args: decoded?.args ? JSON.stringify(decoded.args) : null,
+    decoder: decoded?.decoder ?? null
+  };
+};
+
+/**
+ * Derives native and SPL token balance changes from a transaction's
+ * pre/post balances. Token balances are attributed to the token account owner.
+ */
+const parseBalanceChanges = (tx: SolanaTransactionResponse, keys: SolanaAccountKey[]): BalanceChange[] => {
+  const meta = tx.meta;
+  if (!meta) return [];
+  const native = NATIVE_ASSETS.solana;
+
+  const nativeObservations = keys.flatMap((key, i) => {
+    const pre = meta.preBalances[i];
+    const post = meta.postBalances[i];
+    if (pre === undefined || post === undefined || pre === post) return [];
+    return [{
+      address: normalizeChainAddress('solana', key.pubkey),
+      mint: native.mint,
+      delta: BigInt(post) - BigInt(pre),
+      pre: BigInt(pre),
+      post: BigInt(post),
+      decimals: native.decimals
+    }];
+  });
+
+  // Pair token balances by account index; accounts may be opened or closed within the transaction
+  const tokenAccounts = new Map<number, { pre?: SolanaTokenBalance; post?: SolanaTokenBalance }>();
+  (meta.preTokenBalances || []).forEach(b => tokenAccounts.set(b.accountIndex, { ...tokenAccounts.get(b.accountIndex), pre: b }));
+  (meta.postTokenBalances || []).forEach(b => tokenAccounts.set(b.accountIndex, { ...tokenAccounts.get(b.accountIndex), post: b }));
+
+  const tokenObservations = [...tokenAccounts.entries()].map(([accountIndex, { pre, post }]) => {
+    const balance = (post ?? pre) as SolanaTokenBalance;
+    const preAmount = BigInt(pre?.uiTokenAmount.amount ?? '0');
+    const postAmount = BigInt(post?.uiTokenAmount.amount ?? '0');
+    return {
+      address: normalizeChainAddress('solana', balance.owner ?? keys[accountIndex].pubkey),
+      mint: balance.mint,
+      delta: postAmount - preAmount,
+      pre: preAmount,
+      post: postAmount,
+      decimals: balance.uiTokenAmount.decimals
+    };
+  });
+
+  return aggregateBalanceChanges([...nativeObservations, ...tokenObservations]);
+};
+
+/**
+ * Normalizes a Solana `getTransaction` response into graph records
+ * @param tx The raw RPC response
+ * @returns The transaction, its flattened instruction tree, balance changes and inferred transfers
+ * @throws {McpError} If the response is malformed
+ */
+export const parseSolanaTransaction = (tx: SolanaTransactionResponse): ParsedSolanaTransaction => {
+  const signature = tx?.transaction?.signatures?.[0];
+  if (!signature || !tx.transaction.message) {
+    throw new McpError(
+      ChainErrorCode.INVALID_TRANSACTION,
+      'Transaction response is missing a signature or message'
+    );
+  }
+
+  const keys = resolveAccountKeys(tx);
+  const signers = keys.filter(k => k.signer).map(k => normalizeChainAddress('solana', k.pubkey));
+  const instructions: ChainInstruction[] = [];
+
+  tx.transaction.message.instructions.forEach((raw, index) => {
+    instructions.push({
+      id: `${signature}:${index}`,
+      signature,
+      path: `${index}`,
+      index,
+      innerIndex: null,
+      stackHeight: 1,
+      parentId: null,
+      ...normalizeInstruction(keys, raw, signature)
+    });
+  });
+
+  for (const group of tx.meta?.innerInstructions || []) {
+    // Track the most recent instruction at each stack height to rebuild the CPI tree
+    const stack: string[] = [`${signature}:${group.index}`];
+
+    group.instructions.forEach((raw, innerIndex) => {
+      // Older RPC nodes omit stackHeight; treat those as direct children of the outer instruction
+      const stackHeight = raw.stackHeight ?? 2;
+      const id = `${signature}:${group.index}.${innerIndex}`;
+      const parentId = stack[Math.min(stackHeight - 2, stack.length - 1)];
+
+      stack.length = Math.max(1, stackHeight - 1);
+      stack.push(id);
+
+      instructions.push({
+        id,
+        signature,
+        path: `${group.index}.${innerIndex}`,
+        index: group.index,
+        innerIndex,
+        stackHeight,
+        parentId,
+        ...normalizeInstruction(keys, raw, signature)
+      });
+    });
+  }
+
+  const err = tx.meta?.err ?? null;
+  const fee = tx.meta?.fee ?? 0;
+  const balanceChanges = parseBalanceChanges(tx, keys);
+
+  const parsed = {
+    transaction: {
+      signature,
+      chain: 'solana' as const,
+      slot: tx.slot,
+      blockTime: tx.blockTime ? new Date(tx.blockTime * 1000).toISOString() : null,
+      fee,
+      success: err === null,
+      error: err === null ? null : JSON.stringify(err),
+      computeUnits: tx.meta?.computeUnitsConsumed ?? null,
+      feePayer: signers[0],
+      signers
+    },
+    instructions,
+    balanceChanges,
+    transfers: deriveTransfers(balanceChanges, NATIVE_ASSETS.solana, signers[0], fee)
+  };
+  return { ...parsed, bridgeEvents: decodeSolanaBridgeEvents(parsed) };
+};
+
+const writeSolanaTransaction = async (tx: ManagedTransaction, parsed: ParsedSolanaTransaction) => {
+  const { transaction, instructions, balanceChanges, transfers, bridgeEvents } = parsed;
+  const now = new Date().toISOString();
+
+  await tx.run(
+    `MERGE (t:Transaction {signature: $signature})
+    ON CREATE SET t.createdAt = $now
+    SET t.chain = $chain,
+        t.slot = $slot,
+        t.blockTime = $blockTime,
+        t.fee = $fee,
+        t.success = $success,
+        t.error = $error,
+        t.computeUnits = $computeUnits,
+        t.updatedAt = $now
+    WITH t
+    UNWIND $signers AS signer
+    MERGE (a:Address {chain: $chain, address: signer})
+    ON CREATE SET a.createdAt = $now
+    MERGE (a)-[s:SENT]->(t)
+    SET s.feePayer = (signer = $feePayer)`,
+    {
+      ...transaction,
+      slot: neo4j.int(transaction.slot),
+      fee: neo4j.int(transaction.fee),
+      computeUnits: transaction.computeUnits === null ? null : neo4j.int(transaction.computeUnits),
+      now
+    }
+  );
+
+  const position = {
+    chain: transaction.chain,
+    signature: transaction.signature,
+    blockTime: transaction.blockTime,
+    slot: transaction.slot
+  };
+  await writeBalanceChanges(tx, position, balanceChanges);
+  await writeTransfers(tx, position, transfers);
+  await writeBridgeEvents(tx, transaction.signature, bridgeEvents);
+
+  if (!instructions.length) return;
+
+  await tx.run(
+    `MATCH (t:Transaction {signature: $signature})
+    UNWIND $instructions AS ix
+    MERGE (p:Program {address: ix.programId})
+    ON CREATE SET p.chain = $chain,
+                  p.createdAt = $now
+    MERGE (i:Instruction {id: ix.id})
+    SET i.signature = ix.signature,
+        i.path = ix.path,
+        i.index = ix.index,
+        i.innerIndex = ix.innerIndex,
+        i.stackHeight = ix.stackHeight,
+        i.programId = ix.programId,
+        i.accounts = ix.accounts,
+        i.data = ix.data,
+        i.discriminator = ix.discriminator,
+        i.name = ix.name,
+        i.args = ix.args,
+        i.decoder = ix.decoder
+    MERGE (t)-[:HAS_INSTRUCTION]->(i)
+    MERGE (i)-[:INVOKED]->(p)`,
+    {
+      signature: transaction.signature,
+      chain: transaction.chain,
+      now,
+      instructions: instructions.map(ix => ({
+        ...ix,
+        index: neo4j.int(ix.index),
+        innerIndex: ix.innerIndex === null ? null : neo4j.int(ix.innerIndex),
+        stackHeight: neo4j.int(ix.stackHeight)
+      }))
+    }
+  );
+
+  // Link CPIs to the instruction that invoked them
+  await tx.run(
+    `UNWIND $edges AS edge
+    MATCH (parent:Instruction {id: edge.parentId})
+    MATCH (child:Instruction {id: edge.id})
+    MERGE (parent)-[:CALLED]->(child)`,
+    {
+      edges: instructions
+        .filter(ix => ix.parentId !== null)
+        .map(ix => ({ id: ix.id, parentId: ix.parentId }))
+    }
+  );
+};
+
+/**
+ * Writes a single Solana transaction, its signers, instructions, programs,
+ * balance changes and transfers to the graph. Re-ingesting the same signature is idempotent.
+ * @param raw The raw `getTransaction` response
+ * @returns The transaction signature
+ */
+export const ingestSolanaTransaction = async (raw: SolanaTransactionResponse): Promise<string> => {
+  await loadIdlRegistry();
+  const parsed = parseSolanaTransaction(raw);
+  try {
+    await withTransaction(tx => writeSolanaTransaction(tx, parsed));
+    return parsed.transaction.signature;
+  } catch (error) {
+    throw handleNeo4jError(error, { signature: parsed.transaction.signature });
+  }
+};
+
+// Alerting never fails ingestion; the transactions are already written
+const raiseAlerts = async (ids: string[]): Promise<string[]> => {
+  try {
+    return (await evaluateAlertRules('solana', ids)).map(alert => alert.id);
+  } catch (error) {
+    logger.warn("Failed to evaluate alert rules after ingestion", { chain: 'solana', count: ids.length, error });
+    return [];
+  }
+};
+
+// Likewise for bridge matching; unmatched events are retried when the other side arrives
+const matchBridges = async (ids: string[]): Promise<void> => {
+  try {
+    await matchBridgeEvents('solana', ids);
+  } catch (error) {
+    logger.warn("Failed to match bridge transfers after ingestion", { chain: 'solana', count: ids.length, error });
+  }
+};
+
+/**
+ * Ingests a batch of raw Solana transactions, collecting per-item failures
+ * @param transactions Raw `getTransaction` responses
+ * @returns Ingested signatures and per-item errors
+ */
+export const ingestSolanaTransactions = async (
+  transactions: SolanaTransactionResponse[]
+): Promise<IngestResult> => {
+  const result = await processBulk<SolanaTransactionResponse, string>(
+    transactions,
+    ingestSolanaTransaction,
+    {
+      operationName: 'solana transaction ingestion',
+      concurrency: 4,
+      defaultErrorCode: BaseErrorCode.INTERNAL_ERROR
+    }
+  );
+  await matchBridges(result.successes);
+
+  return {
+    chain: 'solana',
+    requested: transactions.length,
+    ingested: result.successes,
+    alerts: await raiseAlerts(result.successes),
+    errors: result.errors.map(error => ({
+      index: error.index,
+      id: error.item?.transaction?.signatures?.[0],
+      code: error.error.code,
+      message: error.error.message
+    }))
+  };
+};
+
+/**
+ * Fetches a transaction through a chain data provider
+ * @param signature The transaction signature
+ * @param provider Provider to read from (default: the configured one)
+ * @throws {McpError} If the request fails or the transaction is unknown
+ */
+export const fetchSolanaTransaction = async (
+  signature: string,
+  provider: ChainDataProvider = getChainDataProvider()
+): Promise<SolanaTransactionResponse> => {
+  const tx = await provider.request<SolanaTransactionResponse | null>(
+    'solana',
+    'getTransaction',
+    [signature, {
+      encoding: 'json',
+      commitment: config.blockchain.solana.commitment,
+      maxSupportedTransactionVersion: 0
+    }]
+  );
+
+  if (!tx) {
+    throw new McpError(
+      ChainErrorCode.TRANSACTION_NOT_FOUND,
+      `Transaction ${signature} not found`,
+      { signature }
+    );
+  }
+  return tx;
+};
+
+/**
+ * Lists one page of transaction signatures involving an address, newest first
+ * @param address The account address
+ * @param options Page size (RPC caps this at 1000), and signatures to page
+ *   backwards from (`before`) and to stop at (`until`), both exclusive
+ */
+export const fetchSolanaSignaturePage = async (
+  address: string,
+  options: { limit: number; before?: string; until?: string },
+  provider: ChainDataProvider = getChainDataProvider()
+): Promise<Array<{ signature: string; slot: number }>> =>
+  provider.request<Array<{ signature: string; slot: number }>>(
+    'solana',
+    'getSignaturesForAddress',
+    [address, { ...options, commitment: config.blockchain.solana.commitment }]
+  );
+
+/**
+ * Lists recent transaction signatures involving an address
+ * @param address The account address
+ * @param limit Maximum number of signatures (RPC caps this at 1000)
+ * @param before Optional signature to page backwards from
+ * @param provider Provider to read from (default: the configured one)
+ */
+export const fetchSolanaSignaturesForAddress = async (
+  address: string,
+  limit: number,
+  before?: string,
+  provider: ChainDataProvider = getChainDataProvider()
+): Promise<string[]> => {
+  const entries = await fetchSolanaSignaturePage(address, { limit, before }, provider);
+  return entries.map(entry => entry.signature);
+};
+
+/**
+ * Fetches and ingests transactions through a chain data provider (the live
+ * RPC endpoint or recorded fixtures), either by explicit signatures or by
+ * walking an address's recent history
+ */
+export const ingestSolanaFromRpc = async (options: {
+  signatures?: string[];
+  address?: string;
+  limit?: number;
+  concurrency?: number;
+  provider?: ChainDataProvider;
+}): Promise<IngestResult> => {
+  const provider = options.provider ?? getChainDataProvider();
+  const signatures = [...(options.signatures || [])];
+  if (options.address) {
+    signatures.push(...await fetchSolanaSignaturesForAddress(options.address, options.limit || 100, undefined, provider));
+  }
+
+  logger.info("Ingesting Solana transactions from RPC", {
+    count: signatures.length,
+    address: options.address,
+    provider: provider.kind
+  });
+
+  const fetched = await processBulk<string, SolanaTransactionResponse>(
+    [...new Set(signatures)],
+    signature => fetchSolanaTransaction(signature, provider),
+    {
+      operationName: 'solana transaction fetch',
+      concurrency: options.concurrency ?? 4,
+      defaultErrorCode: ChainErrorCode.RPC_ERROR
+    }
+  );
+
+  const result = await ingestSolanaTransactions(fetched.successes);
+  return {
+    ...result,
+    requested: signatures.length,
+    errors: [
+      ...fetched.errors.map(error => ({
+        index: error.index,
+        id: error.item,
+        code: error.error.code,
+        message: error.error.message
+      })),
+      ...result.errors
+    ]
+  };
+};
+
+/**
+ * Ingests saved `getTransaction` responses from a directory of JSON files
+ * @param directory Directory containing the saved responses
+ */
+export const ingestSolanaFromDirectory = async (directory: string): Promise<IngestResult> => {
+  const transactions = await loadJsonDirectory<SolanaTransactionResponse>(directory);
+  logger.info("Ingesting Solana transactions from directory", { directory, count: transactions.length });
+  return ingestSolanaTransactions(transactions);
+};
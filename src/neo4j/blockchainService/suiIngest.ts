@@ -0,0 +1,627 @@
+import neo4j, { ManagedTransaction } from "neo4j-driver";
+import { withTransaction } from "../driver.js";
+import { logger } from "../../utils/logger.js";
+import { McpError, BaseErrorCode, ChainErrorCode } from "../../types/errors.js";
+import { processBulk } from "../../utils/bulkOperationManager.js";
+import { generateCustomId } from "../../utils/idGenerator.js";
+import { handleNeo4jError } from "../projectService/utils.js";
+import { normalizeChainAddress } from "../../utils/chainAddress.js";
+import { loadJsonDirectory } from "./rpc.js";
+import { ChainDataProvider, getChainDataProvider } from "./chainDataProvider.js";
+import { writeBalanceChanges, writeTransfers } from "./addressService.js";
+import { evaluateAlertRules } from "./alertService.js";
+import { decodeSuiBridgeEvents } from "./bridges.js";
+import { matchBridgeEvents, writeBridgeEvents } from "./bridgeTracing.js";
+import { formatMoveType, moveStructName, parseMoveType } from "./moveAbi.js";
+import { decodeMoveCall, decodeSuiEvent, prepareMoveAbis } from "./moveAbiRegistry.js";
+import { NATIVE_ASSETS, aggregateBalanceChanges, deriveTransfers } from "./utils.js";
+import {
+  BalanceChange,
+  IngestResult,
+  ObjectChangeKind,
+  ParsedSuiTransaction,
+  SuiEvent,
+  SuiMoveCall,
+  SuiMoveCallCommand,
+  SuiObjectChange,
+  SuiObjectVersionChange,
+  SuiOwner,
+  SuiPublishedPackage,
+  SuiTransactionBlockResponse
+} from "./types.js";
+
+// Options requested for every transaction block fetched over RPC
+const SUI_RESPONSE_OPTIONS = {
+  showInput: true,
+  showEffects: true,
+  showObjectChanges: true,
+  showBalanceChanges: true,
+  showEvents: true
+};
+
+// sui_multiGetTransactionBlocks accepts at most 50 digests per call
+const SUI_MULTI_GET_LIMIT = 50;
+
+const parseOwner = (owner: SuiOwner | undefined): Pick<SuiObjectVersionChange, 'ownerType' | 'owner'> => {
+  if (!owner) return { ownerType: null, owner: null };
+  if (owner === 'Immutable') return { ownerType: 'immutable', owner: null };
+  if ('AddressOwner' in owner) return { ownerType: 'address', owner: normalizeChainAddress('sui', owner.AddressOwner as string) };
+  if ('ObjectOwner' in owner) return { ownerType: 'object', owner: owner.ObjectOwner as string };
+  if ('Shared' in owner) return { ownerType: 'shared', owner: null };
+  return { ownerType: null, owner: null };
+};
+
+const toVersionChange = (
+  kind: ObjectChangeKind,
+  objectId: string,
+  version: string | number,
+  fields: Partial<Pick<SuiObjectVersionChange, 'objectType' | 'digest' | 'previousVersion'>> & { owner?: SuiOwner }
+): SuiObjectVersionChange => {
+  const previousVersion = fields.previousVersion ? String(fields.previousVersion) : null;
+  return {
+    kind,
+    objectId,
+    objectType: fields.objectType ?? null,
+    version: String(version),
+    versionId: `${objectId}:${version}`,
+    customId: generateCustomId('OBJECT_VERSION'),
+    digest: fields.digest ?? null,
+    ...parseOwner(fields.owner),
+    previousVersion,
+    previousVersionId: previousVersion ? `${objectId}:${previousVersion}` : null,
+    previousCustomId: previousVersion ? generateCustomId('OBJECT_VERSION') : null
+  };
+};
+
+// Map objectChanges entries onto the three version edges we model
+const OBJECT_CHANGE_KINDS: Partial<Record<SuiObjectChange['type'], ObjectChangeKind>> = {
+  created: 'created',
+  unwrapped: 'created',
+  mutated: 'mutated',
+  transferred: 'mutated',
+  deleted: 'deleted',
+  wrapped: 'deleted',
+  unwrappedThenDeleted: 'deleted'
+};
+
+const parseObjectChanges = (tx: SuiTransactionBlockResponse): SuiObjectVersionChange[] => {
+  if (tx.objectChanges) {
+    return tx.objectChanges.flatMap(change => {
+      const kind = OBJECT_CHANGE_KINDS[change.type];
+      if (!kind || !change.objectId) return [];
+      return [toVersionChange(kind, change.objectId, change.version, {
+        objectType: change.objectType,
+        digest: change.digest,
+        previousVersion: change.previousVersion,
+        owner: change.owner ?? change.recipient
+      })];
+    });
+  }
+
+  // Fall back to effects when object changes were not requested
+  const effects = tx.effects;
+  if (!effects) return [];
+  return [
+    ...(effects.created || []).map(c => toVersionChange('created', c.reference.objectId, c.reference.version, { digest: c.reference.digest, owner: c.owner })),
+    ...(effects.unwrapped || []).map(c => toVersionChange('created', c.reference.objectId, c.reference.version, { digest: c.reference.digest, owner: c.owner })),
+    ...(effects.mutated || []).map(c => toVersionChange('mutated', c.reference.objectId, c.reference.version, { digest: c.reference.digest, owner: c.owner })),
+    ...(effects.deleted || []).map(ref => toVersionChange('deleted', ref.objectId, ref.version, { digest: ref.digest })),
+    ...(effects.wrapped || []).map(ref => toVersionChange('deleted', ref.objectId, ref.version, { digest: ref.digest }))
+  ];
+};
+
+const parseMoveCalls = (tx: SuiTransactionBlockResponse): SuiMoveCall[] => {
+  const commands = tx.transaction?.data.transaction?.transactions || [];
+  const inputs = tx.transaction?.data.transaction?.inputs || [];
+  return commands.flatMap((command, commandIndex) => {
+    const call = command.MoveCall as SuiMoveCallCommand | undefined;
+    if (!call) return [];
+    const args = decodeMoveCall(call, inputs);
+    return [{
+      id: `${tx.digest}:${commandIndex}`,
+      customId: generateCustomId('MOVE_CALL'),
+      digest: tx.digest,
+      commandIndex,
+      package: call.package,
+      module: call.module,
+      function: call.function,
+      typeArguments: call.type_arguments || [],
+      args: args ? JSON.stringify(args) : null
+    }];
+  });
+};
+
+// Event types are stored with full-length addresses so filters match however the type was written
+const eventType = (type: string): Pick<SuiEvent, 'type' | 'structType'> => {
+  try {
+    return { type: formatMoveType(parseMoveType(type)), structType: moveStructName(type) };
+  } catch {
+    return { type, structType: type };
+  }
+};
+
+const parseEvents = (tx: SuiTransactionBlockResponse): SuiEvent[] =>
+  (tx.events || []).map(event => ({
+    id: `${tx.digest}:${event.id.eventSeq}`,
+    customId: generateCustomId('EVENT'),
+    digest: tx.digest,
+    eventSeq: Number(event.id.eventSeq),
+    packageId: normalizeChainAddress('sui', event.packageId),
+    module: event.transactionModule,
+    sender: normalizeChainAddress('sui', event.sender),
+    ...eventType(event.type),
+    ...decodeSuiEvent(event)
+  }));
+
+// Top-level fields holding a single value are also stored as `field.<name>`
+// properties so events can be filtered on them. Integers are strings, like
+// amounts everywhere else.
+const eventFieldProperties = (fields: Record<string, unknown> | null): Record<string, string | boolean> =>
+  Object.fromEntries(Object.entries(fields ?? {}).flatMap(([name, value]) => {
+    if (typeof value === 'string' || typeof value === 'boolean') return [[`field.${name}`, value]];
+    if (typeof value === 'number') return [[`field.${name}`, String(value)]];
+    return [];
+  }));
+
+const parsePublishedPackages = (tx: SuiTransactionBlockResponse): SuiPublishedPackage[] =>
+  (tx.objectChanges || [])
+    .filter(change => change.type === 'published' && change.packageId)
+    .map(change => ({
+      address: change.packageId as string,
+      version: String(change.version),
+      modules: change.modules || []
+    }));
+
+// Sui reports deltas only; coins held by objects or shared owners are not attributed
+const parseBalanceChanges = (tx: SuiTransactionBlockResponse): BalanceChange[] =>
+  aggregateBalanceChanges(
+    (tx.balanceChanges || []).flatMap(change => {
+      const { ownerType, owner } = parseOwner(change.owner);
+      if (ownerType !== 'address' || !owner) return [];
+      return [{
+        address: owner,
+        mint: change.coinType,
+        delta: BigInt(change.amount),
+        pre: null,
+        post: null,
+        decimals: null
+      }];
+    })
+  );
+
+/**
+ * Normalizes a Sui transaction block response into graph records
+ * @param tx The raw `sui_getTransactionBlock` response
+ * @returns The transaction, Move calls, object version changes, published packages,
+ * events, balance changes and inferred transfers
+ * @throws {McpError} If the response is malformed
+ */
+export const parseSuiTransaction = (tx: SuiTransactionBlockResponse): ParsedSuiTransaction => {
+  if (!tx?.digest || !tx.transaction?.data?.sender) {
+    throw new McpError(
+      ChainErrorCode.INVALID_TRANSACTION,
+      'Transaction block is missing a digest or input data (request showInput)'
+    );
+  }
+
+  const sender = normalizeChainAddress('sui', tx.transaction.data.sender);
+  const gasData = tx.transaction.data.gasData;
+  const gasOwner = gasData?.owner ? normalizeChainAddress('sui', gasData.owner) : sender;
+  const gasUsed = tx.effects?.gasUsed;
+  const fee = gasUsed
+    ? BigInt(gasUsed.computationCost) + BigInt(gasUsed.storageCost) - BigInt(gasUsed.storageRebate)
+    : BigInt(0);
+  const status = tx.effects?.status;
+  const balanceChanges = parseBalanceChanges(tx);
+
+  const parsed = {
+    transaction: {
+      signature: tx.digest,
+      chain: 'sui' as const,
+      checkpoint: tx.checkpoint ? Number(tx.checkpoint) : null,
+      blockTime: tx.timestampMs ? new Date(Number(tx.timestampMs)).toISOString() : null,
+      fee: fee.toString(),
+      success: !status || status.status === 'success',
+      error: status?.error ?? null,
+      feePayer: gasOwner,
+      signers: [...new Set([sender, gasOwner])]
+    },
+    moveCalls: parseMoveCalls(tx),
+    objectChanges: parseObjectChanges(tx),
+    publishedPackages: parsePublishedPackages(tx),
+    events: parseEvents(tx),
+    balanceChanges,
+    transfers: deriveTransfers(balanceChanges, NATIVE_ASSETS.sui, gasOwner, fee.toString())
+  };
+  return { ...parsed, bridgeEvents: decodeSuiBridgeEvents(parsed, tx) };
+};
+
+const writeSuiTransaction = async (tx: ManagedTransaction, parsed: ParsedSuiTransaction) => {
+  const { transaction, moveCalls, objectChanges, publishedPackages, events, balanceChanges, transfers, bridgeEvents } = parsed;
+  const now = new Date().toISOString();
+
+  await tx.run(
+    `MERGE (t:Transaction {signature: $signature})
+    ON CREATE SET t.createdAt = $now
+    SET t.chain = $chain,
+        t.checkpoint = $checkpoint,
+        t.blockTime = $blockTime,
+        t.fee = $fee,
+        t.success = $success,
+        t.error = $error,
+        t.updatedAt = $now
+    WITH t
+    UNWIND $signers AS signer
+    MERGE (a:Address {chain: $chain, address: signer})
+    ON CREATE SET a.createdAt = $now
+    MERGE (a)-[s:SENT]->(t)
+    SET s.feePayer = (signer = $feePayer)`,
+    {
+      ...transaction,
+      checkpoint: transaction.checkpoint === null ? null : neo4j.int(transaction.checkpoint),
+      fee: neo4j.int(transaction.fee),
+      now
+    }
+  );
+
+  const position = {
+    chain: transaction.chain,
+    signature: transaction.signature,
+    blockTime: transaction.blockTime,
+    checkpoint: transaction.checkpoint
+  };
+  await writeBalanceChanges(tx, position, balanceChanges);
+  await writeTransfers(tx, position, transfers);
+  await writeBridgeEvents(tx, transaction.signature, bridgeEvents);
+
+  if (moveCalls.length) {
+    await tx.run(
+      `MATCH (t:Transaction {signature: $signature})
+      UNWIND $moveCalls AS call
+      MERGE (p:MovePackage {address: call.package})
+      ON CREATE SET p.chain = 'sui',
+                    p.createdAt = $now
+      MERGE (c:MoveCall {id: call.id})
+      ON CREATE SET c.customId = call.customId
+      SET c.digest = call.digest,
+          c.commandIndex = call.commandIndex,
+          c.package = call.package,
+          c.module = call.module,
+          c.function = call.function,
+          c.typeArguments = call.typeArguments,
+          c.args = call.args
+      MERGE (t)-[:HAS_MOVE_CALL]->(c)
+      MERGE (c)-[:INVOKED]->(p)`,
+      {
+        signature: transaction.signature,
+        now,
+        moveCalls: moveCalls.map(call => ({ ...call, commandIndex: neo4j.int(call.commandIndex) }))
+      }
+    );
+  }
+
+  if (events.length) {
+    await tx.run(
+      `MATCH (t:Transaction {signature: $signature})
+      UNWIND $events AS event
+      MERGE (p:MovePackage {address: event.packageId})
+      ON CREATE SET p.chain = 'sui',
+                    p.createdAt = $now
+      MERGE (e:Event {id: event.id})
+      ON CREATE SET e.customId = event.customId,
+                    e.createdAt = $now
+      SET e += event.properties,
+          e.blockTime = $blockTime,
+          e.checkpoint = $checkpoint
+      MERGE (t)-[:EMITTED]->(e)
+      MERGE (e)-[:EMITTED_BY]->(p)`,
+      {
+        signature: transaction.signature,
+        now,
+        blockTime: transaction.blockTime,
+        checkpoint: transaction.checkpoint === null ? null : neo4j.int(transaction.checkpoint),
+        events: events.map(event => ({
+          id: event.id,
+          customId: event.customId,
+          packageId: event.packageId,
+          properties: {
+            ...eventFieldProperties(event.fields),
+            digest: event.digest,
+            eventSeq: neo4j.int(event.eventSeq),
+            packageId: event.packageId,
+            module: event.module,
+            sender: event.sender,
+            type: event.type,
+            structType: event.structType,
+            fields: event.fields ? JSON.stringify(event.fields) : null,
+            fieldTypes: event.fieldTypes ? JSON.stringify(event.fieldTypes) : null,
+            decoder: event.decoder
+          }
+        }))
+      }
+    );
+  }
+
+  if (publishedPackages.length) {
+    await tx.run(
+      `MATCH (t:Transaction {signature: $signature})
+      UNWIND $packages AS pkg
+      MERGE (p:MovePackage {address: pkg.address})
+      ON CREATE SET p.chain = 'sui',
+                    p.createdAt = $now
+      SET p.version = pkg.version,
+          p.modules = pkg.modules
+      MERGE (t)-[:PUBLISHED]->(p)`,
+      { signature: transaction.signature, now, packages: publishedPackages }
+    );
+  }
+
+  if (objectChanges.length) {
+    await tx.run(
+      `MATCH (t:Transaction {signature: $signature})
+      UNWIND $changes AS change
+      MERGE (o:SuiObject {objectId: change.objectId})
+      ON CREATE SET o.chain = 'sui',
+                    o.createdAt = $now
+      SET o.objectType = coalesce(change.objectType, o.objectType)
+      MERGE (v:ObjectVersion {id: change.versionId})
+      ON CREATE SET v.customId = change.customId
+      SET v.objectId = change.objectId,
+          v.version = change.version,
+          v.digest = change.digest,
+          v.ownerType = change.ownerType,
+          v.owner = change.owner,
+          v.deleted = (change.kind = 'deleted')
+      MERGE (o)-[:HAS_VERSION]->(v)
+      FOREACH (x IN CASE WHEN change.kind = 'created' THEN [1] ELSE [] END |
+        MERGE (t)-[:CREATED]->(v)
+      )
+      FOREACH (x IN CASE WHEN change.kind = 'mutated' THEN [1] ELSE [] END |
+        MERGE (t)-[:MUTATED]->(v)
+      )
+      FOREACH (x IN CASE WHEN change.kind = 'deleted' THEN [1] ELSE [] END |
+        MERGE (t)-[:DELETED]->(v)
+      )
+      FOREACH (x IN CASE WHEN change.ownerType = 'address' THEN [1] ELSE [] END |
+        MERGE (a:Address {chain: 'sui', address: change.owner})
+        ON CREATE SET a.createdAt = $now
+        MERGE (v)-[:OWNED_BY]->(a)
+      )
+      FOREACH (x IN CASE WHEN change.ownerType = 'object' THEN [1] ELSE [] END |
+        MERGE (parent:SuiObject {objectId: change.owner})
+        ON CREATE SET parent.chain = 'sui',
+                      parent.createdAt = $now
+        MERGE (v)-[:OWNED_BY]->(parent)
+      )
+      FOREACH (x IN CASE WHEN change.previousVersionId IS NOT NULL THEN [1] ELSE [] END |
+        MERGE (prev:ObjectVersion {id: change.previousVersionId})
+        ON CREATE SET prev.customId = change.previousCustomId,
+                      prev.objectId = change.objectId,
+                      prev.version = change.previousVersion
+        MERGE (o)-[:HAS_VERSION]->(prev)
+        MERGE (v)-[:PREVIOUS_VERSION]->(prev)
+      )`,
+      {
+        signature: transaction.signature,
+        now,
+        changes: objectChanges.map(change => ({
+          ...change,
+          version: neo4j.int(change.version),
+          previousVersion: change.previousVersion === null ? null : neo4j.int(change.previousVersion)
+        }))
+      }
+    );
+  }
+};
+
+/**
+ * Writes a single Sui transaction block, its signers, Move calls, events, packages,
+ * object version history, balance changes and transfers to the graph. Re-ingesting the same digest is idempotent.
+ * Move calls and events are decoded through the ABIs of their packages, loaded first.
+ * @param raw The raw `sui_getTransactionBlock` response
+ * @returns The transaction digest
+ */
+export const ingestSuiTransaction = async (raw: SuiTransactionBlockResponse): Promise<string> => {
+  await prepareMoveAbis(raw);
+  const parsed = parseSuiTransaction(raw);
+  try {
+    await withTransaction(tx => writeSuiTransaction(tx, parsed));
+    return parsed.transaction.signature;
+  } catch (error) {
+    throw handleNeo4jError(error, { digest: parsed.transaction.signature });
+  }
+};
+
+// Alerting never fails ingestion; the transactions are already written
+const raiseAlerts = async (ids: string[]): Promise<string[]> => {
+  try {
+    return (await evaluateAlertRules('sui', ids)).map(alert => alert.id);
+  } catch (error) {
+    logger.warn("Failed to evaluate alert rules after ingestion", { chain: 'sui', count: ids.length, error });
+    return [];
+  }
+};
+
+// Likewise for bridge matching; unmatched events are retried when the other side arrives
+const matchBridges = async (ids: string[]): Promise<void> => {
+  try {
+    await matchBridgeEvents('sui', ids);
+  } catch (error) {
+    logger.warn("Failed to match bridge transfers after ingestion", { chain: 'sui', count: ids.length, error });
+  }
+};
+
+/**
+ * Ingests a batch of raw Sui transaction blocks, collecting per-item failures
+ * @param transactions Raw transaction block responses
+ * @returns Ingested digests and per-item errors
+ */
+export const ingestSuiTransactions = async (
+  transactions: SuiTransactionBlockResponse[]
+): Promise<IngestResult> => {
+  const result = await processBulk<SuiTransactionBlockResponse, string>(
+    transactions,
+    ingestSuiTransaction,
+    {
+      operationName: 'sui transaction ingestion',
+      concurrency: 4,
+      defaultErrorCode: BaseErrorCode.INTERNAL_ERROR
+    }
+  );
+  await matchBridges(result.successes);
+
+  return {
+    chain: 'sui',
+    requested: transactions.length,
+    ingested: result.successes,
+    alerts: await raiseAlerts(result.successes),
+    errors: result.errors.map(error => ({
+      index: error.index,
+      id: error.item?.digest,
+      code: error.error.code,
+      message: error.error.message
+    }))
+  };
+};
+
+/**
+ * Fetches transaction blocks by digest through a chain data provider
+ * @param digests Transaction digests
+ * @param concurrency Multi-get requests in flight at once
+ * @param provider Provider to read from (default: the configured one)
+ */
+export const fetchSuiTransactions = async (
+  digests: string[],
+  concurrency: number = 1,
+  provider: ChainDataProvider = getChainDataProvider()
+): Promise<SuiTransactionBlockResponse[]> => {
+  const batches: string[][] = [];
+  for (let i = 0; i < digests.length; i += SUI_MULTI_GET_LIMIT) {
+    batches.push(digests.slice(i, i + SUI_MULTI_GET_LIMIT));
+  }
+
+  const blocks: SuiTransactionBlockResponse[] = [];
+  for (let i = 0; i < batches.length; i += concurrency) {
+    const results = await Promise.all(batches.slice(i, i + concurrency).map(batch =>
+      provider.request<SuiTransactionBlockResponse[]>(
+        'sui',
+        'sui_multiGetTransactionBlocks',
+        [batch, SUI_RESPONSE_OPTIONS]
+      )
+    ));
+    results.forEach(result => blocks.push(...result));
+  }
+  return blocks;
+};
+
+/**
+ * Lists one page of transaction digests sent from an address, without contents
+ * @param address The sender address
+ * @param options Page size, digest to continue after (exclusive), and direction
+ * @param provider Provider to read from (default: the configured one)
+ */
+export const fetchSuiDigestPage = async (
+  address: string,
+  options: { limit: number; cursor?: string | null; descending: boolean },
+  provider: ChainDataProvider = getChainDataProvider()
+): Promise<{
+  entries: Array<{ digest: string; checkpoint: string | null }>;
+  nextCursor: string | null;
+  hasNextPage: boolean;
+}> => {
+  const page: {
+    data: Array<{ digest: string; checkpoint?: string }>;
+    nextCursor: string | null;
+    hasNextPage: boolean;
+  } = await provider.request(
+    'sui',
+    'suix_queryTransactionBlocks',
+    [
+      { filter: { FromAddress: address }, options: {} },
+      options.cursor ?? null,
+      Math.min(SUI_MULTI_GET_LIMIT, options.limit),
+      options.descending
+    ]
+  );
+  return {
+    entries: page.data.map(block => ({ digest: block.digest, checkpoint: block.checkpoint ?? null })),
+    nextCursor: page.nextCursor,
+    hasNextPage: page.hasNextPage
+  };
+};
+
+/**
+ * Lists recent transaction blocks sent from an address, newest first
+ * @param address The sender address
+ * @param limit Maximum number of blocks
+ * @param provider Provider to read from (default: the configured one)
+ */
+export const fetchSuiTransactionsForAddress = async (
+  address: string,
+  limit: number,
+  provider: ChainDataProvider = getChainDataProvider()
+): Promise<SuiTransactionBlockResponse[]> => {
+  const blocks: SuiTransactionBlockResponse[] = [];
+  let cursor: string | null = null;
+
+  while (blocks.length < limit) {
+    const page: {
+      data: SuiTransactionBlockResponse[];
+      nextCursor: string | null;
+      hasNextPage: boolean;
+    } = await provider.request(
+      'sui',
+      'suix_queryTransactionBlocks',
+      [
+        { filter: { FromAddress: address }, options: SUI_RESPONSE_OPTIONS },
+        cursor,
+        Math.min(SUI_MULTI_GET_LIMIT, limit - blocks.length),
+        true
+      ]
+    );
+    blocks.push(...page.data);
+    if (!page.hasNextPage || !page.nextCursor) break;
+    cursor = page.nextCursor;
+  }
+
+  return blocks;
+};
+
+/**
+ * Fetches and ingests transaction blocks through a chain data provider (the
+ * live RPC endpoint or recorded fixtures), either by explicit digests or by
+ * walking an address's recent history
+ */
+export const ingestSuiFromRpc = async (options: {
+  digests?: string[];
+  address?: string;
+  limit?: number;
+  concurrency?: number;
+  provider?: ChainDataProvider;
+}): Promise<IngestResult> => {
+  const provider = options.provider ?? getChainDataProvider();
+  const digests = [...new Set(options.digests || [])];
+
+  logger.info("Ingesting Sui transactions from RPC", {
+    count: digests.length,
+    address: options.address,
+    provider: provider.kind
+  });
+
+  const blocks = [
+    ...(digests.length ? await fetchSuiTransactions(digests, options.concurrency, provider) : []),
+    ...(options.address ? await fetchSuiTransactionsForAddress(options.address, options.limit || 100, provider) : [])
+  ];
+
+  return ingestSuiTransactions(blocks);
+};
+
+/**
+ * Ingests saved transaction block responses from a directory of JSON files
+ * @param directory Directory containing the saved responses
+ */
+export const ingestSuiFromDirectory = async (directory: string): Promise<IngestResult> => {
+  const transactions = await loadJsonDirectory<SuiTransactionBlockResponse>(directory);
+  logger.info("Ingesting Sui transactions from directory", { directory, count: transactions.length });
+  return ingestSuiTransactions(transactions);
+};
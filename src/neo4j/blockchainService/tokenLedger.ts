@@ -0,0 +1,506 @@
+import neo4j from "neo4j-driver";
+import { getSession } from "../driver.js";
+import { McpError, ChainErrorCode } from "../../types/errors.js";
+import { handleNeo4jError } from "../projectService/utils.js";
+import { paginate, toIntegerString, toNumberOrNull } from "./utils.js";
+import { resolveAddressNames } from "./entityService.js";
+import {
+  AddressNames,
+  BalanceHistory,
+  BalanceHistoryEntry,
+  BalanceHistoryOptions,
+  Chain,
+  HolderDistribution,
+  TokenFlow,
+  TokenFlowOptions,
+  TokenFlowPath,
+  TokenFlowTransfer,
+  TokenHolderChange,
+  TokenHolderGroup,
+  TokenHolders,
+  TokenHoldersOptions
+} from "./types.js";
+
+// Candidate paths loaded before ranking in token_flow
+const TOKEN_FLOW_SCAN_LIMIT = 500;
+
+const DEFAULT_TOP_HOLDERS = 20;
+const LABELED_GROUP_LIMIT = 10;
+
+// Property holding a transaction's position on each chain
+const POSITION_PROPERTY: Record<Chain, 'slot' | 'checkpoint'> = {
+  solana: 'slot',
+  sui: 'checkpoint'
+};
+
+export const compareIntegerStrings = (a: string | null, b: string | null): number => {
+  if (a === b) return 0;
+  if (a === null) return -1;
+  if (b === null) return 1;
+  const diff = BigInt(a) - BigInt(b);
+  return diff === BigInt(0) ? 0 : diff < BigInt(0) ? -1 : 1;
+};
+
+const assertAddressExists = async (chain: Chain, address: string) => {
+  const session = getSession();
+  try {
+    const result = await session.run(
+      `MATCH (a:Address {chain: $chain, address: $address}) RETURN count(a) AS count`,
+      { chain, address }
+    );
+    if (!toNumberOrNull(result.records[0].get("count"))) {
+      throw new McpError(
+        ChainErrorCode.ADDRESS_NOT_FOUND,
+        `Address ${address} on ${chain} has not been ingested`,
+        { chain, address }
+      );
+    }
+  } finally {
+    await session.close();
+  }
+};
+
+/**
+ * Replays balance changes in chain order. An absolute post-balance resets the
+ * balance and makes it exact from there on; otherwise deltas are summed.
+ * @param changes Changes in chain order, amounts as integer strings
+ * @returns Each change with the balance after it
+ */
+export const replayBalanceChanges = (
+  changes: Array<Omit<BalanceHistoryEntry, 'balance' | 'exact'> & { post: string | null }>
+): BalanceHistoryEntry[] => {
+  let balance: bigint | null = null;
+  let exact = false;
+
+  return changes.map(({ post, ...change }) => {
+    if (post !== null) {
+      balance = BigInt(post);
+      exact = true;
+    } else {
+      balance = (balance ?? BigInt(0)) + BigInt(change.delta);
+    }
+    return { ...change, delta: BigInt(change.delta).toString(), balance: (balance as bigint).toString(), exact };
+  });
+};
+
+/**
+ * Ranks candidate token flow paths, shortest first and then by the amount
+ * that could have made it all the way through
+ * @param candidates Chronological transfer chains from source to destination
+ * @param minAmount Smallest amount a path must carry at every hop
+ */
+export const rankTokenFlowPaths = (candidates: TokenFlowTransfer[][], minAmount: bigint): TokenFlowPath[] =>
+  candidates
+    .map(transfers => ({
+      transfers,
+      bottleneck: transfers.reduce(
+        (min, transfer) => (BigInt(transfer.amount) < min ? BigInt(transfer.amount) : min),
+        BigInt(transfers[0].amount)
+      )
+    }))
+    .filter(candidate => candidate.bottleneck >= minAmount)
+    .sort((a, b) =>
+      a.transfers.length - b.transfers.length ||
+      (a.bottleneck === b.bottleneck ? 0 : a.bottleneck > b.bottleneck ? -1 : 1)
+    )
+    .map(candidate => ({
+      hops: candidate.transfers.length,
+      amount: candidate.bottleneck.toString(),
+      transfers: candidate.transfers
+    }));
+
+/**
+ * Reconstructs an address's balance of one mint from its BALANCE_CHANGED
+ * history. Absolute post-balances (Solana) are used where reported; otherwise
+ * the balance is the running sum of observed deltas (Sui) and marked inexact.
+ * @param chain The chain of the address
+ * @param address The canonical address
+ * @param mint Token mint, coin type, or native asset
+ * @param options Position to report the balance at, and pagination of the history
+ * @returns The balance at the requested position and the paginated history
+ * @throws {McpError} If the address has not been ingested
+ */
+export const getBalanceHistory = async (
+  chain: Chain,
+  address: string,
+  mint: string,
+  options: BalanceHistoryOptions = {}
+): Promise<BalanceHistory> => {
+  const { page = 1, limit = 50 } = options;
+  await assertAddressExists(chain, address);
+
+  const position = POSITION_PROPERTY[chain];
+  const session = getSession();
+  try {
+    const result = await session.run(
+      `MATCH (:Address {chain: $chain, address: $address})<-[b:BALANCE_CHANGED {mint: $mint}]-(t:Transaction)
+      RETURN t.signature AS signature, b.${position} AS position, t.blockTime AS blockTime,
+             b.delta AS delta, b.post AS post, b.decimals AS decimals
+      ORDER BY b.${position} ASC, t.blockTime ASC, t.signature ASC`,
+      { chain, address, mint }
+    );
+
+    let decimals: number | null = null;
+    const history = replayBalanceChanges(result.records.map(record => {
+      decimals = toNumberOrNull(record.get("decimals")) ?? decimals;
+      return {
+        signature: record.get("signature"),
+        position: toIntegerString(record.get("position")),
+        blockTime: record.get("blockTime"),
+        delta: toIntegerString(record.get("delta")) as string,
+        post: record.get("post")
+      };
+    }));
+
+    // Balance at the requested position is the last change at or before it
+    const at = options.at ?? null;
+    const upTo = at === null
+      ? history
+      : history.filter(entry => entry.position !== null && compareIntegerStrings(entry.position, at) <= 0);
+    const current = upTo[upTo.length - 1];
+
+    return {
+      chain,
+      address,
+      mint,
+      decimals,
+      at,
+      balance: current ? current.balance : null,
+      exact: current ? current.exact : false,
+      ...paginate(upTo, page, limit),
+      names: await resolveAddressNames(chain, [address])
+    };
+  } catch (error) {
+    throw handleNeo4jError(error, { chain, address, mint, options });
+  } finally {
+    await session.close();
+  }
+};
+
+/**
+ * Finds paths along which a token moved from one address to another, following
+ * TRANSFERRED edges of that mint in chronological order
+ * @param chain The chain of both addresses
+ * @param from The source address
+ * @param to The destination address
+ * @param mint Token mint, coin type, or native asset
+ * @param options Hop limit, amount and time filters, and path limit
+ * @returns Paths ranked by length, then by amount
+ * @throws {McpError} If either address has not been ingested
+ */
+export const getTokenFlow = async (
+  chain: Chain,
+  from: string,
+  to: string,
+  mint: string,
+  options: TokenFlowOptions = {}
+): Promise<TokenFlow> => {
+  const { maxHops = 4, limit = 10 } = options;
+  const minAmount = options.minAmount ? BigInt(options.minAmount) : BigInt(0);
+  await assertAddressExists(chain, from);
+  await assertAddressExists(chain, to);
+
+  const position = POSITION_PROPERTY[chain];
+  const session = getSession();
+  try {
+    // The hop bound cannot be parameterized in Cypher; maxHops is validated as a small integer
+    const result = await session.run(
+      `MATCH path = (:Address {chain: $chain, address: $from})-[:TRANSFERRED*1..${Math.trunc(maxHops)}]->(:Address {chain: $chain, address: $to})
+      WITH path, relationships(path) AS rels
+      WHERE all(r IN rels WHERE r.mint = $mint
+                AND ($since IS NULL OR r.blockTime >= $since)
+                AND ($until IS NULL OR r.blockTime <= $until))
+        AND all(i IN range(0, size(rels) - 2) WHERE coalesce(rels[i].blockTime, '') <= coalesce(rels[i + 1].blockTime, ''))
+      RETURN [r IN rels | {
+        from: startNode(r).address,
+        to: endNode(r).address,
+        amount: r.amount,
+        decimals: r.decimals,
+        signature: r.signature,
+        position: r.${position},
+        blockTime: r.blockTime
+      }] AS transfers
+      LIMIT $scanLimit`,
+      {
+        chain,
+        from,
+        to,
+        mint,
+        since: options.since ?? null,
+        until: options.until ?? null,
+        scanLimit: neo4j.int(TOKEN_FLOW_SCAN_LIMIT + 1)
+      }
+    );
+
+    let decimals: number | null = null;
+    const candidates = result.records.slice(0, TOKEN_FLOW_SCAN_LIMIT).map(record =>
+      (record.get("transfers") as Array<Record<string, unknown>>).map((transfer): TokenFlowTransfer => {
+        decimals = toNumberOrNull(transfer.decimals) ?? decimals;
+        return {
+          from: transfer.from as string,
+          to: transfer.to as string,
+          amount: transfer.amount as string,
+          signature: transfer.signature as string,
+          position: toIntegerString(transfer.position),
+          blockTime: (transfer.blockTime as string | null) ?? null
+        };
+      })
+    );
+
+    const paths = rankTokenFlowPaths(candidates, minAmount);
+
+    const directAmount = paths
+      .filter(path => path.hops === 1)
+      .reduce((sum, path) => sum + BigInt(path.amount), BigInt(0));
+
+    const intermediaries = new Set<string>();
+    paths.forEach(path => path.transfers.slice(1).forEach(transfer => intermediaries.add(transfer.from)));
+
+    const returned = paths.slice(0, limit);
+
+    return {
+      chain,
+      from,
+      to,
+      mint,
+      decimals,
+      paths: returned,
+      summary: {
+        pathCount: paths.length,
+        directAmount: directAmount.toString(),
+        intermediaries: [...intermediaries],
+        truncated: result.records.length > TOKEN_FLOW_SCAN_LIMIT
+      },
+      names: await resolveAddressNames(chain, [
+        from,
+        to,
+        ...intermediaries,
+        ...returned.flatMap(path => path.transfers.map(transfer => transfer.to))
+      ])
+    };
+  } catch (error) {
+    throw handleNeo4jError(error, { chain, from, to, mint, options });
+  } finally {
+    await session.close();
+  }
+};
+
+export interface HolderBalance {
+  address: string;
+  balance: bigint;
+  exact: boolean;
+}
+
+// Fraction of a total as a float; precision loss is acceptable for shares
+const shareOf = (amount: bigint, total: bigint): number =>
+  total === BigInt(0) ? 0 : Number((amount * BigInt(1000000)) / total) / 1000000;
+
+/**
+ * Reconstructs every address's balance of one mint at a position, the same
+ * way getBalanceHistory does for one address
+ * @returns Holders with a positive balance, largest first, and the latest position seen
+ */
+const reconstructHolders = async (
+  chain: Chain,
+  mint: string,
+  at: string | null
+): Promise<{ holders: HolderBalance[]; position: string | null; decimals: number | null }> => {
+  const position = POSITION_PROPERTY[chain];
+  const session = getSession();
+  try {
+    // Only changes from the last absolute balance on are needed
+    const result = await session.run(
+      `MATCH (a:Address {chain: $chain})<-[b:BALANCE_CHANGED {mint: $mint}]-(t:Transaction)
+      WHERE $at IS NULL OR b.${position} <= toInteger($at)
+      WITH a, b ORDER BY b.${position} ASC, t.blockTime ASC, t.signature ASC
+      WITH a, collect(b) AS changes
+      WITH a, changes, [i IN range(0, size(changes) - 1) WHERE changes[i].post IS NOT NULL] AS exactAt
+      RETURN a.address AS address,
+             size(exactAt) > 0 AS exact,
+             [c IN CASE WHEN size(exactAt) = 0 THEN changes ELSE changes[last(exactAt)..] END |
+               {delta: c.delta, post: c.post}] AS changes,
+             last(changes).${position} AS position,
+             last(changes).decimals AS decimals`,
+      { chain, mint, at }
+    );
+
+    let latest: string | null = null;
+    let decimals: number | null = null;
+    const holders: HolderBalance[] = [];
+
+    for (const record of result.records) {
+      const changes = record.get("changes") as Array<{ delta: string; post: string | null }>;
+      const balance = changes.reduce(
+        (sum, change, i) => (i === 0 && change.post !== null ? BigInt(change.post) : sum + BigInt(change.delta)),
+        BigInt(0)
+      );
+      const seen = toIntegerString(record.get("position"));
+      if (compareIntegerStrings(seen, latest) > 0) latest = seen;
+      decimals = toNumberOrNull(record.get("decimals")) ?? decimals;
+
+      // Sui balances are relative to the first ingested change and may dip below zero
+      if (balance > BigInt(0)) {
+        holders.push({ address: record.get("address"), balance, exact: record.get("exact") });
+      }
+    }
+
+    holders.sort((a, b) => (a.balance === b.balance ? a.address.localeCompare(b.address) : a.balance > b.balance ? -1 : 1));
+    return { holders, position: latest, decimals };
+  } catch (error) {
+    throw handleNeo4jError(error, { chain, mint, at });
+  } finally {
+    await session.close();
+  }
+};
+
+/**
+ * Gini coefficient of balances sorted largest first
+ */
+export const giniCoefficient = (holders: HolderBalance[], total: bigint): number => {
+  const n = holders.length;
+  if (n < 2 || total === BigInt(0)) return 0;
+  // Ascending rank i (1-based) of the holder at descending index j is n - j
+  const weighted = holders.reduce((sum, holder, j) => sum + (n - j) * shareOf(holder.balance, total), 0);
+  return Number(Math.max(0, (2 * weighted) / n - (n + 1) / n).toFixed(4));
+};
+
+/**
+ * Summarizes how concentrated a set of holders is
+ */
+export const describeDistribution = (
+  holders: HolderBalance[],
+  at: string | null,
+  names: AddressNames,
+  top: number
+): HolderDistribution => {
+  const total = holders.reduce((sum, holder) => sum + holder.balance, BigInt(0));
+
+  let nakamoto = 0;
+  let running = BigInt(0);
+  while (nakamoto < holders.length && running * BigInt(2) <= total) {
+    running += holders[nakamoto++].balance;
+  }
+
+  // Labeled addresses are grouped by entity, or by label when they have none
+  const groups = new Map<string, TokenHolderGroup & { amount: bigint }>();
+  let labeled = BigInt(0);
+  for (const holder of holders) {
+    const name = names[holder.address];
+    if (!name) continue;
+    labeled += holder.balance;
+    const key = name.entity ? `entity:${name.entity.id}` : `label:${name.label}`;
+    const group = groups.get(key) ?? {
+      name: name.entity?.name ?? (name.label as string),
+      entityId: name.entity?.id ?? null,
+      addressCount: 0,
+      share: 0,
+      amount: BigInt(0)
+    };
+    group.addressCount++;
+    group.amount += holder.balance;
+    groups.set(key, group);
+  }
+
+  return {
+    at,
+    holderCount: holders.length,
+    totalHeld: total.toString(),
+    exact: holders.every(holder => holder.exact),
+    gini: giniCoefficient(holders, total),
+    nakamoto,
+    labeledShare: shareOf(labeled, total),
+    labeledHolders: [...groups.values()]
+      .sort((a, b) => (a.amount === b.amount ? 0 : a.amount > b.amount ? -1 : 1))
+      .slice(0, LABELED_GROUP_LIMIT)
+      .map(({ amount, ...group }) => ({ ...group, share: shareOf(amount, total) })),
+    topHolders: holders.slice(0, top).map((holder, i) => ({
+      rank: i + 1,
+      address: holder.address,
+      balance: holder.balance.toString(),
+      share: shareOf(holder.balance, total),
+      exact: holder.exact
+    }))
+  };
+};
+
+/**
+ * Reconstructs the holders of a token at a slot or checkpoint from
+ * BALANCE_CHANGED history, and measures how concentrated they are: top
+ * holders, Gini and Nakamoto coefficients, and the share held by labeled
+ * addresses. With compareAt, the distribution at that position is measured
+ * too, along with how the top holders changed between the two.
+ * @param chain The chain of the token
+ * @param mint Token mint, coin type, or native asset
+ * @param options Positions to reconstruct at and number of top holders
+ * @returns The distribution, and the comparison if requested
+ * @throws {McpError} If no balance changes of the token have been ingested by then
+ */
+export const getTokenHolders = async (
+  chain: Chain,
+  mint: string,
+  options: TokenHoldersOptions = {}
+): Promise<TokenHolders> => {
+  const top = options.top ?? DEFAULT_TOP_HOLDERS;
+
+  const current = await reconstructHolders(chain, mint, options.at ?? null);
+  if (current.position === null) {
+    throw new McpError(
+      ChainErrorCode.TOKEN_NOT_FOUND,
+      `No balance changes of ${mint} on ${chain} have been ingested${options.at ? ` up to ${options.at}` : ''}`,
+      { chain, mint, at: options.at }
+    );
+  }
+  const previous = options.compareAt !== undefined
+    ? await reconstructHolders(chain, mint, options.compareAt)
+    : null;
+
+  const allNames = await resolveAddressNames(chain, [
+    ...current.holders.map(holder => holder.address),
+    ...(previous?.holders ?? []).map(holder => holder.address)
+  ]);
+
+  const distribution = describeDistribution(current.holders, options.at ?? current.position, allNames, top);
+  const listed = new Set(distribution.topHolders.map(holder => holder.address));
+
+  let comparison: TokenHolders['comparison'] = null;
+  if (previous) {
+    const before = describeDistribution(previous.holders, options.compareAt as string, allNames, top);
+    before.topHolders.forEach(holder => listed.add(holder.address));
+
+    const ranked = (holders: HolderBalance[]) =>
+      new Map(holders.map((holder, i) => [holder.address, { balance: holder.balance, rank: i + 1 }]));
+    const afterBalances = ranked(current.holders);
+    const beforeBalances = ranked(previous.holders);
+
+    comparison = {
+      distribution: before,
+      holderCountChange: distribution.holderCount - before.holderCount,
+      giniChange: Number((distribution.gini - before.gini).toFixed(4)),
+      nakamotoChange: distribution.nakamoto - before.nakamoto,
+      labeledShareChange: Number((distribution.labeledShare - before.labeledShare).toFixed(6)),
+      topHolderChanges: [...listed]
+        .map((address): TokenHolderChange => {
+          const after = afterBalances.get(address);
+          const earlier = beforeBalances.get(address);
+          return {
+            address,
+            balanceBefore: earlier ? earlier.balance.toString() : null,
+            balanceAfter: after ? after.balance.toString() : null,
+            delta: ((after?.balance ?? BigInt(0)) - (earlier?.balance ?? BigInt(0))).toString(),
+            rankBefore: earlier?.rank ?? null,
+            rankAfter: after?.rank ?? null
+          };
+        })
+        .sort((a, b) => (a.rankAfter ?? Infinity) - (b.rankAfter ?? Infinity) || (a.rankBefore ?? Infinity) - (b.rankBefore ?? Infinity))
+    };
+  }
+
+  return {
+    chain,
+    mint,
+    decimals: current.decimals ?? previous?.decimals ?? null,
+    distribution,
+    comparison,
+    names: Object.fromEntries(Object.entries(allNames).filter(([address]) => listed.has(address)))
+  };
+};
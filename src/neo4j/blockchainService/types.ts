@@ -0,0 +1,1258 @@
+import { BaseErrorCode, ChainErrorCode } from "../../types/errors.js";
+import { SupportedChain } from "../../utils/chainAddress.js";
+
+export type Chain = SupportedChain;
+
+// Raw Solana `getTransaction` response (json and jsonParsed encodings)
+export interface SolanaAccountKey {
+  pubkey: string;
+  signer: boolean;
+  writable: boolean;
+  source?: string;
+}
+
+export interface SolanaRawInstruction {
+  programIdIndex?: number;      // json encoding
+  programId?: string;           // jsonParsed encoding
+  accounts?: Array<number | string>;
+  data?: string;
+  parsed?: unknown;             // jsonParsed encoding for known programs
+  program?: string;
+  stackHeight?: number | null;
+}
+
+export interface SolanaTokenBalance {
+  accountIndex: number;
+  mint: string;
+  owner?: string;
+  programId?: string;
+  uiTokenAmount: {
+    amount: string;
+    decimals: number;
+    uiAmountString?: string;
+  };
+}
+
+export interface SolanaTransactionResponse {
+  slot: number;
+  blockTime?: number | null;
+  meta: {
+    err: unknown;
+    fee: number;
+    preBalances: number[];
+    postBalances: number[];
+    preTokenBalances?: SolanaTokenBalance[] | null;
+    postTokenBalances?: SolanaTokenBalance[] | null;
+    innerInstructions?: Array<{
+      index: number;
+      instructions: SolanaRawInstruction[];
+    }> | null;
+    loadedAddresses?: {
+      writable: string[];
+      readonly: string[];
+    };
+    logMessages?: string[] | null;
+    computeUnitsConsumed?: number;
+  } | null;
+  transaction: {
+    signatures: string[];
+    message: {
+      accountKeys: Array<string | SolanaAccountKey>;
+      header?: {
+        numRequiredSignatures: number;
+        numReadonlySignedAccounts: number;
+        numReadonlyUnsignedAccounts: number;
+      };
+      instructions: SolanaRawInstruction[];
+      recentBlockhash: string;
+    };
+  };
+  version?: 'legacy' | number;
+}
+
+// Raw Sui `sui_getTransactionBlock` response (showInput, showEffects, showObjectChanges, showEvents)
+export type SuiOwner =
+  | { AddressOwner: string }
+  | { ObjectOwner: string }
+  | { Shared: { initial_shared_version: number | string } }
+  | 'Immutable'
+  | Record<string, unknown>;
+
+export interface SuiObjectRef {
+  objectId: string;
+  version: number | string;
+  digest: string;
+}
+
+export interface SuiMoveCallCommand {
+  package: string;
+  module: string;
+  function: string;
+  type_arguments?: string[];
+  arguments?: unknown[];
+}
+
+export interface SuiObjectChange {
+  type: 'created' | 'mutated' | 'deleted' | 'wrapped' | 'transferred' | 'published' | 'unwrapped' | 'unwrappedThenDeleted';
+  sender?: string;
+  owner?: SuiOwner;
+  recipient?: SuiOwner;
+  objectType?: string;
+  objectId?: string;
+  packageId?: string;
+  modules?: string[];
+  version: string;
+  previousVersion?: string;
+  digest?: string;
+}
+
+export interface SuiRawEvent {
+  id: { txDigest: string; eventSeq: string };
+  packageId: string;
+  transactionModule: string;
+  sender: string;
+  type: string;
+  parsedJson?: unknown;
+  bcs?: string;              // Base58, or base64 when bcsEncoding says so
+  bcsEncoding?: 'base58' | 'base64';
+}
+
+export interface SuiTransactionBlockResponse {
+  digest: string;
+  checkpoint?: string | null;
+  timestampMs?: string | null;
+  transaction?: {
+    data: {
+      sender: string;
+      gasData?: {
+        owner: string;
+        budget: string;
+        price: string;
+      };
+      transaction?: {
+        kind: string;
+        inputs?: unknown[];
+        transactions?: Array<Record<string, unknown>>;
+      };
+    };
+    txSignatures?: string[];
+  };
+  effects?: {
+    status: {
+      status: 'success' | 'failure';
+      error?: string;
+    };
+    gasUsed?: {
+      computationCost: string;
+      storageCost: string;
+      storageRebate: string;
+      nonRefundableStorageFee?: string;
+    };
+    created?: Array<{ owner: SuiOwner; reference: SuiObjectRef }>;
+    mutated?: Array<{ owner: SuiOwner; reference: SuiObjectRef }>;
+    unwrapped?: Array<{ owner: SuiOwner; reference: SuiObjectRef }>;
+    deleted?: SuiObjectRef[];
+    wrapped?: SuiObjectRef[];
+  };
+  objectChanges?: SuiObjectChange[];
+  balanceChanges?: Array<{
+    owner: SuiOwner;
+    coinType: string;
+    amount: string;
+  }> | null;
+  events?: SuiRawEvent[] | null;
+}
+
+// Normalized graph records
+export interface ChainTransaction {
+  signature: string;
+  chain: Chain;
+  slot: number;
+  blockTime: string | null;
+  fee: number;
+  success: boolean;
+  error: string | null;
+  computeUnits: number | null;
+  feePayer: string;
+  signers: string[];
+}
+
+export interface ChainInstruction {
+  id: string;                // `${signature}:${path}` e.g. "5h1...:2" or "5h1...:2.1"
+  signature: string;
+  path: string;              // Outer index, dotted with the inner index for CPIs
+  index: number;             // Outer instruction index
+  innerIndex: number | null; // Position within the inner instruction list
+  stackHeight: number;
+  parentId: string | null;   // Invoking instruction for CPIs
+  programId: string;
+  accounts: string[];
+  data: string;
+  discriminator: string | null; // Parsed instruction type, or leading data bytes as hex
+  name: string | null;       // Instruction name decoded through the program's IDL
+  args: string | null;       // Decoded arguments as JSON
+  decoder: string | null;    // IDL that decoded the instruction
+}
+
+// Net balance movement of one asset for one address within a transaction.
+// Amounts are base-unit integers kept as strings to avoid precision loss.
+export interface BalanceChange {
+  address: string;
+  mint: string;              // SPL mint, Sui coin type, or the chain's native asset
+  delta: string;             // Signed change
+  pre: string | null;        // Balance before, when the chain reports it
+  post: string | null;       // Balance after, when the chain reports it
+  decimals: number | null;
+}
+
+// Value moved from one address to another, inferred from balance changes
+export interface Transfer {
+  from: string;
+  to: string;
+  mint: string;
+  amount: string;            // Base-unit integer
+  decimals: number | null;
+}
+
+export interface ParsedSolanaTransaction {
+  transaction: ChainTransaction;
+  instructions: ChainInstruction[];
+  balanceChanges: BalanceChange[];
+  transfers: Transfer[];
+  bridgeEvents: BridgeEvent[];
+}
+
+export interface SuiChainTransaction {
+  signature: string;         // Transaction digest, stored in `signature` for cross-chain queries
+  chain: Chain;
+  checkpoint: number | null;
+  blockTime: string | null;
+  fee: string;               // Net gas in MIST (computation + storage - rebate)
+  success: boolean;
+  error: string | null;
+  feePayer: string;          // Gas owner, differs from sender for sponsored transactions
+  signers: string[];
+}
+
+export interface SuiMoveCall {
+  id: string;                // `${digest}:${commandIndex}`
+  customId: string;
+  digest: string;
+  commandIndex: number;
+  package: string;
+  module: string;
+  function: string;
+  typeArguments: string[];
+  args: string | null;       // Arguments decoded through the package ABI as JSON, keyed arg0, arg1, ...
+}
+
+export interface SuiEvent {
+  id: string;                // `${digest}:${eventSeq}`
+  customId: string;
+  digest: string;
+  eventSeq: number;
+  packageId: string;         // Package of the module that emitted the event
+  module: string;
+  sender: string;
+  type: string;              // Full struct type, with type arguments
+  structType: string;        // Struct type without type arguments
+  fields: Record<string, unknown> | null;
+  fieldTypes: Record<string, string> | null;  // Move type of each field, when the struct layout is known
+  decoder: MoveDecoder | null;
+}
+
+export type ObjectChangeKind = 'created' | 'mutated' | 'deleted';
+
+export interface SuiObjectVersionChange {
+  kind: ObjectChangeKind;
+  objectId: string;
+  objectType: string | null;
+  version: string;
+  versionId: string;         // `${objectId}:${version}`
+  customId: string;
+  digest: string | null;
+  ownerType: 'address' | 'object' | 'shared' | 'immutable' | null;
+  owner: string | null;      // Address or parent object ID for owned objects
+  previousVersion: string | null;
+  previousVersionId: string | null;
+  previousCustomId: string | null;
+}
+
+export interface SuiPublishedPackage {
+  address: string;
+  version: string;
+  modules: string[];
+}
+
+export interface ParsedSuiTransaction {
+  transaction: SuiChainTransaction;
+  moveCalls: SuiMoveCall[];
+  objectChanges: SuiObjectVersionChange[];
+  publishedPackages: SuiPublishedPackage[];
+  events: SuiEvent[];
+  balanceChanges: BalanceChange[];
+  transfers: Transfer[];
+  bridgeEvents: BridgeEvent[];
+}
+
+export interface AddressLookupOptions {
+  counterpartyLimit?: number;
+}
+
+export interface AddressBalance {
+  mint: string;
+  decimals: number | null;
+  latest: string | null;     // Last reported post-balance, if the chain reports absolute balances
+  netObserved: string;       // Sum of all observed deltas
+  lastChangedAt: string | null;
+}
+
+export interface AddressLookupResult {
+  chain: Chain;
+  address: string;
+  balances: AddressBalance[];
+  activity: {
+    firstSeen: string | null;
+    lastSeen: string | null;
+    transactionCount: number;
+    sentCount: number;
+  };
+  counterparties: Array<{
+    chain: Chain;
+    address: string;
+    sharedTransactions: number;
+  }>;
+  linkedProjects: Array<{
+    id: string;
+    name: string;
+    relationship: string;
+  }>;
+  names: AddressNames;
+}
+
+export interface WalletGraphOptions {
+  depth?: number;
+  maxNodes?: number;
+  minAmount?: string;        // Base-unit integer; transfers below it are ignored
+  mint?: string;
+  since?: string;            // ISO timestamp, inclusive
+  until?: string;            // ISO timestamp, inclusive
+}
+
+export type MintTotals = Record<string, { in: string; out: string }>;
+
+export interface WalletGraphNode {
+  id: string;                // The address; every node in a graph shares the root's chain
+  chain: Chain;
+  address: string;
+  hop: number;
+  degree: number;
+  totals: MintTotals;
+}
+
+export interface WalletGraphEdge {
+  source: string;
+  target: string;
+  mint: string;
+  decimals: number | null;
+  amount: string;            // Sum of matching transfers
+  transferCount: number;
+  firstAt: string | null;
+  lastAt: string | null;
+}
+
+export interface WalletGraph {
+  nodes: WalletGraphNode[];
+  edges: WalletGraphEdge[];
+  summary: {
+    root: string;
+    chain: Chain;
+    depth: number;
+    nodeCount: number;
+    edgeCount: number;
+    transferCount: number;
+    truncated: boolean;      // maxNodes was reached before the full depth was explored
+    topCounterparties: Array<{
+      address: string;
+      transferCount: number;
+      totals: MintTotals;
+    }>;
+  };
+  names: AddressNames;
+}
+
+// Transfer edge as read back from the graph for analytics
+export interface TransferRecord {
+  from: string;
+  to: string;
+  mint: string;
+  amount: bigint;
+  decimals: number | null;
+  signature: string;
+  blockTime: string | null;
+}
+
+export interface TransferFilters {
+  address?: string;          // Only report patterns involving this address
+  mint?: string;
+  since?: string;
+  until?: string;
+}
+
+export type DetectorName = 'circular_flow' | 'fan_burst' | 'round_trip' | 'dust_sweep';
+
+export type DetectorRequest =
+  | { detector: 'circular_flow'; maxHops?: number; minAmount?: string; minReturnRatio?: number }
+  | { detector: 'fan_burst'; direction?: 'out' | 'in' | 'both'; minCounterparties?: number; windowMinutes?: number; minAmount?: string }
+  | { detector: 'round_trip'; minRoundTrips?: number; maxNetRatio?: number }
+  | { detector: 'dust_sweep'; maxAmount: string; minSources?: number; windowMinutes?: number };
+
+export interface DetectedPattern {
+  detector: DetectorName;
+  score: number;             // 0..1, higher is more suspicious
+  summary: string;
+  mint: string | null;
+  addresses: Array<{ address: string; role: string }>;
+  signatures: string[];
+  details: Record<string, unknown>;
+}
+
+export interface Finding extends DetectedPattern {
+  id: string | null;         // Custom ID once persisted
+  chain: Chain;
+  fingerprint: string;       // Stable across runs so re-detection updates rather than duplicates
+  projectId: string | null;
+}
+
+export interface PatternDetectOptions {
+  filters?: TransferFilters;
+  limit?: number;            // Maximum findings per detector
+  persist?: boolean;
+  projectId?: string;
+}
+
+export interface PatternDetectResult {
+  chain: Chain;
+  scannedTransfers: number;
+  scanTruncated: boolean;    // Only the most recent transfers were scanned
+  detectors: Array<{ detector: DetectorName; findingCount: number }>;
+  findings: Finding[];
+  names: AddressNames;
+}
+
+export type ContractAnalyzeMode = 'calls' | 'callers' | 'activity' | 'tokens' | 'call_tree';
+
+export interface ContractAnalyzeOptions {
+  since?: string;
+  until?: string;
+  interval?: 'day' | 'week' | 'month';  // Bucket size for 'activity'
+  page?: number;
+  limit?: number;
+}
+
+// Mirrors PaginatedProjects so chain listings page the same way
+export interface Paginated<T> {
+  items: T[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+export interface ContractCallStat {
+  name: string;              // Instruction discriminator (Solana) or module::function (Sui)
+  callCount: number;
+  uniqueCallers: number;
+  firstSeen: string | null;
+  lastSeen: string | null;
+}
+
+export interface ContractCaller {
+  address: string;
+  callCount: number;
+  transactionCount: number;
+  firstSeen: string | null;
+  lastSeen: string | null;
+}
+
+export interface ContractCallers extends Paginated<ContractCaller> {
+  names: AddressNames;
+}
+
+export interface ContractActivityBucket {
+  period: string;            // Start of the bucket (ISO date)
+  callCount: number;
+  uniqueCallers: number;
+  newCallers: number;        // Callers not seen in an earlier bucket of the window
+}
+
+export interface ContractTokenFlow {
+  mint: string;
+  decimals: number | null;
+  volume: string;            // Sum of positive balance changes in base units
+  transactionCount: number;
+}
+
+export interface ContractCallNode {
+  id: string;
+  path: string;              // Instruction path (Solana) or command index (Sui)
+  program: string;
+  name: string | null;
+  stackHeight: number;
+  children: ContractCallNode[];
+}
+
+export interface BalanceHistoryOptions {
+  at?: string;               // Slot (Solana) or checkpoint (Sui) to report the balance at
+  page?: number;
+  limit?: number;
+}
+
+export interface BalanceHistoryEntry {
+  signature: string;
+  position: string | null;   // Slot (Solana) or checkpoint (Sui)
+  blockTime: string | null;
+  delta: string;
+  balance: string;
+  exact: boolean;            // False when derived from deltas without an absolute balance
+}
+
+export interface BalanceHistory extends Paginated<BalanceHistoryEntry> {
+  chain: Chain;
+  address: string;
+  mint: string;
+  decimals: number | null;
+  at: string | null;
+  balance: string | null;    // Balance at `at`, or the latest balance; null if unseen by then
+  exact: boolean;
+  names: AddressNames;
+}
+
+export interface TokenFlowOptions {
+  maxHops?: number;
+  minAmount?: string;
+  since?: string;
+  until?: string;
+  limit?: number;
+}
+
+export interface TokenFlowTransfer {
+  from: string;
+  to: string;
+  amount: string;
+  signature: string;
+  position: string | null;
+  blockTime: string | null;
+}
+
+export interface TokenFlowPath {
+  hops: number;
+  amount: string;            // Smallest transfer along the path
+  transfers: TokenFlowTransfer[];
+}
+
+export interface TokenFlow {
+  chain: Chain;
+  from: string;
+  to: string;
+  mint: string;
+  decimals: number | null;
+  paths: TokenFlowPath[];
+  summary: {
+    pathCount: number;
+    directAmount: string;    // Sum of single-hop transfers
+    intermediaries: string[];
+    truncated: boolean;      // More candidate paths existed than were scanned
+  };
+  names: AddressNames;
+}
+
+export interface TokenHoldersOptions {
+  at?: string;               // Slot (Solana) or checkpoint (Sui) to reconstruct holders at (default: latest)
+  compareAt?: string;        // Another slot or checkpoint to compare the distribution with
+  top?: number;              // Holders listed per distribution
+}
+
+export interface TokenHolder {
+  rank: number;
+  address: string;
+  balance: string;
+  share: number;             // Fraction of the total held by observed holders
+  exact: boolean;            // False when derived from deltas without an absolute balance
+}
+
+export interface TokenHolderGroup {
+  name: string;              // Entity name, or the address label when there is no entity
+  entityId: string | null;
+  addressCount: number;
+  share: number;
+}
+
+export interface HolderDistribution {
+  at: string | null;         // Requested position, or the latest change observed
+  holderCount: number;       // Addresses with a positive balance
+  totalHeld: string;         // Sum of their balances
+  exact: boolean;
+  gini: number;              // 0 when all hold the same, approaching 1 when one holds everything
+  nakamoto: number;          // Fewest holders together holding more than half
+  labeledShare: number;      // Fraction held by addresses with a label or entity
+  labeledHolders: TokenHolderGroup[];
+  topHolders: TokenHolder[];
+}
+
+export interface TokenHolderChange {
+  address: string;
+  balanceBefore: string | null;  // null when not a holder at compareAt
+  balanceAfter: string | null;   // null when not a holder at `at`
+  delta: string;
+  rankBefore: number | null;
+  rankAfter: number | null;
+}
+
+export interface TokenHolders {
+  chain: Chain;
+  mint: string;
+  decimals: number | null;
+  distribution: HolderDistribution;
+  comparison: {
+    distribution: HolderDistribution;
+    holderCountChange: number;
+    giniChange: number;
+    nakamotoChange: number;
+    labeledShareChange: number;
+    topHolderChanges: TokenHolderChange[];  // Holders in the top list at either position
+  } | null;
+  names: AddressNames;
+}
+
+// Raw Solana `getRecentPerformanceSamples` entry (one per ~60s period)
+export interface SolanaPerformanceSample {
+  slot: number;
+  numTransactions: number;
+  numNonVoteTransactions?: number;
+  numSlots: number;
+  samplePeriodSecs: number;
+}
+
+// Raw Sui `suix_getCheckpoints` entry
+export interface SuiCheckpoint {
+  sequenceNumber: string;
+  epoch: string;
+  timestampMs: string;
+  networkTotalTransactions: string;
+  epochRollingGasCostSummary: {
+    computationCost: string;
+    storageCost: string;
+    storageRebate: string;
+    nonRefundableStorageFee?: string;
+  };
+}
+
+// 'network' buckets come from chain-wide RPC samples, 'ingested' from Transaction nodes
+export type MetricSource = 'network' | 'ingested';
+
+export type MetricWindow = '1m' | '1h' | '1d';
+
+export interface MetricBucket {
+  id: string;                // `${chain}:${source}:${start}`
+  chain: Chain;
+  source: MetricSource;
+  start: string;             // Minute-aligned ISO timestamp
+  durationSecs: number;
+  txCount: number;
+  failedCount: number | null;
+  feeTotal: string | null;   // Lamports or net MIST
+  computeUnits: string | null;
+  firstPosition: string | null;  // Slot or checkpoint range covered
+  lastPosition: string | null;
+}
+
+export interface MetricCollectResult {
+  chain: Chain;
+  source: MetricSource;
+  bucketCount: number;
+  from: string | null;
+  to: string | null;
+}
+
+export interface MetricQueryOptions {
+  window?: MetricWindow;
+  source?: MetricSource;
+  since?: string;
+  until?: string;
+}
+
+export interface MetricPercentiles {
+  avg: number;
+  p50: number;
+  p90: number;
+  p99: number;
+  max: number;
+}
+
+export interface MetricWindowPoint {
+  start: string;
+  txCount: number;
+  tps: MetricPercentiles;    // Over the one-minute buckets in the window
+  failedRatio: number | null;
+  feeTotal: string | null;
+  avgFee: string | null;
+  computeUnits: string | null;
+  bucketCount: number;
+}
+
+export interface ChainMetricSeries {
+  chain: Chain;
+  points: MetricWindowPoint[];
+  summary: {
+    txCount: number;
+    tps: MetricPercentiles;
+    failedRatio: number | null;
+    feeTotal: string | null;
+    avgFee: string | null;
+    computeUnits: string | null;
+    bucketCount: number;
+  };
+}
+
+export interface NetworkMetricsResult {
+  window: MetricWindow;
+  source: MetricSource;
+  since: string;
+  until: string;
+  series: ChainMetricSeries[];
+  comparison: Array<{
+    metric: string;
+    values: Record<string, number | null>;
+    leader: string | null;   // Chain with the highest value
+  }>;
+}
+
+// 'rpc' reads live endpoints; 'fixtures' replays recorded JSON-RPC responses
+export type ChainDataProviderKind = 'rpc' | 'fixtures';
+
+// 'backfill' walks an address's history from newest to oldest and completes;
+// 'follow' picks up transactions newer than its cursor on a schedule
+export type IngestionJobMode = 'backfill' | 'follow';
+
+export type IngestionJobStatus = 'active' | 'stopped' | 'completed' | 'failed';
+
+export interface IngestionJob {
+  id: string;
+  chain: Chain;
+  address: string;
+  mode: IngestionJobMode;
+  status: IngestionJobStatus;
+  provider: ChainDataProviderKind;
+  schedule: string | null;   // Cron expression for follow jobs
+  batchSize: number;
+  concurrency: number;       // Transaction fetches in flight per batch
+  maxRetries: number;
+  stopAt: string | null;     // Backfill: oldest slot or checkpoint to reach
+  cursor: {
+    id: string | null;       // Last processed signature or digest
+    position: string | null; // Its slot (Solana) or checkpoint (Sui)
+  };
+  processed: number;
+  failed: number;
+  attempts: number;          // Consecutive failed batches
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+  lastRunAt: string | null;
+  completedAt: string | null;
+}
+
+export interface CreateIngestionJobInput {
+  chain: Chain;
+  address: string;
+  mode: IngestionJobMode;
+  provider?: ChainDataProviderKind;
+  schedule?: string;
+  batchSize?: number;
+  concurrency?: number;
+  maxRetries?: number;
+  stopAt?: string;
+}
+
+export interface IngestionJobState extends IngestionJob {
+  running: boolean;
+  queued: boolean;
+  nextRunAt: string | null;
+}
+
+export interface IngestionBatchResult {
+  cursor: IngestionJob['cursor'];
+  ingested: number;
+  failed: number;
+  lastError: string | null;
+  done: boolean;             // Backfill reached its end, or follow caught up
+}
+
+// How an address came to be controlled by an entity
+export type ClusterHeuristic = 'shared_fee_payer' | 'co_signer' | 'common_funder';
+
+export type ControlSource = 'manual' | ClusterHeuristic;
+
+export interface EntityRef {
+  id: string;
+  name: string;
+}
+
+export interface AddressName {
+  label: string | null;
+  entity: EntityRef | null;
+}
+
+// Labels and entities of the addresses in an analytics result, keyed by
+// address; addresses with neither are left out
+export type AddressNames = Record<string, AddressName>;
+
+export interface AddressLabel {
+  chain: Chain;
+  address: string;
+  label: string | null;
+  category: string | null;   // Free-form kind, e.g. 'exchange' or 'multisig'
+  labeledAt: string | null;
+  entity: EntityRef | null;
+}
+
+export interface SetAddressLabelInput {
+  chain: Chain;
+  address: string;
+  label?: string | null;     // null removes the label; omitted leaves it unchanged
+  category?: string | null;
+  entityId?: string | null;  // null detaches the address from its entity
+  entityName?: string;       // Attach to the entity with this name, creating it if needed
+}
+
+export interface Entity {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface EntityMember {
+  chain: Chain;
+  address: string;
+  label: string | null;
+  category: string | null;
+  source: ControlSource;
+  confidence: number;        // 1 for manual assignments
+  evidence: string | null;
+  addedAt: string;
+}
+
+export interface EntityCandidate {
+  chain: Chain;
+  address: string;
+  label: string | null;
+  entity: EntityRef | null;  // Entity already controlling the candidate, if any
+  heuristics: ClusterHeuristic[];
+  confidence: number;        // Combined over all evidence, 0..1
+  evidence: string[];
+  signatures: string[];      // Sample transactions behind the evidence
+}
+
+export interface EntityClusterOptions {
+  heuristics?: ClusterHeuristic[];
+  minConfidence?: number;    // Candidates below it are not reported
+  limit?: number;
+}
+
+export interface EntityLookupResult {
+  entity: (Entity & { addresses: EntityMember[] }) | null;
+  candidates: EntityCandidate[];
+}
+
+export interface AddressLabelResult extends AddressLabel {
+  clustered: EntityCandidate[];  // Candidates attached to the entity by clustering
+}
+
+// Conditions checked against every batch of newly ingested transactions
+export type AlertRuleKind = 'large_transfer' | 'upgrade_authority_change' | 'entity_interaction';
+
+export type AlertCondition =
+  | { kind: 'large_transfer'; minAmount: string; mint?: string; direction?: 'out' | 'in' | 'both' }
+  | { kind: 'upgrade_authority_change' }
+  | { kind: 'entity_interaction'; entityIds?: string[]; categories?: string[] };
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  chain: Chain;
+  condition: AlertCondition;
+  addresses: string[];       // Empty: the project's watches, or every address without a project
+  projectId: string | null;  // Project that receives alerts as notes
+  enabled: boolean;
+  alertCount: number;
+  openAlertCount: number;
+  createdAt: string;
+  updatedAt: string;
+  lastTriggeredAt: string | null;
+}
+
+export interface CreateAlertRuleInput {
+  name: string;
+  chain: Chain;
+  condition: AlertCondition;
+  addresses?: string[];
+  projectId?: string;
+  enabled?: boolean;
+}
+
+export type AlertStatus = 'open' | 'acknowledged';
+
+// A rule matched by one transaction, before it is stored
+export interface AlertMatch {
+  key: string;               // Distinguishes matches of one rule within a transaction
+  signature: string;
+  blockTime: string | null;
+  subject: string;           // Address, account or object the alert is about
+  summary: string;
+  addresses: string[];       // Addresses involved, linked from the Alert node
+  details: Record<string, unknown>;
+}
+
+export interface Alert extends Omit<AlertMatch, 'key'> {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  kind: AlertRuleKind;
+  chain: Chain;
+  projectId: string | null;
+  noteId: string | null;     // Note added to the project when the alert was raised
+  status: AlertStatus;
+  createdAt: string;
+  acknowledgedAt: string | null;
+  acknowledgedBy: string | null;
+  acknowledgeNote: string | null;
+}
+
+export interface AlertPage extends Paginated<Alert> {
+  names: Partial<Record<Chain, AddressNames>>;   // Alerts on a page can be on either chain
+}
+
+export interface AlertListOptions {
+  status?: AlertStatus;
+  ruleId?: string;
+  projectId?: string;
+  chain?: Chain;
+  since?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface AlertAckResult {
+  acknowledged: Alert[];
+  notFound: string[];
+}
+
+export interface IngestResult {
+  chain: Chain;
+  requested: number;
+  ingested: string[];
+  alerts: string[];          // IDs of alerts the ingested transactions raised
+  errors: Array<{
+    index: number;
+    id?: string;
+    code: BaseErrorCode | ChainErrorCode | string;
+    message: string;
+  }>;
+}
+
+// Per-address features computed over the transfer graph by risk scoring
+export type RiskFeatureName =
+  | 'degreeCentrality'
+  | 'pageRank'
+  | 'clusteringCoefficient'
+  | 'burstiness'
+  | 'ageDays';
+
+export interface AddressFeatures {
+  address: string;
+  inDegree: number;          // Distinct senders to the address
+  outDegree: number;         // Distinct recipients of the address
+  counterparties: number;    // Distinct senders and recipients together
+  transferCount: number;
+  degreeCentrality: number;  // Distinct counterparties over (addresses - 1)
+  pageRank: number;          // Scaled so the average address has 1
+  clusteringCoefficient: number;
+  burstiness: number | null; // (σ - μ) / (σ + μ) of gaps between transfers; null below 3 transfers
+  ageDays: number | null;    // Days since the earliest stored transfer of the address
+  firstSeen: string | null;
+}
+
+// Spread of one feature over the scored population
+export interface RiskFeatureStats {
+  median: number;            // In the feature's own units
+  center: number;            // Median on the scoring scale
+  scale: number;             // Robust standard deviation on the scoring scale
+}
+
+export interface RiskFeatureContribution {
+  feature: RiskFeatureName;
+  value: number | null;
+  median: number;
+  zScore: number;            // Robust z-score, on a log scale for heavy-tailed features
+  contribution: number;      // Part of the z-score in the suspicious direction
+  share: number;             // Fraction of the squared score due to this feature
+  explanation: string;
+}
+
+export interface RiskScoringRun {
+  runId: string;
+  chain: Chain;
+  startedAt: string;
+  completedAt: string;
+  since: string | null;
+  transferCount: number;
+  scanTruncated: boolean;
+  addressCount: number;
+  outlierCount: number;
+  threshold: number;
+  featureStats: Record<RiskFeatureName, RiskFeatureStats>;
+}
+
+export interface AddressRiskScore {
+  chain: Chain;
+  address: string;
+  score: number;             // Norm of the feature contributions
+  outlier: boolean;
+  percentile: number;        // Share of scored addresses with a lower score
+  stale: boolean;            // Scored by an earlier run; the address had no transfers in the latest one
+  scoredAt: string;
+  run: RiskScoringRun;
+  features: RiskFeatureContribution[];
+  summary: string;
+  names: AddressNames;
+}
+
+// Lock and burn move funds off a chain; mint and unlock release them on the other side
+export type BridgeAction = 'lock' | 'burn' | 'mint' | 'unlock';
+export type BridgeDirection = 'outbound' | 'inbound';
+
+// Registry entry describing how a bridge shows up on each chain. Selectors map
+// to an action when it is known, or only to a direction when the same call
+// can either lock or burn.
+export interface BridgeDefinition {
+  name: string;
+  transitDecimals: number | null;   // Precision amounts are truncated to in transit
+  chainIds: Partial<Record<Chain, number>>;  // The bridge's own chain IDs, as found in payloads
+  payload: 'wormhole' | null;       // Layout of outbound transfer arguments, when decodable
+  solana?: {
+    programIds: string[];
+    instructions: Record<string, BridgeAction | BridgeDirection>;  // Keyed by hex prefix of instruction data
+  };
+  sui?: {
+    packages: string[];
+    functions: Record<string, BridgeAction | BridgeDirection>;     // Keyed by `module::function`
+  };
+}
+
+// Bridge transfer decoded from one side of a crossing
+export interface BridgeEvent {
+  id: string;                // `${bridge}:${signature}:${position}`
+  bridge: string;
+  chain: Chain;
+  signature: string;
+  position: string;          // Instruction path or Move command index
+  direction: BridgeDirection;
+  action: BridgeAction | null;
+  address: string;           // Sender of an outbound transfer, recipient of an inbound one
+  mint: string | null;
+  amount: string | null;     // Base units moved on this chain
+  decimals: number | null;
+  normalizedAmount: string | null;  // Amount truncated to the bridge's transit precision
+  fee: string | null;        // Relayer fee from the payload, in the same units as amount
+  blockTime: string | null;
+  targetChain: Chain | null; // Destination named in an outbound payload
+  recipient: string | null;  // Recipient named in an outbound payload, in the target chain's format
+  receivers: string[];       // Addresses a payload recipient may name on an inbound transfer
+}
+
+export interface BridgeHop {
+  bridge: string;
+  confidence: 'high' | 'medium' | 'low';
+  matchedOn: string[];       // Criteria the two sides agreed on
+  source: BridgeHopSide;
+  destination: BridgeHopSide;
+  onward: Array<{            // Transfers carrying the funds further from the traced address
+    from: string;
+    to: string;
+    mint: string;
+    amount: string;
+    signature: string;
+    blockTime: string | null;
+  }>;
+}
+
+export interface BridgeHopSide {
+  chain: Chain;
+  address: string;
+  signature: string;
+  mint: string | null;
+  amount: string | null;
+  blockTime: string | null;
+}
+
+export interface BridgeTraceOptions {
+  direction?: 'outbound' | 'inbound' | 'both';
+  since?: string;
+  until?: string;
+  onwardLimit?: number;      // Onward transfers listed per hop
+}
+
+export interface BridgeTrace {
+  chain: Chain;
+  address: string;
+  hops: BridgeHop[];
+  pending: BridgeEvent[];    // Bridge transfers of the address with no match on the other chain yet
+  names: Partial<Record<Chain, AddressNames>>;
+}
+
+// Anchor IDL, in the 0.30 layout or the older one (camelCase names, `publicKey`,
+// program address under metadata, discriminators derived from names)
+export type IdlType =
+  | string                   // bool, u8..u128, i8..i128, f32, f64, string, bytes, pubkey
+  | { vec: IdlType }
+  | { option: IdlType }
+  | { coption: IdlType }
+  | { array: [IdlType, number] }
+  | { defined: string | { name: string } };
+
+export interface IdlField {
+  name: string;
+  type: IdlType;
+}
+
+export interface IdlInstruction {
+  name: string;
+  discriminator?: number[];
+  args: IdlField[];
+}
+
+export interface IdlTypeDef {
+  name: string;
+  type:
+    | { kind: 'struct'; fields?: Array<IdlField | IdlType> }
+    | { kind: 'enum'; variants: Array<{ name: string; fields?: Array<IdlField | IdlType> }> }
+    | { kind: 'type'; alias: IdlType };
+}
+
+export interface Idl {
+  address?: string;
+  name?: string;
+  metadata?: { name?: string; address?: string };
+  instructions: IdlInstruction[];
+  types?: IdlTypeDef[];
+}
+
+export interface DecodedInstruction {
+  decoder: string;           // Name of the IDL that recognized the instruction
+  name: string;
+  args: Record<string, unknown> | null;  // null when the data does not fit the declared layout
+}
+
+export type IdlSource = 'builtin' | 'directory' | 'registered';
+
+export interface ProgramIdl {
+  programId: string;
+  name: string;
+  source: IdlSource;
+  instructionCount: number;
+}
+
+export interface IdlRegisterResult extends ProgramIdl {
+  registeredAt: string;
+  redecoded: number;         // Stored instructions of the program decoded again
+}
+
+// Normalized Move ABI, in the `sui_getNormalizedMoveModulesByPackage` layout.
+// Type parameters are positional; references only appear in parameters.
+export type MoveType =
+  | 'Bool' | 'U8' | 'U16' | 'U32' | 'U64' | 'U128' | 'U256' | 'Address' | 'Signer'
+  | { Struct: MoveStructTag }
+  | { Vector: MoveType }
+  | { TypeParameter: number }
+  | { Reference: MoveType }
+  | { MutableReference: MoveType };
+
+export interface MoveStructTag {
+  address: string;
+  module: string;
+  name: string;
+  typeArguments: MoveType[];
+}
+
+export interface MoveStructLayout {
+  abilities?: { abilities: string[] };
+  typeParameters?: unknown[];
+  fields: Array<{ name: string; type: MoveType }>;
+}
+
+export interface MoveFunctionSignature {
+  visibility?: string;
+  isEntry?: boolean;
+  typeParameters?: unknown[];
+  parameters: MoveType[];
+  return?: MoveType[];
+}
+
+export interface MoveModuleAbi {
+  address?: string;
+  name?: string;
+  structs?: Record<string, MoveStructLayout>;
+  exposedFunctions?: Record<string, MoveFunctionSignature>;
+}
+
+// Modules of one package, keyed by module name
+export type MovePackageAbi = Record<string, MoveModuleAbi>;
+
+// 'abi' values were read through the package ABI; 'json' values are the
+// node's own JSON rendering, used when no layout is known
+export type MoveDecoder = 'abi' | 'json';
+
+// A Move call argument or event field with its Move type
+export interface MoveValue {
+  type: string;
+  value: unknown;
+}
+
+// Ordering operators compare unsigned integers, which Move values always are
+export type EventFieldOperator = 'eq' | 'ne' | 'gt' | 'gte' | 'lt' | 'lte';
+
+export interface EventFieldFilter {
+  field: string;             // Top-level field name
+  op: EventFieldOperator;
+  value: string | number | boolean;
+}
+
+export interface EventQueryOptions {
+  type: string;              // Struct type, matched with or without type arguments
+  fields?: EventFieldFilter[];
+  sender?: string;
+  since?: string;
+  until?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface EventRecord {
+  id: string;
+  digest: string;
+  eventSeq: number;
+  packageId: string;
+  module: string;
+  sender: string;
+  type: string;
+  blockTime: string | null;
+  checkpoint: number | null;
+  fields: Record<string, unknown> | null;
+  fieldTypes: Record<string, string> | null;
+  decoder: MoveDecoder | null;
+}
+
+export interface EventPage extends Paginated<EventRecord> {
+  names: AddressNames;     // Labels and entities of the senders
+}
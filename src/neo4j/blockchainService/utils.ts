@@ -0,0 +1,148 @@
+import { BalanceChange, Chain, Paginated, Transfer } from "./types.js";
+
+// Native asset identifiers used as the `mint` of native balance changes
+export const NATIVE_ASSETS: Record<Chain, { mint: string; decimals: number }> = {
+  solana: { mint: 'SOL', decimals: 9 },
+  sui: { mint: '0x2::sui::SUI', decimals: 9 }
+};
+
+/**
+ * Aggregates raw per-account balance observations into one change per
+ * (address, mint), dropping entries whose net delta is zero
+ * @param observations Individual observations, possibly several per address and mint
+ * @returns Aggregated balance changes
+ */
+export const aggregateBalanceChanges = (
+  observations: Array<{
+    address: string;
+    mint: string;
+    delta: bigint;
+    pre: bigint | null;
+    post: bigint | null;
+    decimals: number | null;
+  }>
+): BalanceChange[] => {
+  const byKey = new Map<string, { address: string; mint: string; delta: bigint; pre: bigint | null; post: bigint | null; decimals: number | null }>();
+
+  for (const obs of observations) {
+    const key = `${obs.address}|${obs.mint}`;
+    const existing = byKey.get(key);
+    if (!existing) {
+      byKey.set(key, { ...obs });
+      continue;
+    }
+    existing.delta += obs.delta;
+    existing.pre = existing.pre !== null && obs.pre !== null ? existing.pre + obs.pre : null;
+    existing.post = existing.post !== null && obs.post !== null ? existing.post + obs.post : null;
+    existing.decimals = existing.decimals ?? obs.decimals;
+  }
+
+  return [...byKey.values()]
+    .filter(change => change.delta !== BigInt(0))
+    .map(change => ({
+      address: change.address,
+      mint: change.mint,
+      delta: change.delta.toString(),
+      pre: change.pre === null ? null : change.pre.toString(),
+      post: change.post === null ? null : change.post.toString(),
+      decimals: change.decimals
+    }));
+};
+
+/**
+ * Infers address-to-address transfers from a transaction's balance changes.
+ * Within each mint, senders and receivers are paired greedily from the
+ * largest amounts down. The fee is added back to the fee payer's native
+ * delta so that gas is not reported as a transfer.
+ * @param changes Aggregated balance changes of one transaction
+ * @param native The chain's native asset
+ * @param feePayer Address that paid the fee
+ * @param fee Fee in native base units
+ * @returns Inferred transfers
+ */
+export const deriveTransfers = (
+  changes: BalanceChange[],
+  native: { mint: string },
+  feePayer: string,
+  fee: string | number
+): Transfer[] => {
+  const byMint = new Map<string, Array<{ address: string; amount: bigint; decimals: number | null }>>();
+
+  for (const change of changes) {
+    let amount = BigInt(change.delta);
+    if (change.mint === native.mint && change.address === feePayer) {
+      amount += BigInt(fee);
+    }
+    if (amount === BigInt(0)) continue;
+    const entries = byMint.get(change.mint) ?? [];
+    entries.push({ address: change.address, amount, decimals: change.decimals });
+    byMint.set(change.mint, entries);
+  }
+
+  const transfers: Transfer[] = [];
+  const byAmountDesc = (a: { amount: bigint }, b: { amount: bigint }) =>
+    a.amount === b.amount ? 0 : a.amount > b.amount ? -1 : 1;
+
+  for (const [mint, entries] of byMint) {
+    const senders = entries
+      .filter(e => e.amount < BigInt(0))
+      .map(e => ({ ...e, amount: -e.amount }))
+      .sort(byAmountDesc);
+    const receivers = entries.filter(e => e.amount > BigInt(0)).sort(byAmountDesc);
+
+    let i = 0;
+    let j = 0;
+    while (i < senders.length && j < receivers.length) {
+      const sender = senders[i];
+      const receiver = receivers[j];
+      const amount = sender.amount < receiver.amount ? sender.amount : receiver.amount;
+
+      transfers.push({
+        from: sender.address,
+        to: receiver.address,
+        mint,
+        amount: amount.toString(),
+        decimals: receiver.decimals ?? sender.decimals
+      });
+
+      sender.amount -= amount;
+      receiver.amount -= amount;
+      if (sender.amount === BigInt(0)) i++;
+      if (receiver.amount === BigInt(0)) j++;
+    }
+  }
+
+  return transfers;
+};
+
+/**
+ * Pages a list that had to be fully materialized, e.g. after aggregating in JS
+ */
+export const paginate = <T>(items: T[], page: number, limit: number): Paginated<T> => ({
+  items: items.slice((page - 1) * limit, page * limit),
+  total: items.length,
+  page,
+  limit
+});
+
+/**
+ * Converts a Neo4j integer to its decimal string without going through a JS
+ * number, so slots, checkpoints and amounts keep full precision
+ */
+export const toIntegerString = (value: unknown): string | null => {
+  if (value === null || value === undefined) return null;
+  return String(value);
+};
+
+/**
+ * Converts a Neo4j integer or plain number to a JS number, passing nulls through.
+ * Only use for counts; amounts must stay strings (see toIntegerString).
+ */
+export const toNumberOrNull = (value: unknown): number | null => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'object' && 'toNumber' in (value as object)) {
+    return (value as { toNumber: () => number }).toNumber();
+  }
+  return Number(value);
+};
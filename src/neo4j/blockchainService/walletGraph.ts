@@ -0,0 +1,219 @@
+import neo4j from "neo4j-driver";
+import { getSession } from "../driver.js";
+import { McpError, ChainErrorCode } from "../../types/errors.js";
+import { handleNeo4jError } from "../projectService/utils.js";
+import { toNumberOrNull } from "./utils.js";
+import { resolveAddressNames } from "./entityService.js";
+import {
+  Chain,
+  MintTotals,
+  WalletGraph,
+  WalletGraphEdge,
+  WalletGraphNode,
+  WalletGraphOptions
+} from "./types.js";
+
+const DEFAULT_DEPTH = 2;
+const DEFAULT_MAX_NODES = 100;
+const TOP_COUNTERPARTIES = 10;
+// Transfers read per node still to be added, so a hub address cannot pull
+// its whole history into memory
+const TRANSFERS_PER_NODE = 20;
+
+interface TransferRow {
+  from: string;
+  to: string;
+  mint: string;
+  decimals: number | null;
+  amount: bigint;
+  signature: string;
+  blockTime: string | null;
+}
+
+const addToTotals = (totals: MintTotals, mint: string, direction: 'in' | 'out', amount: bigint) => {
+  const entry = totals[mint] ?? { in: '0', out: '0' };
+  entry[direction] = (BigInt(entry[direction]) + amount).toString();
+  totals[mint] = entry;
+};
+
+/**
+ * Builds the N-hop counterparty subgraph around an address from TRANSFERRED
+ * edges. Expansion is breadth-first, so the nearest counterparties are kept
+ * when maxNodes cuts the traversal short. Each hop reads at most a fixed
+ * number of the latest transfers per node left in the budget.
+ * @param chain The chain the address belongs to
+ * @param address The canonical root address
+ * @param options Traversal depth, node cap and transfer filters
+ * @returns Nodes, aggregated edges and summary statistics
+ * @throws {McpError} If the root address has not been ingested
+ */
+export const getWalletGraph = async (
+  chain: Chain,
+  address: string,
+  options: WalletGraphOptions = {}
+): Promise<WalletGraph> => {
+  const depth = options.depth ?? DEFAULT_DEPTH;
+  const maxNodes = options.maxNodes ?? DEFAULT_MAX_NODES;
+  const minAmount = options.minAmount ? BigInt(options.minAmount) : null;
+
+  const session = getSession();
+  try {
+    const rootResult = await session.run(
+      `MATCH (a:Address {chain: $chain, address: $address}) RETURN a.address AS address`,
+      { chain, address }
+    );
+    if (!rootResult.records.length) {
+      throw new McpError(
+        ChainErrorCode.ADDRESS_NOT_FOUND,
+        `Address ${address} on ${chain} has not been ingested`,
+        { chain, address }
+      );
+    }
+
+    const hops = new Map<string, number>([[address, 0]]);
+    const transfers = new Map<string, TransferRow>();
+    let frontier = [address];
+    let truncated = false;
+
+    for (let hop = 1; hop <= depth && frontier.length; hop++) {
+      const limit = Math.max(maxNodes - hops.size, 1) * TRANSFERS_PER_NODE;
+      const result = await session.run(
+        `UNWIND $frontier AS frontierAddress
+        MATCH (a:Address {chain: $chain, address: frontierAddress})-[tr:TRANSFERRED]-(:Address)
+        WHERE ($mint IS NULL OR tr.mint = $mint)
+          AND ($since IS NULL OR tr.blockTime >= $since)
+          AND ($until IS NULL OR tr.blockTime <= $until)
+        RETURN DISTINCT startNode(tr).address AS from,
+               endNode(tr).address AS to,
+               tr.mint AS mint,
+               tr.decimals AS decimals,
+               tr.amount AS amount,
+               tr.signature AS signature,
+               tr.blockTime AS blockTime
+        ORDER BY blockTime DESC
+        LIMIT $limit`,
+        {
+          chain,
+          frontier,
+          limit: neo4j.int(limit),
+          mint: options.mint ?? null,
+          since: options.since ?? null,
+          until: options.until ?? null
+        }
+      );
+
+      // The most recent transfers were kept; older ones may reach further
+      if (result.records.length === limit) truncated = true;
+
+      const next: string[] = [];
+      for (const record of result.records) {
+        // Amounts are base-unit strings, so the threshold is applied here rather than in Cypher
+        const amount = BigInt(record.get("amount"));
+        if (minAmount !== null && amount < minAmount) continue;
+
+        const row: TransferRow = {
+          from: record.get("from"),
+          to: record.get("to"),
+          mint: record.get("mint"),
+          decimals: toNumberOrNull(record.get("decimals")),
+          amount,
+          signature: record.get("signature"),
+          blockTime: record.get("blockTime")
+        };
+
+        for (const endpoint of [row.from, row.to]) {
+          if (hops.has(endpoint)) continue;
+          if (hops.size >= maxNodes) {
+            truncated = true;
+            continue;
+          }
+          hops.set(endpoint, hop);
+          next.push(endpoint);
+        }
+
+        // Only keep transfers whose endpoints both made it into the graph
+        if (hops.has(row.from) && hops.has(row.to)) {
+          transfers.set(`${row.signature}|${row.mint}|${row.from}|${row.to}`, row);
+        }
+      }
+
+      frontier = next;
+    }
+
+    const edges = new Map<string, WalletGraphEdge>();
+    const nodeTotals = new Map<string, MintTotals>();
+    const neighbours = new Map<string, Set<string>>();
+    const rootCounterparties = new Map<string, { transferCount: number; totals: MintTotals }>();
+
+    for (const row of transfers.values()) {
+      const key = `${row.from}|${row.to}|${row.mint}`;
+      const edge = edges.get(key) ?? {
+        source: row.from,
+        target: row.to,
+        mint: row.mint,
+        decimals: row.decimals,
+        amount: '0',
+        transferCount: 0,
+        firstAt: null,
+        lastAt: null
+      };
+      edge.amount = (BigInt(edge.amount) + row.amount).toString();
+      edge.transferCount++;
+      if (row.blockTime && (!edge.firstAt || row.blockTime < edge.firstAt)) edge.firstAt = row.blockTime;
+      if (row.blockTime && (!edge.lastAt || row.blockTime > edge.lastAt)) edge.lastAt = row.blockTime;
+      edges.set(key, edge);
+
+      const fromTotals = nodeTotals.get(row.from) ?? {};
+      addToTotals(fromTotals, row.mint, 'out', row.amount);
+      nodeTotals.set(row.from, fromTotals);
+      const toTotals = nodeTotals.get(row.to) ?? {};
+      addToTotals(toTotals, row.mint, 'in', row.amount);
+      nodeTotals.set(row.to, toTotals);
+
+      neighbours.set(row.from, (neighbours.get(row.from) ?? new Set()).add(row.to));
+      neighbours.set(row.to, (neighbours.get(row.to) ?? new Set()).add(row.from));
+
+      // Totals from the root's point of view
+      if (row.from === address || row.to === address) {
+        const counterparty = row.from === address ? row.to : row.from;
+        const entry = rootCounterparties.get(counterparty) ?? { transferCount: 0, totals: {} };
+        entry.transferCount++;
+        addToTotals(entry.totals, row.mint, row.from === address ? 'out' : 'in', row.amount);
+        rootCounterparties.set(counterparty, entry);
+      }
+    }
+
+    const nodes: WalletGraphNode[] = [...hops.entries()].map(([nodeAddress, hop]) => ({
+      id: nodeAddress,
+      chain,
+      address: nodeAddress,
+      hop,
+      degree: neighbours.get(nodeAddress)?.size ?? 0,
+      totals: nodeTotals.get(nodeAddress) ?? {}
+    }));
+
+    return {
+      nodes,
+      edges: [...edges.values()],
+      summary: {
+        root: address,
+        chain,
+        depth,
+        nodeCount: nodes.length,
+        edgeCount: edges.size,
+        transferCount: transfers.size,
+        truncated,
+        topCounterparties: [...rootCounterparties.entries()]
+          .sort(([, a], [, b]) => b.transferCount - a.transferCount)
+          .slice(0, TOP_COUNTERPARTIES)
+          .map(([counterparty, entry]) => ({ address: counterparty, ...entry }))
+      },
+      names: await resolveAddressNames(chain, hops.keys())
+    };
+  } catch (error) {
+    if (error instanceof McpError) throw error;
+    throw handleNeo4jError(error, { chain, address, options });
+  } finally {
+    await session.close();
+  }
+};
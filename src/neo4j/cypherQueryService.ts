@@ -0,0 +1,301 @@
+import neo4j, { Node, Path, Relationship } from 'neo4j-driver';
+import { getReadTransaction } from './driver.js';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { McpError, QueryErrorCode } from '../types/errors.js';
+import { isNeo4jError } from './projectService/utils.js';
+
+export interface CypherGraphNode {
+  id: string;
+  labels: string[];
+  properties: Record<string, unknown>;
+}
+
+export interface CypherGraphRelationship {
+  id: string;
+  type: string;
+  start: string;
+  end: string;
+  properties: Record<string, unknown>;
+}
+
+export interface CypherQueryOptions {
+  params?: Record<string, unknown>;
+  maxRows?: number;
+  timeoutMs?: number;
+  graph?: boolean;           // Also collect returned nodes and relationships as a graph
+}
+
+export interface CypherQueryResult {
+  columns: string[];
+  rows: unknown[][];
+  rowCount: number;
+  truncated: boolean;        // More rows were available than maxRows
+  graph?: {
+    nodes: CypherGraphNode[];
+    relationships: CypherGraphRelationship[];
+  };
+  elapsedMs: number;
+}
+
+// Clauses that write data, change the schema, switch databases or manage
+// privileges. Other administration commands fail in a read transaction anyway,
+// and words like START or STOP are too common as variable names to reject.
+const FORBIDDEN_CLAUSES = [
+  'CREATE', 'MERGE', 'DELETE', 'DETACH', 'SET', 'REMOVE', 'DROP', 'FOREACH',
+  'LOAD CSV', 'IN TRANSACTIONS', 'GRANT', 'DENY', 'REVOKE'
+];
+
+// USE can only open a query, a UNION part or a CALL { ... } subquery, so use
+// elsewhere is a property key, alias or variable
+const USE_CLAUSE = /(?:^|(?<![.\w])CALL\s*(?:\([^)]*\)\s*)?\{|(?<![.\w])UNION(?:\s+ALL)?)\s*(?:(?:EXPLAIN|PROFILE)\s+)?USE(?!\w)/i;
+
+// Read-only procedures a query may call; CALL { ... } subqueries are always allowed
+const ALLOWED_PROCEDURES = new Set([
+  'db.labels',
+  'db.relationshiptypes',
+  'db.propertykeys',
+  'db.schema.visualization',
+  'db.schema.nodetypeproperties',
+  'db.schema.reltypeproperties'
+]);
+
+const TIMEOUT_ERROR_CODES = [
+  'Neo.ClientError.Transaction.TransactionTimedOut',
+  'Neo.ClientError.Transaction.TransactionTimedOutClientConfiguration'
+];
+
+const reject = (message: string, details?: Record<string, unknown>): never => {
+  throw new McpError(QueryErrorCode.QUERY_REJECTED, message, details);
+};
+
+// Comments, string literals and backticked identifiers, matched in one pass so
+// that // inside a string or a quote inside a comment is not mistaken for the other
+const LEXEMES = /\/\*[\s\S]*?\*\/|\/\/[^\n]*|'(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*"|`(?:[^`]|``)*`/g;
+
+// A procedure name whose parts may be backticked, such as `apoc.load.json` or `dbms`.`killQueries`
+const PROCEDURE_CALL = /(?<![.\w])CALL\s+((?:`(?:[^`]|``)*`|[A-Za-z_]\w*)(?:\s*\.\s*(?:`(?:[^`]|``)*`|[A-Za-z_]\w*))*)/gi;
+
+/**
+ * Blanks out comments, string literals and, unless asked to keep them,
+ * escaped identifiers so keyword checks only see the structure of the query
+ */
+const stripLiterals = (query: string, keepIdentifiers = false): string =>
+  query.replace(LEXEMES, lexeme => {
+    if (lexeme.startsWith('/')) return ' ';
+    if (lexeme.startsWith('`') && keepIdentifiers) return lexeme;
+    return '""';
+  });
+
+// The name the database resolves, e.g. `apoc.load`.json becomes apoc.load.json
+const procedureName = (call: string): string =>
+  [...call.matchAll(/`((?:[^`]|``)*)`|[A-Za-z_]\w*/g)]
+    .map(([part, escaped]) => escaped === undefined ? part : escaped.replace(/``/g, '`'))
+    .join('.');
+
+/**
+ * Rejects queries that could write or administer, before they reach the
+ * database. The read transaction and the planner check in runCypherQuery
+ * guard against anything this misses.
+ * @throws {McpError} If the query contains a forbidden clause, procedure or several statements
+ */
+export const assertReadOnlyQuery = (query: string): void => {
+  const structure = stripLiterals(query);
+
+  if (structure.replace(/;\s*$/, '').includes(';')) {
+    reject('Only a single statement is allowed');
+  }
+
+  for (const clause of FORBIDDEN_CLAUSES) {
+    // Property keys and labels such as n.set or :Create are not clauses
+    const pattern = new RegExp(`(?<![.:$\\w])${clause.replace(' ', '\\s+')}(?!\\w)`, 'i');
+    if (pattern.test(structure)) {
+      reject(`Query contains a forbidden clause: ${clause}`, { clause });
+    }
+  }
+
+  if (USE_CLAUSE.test(structure)) {
+    reject('Query contains a forbidden clause: USE', { clause: 'USE' });
+  }
+
+  // Backticks can hide a procedure name, so read calls with identifiers intact
+  for (const match of stripLiterals(query, true).matchAll(PROCEDURE_CALL)) {
+    const procedure = procedureName(match[1]);
+    if (!ALLOWED_PROCEDURES.has(procedure.toLowerCase())) {
+      reject(`Procedure ${procedure} is not allowed`, {
+        procedure,
+        allowed: [...ALLOWED_PROCEDURES]
+      });
+    }
+  }
+};
+
+/**
+ * Lists the parameters a query refers to, such as `since` for `$since`
+ * @param query The Cypher query
+ * @returns Parameter names in order of first use
+ */
+export const queryParameterNames = (query: string): string[] =>
+  [...new Set([...stripLiterals(query).matchAll(/\$([A-Za-z_]\w*)/g)].map(match => match[1]))];
+
+// JSON numbers that are whole become Cypher integers, so LIMIT $n and similar work
+const toCypherValue = (value: unknown): unknown => {
+  if (typeof value === 'number' && Number.isSafeInteger(value)) return neo4j.int(value);
+  if (Array.isArray(value)) return value.map(toCypherValue);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, toCypherValue(v)]));
+  }
+  return value;
+};
+
+const toGraphNode = (node: Node): CypherGraphNode => ({
+  id: node.elementId,
+  labels: node.labels,
+  properties: toPlainValue(node.properties) as Record<string, unknown>
+});
+
+const toGraphRelationship = (rel: Relationship): CypherGraphRelationship => ({
+  id: rel.elementId,
+  type: rel.type,
+  start: rel.startNodeElementId,
+  end: rel.endNodeElementId,
+  properties: toPlainValue(rel.properties) as Record<string, unknown>
+});
+
+/**
+ * Converts driver values into JSON: integers become numbers (or strings when
+ * outside the safe range), temporal values ISO strings, and graph elements
+ * plain objects
+ */
+const toPlainValue = (value: unknown): unknown => {
+  if (value === null || value === undefined) return null;
+  if (neo4j.isInt(value)) return value.inSafeRange() ? value.toNumber() : value.toString();
+  if (neo4j.isNode(value)) return toGraphNode(value as Node);
+  if (neo4j.isRelationship(value)) return toGraphRelationship(value as Relationship);
+  if (neo4j.isPath(value)) {
+    const path = value as Path;
+    return {
+      nodes: [path.start, ...path.segments.map(segment => segment.end)].map(toGraphNode),
+      relationships: path.segments.map(segment => toGraphRelationship(segment.relationship))
+    };
+  }
+  if (neo4j.isPoint(value)) {
+    const { srid, x, y, z } = value;
+    return { srid: toPlainValue(srid), x, y, z: z ?? null };
+  }
+  if (
+    neo4j.isDate(value) || neo4j.isDateTime(value) || neo4j.isLocalDateTime(value) ||
+    neo4j.isLocalTime(value) || neo4j.isTime(value) || neo4j.isDuration(value)
+  ) {
+    return value.toString();
+  }
+  if (Array.isArray(value)) return value.map(toPlainValue);
+  if (typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, toPlainValue(v)]));
+  }
+  return value;
+};
+
+// Gathers every node and relationship in a value, including inside paths, lists and maps
+const collectGraph = (
+  value: unknown,
+  nodes: Map<string, CypherGraphNode>,
+  relationships: Map<string, CypherGraphRelationship>
+): void => {
+  if (value === null || typeof value !== 'object' || neo4j.isInt(value)) return;
+  if (neo4j.isNode(value)) {
+    nodes.set((value as Node).elementId, toGraphNode(value as Node));
+  } else if (neo4j.isRelationship(value)) {
+    relationships.set((value as Relationship).elementId, toGraphRelationship(value as Relationship));
+  } else if (neo4j.isPath(value)) {
+    const path = value as Path;
+    collectGraph(path.start, nodes, relationships);
+    path.segments.forEach(segment => {
+      collectGraph(segment.relationship, nodes, relationships);
+      collectGraph(segment.end, nodes, relationships);
+    });
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectGraph(item, nodes, relationships));
+  } else if (Object.getPrototypeOf(value) === Object.prototype) {
+    Object.values(value).forEach(item => collectGraph(item, nodes, relationships));
+  }
+};
+
+/**
+ * Runs a user-supplied Cypher query in a read transaction. The query must
+ * pass assertReadOnlyQuery and be planned as read-only; it is cancelled after
+ * the timeout, and rows are streamed until the row cap is reached.
+ * @param query The Cypher query
+ * @param options Parameters, row cap, timeout and whether to build a graph
+ * @returns Rows as a table, and optionally the nodes and relationships they contain
+ * @throws {McpError} If the query is rejected, times out or fails
+ */
+export const runCypherQuery = async (
+  query: string,
+  options: CypherQueryOptions = {}
+): Promise<CypherQueryResult> => {
+  assertReadOnlyQuery(query);
+
+  const maxRows = Math.min(options.maxRows ?? config.cypherQuery.maxRows, config.cypherQuery.maxRows);
+  const timeoutMs = Math.min(options.timeoutMs ?? config.cypherQuery.timeoutMs, config.cypherQuery.timeoutMs);
+  const params = toCypherValue(options.params ?? {}) as Record<string, unknown>;
+  const startedAt = Date.now();
+
+  try {
+    return await getReadTransaction(async tx => {
+      // The planner knows whether a query writes, whatever its spelling
+      const plan = await tx.run(`EXPLAIN ${query}`, params);
+      if (plan.summary.queryType !== 'r') {
+        reject('Only read-only queries are allowed', { queryType: plan.summary.queryType });
+      }
+
+      const result = tx.run(query, params);
+      const rows: unknown[][] = [];
+      const nodes = new Map<string, CypherGraphNode>();
+      const relationships = new Map<string, CypherGraphRelationship>();
+      let columns: string[] = [];
+      let truncated = false;
+
+      for await (const record of result) {
+        if (rows.length >= maxRows) {
+          // Leaving the loop cancels the rest of the stream
+          truncated = true;
+          break;
+        }
+        columns = record.keys as string[];
+        rows.push(record.keys.map(key => toPlainValue(record.get(key))));
+        if (options.graph) record.forEach(value => collectGraph(value, nodes, relationships));
+      }
+
+      if (!rows.length) {
+        columns = (await result.keys()) as string[];
+      }
+
+      return {
+        columns,
+        rows,
+        rowCount: rows.length,
+        truncated,
+        ...(options.graph ? { graph: { nodes: [...nodes.values()], relationships: [...relationships.values()] } } : {}),
+        elapsedMs: Date.now() - startedAt
+      };
+    }, { timeout: timeoutMs, metadata: { source: 'cypher_query' } });
+  } catch (error) {
+    if (error instanceof McpError) throw error;
+
+    if (isNeo4jError(error) && TIMEOUT_ERROR_CODES.some(code => error.code.startsWith(code))) {
+      throw new McpError(
+        QueryErrorCode.QUERY_TIMEOUT,
+        `Query did not finish within ${timeoutMs}ms`,
+        { timeoutMs }
+      );
+    }
+
+    logger.warn("Custom Cypher query failed", { error, query });
+    throw new McpError(
+      QueryErrorCode.QUERY_FAILED,
+      `Query failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      isNeo4jError(error) ? { code: error.code } : undefined
+    );
+  }
+};
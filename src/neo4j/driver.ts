@@ -25,9 +25,16 @@ export const withTransaction = async <T>(
   }
 };
 
-export const getReadTransaction = async <T>(operation: (tx: ManagedTransaction) => Promise<T>): Promise<T> => {
-  const session = driver.session();
-  return session.executeRead(operation);
+export const getReadTransaction = async <T>(
+  operation: (tx: ManagedTransaction) => Promise<T>,
+  transactionConfig?: { timeout?: number; metadata?: Record<string, unknown> }
+): Promise<T> => {
+  const session = driver.session({ defaultAccessMode: neo4j.session.READ });
+  try {
+    return await session.executeRead(operation, transactionConfig);
+  } finally {
+    await session.close();
+  }
 };
 
 export const closeDriver = async () => {
@@ -90,6 +97,27 @@ export const initializeSchema = async () => {
       REQUIRE m.customId IS UNIQUE
     `);
 
+    // Create constraint for unique task customId
+    await session.run(`
+      CREATE CONSTRAINT task_customid_unique IF NOT EXISTS
+      FOR (t:Task)
+      REQUIRE t.customId IS UNIQUE
+    `);
+
+    // Create constraint for unique workflow customId
+    await session.run(`
+      CREATE CONSTRAINT workflow_customid_unique IF NOT EXISTS
+      FOR (w:Workflow)
+      REQUIRE w.customId IS UNIQUE
+    `);
+
+    // Create constraint for unique workflow names
+    await session.run(`
+      CREATE CONSTRAINT workflow_name_unique IF NOT EXISTS
+      FOR (w:Workflow)
+      REQUIRE w.name IS UNIQUE
+    `);
+
     // Create constraint for unique whiteboard customId
     await session.run(`
       CREATE CONSTRAINT whiteboard_customid_unique IF NOT EXISTS
@@ -104,6 +132,34 @@ export const initializeSchema = async () => {
       REQUIRE v.customId IS UNIQUE
     `);
 
+    // Create constraint for unique change event customId
+    await session.run(`
+      CREATE CONSTRAINT change_event_customid_unique IF NOT EXISTS
+      FOR (c:ChangeEvent)
+      REQUIRE c.customId IS UNIQUE
+    `);
+
+    // Create index for the history of a single entity
+    await session.run(`
+      CREATE INDEX change_event_entity IF NOT EXISTS
+      FOR (c:ChangeEvent)
+      ON (c.entityType, c.entityId)
+    `);
+
+    // Create index for time range queries over the audit log
+    await session.run(`
+      CREATE INDEX change_event_timestamp IF NOT EXISTS
+      FOR (c:ChangeEvent)
+      ON (c.timestamp)
+    `);
+
+    // Create index for listing the trash and finding what was trashed together
+    await session.run(`
+      CREATE INDEX project_trashed_with IF NOT EXISTS
+      FOR (p:Project)
+      ON (p.trashedWith)
+    `);
+
     // Existing constraints
     // Create constraint for unique project names
     await session.run(`
@@ -133,6 +189,204 @@ export const initializeSchema = async () => {
       REQUIRE (v.whiteboardId, v.version) IS UNIQUE
     `);
 
+    // Blockchain constraints
+    // Create constraint for unique transaction signatures
+    await session.run(`
+      CREATE CONSTRAINT transaction_signature_unique IF NOT EXISTS
+      FOR (t:Transaction)
+      REQUIRE t.signature IS UNIQUE
+    `);
+
+    // Create constraint for unique addresses per chain
+    await session.run(`
+      CREATE CONSTRAINT address_chain_unique IF NOT EXISTS
+      FOR (a:Address)
+      REQUIRE (a.chain, a.address) IS UNIQUE
+    `);
+
+    // Create constraint for unique program addresses
+    await session.run(`
+      CREATE CONSTRAINT program_address_unique IF NOT EXISTS
+      FOR (p:Program)
+      REQUIRE p.address IS UNIQUE
+    `);
+
+    // Create constraint for unique instruction IDs (signature + position)
+    await session.run(`
+      CREATE CONSTRAINT instruction_id_unique IF NOT EXISTS
+      FOR (i:Instruction)
+      REQUIRE i.id IS UNIQUE
+    `);
+
+    // Create index for decoding a program's stored instructions again
+    await session.run(`
+      CREATE INDEX instruction_program IF NOT EXISTS
+      FOR (i:Instruction)
+      ON (i.programId)
+    `);
+
+    // Create constraint for unique Sui object IDs
+    await session.run(`
+      CREATE CONSTRAINT sui_object_id_unique IF NOT EXISTS
+      FOR (o:SuiObject)
+      REQUIRE o.objectId IS UNIQUE
+    `);
+
+    // Create constraint for unique object versions (objectId + version)
+    await session.run(`
+      CREATE CONSTRAINT object_version_id_unique IF NOT EXISTS
+      FOR (v:ObjectVersion)
+      REQUIRE v.id IS UNIQUE
+    `);
+
+    // Create constraint for unique object version customId
+    await session.run(`
+      CREATE CONSTRAINT object_version_customid_unique IF NOT EXISTS
+      FOR (v:ObjectVersion)
+      REQUIRE v.customId IS UNIQUE
+    `);
+
+    // Create constraint for unique Move package addresses
+    await session.run(`
+      CREATE CONSTRAINT move_package_address_unique IF NOT EXISTS
+      FOR (p:MovePackage)
+      REQUIRE p.address IS UNIQUE
+    `);
+
+    // Create constraint for unique Move call IDs (digest + command index)
+    await session.run(`
+      CREATE CONSTRAINT move_call_id_unique IF NOT EXISTS
+      FOR (c:MoveCall)
+      REQUIRE c.id IS UNIQUE
+    `);
+
+    // Create constraint for unique Move call customId
+    await session.run(`
+      CREATE CONSTRAINT move_call_customid_unique IF NOT EXISTS
+      FOR (c:MoveCall)
+      REQUIRE c.customId IS UNIQUE
+    `);
+
+    // Create constraint for unique event IDs (digest + event sequence)
+    await session.run(`
+      CREATE CONSTRAINT event_id_unique IF NOT EXISTS
+      FOR (e:Event)
+      REQUIRE e.id IS UNIQUE
+    `);
+
+    // Create index for filtering events by struct type and time
+    await session.run(`
+      CREATE INDEX event_struct_type IF NOT EXISTS
+      FOR (e:Event)
+      ON (e.structType, e.blockTime)
+    `);
+
+    // Create constraint for unique ingestion job customId
+    await session.run(`
+      CREATE CONSTRAINT ingestion_job_customid_unique IF NOT EXISTS
+      FOR (j:IngestionJob)
+      REQUIRE j.customId IS UNIQUE
+    `);
+
+    // Analytics constraints
+    // Create constraint for unique finding customId
+    await session.run(`
+      CREATE CONSTRAINT finding_customid_unique IF NOT EXISTS
+      FOR (f:Finding)
+      REQUIRE f.customId IS UNIQUE
+    `);
+
+    // Create constraint for unique finding fingerprints (one node per detected pattern)
+    await session.run(`
+      CREATE CONSTRAINT finding_fingerprint_unique IF NOT EXISTS
+      FOR (f:Finding)
+      REQUIRE f.fingerprint IS UNIQUE
+    `);
+
+    // Create constraint for unique entity customId
+    await session.run(`
+      CREATE CONSTRAINT entity_customid_unique IF NOT EXISTS
+      FOR (e:Entity)
+      REQUIRE e.customId IS UNIQUE
+    `);
+
+    // Create constraint for unique entity names (labels attach to entities by name)
+    await session.run(`
+      CREATE CONSTRAINT entity_name_unique IF NOT EXISTS
+      FOR (e:Entity)
+      REQUIRE e.name IS UNIQUE
+    `);
+
+    // Create constraint for unique alert rule customId
+    await session.run(`
+      CREATE CONSTRAINT alert_rule_customid_unique IF NOT EXISTS
+      FOR (r:AlertRule)
+      REQUIRE r.customId IS UNIQUE
+    `);
+
+    // Create constraint for unique alert customId
+    await session.run(`
+      CREATE CONSTRAINT alert_customid_unique IF NOT EXISTS
+      FOR (a:Alert)
+      REQUIRE a.customId IS UNIQUE
+    `);
+
+    // Create constraint for unique alert fingerprints (one alert per rule and match)
+    await session.run(`
+      CREATE CONSTRAINT alert_fingerprint_unique IF NOT EXISTS
+      FOR (a:Alert)
+      REQUIRE a.fingerprint IS UNIQUE
+    `);
+
+    // Create constraint for unique saved query customId
+    await session.run(`
+      CREATE CONSTRAINT saved_query_customid_unique IF NOT EXISTS
+      FOR (q:SavedQuery)
+      REQUIRE q.customId IS UNIQUE
+    `);
+
+    // Create constraint for unique saved query names within a project or the global scope
+    await session.run(`
+      CREATE CONSTRAINT saved_query_scoped_name_unique IF NOT EXISTS
+      FOR (q:SavedQuery)
+      REQUIRE q.scopedName IS UNIQUE
+    `);
+
+    // Create constraint for one risk scoring run per chain (the latest)
+    await session.run(`
+      CREATE CONSTRAINT risk_scoring_run_chain_unique IF NOT EXISTS
+      FOR (r:RiskScoringRun)
+      REQUIRE r.chain IS UNIQUE
+    `);
+
+    // Create constraint for unique metric buckets (one per chain, source and minute)
+    await session.run(`
+      CREATE CONSTRAINT metric_bucket_id_unique IF NOT EXISTS
+      FOR (m:MetricBucket)
+      REQUIRE m.id IS UNIQUE
+    `);
+
+    // Create index for metric range queries
+    await session.run(`
+      CREATE INDEX metric_bucket_range IF NOT EXISTS
+      FOR (m:MetricBucket)
+      ON (m.chain, m.source, m.start)
+    `);
+
+    // Create constraint for unique bridge events (bridge + transaction + position)
+    await session.run(`
+      CREATE CONSTRAINT bridge_event_id_unique IF NOT EXISTS
+      FOR (e:BridgeEvent)
+      REQUIRE e.id IS UNIQUE
+    `);
+
+    // Create index for finding the other side of a bridge transfer
+    await session.run(`
+      CREATE INDEX bridge_event_match IF NOT EXISTS
+      FOR (e:BridgeEvent)
+      ON (e.bridge, e.direction, e.blockTime)
+    `);
+
   } catch (error) {
     console.error('Failed to initialize Neo4j schema:', error);
     throw error;
@@ -13,6 +13,7 @@ import { handleOperationError } from '../utils/errorHandler.js';
 import { McpError, BaseErrorCode, DatabaseExportImportErrorCode } from '../types/errors.js';
 import {
   Neo4jExport,
+  ExportScope,
   ExportOptions,
   ImportOptions,
   ExportResult,
@@ -23,6 +24,37 @@ import {
 const BACKUP_DIR = path.join(process.cwd(), 'backups');
 const EXPORT_VERSION = '1.0';
 
+// Queries selecting the nodes and relationships of each export scope
+const SCOPE_QUERIES: Record<ExportScope, { nodes: string; relationships: string }> = {
+  all: {
+    nodes: 'MATCH (n) RETURN n, ID(n) as neoId',
+    relationships: `
+        MATCH (s)-[r]->(e)
+        RETURN r, ID(r) as relId, ID(s) as startId, ID(e) as endId
+      `
+  },
+  labels: {
+    nodes: `
+        MATCH (n)
+        WHERE n:Entity
+           OR (n:Address AND (n.label IS NOT NULL OR n.labelCategory IS NOT NULL OR (n)<-[:CONTROLS]-(:Entity)))
+        RETURN n, ID(n) as neoId
+      `,
+    relationships: `
+        MATCH (s:Entity)-[r:CONTROLS]->(e:Address)
+        RETURN r, ID(r) as relId, ID(s) as startId, ID(e) as endId
+      `
+  }
+};
+
+// Natural keys of nodes that are merged into existing ones, rather than
+// created, when importing without clearing the database. Entities merge on
+// their unique name and take the imported customId with the other properties.
+const MERGE_KEYS: Record<string, string[]> = {
+  Address: ['chain', 'address'],
+  Entity: ['name']
+};
+
 /**
  * Ensures the backup directory exists
  */
@@ -58,19 +90,20 @@ export const exportDatabase = async (
 ): Promise<ExportResult> => {
   const startTime = Date.now();
   const filePath = options.filePath || generateExportFilename();
+  const scope = options.scope || 'all';
   let nodeCount = 0;
   let relationshipCount = 0;
 
   try {
     await ensureBackupDirExists();
 
-    logger.info('Starting database export', { filePath });
+    logger.info('Starting database export', { filePath, scope });
     const session = getSession();
 
     try {
       // Step 1: Export all nodes
       logger.debug('Exporting nodes');
-      const nodeResult = await session.run('MATCH (n) RETURN n, ID(n) as neoId');
+      const nodeResult = await session.run(SCOPE_QUERIES[scope].nodes);
       const nodes = nodeResult.records.map(record => {
         const node = record.get('n');
         const neoId = record.get('neoId').toString(); // Internal Neo4j ID for reference
@@ -85,10 +118,7 @@ export const exportDatabase = async (
 
       // Step 2: Export all relationships
       logger.debug('Exporting relationships');
-      const relResult = await session.run(`
-        MATCH (s)-[r]->(e)
-        RETURN r, ID(r) as relId, ID(s) as startId, ID(e) as endId
-      `);
+      const relResult = await session.run(SCOPE_QUERIES[scope].relationships);
       
       const relationships = relResult.records.map(record => {
         const rel = record.get('r');
@@ -113,7 +143,8 @@ export const exportDatabase = async (
           version: EXPORT_VERSION,
           exportDate: new Date().toISOString(),
           nodeCount,
-          relationshipCount
+          relationshipCount,
+          scope
         },
         nodes,
         relationships
@@ -161,7 +192,7 @@ export const importDatabase = async (
   options: ImportOptions
 ): Promise<ImportResult> => {
   const startTime = Date.now();
-  const { filePath, clearDatabase = true } = options;
+  const { filePath } = options;
   
   if (!filePath) {
     throw new McpError(
@@ -180,8 +211,6 @@ export const importDatabase = async (
       );
     }
 
-    logger.info('Starting database import', { filePath, clearDatabase });
-
     // Read and parse the import file
     const fileContent = await fsPromises.readFile(filePath, 'utf-8');
     const importData = JSON.parse(fileContent) as Neo4jExport;
@@ -196,8 +225,14 @@ export const importDatabase = async (
     }
 
     const { nodes, relationships } = importData;
-    logger.info('Import file loaded', {
+    // A labels export is partial, so it is always merged into the existing graph
+    const clearDatabase = (options.clearDatabase ?? true) && importData.metadata.scope !== 'labels';
+
+    logger.info('Starting database import', {
+      filePath,
+      clearDatabase,
       version: importData.metadata.version,
+      scope: importData.metadata.scope || 'all',
       nodeCount: nodes.length,
       relationshipCount: relationships.length
     });
@@ -222,17 +257,32 @@ export const importDatabase = async (
       // Step 1: Create all nodes
       logger.debug('Importing nodes');
       const nodeIdMap = new Map<string, string>(); // Map external IDs to internal Neo4j IDs
+      const mergedNodeIds = new Set<string>(); // Export IDs of nodes merged into existing ones
       
       for (const node of nodes) {
         const labels = node.labels.join(':');
-        const properties = Object.entries(node.properties)
-          .map(([key, value]) => `${key}: $${key}`)
-          .join(', ');
-        
-        const result = await tx.run(
-          `CREATE (n:${labels} {${properties}}) RETURN ID(n) as newId`,
-          node.properties
-        );
+        const mergeLabel = clearDatabase
+          ? undefined
+          : node.labels.find(label => MERGE_KEYS[label]?.every(key => node.properties[key] != null));
+
+        let result;
+        if (mergeLabel) {
+          const keys = MERGE_KEYS[mergeLabel].map(key => `${key}: $properties.${key}`).join(', ');
+          result = await tx.run(
+            `MERGE (n:${mergeLabel} {${keys}}) SET n:${labels} SET n += $properties RETURN ID(n) as newId`,
+            { properties: node.properties }
+          );
+          mergedNodeIds.add(node.id);
+        } else {
+          const properties = Object.entries(node.properties)
+            .map(([key, value]) => `${key}: $${key}`)
+            .join(', ');
+
+          result = await tx.run(
+            `CREATE (n:${labels} {${properties}}) RETURN ID(n) as newId`,
+            node.properties
+          );
+        }
         
         // Store mapping from export ID to new Neo4j internal ID
         const newId = result.records[0].get('newId').toString();
@@ -262,6 +312,20 @@ export const importDatabase = async (
           .join(', ');
         
         const propertiesClause = properties ? `{${properties}}` : '';
+
+        // Between merged nodes the relationship may already exist, so merge it too
+        if (mergedNodeIds.has(rel.startNode) && mergedNodeIds.has(rel.endNode)) {
+          await tx.run(
+            `
+            MATCH (s), (e)
+            WHERE ID(s) = $startNodeId AND ID(e) = $endNodeId
+            MERGE (s)-[r:${rel.type}]->(e)
+            SET r += $properties
+            `,
+            { properties: rel.properties, startNodeId, endNodeId }
+          );
+          continue;
+        }
         
         await tx.run(
           `
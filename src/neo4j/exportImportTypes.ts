@@ -18,6 +18,9 @@ export interface ExportedRelationship {
   properties: Record<string, any>;
 }
 
+// 'all' exports the whole graph; 'labels' only address labels, entities and CONTROLS edges
+export type ExportScope = 'all' | 'labels';
+
 // Complete database export format
 export interface Neo4jExport {
   metadata: {
@@ -25,6 +28,7 @@ export interface Neo4jExport {
     exportDate: string;
     nodeCount: number;
     relationshipCount: number;
+    scope?: ExportScope; // Absent in exports made before scopes existed (treated as 'all')
   };
   nodes: ExportedNode[];
   relationships: ExportedRelationship[];
@@ -33,12 +37,13 @@ export interface Neo4jExport {
 // Export options
 export interface ExportOptions {
   filePath?: string; // Custom file path, otherwise will use default timestamped path
+  scope?: ExportScope; // What to export (default: 'all')
 }
 
 // Import options
 export interface ImportOptions {
   filePath: string; // Path to the import file
-  clearDatabase?: boolean; // Whether to clear the database before import (default: true)
+  clearDatabase?: boolean; // Whether to clear the database before import (default: true; never for 'labels' exports)
 }
 
 // Export result
@@ -0,0 +1,305 @@
+import { scheduleJob, Job } from 'node-schedule';
+import {
+  Chain,
+  CreateIngestionJobInput,
+  IngestionBatchResult,
+  IngestionJob,
+  IngestionJobState,
+  IngestionJobStatus,
+  createIngestionJob,
+  getIngestionJob,
+  listIngestionJobs,
+  runIngestionBatch,
+  updateIngestionJob
+} from "./blockchainService.js";
+import { McpError, BaseErrorCode, ChainErrorCode } from "../types/errors.js";
+import { logger } from "../utils/logger.js";
+
+// Ingestion job service configuration interface
+interface IngestionJobServiceConfig {
+  maxConcurrentJobs?: number; // Jobs allowed to fetch at the same time (default: 2)
+  retryBaseMs?: number;       // First retry delay, doubled per failed attempt (default: 5s)
+  retryMaxMs?: number;        // Cap on the retry delay (default: 5 minutes)
+}
+
+/**
+ * Service for running ingestion jobs in the background.
+ * Job state and cursors live in Neo4j, so active jobs resume after a restart.
+ * Backfills run batch after batch until they complete; follow jobs catch up
+ * on their cron schedule. Failed batches are retried with exponential backoff.
+ */
+export class IngestionJobService {
+  private maxConcurrentJobs: number;
+  private retryBaseMs: number;
+  private retryMaxMs: number;
+  private schedules = new Map<string, Job>();
+  private retries = new Map<string, Job>();
+  private running = new Set<string>();
+  private queue: string[] = [];
+  private stopRequested = new Set<string>();
+  private started = false;
+
+  constructor(config: IngestionJobServiceConfig = {}) {
+    this.maxConcurrentJobs = config.maxConcurrentJobs || 2;
+    this.retryBaseMs = config.retryBaseMs || 5000;
+    this.retryMaxMs = config.retryMaxMs || 5 * 60 * 1000;
+  }
+
+  /**
+   * Starts the service and resumes every active job.
+   */
+  public async start(): Promise<void> {
+    this.started = true;
+    const jobs = await listIngestionJobs({ status: 'active' });
+
+    logger.info('Starting ingestion job service', {
+      maxConcurrentJobs: this.maxConcurrentJobs,
+      activeJobs: jobs.length
+    });
+
+    jobs.forEach(job => this.activate(job));
+  }
+
+  /**
+   * Stops scheduling work. Running batches finish, and jobs stay active so
+   * they resume on the next start.
+   */
+  public stop(): void {
+    this.started = false;
+    this.schedules.forEach(job => job.cancel());
+    this.retries.forEach(job => job.cancel());
+    this.schedules.clear();
+    this.retries.clear();
+    this.queue = [];
+    logger.info('Ingestion job service stopped');
+  }
+
+  /**
+   * Creates a job and starts it.
+   * @throws {McpError} If a follow job's schedule is not a valid cron expression
+   */
+  public async startJob(input: CreateIngestionJobInput): Promise<IngestionJobState> {
+    if (input.mode === 'follow' && input.schedule) {
+      const probe = scheduleJob(input.schedule, () => undefined);
+      if (!probe) {
+        throw new McpError(
+          BaseErrorCode.VALIDATION_ERROR,
+          `Invalid cron schedule: ${input.schedule}`,
+          { schedule: input.schedule }
+        );
+      }
+      probe.cancel();
+    }
+
+    const job = await createIngestionJob(input);
+    logger.info('Ingestion job created', { jobId: job.id, chain: job.chain, mode: job.mode });
+    this.activate(job);
+    return this.toState(job);
+  }
+
+  /**
+   * Restarts a stopped or failed job from its stored cursor.
+   * @throws {McpError} If the job does not exist or has completed
+   */
+  public async resumeJob(id: string): Promise<IngestionJobState> {
+    const existing = await this.requireJob(id);
+    if (existing.status === 'completed') {
+      throw new McpError(
+        ChainErrorCode.INVALID_JOB_STATE,
+        `Ingestion job ${id} has already completed`,
+        { id }
+      );
+    }
+
+    this.stopRequested.delete(id);
+    const job = existing.status === 'active'
+      ? existing
+      : await updateIngestionJob(id, { status: 'active', attempts: 0, lastError: null });
+    this.activate(job);
+    return this.toState(job);
+  }
+
+  /**
+   * Stops a job. A batch in progress finishes and its cursor is saved.
+   * @throws {McpError} If the job does not exist
+   */
+  public async stopJob(id: string): Promise<IngestionJobState> {
+    const existing = await this.requireJob(id);
+    this.deactivate(id);
+
+    const job = existing.status === 'active'
+      ? await updateIngestionJob(id, { status: 'stopped' })
+      : existing;
+    if (this.running.has(id)) this.stopRequested.add(id);
+
+    logger.info('Ingestion job stopped', { jobId: id });
+    return this.toState(job);
+  }
+
+  /**
+   * Gets a job with its runtime state.
+   * @throws {McpError} If the job does not exist
+   */
+  public async getJobState(id: string): Promise<IngestionJobState> {
+    return this.toState(await this.requireJob(id));
+  }
+
+  /**
+   * Lists jobs with their runtime state.
+   */
+  public async listJobStates(filters: { status?: IngestionJobStatus; chain?: Chain } = {}): Promise<IngestionJobState[]> {
+    const jobs = await listIngestionJobs(filters);
+    return jobs.map(job => this.toState(job));
+  }
+
+  private async requireJob(id: string): Promise<IngestionJob> {
+    const job = await getIngestionJob(id);
+    if (!job) {
+      throw new McpError(
+        ChainErrorCode.JOB_NOT_FOUND,
+        `Ingestion job with ID ${id} not found`,
+        { id }
+      );
+    }
+    return job;
+  }
+
+  private toState(job: IngestionJob): IngestionJobState {
+    const next = this.retries.get(job.id)?.nextInvocation() ?? this.schedules.get(job.id)?.nextInvocation();
+    return {
+      ...job,
+      running: this.running.has(job.id),
+      queued: this.queue.includes(job.id),
+      nextRunAt: next ? new Date(next.getTime()).toISOString() : null
+    };
+  }
+
+  /**
+   * Queues a job to run now and, for follow jobs, on its cron schedule.
+   */
+  private activate(job: IngestionJob): void {
+    if (!this.started) return;
+
+    if (job.mode === 'follow' && job.schedule && !this.schedules.has(job.id)) {
+      const scheduled = scheduleJob(`ingest-${job.id}`, job.schedule, () => this.enqueue(job.id));
+      if (scheduled) this.schedules.set(job.id, scheduled);
+      else logger.error('Invalid cron schedule for ingestion job', { jobId: job.id, schedule: job.schedule });
+    }
+
+    this.enqueue(job.id);
+  }
+
+  private deactivate(id: string): void {
+    this.schedules.get(id)?.cancel();
+    this.retries.get(id)?.cancel();
+    this.schedules.delete(id);
+    this.retries.delete(id);
+    this.queue = this.queue.filter(queued => queued !== id);
+  }
+
+  private enqueue(id: string): void {
+    if (!this.started || this.running.has(id) || this.queue.includes(id)) return;
+    this.queue.push(id);
+    this.drain();
+  }
+
+  // Starts queued jobs while there is capacity
+  private drain(): void {
+    while (this.running.size < this.maxConcurrentJobs && this.queue.length) {
+      const id = this.queue.shift() as string;
+      this.running.add(id);
+      this.run(id)
+        .catch(error => logger.error('Ingestion job run failed', { jobId: id, error }))
+        .finally(() => {
+          this.running.delete(id);
+          this.stopRequested.delete(id);
+          this.drain();
+        });
+    }
+  }
+
+  /**
+   * Runs batches until the job completes, catches up, fails, or is stopped.
+   */
+  private async run(id: string): Promise<void> {
+    let job = await getIngestionJob(id);
+
+    while (job && job.status === 'active' && this.started && !this.stopRequested.has(id)) {
+      let batch: IngestionBatchResult;
+      try {
+        batch = await runIngestionBatch(job);
+      } catch (error) {
+        await this.handleFailure(job, error);
+        return;
+      }
+
+      const now = new Date().toISOString();
+      const finished = batch.done && job.mode === 'backfill';
+      job = await updateIngestionJob(
+        id,
+        {
+          cursor: batch.cursor,
+          attempts: 0,
+          lastRunAt: now,
+          ...(batch.lastError ? { lastError: batch.lastError } : {}),
+          ...(finished ? { status: 'completed' as const, completedAt: now } : {})
+        },
+        { processed: batch.ingested, failed: batch.failed }
+      );
+
+      logger.debug('Ingestion batch completed', {
+        jobId: id,
+        ingested: batch.ingested,
+        failed: batch.failed,
+        cursor: batch.cursor
+      });
+
+      if (finished) {
+        logger.info('Ingestion job completed', { jobId: id, processed: job.processed });
+        return;
+      }
+      // Follow jobs wait for their next scheduled run once caught up
+      if (batch.done) return;
+    }
+  }
+
+  /**
+   * Schedules a retry with exponential backoff, or fails the job once its
+   * retries are used up.
+   */
+  private async handleFailure(job: IngestionJob, error: unknown): Promise<void> {
+    const attempts = job.attempts + 1;
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    if (attempts > job.maxRetries) {
+      this.deactivate(job.id);
+      await updateIngestionJob(job.id, { status: 'failed', attempts, lastError: message });
+      logger.error('Ingestion job failed', { jobId: job.id, attempts, error: message });
+      return;
+    }
+
+    const delay = Math.min(this.retryBaseMs * 2 ** (attempts - 1), this.retryMaxMs);
+    await updateIngestionJob(job.id, { attempts, lastError: message });
+    logger.warn('Ingestion batch failed, retrying', { jobId: job.id, attempts, delayMs: delay, error: message });
+
+    this.retries.get(job.id)?.cancel();
+    const retry = scheduleJob(`ingest-retry-${job.id}`, new Date(Date.now() + delay), () => {
+      this.retries.delete(job.id);
+      this.enqueue(job.id);
+    });
+    if (retry) this.retries.set(job.id, retry);
+  }
+}
+
+// Singleton instance of the ingestion job service
+let ingestionJobServiceInstance: IngestionJobService | null = null;
+
+/**
+ * Gets the ingestion job service instance, creating it if it doesn't exist.
+ */
+export const getIngestionJobService = (config?: IngestionJobServiceConfig): IngestionJobService => {
+  if (!ingestionJobServiceInstance) {
+    ingestionJobServiceInstance = new IngestionJobService(config);
+  }
+  return ingestionJobServiceInstance;
+};
@@ -6,8 +6,34 @@ export type {
   ProjectDependency,
   DependencyDetails,
   ProjectMember,
+  ProjectTask,
+  TaskStatus,
+  TaskPriority,
+  TaskInput,
+  TaskUpdates,
+  ListTasksOptions,
+  PaginatedTasks,
   ListProjectsOptions,
-  PaginatedProjects
+  PaginatedProjects,
+  ChildProjectAction,
+  DeleteProjectOptions,
+  ProjectRollup,
+  ProjectTreeNode,
+  TrashedProject,
+  ListTrashOptions,
+  PaginatedTrash,
+  RestoreConflict,
+  RestoreProjectResult,
+  WorkflowGuardRule,
+  WorkflowGuard,
+  WorkflowInput,
+  Workflow,
+  WorkflowAssignment,
+  WatchKind,
+  ProjectWatch,
+  WatchedAddressActivity,
+  WatchedProgramActivity,
+  ProjectOnchainSummary
 } from "./projectService/types.js";
 
 // Re-export core project operations
@@ -22,6 +48,26 @@ export {
   listProjects
 } from "./projectService/projectCore.js";
 
+// Re-export hierarchy operations
+export {
+  setProjectParents,
+  getProjectTree
+} from "./projectService/projectHierarchy.js";
+
+// Re-export trash operations
+export {
+  listTrash,
+  restoreProjects,
+  purgeExpiredTrash
+} from "./projectService/projectTrash.js";
+
+// Re-export workflow operations
+export {
+  defineWorkflow,
+  listWorkflows,
+  assignWorkflow
+} from "./projectService/projectWorkflows.js";
+
 // Re-export content management operations
 export {
   addProjectNote,
@@ -51,6 +97,27 @@ export {
   listProjectMembers
 } from "./projectService/projectRelations.js";
 
+// Re-export task management operations
+export {
+  createTask,
+  createTasksBulk,
+  getTaskById,
+  updateTask,
+  updateTasksBulk,
+  deleteTask,
+  deleteTasksBulk,
+  listTasks,
+  listProjectTasks
+} from "./projectService/projectTasks.js";
+
+// Re-export chain watch operations
+export {
+  watchTarget,
+  unwatchTarget,
+  listProjectWatches,
+  getProjectOnchainSummary
+} from "./projectService/projectWatches.js";
+
 // Note: This file now serves as the main entry point for the project service,
 // re-exporting functionality from modular files while maintaining the same public API.
 // This approach allows for better code organization and maintainability while
@@ -1,48 +1,88 @@
+import { ManagedTransaction } from "neo4j-driver";
 import { getSession } from "../driver.js";
 import { logger } from "../../utils/logger.js";
 import { McpError, ProjectErrorCode, LinkErrorCode } from "../../types/errors.js";
 import { ProjectNote, ProjectLink } from "./types.js";
 import { handleNeo4jError, validateImmutableProps, validateEntityId } from "./utils.js";
 import { generateCustomId } from "../../utils/idGenerator.js";
+import { ChangeRecord, recordChange, recordChanges } from "../auditService.js";
+
+const noteRecord = (note: ProjectNote): ChangeRecord => ({
+  entityType: 'note',
+  entityId: note.id,
+  projectIds: [note.projectId],
+  action: 'create',
+  after: note
+});
+
+const linkRecord = (action: ChangeRecord['action'], before: ProjectLink | null, after: ProjectLink | null): ChangeRecord => {
+  const link = (after ?? before)!;
+  return { entityType: 'link', entityId: link.id, projectIds: [link.projectId], action, before, after };
+};
+
+// Current state of several links, for the audit log; missing ones are left out
+const getLinksByIds = async (tx: ManagedTransaction, linkIds: string[]): Promise<ProjectLink[]> => {
+  const result = await tx.run(
+    `UNWIND $linkIds AS linkId
+    MATCH (l:Link)-[:BELONGS_TO]->(p:Project)
+    WHERE l.customId = linkId
+    RETURN l {
+      .title,
+      .url,
+      .description,
+      .category,
+      .createdAt,
+      .updatedAt,
+      id: l.customId,
+      projectId: p.customId
+    } AS link`,
+    { linkIds }
+  );
+  return result.records.map(record => record.get("link"));
+};
 
 // Notes Management
 export const addProjectNote = async (projectId: string, note: Omit<ProjectNote, "id" | "projectId">): Promise<ProjectNote | never> => {
   const session = getSession();
   try {
-    const result = await session.run(
-      `MATCH (p:Project)
-      WHERE p.customId = $projectId
-      CREATE (n:Note {
-        text: $text,
-        tags: $tags,
-        timestamp: $timestamp,
-        customId: $noteId
-      })-[:BELONGS_TO]->(p)
-      RETURN n {
-        .text,
-        .tags,
-        .timestamp,
-        id: n.customId,
-        projectId: p.customId,
-        customId: n.customId
-      } AS note`,
-      {
-        projectId: projectId,
-        noteId: generateCustomId('NOTE'),
-        text: note.text,
-        tags: note.tags || [],
-        timestamp: note.timestamp || new Date().toISOString()
-      }
-    );
-
-    if (!result.records.length) {
-      throw new McpError(
-        ProjectErrorCode.PROJECT_NOT_FOUND,
-        `Project with ID ${projectId} not found`
+    return await session.executeWrite(async tx => {
+      const result = await tx.run(
+        `MATCH (p:Project)
+        WHERE p.customId = $projectId AND p.trashedAt IS NULL
+        CREATE (n:Note {
+          text: $text,
+          tags: $tags,
+          timestamp: $timestamp,
+          customId: $noteId
+        })-[:BELONGS_TO]->(p)
+        RETURN n {
+          .text,
+          .tags,
+          .timestamp,
+          id: n.customId,
+          projectId: p.customId,
+          customId: n.customId
+        } AS note`,
+        {
+          projectId: projectId,
+          noteId: generateCustomId('NOTE'),
+          text: note.text,
+          tags: note.tags || [],
+          timestamp: note.timestamp || new Date().toISOString()
+        }
       );
-    }
 
-    return result.records[0].get("note");
+      if (!result.records.length) {
+        throw new McpError(
+          ProjectErrorCode.PROJECT_NOT_FOUND,
+          `Project with ID ${projectId} not found`
+        );
+      }
+
+      const created: ProjectNote = result.records[0].get("note");
+      await recordChange(tx, noteRecord(created));
+      return created;
+    });
   } catch (error) {
     throw handleNeo4jError(error, { projectId, note });
   } finally {
@@ -56,41 +96,45 @@ export const addProjectNotesBulk = async (
 ): Promise<ProjectNote[] | never> => {
   const session = getSession();
   try {
-    const result = await session.run(
-      `MATCH (p:Project)
-      WHERE p.customId = $projectId
-      UNWIND $notes as noteData
-      CREATE (n:Note {
-        text: noteData.text,
-        tags: COALESCE(noteData.tags, []),
-        timestamp: COALESCE(noteData.timestamp, $defaultTimestamp),
-        customId: noteData.customId
-      })-[:BELONGS_TO]->(p)
-      RETURN n {
-        .text,
-        .tags,
-        .timestamp,
-        id: n.customId,
-        projectId: p.customId
-      } AS note`,
-      {
-        projectId,
-        notes: notes.map(n => ({
-          ...n,
-          customId: generateCustomId('NOTE')
-        })),
-        defaultTimestamp: new Date().toISOString()
-      }
-    );
-
-    if (!result.records.length) {
-      throw new McpError(
-        ProjectErrorCode.PROJECT_NOT_FOUND,
-        `Project with ID ${projectId} not found`
+    return await session.executeWrite(async tx => {
+      const result = await tx.run(
+        `MATCH (p:Project)
+        WHERE p.customId = $projectId AND p.trashedAt IS NULL
+        UNWIND $notes as noteData
+        CREATE (n:Note {
+          text: noteData.text,
+          tags: COALESCE(noteData.tags, []),
+          timestamp: COALESCE(noteData.timestamp, $defaultTimestamp),
+          customId: noteData.customId
+        })-[:BELONGS_TO]->(p)
+        RETURN n {
+          .text,
+          .tags,
+          .timestamp,
+          id: n.customId,
+          projectId: p.customId
+        } AS note`,
+        {
+          projectId,
+          notes: notes.map(n => ({
+            ...n,
+            customId: generateCustomId('NOTE')
+          })),
+          defaultTimestamp: new Date().toISOString()
+        }
       );
-    }
 
-    return result.records.map(record => record.get("note"));
+      if (!result.records.length) {
+        throw new McpError(
+          ProjectErrorCode.PROJECT_NOT_FOUND,
+          `Project with ID ${projectId} not found`
+        );
+      }
+
+      const created: ProjectNote[] = result.records.map(record => record.get("note"));
+      await recordChanges(tx, created.map(noteRecord));
+      return created;
+    });
   } catch (error) {
     throw handleNeo4jError(error, { projectId, notes });
   } finally {
@@ -128,73 +172,77 @@ export const addProjectLink = async (
 ): Promise<ProjectLink | never> => {
   const session = getSession();
   try {
-    const now = new Date().toISOString();
-    const result = await session.run(
-      `// First check for duplicate URL
-      MATCH (p:Project)
-      WHERE p.customId = $projectId
-      OPTIONAL MATCH (existingLink:Link)-[:BELONGS_TO]->(p)
-      WHERE existingLink.url = $url
-      WITH p, existingLink
-      WHERE existingLink IS NULL
+    return await session.executeWrite(async tx => {
+      const now = new Date().toISOString();
+      const result = await tx.run(
+        `// First check for duplicate URL
+        MATCH (p:Project)
+        WHERE p.customId = $projectId AND p.trashedAt IS NULL
+        OPTIONAL MATCH (existingLink:Link)-[:BELONGS_TO]->(p)
+        WHERE existingLink.url = $url
+        WITH p, existingLink
+        WHERE existingLink IS NULL
       
-      // Create new link if no duplicate found
-      CREATE (l:Link {
-        title: $title,
-        url: $url,
-        description: $description,
-        category: $category,
-        createdAt: $createdAt,
-        updatedAt: $updatedAt,
-        customId: $linkId
-      })-[:BELONGS_TO]->(p)
+        // Create new link if no duplicate found
+        CREATE (l:Link {
+          title: $title,
+          url: $url,
+          description: $description,
+          category: $category,
+          createdAt: $createdAt,
+          updatedAt: $updatedAt,
+          customId: $linkId
+        })-[:BELONGS_TO]->(p)
       
-      // Return either the new link or null if duplicate found
-      RETURN l {
-        .title,
-        .url,
-        .description,
-        .category,
-        .createdAt,
-        .updatedAt,
-        id: l.customId,
-        projectId: p.customId
-      } AS link`,
-      {
-        projectId,
-        linkId: generateCustomId('LINK'),
-        title: link.title,
-        url: link.url,
-        description: link.description || "",
-        category: link.category || "general",
-        createdAt: now,
-        updatedAt: now
-      }
-    );
-
-    if (!result.records.length) {
-      // Check if it's due to duplicate URL
-      const duplicateCheck = await session.run(
-        `MATCH (l:Link)-[:BELONGS_TO]->(p:Project)
-        WHERE p.customId = $projectId AND l.url = $url
-        RETURN l.url`,
-        { projectId, url: link.url }
+        // Return either the new link or null if duplicate found
+        RETURN l {
+          .title,
+          .url,
+          .description,
+          .category,
+          .createdAt,
+          .updatedAt,
+          id: l.customId,
+          projectId: p.customId
+        } AS link`,
+        {
+          projectId,
+          linkId: generateCustomId('LINK'),
+          title: link.title,
+          url: link.url,
+          description: link.description || "",
+          category: link.category || "general",
+          createdAt: now,
+          updatedAt: now
+        }
       );
+
+      if (!result.records.length) {
+        // Check if it's due to duplicate URL
+        const duplicateCheck = await tx.run(
+          `MATCH (l:Link)-[:BELONGS_TO]->(p:Project)
+          WHERE p.customId = $projectId AND l.url = $url
+          RETURN l.url`,
+          { projectId, url: link.url }
+        );
       
-      if (duplicateCheck.records.length > 0) {
+        if (duplicateCheck.records.length > 0) {
+          throw new McpError(
+            LinkErrorCode.DUPLICATE_URL,
+            `URL already exists in project: ${link.url}`
+          );
+        }
+
         throw new McpError(
-          LinkErrorCode.DUPLICATE_URL,
-          `URL already exists in project: ${link.url}`
+          ProjectErrorCode.PROJECT_NOT_FOUND,
+          `Project with ID ${projectId} not found`
         );
       }
 
-      throw new McpError(
-        ProjectErrorCode.PROJECT_NOT_FOUND,
-        `Project with ID ${projectId} not found`
-      );
-    }
-
-    return result.records[0].get("link");
+      const created: ProjectLink = result.records[0].get("link");
+      await recordChange(tx, linkRecord('create', null, created));
+      return created;
+    });
   } catch (error) {
     throw handleNeo4jError(error, { projectId, link });
   } finally {
@@ -208,69 +256,73 @@ export const addProjectLinksBulk = async (
 ): Promise<ProjectLink[] | never> => {
   const session = getSession();
   try {
-    const now = new Date().toISOString();
-    
-    // First check for duplicate URLs
-    const duplicateCheck = await session.run(
-      `MATCH (p:Project)
-      WHERE p.customId = $projectId
-      MATCH (l:Link)-[:BELONGS_TO]->(p)
-      WHERE l.url IN $urls
-      RETURN COLLECT(l.url) as duplicateUrls`,
-      { 
-        projectId,
-        urls: links.map(l => l.url)
-      }
-    );
+    return await session.executeWrite(async tx => {
+      const now = new Date().toISOString();
     
-    const duplicateUrls = duplicateCheck.records[0].get("duplicateUrls");
-    if (duplicateUrls.length > 0) {
-      throw new McpError(
-        LinkErrorCode.DUPLICATE_URL,
-        `The following URLs already exist in the project: ${duplicateUrls.join(", ")}`
+      // First check for duplicate URLs
+      const duplicateCheck = await tx.run(
+        `MATCH (p:Project)
+        WHERE p.customId = $projectId
+        MATCH (l:Link)-[:BELONGS_TO]->(p)
+        WHERE l.url IN $urls
+        RETURN COLLECT(l.url) as duplicateUrls`,
+        { 
+          projectId,
+          urls: links.map(l => l.url)
+        }
       );
-    }
-
-    const result = await session.run(
-      `MATCH (p:Project)
-      WHERE p.customId = $projectId
-      UNWIND $links as linkData
-      
-      // Create new links (we already checked for duplicates)
-      CREATE (l:Link {
-        title: linkData.title,
-        url: linkData.url,
-        description: COALESCE(linkData.description, ""),
-        category: COALESCE(linkData.category, "general"),
-        createdAt: $now,
-        updatedAt: $now,
-        customId: linkData.customId
-      })-[:BELONGS_TO]->(p)
-      RETURN l {
-        .title,
-        .url,
-        .description,
-        .category,
-        .createdAt,
-        .updatedAt,
-        id: l.customId,
-        projectId: p.customId
-      } AS link`,
-      { 
-        projectId,
-        links: links.map(l => ({ ...l, customId: generateCustomId('LINK') })),
-        now 
+    
+      const duplicateUrls = duplicateCheck.records[0].get("duplicateUrls");
+      if (duplicateUrls.length > 0) {
+        throw new McpError(
+          LinkErrorCode.DUPLICATE_URL,
+          `The following URLs already exist in the project: ${duplicateUrls.join(", ")}`
+        );
       }
-    );
 
-    if (!result.records.length) {
-      throw new McpError(
-        ProjectErrorCode.PROJECT_NOT_FOUND,
-        `Project with ID ${projectId} not found`
+      const result = await tx.run(
+        `MATCH (p:Project)
+        WHERE p.customId = $projectId AND p.trashedAt IS NULL
+        UNWIND $links as linkData
+      
+        // Create new links (we already checked for duplicates)
+        CREATE (l:Link {
+          title: linkData.title,
+          url: linkData.url,
+          description: COALESCE(linkData.description, ""),
+          category: COALESCE(linkData.category, "general"),
+          createdAt: $now,
+          updatedAt: $now,
+          customId: linkData.customId
+        })-[:BELONGS_TO]->(p)
+        RETURN l {
+          .title,
+          .url,
+          .description,
+          .category,
+          .createdAt,
+          .updatedAt,
+          id: l.customId,
+          projectId: p.customId
+        } AS link`,
+        { 
+          projectId,
+          links: links.map(l => ({ ...l, customId: generateCustomId('LINK') })),
+          now 
+        }
       );
-    }
 
-    return result.records.map(record => record.get("link"));
+      if (!result.records.length) {
+        throw new McpError(
+          ProjectErrorCode.PROJECT_NOT_FOUND,
+          `Project with ID ${projectId} not found`
+        );
+      }
+
+      const created: ProjectLink[] = result.records.map(record => record.get("link"));
+      await recordChanges(tx, created.map(link => linkRecord('create', null, link)));
+      return created;
+    });
   } catch (error) {
     throw handleNeo4jError(error, { projectId, links });
   } finally {
@@ -284,27 +336,34 @@ export const updateProjectLink = async (
 ): Promise<ProjectLink | null | never> => {
   const session = getSession();
   try {
-    validateImmutableProps(updates, ["id", "projectId", "createdAt", "updatedAt"]);
+    return await session.executeWrite(async tx => {
+      validateImmutableProps(updates, ["id", "projectId", "createdAt", "updatedAt"]);
     
-    const now = new Date().toISOString();
-    const result = await session.run(
-      `MATCH (l:Link)-[:BELONGS_TO]->(p:Project)
-      WHERE l.customId = $linkId
-      SET l += $updates,
-          l.updatedAt = $now
-      RETURN l {
-        .title,
-        .url,
-        .description,
-        .category,
-        .createdAt,
-        .updatedAt,
-        id: l.customId,
-        projectId: p.customId
-      } AS link`,
-      { linkId, updates, now }
-    );
-    return result.records.length ? result.records[0].get("link") : null;
+      const [before] = await getLinksByIds(tx, [linkId]);
+      const now = new Date().toISOString();
+      const result = await tx.run(
+        `MATCH (l:Link)-[:BELONGS_TO]->(p:Project)
+        WHERE l.customId = $linkId AND l.trashedAt IS NULL
+        SET l += $updates,
+            l.updatedAt = $now
+        RETURN l {
+          .title,
+          .url,
+          .description,
+          .category,
+          .createdAt,
+          .updatedAt,
+          id: l.customId,
+          projectId: p.customId
+        } AS link`,
+        { linkId, updates, now }
+      );
+      if (!result.records.length) return null;
+
+      const updated: ProjectLink = result.records[0].get("link");
+      await recordChange(tx, linkRecord('update', before ?? null, updated));
+      return updated;
+    });
   } catch (error) {
     throw handleNeo4jError(error, { linkId, updates });
   } finally {
@@ -320,50 +379,54 @@ export const updateProjectLinksBulk = async (
 ): Promise<{ updated: ProjectLink[]; notFound: string[] } | never> => {
   const session = getSession();
   try {
-    const now = new Date().toISOString();
-    const result = await session.run(
-      `UNWIND $updates as updateData
-      OPTIONAL MATCH (l:Link)-[:BELONGS_TO]->(p:Project)
-      WHERE l.customId = updateData.linkId
-      WITH l, p, updateData
-      WHERE l IS NOT NULL
-      SET l += updateData.updates,
-          l.updatedAt = $now
-      RETURN l {
-        .title,
-        .url,
-        .description,
-        .category,
-        .createdAt,
-        .updatedAt,
-        id: l.customId,
-        projectId: p.customId
-      } AS link,
-      updateData.linkId as requestedId`,
-      {
-        updates: updates.map(u => ({
-          linkId: u.linkId,
-          updates: u.updates
-        })),
-        now
-      }
-    );
+    return await session.executeWrite(async tx => {
+      const before = new Map((await getLinksByIds(tx, updates.map(u => u.linkId))).map(l => [l.id, l]));
+      const now = new Date().toISOString();
+      const result = await tx.run(
+        `UNWIND $updates as updateData
+        OPTIONAL MATCH (l:Link)-[:BELONGS_TO]->(p:Project)
+        WHERE l.customId = updateData.linkId AND l.trashedAt IS NULL
+        WITH l, p, updateData
+        WHERE l IS NOT NULL
+        SET l += updateData.updates,
+            l.updatedAt = $now
+        RETURN l {
+          .title,
+          .url,
+          .description,
+          .category,
+          .createdAt,
+          .updatedAt,
+          id: l.customId,
+          projectId: p.customId
+        } AS link,
+        updateData.linkId as requestedId`,
+        {
+          updates: updates.map(u => ({
+            linkId: u.linkId,
+            updates: u.updates
+          })),
+          now
+        }
+      );
     
-    const updated = [];
-    const notFound = new Set(updates.map(u => u.linkId));
+      const updated: ProjectLink[] = [];
+      const notFound = new Set(updates.map(u => u.linkId));
 
-    for (const record of result.records) {
-      const link = record.get("link");
-      if (link) {
-        updated.push(link);
-        notFound.delete(record.get("requestedId"));
+      for (const record of result.records) {
+        const link = record.get("link");
+        if (link) {
+          updated.push(link);
+          notFound.delete(record.get("requestedId"));
+        }
       }
-    }
 
-    return {
-      updated,
-      notFound: Array.from(notFound)
-    };
+      await recordChanges(tx, updated.map(link => linkRecord('update', before.get(link.id) ?? null, link)));
+      return {
+        updated,
+        notFound: Array.from(notFound)
+      };
+    });
   } catch (error) {
     throw handleNeo4jError(error, { updates });
   } finally {
@@ -374,32 +437,37 @@ export const updateProjectLinksBulk = async (
 export const deleteProjectLink = async (linkId: string): Promise<boolean | never> => {
   const session = getSession();
   try {
-    // First check if link exists
-    const result = await session.run(
-      `MATCH (l:Link)-[r:BELONGS_TO]->(p:Project)
-      WHERE l.customId = $linkId
-      RETURN l, p`,
-      { linkId }
-    );
+    return await session.executeWrite(async tx => {
+      // First check if link exists
+      const result = await tx.run(
+        `MATCH (l:Link)-[r:BELONGS_TO]->(p:Project)
+        WHERE l.customId = $linkId AND l.trashedAt IS NULL
+        RETURN l, p`,
+        { linkId }
+      );
+    
+      if (!result.records.length) {
+        logger.warn("Attempt to delete non-existent link", { linkId });
+        return false;
+      }
     
-    if (!result.records.length) {
-      logger.warn("Attempt to delete non-existent link", { linkId });
-      return false;
-    }
+      logger.info("Deleting project link", {
+        linkId,
+        projectId: result.records[0].get("p").properties.customId
+      });
     
-    logger.info("Deleting project link", {
-      linkId,
-      projectId: result.records[0].get("p").properties.customId
+      const [before] = await getLinksByIds(tx, [linkId]);
+
+      // Now perform the deletion
+      await tx.run(
+        `MATCH (l:Link)-[r:BELONGS_TO]->(p:Project)
+        WHERE l.customId = $linkId
+        DETACH DELETE l`,
+        { linkId }
+      );
+      await recordChange(tx, linkRecord('delete', before, null));
+      return true;
     });
-    
-    // Now perform the deletion
-    await session.run(
-      `MATCH (l:Link)-[r:BELONGS_TO]->(p:Project)
-      WHERE l.customId = $linkId
-      DETACH DELETE l`,
-      { linkId }
-    );
-    return true;
   } catch (error) {
     throw handleNeo4jError(error, { linkId });
   } finally {
@@ -412,57 +480,62 @@ export const deleteProjectLinksBulk = async (
 ): Promise<{ success: boolean; deletedCount: number; notFoundIds: string[] } | never> => {
   const session = getSession();
   try {
-    // First check which links exist
-    const result = await session.run(
-      `UNWIND $linkIds as linkId
-      OPTIONAL MATCH (l:Link)
-      WHERE l.customId = linkId
-      WITH linkId, l,
-           CASE WHEN l IS NOT NULL THEN true ELSE false END as exists
-      RETURN collect({
-        id: linkId,
-        exists: exists
-      }) as linkStatuses`,
-      { linkIds }
-    );
+    return await session.executeWrite(async tx => {
+      // First check which links exist
+      const result = await tx.run(
+        `UNWIND $linkIds as linkId
+        OPTIONAL MATCH (l:Link)
+        WHERE l.customId = linkId AND l.trashedAt IS NULL
+        WITH linkId, l,
+             CASE WHEN l IS NOT NULL THEN true ELSE false END as exists
+        RETURN collect({
+          id: linkId,
+          exists: exists
+        }) as linkStatuses`,
+        { linkIds }
+      );
+    
+      const linkStatuses = result.records[0].get("linkStatuses");
+      const existingIds = linkStatuses
+        .filter((status: any) => status.exists)
+        .map((status: any) => status.id);
+      const notFoundIds = linkStatuses
+        .filter((status: any) => !status.exists)
+        .map((status: any) => status.id);
+
+      if (existingIds.length === 0) {
+        logger.warn("No existing links found for bulk deletion", { linkIds });
+        return {
+          success: false,
+          deletedCount: 0,
+          notFoundIds
+        };
+      }
+    
+      logger.info("Bulk deleting links", {
+        totalRequested: linkIds.length,
+        existing: existingIds.length,
+        notFound: notFoundIds.length
+      });
     
-    const linkStatuses = result.records[0].get("linkStatuses");
-    const existingIds = linkStatuses
-      .filter((status: any) => status.exists)
-      .map((status: any) => status.id);
-    const notFoundIds = linkStatuses
-      .filter((status: any) => !status.exists)
-      .map((status: any) => status.id);
+      const deleted = await getLinksByIds(tx, existingIds);
 
-    if (existingIds.length === 0) {
-      logger.warn("No existing links found for bulk deletion", { linkIds });
+      // Perform bulk deletion for existing links
+      await tx.run(
+        `UNWIND $ids as linkId
+        MATCH (l:Link)
+        WHERE l.customId = linkId
+        DETACH DELETE l`,
+        { ids: existingIds }
+      );
+      await recordChanges(tx, deleted.map(link => linkRecord('delete', link, null)));
+    
       return {
-        success: false,
-        deletedCount: 0,
+        success: true,
+        deletedCount: existingIds.length,
         notFoundIds
       };
-    }
-    
-    logger.info("Bulk deleting links", {
-      totalRequested: linkIds.length,
-      existing: existingIds.length,
-      notFound: notFoundIds.length
     });
-    
-    // Perform bulk deletion for existing links
-    await session.run(
-      `UNWIND $ids as linkId
-      MATCH (l:Link)
-      WHERE l.customId = linkId
-      DETACH DELETE l`,
-      { ids: existingIds }
-    );
-    
-    return {
-      success: true,
-      deletedCount: existingIds.length,
-      notFoundIds
-    };
   } catch (error) {
     throw handleNeo4jError(error, { linkIds });
   } finally {
@@ -1,47 +1,117 @@
-import { getSession } from "../driver.js";
+import { ManagedTransaction } from "neo4j-driver";
+import { getSession, withTransaction } from "../driver.js";
 import { logger } from "../../utils/logger.js";
 import { McpError, ProjectErrorCode, BaseErrorCode } from "../../types/errors.js";
-import { Project, ProjectInput, ProjectOperationErrorCode, ListProjectsOptions, PaginatedProjects, BulkProjectResult } from "./types.js";
+import { Project, ProjectInput, NewProjectInput, ProjectOperationErrorCode, ListProjectsOptions, PaginatedProjects, BulkProjectResult, DeleteProjectOptions, ChildProjectAction } from "./types.js";
 import { handleNeo4jError, validateImmutableProps } from "./utils.js";
 import { processBulk } from "../../utils/bulkOperationManager.js";
 import { generateCustomId, stripCustomIdPrefix, EntityType } from "../../utils/idGenerator.js";
+import { applyProjectParent, handleChildProjects } from "./projectHierarchy.js";
+import { purgeTrashedProjects, trashProjects, trashRecord } from "./projectTrash.js";
+import { checkStatusChanges, resolveInitialStatus } from "./projectWorkflows.js";
+import { ChangeRecord, recordChange, recordChanges } from "../auditService.js";
 
-export const createProject = async (project: ProjectInput): Promise<Project | never> => {
-  const session = getSession();
+// Current state of several live projects, for the audit log; missing ones are left out
+const getProjectsByIds = async (tx: ManagedTransaction, ids: string[]): Promise<Project[]> => {
+  const result = await tx.run(
+    `UNWIND $ids AS projectId
+    MATCH (p:Project)
+    WHERE p.customId = projectId AND p.trashedAt IS NULL
+    OPTIONAL MATCH (parent:Project)-[:PARENT_OF]->(p)
+    RETURN p {
+      .name,
+      .description,
+      .status,
+      .createdAt,
+      .updatedAt,
+      id: p.customId,
+      parentId: parent.customId
+    } AS project`,
+    { ids }
+  );
+  return result.records.map(record => record.get("project"));
+};
+
+const projectRecord = (action: ChangeRecord['action'], before: Project | null, after: Project | null): ChangeRecord => {
+  const id = (after ?? before)!.id;
+  return { entityType: 'project', entityId: id, projectIds: [id], action, before, after };
+};
+
+/**
+ * Creates a project, optionally under a parent and following a workflow
+ * @throws {McpError} If the parent or workflow does not exist, or the status is not part of the workflow
+ */
+export const createProject = async (project: NewProjectInput): Promise<Project | never> => {
+  const { parentId = null, workflowId, ...properties } = project;
   try {
-    const now = new Date().toISOString();
-    const projectId = generateCustomId('PROJECT');
-    const result = await session.run(
-      `CREATE (p:Project {
-        name: $name,
-        description: $description,
-        status: $status,
-        createdAt: $createdAt,
-        updatedAt: $updatedAt,
-        customId: $customId
-      })
-      RETURN p {
-        .name,
-        .description,
-        .status,
-        .createdAt,
-        .updatedAt,
-        id: p.customId
-      } AS project`,
-      { ...project, createdAt: now, updatedAt: now, customId: projectId }
-    );
-    return result.records[0].get("project");
+    return await withTransaction(async tx => {
+      if (parentId && !(await getProjectsByIds(tx, [parentId])).length) {
+        throw new McpError(
+          ProjectErrorCode.PROJECT_NOT_FOUND,
+          `Parent project with ID ${parentId} not found`,
+          { parentId }
+        );
+      }
+      const { workflow, status } = await resolveInitialStatus(tx, properties.status, workflowId);
+
+      const now = new Date().toISOString();
+      const projectId = generateCustomId('PROJECT');
+      const result = await tx.run(
+        `CREATE (p:Project {
+          name: $name,
+          description: $description,
+          status: $status,
+          createdAt: $createdAt,
+          updatedAt: $updatedAt,
+          customId: $customId
+        })
+        WITH p
+        OPTIONAL MATCH (parent:Project)
+        WHERE parent.customId = $parentId
+        FOREACH (x IN CASE WHEN parent IS NULL THEN [] ELSE [1] END |
+          CREATE (parent)-[:PARENT_OF]->(p)
+        )
+        WITH p, parent
+        OPTIONAL MATCH (w:Workflow)
+        WHERE w.customId = $workflowId
+        FOREACH (x IN CASE WHEN w IS NULL THEN [] ELSE [1] END |
+          CREATE (p)-[:USES_WORKFLOW]->(w)
+        )
+        RETURN p {
+          .name,
+          .description,
+          .status,
+          .createdAt,
+          .updatedAt,
+          id: p.customId,
+          parentId: parent.customId
+        } AS project`,
+        {
+          ...properties,
+          status,
+          parentId,
+          workflowId: workflow?.id ?? null,
+          createdAt: now,
+          updatedAt: now,
+          customId: projectId
+        }
+      );
+      const created: Project = result.records[0].get("project");
+      // The workflow is a relationship, so the audit state carries it alongside the project
+      const after = workflow ? { ...created, workflowId: workflow.id } : created;
+      await recordChange(tx, projectRecord('create', null, after));
+      return created;
+    });
   } catch (error) {
+    if (error instanceof McpError) throw error;
     throw handleNeo4jError(error, { project });
-  } finally {
-    await session.close();
   }
 };
 
-export const createProjectsBulk = async (projects: ProjectInput[]): Promise<BulkProjectResult> => {
+export const createProjectsBulk = async (projects: NewProjectInput[]): Promise<BulkProjectResult> => {
   logger.info("Starting bulk project creation", { count: projects.length });
 
-  const result = await processBulk<ProjectInput, Project, ProjectOperationErrorCode>(
+  const result = await processBulk<NewProjectInput, Project, ProjectOperationErrorCode>(
     projects,
     async (project) => {
       try {
@@ -77,14 +147,16 @@ export const getProjectById = async (id: string): Promise<Project | null | never
   try {
     const result = await session.run(
       `MATCH (p:Project)
-      WHERE p.customId = $id
+      WHERE p.customId = $id AND p.trashedAt IS NULL
+      OPTIONAL MATCH (parent:Project)-[:PARENT_OF]->(p)
       RETURN p {
         .name,
         .description,
         .status,
         .createdAt,
         .updatedAt,
-        id: p.customId
+        id: p.customId,
+        parentId: parent.customId
       } AS project`,
       { id }
     );
@@ -97,87 +169,121 @@ export const getProjectById = async (id: string): Promise<Project | null | never
 };
 
 export const updateProject = async (id: string, updates: Partial<ProjectInput>): Promise<Project | null | never> => {
-  const session = getSession();
   try {
     validateImmutableProps(updates, ["id", "createdAt", "updatedAt"]);
 
-    // Check if project exists
-    const currentProject = await getProjectById(id);
-    if (!currentProject) {
-      throw new McpError(
-        ProjectErrorCode.PROJECT_NOT_FOUND,
-        `Project with ID ${id} not found`
+    // The parent is a relationship, not a property; null makes the project top-level
+    const { parentId, ...properties } = updates;
+    return await withTransaction(async tx => {
+      // Check if project exists
+      const [currentProject] = await getProjectsByIds(tx, [id]);
+      if (!currentProject) {
+        throw new McpError(
+          ProjectErrorCode.PROJECT_NOT_FOUND,
+          `Project with ID ${id} not found`
+        );
+      }
+
+      if (properties.status !== undefined) {
+        await checkStatusChanges(tx, [{ project: currentProject, status: properties.status }]);
+      }
+      if (parentId !== undefined) {
+        await applyProjectParent(tx, id, parentId);
+      }
+
+      const now = new Date().toISOString();
+      const result = await tx.run(
+        `MATCH (p:Project)
+        WHERE p.customId = $id
+        SET p += $updates,
+            p.updatedAt = $now
+        WITH p
+        OPTIONAL MATCH (parent:Project)-[:PARENT_OF]->(p)
+        RETURN p {
+          .name,
+          .description,
+          .status,
+          .createdAt,
+          .updatedAt,
+          id: p.customId,
+          parentId: parent.customId
+        } AS project`,
+        { id, updates: properties, now }
       );
-    }
+      if (!result.records.length) return null;
 
-    const now = new Date().toISOString();
-    const result = await session.run(
-      `MATCH (p:Project)
-      WHERE p.customId = $id
-      SET p += $updates,
-          p.updatedAt = $now
-      RETURN p {
-        .name,
-        .description,
-        .status,
-        .createdAt,
-        .updatedAt,
-        id: p.customId
-      } AS project`,
-      { id, updates, now }
-    );
-    return result.records.length ? result.records[0].get("project") : null;
+      const updated: Project = result.records[0].get("project");
+      await recordChange(tx, projectRecord('update', currentProject, updated));
+      return updated;
+    });
   } catch (error) {
+    if (error instanceof McpError) throw error;
     throw handleNeo4jError(error, { id, updates });
-  } finally {
-    await session.close();
   }
 };
 
 export const updateProjectsBulk = async (
   updates: Array<{ id: string; updates: Partial<ProjectInput> }>
 ): Promise<{ updated: Project[]; notFound: string[] } | never> => {
-  const session = getSession();
   try {
     // Validate all updates
     updates.forEach(update => {
       validateImmutableProps(update.updates, ["id", "createdAt", "updatedAt"]);
     });
 
-    const now = new Date().toISOString();
-    const result = await session.run(
-      `UNWIND $updates as updateData
-      OPTIONAL MATCH (p:Project)
-      WHERE p.customId = updateData.id
-      WITH p, updateData
-      WHERE p IS NOT NULL
-      SET p += updateData.updates,
-          p.updatedAt = $now
-      RETURN p {
-        .name,
-        .description,
-        .status,
-        .createdAt,
-        .updatedAt,
-        id: p.customId
-      } AS project,
-      updateData.id as requestedId`,
-      {
-        updates: updates.map(u => ({
-          id: u.id,
-          updates: u.updates
-        })),
-        now
+    return await withTransaction(async tx => {
+      const before = new Map((await getProjectsByIds(tx, updates.map(u => u.id))).map(p => [p.id, p]));
+
+      // Status changes must follow each project's workflow; one that does not fails the whole batch
+      await checkStatusChanges(tx, updates
+        .filter(u => u.updates.status !== undefined && before.has(u.id))
+        .map(u => ({ project: before.get(u.id)!, status: u.updates.status! })));
+
+      // Parent changes go first, so an invalid parent fails the whole batch
+      for (const update of updates) {
+        if (update.updates.parentId !== undefined && before.has(update.id)) {
+          await applyProjectParent(tx, update.id, update.updates.parentId ?? null);
+        }
       }
-    );
-    
-    const updated = result.records.map(record => record.get("project"));
-    const notFound = updates.map(u => u.id).filter(id => !updated.find(p => p.id === id));
-    return { updated, notFound };
+
+      const now = new Date().toISOString();
+      const result = await tx.run(
+        `UNWIND $updates as updateData
+        OPTIONAL MATCH (p:Project)
+        WHERE p.customId = updateData.id AND p.trashedAt IS NULL
+        WITH p, updateData
+        WHERE p IS NOT NULL
+        SET p += updateData.updates,
+            p.updatedAt = $now
+        WITH p, updateData
+        OPTIONAL MATCH (parent:Project)-[:PARENT_OF]->(p)
+        RETURN p {
+          .name,
+          .description,
+          .status,
+          .createdAt,
+          .updatedAt,
+          id: p.customId,
+          parentId: parent.customId
+        } AS project,
+        updateData.id as requestedId`,
+        {
+          updates: updates.map(({ id, updates: { parentId, ...properties } }) => ({
+            id,
+            updates: properties
+          })),
+          now
+        }
+      );
+
+      const updated: Project[] = result.records.map(record => record.get("project"));
+      const notFound = updates.map(u => u.id).filter(id => !updated.find(p => p.id === id));
+      await recordChanges(tx, updated.map(project => projectRecord('update', before.get(project.id) ?? null, project)));
+      return { updated, notFound };
+    });
   } catch (error) {
+    if (error instanceof McpError) throw error;
     throw handleNeo4jError(error, { updates });
-  } finally {
-    await session.close();
   }
 };
 
@@ -190,9 +296,81 @@ interface DeleteProjectResult {
     outgoingDepsCount: number;
     incomingDepsCount: number;
   };
+  childProjects?: {
+    action: ChildProjectAction;
+    count: number;  // Sub-projects deleted or trashed (cascade) or moved up (reparent)
+  };
 }
 
-export const deleteProject = async (id: string): Promise<DeleteProjectResult | never> => {
+/**
+ * Deletes live projects, for good or to the trash, and purges projects that
+ * are already in the trash, all in one transaction. Sub-projects that are
+ * themselves being deleted are left to their own turn.
+ * @returns How many sub-projects were moved up, and how many were deleted,
+ * trashed or purged
+ */
+const removeProjects = async (
+  liveIds: string[],
+  trashedIds: string[],
+  children: ChildProjectAction,
+  trash: boolean
+): Promise<{ moved: number; removed: number }> => {
+  return await withTransaction(async tx => {
+    const projects = trash ? [] : await getProjectsByIds(tx, liveIds);
+    const records: ChangeRecord[] = [];
+    let moved = 0;
+    let removed = 0;
+
+    // Sub-projects are dealt with first so none are orphaned; a cascade to
+    // the trash marks them along with their parent instead
+    if (!trash || children === 'reparent') {
+      for (const projectId of liveIds) {
+        const changes = await handleChildProjects(tx, projectId, children, liveIds);
+        moved += changes.filter(change => change.after).length;
+        removed += changes.filter(change => !change.after).length;
+        records.push(...changes.map(change => projectRecord(change.after ? 'update' : 'delete', change.before, change.after)));
+      }
+    }
+
+    if (!trash) {
+      await tx.run(
+        `UNWIND $ids as projectId
+        MATCH (p:Project)
+        WHERE p.customId = projectId
+        OPTIONAL MATCH (p)<-[:BELONGS_TO]-(n)
+        OPTIONAL MATCH (p)<-[:MEMBER_OF]-(m)
+        OPTIONAL MATCH (p)-[od:DEPENDS_ON]->()
+        OPTIONAL MATCH ()-[id:DEPENDS_ON]->(p)
+        OPTIONAL MATCH (p)-[:HAS_SAVED_QUERY]->(q)
+        DETACH DELETE n, m, q, p`,
+        { ids: liveIds }
+      );
+      records.push(...projects.map(project => projectRecord('delete', project, null)));
+    } else {
+      const trashed = await trashProjects(tx, liveIds, children === 'cascade', liveIds);
+      removed += trashed.length - liveIds.length;
+      records.push(...trashed.map(project => trashRecord('trash', project)));
+    }
+
+    const purged = await purgeTrashedProjects(tx, trashedIds);
+    removed += purged.length - trashedIds.length;
+    records.push(...purged.map(project => trashRecord('purge', project)));
+
+    await recordChanges(tx, records);
+    return { moved, removed };
+  });
+};
+
+/**
+ * Deletes a project with all of its data. With `trash` it goes to the trash
+ * instead and can be restored; without it, a project already in the trash is
+ * purged from there.
+ */
+export const deleteProject = async (
+  id: string,
+  options: DeleteProjectOptions = {}
+): Promise<DeleteProjectResult | never> => {
+  const { children = 'reparent', trash = false } = options;
   const session = getSession();
   try {
     // First check if project exists and get related nodes count
@@ -205,6 +383,8 @@ export const deleteProject = async (id: string): Promise<DeleteProjectResult | n
       OPTIONAL MATCH (p)-[outDeps:DEPENDS_ON]->()
       OPTIONAL MATCH ()-[inDeps:DEPENDS_ON]->(p)
       RETURN p, 
+             p.trashedAt IS NOT NULL as trashed,
+             p.trashedWith = p.customId as inTrash,
              count(notes) as noteCount, 
              count(links) as linkCount,
              count(members) as memberCount,
@@ -213,12 +393,13 @@ export const deleteProject = async (id: string): Promise<DeleteProjectResult | n
       { id }
     );
     
-    if (!result.records.length) {
+    // Only projects listed in the trash can be purged from it
+    const record = result.records[0];
+    if (!record || (record.get("trashed") && (trash || !record.get("inTrash")))) {
       logger.warn("Attempt to delete non-existent project", { id });
       return { success: false };
     }
     
-    const record = result.records[0];
     const relatedNodes = {
       noteCount: record.get("noteCount").toNumber(),
       linkCount: record.get("linkCount").toNumber(),
@@ -226,7 +407,7 @@ export const deleteProject = async (id: string): Promise<DeleteProjectResult | n
       outgoingDepsCount: record.get("outgoingDepsCount").toNumber(),
       incomingDepsCount: record.get("incomingDepsCount").toNumber()
     };
-    logger.info("Deleting project and related nodes", {
+    logger.info(trash ? "Moving project and related nodes to the trash" : "Deleting project and related nodes", {
       id,
       noteCount: record.get("noteCount"),
       linkCount: record.get("linkCount"),
@@ -235,19 +416,14 @@ export const deleteProject = async (id: string): Promise<DeleteProjectResult | n
       incomingDependencies: record.get("incomingDepsCount")
     });
     
-    // Now perform the deletion
-    await session.run(
-      `MATCH (p:Project)
-      WHERE p.customId = $id
-      OPTIONAL MATCH (p)<-[:BELONGS_TO]-(n)
-      OPTIONAL MATCH (p)<-[:MEMBER_OF]-(m)
-      OPTIONAL MATCH (p)-[od:DEPENDS_ON]->()
-      OPTIONAL MATCH ()-[id:DEPENDS_ON]->(p)
-      DETACH DELETE n, m, p`,
-      { id }
-    );
-    
-    return { success: true, relatedNodes };
+    if (record.get("trashed")) {
+      // Sub-projects in the trash with it are purged along with it
+      const { removed } = await removeProjects([], [id], children, false);
+      return { success: true, relatedNodes, childProjects: { action: 'cascade', count: removed } };
+    }
+
+    const { moved, removed } = await removeProjects([id], [], children, trash);
+    return { success: true, relatedNodes, childProjects: { action: children, count: moved + removed } };
   } catch (error) {
     throw handleNeo4jError(error, { id });
   } finally {
@@ -255,10 +431,21 @@ export const deleteProject = async (id: string): Promise<DeleteProjectResult | n
   }
 };
 
-export const deleteProjectsBulk = async (ids: string[]): Promise<{ success: boolean; deletedCount: number; notFoundIds: string[] } | never> => {
+export const deleteProjectsBulk = async (
+  ids: string[],
+  options: DeleteProjectOptions = {}
+): Promise<{
+  success: boolean;
+  deletedCount: number;           // Including projects purged from the trash
+  purgedCount: number;
+  childProjectCount: number;      // Sub-projects moved up, deleted, trashed or purged
+  movedChildProjectCount: number; // Of those, the ones moved up
+  notFoundIds: string[];
+} | never> => {
+  const { children = 'reparent', trash = false } = options;
   const session = getSession();
   try {
-    // First check which projects exist and get related nodes count
+    // First check which projects exist, and which of them are in the trash
     const result = await session.run(
       `UNWIND $ids as projectId
       OPTIONAL MATCH (p:Project)
@@ -267,50 +454,50 @@ export const deleteProjectsBulk = async (ids: string[]): Promise<{ success: bool
            CASE WHEN p IS NOT NULL THEN true ELSE false END as exists
       RETURN collect({
         id: projectId,
-        exists: exists
+        exists: exists,
+        trashed: p.trashedAt IS NOT NULL,
+        inTrash: p.trashedWith = projectId
       }) as projectStatuses`,
       { ids }
     );
     
+    // Projects in the trash only count when purging them from it
     const projectStatuses = result.records[0].get("projectStatuses");
-    const existingIds = projectStatuses
-      .filter((status: any) => status.exists)
-      .map((status: any) => status.id);
-    const notFoundIds = projectStatuses
-      .filter((status: any) => !status.exists)
+    const liveIds: string[] = projectStatuses
+      .filter((status: any) => status.exists && !status.trashed)
       .map((status: any) => status.id);
+    const trashedIds: string[] = trash
+      ? []
+      : projectStatuses.filter((status: any) => status.inTrash).map((status: any) => status.id);
+    const notFoundIds = ids.filter(id => !liveIds.includes(id) && !trashedIds.includes(id));
 
-    if (existingIds.length === 0) {
+    if (liveIds.length === 0 && trashedIds.length === 0) {
       logger.warn("No existing projects found for bulk deletion", { ids });
       return {
         success: false,
         deletedCount: 0,
+        purgedCount: 0,
+        childProjectCount: 0,
+        movedChildProjectCount: 0,
         notFoundIds
       };
     }
     
-    logger.info("Bulk deleting projects", {
+    logger.info(trash ? "Bulk moving projects to the trash" : "Bulk deleting projects", {
       totalRequested: ids.length,
-      existing: existingIds.length,
+      existing: liveIds.length,
+      inTrash: trashedIds.length,
       notFound: notFoundIds.length
     });
     
-    // Perform bulk deletion for existing projects
-    await session.run(
-      `UNWIND $ids as projectId
-      MATCH (p:Project)
-      WHERE p.customId = projectId
-      OPTIONAL MATCH (p)<-[:BELONGS_TO]-(n)
-      OPTIONAL MATCH (p)<-[:MEMBER_OF]-(m)
-      OPTIONAL MATCH (p)-[od:DEPENDS_ON]->()
-      OPTIONAL MATCH ()-[id:DEPENDS_ON]->(p)
-      DETACH DELETE n, m, p`,
-      { ids: existingIds }
-    );
+    const { moved, removed } = await removeProjects(liveIds, trashedIds, children, trash);
     
     return {
       success: true,
-      deletedCount: existingIds.length,
+      deletedCount: liveIds.length + trashedIds.length,
+      purgedCount: trashedIds.length,
+      childProjectCount: moved + removed,
+      movedChildProjectCount: moved,
       notFoundIds
     };
   } catch (error) {
@@ -338,16 +525,19 @@ export const listProjects = async (options: ListProjectsOptions = {}): Promise<P
     
     const result = await session.run(
       `MATCH (p:Project)
+      WHERE p.trashedAt IS NULL
       WITH p
       ORDER BY p.createdAt DESC
       SKIP toInteger($skip) LIMIT toInteger($limit)
+      OPTIONAL MATCH (parent:Project)-[:PARENT_OF]->(p)
       RETURN p {
         .name,
         .description,
         .status,
         .createdAt,
         .updatedAt,
-        id: p.customId
+        id: p.customId,
+        parentId: parent.customId
       } AS project`,
       {
         skip: skip,
@@ -364,6 +554,7 @@ export const listProjects = async (options: ListProjectsOptions = {}): Promise<P
     // Get total count for pagination
     const countResult = await session.run(
       `MATCH (p:Project)
+      WHERE p.trashedAt IS NULL
       RETURN count(p) as total`,
       {}
     );
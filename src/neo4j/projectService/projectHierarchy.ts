@@ -0,0 +1,260 @@
+import { ManagedTransaction } from "neo4j-driver";
+import { getSession, withTransaction } from "../driver.js";
+import { McpError, ProjectErrorCode } from "../../types/errors.js";
+import { ChildProjectAction, Project, ProjectTreeNode } from "./types.js";
+import { handleNeo4jError } from "./utils.js";
+
+/**
+ * Makes one project the parent of another inside a transaction, replacing its
+ * current parent. A project cannot become a child of itself or of one of its
+ * own descendants.
+ * @param parentId The new parent, or null to make the project top-level
+ * @returns false if the project does not exist
+ * @throws {McpError} If the parent does not exist or would create a cycle
+ */
+export const applyProjectParent = async (
+  tx: ManagedTransaction,
+  projectId: string,
+  parentId: string | null
+): Promise<boolean> => {
+  if (parentId) {
+    const check = await tx.run(
+      `MATCH (parent:Project)
+      WHERE parent.customId = $parentId AND parent.trashedAt IS NULL
+      OPTIONAL MATCH path = (p:Project)-[:PARENT_OF*0..]->(parent)
+      WHERE p.customId = $projectId
+      RETURN count(path) > 0 AS cycle`,
+      { projectId, parentId }
+    );
+    if (!check.records.length) {
+      throw new McpError(
+        ProjectErrorCode.PROJECT_NOT_FOUND,
+        `Parent project with ID ${parentId} not found`,
+        { parentId }
+      );
+    }
+    if (check.records[0].get("cycle")) {
+      throw new McpError(
+        ProjectErrorCode.INVALID_PARENT,
+        `Project ${projectId} cannot become a child of itself or of one of its sub-projects`,
+        { projectId, parentId }
+      );
+    }
+  }
+
+  const result = await tx.run(
+    `MATCH (p:Project)
+    WHERE p.customId = $projectId AND p.trashedAt IS NULL
+    OPTIONAL MATCH (:Project)-[r:PARENT_OF]->(p)
+    DELETE r
+    WITH DISTINCT p
+    OPTIONAL MATCH (parent:Project)
+    WHERE parent.customId = $parentId
+    FOREACH (x IN CASE WHEN parent IS NULL THEN [] ELSE [1] END |
+      CREATE (parent)-[:PARENT_OF]->(p)
+    )
+    RETURN p.customId AS id`,
+    { projectId, parentId }
+  );
+  return result.records.length > 0;
+};
+
+/**
+ * Changes the parents of several projects in one transaction, in order, so
+ * either all changes apply or none do
+ * @returns IDs of the projects that do not exist
+ */
+export const setProjectParents = async (
+  changes: Array<{ projectId: string; parentId: string | null }>
+): Promise<string[] | never> => {
+  try {
+    return await withTransaction(async tx => {
+      const notFound: string[] = [];
+      for (const change of changes) {
+        if (!(await applyProjectParent(tx, change.projectId, change.parentId))) {
+          notFound.push(change.projectId);
+        }
+      }
+      return notFound;
+    });
+  } catch (error) {
+    if (error instanceof McpError) throw error;
+    throw handleNeo4jError(error, { changes });
+  }
+};
+
+// A sub-project deleted (no `after`) or moved up to a new parent
+export interface ChildProjectChange {
+  before: Project;
+  after: Project | null;
+}
+
+/**
+ * Deals with the sub-projects of a project about to be deleted. Sub-projects
+ * listed in `excludeIds` are being deleted anyway and are left alone.
+ * @returns The sub-projects that were deleted or moved
+ */
+export const handleChildProjects = async (
+  tx: ManagedTransaction,
+  projectId: string,
+  action: ChildProjectAction,
+  excludeIds: string[] = []
+): Promise<ChildProjectChange[]> => {
+  if (action === 'cascade') {
+    // Descendants go with all of their notes, links, tasks, members and saved queries
+    const result = await tx.run(
+      `MATCH (p:Project)-[:PARENT_OF*1..]->(d:Project)
+      WHERE p.customId = $projectId AND NOT d.customId IN $excludeIds
+      WITH DISTINCT d
+      MATCH (parent:Project)-[:PARENT_OF]->(d)
+      OPTIONAL MATCH (d)<-[:BELONGS_TO]-(n)
+      OPTIONAL MATCH (d)<-[:MEMBER_OF]-(m)
+      OPTIONAL MATCH (d)-[:HAS_SAVED_QUERY]->(q)
+      WITH collect(DISTINCT d {
+        name: coalesce(d.name, d.trashedName),
+        .description,
+        .status,
+        .createdAt,
+        .updatedAt,
+        id: d.customId,
+        parentId: parent.customId
+      }) AS projects,
+      collect(DISTINCT d) AS descendants, collect(DISTINCT n) AS content, collect(DISTINCT m) AS members,
+      collect(DISTINCT q) AS queries
+      FOREACH (x IN content | DETACH DELETE x)
+      FOREACH (x IN members | DETACH DELETE x)
+      FOREACH (x IN queries | DETACH DELETE x)
+      FOREACH (x IN descendants | DETACH DELETE x)
+      RETURN projects`,
+      { projectId, excludeIds }
+    );
+    return result.records[0].get("projects").map((before: Project) => ({ before, after: null }));
+  }
+
+  // Children move up to the nearest ancestor that is not being deleted as
+  // well, taking their own sub-projects with them
+  const result = await tx.run(
+    `MATCH (p:Project)-[r:PARENT_OF]->(child:Project)
+    WHERE p.customId = $projectId AND NOT child.customId IN $excludeIds
+    OPTIONAL MATCH path = (grandparent:Project)-[:PARENT_OF*1..]->(p)
+    WHERE NOT grandparent.customId IN $excludeIds
+      AND all(x IN nodes(path)[1..-1] WHERE x.customId IN $excludeIds)
+    DELETE r
+    FOREACH (x IN CASE WHEN grandparent IS NULL THEN [] ELSE [1] END |
+      CREATE (grandparent)-[:PARENT_OF]->(child)
+    )
+    RETURN child {
+      .name,
+      .description,
+      .status,
+      .createdAt,
+      .updatedAt,
+      id: child.customId
+    } AS child,
+    grandparent.customId AS parentId`,
+    { projectId, excludeIds }
+  );
+  return result.records.map(record => {
+    const child = record.get("child");
+    return {
+      before: { ...child, parentId: projectId },
+      after: { ...child, parentId: record.get("parentId") ?? null }
+    };
+  });
+};
+
+/**
+ * Builds the project hierarchy with per-project counts and roll-ups over each
+ * project's descendants
+ * @param rootId Project to start from (default: every top-level project)
+ * @returns The root projects with their sub-projects nested under `children`
+ * @throws {McpError} If the root project does not exist
+ */
+export const getProjectTree = async (rootId?: string): Promise<ProjectTreeNode[] | never> => {
+  const session = getSession();
+  try {
+    const result = await session.run(
+      `${rootId
+        ? `MATCH (root:Project)-[:PARENT_OF*0..]->(p:Project)
+      WHERE root.customId = $rootId AND p.trashedAt IS NULL
+      WITH DISTINCT p`
+        : `MATCH (p:Project)
+      WHERE p.trashedAt IS NULL`}
+      OPTIONAL MATCH (parent:Project)-[:PARENT_OF]->(p)
+      RETURN p {
+        .name,
+        .description,
+        .status,
+        .createdAt,
+        .updatedAt,
+        id: p.customId,
+        parentId: parent.customId,
+        noteCount: size([(p)<-[:BELONGS_TO]-(n:Note) | n]),
+        userIds: [(p)<-[:MEMBER_OF]-(m:Member) | m.userId]
+      } AS project
+      ORDER BY p.name`,
+      { rootId: rootId ?? null }
+    );
+
+    if (rootId && !result.records.length) {
+      throw new McpError(
+        ProjectErrorCode.PROJECT_NOT_FOUND,
+        `Project with ID ${rootId} not found`,
+        { projectId: rootId }
+      );
+    }
+
+    const rows = result.records.map(record => record.get("project"));
+    const nodes = new Map<string, ProjectTreeNode>();
+    const userIds = new Map<string, string[]>();
+    for (const row of rows) {
+      userIds.set(row.id, row.userIds);
+      nodes.set(row.id, {
+        id: row.id,
+        name: row.name,
+        description: row.description,
+        status: row.status,
+        parentId: row.parentId ?? null,
+        createdAt: row.createdAt,
+        updatedAt: row.updatedAt,
+        counts: {
+          notes: row.noteCount.toNumber(),
+          members: new Set<string>(row.userIds).size
+        },
+        rollup: { descendants: 0, notes: 0, members: 0, statuses: {} },
+        children: []
+      });
+    }
+
+    const roots: ProjectTreeNode[] = [];
+    for (const node of nodes.values()) {
+      const parent = node.id !== rootId && node.parentId ? nodes.get(node.parentId) : undefined;
+      if (parent) parent.children.push(node);
+      else roots.push(node);
+    }
+
+    // Post-order, so children are rolled up before their parent
+    const rollUp = (node: ProjectTreeNode): Set<string> => {
+      const users = new Set(userIds.get(node.id));
+      node.rollup = { descendants: 0, notes: node.counts.notes, members: 0, statuses: { [node.status]: 1 } };
+      for (const child of node.children) {
+        rollUp(child).forEach(user => users.add(user));
+        node.rollup.descendants += 1 + child.rollup.descendants;
+        node.rollup.notes += child.rollup.notes;
+        for (const [status, count] of Object.entries(child.rollup.statuses)) {
+          node.rollup.statuses[status] = (node.rollup.statuses[status] || 0) + count;
+        }
+      }
+      node.rollup.members = users.size;
+      return users;
+    };
+    roots.forEach(rollUp);
+
+    return roots;
+  } catch (error) {
+    if (error instanceof McpError) throw error;
+    throw handleNeo4jError(error, { rootId });
+  } finally {
+    await session.close();
+  }
+};
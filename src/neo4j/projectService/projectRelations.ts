@@ -4,6 +4,26 @@ import { McpError, ProjectErrorCode } from "../../types/errors.js";
 import { ProjectDependency, DependencyDetails, ProjectMember } from "./types.js";
 import { handleNeo4jError } from "./utils.js";
 import { getProjectById } from "./projectCore.js";
+import { ChangeRecord, recordChange, recordChanges } from "../auditService.js";
+
+// A dependency shows up in the history of the projects on both ends
+const dependencyRecord = (action: ChangeRecord['action'], dependency: ProjectDependency): ChangeRecord => ({
+  entityType: 'dependency',
+  entityId: dependency.id,
+  projectIds: [dependency.sourceProjectId, dependency.targetProjectId],
+  action,
+  before: action === 'delete' ? dependency : null,
+  after: action === 'create' ? dependency : null
+});
+
+const memberRecord = (action: ChangeRecord['action'], member: ProjectMember): ChangeRecord => ({
+  entityType: 'member',
+  entityId: member.id,
+  projectIds: member.projectId ? [member.projectId] : [],
+  action,
+  before: action === 'delete' ? member : null,
+  after: action === 'create' ? member : null
+});
 
 // Dependencies Management
 export const getDependencyDetails = async (dependencyId: string): Promise<DependencyDetails | null | never> => {
@@ -22,12 +42,12 @@ export const getDependencyDetails = async (dependencyId: string): Promise<Depend
         updatedAt: d.updatedAt,
         sourceProject: {
           id: source.customId,
-          name: source.name,
+          name: coalesce(source.name, source.trashedName),
           status: source.status
         },
         targetProject: {
           id: target.customId,
-          name: target.name,
+          name: coalesce(target.name, target.trashedName),
           status: target.status
         }
       } as dependency`,
@@ -49,93 +69,97 @@ export const addDependency = async (
 ): Promise<ProjectDependency | never> => {
   const session = getSession();
   try {
-    // Check if both projects exist before proceeding
-    const sourceProject = await getProjectById(sourceProjectId);
-    const targetProject = await getProjectById(targetProjectId);
-
-    if (!sourceProject) {
-      throw new McpError(
-        ProjectErrorCode.PROJECT_NOT_FOUND,
-        `Source project with ID ${sourceProjectId} not found`,
-        { projectId: sourceProjectId }
-      );
-    }
-    if (!targetProject) {
-      throw new McpError(
-        ProjectErrorCode.PROJECT_NOT_FOUND,
-        `Target project with ID ${targetProjectId} not found`,
-        { projectId: targetProjectId }
-      );
-    }
-
-    const now = new Date().toISOString();
-
-    // Check for cycles using APOC path expansion
-    const cycleCheck = await session.run(
-      `MATCH (source:Project {customId: $sourceId}), (target:Project {customId: $targetId})
-      CALL apoc.path.expandConfig(target, {
-        relationshipFilter: "DEPENDS_ON>",
-        terminatorNodes: [source],
-        maxLevel: 10
-      })
-      YIELD path
-      RETURN COUNT(path) > 0 as wouldCreateCycle`,
-      {
-        sourceId: sourceProjectId,
-        targetId: targetProjectId
+    return await session.executeWrite(async tx => {
+      // Check if both projects exist before proceeding
+      const sourceProject = await getProjectById(sourceProjectId);
+      const targetProject = await getProjectById(targetProjectId);
+
+      if (!sourceProject) {
+        throw new McpError(
+          ProjectErrorCode.PROJECT_NOT_FOUND,
+          `Source project with ID ${sourceProjectId} not found`,
+          { projectId: sourceProjectId }
+        );
+      }
+      if (!targetProject) {
+        throw new McpError(
+          ProjectErrorCode.PROJECT_NOT_FOUND,
+          `Target project with ID ${targetProjectId} not found`,
+          { projectId: targetProjectId }
+        );
       }
-    );
 
-    if (cycleCheck.records[0].get("wouldCreateCycle")) {
-      throw new McpError(
-        ProjectErrorCode.INVALID_DEPENDENCY,
-        "Cannot create dependency: would create a circular dependency",
-        { sourceProjectId, targetProjectId }
+      const now = new Date().toISOString();
+
+      // Check for cycles using APOC path expansion
+      const cycleCheck = await tx.run(
+        `MATCH (source:Project {customId: $sourceId}), (target:Project {customId: $targetId})
+        CALL apoc.path.expandConfig(target, {
+          relationshipFilter: "DEPENDS_ON>",
+          terminatorNodes: [source],
+          maxLevel: 10
+        })
+        YIELD path
+        RETURN COUNT(path) > 0 as wouldCreateCycle`,
+        {
+          sourceId: sourceProjectId,
+          targetId: targetProjectId
+        }
       );
-    }
 
-    // If no cycle would be created, proceed with creating the dependency
-    const params = {
-      sourceId: sourceProjectId,
-      targetId: targetProjectId,
-      dependencyId: dependency.customId,
-      type: dependency.type,
-      description: dependency.description
-    };
-    logger.info("Creating dependency with params:", { params, dependency });
+      if (cycleCheck.records[0].get("wouldCreateCycle")) {
+        throw new McpError(
+          ProjectErrorCode.INVALID_DEPENDENCY,
+          "Cannot create dependency: would create a circular dependency",
+          { sourceProjectId, targetProjectId }
+        );
+      }
 
-    const result = await session.run(
-      `MATCH (source:Project), (target:Project)
-      WHERE source.customId = $sourceId
-      AND target.customId = $targetId
-      CREATE (source)-[d:DEPENDS_ON {
-        customId: $dependencyId,
-        type: $type,
-        description: $description,
-        createdAt: $createdAt,
-        updatedAt: $updatedAt
-      }]->(target)
-      RETURN {
-        id: d.customId,
-        sourceProjectId: source.customId,
-        targetProjectId: target.customId,
-        type: d.type,
-        description: d.description,
-        createdAt: d.createdAt,
-        updatedAt: d.updatedAt
-      } as dependency`,
-      {
+      // If no cycle would be created, proceed with creating the dependency
+      const params = {
         sourceId: sourceProjectId,
         targetId: targetProjectId,
         dependencyId: dependency.customId,
         type: dependency.type,
-        description: dependency.description,
-        createdAt: now,
-        updatedAt: now
-      }
-    );
+        description: dependency.description
+      };
+      logger.info("Creating dependency with params:", { params, dependency });
+
+      const result = await tx.run(
+        `MATCH (source:Project), (target:Project)
+        WHERE source.customId = $sourceId
+        AND target.customId = $targetId
+        CREATE (source)-[d:DEPENDS_ON {
+          customId: $dependencyId,
+          type: $type,
+          description: $description,
+          createdAt: $createdAt,
+          updatedAt: $updatedAt
+        }]->(target)
+        RETURN {
+          id: d.customId,
+          sourceProjectId: source.customId,
+          targetProjectId: target.customId,
+          type: d.type,
+          description: d.description,
+          createdAt: d.createdAt,
+          updatedAt: d.updatedAt
+        } as dependency`,
+        {
+          sourceId: sourceProjectId,
+          targetId: targetProjectId,
+          dependencyId: dependency.customId,
+          type: dependency.type,
+          description: dependency.description,
+          createdAt: now,
+          updatedAt: now
+        }
+      );
 
-    return result.records[0].get("dependency");
+      const created: ProjectDependency = result.records[0].get("dependency");
+      await recordChange(tx, dependencyRecord('create', created));
+      return created;
+    });
   } catch (error) {
     throw handleNeo4jError(error, { sourceProjectId, targetProjectId, dependency });
   } finally {
@@ -154,93 +178,96 @@ export const addDependenciesBulk = async (
 ): Promise<{ created: ProjectDependency[]; errors: Array<{ index: number; error: string }> }> => {
   const session = getSession();
   try {
-    const now = new Date().toISOString();
-    const errors: Array<{ index: number; error: string }> = [];
-    const created: ProjectDependency[] = [];
-
-    // Process dependencies sequentially to properly handle cycle checks
-    for (let i = 0; i < dependencies.length; i++) {
-      const dep = dependencies[i];
-      try {
-        // Check if both projects exist
-        const sourceProject = await getProjectById(dep.sourceProjectId);
-        const targetProject = await getProjectById(dep.targetProjectId);
-
-        if (!sourceProject) {
-          errors.push({ index: i, error: `Source project ${dep.sourceProjectId} not found` });
-          continue;
-        }
-        if (!targetProject) {
-          errors.push({ index: i, error: `Target project ${dep.targetProjectId} not found` });
-          continue;
-        }
+    return await session.executeWrite(async tx => {
+      const now = new Date().toISOString();
+      const errors: Array<{ index: number; error: string }> = [];
+      const created: ProjectDependency[] = [];
+
+      // Process dependencies sequentially to properly handle cycle checks
+      for (let i = 0; i < dependencies.length; i++) {
+        const dep = dependencies[i];
+        try {
+          // Check if both projects exist
+          const sourceProject = await getProjectById(dep.sourceProjectId);
+          const targetProject = await getProjectById(dep.targetProjectId);
+
+          if (!sourceProject) {
+            errors.push({ index: i, error: `Source project ${dep.sourceProjectId} not found` });
+            continue;
+          }
+          if (!targetProject) {
+            errors.push({ index: i, error: `Target project ${dep.targetProjectId} not found` });
+            continue;
+          }
 
-        // Check for cycles using APOC path expansion
-        const cycleCheck = await session.run(
-          `MATCH (source:Project {customId: $sourceId}), (target:Project {customId: $targetId})
-          CALL apoc.path.expandConfig(target, {
-            relationshipFilter: "DEPENDS_ON>",
-            terminatorNodes: [source],
-            maxLevel: 10
-          })
-          YIELD path
-          RETURN COUNT(path) > 0 as wouldCreateCycle`,
-          {
-            sourceId: dep.sourceProjectId,
-            targetId: dep.targetProjectId
+          // Check for cycles using APOC path expansion
+          const cycleCheck = await tx.run(
+            `MATCH (source:Project {customId: $sourceId}), (target:Project {customId: $targetId})
+            CALL apoc.path.expandConfig(target, {
+              relationshipFilter: "DEPENDS_ON>",
+              terminatorNodes: [source],
+              maxLevel: 10
+            })
+            YIELD path
+            RETURN COUNT(path) > 0 as wouldCreateCycle`,
+            {
+              sourceId: dep.sourceProjectId,
+              targetId: dep.targetProjectId
+            }
+          );
+
+          if (cycleCheck.records[0].get("wouldCreateCycle")) {
+            errors.push({
+              index: i,
+              error: `Would create circular dependency between ${dep.sourceProjectId} and ${dep.targetProjectId}`
+            });
+            continue;
           }
-        );
 
-        if (cycleCheck.records[0].get("wouldCreateCycle")) {
+          // Create dependency
+          const result = await tx.run(
+            `MATCH (source:Project), (target:Project)
+            WHERE source.customId = $sourceId
+            AND target.customId = $targetId
+            CREATE (source)-[d:DEPENDS_ON {
+              customId: $dependencyId,
+              type: $type,
+              description: $description,
+              createdAt: $createdAt,
+              updatedAt: $updatedAt
+            }]->(target)
+            RETURN {
+              id: d.customId,
+              sourceProjectId: source.customId,
+              targetProjectId: target.customId,
+              type: d.type,
+              description: d.description,
+              createdAt: d.createdAt,
+              updatedAt: d.updatedAt
+            } as dependency`,
+            {
+              sourceId: dep.sourceProjectId,
+              targetId: dep.targetProjectId,
+              dependencyId: dep.customId,
+              type: dep.type,
+              description: dep.description,
+              createdAt: now,
+              updatedAt: now
+            }
+          );
+
+          created.push(result.records[0].get("dependency"));
+        } catch (error) {
           errors.push({
             index: i,
-            error: `Would create circular dependency between ${dep.sourceProjectId} and ${dep.targetProjectId}`
+            error: error instanceof Error ? error.message : 'Unknown error'
           });
-          continue;
         }
-
-        // Create dependency
-        const result = await session.run(
-          `MATCH (source:Project), (target:Project)
-          WHERE source.customId = $sourceId
-          AND target.customId = $targetId
-          CREATE (source)-[d:DEPENDS_ON {
-            customId: $dependencyId,
-            type: $type,
-            description: $description,
-            createdAt: $createdAt,
-            updatedAt: $updatedAt
-          }]->(target)
-          RETURN {
-            id: d.customId,
-            sourceProjectId: source.customId,
-            targetProjectId: target.customId,
-            type: d.type,
-            description: d.description,
-            createdAt: d.createdAt,
-            updatedAt: d.updatedAt
-          } as dependency`,
-          {
-            sourceId: dep.sourceProjectId,
-            targetId: dep.targetProjectId,
-            dependencyId: dep.customId,
-            type: dep.type,
-            description: dep.description,
-            createdAt: now,
-            updatedAt: now
-          }
-        );
-
-        created.push(result.records[0].get("dependency"));
-      } catch (error) {
-        errors.push({
-          index: i,
-          error: error instanceof Error ? error.message : 'Unknown error'
-        });
       }
-    }
 
-    return { created, errors };
+      await recordChanges(tx, created.map(dependency => dependencyRecord('create', dependency)));
+      return { created, errors };
+    });
   } catch (error) {
     throw handleNeo4jError(error, { dependencies });
   } finally {
@@ -251,24 +278,36 @@ export const addDependenciesBulk = async (
 export const removeDependency = async (dependencyId: string): Promise<boolean | never> => {
   const session = getSession();
   try {
-    logger.info(`Attempting to delete dependency ${dependencyId}`, { dependencyId });
-
-    const result = await session.run(
-      `MATCH (source:Project)-[d:DEPENDS_ON {customId: $dependencyId}]->(target:Project)
-      WHERE d.customId = $dependencyId
-      DELETE d
-      RETURN count(d) as deleted`,
-      { dependencyId }
-    );
+    return await session.executeWrite(async tx => {
+      logger.info(`Attempting to delete dependency ${dependencyId}`, { dependencyId });
+
+      const result = await tx.run(
+        `MATCH (source:Project)-[d:DEPENDS_ON {customId: $dependencyId}]->(target:Project)
+        WHERE d.customId = $dependencyId
+        WITH d, {
+          id: d.customId,
+          sourceProjectId: source.customId,
+          targetProjectId: target.customId,
+          type: d.type,
+          description: d.description,
+          createdAt: d.createdAt,
+          updatedAt: d.updatedAt
+        } AS dependency
+        DELETE d
+        RETURN dependency`,
+        { dependencyId }
+      );
 
-    const deleted = result.records[0].get("deleted").toInt();
-    logger.info(`Deleted ${deleted} dependencies with ID ${dependencyId}`, { deleted, dependencyId });
+      const deleted = result.records.length;
+      logger.info(`Deleted ${deleted} dependencies with ID ${dependencyId}`, { deleted, dependencyId });
 
-    if (deleted === 0) {
-      logger.warn("Attempt to remove non-existent dependency", { dependencyId });
-      return false;
-    }
-    return true;
+      if (deleted === 0) {
+        logger.warn("Attempt to remove non-existent dependency", { dependencyId });
+        return false;
+      }
+      await recordChanges(tx, result.records.map(record => dependencyRecord('delete', record.get("dependency"))));
+      return true;
+    });
   } catch (error) {
     throw handleNeo4jError(error, { dependencyId });
   } finally {
@@ -291,48 +330,60 @@ export const removeDependenciesBulk = async (
 
   const session = getSession();
   try {
-    logger.info(`Attempting to delete ${dependencyIds.length} dependencies`, { dependencyIds });
-
-    // First check which dependencies exist
-    const checkResult = await session.run(
-      `UNWIND $dependencyIds as depId
-       MATCH (source:Project)-[d:DEPENDS_ON]->(target:Project)
-       WHERE d.customId = depId
-       RETURN depId as foundId`,
-      { dependencyIds }
-    );
+    return await session.executeWrite(async tx => {
+      logger.info(`Attempting to delete ${dependencyIds.length} dependencies`, { dependencyIds });
 
-    const foundIds = checkResult.records.map(record => record.get('foundId'));
-    const notFoundIds = dependencyIds.filter(id => !foundIds.includes(id));
-
-    logger.info(`Found ${foundIds.length} dependencies to delete`, { 
-      foundIds, 
-      notFoundIds 
-    });
-    
-    let deletedCount = 0;
-    
-    if (foundIds.length > 0) {
-      // Delete the found dependencies
-      const deleteResult = await session.run(
-        `UNWIND $foundIds as depId
+      // First check which dependencies exist
+      const checkResult = await tx.run(
+        `UNWIND $dependencyIds as depId
          MATCH (source:Project)-[d:DEPENDS_ON]->(target:Project)
          WHERE d.customId = depId
-         DELETE d
-         RETURN count(d) as deletedCount`,
-        { foundIds }
+         RETURN depId as foundId`,
+        { dependencyIds }
       );
+
+      const foundIds = checkResult.records.map(record => record.get('foundId'));
+      const notFoundIds = dependencyIds.filter(id => !foundIds.includes(id));
+
+      logger.info(`Found ${foundIds.length} dependencies to delete`, { 
+        foundIds, 
+        notFoundIds 
+      });
+    
+      let deletedCount = 0;
+    
+      if (foundIds.length > 0) {
+        // Delete the found dependencies
+        const deleteResult = await tx.run(
+          `UNWIND $foundIds as depId
+           MATCH (source:Project)-[d:DEPENDS_ON]->(target:Project)
+           WHERE d.customId = depId
+           WITH d, {
+             id: d.customId,
+             sourceProjectId: source.customId,
+             targetProjectId: target.customId,
+             type: d.type,
+             description: d.description,
+             createdAt: d.createdAt,
+             updatedAt: d.updatedAt
+           } AS dependency
+           DELETE d
+           RETURN dependency`,
+          { foundIds }
+        );
       
-      deletedCount = deleteResult.records[0].get('deletedCount').toInt();
-    }
+        deletedCount = deleteResult.records.length;
+        await recordChanges(tx, deleteResult.records.map(record => dependencyRecord('delete', record.get('dependency'))));
+      }
 
-    logger.info(`Deleted ${deletedCount} dependencies`, { deletedCount });
+      logger.info(`Deleted ${deletedCount} dependencies`, { deletedCount });
 
-    return {
-      success: deletedCount > 0,
-      deletedCount,
-      notFoundIds
-    };
+      return {
+        success: deletedCount > 0,
+        deletedCount,
+        notFoundIds
+      };
+    });
   } catch (error) {
     throw handleNeo4jError(error, { dependencyIds });
   } finally {
@@ -348,11 +399,12 @@ export const listProjectDependencies = async (projectId: string): Promise<{
   try {
     const result = await session.run(
       `MATCH (p:Project)
-      WHERE p.customId = $projectId
+      WHERE p.customId = $projectId AND p.trashedAt IS NULL
 
       WITH p
       // Collect outgoing dependencies
       OPTIONAL MATCH (p)-[d:DEPENDS_ON]->(target:Project)
+      WHERE target.trashedAt IS NULL
       WITH p,
            COLLECT(CASE WHEN d IS NOT NULL
              THEN {
@@ -369,6 +421,7 @@ export const listProjectDependencies = async (projectId: string): Promise<{
 
       // Collect incoming dependencies (dependents)
       OPTIONAL MATCH (source:Project)-[d2:DEPENDS_ON]->(p)
+      WHERE source.trashedAt IS NULL
       WITH p,
            dependencies,
            COLLECT(CASE WHEN d2 IS NOT NULL
@@ -412,44 +465,48 @@ export const addProjectMember = async (
 ): Promise<ProjectMember | never> => {
   const session = getSession();
   try {
-    const now = new Date().toISOString();
-    const memberId = `MEMBER_${Date.now()}`;
-    const result = await session.run(
-      `MATCH (p:Project)
-      WHERE p.customId = $projectId
-      CREATE (m:Member {
-        customId: $memberId,
-        userId: $userId,
-        role: $role,
-        joinedAt: $joinedAt,
-        updatedAt: $updatedAt
-      })-[:MEMBER_OF]->(p)
-      RETURN m {
-        .userId,
-        .role,
-        .joinedAt,
-        .updatedAt,
-        id: m.customId,
-        projectId: p.customId
-      } AS member`,
-      {
-        projectId,
-        memberId,
-        userId: member.userId,
-        role: member.role,
-        joinedAt: now,
-        updatedAt: now
-      }
-    );
-
-    if (!result.records.length) {
-      throw new McpError(
-        ProjectErrorCode.PROJECT_NOT_FOUND,
-        `Project with ID ${projectId} not found`
+    return await session.executeWrite(async tx => {
+      const now = new Date().toISOString();
+      const memberId = `MEMBER_${Date.now()}`;
+      const result = await tx.run(
+        `MATCH (p:Project)
+        WHERE p.customId = $projectId AND p.trashedAt IS NULL
+        CREATE (m:Member {
+          customId: $memberId,
+          userId: $userId,
+          role: $role,
+          joinedAt: $joinedAt,
+          updatedAt: $updatedAt
+        })-[:MEMBER_OF]->(p)
+        RETURN m {
+          .userId,
+          .role,
+          .joinedAt,
+          .updatedAt,
+          id: m.customId,
+          projectId: p.customId
+        } AS member`,
+        {
+          projectId,
+          memberId,
+          userId: member.userId,
+          role: member.role,
+          joinedAt: now,
+          updatedAt: now
+        }
       );
-    }
 
-    return result.records[0].get("member");
+      if (!result.records.length) {
+        throw new McpError(
+          ProjectErrorCode.PROJECT_NOT_FOUND,
+          `Project with ID ${projectId} not found`
+        );
+      }
+
+      const created: ProjectMember = result.records[0].get("member");
+      await recordChange(tx, memberRecord('create', created));
+      return created;
+    });
   } catch (error) {
     throw handleNeo4jError(error, { projectId, member });
   } finally {
@@ -463,47 +520,51 @@ export const addProjectMembersBulk = async (
 ): Promise<{ created: ProjectMember[]; errors: Array<{ index: number; error: string }> }> => {
   const session = getSession();
   try {
-    // First check if project exists
-    const project = await getProjectById(projectId);
-    if (!project) {
-      throw new McpError(
-        ProjectErrorCode.PROJECT_NOT_FOUND,
-        `Project with ID ${projectId} not found`
-      );
-    }
-
-    const now = new Date().toISOString();
-    const result = await session.run(
-      `MATCH (p:Project)
-      WHERE p.customId = $projectId
-      UNWIND $members as memberData
-      CREATE (m:Member {
-        customId: $memberId + toString(memberData.index),
-        userId: memberData.userId,
-        role: memberData.role,
-        joinedAt: $now,
-        updatedAt: $now
-      })-[:MEMBER_OF]->(p)
-      RETURN m {
-        .userId,
-        .role,
-        .joinedAt,
-        .updatedAt,
-        id: m.customId,
-        projectId: p.customId
-      } AS member`,
-      {
-        projectId,
-        memberId: `MEMBER_${Date.now()}_`,
-        members: members.map((m, i) => ({ ...m, index: i })),
-        now
+    return await session.executeWrite(async tx => {
+      // First check if project exists
+      const project = await getProjectById(projectId);
+      if (!project) {
+        throw new McpError(
+          ProjectErrorCode.PROJECT_NOT_FOUND,
+          `Project with ID ${projectId} not found`
+        );
       }
-    );
 
-    return {
-      created: result.records.map(record => record.get("member")),
-      errors: [] // In this case, errors would be caught by the database constraints
-    };
+      const now = new Date().toISOString();
+      const result = await tx.run(
+        `MATCH (p:Project)
+        WHERE p.customId = $projectId
+        UNWIND $members as memberData
+        CREATE (m:Member {
+          customId: $memberId + toString(memberData.index),
+          userId: memberData.userId,
+          role: memberData.role,
+          joinedAt: $now,
+          updatedAt: $now
+        })-[:MEMBER_OF]->(p)
+        RETURN m {
+          .userId,
+          .role,
+          .joinedAt,
+          .updatedAt,
+          id: m.customId,
+          projectId: p.customId
+        } AS member`,
+        {
+          projectId,
+          memberId: `MEMBER_${Date.now()}_`,
+          members: members.map((m, i) => ({ ...m, index: i })),
+          now
+        }
+      );
+
+      const created: ProjectMember[] = result.records.map(record => record.get("member"));
+      await recordChanges(tx, created.map(member => memberRecord('create', member)));
+      return {
+        created,
+        errors: [] // In this case, errors would be caught by the database constraints
+      };
+    });
   } catch (error) {
     throw handleNeo4jError(error, { projectId, members });
   } finally {
@@ -516,57 +577,70 @@ export const removeProjectMembersBulk = async (
 ): Promise<{ success: boolean; deletedCount: number; notFoundIds: string[] }> => {
   const session = getSession();
   try {
-    // First check which members exist
-    const result = await session.run(
-      `UNWIND $memberIds as memberId
-      OPTIONAL MATCH (m:Member)
-      WHERE m.customId = memberId
-      WITH memberId, m,
-           CASE WHEN m IS NOT NULL THEN true ELSE false END as exists
-      RETURN collect({
-        id: memberId,
-        exists: exists
-      }) as memberStatuses`,
-      { memberIds }
-    );
+    return await session.executeWrite(async tx => {
+      // First check which members exist
+      const result = await tx.run(
+        `UNWIND $memberIds as memberId
+        OPTIONAL MATCH (m:Member)
+        WHERE m.customId = memberId AND m.trashedAt IS NULL
+        WITH memberId, m,
+             CASE WHEN m IS NOT NULL THEN true ELSE false END as exists
+        RETURN collect({
+          id: memberId,
+          exists: exists
+        }) as memberStatuses`,
+        { memberIds }
+      );
 
-    const memberStatuses = result.records[0].get("memberStatuses");
-    const existingIds = memberStatuses
-      .filter((status: any) => status.exists)
-      .map((status: any) => status.id);
-    const notFoundIds = memberStatuses
-      .filter((status: any) => !status.exists)
-      .map((status: any) => status.id);
+      const memberStatuses = result.records[0].get("memberStatuses");
+      const existingIds = memberStatuses
+        .filter((status: any) => status.exists)
+        .map((status: any) => status.id);
+      const notFoundIds = memberStatuses
+        .filter((status: any) => !status.exists)
+        .map((status: any) => status.id);
+
+      if (existingIds.length === 0) {
+        logger.warn("No existing members found for bulk deletion", { memberIds });
+        return {
+          success: false,
+          deletedCount: 0,
+          notFoundIds
+        };
+      }
+
+      logger.info("Bulk deleting members", {
+        totalRequested: memberIds.length,
+        existing: existingIds.length,
+        notFound: notFoundIds.length
+      });
+
+      // Perform bulk deletion for existing members
+      const deleteResult = await tx.run(
+        `UNWIND $existingIds as memberId
+        MATCH (m:Member)
+        WHERE m.customId = memberId
+        OPTIONAL MATCH (m)-[:MEMBER_OF]->(p:Project)
+        WITH m, m {
+          .userId,
+          .role,
+          .joinedAt,
+          .updatedAt,
+          id: m.customId,
+          projectId: p.customId
+        } AS member
+        DETACH DELETE m
+        RETURN member`,
+        { existingIds }
+      );
+      await recordChanges(tx, deleteResult.records.map(record => memberRecord('delete', record.get("member"))));
 
-    if (existingIds.length === 0) {
-      logger.warn("No existing members found for bulk deletion", { memberIds });
       return {
-        success: false,
-        deletedCount: 0,
+        success: true,
+        deletedCount: existingIds.length,
         notFoundIds
       };
-    }
-
-    logger.info("Bulk deleting members", {
-      totalRequested: memberIds.length,
-      existing: existingIds.length,
-      notFound: notFoundIds.length
     });
-
-    // Perform bulk deletion for existing members
-    await session.run(
-      `UNWIND $existingIds as memberId
-      MATCH (m:Member)
-      WHERE m.customId = memberId
-      DETACH DELETE m`,
-      { existingIds }
-    );
-
-    return {
-      success: true,
-      deletedCount: existingIds.length,
-      notFoundIds
-    };
   } catch (error) {
     throw handleNeo4jError(error, { memberIds });
   } finally {
@@ -577,33 +651,45 @@ export const removeProjectMembersBulk = async (
 export const removeProjectMember = async (memberId: string): Promise<boolean | never> => {
   const session = getSession();
   try {
-    // First check if member exists
-    const result = await session.run(
-      `MATCH (m:Member)-[r:MEMBER_OF]->(p:Project)
-      WHERE m.customId = $memberId
-      RETURN m, p`,
-      { memberId }
-    );
+    return await session.executeWrite(async tx => {
+      // First check if member exists
+      const result = await tx.run(
+        `MATCH (m:Member)-[r:MEMBER_OF]->(p:Project)
+        WHERE m.customId = $memberId AND m.trashedAt IS NULL
+        RETURN m, p`,
+        { memberId }
+      );
 
-    if (!result.records.length) {
-      logger.warn("Attempt to remove non-existent member", { memberId });
-      return false;
-    }
+      if (!result.records.length) {
+        logger.warn("Attempt to remove non-existent member", { memberId });
+        return false;
+      }
 
-    logger.info("Removing project member", {
-      memberId,
-      projectId: result.records[0].get("p").properties.customId,
-      userId: result.records[0].get("m").properties.userId
+      logger.info("Removing project member", {
+        memberId,
+        projectId: result.records[0].get("p").properties.customId,
+        userId: result.records[0].get("m").properties.userId
+      });
+
+      // Now perform the deletion
+      const deleteResult = await tx.run(
+        `MATCH (m:Member)-[r:MEMBER_OF]->(p:Project)
+        WHERE m.customId = $memberId
+        WITH m, m {
+          .userId,
+          .role,
+          .joinedAt,
+          .updatedAt,
+          id: m.customId,
+          projectId: p.customId
+        } AS member
+        DETACH DELETE m
+        RETURN member`,
+        { memberId }
+      );
+      await recordChanges(tx, deleteResult.records.map(record => memberRecord('delete', record.get("member"))));
+      return true;
     });
-
-    // Now perform the deletion
-    await session.run(
-      `MATCH (m:Member)-[r:MEMBER_OF]->(p:Project)
-      WHERE m.customId = $memberId
-      DETACH DELETE m`,
-      { memberId }
-    );
-    return true;
   } catch (error) {
     throw handleNeo4jError(error, { memberId });
   } finally {
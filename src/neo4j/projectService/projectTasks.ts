@@ -0,0 +1,497 @@
+import { ManagedTransaction } from "neo4j-driver";
+import { getSession, withTransaction } from "../driver.js";
+import { logger } from "../../utils/logger.js";
+import { McpError, ProjectErrorCode, TaskErrorCode, BaseErrorCode } from "../../types/errors.js";
+import {
+  ProjectTask,
+  TaskInput,
+  TaskUpdates,
+  ListTasksOptions,
+  PaginatedTasks,
+  ProjectOperationErrorCode,
+  BulkTaskResult,
+  BulkTaskUpdateResult
+} from "./types.js";
+import { handleNeo4jError, validateImmutableProps } from "./utils.js";
+import { getProjectById } from "./projectCore.js";
+import { processBulk } from "../../utils/bulkOperationManager.js";
+import { generateCustomId } from "../../utils/idGenerator.js";
+import { ChangeRecord, recordChange, recordChanges } from "../auditService.js";
+
+// Expects `t`, `p`, and the optional `assignee` and `parent` in scope
+const TASK_PROJECTION = `t {
+        .title,
+        .description,
+        .status,
+        .priority,
+        .dueDate,
+        .createdAt,
+        .updatedAt,
+        id: t.customId,
+        projectId: p.customId,
+        assigneeId: assignee.customId,
+        parentTaskId: parent.customId
+      }`;
+
+// Properties stored on the Task node; assignee and parent are relationships
+const TASK_PROPERTIES = ['title', 'description', 'status', 'priority', 'dueDate'] as const;
+
+const toTask = (task: Record<string, unknown>): ProjectTask => ({
+  ...task,
+  dueDate: task.dueDate ?? null,
+  assigneeId: task.assigneeId ?? null,
+  parentTaskId: task.parentTaskId ?? null
+}) as ProjectTask;
+
+const taskRecord = (action: ChangeRecord['action'], before: ProjectTask | null, after: ProjectTask | null): ChangeRecord => {
+  const task = (after ?? before)!;
+  return { entityType: 'task', entityId: task.id, projectIds: [task.projectId], action, before, after };
+};
+
+/**
+ * Checks that an assignee is a member of the task's project and that a parent
+ * task belongs to it too. A task cannot become a subtask of itself or of one
+ * of its own subtasks.
+ */
+const validateTaskReferences = async (
+  tx: ManagedTransaction,
+  projectId: string,
+  refs: { assigneeId?: string | null; parentTaskId?: string | null },
+  taskId?: string
+): Promise<void> => {
+  if (refs.assigneeId) {
+    const result = await tx.run(
+      `MATCH (m:Member)-[:MEMBER_OF]->(p:Project)
+      WHERE m.customId = $assigneeId AND p.customId = $projectId
+      RETURN m.customId AS id`,
+      { assigneeId: refs.assigneeId, projectId }
+    );
+    if (!result.records.length) {
+      throw new McpError(
+        TaskErrorCode.INVALID_ASSIGNEE,
+        `Member ${refs.assigneeId} is not a member of project ${projectId}`,
+        { assigneeId: refs.assigneeId, projectId }
+      );
+    }
+  }
+
+  if (refs.parentTaskId) {
+    const result = await tx.run(
+      `MATCH (parent:Task)-[:BELONGS_TO]->(p:Project)
+      WHERE parent.customId = $parentTaskId AND p.customId = $projectId
+      OPTIONAL MATCH path = (parent)-[:SUBTASK_OF*0..]->(t:Task)
+      WHERE t.customId = $taskId
+      RETURN count(path) > 0 AS cycle`,
+      { parentTaskId: refs.parentTaskId, projectId, taskId: taskId ?? null }
+    );
+    if (!result.records.length) {
+      throw new McpError(
+        TaskErrorCode.INVALID_PARENT_TASK,
+        `Task ${refs.parentTaskId} does not belong to project ${projectId}`,
+        { parentTaskId: refs.parentTaskId, projectId }
+      );
+    }
+    if (result.records[0].get("cycle")) {
+      throw new McpError(
+        TaskErrorCode.INVALID_PARENT_TASK,
+        `Task ${taskId} cannot become a subtask of itself or of one of its subtasks`,
+        { taskId, parentTaskId: refs.parentTaskId }
+      );
+    }
+  }
+};
+
+// Reads a live task inside a transaction
+const findTask = async (tx: ManagedTransaction, taskId: string): Promise<ProjectTask | null> => {
+  const result = await tx.run(
+    `MATCH (t:Task)-[:BELONGS_TO]->(p:Project)
+    WHERE t.customId = $taskId AND t.trashedAt IS NULL
+    OPTIONAL MATCH (t)-[:ASSIGNED_TO]->(assignee:Member)
+    OPTIONAL MATCH (t)-[:SUBTASK_OF]->(parent:Task)
+    RETURN ${TASK_PROJECTION} AS task`,
+    { taskId }
+  );
+  return result.records.length ? toTask(result.records[0].get("task")) : null;
+};
+
+export const getTaskById = async (taskId: string): Promise<ProjectTask | null | never> => {
+  const session = getSession();
+  try {
+    return await session.executeRead(tx => findTask(tx, taskId));
+  } catch (error) {
+    throw handleNeo4jError(error, { taskId });
+  } finally {
+    await session.close();
+  }
+};
+
+export const createTask = async (projectId: string, task: TaskInput): Promise<ProjectTask | never> => {
+  try {
+    const project = await getProjectById(projectId);
+    if (!project) {
+      throw new McpError(
+        ProjectErrorCode.PROJECT_NOT_FOUND,
+        `Project with ID ${projectId} not found`
+      );
+    }
+
+    const now = new Date().toISOString();
+    return await withTransaction(async tx => {
+      await validateTaskReferences(tx, projectId, task);
+      const result = await tx.run(
+        `MATCH (p:Project)
+        WHERE p.customId = $projectId
+        CREATE (t:Task {
+          customId: $taskId,
+          title: $title,
+          description: $description,
+          status: $status,
+          priority: $priority,
+          dueDate: $dueDate,
+          createdAt: $now,
+          updatedAt: $now
+        })-[:BELONGS_TO]->(p)
+        WITH t, p
+        OPTIONAL MATCH (assignee:Member)
+        WHERE assignee.customId = $assigneeId
+        OPTIONAL MATCH (parent:Task)
+        WHERE parent.customId = $parentTaskId
+        FOREACH (x IN CASE WHEN assignee IS NULL THEN [] ELSE [1] END |
+          CREATE (t)-[:ASSIGNED_TO]->(assignee)
+        )
+        FOREACH (x IN CASE WHEN parent IS NULL THEN [] ELSE [1] END |
+          CREATE (t)-[:SUBTASK_OF]->(parent)
+        )
+        RETURN ${TASK_PROJECTION} AS task`,
+        {
+          projectId,
+          taskId: generateCustomId('TASK'),
+          title: task.title,
+          description: task.description || "",
+          status: task.status || 'todo',
+          priority: task.priority || 'medium',
+          dueDate: task.dueDate ?? null,
+          assigneeId: task.assigneeId ?? null,
+          parentTaskId: task.parentTaskId ?? null,
+          now
+        }
+      );
+      const created = toTask(result.records[0].get("task"));
+      await recordChange(tx, taskRecord('create', null, created));
+      return created;
+    });
+  } catch (error) {
+    if (error instanceof McpError) throw error;
+    throw handleNeo4jError(error, { projectId, task });
+  }
+};
+
+export const createTasksBulk = async (projectId: string, tasks: TaskInput[]): Promise<BulkTaskResult> => {
+  logger.info("Starting bulk task creation", { projectId, count: tasks.length });
+
+  // Tasks are created in order so a failure leaves the earlier ones in place
+  const result = await processBulk<TaskInput, ProjectTask, ProjectOperationErrorCode>(
+    tasks,
+    async (task) => {
+      try {
+        return await createTask(projectId, task);
+      } catch (error) {
+        // Re-throw McpErrors directly, wrap other errors
+        if (error instanceof McpError) {
+          throw error;
+        }
+        throw new McpError(
+          BaseErrorCode.INTERNAL_ERROR,
+          `Error creating task: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    },
+    {
+      operationName: 'task creation',
+      concurrency: 1,
+      defaultErrorCode: BaseErrorCode.INTERNAL_ERROR
+    }
+  );
+
+  return {
+    success: result.success,
+    message: result.message,
+    successes: result.successes,
+    errors: result.errors
+  };
+};
+
+export const updateTask = async (taskId: string, updates: TaskUpdates): Promise<ProjectTask | never> => {
+  try {
+    validateImmutableProps(updates, ["id", "projectId", "createdAt", "updatedAt"]);
+
+    const properties = Object.fromEntries(
+      TASK_PROPERTIES.filter(key => key in updates).map(key => [key, updates[key] ?? null])
+    );
+    const now = new Date().toISOString();
+
+    return await withTransaction(async tx => {
+      const current = await findTask(tx, taskId);
+      if (!current) {
+        throw new McpError(
+          TaskErrorCode.TASK_NOT_FOUND,
+          `Task with ID ${taskId} not found`,
+          { taskId }
+        );
+      }
+
+      await validateTaskReferences(tx, current.projectId, updates, taskId);
+      await tx.run(
+        `MATCH (t:Task)
+        WHERE t.customId = $taskId
+        SET t += $properties,
+            t.updatedAt = $now`,
+        { taskId, properties, now }
+      );
+
+      // null unassigns or makes the task top-level; undefined leaves it as is
+      if (updates.assigneeId !== undefined) {
+        await tx.run(
+          `MATCH (t:Task)
+          WHERE t.customId = $taskId
+          OPTIONAL MATCH (t)-[a:ASSIGNED_TO]->(:Member)
+          DELETE a
+          WITH DISTINCT t
+          MATCH (m:Member)
+          WHERE m.customId = $assigneeId
+          CREATE (t)-[:ASSIGNED_TO]->(m)`,
+          { taskId, assigneeId: updates.assigneeId }
+        );
+      }
+      if (updates.parentTaskId !== undefined) {
+        await tx.run(
+          `MATCH (t:Task)
+          WHERE t.customId = $taskId
+          OPTIONAL MATCH (t)-[s:SUBTASK_OF]->(:Task)
+          DELETE s
+          WITH DISTINCT t
+          MATCH (parent:Task)
+          WHERE parent.customId = $parentTaskId
+          CREATE (t)-[:SUBTASK_OF]->(parent)`,
+          { taskId, parentTaskId: updates.parentTaskId }
+        );
+      }
+
+      const updated = (await findTask(tx, taskId)) as ProjectTask;
+      await recordChange(tx, taskRecord('update', current, updated));
+      return updated;
+    });
+  } catch (error) {
+    if (error instanceof McpError) throw error;
+    throw handleNeo4jError(error, { taskId, updates });
+  }
+};
+
+export const updateTasksBulk = async (
+  updates: Array<{ taskId: string; updates: TaskUpdates }>
+): Promise<BulkTaskUpdateResult> => {
+  logger.info("Starting bulk task update", { count: updates.length });
+
+  // One at a time, since moving one task can make another's new parent a cycle
+  const result = await processBulk<{ taskId: string; updates: TaskUpdates }, ProjectTask, ProjectOperationErrorCode>(
+    updates,
+    async (update) => {
+      try {
+        return await updateTask(update.taskId, update.updates);
+      } catch (error) {
+        if (error instanceof McpError) {
+          throw error;
+        }
+        throw new McpError(
+          BaseErrorCode.INTERNAL_ERROR,
+          `Error updating task: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    },
+    {
+      operationName: 'task update',
+      concurrency: 1,
+      defaultErrorCode: BaseErrorCode.INTERNAL_ERROR
+    }
+  );
+
+  return {
+    success: result.success,
+    message: result.message,
+    successes: result.successes,
+    errors: result.errors
+  };
+};
+
+export const deleteTasksBulk = async (
+  taskIds: string[]
+): Promise<{ success: boolean; deletedCount: number; subtaskCount: number; notFoundIds: string[] } | never> => {
+  const session = getSession();
+  try {
+    return await session.executeWrite(async tx => {
+      // First check which tasks exist
+      const result = await tx.run(
+        `UNWIND $taskIds as taskId
+        OPTIONAL MATCH (t:Task)
+        WHERE t.customId = taskId AND t.trashedAt IS NULL
+        WITH taskId, t,
+             CASE WHEN t IS NOT NULL THEN true ELSE false END as exists
+        RETURN collect({
+          id: taskId,
+          exists: exists
+        }) as taskStatuses`,
+        { taskIds }
+      );
+
+      const taskStatuses = result.records[0].get("taskStatuses");
+      const existingIds = taskStatuses
+        .filter((status: any) => status.exists)
+        .map((status: any) => status.id);
+      const notFoundIds = taskStatuses
+        .filter((status: any) => !status.exists)
+        .map((status: any) => status.id);
+
+      if (existingIds.length === 0) {
+        logger.warn("No existing tasks found for deletion", { taskIds });
+        return {
+          success: false,
+          deletedCount: 0,
+          subtaskCount: 0,
+          notFoundIds
+        };
+      }
+
+      logger.info("Deleting tasks and their subtasks", {
+        totalRequested: taskIds.length,
+        existing: existingIds.length,
+        notFound: notFoundIds.length
+      });
+
+      // Subtasks go with their parent, at any depth
+      const deleted = await tx.run(
+        `UNWIND $ids as taskId
+        MATCH (root:Task)
+        WHERE root.customId = taskId
+        MATCH (t:Task)-[:SUBTASK_OF*0..]->(root)
+        WITH DISTINCT t
+        MATCH (t)-[:BELONGS_TO]->(p:Project)
+        OPTIONAL MATCH (t)-[:ASSIGNED_TO]->(assignee:Member)
+        OPTIONAL MATCH (t)-[:SUBTASK_OF]->(parent:Task)
+        RETURN ${TASK_PROJECTION} AS task`,
+        { ids: existingIds }
+      );
+      const deletion = await tx.run(
+        `UNWIND $ids as taskId
+        MATCH (t:Task)
+        WHERE t.customId = taskId
+        OPTIONAL MATCH (sub:Task)-[:SUBTASK_OF*1..]->(t)
+        WITH collect(DISTINCT t) AS tasks, collect(DISTINCT sub) AS subs
+        WITH tasks, [s IN subs WHERE NOT s IN tasks] AS subtasks
+        FOREACH (s IN subtasks | DETACH DELETE s)
+        FOREACH (t IN tasks | DETACH DELETE t)
+        RETURN size(subtasks) AS subtaskCount`,
+        { ids: existingIds }
+      );
+      await recordChanges(tx, deleted.records.map(record => taskRecord('delete', toTask(record.get("task")), null)));
+
+      return {
+        success: true,
+        deletedCount: existingIds.length,
+        subtaskCount: deletion.records[0].get("subtaskCount").toNumber(),
+        notFoundIds
+      };
+    });
+  } catch (error) {
+    throw handleNeo4jError(error, { taskIds });
+  } finally {
+    await session.close();
+  }
+};
+
+export const deleteTask = async (taskId: string): Promise<{ success: boolean; subtaskCount: number } | never> => {
+  const result = await deleteTasksBulk([taskId]);
+  return { success: result.success, subtaskCount: result.subtaskCount };
+};
+
+const TASK_FILTERS = `WHERE p.customId = $projectId
+        AND ($status IS NULL OR t.status = $status)
+        AND ($priority IS NULL OR t.priority = $priority)
+      OPTIONAL MATCH (t)-[:ASSIGNED_TO]->(assignee:Member)
+      OPTIONAL MATCH (t)-[:SUBTASK_OF]->(parent:Task)
+      WITH t, p, assignee, parent
+      WHERE ($assigneeId IS NULL OR assignee.customId = $assigneeId)
+        AND ($parentTaskId IS NULL OR parent.customId = $parentTaskId)`;
+
+// Most urgent first: highest priority, then earliest due date (undated last)
+const TASK_ORDER = `ORDER BY CASE t.priority WHEN 'critical' THEN 0 WHEN 'high' THEN 1 WHEN 'medium' THEN 2 ELSE 3 END,
+               t.dueDate IS NULL, t.dueDate, t.createdAt`;
+
+export const listTasks = async (options: ListTasksOptions): Promise<PaginatedTasks | never> => {
+  const { projectId, page = 1, limit = 20 } = options;
+
+  const project = await getProjectById(projectId);
+  if (!project) {
+    throw new McpError(
+      ProjectErrorCode.PROJECT_NOT_FOUND,
+      `Project with ID ${projectId} not found`
+    );
+  }
+
+  const params = {
+    projectId,
+    status: options.status ?? null,
+    priority: options.priority ?? null,
+    assigneeId: options.assigneeId ?? null,
+    parentTaskId: options.parentTaskId ?? null
+  };
+
+  const session = getSession();
+  try {
+    const result = await session.run(
+      `MATCH (t:Task)-[:BELONGS_TO]->(p:Project)
+      ${TASK_FILTERS}
+      RETURN ${TASK_PROJECTION} AS task
+      ${TASK_ORDER}
+      SKIP toInteger($skip) LIMIT toInteger($limit)`,
+      { ...params, skip: (page - 1) * limit, limit }
+    );
+
+    const countResult = await session.run(
+      `MATCH (t:Task)-[:BELONGS_TO]->(p:Project)
+      ${TASK_FILTERS}
+      RETURN count(t) AS total`,
+      params
+    );
+
+    return {
+      items: result.records.map(record => toTask(record.get("task"))),
+      total: countResult.records[0].get("total").toNumber(),
+      page,
+      limit
+    };
+  } catch (error) {
+    throw handleNeo4jError(error, { options });
+  } finally {
+    await session.close();
+  }
+};
+
+export const listProjectTasks = async (projectId: string): Promise<ProjectTask[] | never> => {
+  const session = getSession();
+  try {
+    const result = await session.run(
+      `MATCH (t:Task)-[:BELONGS_TO]->(p:Project)
+      WHERE p.customId = $projectId
+      OPTIONAL MATCH (t)-[:ASSIGNED_TO]->(assignee:Member)
+      OPTIONAL MATCH (t)-[:SUBTASK_OF]->(parent:Task)
+      RETURN ${TASK_PROJECTION} AS task
+      ${TASK_ORDER}`,
+      { projectId }
+    );
+    return result.records.map(record => toTask(record.get("task")));
+  } catch (error) {
+    throw handleNeo4jError(error, { projectId });
+  } finally {
+    await session.close();
+  }
+};
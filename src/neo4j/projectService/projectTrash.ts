@@ -0,0 +1,303 @@
+import { ManagedTransaction } from "neo4j-driver";
+import { getSession, withTransaction } from "../driver.js";
+import { logger } from "../../utils/logger.js";
+import { McpError } from "../../types/errors.js";
+import { config } from "../../config/index.js";
+import { getAuditContext } from "../../utils/auditContext.js";
+import { ChangeRecord, recordChanges } from "../auditService.js";
+import { Project, ListTrashOptions, PaginatedTrash, RestoreConflict, RestoreProjectResult, TrashedProject } from "./types.js";
+import { handleNeo4jError } from "./utils.js";
+
+// A trashed project carries trashedAt, trashedBy and trashedWith (the ID of
+// the project whose deletion put it there) on itself and on its notes, links,
+// tasks, whiteboards and members. Nothing is detached, so a restore puts the
+// subgraph back exactly as it was. Its name moves to trashedName, leaving it
+// free for live projects under the unique name constraint.
+
+// Expects `p` and the optional `parent` in scope
+const PROJECT_PROJECTION = `p {
+        name: coalesce(p.name, p.trashedName),
+        .description,
+        .status,
+        .createdAt,
+        .updatedAt,
+        id: p.customId,
+        parentId: parent.customId
+      }`;
+
+export const trashRecord = (action: ChangeRecord['action'], project: Project): ChangeRecord => ({
+  entityType: 'project',
+  entityId: project.id,
+  projectIds: [project.id],
+  action,
+  before: action === 'restore' ? null : project,
+  after: action === 'restore' ? project : null
+});
+
+/**
+ * Moves projects to the trash inside a transaction. With `cascade`, each
+ * project's live sub-projects go with it, except those in `excludeIds`, which
+ * are being trashed in their own right.
+ * @returns The projects trashed, each root followed by its sub-projects
+ */
+export const trashProjects = async (
+  tx: ManagedTransaction,
+  projectIds: string[],
+  cascade: boolean,
+  excludeIds: string[] = []
+): Promise<Project[]> => {
+  const { actor } = getAuditContext();
+  const now = new Date().toISOString();
+  const trashed: Project[] = [];
+
+  for (const projectId of projectIds) {
+    const result = await tx.run(
+      `MATCH (root:Project)
+      WHERE root.customId = $projectId AND root.trashedAt IS NULL
+      OPTIONAL MATCH path = (root)-[:PARENT_OF*1..]->(:Project)
+      WHERE $cascade
+        AND all(x IN nodes(path)[1..] WHERE x.trashedAt IS NULL AND NOT x.customId IN $excludeIds)
+      WITH root, collect(DISTINCT last(nodes(path))) AS descendants
+      UNWIND [root] + descendants AS p
+      OPTIONAL MATCH (parent:Project)-[:PARENT_OF]->(p)
+      WITH p, ${PROJECT_PROJECTION} AS project
+      OPTIONAL MATCH (p)<-[:BELONGS_TO|MEMBER_OF]-(n)
+      WITH p, project, collect(n) AS content
+      FOREACH (x IN content + [p] |
+        SET x.trashedAt = $now, x.trashedBy = $actor, x.trashedWith = $projectId
+      )
+      SET p.trashedName = p.name
+      REMOVE p.name
+      RETURN project`,
+      { projectId, cascade, excludeIds, now, actor }
+    );
+    trashed.push(...result.records.map(record => record.get("project")));
+  }
+
+  return trashed;
+};
+
+/**
+ * Permanently deletes projects in the trash, with everything that was
+ * trashed along with them and their saved queries
+ * @param rootIds IDs of projects listed in the trash
+ * @returns The projects deleted
+ */
+export const purgeTrashedProjects = async (
+  tx: ManagedTransaction,
+  rootIds: string[]
+): Promise<Project[]> => {
+  const result = await tx.run(
+    `UNWIND $rootIds AS rootId
+    MATCH (p:Project)
+    WHERE p.trashedWith = rootId
+    OPTIONAL MATCH (parent:Project)-[:PARENT_OF]->(p)
+    WITH rootId, p, ${PROJECT_PROJECTION} AS project
+    OPTIONAL MATCH (p)<-[:BELONGS_TO|MEMBER_OF]-(n)
+    WHERE n.trashedWith = rootId
+    WITH p, project, collect(n) AS content
+    OPTIONAL MATCH (p)-[:HAS_SAVED_QUERY]->(q)
+    WITH p, project, content, collect(q) AS queries
+    FOREACH (x IN content + queries | DETACH DELETE x)
+    DETACH DELETE p
+    RETURN project`,
+    { rootIds }
+  );
+  return result.records.map(record => record.get("project"));
+};
+
+/**
+ * Lists the projects in the trash, most recently deleted first
+ */
+export const listTrash = async (options: ListTrashOptions = {}): Promise<PaginatedTrash | never> => {
+  const { page = 1, limit = 20 } = options;
+  const session = getSession();
+  try {
+    const result = await session.run(
+      `MATCH (p:Project)
+      WHERE p.trashedWith = p.customId
+      WITH p
+      ORDER BY p.trashedAt DESC
+      SKIP toInteger($skip) LIMIT toInteger($limit)
+      OPTIONAL MATCH (parent:Project)-[:PARENT_OF]->(p)
+      CALL {
+        WITH p
+        MATCH (x:Project)
+        WHERE x.trashedWith = p.customId
+        OPTIONAL MATCH (x)<-[:BELONGS_TO|MEMBER_OF]-(n)
+        WHERE n.trashedWith = p.customId
+        RETURN count(DISTINCT x) - 1 AS projects,
+               count(DISTINCT CASE WHEN n:Note THEN n END) AS notes,
+               count(DISTINCT CASE WHEN n:Link THEN n END) AS links,
+               count(DISTINCT CASE WHEN n:Member THEN n END) AS members,
+               count(DISTINCT CASE WHEN n:Task THEN n END) AS tasks,
+               count(DISTINCT CASE WHEN n:Whiteboard THEN n END) AS whiteboards
+      }
+      RETURN p {
+        .description,
+        .status,
+        .trashedAt,
+        name: p.trashedName,
+        .trashedBy,
+        id: p.customId,
+        parentId: parent.customId
+      } AS project,
+      { projects: projects, notes: notes, links: links, members: members, tasks: tasks, whiteboards: whiteboards } AS contents
+      ORDER BY p.trashedAt DESC`,
+      { skip: (page - 1) * limit, limit }
+    );
+
+    const countResult = await session.run(
+      `MATCH (p:Project)
+      WHERE p.trashedWith = p.customId
+      RETURN count(p) AS total`
+    );
+
+    const retentionMs = config.trash.retentionDays * 24 * 60 * 60 * 1000;
+    const items: TrashedProject[] = result.records.map(record => {
+      const project = record.get("project");
+      const contents = record.get("contents");
+      return {
+        ...project,
+        parentId: project.parentId ?? null,
+        purgeAt: config.trash.purgeEnabled
+          ? new Date(new Date(project.trashedAt).getTime() + retentionMs).toISOString()
+          : null,
+        contents: Object.fromEntries(
+          Object.entries(contents).map(([key, value]: [string, any]) => [key, value.toNumber()])
+        ) as TrashedProject['contents']
+      };
+    });
+
+    return {
+      items,
+      total: countResult.records[0].get("total").toNumber(),
+      page,
+      limit
+    };
+  } catch (error) {
+    throw handleNeo4jError(error, { options });
+  } finally {
+    await session.close();
+  }
+};
+
+/**
+ * Takes projects out of the trash along with everything trashed with them.
+ * A project whose parent is still in the trash comes back at the top level.
+ * A project is left in the trash if it, or a sub-project trashed with it,
+ * has the name of a live project.
+ * @param projectIds IDs of projects listed in the trash
+ */
+export const restoreProjects = async (
+  projectIds: string[]
+): Promise<{ restored: RestoreProjectResult[]; conflicts: RestoreConflict[]; notFoundIds: string[] } | never> => {
+  try {
+    const { results, conflicts } = await withTransaction(async tx => {
+      const results: RestoreProjectResult[] = [];
+      const conflicts: RestoreConflict[] = [];
+      const projects: Project[] = [];
+      for (const projectId of projectIds) {
+        // Projects restored earlier in the loop are live by now, so they clash too
+        const clashes = await tx.run(
+          `MATCH (p:Project)
+          WHERE p.trashedWith = $projectId
+          MATCH (live:Project)
+          WHERE live.name = p.trashedName
+          RETURN p.customId AS projectId, p.trashedName AS name, live.customId AS conflictingProjectId
+          ORDER BY projectId`,
+          { projectId }
+        );
+        if (clashes.records.length) {
+          conflicts.push(...clashes.records.map(record => ({
+            id: projectId,
+            projectId: record.get("projectId"),
+            name: record.get("name"),
+            conflictingProjectId: record.get("conflictingProjectId")
+          })));
+          continue;
+        }
+
+        const result = await tx.run(
+          `MATCH (root:Project)
+          WHERE root.customId = $projectId AND root.trashedWith = $projectId
+          OPTIONAL MATCH (oldParent:Project)-[r:PARENT_OF]->(root)
+          FOREACH (x IN CASE WHEN oldParent.trashedAt IS NOT NULL THEN [1] ELSE [] END | DELETE r)
+          WITH DISTINCT root
+          MATCH (p:Project)
+          WHERE p.trashedWith = $projectId
+          OPTIONAL MATCH (p)<-[:BELONGS_TO|MEMBER_OF]-(n)
+          WHERE n.trashedWith = $projectId
+          WITH p, collect(n) AS content
+          FOREACH (x IN content + [p] | REMOVE x.trashedAt, x.trashedBy, x.trashedWith)
+          SET p.name = p.trashedName
+          REMOVE p.trashedName
+          WITH p
+          OPTIONAL MATCH (parent:Project)-[:PARENT_OF]->(p)
+          RETURN ${PROJECT_PROJECTION} AS project
+          ORDER BY p.customId = $projectId DESC`,
+          { projectId }
+        );
+        if (!result.records.length) continue;
+
+        const restored: Project[] = result.records.map(record => record.get("project"));
+        projects.push(...restored);
+        results.push({
+          id: projectId,
+          parentId: restored[0].parentId ?? null,
+          restoredProjects: restored.length - 1
+        });
+      }
+      await recordChanges(tx, projects.map(project => trashRecord('restore', project)));
+      return { results, conflicts };
+    });
+
+    return {
+      restored: results,
+      conflicts,
+      notFoundIds: projectIds.filter(id =>
+        !results.some(result => result.id === id) && !conflicts.some(conflict => conflict.id === id)
+      )
+    };
+  } catch (error) {
+    if (error instanceof McpError) throw error;
+    throw handleNeo4jError(error, { projectIds });
+  }
+};
+
+/**
+ * Permanently deletes the projects that have been in the trash for longer
+ * than the retention period
+ * @returns How many trashed projects (not counting their sub-projects) were purged
+ */
+export const purgeExpiredTrash = async (retentionDays: number): Promise<number | never> => {
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+  const session = getSession();
+  try {
+    const expired = await session.run(
+      `MATCH (p:Project)
+      WHERE p.trashedWith = p.customId AND p.trashedAt < $cutoff
+      RETURN p.customId AS id`,
+      { cutoff }
+    );
+    const rootIds: string[] = expired.records.map(record => record.get("id"));
+    if (!rootIds.length) return 0;
+
+    const purged = await withTransaction(async tx => {
+      const purged = await purgeTrashedProjects(tx, rootIds);
+      await recordChanges(tx, purged.map(project => trashRecord('purge', project)));
+      return purged;
+    });
+
+    logger.info("Purged expired projects from the trash", {
+      retentionDays,
+      projects: rootIds.length,
+      total: purged.length
+    });
+    return rootIds.length;
+  } catch (error) {
+    throw handleNeo4jError(error, { retentionDays });
+  } finally {
+    await session.close();
+  }
+};
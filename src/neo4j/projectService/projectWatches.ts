@@ -0,0 +1,257 @@
+import neo4j from "neo4j-driver";
+import { getSession } from "../driver.js";
+import { McpError, ProjectErrorCode } from "../../types/errors.js";
+import { Chain } from "../blockchainService/types.js";
+import { resolveAddressNames } from "../blockchainService/entityService.js";
+import { toNumberOrNull } from "../blockchainService/utils.js";
+import {
+  ProjectOnchainSummary,
+  ProjectWatch,
+  WatchKind,
+  WatchedAddressActivity,
+  WatchedProgramActivity
+} from "./types.js";
+import { handleNeo4jError } from "./utils.js";
+
+// Programs are Program nodes on Solana and MovePackage nodes on Sui
+const PROGRAM_LABELS: Record<Chain, string> = {
+  solana: 'Program',
+  sui: 'MovePackage'
+};
+
+const DEFAULT_SUMMARY_DAYS = 7;
+const DEFAULT_RECENT_LIMIT = 5;
+
+const projectNotFound = (projectId: string) => new McpError(
+  ProjectErrorCode.PROJECT_NOT_FOUND,
+  `Project with ID ${projectId} not found`,
+  { projectId }
+);
+
+const targetPattern = (kind: WatchKind, chain: Chain) =>
+  kind === 'address'
+    ? `(t:Address {chain: $chain, address: $address})`
+    : `(t:${PROGRAM_LABELS[chain]} {address: $address})`;
+
+/**
+ * Starts watching an address or program from a project. The target node is
+ * created if it has not been ingested yet, so activity is picked up as soon
+ * as it is. Watching again updates the note.
+ * @param projectId The project
+ * @param kind 'address' or 'program'
+ * @param chain The chain of the target
+ * @param address The canonical address of the account, program or Move package
+ * @param note Why the target is watched
+ * @returns The watch
+ * @throws {McpError} If the project does not exist
+ */
+export const watchTarget = async (
+  projectId: string,
+  kind: WatchKind,
+  chain: Chain,
+  address: string,
+  note?: string
+): Promise<ProjectWatch> => {
+  const session = getSession();
+  try {
+    const now = new Date().toISOString();
+    const result = await session.run(
+      `MATCH (p:Project {customId: $projectId})
+      MERGE ${targetPattern(kind, chain)}
+      ON CREATE SET t.chain = $chain, t.createdAt = $now
+      MERGE (p)-[w:WATCHES]->(t)
+      ON CREATE SET w.createdAt = $now
+      SET w.note = CASE WHEN $note IS NULL THEN w.note ELSE $note END
+      RETURN w.note AS note, w.createdAt AS watchedAt`,
+      { projectId, chain, address, note: note ?? null, now }
+    );
+
+    if (!result.records.length) throw projectNotFound(projectId);
+
+    return {
+      projectId,
+      kind,
+      chain,
+      address,
+      note: result.records[0].get("note") ?? null,
+      watchedAt: result.records[0].get("watchedAt")
+    };
+  } catch (error) {
+    if (error instanceof McpError) throw error;
+    throw handleNeo4jError(error, { projectId, kind, chain, address });
+  } finally {
+    await session.close();
+  }
+};
+
+/**
+ * Stops watching an address or program from a project
+ * @returns Whether the project was watching the target
+ * @throws {McpError} If the project does not exist
+ */
+export const unwatchTarget = async (
+  projectId: string,
+  kind: WatchKind,
+  chain: Chain,
+  address: string
+): Promise<boolean> => {
+  const session = getSession();
+  try {
+    const result = await session.run(
+      `MATCH (p:Project {customId: $projectId})
+      OPTIONAL MATCH (p)-[w:WATCHES]->${targetPattern(kind, chain)}
+      DELETE w
+      RETURN count(w) AS removed`,
+      { projectId, chain, address }
+    );
+
+    if (!result.records.length) throw projectNotFound(projectId);
+    return (toNumberOrNull(result.records[0].get("removed")) ?? 0) > 0;
+  } catch (error) {
+    if (error instanceof McpError) throw error;
+    throw handleNeo4jError(error, { projectId, kind, chain, address });
+  } finally {
+    await session.close();
+  }
+};
+
+/**
+ * Lists the addresses and programs a project watches
+ * @param projectId The project
+ * @returns Watches, most recent first
+ */
+export const listProjectWatches = async (projectId: string): Promise<ProjectWatch[]> => {
+  const session = getSession();
+  try {
+    const result = await session.run(
+      `MATCH (p:Project {customId: $projectId})-[w:WATCHES]->(t)
+      RETURN CASE WHEN t:Address THEN 'address' ELSE 'program' END AS kind,
+             t.chain AS chain, t.address AS address, w.note AS note, w.createdAt AS watchedAt
+      ORDER BY watchedAt DESC`,
+      { projectId }
+    );
+
+    return result.records.map(record => ({
+      projectId,
+      kind: record.get("kind"),
+      chain: record.get("chain"),
+      address: record.get("address"),
+      note: record.get("note") ?? null,
+      watchedAt: record.get("watchedAt")
+    }));
+  } catch (error) {
+    throw handleNeo4jError(error, { projectId });
+  } finally {
+    await session.close();
+  }
+};
+
+/**
+ * Summarizes recent on-chain activity of everything a project watches:
+ * transactions of watched addresses, calls into watched programs, and open
+ * findings involving watched addresses
+ * @param projectId The project
+ * @param options Window start (default: 7 days ago) and transactions listed per address
+ * @returns The summary
+ */
+export const getProjectOnchainSummary = async (
+  projectId: string,
+  options: { since?: string; recentLimit?: number } = {}
+): Promise<ProjectOnchainSummary> => {
+  const since = options.since ?? new Date(Date.now() - DEFAULT_SUMMARY_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const recentLimit = options.recentLimit ?? DEFAULT_RECENT_LIMIT;
+
+  const session = getSession();
+  try {
+    const addressResult = await session.run(
+      `MATCH (:Project {customId: $projectId})-[w:WATCHES]->(a:Address)
+      OPTIONAL MATCH (a)-[:SENT|BALANCE_CHANGED]-(t:Transaction)
+      WITH w, a, t ORDER BY coalesce(t.blockTime, '') DESC
+      WITH w, a, collect(DISTINCT t) AS txs
+      RETURN a.chain AS chain, a.address AS address, w.note AS note, w.createdAt AS watchedAt,
+             size(txs) AS transactionCount,
+             size([t IN txs WHERE t.blockTime >= $since]) AS recentCount,
+             CASE WHEN size(txs) > 0 THEN txs[0].blockTime ELSE null END AS lastSeen,
+             [t IN txs[..$recentLimit] | {signature: t.signature, blockTime: t.blockTime, success: t.success}] AS recent
+      ORDER BY watchedAt DESC`,
+      { projectId, since, recentLimit: neo4j.int(recentLimit) }
+    );
+
+    const programResult = await session.run(
+      `MATCH (:Project {customId: $projectId})-[w:WATCHES]->(c)
+      WHERE c:Program OR c:MovePackage
+      OPTIONAL MATCH (c)<-[:INVOKED]-(call)<-[:HAS_INSTRUCTION|HAS_MOVE_CALL]-(t:Transaction)
+      WITH w, c, call, t
+      OPTIONAL MATCH (caller:Address)-[:SENT]->(t)
+      WHERE t.blockTime >= $since
+      RETURN c.chain AS chain, c.address AS address, w.note AS note, w.createdAt AS watchedAt,
+             count(DISTINCT CASE WHEN t.blockTime >= $since THEN call END) AS recentCalls,
+             count(DISTINCT caller) AS recentCallers,
+             max(t.blockTime) AS lastSeen
+      ORDER BY watchedAt DESC`,
+      { projectId, since }
+    );
+
+    const findingResult = await session.run(
+      `MATCH (:Project {customId: $projectId})-[:WATCHES]->(:Address)<-[:INVOLVES]-(f:Finding {status: 'open'})
+      WITH DISTINCT f ORDER BY f.updatedAt DESC
+      WITH collect(f) AS findings
+      RETURN size(findings) AS open,
+             [f IN findings[..$recentLimit] | {id: f.customId, detector: f.detector, score: f.score,
+                                               summary: f.summary, updatedAt: f.updatedAt}] AS latest`,
+      { projectId, recentLimit: neo4j.int(recentLimit) }
+    );
+
+    const addresses = addressResult.records.map(record => ({
+      chain: record.get("chain") as Chain,
+      address: record.get("address") as string,
+      note: record.get("note") ?? null,
+      watchedAt: record.get("watchedAt"),
+      transactionCount: toNumberOrNull(record.get("transactionCount")) ?? 0,
+      recentCount: toNumberOrNull(record.get("recentCount")) ?? 0,
+      lastSeen: record.get("lastSeen"),
+      recent: record.get("recent")
+    }));
+
+    // Names are resolved per chain, since addresses of both chains may be watched
+    const names = Object.assign({}, ...await Promise.all(
+      [...new Set(addresses.map(entry => entry.chain))].map(chain =>
+        resolveAddressNames(chain, addresses.filter(entry => entry.chain === chain).map(entry => entry.address))
+      )
+    ));
+
+    const findings = findingResult.records[0];
+
+    return {
+      since,
+      addresses: addresses.map((entry): WatchedAddressActivity => ({
+        ...entry,
+        label: names[entry.address]?.label ?? null,
+        entity: names[entry.address]?.entity ?? null
+      })),
+      programs: programResult.records.map((record): WatchedProgramActivity => ({
+        chain: record.get("chain"),
+        address: record.get("address"),
+        note: record.get("note") ?? null,
+        watchedAt: record.get("watchedAt"),
+        recentCalls: toNumberOrNull(record.get("recentCalls")) ?? 0,
+        recentCallers: toNumberOrNull(record.get("recentCallers")) ?? 0,
+        lastSeen: record.get("lastSeen")
+      })),
+      findings: {
+        open: toNumberOrNull(findings.get("open")) ?? 0,
+        latest: (findings.get("latest") as Array<Record<string, unknown>>).map(finding => ({
+          id: finding.id as string,
+          detector: finding.detector as string,
+          score: toNumberOrNull(finding.score) ?? 0,
+          summary: finding.summary as string,
+          updatedAt: finding.updatedAt as string
+        }))
+      }
+    };
+  } catch (error) {
+    throw handleNeo4jError(error, { projectId, options });
+  } finally {
+    await session.close();
+  }
+};
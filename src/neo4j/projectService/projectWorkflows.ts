@@ -0,0 +1,483 @@
+import { ManagedTransaction } from "neo4j-driver";
+import { getSession, withTransaction } from "../driver.js";
+import { logger } from "../../utils/logger.js";
+import { McpError, ProjectErrorCode, WorkflowErrorCode } from "../../types/errors.js";
+import { generateCustomId } from "../../utils/idGenerator.js";
+import { toNumberOrNull } from "../blockchainService/utils.js";
+import { ChangeRecord, recordChange, recordChanges } from "../auditService.js";
+import { Project, Workflow, WorkflowAssignment, WorkflowGuardRule, WorkflowInput } from "./types.js";
+import { handleNeo4jError, validStatusTransitions } from "./utils.js";
+
+// A project follows at most one workflow through (p)-[:USES_WORKFLOW]->(w).
+// Projects without one keep the built-in statuses and, as before workflows
+// existed, may move between them freely.
+const BUILT_IN_STATUSES = Object.keys(validStatusTransitions);
+const BUILT_IN_INITIAL_STATUS = 'active';
+const BUILT_IN_FINAL_STATUSES = ['completed', 'archived'];
+
+// Both sessions and transactions can run the lookups below
+type QueryRunner = Pick<ManagedTransaction, 'run'>;
+
+// Expects `w` and `projectCount` in scope; transitions and guards are stored as JSON
+const WORKFLOW_PROJECTION = `w {
+        .name,
+        .description,
+        .statuses,
+        .initialStatus,
+        .finalStatuses,
+        .transitions,
+        .guards,
+        .createdAt,
+        .updatedAt,
+        id: w.customId,
+        projectCount: projectCount
+      }`;
+
+const toWorkflow = (workflow: Record<string, unknown>): Workflow => ({
+  ...workflow,
+  transitions: JSON.parse(workflow.transitions as string),
+  guards: JSON.parse(workflow.guards as string),
+  projectCount: toNumberOrNull(workflow.projectCount) ?? 0
+}) as Workflow;
+
+const workflowRecord = (before: Workflow | null, after: Workflow): ChangeRecord => {
+  // The project count is not part of the definition
+  const state = ({ projectCount, ...workflow }: Workflow) => workflow;
+  return {
+    entityType: 'workflow',
+    entityId: after.id,
+    projectIds: [],
+    action: before ? 'update' : 'create',
+    before: before && state(before),
+    after: state(after)
+  };
+};
+
+/**
+ * Checks that a workflow definition is consistent and fills in its defaults
+ * @throws {McpError} If it refers to a status it does not define
+ */
+export const normalizeWorkflow = (input: WorkflowInput): Omit<Workflow, 'id' | 'projectCount' | 'createdAt' | 'updatedAt'> => {
+  const invalid = (message: string, details: Record<string, unknown>): never => {
+    throw new McpError(WorkflowErrorCode.INVALID_WORKFLOW, message, details);
+  };
+
+  const statuses = input.statuses;
+  const duplicates = statuses.filter((status, index) => statuses.indexOf(status) !== index);
+  if (duplicates.length) invalid(`Duplicate statuses: ${duplicates.join(", ")}`, { duplicates });
+
+  const unknown = (values: string[]) => [...new Set(values.filter(value => !statuses.includes(value)))];
+
+  if (!statuses.includes(input.initialStatus)) {
+    invalid(`Initial status '${input.initialStatus}' is not one of the workflow's statuses`, { initialStatus: input.initialStatus });
+  }
+
+  const undefinedStatuses = unknown([...Object.keys(input.transitions), ...Object.values(input.transitions).flat()]);
+  if (undefinedStatuses.length) {
+    invalid(`Transitions use undefined statuses: ${undefinedStatuses.join(", ")}`, { statuses: undefinedStatuses });
+  }
+  const transitions = Object.fromEntries(
+    statuses.map(status => [status, [...new Set(input.transitions[status] ?? [])]])
+  );
+
+  const finalStatuses = input.finalStatuses ?? statuses.filter(status => !transitions[status].length);
+  const undefinedFinal = unknown(finalStatuses);
+  if (undefinedFinal.length) {
+    invalid(`Final statuses are not defined: ${undefinedFinal.join(", ")}`, { statuses: undefinedFinal });
+  }
+
+  const guards = input.guards ?? [];
+  const undefinedGuarded = unknown(guards.map(guard => guard.status));
+  if (undefinedGuarded.length) {
+    invalid(`Guards protect undefined statuses: ${undefinedGuarded.join(", ")}`, { statuses: undefinedGuarded });
+  }
+
+  return {
+    name: input.name,
+    description: input.description,
+    statuses,
+    initialStatus: input.initialStatus,
+    finalStatuses: [...new Set(finalStatuses)],
+    transitions,
+    guards
+  };
+};
+
+// Workflows by ID, or all of them by name when no ID is given
+const getWorkflows = async (runner: QueryRunner, workflowId: string | null = null): Promise<Workflow[]> => {
+  const result = await runner.run(
+    `MATCH (w:Workflow)
+    WHERE $workflowId IS NULL OR w.customId = $workflowId
+    OPTIONAL MATCH (p:Project)-[:USES_WORKFLOW]->(w)
+    WHERE p.trashedAt IS NULL
+    WITH w, count(p) AS projectCount
+    RETURN ${WORKFLOW_PROJECTION} AS workflow
+    ORDER BY w.name`,
+    { workflowId }
+  );
+  return result.records.map(record => toWorkflow(record.get("workflow")));
+};
+
+// Live projects with the workflow each follows; missing ones are left out
+const getProjectWorkflows = async (
+  runner: QueryRunner,
+  projectIds: string[]
+): Promise<Array<{ project: Project; workflow: Workflow | null }>> => {
+  const result = await runner.run(
+    `UNWIND $projectIds AS projectId
+    MATCH (p:Project)
+    WHERE p.customId = projectId AND p.trashedAt IS NULL
+    OPTIONAL MATCH (parent:Project)-[:PARENT_OF]->(p)
+    OPTIONAL MATCH (p)-[:USES_WORKFLOW]->(w:Workflow)
+    // Not counted here; only the definition is needed
+    WITH p, parent, w, 0 AS projectCount
+    RETURN p {
+      .name,
+      .description,
+      .status,
+      .createdAt,
+      .updatedAt,
+      id: p.customId,
+      parentId: parent.customId
+    } AS project,
+    CASE WHEN w IS NULL THEN null ELSE ${WORKFLOW_PROJECTION} END AS workflow`,
+    { projectIds }
+  );
+  return result.records.map(record => {
+    const workflow = record.get("workflow");
+    return { project: record.get("project"), workflow: workflow ? toWorkflow(workflow) : null };
+  });
+};
+
+const invalidStatus = (workflow: Workflow | null, status: string, details: Record<string, unknown> = {}): McpError =>
+  new McpError(
+    ProjectErrorCode.INVALID_STATUS,
+    workflow
+      ? `Status '${status}' is not part of workflow '${workflow.name}'`
+      : `Invalid project status: ${status}`,
+    { ...details, status, workflowId: workflow?.id ?? null, statuses: workflow?.statuses ?? BUILT_IN_STATUSES }
+  );
+
+// Each guard returns the IDs of whatever keeps the project from entering the status
+const GUARDS: Record<WorkflowGuardRule, { message: string; blockers: (runner: QueryRunner, projectId: string) => Promise<string[]> }> = {
+  no_open_tasks: {
+    message: "it has open tasks",
+    blockers: async (runner, projectId) => {
+      const result = await runner.run(
+        `MATCH (t:Task)-[:BELONGS_TO]->(p:Project)
+        WHERE p.customId = $projectId AND NOT t.status IN ['done', 'cancelled']
+        RETURN t.customId AS id
+        ORDER BY id`,
+        { projectId }
+      );
+      return result.records.map(record => record.get("id"));
+    }
+  },
+  no_open_subprojects: {
+    message: "it has sub-projects that are not finished",
+    blockers: async (runner, projectId) => {
+      const result = await runner.run(
+        `MATCH (p:Project)-[:PARENT_OF]->(child:Project)
+        WHERE p.customId = $projectId AND child.trashedAt IS NULL
+        OPTIONAL MATCH (child)-[:USES_WORKFLOW]->(w:Workflow)
+        WITH child, coalesce(w.finalStatuses, $builtInFinalStatuses) AS finalStatuses
+        WHERE NOT child.status IN finalStatuses
+        RETURN child.customId AS id
+        ORDER BY id`,
+        { projectId, builtInFinalStatuses: BUILT_IN_FINAL_STATUSES }
+      );
+      return result.records.map(record => record.get("id"));
+    }
+  }
+};
+
+/**
+ * Checks status changes against each project's workflow: the new status must
+ * be one of its statuses, reachable from the current one, and pass the
+ * workflow's guards for it. Projects without a workflow only need a built-in
+ * status. Runs in the transaction that makes the changes, so the checks see
+ * the state the update is applied to.
+ * @param changes Projects as they are now, with the status each is moving to
+ * @throws {McpError} On the first change that is not allowed
+ */
+export const checkStatusChanges = async (
+  tx: ManagedTransaction,
+  changes: Array<{ project: Project; status: string }>
+): Promise<void | never> => {
+  const pending = changes.filter(({ project, status }) => project.status !== status);
+  if (!pending.length) return;
+
+  const workflows = new Map(
+    (await getProjectWorkflows(tx, pending.map(({ project }) => project.id)))
+      .map(({ project, workflow }) => [project.id, workflow])
+  );
+
+  for (const { project, status } of pending) {
+    const workflow = workflows.get(project.id) ?? null;
+    const statuses = workflow?.statuses ?? BUILT_IN_STATUSES;
+    if (!statuses.includes(status)) {
+      throw invalidStatus(workflow, status, { projectId: project.id });
+    }
+    if (!workflow) continue;
+
+    const allowed = workflow.transitions[project.status] ?? [];
+    if (!allowed.includes(status)) {
+      throw new McpError(
+        WorkflowErrorCode.INVALID_TRANSITION,
+        `Project ${project.id} cannot move from '${project.status}' to '${status}' in workflow '${workflow.name}'`,
+        { projectId: project.id, from: project.status, to: status, workflowId: workflow.id, allowed }
+      );
+    }
+
+    for (const guard of workflow.guards.filter(guard => guard.status === status)) {
+      const blockers = await GUARDS[guard.rule].blockers(tx, project.id);
+      if (blockers.length) {
+        throw new McpError(
+          WorkflowErrorCode.GUARD_FAILED,
+          `Project ${project.id} cannot move to '${status}' while ${GUARDS[guard.rule].message}`,
+          { projectId: project.id, status, rule: guard.rule, blockers }
+        );
+      }
+    }
+  }
+};
+
+/**
+ * Works out the status a new project starts in: the given one, which must be
+ * part of the workflow it will follow, or else the workflow's initial status
+ * @param workflowId Workflow the project will follow, if any
+ * @returns The workflow, and the status to create the project in
+ * @throws {McpError} If the workflow does not exist or does not have the status
+ */
+export const resolveInitialStatus = async (
+  tx: ManagedTransaction,
+  status?: string,
+  workflowId?: string
+): Promise<{ workflow: Workflow | null; status: string } | never> => {
+  let workflow: Workflow | null = null;
+  if (workflowId) {
+    [workflow = null] = await getWorkflows(tx, workflowId);
+    if (!workflow) {
+      throw new McpError(
+        WorkflowErrorCode.WORKFLOW_NOT_FOUND,
+        `Workflow with ID ${workflowId} not found`,
+        { workflowId }
+      );
+    }
+  }
+
+  const initialStatus = status ?? workflow?.initialStatus ?? BUILT_IN_INITIAL_STATUS;
+  if (!(workflow?.statuses ?? BUILT_IN_STATUSES).includes(initialStatus)) {
+    throw invalidStatus(workflow, initialStatus);
+  }
+  return { workflow, status: initialStatus };
+};
+
+/**
+ * Creates a workflow, or replaces the definition of an existing one. A
+ * status cannot be removed while projects following the workflow are in it.
+ * @param workflowId ID of the workflow to replace, if any
+ */
+export const defineWorkflow = async (
+  input: WorkflowInput,
+  workflowId?: string
+): Promise<Workflow | never> => {
+  const definition = normalizeWorkflow(input);
+  try {
+    const { before, after } = await withTransaction(async tx => {
+      const duplicate = await tx.run(
+        `MATCH (w:Workflow)
+        WHERE w.name = $name AND ($workflowId IS NULL OR w.customId <> $workflowId)
+        RETURN w.customId AS id`,
+        { name: definition.name, workflowId: workflowId ?? null }
+      );
+      if (duplicate.records.length) {
+        throw new McpError(
+          WorkflowErrorCode.DUPLICATE_WORKFLOW,
+          `A workflow named '${definition.name}' already exists`,
+          { name: definition.name, workflowId: duplicate.records[0].get("id") }
+        );
+      }
+
+      let before: Workflow | null = null;
+      if (workflowId) {
+        [before = null] = await getWorkflows(tx, workflowId);
+        if (!before) {
+          throw new McpError(
+            WorkflowErrorCode.WORKFLOW_NOT_FOUND,
+            `Workflow with ID ${workflowId} not found`,
+            { workflowId }
+          );
+        }
+
+        // Trashed projects count too, or they could not be restored
+        const stranded = await tx.run(
+          `MATCH (p:Project)-[:USES_WORKFLOW]->(w:Workflow)
+          WHERE w.customId = $workflowId AND NOT p.status IN $statuses
+          RETURN p.customId AS id, p.status AS status`,
+          { workflowId, statuses: definition.statuses }
+        );
+        if (stranded.records.length) {
+          const projects = stranded.records.map(record => ({ id: record.get("id"), status: record.get("status") }));
+          throw new McpError(
+            WorkflowErrorCode.INVALID_WORKFLOW,
+            `Cannot remove statuses that projects are in: ${[...new Set(projects.map(p => p.status))].join(", ")}`,
+            { workflowId, projects }
+          );
+        }
+      }
+
+      const now = new Date().toISOString();
+      const result = await tx.run(
+        `MERGE (w:Workflow {customId: $customId})
+        ON CREATE SET w.createdAt = $now
+        SET w.name = $name,
+            w.description = $description,
+            w.statuses = $statuses,
+            w.initialStatus = $initialStatus,
+            w.finalStatuses = $finalStatuses,
+            w.transitions = $transitions,
+            w.guards = $guards,
+            w.updatedAt = $now
+        WITH w
+        OPTIONAL MATCH (p:Project)-[:USES_WORKFLOW]->(w)
+        WHERE p.trashedAt IS NULL
+        WITH w, count(p) AS projectCount
+        RETURN ${WORKFLOW_PROJECTION} AS workflow`,
+        {
+          ...definition,
+          customId: workflowId ?? generateCustomId('WORKFLOW'),
+          description: definition.description ?? null,
+          transitions: JSON.stringify(definition.transitions),
+          guards: JSON.stringify(definition.guards),
+          now
+        }
+      );
+      const after = toWorkflow(result.records[0].get("workflow"));
+      await recordChange(tx, workflowRecord(before, after));
+      return { before, after };
+    });
+
+    logger.info(before ? "Workflow updated" : "Workflow created", { workflowId: after.id, name: after.name });
+    return after;
+  } catch (error) {
+    if (error instanceof McpError) throw error;
+    throw handleNeo4jError(error, { input, workflowId });
+  }
+};
+
+/**
+ * Lists all workflows by name, with how many live projects follow each
+ */
+export const listWorkflows = async (): Promise<Workflow[] | never> => {
+  const session = getSession();
+  try {
+    return await getWorkflows(session);
+  } catch (error) {
+    throw handleNeo4jError(error, {});
+  } finally {
+    await session.close();
+  }
+};
+
+/**
+ * Makes projects follow a workflow, or go back to the built-in statuses when
+ * `workflowId` is null. A project whose status is not part of the workflow
+ * moves to `status` if given, otherwise to the workflow's initial status;
+ * transitions and guards do not apply to this move.
+ * @param projectIds IDs of live projects
+ */
+export const assignWorkflow = async (
+  projectIds: string[],
+  workflowId: string | null,
+  status?: string
+): Promise<{ assigned: WorkflowAssignment[]; notFoundIds: string[] } | never> => {
+  try {
+    const assigned = await withTransaction(async tx => {
+      let workflow: Workflow | null = null;
+      if (workflowId) {
+        [workflow = null] = await getWorkflows(tx, workflowId);
+        if (!workflow) {
+          throw new McpError(
+            WorkflowErrorCode.WORKFLOW_NOT_FOUND,
+            `Workflow with ID ${workflowId} not found`,
+            { workflowId }
+          );
+        }
+      }
+
+      const statuses = workflow?.statuses ?? BUILT_IN_STATUSES;
+      if (status !== undefined && !statuses.includes(status)) {
+        throw invalidStatus(workflow, status);
+      }
+      const fallbackStatus = status ?? workflow?.initialStatus ?? BUILT_IN_INITIAL_STATUS;
+
+      const projects = await getProjectWorkflows(tx, projectIds);
+      const assigned: WorkflowAssignment[] = projects.map(({ project, workflow: previous }) => ({
+        projectId: project.id,
+        workflowId,
+        previousWorkflowId: previous?.id ?? null,
+        status: statuses.includes(project.status) ? project.status : fallbackStatus,
+        previousStatus: project.status
+      }));
+      const changed = assigned.filter(a => a.workflowId !== a.previousWorkflowId || a.status !== a.previousStatus);
+
+      const result = await tx.run(
+        `UNWIND $assignments AS assignment
+        MATCH (p:Project)
+        WHERE p.customId = assignment.projectId
+        OPTIONAL MATCH (p)-[r:USES_WORKFLOW]->(:Workflow)
+        DELETE r
+        WITH DISTINCT p, assignment
+        OPTIONAL MATCH (w:Workflow)
+        WHERE w.customId = $workflowId
+        FOREACH (x IN CASE WHEN w IS NULL THEN [] ELSE [1] END |
+          CREATE (p)-[:USES_WORKFLOW]->(w)
+        )
+        SET p.status = assignment.status,
+            p.updatedAt = $now
+        WITH p
+        OPTIONAL MATCH (parent:Project)-[:PARENT_OF]->(p)
+        RETURN p {
+          .name,
+          .description,
+          .status,
+          .createdAt,
+          .updatedAt,
+          id: p.customId,
+          parentId: parent.customId
+        } AS project`,
+        {
+          assignments: changed.map(a => ({ projectId: a.projectId, status: a.status })),
+          workflowId,
+          now: new Date().toISOString()
+        }
+      );
+
+      // The workflow is a relationship, so the audit states carry it alongside the project
+      const before = new Map(projects.map(({ project, workflow }) => [project.id, { ...project, workflowId: workflow?.id ?? null }]));
+      const records: ChangeRecord[] = result.records.map(record => {
+        const project: Project = record.get("project");
+        return {
+          entityType: 'project',
+          entityId: project.id,
+          projectIds: [project.id],
+          action: 'update',
+          before: before.get(project.id) ?? null,
+          after: { ...project, workflowId }
+        };
+      });
+
+      await recordChanges(tx, records);
+      return assigned;
+    });
+
+    return {
+      assigned,
+      notFoundIds: projectIds.filter(id => !assigned.some(a => a.projectId === id))
+    };
+  } catch (error) {
+    if (error instanceof McpError) throw error;
+    throw handleNeo4jError(error, { projectIds, workflowId, status });
+  }
+};
@@ -1,6 +1,7 @@
-import { BaseErrorCode, ProjectErrorCode, NoteErrorCode, LinkErrorCode, MemberErrorCode } from "../../types/errors.js";
+import { BaseErrorCode, ProjectErrorCode, NoteErrorCode, LinkErrorCode, MemberErrorCode, TaskErrorCode } from "../../types/errors.js";
 import { BulkOperationError, BulkOperationResult } from "../../utils/bulkOperationManager.js";
 import { EntityType } from "../../utils/idGenerator.js";
+import { AddressName, Chain } from "../blockchainService/types.js";
 
 export type ProjectStatus = 'active' | 'pending' | 'completed' | 'archived';
 
@@ -17,6 +18,7 @@ export interface Project {
   name: string;
   description?: string;
   status: string;
+  parentId?: string | null;  // References the parent Project.customId
   createdAt: string;
   updatedAt: string;
 }
@@ -78,6 +80,176 @@ export interface ProjectMember {
   updatedAt: string;
 }
 
+export type TaskStatus = 'todo' | 'in_progress' | 'blocked' | 'done' | 'cancelled';
+export type TaskPriority = 'low' | 'medium' | 'high' | 'critical';
+
+export interface ProjectTask {
+  id: string;  // Task customId, used for all operations
+  projectId: string;  // References Project.customId
+  title: string;
+  description: string;
+  status: TaskStatus;
+  priority: TaskPriority;
+  assigneeId: string | null;  // References Member.customId
+  dueDate: string | null;
+  parentTaskId: string | null;  // References Task.customId
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type TaskInput = Pick<ProjectTask, "title"> &
+  Partial<Omit<ProjectTask, "id" | "projectId" | "title" | "createdAt" | "updatedAt">>;
+export type TaskUpdates = Partial<Omit<ProjectTask, "id" | "projectId" | "createdAt" | "updatedAt">>;
+
+export interface ListTasksOptions {
+  projectId: string;
+  status?: TaskStatus;
+  priority?: TaskPriority;
+  assigneeId?: string;
+  parentTaskId?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface PaginatedTasks {
+  items: ProjectTask[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+// What happens to the sub-projects of a deleted project: deleted along with it,
+// or moved up to the deleted project's parent (top level if it had none)
+export type ChildProjectAction = 'cascade' | 'reparent';
+
+export interface DeleteProjectOptions {
+  children?: ChildProjectAction;  // Default: 'reparent'
+  trash?: boolean;                // Move to the trash instead of deleting at once (default: false)
+}
+
+// A project in the trash, with everything that was trashed along with it
+export interface TrashedProject {
+  id: string;
+  name: string;
+  description?: string;
+  status: string;
+  parentId: string | null;
+  trashedAt: string;
+  trashedBy: string;          // Actor of the delete, as recorded in the audit log
+  purgeAt: string | null;     // When the purge job deletes it for good (null if purging is disabled)
+  contents: {
+    projects: number;         // Sub-projects trashed with it (children: 'cascade')
+    notes: number;
+    links: number;
+    members: number;
+    tasks: number;
+    whiteboards: number;
+  };
+}
+
+export interface ListTrashOptions {
+  page?: number;
+  limit?: number;
+}
+
+export interface PaginatedTrash {
+  items: TrashedProject[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+export interface RestoreProjectResult {
+  id: string;
+  parentId: string | null;    // null if the old parent is itself in the trash or gone
+  restoredProjects: number;   // Sub-projects restored with it
+}
+
+// A project left in the trash because a project to restore has a live project's name
+export interface RestoreConflict {
+  id: string;                   // Project asked to be restored
+  projectId: string;            // It, or a sub-project trashed with it, whose name is taken
+  name: string;
+  conflictingProjectId: string; // Live project with that name
+}
+
+// Totals over a project and all of its descendants
+export interface ProjectRollup {
+  descendants: number;
+  notes: number;
+  members: number;  // Distinct users across the subtree
+  statuses: Record<string, number>;
+}
+
+export interface ProjectTreeNode {
+  id: string;
+  name: string;
+  description?: string;
+  status: string;
+  parentId: string | null;
+  createdAt: string;
+  updatedAt: string;
+  counts: {
+    notes: number;
+    members: number;
+  };
+  rollup: ProjectRollup;
+  children: ProjectTreeNode[];
+}
+
+// Chain addresses and programs a project keeps an eye on
+export type WatchKind = 'address' | 'program';
+
+export interface ProjectWatch {
+  projectId: string;  // References Project.customId
+  kind: WatchKind;
+  chain: Chain;
+  address: string;  // Account address, or program / Move package address
+  note: string | null;
+  watchedAt: string;
+}
+
+export interface WatchedAddressActivity extends AddressName {
+  chain: Chain;
+  address: string;
+  note: string | null;
+  watchedAt: string;
+  transactionCount: number;
+  recentCount: number;  // Transactions since the summary window start
+  lastSeen: string | null;
+  recent: Array<{
+    signature: string;
+    blockTime: string | null;
+    success: boolean | null;
+  }>;
+}
+
+export interface WatchedProgramActivity {
+  chain: Chain;
+  address: string;
+  note: string | null;
+  watchedAt: string;
+  recentCalls: number;
+  recentCallers: number;
+  lastSeen: string | null;
+}
+
+export interface ProjectOnchainSummary {
+  since: string;  // Start of the window "recent" counts cover
+  addresses: WatchedAddressActivity[];
+  programs: WatchedProgramActivity[];
+  findings: {
+    open: number;  // Open findings involving a watched address
+    latest: Array<{
+      id: string;
+      detector: string;
+      score: number;
+      summary: string;
+      updatedAt: string;
+    }>;
+  };
+}
+
 export interface ListProjectsOptions {
   page?: number;
   limit?: number;
@@ -90,20 +262,66 @@ export interface PaginatedProjects {
   limit: number;
 }
 
+// Checks a project must pass to enter a workflow status
+export type WorkflowGuardRule =
+  | 'no_open_tasks'          // Every task is done or cancelled
+  | 'no_open_subprojects';   // Every sub-project is in a final status of its own workflow
+
+export interface WorkflowGuard {
+  status: string;  // Status the guard protects
+  rule: WorkflowGuardRule;
+}
+
+export interface WorkflowInput {
+  name: string;
+  description?: string;
+  statuses: string[];
+  initialStatus: string;                   // Where a project assigned the workflow starts if its status is not in it
+  finalStatuses?: string[];                // Statuses that count as finished (default: those with no transitions out)
+  transitions: Record<string, string[]>;   // Statuses each status can move to
+  guards?: WorkflowGuard[];
+}
+
+export interface Workflow {
+  id: string;
+  name: string;
+  description?: string;
+  statuses: string[];
+  initialStatus: string;
+  finalStatuses: string[];
+  transitions: Record<string, string[]>;
+  guards: WorkflowGuard[];
+  projectCount: number;  // Live projects following the workflow
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WorkflowAssignment {
+  projectId: string;
+  workflowId: string | null;   // null for the built-in statuses
+  previousWorkflowId: string | null;
+  status: string;
+  previousStatus: string;
+}
+
 // Neo4j specific types
 export interface Neo4jError extends Error {
   code: string;
 }
 
 // Error code type for project operations
-export type ProjectOperationErrorCode = BaseErrorCode | ProjectErrorCode | NoteErrorCode | LinkErrorCode | MemberErrorCode;
+export type ProjectOperationErrorCode = BaseErrorCode | ProjectErrorCode | NoteErrorCode | LinkErrorCode | MemberErrorCode | TaskErrorCode;
 
 // Bulk operation result types
 export type ProjectInput = Omit<Project, "id" | "customId" | "entityType" | "createdAt" | "updatedAt">;
-export type BulkProjectResult = BulkOperationResult<ProjectInput, Project, ProjectOperationErrorCode>;
+// A new project can start out following a workflow, in its initial status by default
+export type NewProjectInput = Omit<ProjectInput, "status"> & { status?: string; workflowId?: string };
+export type BulkProjectResult = BulkOperationResult<NewProjectInput, Project, ProjectOperationErrorCode>;
 export type BulkLinkResult = BulkOperationResult<Omit<ProjectLink, "id" | "customId" | "createdAt" | "updatedAt">, ProjectLink, ProjectOperationErrorCode>;
 export type BulkDependencyResult = BulkOperationResult<Omit<ProjectDependency, "id" | "customId" | "createdAt" | "updatedAt">, ProjectDependency, ProjectOperationErrorCode>;
 export type BulkMemberResult = BulkOperationResult<Omit<ProjectMember, "id" | "customId" | "createdAt" | "updatedAt">, ProjectMember, ProjectOperationErrorCode>;
+export type BulkTaskResult = BulkOperationResult<TaskInput, ProjectTask, ProjectOperationErrorCode>;
+export type BulkTaskUpdateResult = BulkOperationResult<{ taskId: string; updates: TaskUpdates }, ProjectTask, ProjectOperationErrorCode>;
 
 // Re-export bulk operation types
 export { BulkOperationError, BulkOperationResult };
\ No newline at end of file
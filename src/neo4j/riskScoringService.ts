@@ -0,0 +1,73 @@
+import { scheduleJob } from 'node-schedule';
+import { runRiskScoring } from "./blockchainService/riskScoring.js";
+import { SUPPORTED_CHAINS } from "../utils/chainAddress.js";
+import { logger } from "../utils/logger.js";
+
+// Risk scoring service configuration interface
+interface RiskScoringServiceConfig {
+  schedule?: string;       // Cron expression (default: every hour at minute 15)
+  enabled?: boolean;       // Whether the service is enabled (default: true)
+}
+
+/**
+ * Service that scores the addresses of every chain on a schedule, so
+ * address_risk_score reads fresh scores without waiting for a run.
+ */
+export class RiskScoringService {
+  private schedule: string;
+  private enabled: boolean;
+  private job: ReturnType<typeof scheduleJob> | null = null;
+
+  constructor(config: RiskScoringServiceConfig = {}) {
+    this.schedule = config.schedule || '15 * * * *';
+    this.enabled = config.enabled !== undefined ? config.enabled : true;
+  }
+
+  /**
+   * Starts the risk scoring service.
+   */
+  public start(): void {
+    if (!this.enabled) {
+      logger.info('Risk scoring service is disabled');
+      return;
+    }
+
+    this.job = scheduleJob('risk-scoring', this.schedule, async () => {
+      // Chains are scored one after another to keep memory use to one graph
+      for (const chain of SUPPORTED_CHAINS) {
+        try {
+          logger.info('Performing scheduled address risk scoring', { chain });
+          await runRiskScoring(chain);
+        } catch (error) {
+          logger.error('Scheduled address risk scoring failed', { chain, error });
+        }
+      }
+    });
+
+    logger.info('Risk scoring service started', { schedule: this.schedule });
+  }
+
+  /**
+   * Stops the risk scoring service.
+   */
+  public stop(): void {
+    if (this.job) {
+      this.job.cancel();
+      this.job = null;
+      logger.info('Risk scoring service stopped');
+    }
+  }
+}
+
+// Singleton instance of the risk scoring service
+let riskScoringServiceInstance: RiskScoringService | null = null;
+
+/**
+ * Gets the risk scoring service instance, creating it if it doesn't exist.
+ */
+export const getRiskScoringService = (config?: RiskScoringServiceConfig): RiskScoringService => {
+  if (!riskScoringServiceInstance) {
+    riskScoringServiceInstance = new RiskScoringService(config);
+  }
+  return riskScoringServiceInstance;
+};
@@ -0,0 +1,416 @@
+import { getSession } from './driver.js';
+import { McpError, ProjectErrorCode, QueryErrorCode } from '../types/errors.js';
+import { generateCustomId } from '../utils/idGenerator.js';
+import { SUPPORTED_CHAINS } from '../utils/chainAddress.js';
+import { assertReadOnlyQuery, queryParameterNames } from './cypherQueryService.js';
+import { handleNeo4jError } from './projectService/utils.js';
+import { getProjectById } from './projectService/projectCore.js';
+import { toNumberOrNull } from './blockchainService/utils.js';
+import { Paginated } from './blockchainService/types.js';
+
+export type SavedQueryKind = 'cypher' | 'pattern';
+
+export type SavedQueryParameterType =
+  | 'string'
+  | 'integer'
+  | 'number'
+  | 'boolean'
+  | 'datetime'
+  | 'chain'
+  | 'string_list';
+
+// Declared like SkillParameter, with a type that is enforced rather than a hint
+export interface SavedQueryParameter {
+  name: string;
+  description: string;
+  type: SavedQueryParameterType;
+  required?: boolean;
+  default?: unknown;         // Used when an optional parameter is not given
+}
+
+export interface SavedQuery {
+  id: string;
+  name: string;
+  description: string;
+  kind: SavedQueryKind;
+  query: string | null;                      // Cypher text, for 'cypher' queries
+  pattern: Record<string, unknown> | null;   // pattern_detect input template, for 'pattern' queries
+  parameters: SavedQueryParameter[];
+  projectId: string | null;                  // null when shared globally
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+  lastRunAt: string | null;
+  runCount: number;
+}
+
+export interface SaveQueryInput {
+  name: string;
+  description: string;
+  kind: SavedQueryKind;
+  query?: string;
+  pattern?: Record<string, unknown>;
+  parameters?: SavedQueryParameter[];
+  projectId?: string;
+  createdBy?: string;
+}
+
+export interface SavedQueryListOptions {
+  projectId?: string;
+  includeGlobal?: boolean;   // With projectId, also list global queries (default: true)
+  kind?: SavedQueryKind;
+  search?: string;           // Case-insensitive match on name or description
+  page?: number;
+  limit?: number;
+}
+
+export const SAVED_QUERY_PARAMETER_TYPES = [
+  'string',
+  'integer',
+  'number',
+  'boolean',
+  'datetime',
+  'chain',
+  'string_list'
+] as const satisfies readonly SavedQueryParameterType[];
+
+const PARAMETER_NAME = /^[A-Za-z_]\w*$/;
+const ISO_DATETIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+
+const PARAMETER_CHECKS: Record<SavedQueryParameterType, (value: unknown) => boolean> = {
+  string: value => typeof value === 'string',
+  integer: value => Number.isSafeInteger(value),
+  number: value => typeof value === 'number' && Number.isFinite(value),
+  boolean: value => typeof value === 'boolean',
+  datetime: value => typeof value === 'string' && ISO_DATETIME.test(value) && !isNaN(Date.parse(value)),
+  chain: value => (SUPPORTED_CHAINS as readonly unknown[]).includes(value),
+  string_list: value => Array.isArray(value) && value.every(item => typeof item === 'string')
+};
+
+const QUERY_PROJECTION = `q {
+  .name, .description, .kind, .query, .pattern, .parameters, .createdBy,
+  .createdAt, .updatedAt, .lastRunAt, .runCount,
+  id: q.customId
+}`;
+
+// Names are unique within a project, and separately among global queries
+const scopePrefix = (projectId?: string | null) => `${projectId ?? '*'}/`;
+
+const scopedName = (name: string, projectId?: string | null) =>
+  `${scopePrefix(projectId)}${name.toLowerCase()}`;
+
+// Expects `q` and the optional owning project `p` in scope; hides the queries
+// of trashed projects, and any left behind by a deleted one
+const VISIBLE = `(q.scopedName STARTS WITH $globalPrefix OR (p IS NOT NULL AND p.trashedAt IS NULL))`;
+
+const toSavedQuery = (row: Record<string, unknown>): SavedQuery => ({
+  id: row.id as string,
+  name: row.name as string,
+  description: row.description as string,
+  kind: row.kind as SavedQueryKind,
+  query: (row.query as string | null) ?? null,
+  pattern: row.pattern ? JSON.parse(row.pattern as string) : null,
+  parameters: JSON.parse((row.parameters as string | null) ?? '[]'),
+  projectId: (row.projectId as string | null) ?? null,
+  createdBy: (row.createdBy as string | null) ?? null,
+  createdAt: row.createdAt as string,
+  updatedAt: row.updatedAt as string,
+  lastRunAt: (row.lastRunAt as string | null) ?? null,
+  runCount: toNumberOrNull(row.runCount) ?? 0
+});
+
+const invalidParameters = (message: string, errors: string[]) =>
+  new McpError(QueryErrorCode.INVALID_PARAMETERS, `${message}: ${errors.join('; ')}`, { errors });
+
+// Placeholders in a pattern template are string values of the form "$name"
+const collectPlaceholders = (value: unknown, names: Set<string>): Set<string> => {
+  if (typeof value === 'string' && value.startsWith('$')) {
+    names.add(value.slice(1));
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectPlaceholders(item, names));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach(item => collectPlaceholders(item, names));
+  }
+  return names;
+};
+
+/**
+ * Checks parameter declarations, and that the query or template refers only
+ * to declared parameters
+ * @throws {McpError} If a declaration is invalid or a parameter is undeclared
+ */
+const assertValidDeclarations = (input: SaveQueryInput): void => {
+  const parameters = input.parameters ?? [];
+  const errors: string[] = [];
+  const declared = new Set<string>();
+
+  for (const parameter of parameters) {
+    if (!PARAMETER_NAME.test(parameter.name)) {
+      errors.push(`'${parameter.name}' is not a valid parameter name`);
+    }
+    if (declared.has(parameter.name)) {
+      errors.push(`'${parameter.name}' is declared more than once`);
+    }
+    if (parameter.default !== undefined && !PARAMETER_CHECKS[parameter.type](parameter.default)) {
+      errors.push(`default of '${parameter.name}' is not of type ${parameter.type}`);
+    }
+    declared.add(parameter.name);
+  }
+
+  const referenced = input.kind === 'cypher'
+    ? queryParameterNames(input.query ?? '')
+    : [...collectPlaceholders(input.pattern ?? {}, new Set())];
+  for (const name of referenced) {
+    if (!declared.has(name)) errors.push(`'$${name}' is used but not declared`);
+  }
+
+  if (errors.length) throw invalidParameters('Invalid parameter declarations', errors);
+};
+
+/**
+ * Validates arguments against a saved query's declared parameters. Optional
+ * parameters that are not given take their default, or null.
+ * @param parameters Declared parameters
+ * @param args Arguments to validate
+ * @returns A value for every declared parameter
+ * @throws {McpError} If an argument is missing, undeclared or of the wrong type
+ */
+export const resolveSavedQueryArguments = (
+  parameters: SavedQueryParameter[],
+  args: Record<string, unknown> = {}
+): Record<string, unknown> => {
+  const errors: string[] = [];
+  const resolved: Record<string, unknown> = {};
+  const declared = new Set(parameters.map(parameter => parameter.name));
+
+  for (const name of Object.keys(args)) {
+    if (!declared.has(name)) errors.push(`'${name}' is not a parameter of this query`);
+  }
+
+  for (const parameter of parameters) {
+    const value = args[parameter.name];
+    if (value === undefined || value === null) {
+      if (parameter.required) errors.push(`'${parameter.name}' is required`);
+      resolved[parameter.name] = parameter.default ?? null;
+    } else if (!PARAMETER_CHECKS[parameter.type](value)) {
+      errors.push(`'${parameter.name}' must be of type ${parameter.type}`);
+    } else {
+      resolved[parameter.name] = value;
+    }
+  }
+
+  if (errors.length) throw invalidParameters('Invalid query arguments', errors);
+  return resolved;
+};
+
+/**
+ * Fills the placeholders of a pattern template. Placeholders whose argument
+ * is null are left out, so the pattern_detect default applies.
+ * @param template The pattern_detect input template
+ * @param args Resolved arguments
+ * @returns The pattern_detect input
+ */
+export const bindPatternTemplate = (
+  template: Record<string, unknown>,
+  args: Record<string, unknown>
+): Record<string, unknown> => {
+  const bind = (value: unknown): unknown => {
+    if (typeof value === 'string' && value.startsWith('$')) return args[value.slice(1)] ?? undefined;
+    if (Array.isArray(value)) return value.map(bind).filter(item => item !== undefined);
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value)
+          .map(([key, item]) => [key, bind(item)])
+          .filter(([, item]) => item !== undefined)
+      );
+    }
+    return value;
+  };
+  return bind(template) as Record<string, unknown>;
+};
+
+/**
+ * Saves a query under a name, in a project or globally. Saving again under
+ * the same name in the same scope replaces the query and its parameters.
+ * @param input Name, description, Cypher text or pattern template, parameters and scope
+ * @returns The saved query
+ * @throws {McpError} If the project does not exist, the Cypher query could
+ * write, or the parameters are invalid
+ */
+export const saveQuery = async (input: SaveQueryInput): Promise<SavedQuery> => {
+  if (input.projectId && !(await getProjectById(input.projectId))) {
+    throw new McpError(
+      ProjectErrorCode.PROJECT_NOT_FOUND,
+      `Project with ID ${input.projectId} not found`,
+      { projectId: input.projectId }
+    );
+  }
+
+  if (input.kind === 'cypher') assertReadOnlyQuery(input.query ?? '');
+  assertValidDeclarations(input);
+
+  const session = getSession();
+  try {
+    const now = new Date().toISOString();
+    const result = await session.run(
+      `MERGE (q:SavedQuery {scopedName: $scopedName})
+      ON CREATE SET q.customId = $customId, q.createdAt = $now, q.runCount = 0, q.lastRunAt = null
+      SET q.name = $name,
+          q.description = $description,
+          q.kind = $kind,
+          q.query = $query,
+          q.pattern = $pattern,
+          q.parameters = $parameters,
+          q.createdBy = coalesce(q.createdBy, $createdBy),
+          q.updatedAt = $now
+      WITH q
+      OPTIONAL MATCH (p:Project {customId: $projectId})
+      FOREACH (x IN CASE WHEN p IS NOT NULL THEN [1] ELSE [] END |
+        MERGE (p)-[:HAS_SAVED_QUERY]->(q)
+      )
+      RETURN ${QUERY_PROJECTION} AS query, p.customId AS projectId`,
+      {
+        scopedName: scopedName(input.name, input.projectId),
+        customId: generateCustomId('SAVED_QUERY'),
+        name: input.name,
+        description: input.description,
+        kind: input.kind,
+        query: input.kind === 'cypher' ? input.query : null,
+        pattern: input.kind === 'pattern' ? JSON.stringify(input.pattern) : null,
+        parameters: JSON.stringify(input.parameters ?? []),
+        createdBy: input.createdBy ?? null,
+        projectId: input.projectId ?? null,
+        now
+      }
+    );
+
+    const record = result.records[0];
+    return toSavedQuery({ ...record.get("query"), projectId: record.get("projectId") });
+  } catch (error) {
+    throw handleNeo4jError(error, { name: input.name, projectId: input.projectId });
+  } finally {
+    await session.close();
+  }
+};
+
+/**
+ * Lists saved queries by name
+ * @param options Project scope, kind, search text and pagination
+ */
+export const listSavedQueries = async (
+  options: SavedQueryListOptions = {}
+): Promise<Paginated<SavedQuery>> => {
+  const { page = 1, limit = 20 } = options;
+  const match = `MATCH (q:SavedQuery)
+      OPTIONAL MATCH (p:Project)-[:HAS_SAVED_QUERY]->(q)
+      WITH q, p
+      WHERE ${VISIBLE}
+        AND ($projectId IS NULL OR q.scopedName STARTS WITH $projectPrefix
+          OR ($includeGlobal AND q.scopedName STARTS WITH $globalPrefix))
+        AND ($kind IS NULL OR q.kind = $kind)
+        AND ($search IS NULL OR toLower(q.name) CONTAINS $search OR toLower(q.description) CONTAINS $search)`;
+  const params = {
+    projectId: options.projectId ?? null,
+    projectPrefix: scopePrefix(options.projectId),
+    globalPrefix: scopePrefix(),
+    includeGlobal: options.includeGlobal ?? true,
+    kind: options.kind ?? null,
+    search: options.search?.toLowerCase() ?? null
+  };
+
+  const session = getSession();
+  try {
+    const result = await session.run(
+      `${match}
+      RETURN ${QUERY_PROJECTION} AS query, p.customId AS projectId
+      ORDER BY toLower(q.name) ASC, q.customId ASC
+      SKIP toInteger($skip) LIMIT toInteger($limit)`,
+      { ...params, skip: (page - 1) * limit, limit }
+    );
+
+    const countResult = await session.run(`${match} RETURN count(q) AS total`, params);
+
+    return {
+      items: result.records.map(record => toSavedQuery({
+        ...record.get("query"),
+        projectId: record.get("projectId")
+      })),
+      total: toNumberOrNull(countResult.records[0].get("total")) ?? 0,
+      page,
+      limit
+    };
+  } catch (error) {
+    throw handleNeo4jError(error, { options });
+  } finally {
+    await session.close();
+  }
+};
+
+/**
+ * Finds a saved query by ID, or by name. A name is looked up in the project
+ * first and then among global queries.
+ * @param ref The query ID or name
+ * @param projectId Project to look up names in
+ * @returns The saved query
+ * @throws {McpError} If no query matches
+ */
+export const getSavedQuery = async (
+  ref: { id?: string; name?: string },
+  projectId?: string
+): Promise<SavedQuery> => {
+  const session = getSession();
+  try {
+    const result = await session.run(
+      `MATCH (q:SavedQuery)
+      WHERE q.customId = $id OR q.scopedName IN $scopedNames
+      OPTIONAL MATCH (p:Project)-[:HAS_SAVED_QUERY]->(q)
+      WITH q, p
+      WHERE ${VISIBLE}
+      RETURN ${QUERY_PROJECTION} AS query, p.customId AS projectId
+      ORDER BY CASE WHEN q.scopedName STARTS WITH $globalPrefix THEN 1 ELSE 0 END
+      LIMIT 1`,
+      {
+        id: ref.id ?? null,
+        globalPrefix: scopePrefix(),
+        scopedNames: ref.name
+          ? [...(projectId ? [scopedName(ref.name, projectId)] : []), scopedName(ref.name)]
+          : []
+      }
+    );
+
+    if (!result.records.length) {
+      throw new McpError(
+        QueryErrorCode.SAVED_QUERY_NOT_FOUND,
+        `Saved query ${ref.id ?? ref.name} not found`,
+        { ...ref, projectId }
+      );
+    }
+
+    const record = result.records[0];
+    return toSavedQuery({ ...record.get("query"), projectId: record.get("projectId") });
+  } catch (error) {
+    if (error instanceof McpError) throw error;
+    throw handleNeo4jError(error, { ref, projectId });
+  } finally {
+    await session.close();
+  }
+};
+
+/**
+ * Records that a saved query was run
+ * @param id The saved query ID
+ */
+export const recordSavedQueryRun = async (id: string): Promise<void> => {
+  const session = getSession();
+  try {
+    await session.run(
+      `MATCH (q:SavedQuery {customId: $id})
+      SET q.lastRunAt = $now, q.runCount = coalesce(q.runCount, 0) + 1`,
+      { id, now: new Date().toISOString() }
+    );
+  } catch (error) {
+    throw handleNeo4jError(error, { id });
+  } finally {
+    await session.close();
+  }
+};
@@ -0,0 +1,75 @@
+import { scheduleJob } from 'node-schedule';
+import { purgeExpiredTrash } from "./projectService.js";
+import { logger } from "../utils/logger.js";
+
+// Trash purge service configuration interface
+interface TrashPurgeServiceConfig {
+  schedule?: string;       // Cron expression (default: daily at 03:30)
+  retentionDays?: number;  // Days a project stays in the trash (default: 30)
+  enabled?: boolean;       // Whether the service is enabled (default: true)
+}
+
+/**
+ * Service that permanently deletes projects that have been in the trash for
+ * longer than the retention period.
+ */
+export class TrashPurgeService {
+  private schedule: string;
+  private retentionDays: number;
+  private enabled: boolean;
+  private job: ReturnType<typeof scheduleJob> | null = null;
+
+  constructor(config: TrashPurgeServiceConfig = {}) {
+    this.schedule = config.schedule || '30 3 * * *';
+    this.retentionDays = config.retentionDays ?? 30;
+    this.enabled = config.enabled !== undefined ? config.enabled : true;
+  }
+
+  /**
+   * Starts the trash purge service.
+   */
+  public start(): void {
+    if (!this.enabled) {
+      logger.info('Trash purge service is disabled');
+      return;
+    }
+
+    this.job = scheduleJob('trash-purge', this.schedule, async () => {
+      try {
+        logger.info('Performing scheduled trash purge', { retentionDays: this.retentionDays });
+        await purgeExpiredTrash(this.retentionDays);
+      } catch (error) {
+        logger.error('Scheduled trash purge failed', { error });
+      }
+    });
+
+    logger.info('Trash purge service started', {
+      schedule: this.schedule,
+      retentionDays: this.retentionDays
+    });
+  }
+
+  /**
+   * Stops the trash purge service.
+   */
+  public stop(): void {
+    if (this.job) {
+      this.job.cancel();
+      this.job = null;
+      logger.info('Trash purge service stopped');
+    }
+  }
+}
+
+// Singleton instance of the trash purge service
+let trashPurgeServiceInstance: TrashPurgeService | null = null;
+
+/**
+ * Gets the trash purge service instance, creating it if it doesn't exist.
+ */
+export const getTrashPurgeService = (config?: TrashPurgeServiceConfig): TrashPurgeService => {
+  if (!trashPurgeServiceInstance) {
+    trashPurgeServiceInstance = new TrashPurgeService(config);
+  }
+  return trashPurgeServiceInstance;
+};
@@ -2,6 +2,7 @@ import { getSession, withTransaction } from './driver.js';
 import { McpError, BaseErrorCode } from '../types/errors.js';
 import { logger } from '../utils/logger.js';
 import neo4j from 'neo4j-driver';
+import { ChangeRecord, recordChange } from './auditService.js';
 
 export interface Whiteboard {
   id: string;
@@ -23,6 +24,18 @@ export interface WhiteboardVersion {
 
 const generateVersionId = () => `wv_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
+const whiteboardRecord = (action: ChangeRecord['action'], before: Whiteboard | null, after: Whiteboard | null): ChangeRecord => {
+  const whiteboard = (after ?? before)!;
+  return {
+    entityType: 'whiteboard',
+    entityId: whiteboard.id,
+    projectIds: whiteboard.projectId ? [whiteboard.projectId] : [],
+    action,
+    before,
+    after
+  };
+};
+
 export const createWhiteboard = async (
   id: string,
   data: any = {},
@@ -30,61 +43,65 @@ export const createWhiteboard = async (
 ): Promise<Whiteboard> => {
   const session = getSession();
   try {
-    // If projectId is provided, verify project exists
-    if (projectId) {
-      const projectExists = await session.run(
-        `MATCH (p:Project) WHERE p.customId = $projectId RETURN p`,
-        { projectId }
-      );
-      
-      if (!projectExists.records.length) {
-        throw new McpError(
-          BaseErrorCode.NOT_FOUND,
-          `Project with ID '${projectId}' not found`
+    return await session.executeWrite(async tx => {
+      // If projectId is provided, verify project exists
+      if (projectId) {
+        const projectExists = await tx.run(
+          `MATCH (p:Project) WHERE p.customId = $projectId AND p.trashedAt IS NULL RETURN p`,
+          { projectId }
         );
+      
+        if (!projectExists.records.length) {
+          throw new McpError(
+            BaseErrorCode.NOT_FOUND,
+            `Project with ID '${projectId}' not found`
+          );
+        }
       }
-    }
-
-    const result = await session.run(
-      `
-      CREATE (w:Whiteboard:Content {
-        id: $id,
-        data: $data,
-        projectId: $projectId,
-        version: 1,
-        createdAt: datetime(),
-        updatedAt: datetime()
-      })
-      WITH w
-      OPTIONAL MATCH (p:Project) WHERE p.customId = $projectId
-      FOREACH (x IN CASE WHEN p IS NOT NULL THEN [1] ELSE [] END |
-        CREATE (w)-[:BELONGS_TO]->(p)
-      )
-      RETURN w
-      `,
-      { 
-        id, 
-        data: JSON.stringify(data), 
-        projectId
-      }
-    );
 
-    if (!result.records[0]) {
-      throw new McpError(
-        BaseErrorCode.INTERNAL_ERROR,
-        'Failed to create whiteboard'
+      const result = await tx.run(
+        `
+        CREATE (w:Whiteboard:Content {
+          id: $id,
+          data: $data,
+          projectId: $projectId,
+          version: 1,
+          createdAt: datetime(),
+          updatedAt: datetime()
+        })
+        WITH w
+        OPTIONAL MATCH (p:Project) WHERE p.customId = $projectId
+        FOREACH (x IN CASE WHEN p IS NOT NULL THEN [1] ELSE [] END |
+          CREATE (w)-[:BELONGS_TO]->(p)
+        )
+        RETURN w
+        `,
+        { 
+          id, 
+          data: JSON.stringify(data), 
+          projectId
+        }
       );
-    }
 
-    const node = result.records[0].get('w').properties;
-    return {
-      id: node.id,
-      data: JSON.parse(node.data),
-      projectId: node.projectId,
-      version: node.version.toNumber(),
-      createdAt: new Date(node.createdAt).toISOString(),
-      updatedAt: new Date(node.updatedAt).toISOString()
-    };
+      if (!result.records[0]) {
+        throw new McpError(
+          BaseErrorCode.INTERNAL_ERROR,
+          'Failed to create whiteboard'
+        );
+      }
+
+      const node = result.records[0].get('w').properties;
+      const whiteboard = {
+        id: node.id,
+        data: JSON.parse(node.data),
+        projectId: node.projectId,
+        version: node.version.toNumber(),
+        createdAt: new Date(node.createdAt).toISOString(),
+        updatedAt: new Date(node.updatedAt).toISOString()
+      };
+      await recordChange(tx, whiteboardRecord('create', null, whiteboard));
+      return whiteboard;
+    });
   } catch (error) {
     if (error instanceof McpError) throw error;
     
@@ -116,6 +133,7 @@ export const updateWhiteboard = async (
       const existingResult = await tx.run(
         `
         MATCH (w:Whiteboard {id: $id})
+        WHERE w.trashedAt IS NULL
         RETURN w
         `,
         { id }
@@ -165,7 +183,15 @@ export const updateWhiteboard = async (
       const updatedNode = result.records[0].get('w').properties;
       logger.info(`Updated whiteboard ${id} from version ${currentVersion} to ${updatedNode.version.toNumber()}`);
 
-      return {
+      const before: Whiteboard = {
+        id: existingNode.id,
+        data: existingData,
+        projectId: existingNode.projectId,
+        version: currentVersion,
+        createdAt: new Date(existingNode.createdAt).toISOString(),
+        updatedAt: new Date(existingNode.updatedAt).toISOString()
+      };
+      const updated: Whiteboard = {
         id: updatedNode.id,
         data: JSON.parse(updatedNode.data),
         projectId: updatedNode.projectId,
@@ -173,6 +199,8 @@ export const updateWhiteboard = async (
         createdAt: new Date(updatedNode.createdAt).toISOString(),
         updatedAt: new Date(updatedNode.updatedAt).toISOString()
       };
+      await recordChange(tx, whiteboardRecord('update', before, updated));
+      return updated;
     });
   } catch (error) {
     if (error instanceof McpError) throw error;
@@ -190,6 +218,7 @@ export const getWhiteboard = async (
     const currentVersionResult = await session.run(
       `
       MATCH (w:Whiteboard {id: $id})
+      WHERE w.trashedAt IS NULL
       RETURN w.version as currentVersion
       `,
       { id }
@@ -267,25 +296,42 @@ export const getWhiteboard = async (
 export const deleteWhiteboard = async (id: string): Promise<void> => {
   const session = getSession();
   try {
-    const result = await session.run(
-      `
-      MATCH (w:Whiteboard {id: $id})
-      WITH w, exists((w)-[:HAS_VERSION]->()) as hasVersions
-      OPTIONAL MATCH (w)-[:HAS_VERSION]->(v:WhiteboardVersion)
-      DETACH DELETE w, v
-      RETURN hasVersions
-      `,
-      { id }
-    );
-
-    if (!result.records[0]) {
-      throw new McpError(
-        BaseErrorCode.NOT_FOUND,
-        `Whiteboard '${id}' not found`
+    return await session.executeWrite(async tx => {
+      const result = await tx.run(
+        `
+        MATCH (w:Whiteboard {id: $id})
+        WHERE w.trashedAt IS NULL
+        WITH w, exists((w)-[:HAS_VERSION]->()) as hasVersions, w {
+          .id, .data, .projectId, .version,
+          createdAt: toString(w.createdAt),
+          updatedAt: toString(w.updatedAt)
+        } as whiteboard
+        OPTIONAL MATCH (w)-[:HAS_VERSION]->(v:WhiteboardVersion)
+        DETACH DELETE w, v
+        RETURN DISTINCT hasVersions, whiteboard
+        `,
+        { id }
       );
-    }
 
-    logger.info(`Deleted whiteboard ${id} and all its versions`);
+      if (!result.records[0]) {
+        throw new McpError(
+          BaseErrorCode.NOT_FOUND,
+          `Whiteboard '${id}' not found`
+        );
+      }
+
+      logger.info(`Deleted whiteboard ${id} and all its versions`);
+
+      const node = result.records[0].get('whiteboard');
+      await recordChange(tx, whiteboardRecord('delete', {
+        id: node.id,
+        data: JSON.parse(node.data),
+        projectId: node.projectId,
+        version: node.version.toNumber(),
+        createdAt: new Date(node.createdAt).toISOString(),
+        updatedAt: new Date(node.updatedAt).toISOString()
+      }, null));
+    });
   } catch (error) {
     if (error instanceof McpError) throw error;
     throw new McpError(
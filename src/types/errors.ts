@@ -16,7 +16,8 @@ export enum ProjectErrorCode {
   INVALID_STATUS = 'INVALID_STATUS',
   PROJECT_NOT_FOUND = 'PROJECT_NOT_FOUND',
   DEPENDENCY_CYCLE = 'DEPENDENCY_CYCLE',
-  INVALID_DEPENDENCY = 'INVALID_DEPENDENCY'
+  INVALID_DEPENDENCY = 'INVALID_DEPENDENCY',
+  INVALID_PARENT = 'INVALID_PARENT'
 }
 
 // Note-specific error codes
@@ -39,6 +40,22 @@ export enum MemberErrorCode {
   DUPLICATE_MEMBER = 'DUPLICATE_MEMBER'
 }
 
+// Task-specific error codes
+export enum TaskErrorCode {
+  TASK_NOT_FOUND = 'TASK_NOT_FOUND',
+  INVALID_ASSIGNEE = 'INVALID_ASSIGNEE',
+  INVALID_PARENT_TASK = 'INVALID_PARENT_TASK'
+}
+
+// Workflow-specific error codes
+export enum WorkflowErrorCode {
+  WORKFLOW_NOT_FOUND = 'WORKFLOW_NOT_FOUND',
+  DUPLICATE_WORKFLOW = 'DUPLICATE_WORKFLOW',
+  INVALID_WORKFLOW = 'INVALID_WORKFLOW',
+  INVALID_TRANSITION = 'INVALID_TRANSITION',
+  GUARD_FAILED = 'GUARD_FAILED'
+}
+
 // Skill-specific error codes
 export enum SkillErrorCode {
   SKILL_NOT_FOUND = 'SKILL_NOT_FOUND',
@@ -56,10 +73,36 @@ export enum DatabaseExportImportErrorCode {
   INVALID_EXPORT_FORMAT = 'INVALID_EXPORT_FORMAT',
 }
 
+// Blockchain ingestion and analytics error codes
+export enum ChainErrorCode {
+  RPC_ERROR = 'RPC_ERROR',
+  INVALID_TRANSACTION = 'INVALID_TRANSACTION',
+  TRANSACTION_NOT_FOUND = 'TRANSACTION_NOT_FOUND',
+  SOURCE_NOT_FOUND = 'SOURCE_NOT_FOUND',
+  INVALID_ADDRESS = 'INVALID_ADDRESS',
+  ADDRESS_NOT_FOUND = 'ADDRESS_NOT_FOUND',
+  PROGRAM_NOT_FOUND = 'PROGRAM_NOT_FOUND',
+  JOB_NOT_FOUND = 'JOB_NOT_FOUND',
+  INVALID_JOB_STATE = 'INVALID_JOB_STATE',
+  ENTITY_NOT_FOUND = 'ENTITY_NOT_FOUND',
+  TOKEN_NOT_FOUND = 'TOKEN_NOT_FOUND',
+  INVALID_IDL = 'INVALID_IDL',
+  INVALID_MOVE_TYPE = 'INVALID_MOVE_TYPE'
+}
+
+// Custom Cypher query error codes
+export enum QueryErrorCode {
+  QUERY_REJECTED = 'QUERY_REJECTED',
+  QUERY_TIMEOUT = 'QUERY_TIMEOUT',
+  QUERY_FAILED = 'QUERY_FAILED',
+  SAVED_QUERY_NOT_FOUND = 'SAVED_QUERY_NOT_FOUND',
+  INVALID_PARAMETERS = 'INVALID_PARAMETERS'
+}
+
 // Base MCP error class
 export class McpError extends Error {
   constructor(
-    public code: BaseErrorCode | ProjectErrorCode | NoteErrorCode | LinkErrorCode | MemberErrorCode | SkillErrorCode | DatabaseExportImportErrorCode,
+    public code: BaseErrorCode | ProjectErrorCode | NoteErrorCode | LinkErrorCode | MemberErrorCode | TaskErrorCode | WorkflowErrorCode | SkillErrorCode | DatabaseExportImportErrorCode | ChainErrorCode | QueryErrorCode,
     message: string,
     public details?: Record<string, unknown>
   ) {
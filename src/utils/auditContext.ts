@@ -0,0 +1,22 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+// Who is behind the writes made while a tool runs
+export interface AuditContext {
+  actor: string;            // ToolContext.user.id, or 'anonymous'
+  tool: string | null;      // null for writes made outside a tool call
+  requestId: string | null;
+}
+
+const SYSTEM_CONTEXT: AuditContext = { actor: 'system', tool: null, requestId: null };
+
+const storage = new AsyncLocalStorage<AuditContext>();
+
+/**
+ * Runs an operation with an audit context, so the change events recorded by
+ * everything it calls are attributed to it
+ */
+export const runWithAuditContext = <T>(context: AuditContext, operation: () => Promise<T>): Promise<T> =>
+  storage.run(context, operation);
+
+// Writes made outside a tool call (startup, CLI, background jobs) are made by 'system'
+export const getAuditContext = (): AuditContext => storage.getStore() ?? SYSTEM_CONTEXT;
@@ -0,0 +1,117 @@
+import { McpError, ChainErrorCode } from '../types/errors.js';
+
+/**
+ * Supported chains and their address formats
+ */
+export const SUPPORTED_CHAINS = ['solana', 'sui'] as const;
+
+export type SupportedChain = typeof SUPPORTED_CHAINS[number];
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const BASE58_MAP = new Map([...BASE58_ALPHABET].map((char, i) => [char, i]));
+
+/**
+ * Decodes a base58 string into bytes
+ * @param value The base58 string
+ * @returns The decoded bytes, or null if the string contains invalid characters
+ */
+export const decodeBase58 = (value: string): Uint8Array | null => {
+  const bytes: number[] = [];
+  for (const char of value) {
+    let carry = BASE58_MAP.get(char);
+    if (carry === undefined) return null;
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+  // Leading '1' characters encode leading zero bytes
+  for (const char of value) {
+    if (char !== '1') break;
+    bytes.push(0);
+  }
+  return Uint8Array.from(bytes.reverse());
+};
+
+/**
+ * Encodes bytes as a base58 string
+ * @param bytes The bytes to encode
+ * @returns The base58 string
+ */
+export const encodeBase58 = (bytes: Uint8Array): string => {
+  const digits: number[] = [];
+  for (const byte of bytes) {
+    let carry = byte;
+    for (let i = 0; i < digits.length; i++) {
+      carry += digits[i] << 8;
+      digits[i] = carry % 58;
+      carry = Math.floor(carry / 58);
+    }
+    while (carry > 0) {
+      digits.push(carry % 58);
+      carry = Math.floor(carry / 58);
+    }
+  }
+  // Leading zero bytes encode as leading '1' characters
+  let zeros = '';
+  for (const byte of bytes) {
+    if (byte !== 0) break;
+    zeros += '1';
+  }
+  return zeros + digits.reverse().map(digit => BASE58_ALPHABET[digit]).join('');
+};
+
+/**
+ * Checks if a string is a base58-encoded 32-byte Solana address
+ */
+export const isValidSolanaAddress = (address: string): boolean => {
+  if (address.length < 32 || address.length > 44) return false;
+  const bytes = decodeBase58(address);
+  return bytes !== null && bytes.length === 32;
+};
+
+/**
+ * Checks if a string is a 0x-prefixed 32-byte hex Sui address
+ */
+export const isValidSuiAddress = (address: string): boolean =>
+  /^0x[0-9a-f]{64}$/.test(address);
+
+/**
+ * Normalizes an address into its canonical form for a chain.
+ * Sui addresses are lower-cased and left-padded to 32 bytes, so "0x2"
+ * and "0x000...002" resolve to the same node.
+ * @param chain The chain the address belongs to
+ * @param address The address as received
+ * @returns The canonical address
+ * @throws {McpError} If the address is not valid for the chain
+ */
+export const normalizeChainAddress = (chain: SupportedChain, address: string): string => {
+  const trimmed = address.trim();
+
+  if (chain === 'sui') {
+    const match = /^0x([0-9a-fA-F]{1,64})$/.exec(trimmed);
+    const normalized = match ? `0x${match[1].toLowerCase().padStart(64, '0')}` : trimmed;
+    if (!isValidSuiAddress(normalized)) {
+      throw new McpError(
+        ChainErrorCode.INVALID_ADDRESS,
+        `Invalid Sui address: ${address}. Expected 0x-prefixed 32-byte hex`,
+        { chain, address }
+      );
+    }
+    return normalized;
+  }
+
+  if (!isValidSolanaAddress(trimmed)) {
+    throw new McpError(
+      ChainErrorCode.INVALID_ADDRESS,
+      `Invalid Solana address: ${address}. Expected base58-encoded 32 bytes`,
+      { chain, address }
+    );
+  }
+  return trimmed;
+};
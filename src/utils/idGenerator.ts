@@ -10,8 +10,24 @@ export const EntityPrefix = {
   LINK: 'LINK',
   DEPENDENCY: 'DEP',
   MEMBER: 'MEMBER',
+  TASK: 'TASK',
+  WORKFLOW: 'WF',
   WHITEBOARD: 'WB',
-  WHITEBOARD_VERSION: 'WBV'
+  WHITEBOARD_VERSION: 'WBV',
+  CHANGE_EVENT: 'CHG',
+  // Chain entities without a natural single-field key
+  MOVE_CALL: 'MCALL',
+  OBJECT_VERSION: 'OBJV',
+  EVENT: 'EVT',
+  // Analytics
+  FINDING: 'FIND',
+  ENTITY: 'ENT',
+  ALERT_RULE: 'ARULE',
+  ALERT: 'ALERT',
+  SAVED_QUERY: 'QUERY',
+  RISK_RUN: 'RISK',
+  // Background work
+  INGEST_JOB: 'IJOB'
 } as const;
 
 export type EntityType = keyof typeof EntityPrefix;
@@ -1,5 +1,6 @@
 import { McpError, BaseErrorCode } from '../types/errors.js';
 import { logger } from './logger.js';
+import { runWithAuditContext } from './auditContext.js';
 
 // Rate limiting implementation
 interface RateLimitConfig {
@@ -180,7 +181,15 @@ export const createToolMiddleware = (toolName: string) => {
         input
       });
 
-      const result = await handler(input, contextWithRequest);
+      // Writes made by the handler are attributed to this user, tool and request
+      const result = await runWithAuditContext(
+        {
+          actor: context.user?.id || 'anonymous',
+          tool: toolName,
+          requestId: requestContext.requestId
+        },
+        () => handler(input, contextWithRequest)
+      );
 
       logger.info(`Tool execution completed: ${toolName}`, {
         requestId: requestContext.requestId,
@@ -0,0 +1,101 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { pickCounterpart } from "../../src/neo4j/blockchainService/bridgeTracing.js";
+import { BridgeEvent } from "../../src/neo4j/blockchainService/types.js";
+
+const WINDOW_MS = 30 * 60 * 1000;
+const SENT_AT = Date.parse("2025-03-01T09:00:00.000Z");
+
+const at = (minutes: number) => new Date(SENT_AT + minutes * 60 * 1000).toISOString();
+
+const outbound = (values: Partial<BridgeEvent> = {}): BridgeEvent => ({
+  id: "wormhole:sol1:0",
+  bridge: "wormhole",
+  chain: "solana",
+  signature: "sol1",
+  position: "0",
+  direction: "outbound",
+  action: "lock",
+  address: "Sender111",
+  mint: "USDC",
+  amount: "1000000000",
+  decimals: 6,
+  normalizedAmount: "100000000",
+  fee: null,
+  blockTime: at(0),
+  targetChain: "sui",
+  recipient: null,
+  receivers: [],
+  ...values
+});
+
+let sequence = 0;
+const inbound = (minutes: number, values: Partial<BridgeEvent> = {}): BridgeEvent => {
+  sequence++;
+  return {
+    ...outbound(),
+    id: `wormhole:sui${sequence}:0`,
+    chain: "sui",
+    signature: `sui${sequence}`,
+    direction: "inbound",
+    action: "mint",
+    address: `0xrecipient${sequence}`,
+    decimals: 8,
+    amount: "10000000000",
+    blockTime: at(minutes),
+    targetChain: null,
+    ...values
+  };
+};
+
+describe("pickCounterpart", () => {
+  it("matches a single candidate with equal transit amounts at medium confidence", () => {
+    const arrival = inbound(5);
+    assert.deepEqual(pickCounterpart(outbound(), [arrival], WINDOW_MS), {
+      event: arrival,
+      confidence: "medium",
+      matchedOn: ["amount", "time"]
+    });
+  });
+
+  it("accepts the amount less the relayer fee and nothing else", () => {
+    const sent = outbound({ fee: "250" });
+    assert.ok(pickCounterpart(sent, [inbound(5, { normalizedAmount: "99999750" })], WINDOW_MS));
+    assert.equal(pickCounterpart(sent, [inbound(5, { normalizedAmount: "99999751" })], WINDOW_MS), null);
+    assert.equal(pickCounterpart(outbound(), [inbound(5, { normalizedAmount: "99999750" })], WINDOW_MS), null);
+    assert.equal(pickCounterpart(outbound(), [inbound(5, { normalizedAmount: null })], WINDOW_MS), null);
+  });
+
+  it("only looks forward from a departure and back from an arrival, up to the window", () => {
+    const sent = outbound();
+    assert.ok(pickCounterpart(sent, [inbound(30)], WINDOW_MS));
+    assert.equal(pickCounterpart(sent, [inbound(31)], WINDOW_MS), null);
+    assert.equal(pickCounterpart(sent, [inbound(-1)], WINDOW_MS), null);
+
+    const arrival = inbound(10);
+    assert.equal(pickCounterpart(arrival, [sent], WINDOW_MS)?.event, sent);
+    assert.equal(pickCounterpart(arrival, [outbound({ blockTime: at(11) })], WINDOW_MS), null);
+    assert.equal(pickCounterpart(arrival, [outbound({ blockTime: at(-21) })], WINDOW_MS), null);
+  });
+
+  it("takes the nearest of several candidates at low confidence", () => {
+    const near = inbound(3);
+    const match = pickCounterpart(outbound(), [inbound(20), near, inbound(8)], WINDOW_MS);
+
+    assert.equal(match?.event, near);
+    assert.equal(match?.confidence, "low");
+  });
+
+  it("requires the payload recipient among the receivers when there is one", () => {
+    const sent = outbound({ recipient: "0xwanted" });
+    const wanted = inbound(25, { receivers: ["0xother", "0xwanted"] });
+    const match = pickCounterpart(sent, [inbound(1, { receivers: ["0xother"] }), wanted], WINDOW_MS);
+
+    assert.deepEqual(match, { event: wanted, confidence: "high", matchedOn: ["amount", "time", "recipient"] });
+    assert.equal(pickCounterpart(sent, [inbound(1, { receivers: ["0xother"] })], WINDOW_MS), null);
+  });
+
+  it("returns null without candidates", () => {
+    assert.equal(pickCounterpart(outbound(), [], WINDOW_MS), null);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { assertReadOnlyQuery, queryParameterNames } from "../../src/neo4j/cypherQueryService.js";
+import { McpError, QueryErrorCode } from "../../src/types/errors.js";
+
+const rejected = (query: string, details?: Record<string, unknown>) =>
+  assert.throws(
+    () => assertReadOnlyQuery(query),
+    (error: unknown) => {
+      assert.ok(error instanceof McpError);
+      assert.equal(error.code, QueryErrorCode.QUERY_REJECTED);
+      for (const [key, value] of Object.entries(details ?? {})) {
+        assert.equal(error.details?.[key], value);
+      }
+      return true;
+    }
+  );
+
+describe("assertReadOnlyQuery", () => {
+  it("accepts read queries", () => {
+    assert.doesNotThrow(() => assertReadOnlyQuery("MATCH (p:Project) WHERE p.status = $status RETURN p LIMIT 10"));
+    assert.doesNotThrow(() => assertReadOnlyQuery("MATCH (n) RETURN count(n);"));
+    assert.doesNotThrow(() => assertReadOnlyQuery(
+      "MATCH (p:Project) CALL { WITH p MATCH (p)-[:HAS_TASK]->(t) RETURN count(t) AS tasks } RETURN p.name, tasks"
+    ));
+  });
+
+  it("rejects writes and administration clauses", () => {
+    rejected("CREATE (n:Project {name: 'x'})", { clause: "CREATE" });
+    rejected("MATCH (n) DETACH DELETE n", { clause: "DELETE" });
+    rejected("MATCH (p:Project) SET p.status = 'done'", { clause: "SET" });
+    rejected("MATCH (p) foreach (x IN [1] | remove p.name)", { clause: "REMOVE" });
+    rejected("LOAD   CSV FROM 'file:///x.csv' AS row RETURN row", { clause: "LOAD CSV" });
+    rejected("USE system SHOW USERS", { clause: "USE" });
+    rejected("  EXPLAIN use neo4j MATCH (n) RETURN n", { clause: "USE" });
+    rejected("MATCH (n) RETURN n UNION USE other MATCH (n) RETURN n", { clause: "USE" });
+    rejected("MATCH (n) CALL { USE other MATCH (m) RETURN m } RETURN n, m", { clause: "USE" });
+  });
+
+  it("ignores keywords in strings, comments, property keys and labels", () => {
+    assert.doesNotThrow(() => assertReadOnlyQuery("MATCH (n) WHERE n.name = 'DELETE me; CREATE' RETURN n"));
+    assert.doesNotThrow(() => assertReadOnlyQuery("MATCH (n) // SET n.x = 1\nRETURN n /* MERGE */"));
+    assert.doesNotThrow(() => assertReadOnlyQuery("MATCH (n:Create) RETURN n.set, n.`delete`, $remove"));
+    assert.doesNotThrow(() => assertReadOnlyQuery("MATCH (settings) RETURN settings.created"));
+    assert.doesNotThrow(() => assertReadOnlyQuery("MATCH (n) RETURN n.use AS use"));
+    assert.doesNotThrow(() => assertReadOnlyQuery("MATCH (use:Tool) WITH use ORDER BY use.name RETURN use"));
+  });
+
+  it("rejects several statements", () => {
+    rejected("MATCH (n) RETURN n; MATCH (m) RETURN m");
+  });
+
+  it("only allows listed procedures", () => {
+    assert.doesNotThrow(() => assertReadOnlyQuery("CALL db.labels() YIELD label RETURN label"));
+    assert.doesNotThrow(() => assertReadOnlyQuery("CALL DB.Schema.Visualization()"));
+    rejected("CALL dbms.killQuery('query-1')", { procedure: "dbms.killQuery" });
+    rejected("CALL apoc.periodic.iterate('MATCH (n) RETURN n', 'DELETE n', {})");
+  });
+
+  it("checks procedure names hidden in backticks", () => {
+    rejected("CALL `apoc.load.json`('http://169.254.169.254/') YIELD value RETURN value", { procedure: "apoc.load.json" });
+    rejected("CALL `dbms`.`killQueries`(['q'])", { procedure: "dbms.killQueries" });
+    rejected("CALL/* x */apoc . `load`.json('file:///etc/passwd')", { procedure: "apoc.load.json" });
+    assert.doesNotThrow(() => assertReadOnlyQuery("CALL `db`.`labels`() YIELD label RETURN label"));
+  });
+});
+
+describe("queryParameterNames", () => {
+  it("lists parameters once in order of first use, skipping those in strings", () => {
+    assert.deepEqual(
+      queryParameterNames("MATCH (p) WHERE p.id = $id AND p.note <> '$ignored' RETURN p LIMIT $limit // $id"),
+      ["id", "limit"]
+    );
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { compileIdl, decodeWithIdl } from "../../src/neo4j/blockchainService/idlDecoder.js";
+import {
+  BUILTIN_IDLS,
+  SYSTEM_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID
+} from "../../src/neo4j/blockchainService/builtinIdls.js";
+import { Idl } from "../../src/neo4j/blockchainService/types.js";
+import { decodeBase58 } from "../../src/utils/chainAddress.js";
+
+const system = compileIdl(BUILTIN_IDLS[SYSTEM_PROGRAM_ID], "system");
+const token = compileIdl(BUILTIN_IDLS[TOKEN_PROGRAM_ID], "spl_token");
+const token2022 = compileIdl(BUILTIN_IDLS[TOKEN_2022_PROGRAM_ID], "spl_token_2022");
+
+const u64 = (value: bigint) => {
+  const bytes = Buffer.alloc(8);
+  bytes.writeBigUInt64LE(value);
+  return [...bytes];
+};
+const pubkey = (address: string) => [...(decodeBase58(address) as Uint8Array)];
+const data = (...parts: number[][]) => Uint8Array.from(parts.flat());
+
+describe("built-in System program layout", () => {
+  it("decodes a transfer", () => {
+    assert.deepEqual(decodeWithIdl(system, data([2, 0, 0, 0], u64(BigInt(1_000_000_000)))), {
+      decoder: "system",
+      name: "transfer",
+      args: { lamports: "1000000000" }
+    });
+  });
+
+  it("decodes bincode seeds with u64 lengths", () => {
+    const decoded = decodeWithIdl(system, data(
+      [3, 0, 0, 0],
+      pubkey(TOKEN_PROGRAM_ID),
+      u64(BigInt(3)), [...Buffer.from("abc")],
+      u64(BigInt(2039280)),
+      u64(BigInt(165)),
+      pubkey(SYSTEM_PROGRAM_ID)
+    ));
+
+    assert.deepEqual(decoded?.args, {
+      base: TOKEN_PROGRAM_ID,
+      seed: "abc",
+      lamports: "2039280",
+      space: "165",
+      owner: SYSTEM_PROGRAM_ID
+    });
+  });
+
+  it("returns null for an unknown tag", () => {
+    assert.equal(decodeWithIdl(system, data([99, 0, 0, 0])), null);
+    assert.equal(decodeWithIdl(system, data([2, 0])), null);
+  });
+
+  it("keeps the name but drops arguments when the data is truncated", () => {
+    assert.deepEqual(decodeWithIdl(system, data([2, 0, 0, 0], [0, 202, 154, 59])), {
+      decoder: "system",
+      name: "transfer",
+      args: null
+    });
+  });
+});
+
+describe("built-in SPL Token layouts", () => {
+  it("decodes transfer_checked", () => {
+    assert.deepEqual(decodeWithIdl(token, data([12], u64(BigInt(1_000_000)), [6]))?.args, {
+      amount: "1000000",
+      decimals: 6
+    });
+  });
+
+  it("decodes set_authority with and without a new authority", () => {
+    assert.deepEqual(decodeWithIdl(token, data([6, 2, 1], pubkey(TOKEN_2022_PROGRAM_ID)))?.args, {
+      authority_type: "AccountOwner",
+      new_authority: TOKEN_2022_PROGRAM_ID
+    });
+    assert.deepEqual(decodeWithIdl(token, data([6, 0, 0]))?.args, {
+      authority_type: "MintTokens",
+      new_authority: null
+    });
+  });
+
+  it("rejects an authority type outside the enum", () => {
+    assert.equal(decodeWithIdl(token, data([6, 99, 0]))?.args, null);
+  });
+
+  it("returns null for an unknown instruction", () => {
+    assert.equal(decodeWithIdl(token, data([200])), null);
+    assert.equal(decodeWithIdl(token, data([])), null);
+  });
+
+  it("prefers a Token-2022 sub-instruction over its extension group", () => {
+    assert.deepEqual(decodeWithIdl(token2022, data([26, 1], u64(BigInt(500)), [9], u64(BigInt(5)))), {
+      decoder: "spl_token_2022",
+      name: "transfer_checked_with_fee",
+      args: { amount: "500", decimals: 9, fee: "5" }
+    });
+    assert.equal(decodeWithIdl(token2022, data([26, 9]))?.name, "transfer_fee_extension");
+  });
+});
+
+describe("compileIdl", () => {
+  // Pre-0.30 layout: camelCase names and no discriminators
+  const legacy: Idl = {
+    version: "0.1.0",
+    instructions: [{
+      name: "depositFunds",
+      accounts: [],
+      args: [
+        { name: "amount", type: "u128" },
+        { name: "offset", type: "i64" },
+        { name: "memo", type: { option: "string" } },
+        { name: "legs", type: { vec: { defined: "Leg" } } }
+      ]
+    }],
+    types: [{
+      name: "Leg",
+      type: { kind: "struct", fields: [{ name: "side", type: { defined: "Side" } }, { name: "weight", type: "u16" }] }
+    }, {
+      name: "Side",
+      type: { kind: "enum", variants: [{ name: "Buy" }, { name: "Sell", fields: ["u8"] }] }
+    }]
+  } as unknown as Idl;
+
+  it("derives Anchor discriminators from snake_case names and falls back to the given name", () => {
+    const compiled = compileIdl(legacy, "vault");
+
+    assert.equal(compiled.name, "vault");
+    assert.deepEqual([...compiled.instructions[0].discriminator], [202, 39, 52, 211, 53, 20, 250, 88]);
+  });
+
+  it("decodes nested and signed arguments", () => {
+    const amount = Buffer.alloc(16);
+    amount.writeBigUInt64LE(BigInt(1), 8); // 2^64
+    const offset = Buffer.alloc(8);
+    offset.writeBigInt64LE(BigInt(-42));
+
+    const decoded = decodeWithIdl(compileIdl(legacy, "vault"), data(
+      [202, 39, 52, 211, 53, 20, 250, 88],
+      [...amount],
+      [...offset],
+      [1, 2, 0, 0, 0], [...Buffer.from("hi")],
+      [2, 0, 0, 0],
+      [0, 10, 0],
+      [1, 7, 20, 0]
+    ));
+
+    assert.deepEqual(decoded?.args, {
+      amount: "18446744073709551616",
+      offset: "-42",
+      memo: "hi",
+      legs: [{ side: "Buy", weight: 10 }, { side: { Sell: [7] }, weight: 20 }]
+    });
+  });
+
+  it("rejects malformed IDLs", () => {
+    assert.throws(() => compileIdl({} as Idl, "x"), /instructions array/);
+    assert.throws(
+      () => compileIdl({ instructions: [{ name: "bad", discriminator: [256], args: [] }] } as unknown as Idl, "x"),
+      /non-empty byte array/
+    );
+    assert.throws(() => compileIdl({ instructions: [{}] } as unknown as Idl, "x"), /has no name/);
+  });
+});
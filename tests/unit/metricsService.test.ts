@@ -0,0 +1,117 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { percentile, summarizeBuckets, windowBuckets } from "../../src/neo4j/blockchainService/metricsService.js";
+import { MetricBucket } from "../../src/neo4j/blockchainService/types.js";
+
+const bucket = (start: string, values: Partial<MetricBucket> = {}): MetricBucket => ({
+  id: `solana:ingested:${start}`,
+  chain: "solana",
+  source: "ingested",
+  start,
+  durationSecs: 60,
+  txCount: 60,
+  failedCount: null,
+  feeTotal: null,
+  computeUnits: null,
+  firstPosition: null,
+  lastPosition: null,
+  ...values
+});
+
+describe("percentile", () => {
+  const ten = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+  it("is 0 for no samples", () => {
+    assert.equal(percentile([], 50), 0);
+  });
+
+  it("is the sample itself for one sample", () => {
+    for (const p of [0, 50, 99, 100]) assert.equal(percentile([7], p), 7);
+  });
+
+  it("takes the nearest rank, so exact boundaries pick the lower value", () => {
+    assert.equal(percentile(ten, 50), 5);
+    assert.equal(percentile(ten, 90), 9);
+    assert.equal(percentile(ten, 91), 10);
+    assert.equal(percentile(ten, 99), 10);
+  });
+
+  it("clamps to the ends of the list", () => {
+    assert.equal(percentile(ten, 0), 1);
+    assert.equal(percentile(ten, 100), 10);
+  });
+});
+
+describe("summarizeBuckets", () => {
+  it("reports zero rates and no ratios for no buckets", () => {
+    assert.deepEqual(summarizeBuckets([]), {
+      txCount: 0,
+      tps: { avg: 0, p50: 0, p90: 0, p99: 0, max: 0 },
+      failedRatio: null,
+      feeTotal: null,
+      avgFee: null,
+      computeUnits: null,
+      bucketCount: 0
+    });
+  });
+
+  it("takes percentiles over per-bucket rates and the average over the whole window", () => {
+    const summary = summarizeBuckets([
+      bucket("2025-01-01T00:00:00.000Z", { txCount: 60 }),
+      bucket("2025-01-01T00:01:00.000Z", { txCount: 600 }),
+      bucket("2025-01-01T00:02:00.000Z", { txCount: 120, durationSecs: 30 })
+    ]);
+
+    assert.equal(summary.txCount, 780);
+    assert.deepEqual(summary.tps, { avg: 5.2, p50: 4, p90: 10, p99: 10, max: 10 });
+  });
+
+  it("leaves buckets without a duration out of the rates", () => {
+    const summary = summarizeBuckets([bucket("2025-01-01T00:00:00.000Z", { durationSecs: 0 })]);
+    assert.deepEqual(summary.tps, { avg: 0, p50: 0, p90: 0, p99: 0, max: 0 });
+    assert.equal(summary.txCount, 60);
+  });
+
+  it("only counts buckets that report failures and fees in their ratios", () => {
+    const summary = summarizeBuckets([
+      bucket("2025-01-01T00:00:00.000Z", { txCount: 3, failedCount: 1, feeTotal: "18446744073709551616", computeUnits: "10" }),
+      bucket("2025-01-01T00:01:00.000Z", { txCount: 97 })
+    ]);
+
+    assert.equal(summary.failedRatio, 0.333);
+    assert.equal(summary.feeTotal, "18446744073709551616");
+    assert.equal(summary.avgFee, "6148914691236517205");
+    assert.equal(summary.computeUnits, "10");
+  });
+});
+
+describe("windowBuckets", () => {
+  const buckets = [
+    bucket("2025-01-01T10:58:00.000Z"),
+    bucket("2025-01-01T10:59:00.000Z"),
+    bucket("2025-01-01T11:00:00.000Z"),
+    bucket("2025-01-01T23:59:00.000Z"),
+    bucket("2025-01-02T00:00:00.000Z")
+  ];
+
+  it("starts a new window exactly on the boundary", () => {
+    assert.deepEqual(
+      windowBuckets(buckets, "1h").map(point => [point.start, point.bucketCount]),
+      [
+        ["2025-01-01T10:00:00.000Z", 2],
+        ["2025-01-01T11:00:00.000Z", 1],
+        ["2025-01-01T23:00:00.000Z", 1],
+        ["2025-01-02T00:00:00.000Z", 1]
+      ]
+    );
+    assert.deepEqual(
+      windowBuckets(buckets, "1d").map(point => [point.start, point.txCount]),
+      [["2025-01-01T00:00:00.000Z", 240], ["2025-01-02T00:00:00.000Z", 60]]
+    );
+  });
+
+  it("keeps one point per bucket for one-minute windows and none without buckets", () => {
+    assert.equal(windowBuckets(buckets, "1m").length, buckets.length);
+    assert.deepEqual(windowBuckets([], "1h"), []);
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  decodeMoveEvent,
+  formatMoveType,
+  moveStructName,
+  normalizeMoveAddress,
+  parseMoveType
+} from "../../src/neo4j/blockchainService/moveAbi.js";
+import { MoveStructLayout, MoveStructTag, SuiRawEvent } from "../../src/neo4j/blockchainService/types.js";
+
+const SUI_FRAMEWORK = `0x${"0".repeat(63)}2`;
+const PACKAGE = normalizeMoveAddress("0xabc");
+
+describe("parseMoveType", () => {
+  it("parses primitives, vectors and references", () => {
+    assert.equal(parseMoveType("u64"), "U64");
+    assert.deepEqual(parseMoveType("vector<vector<u8>>"), { Vector: { Vector: "U8" } });
+    assert.deepEqual(parseMoveType("&mut address"), { MutableReference: "Address" });
+  });
+
+  it("parses structs with nested type arguments and pads addresses", () => {
+    assert.deepEqual(parseMoveType("0x2::coin::Coin<0x2::sui::SUI>"), {
+      Struct: {
+        address: SUI_FRAMEWORK,
+        module: "coin",
+        name: "Coin",
+        typeArguments: [{ Struct: { address: SUI_FRAMEWORK, module: "sui", name: "SUI", typeArguments: [] } }]
+      }
+    });
+  });
+
+  it("formats back to Sui's full-length rendering", () => {
+    assert.equal(
+      formatMoveType(parseMoveType("0x2::dynamic_field::Field<u64, vector<0x2::sui::SUI>>")),
+      `${SUI_FRAMEWORK}::dynamic_field::Field<u64, vector<${SUI_FRAMEWORK}::sui::SUI>>`
+    );
+    assert.equal(moveStructName("0x2::coin::Coin<0x2::sui::SUI>"), `${SUI_FRAMEWORK}::coin::Coin`);
+  });
+
+  it("rejects malformed types", () => {
+    assert.throws(() => parseMoveType(""), /Unexpected end/);
+    assert.throws(() => parseMoveType("vector<u8"), /Expected ">"/);
+    assert.throws(() => parseMoveType("u8 u16"), /Trailing input/);
+    assert.throws(() => parseMoveType("0x2::coin"), /Expected "::"/);
+    assert.throws(() => moveStructName("vector<u8>"), /Not a struct type/);
+  });
+});
+
+describe("decodeMoveEvent", () => {
+  const LAYOUTS: Record<string, MoveStructLayout> = {
+    [`${PACKAGE}::pool::Swapped`]: {
+      fields: [
+        { name: "pool", type: parseMoveType("0x2::object::ID") },
+        { name: "amounts", type: { Vector: "U64" } },
+        { name: "big", type: "U128" },
+        { name: "huge", type: "U256" },
+        { name: "memo", type: parseMoveType("0x1::string::String") },
+        { name: "blob", type: { Vector: "U8" } },
+        { name: "leg", type: parseMoveType("0xabc::pool::Leg") },
+        { name: "maybe", type: parseMoveType("0x1::option::Option<u8>") },
+        { name: "marker", type: { TypeParameter: 0 } }
+      ]
+    },
+    [`${PACKAGE}::pool::Leg`]: {
+      fields: [{ name: "flag", type: "Bool" }, { name: "size", type: "U16" }]
+    },
+    [`${SUI_FRAMEWORK}::sui::SUI`]: {
+      fields: [{ name: "dummy_field", type: "Bool" }]
+    }
+  };
+  const resolve = (tag: MoveStructTag) => LAYOUTS[`${tag.address}::${tag.module}::${tag.name}`];
+
+  const u64 = (value: bigint) => {
+    const bytes = Buffer.alloc(8);
+    bytes.writeBigUInt64LE(value);
+    return [...bytes];
+  };
+
+  // 130 bytes need a two-byte ULEB128 length: 0x82 0x01
+  const SWAPPED = [
+    ...Buffer.alloc(32, 0x11),
+    2, ...u64(BigInt(1)), ...u64(BigInt("18446744073709551615")),
+    ...Buffer.alloc(8), 1, ...Buffer.alloc(7),
+    ...Buffer.alloc(32, 0xff),
+    3, ...Buffer.from("hé"),
+    0x82, 0x01, ...Buffer.alloc(130, 7),
+    1, 1, 2,
+    1, 9,
+    0
+  ];
+
+  const event = (bytes: number[], parsedJson: unknown = { from: "node" }): SuiRawEvent => ({
+    id: { txDigest: "digest", eventSeq: "0" },
+    packageId: PACKAGE,
+    transactionModule: "pool",
+    sender: SUI_FRAMEWORK,
+    type: "0xabc::pool::Swapped<0x2::sui::SUI>",
+    parsedJson,
+    bcs: Buffer.from(bytes).toString("base64"),
+    bcsEncoding: "base64"
+  });
+
+  it("reads BCS through nested layouts, builtin structs and type arguments", () => {
+    const decoded = decodeMoveEvent(event(SWAPPED), resolve);
+
+    assert.equal(decoded.decoder, "abi");
+    assert.deepEqual(decoded.fields, {
+      pool: `0x${"11".repeat(32)}`,
+      amounts: ["1", "18446744073709551615"],
+      big: "18446744073709551616",
+      huge: (BigInt(2) ** BigInt(256) - BigInt(1)).toString(),
+      memo: "hé",
+      blob: Array(130).fill(7),
+      leg: { flag: true, size: 513 },
+      maybe: 9,
+      marker: { dummy_field: false }
+    });
+    assert.equal(decoded.fieldTypes?.marker, `${SUI_FRAMEWORK}::sui::SUI`);
+    assert.equal(decoded.fieldTypes?.amounts, "vector<u64>");
+  });
+
+  it("falls back to the node's JSON when the bytes do not fit the layout", () => {
+    for (const bytes of [SWAPPED.slice(0, -1), [...SWAPPED, 0]]) {
+      const decoded = decodeMoveEvent(event(bytes), resolve);
+      assert.equal(decoded.decoder, "json");
+      assert.deepEqual(decoded.fields, { from: "node" });
+      assert.ok(decoded.fieldTypes);
+    }
+  });
+
+  it("falls back when a length does not terminate within u32", () => {
+    const overflow = [...SWAPPED.slice(0, 32), 0xff, 0xff, 0xff, 0xff, 0xff, 0x01];
+    assert.equal(decodeMoveEvent(event(overflow), resolve).decoder, "json");
+  });
+
+  it("leaves fields empty without a layout or JSON", () => {
+    assert.deepEqual(decodeMoveEvent(event(SWAPPED, null), () => undefined), {
+      fields: null,
+      fieldTypes: null,
+      decoder: null
+    });
+  });
+});
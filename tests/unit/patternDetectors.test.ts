@@ -0,0 +1,193 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { neighbourhoodHops, runDetector } from "../../src/neo4j/blockchainService/patternDetectors.js";
+import { TransferRecord } from "../../src/neo4j/blockchainService/types.js";
+
+const MINT = "USDC";
+let sequence = 0;
+
+// Transfers minutes after a fixed start, each with its own signature
+const transfer = (from: string, to: string, amount: bigint | number, minute: number, mint = MINT): TransferRecord => ({
+  from,
+  to,
+  mint,
+  amount: BigInt(amount),
+  decimals: 6,
+  signature: `sig${++sequence}`,
+  blockTime: new Date(Date.UTC(2025, 0, 1, 0, minute)).toISOString()
+});
+
+describe("circular_flow", () => {
+  const cycle = [
+    transfer("A", "B", 1000, 0),
+    transfer("B", "C", 900, 1),
+    transfer("C", "A", 800, 2)
+  ];
+
+  it("finds value returning to its origin, reported once", () => {
+    const patterns = runDetector(cycle, { detector: "circular_flow" }, undefined, 10);
+
+    assert.equal(patterns.length, 1);
+    assert.deepEqual(patterns[0].addresses, [
+      { address: "A", role: "origin" },
+      { address: "B", role: "intermediary" },
+      { address: "C", role: "intermediary" }
+    ]);
+    assert.equal(patterns[0].details.sent, "1000");
+    assert.equal(patterns[0].details.returned, "800");
+    assert.equal(patterns[0].score, 0.8);
+  });
+
+  it("finds a cycle that starts at any of its members", () => {
+    const fromC = [
+      transfer("C", "A", 1000, 0),
+      transfer("A", "B", 1000, 1),
+      transfer("B", "C", 1000, 2)
+    ];
+    const patterns = runDetector(fromC, { detector: "circular_flow" }, undefined, 10);
+
+    assert.equal(patterns.length, 1);
+    assert.equal(patterns[0].addresses[0].address, "C");
+  });
+
+  it("reports a cycle closed within one block once", () => {
+    const sameBlock = [transfer("A", "B", 1000, 0), transfer("B", "A", 1000, 0)];
+    assert.equal(runDetector(sameBlock, { detector: "circular_flow" }, undefined, 10).length, 1);
+  });
+
+  it("only starts from the scoped address", () => {
+    assert.equal(runDetector(cycle, { detector: "circular_flow" }, "A", 10).length, 1);
+    // Value left A, not B, so B is not the origin of a flow
+    assert.deepEqual(runDetector(cycle, { detector: "circular_flow" }, "B", 10), []);
+  });
+
+  it("ignores hops that go back in time", () => {
+    const backwards = [transfer("A", "B", 1000, 5), transfer("B", "C", 1000, 1), transfer("C", "A", 1000, 6)];
+    assert.deepEqual(runDetector(backwards, { detector: "circular_flow" }, undefined, 10), []);
+  });
+
+  it("respects maxHops and minReturnRatio", () => {
+    assert.deepEqual(runDetector(cycle, { detector: "circular_flow", maxHops: 2 }, undefined, 10), []);
+    assert.deepEqual(runDetector(cycle, { detector: "circular_flow", minReturnRatio: 0.9 }, undefined, 10), []);
+  });
+
+  it("keeps amounts beyond 2^53 exact", () => {
+    const big = BigInt("123456789012345678901234567890");
+    const [pattern] = runDetector(
+      [transfer("A", "B", big, 0), transfer("B", "A", big - BigInt(1), 1)],
+      { detector: "circular_flow" },
+      undefined,
+      10
+    );
+    assert.equal(pattern.details.sent, big.toString());
+    assert.equal(pattern.details.returned, (big - BigInt(1)).toString());
+  });
+});
+
+describe("fan_burst", () => {
+  const burst = Array.from({ length: 12 }, (_, i) => transfer("HUB", `R${i}`, 50, i * 2));
+
+  it("flags a sender reaching many addresses within the window", () => {
+    const [pattern, ...rest] = runDetector(burst, { detector: "fan_burst", direction: "out" }, undefined, 10);
+
+    assert.equal(rest.length, 0);
+    assert.equal(pattern.addresses[0].address, "HUB");
+    assert.equal(pattern.details.counterpartyCount, 12);
+    assert.equal(pattern.details.total, "600");
+  });
+
+  it("only counts counterparties inside the densest window", () => {
+    const patterns = runDetector(burst, { detector: "fan_burst", direction: "out", windowMinutes: 10 }, undefined, 10);
+    assert.deepEqual(patterns, []);
+
+    const [pattern] = runDetector(
+      burst,
+      { detector: "fan_burst", direction: "out", windowMinutes: 10, minCounterparties: 6 },
+      undefined,
+      10
+    );
+    assert.equal(pattern.details.counterpartyCount, 6);
+  });
+
+  it("looks at incoming transfers for fan-in", () => {
+    const fanIn = Array.from({ length: 10 }, (_, i) => transfer(`S${i}`, "SINK", 50, i));
+    const [pattern] = runDetector(fanIn, { detector: "fan_burst", direction: "in" }, undefined, 10);
+
+    assert.deepEqual(pattern.addresses[0], { address: "SINK", role: "sink" });
+    assert.deepEqual(runDetector(fanIn, { detector: "fan_burst", direction: "out" }, undefined, 10), []);
+  });
+
+  it("skips hubs other than the scoped address", () => {
+    assert.deepEqual(runDetector(burst, { detector: "fan_burst" }, "R0", 10), []);
+  });
+});
+
+describe("round_trip", () => {
+  const trades = [
+    transfer("X", "Y", 100, 0), transfer("Y", "X", 100, 1),
+    transfer("X", "Y", 100, 2), transfer("Y", "X", 98, 3),
+    transfer("X", "Y", 100, 4), transfer("Y", "X", 100, 5)
+  ];
+
+  it("flags a pair trading back and forth with little net change", () => {
+    const [pattern] = runDetector(trades, { detector: "round_trip" }, undefined, 10);
+
+    assert.equal(pattern.details.roundTrips, 3);
+    assert.equal(pattern.details.forwardTotal, "300");
+    assert.equal(pattern.details.backwardTotal, "298");
+    assert.equal(pattern.details.netRatio, 0.0033);
+  });
+
+  it("skips pairs whose net change is too large", () => {
+    const lopsided = trades.map(t => (t.from === "X" ? { ...t, amount: BigInt(1000) } : t));
+    assert.deepEqual(runDetector(lopsided, { detector: "round_trip" }, undefined, 10), []);
+  });
+
+  it("needs enough trips in both directions", () => {
+    assert.deepEqual(runDetector(trades.slice(0, 4), { detector: "round_trip" }, undefined, 10), []);
+  });
+
+  it("keeps different assets apart", () => {
+    const mixed = trades.map((t, i) => (i === 5 ? { ...t, mint: "SOL" } : t));
+    assert.deepEqual(runDetector(mixed, { detector: "round_trip" }, undefined, 10), []);
+  });
+});
+
+describe("dust_sweep", () => {
+  const sweep = Array.from({ length: 10 }, (_, i) => transfer(`D${i}`, "COLLECTOR", 3, i * 10));
+
+  it("flags many tiny transfers consolidated into one address", () => {
+    const [pattern] = runDetector(sweep, { detector: "dust_sweep", maxAmount: "5" }, undefined, 10);
+
+    assert.deepEqual(pattern.addresses[0], { address: "COLLECTOR", role: "collector" });
+    assert.equal(pattern.details.sourceCount, 10);
+    assert.equal(pattern.details.total, "30");
+  });
+
+  it("ignores transfers above the dust threshold", () => {
+    assert.deepEqual(runDetector(sweep, { detector: "dust_sweep", maxAmount: "2" }, undefined, 10), []);
+  });
+});
+
+describe("runDetector", () => {
+  it("returns at most limit patterns, highest score first", () => {
+    const hubs = ["H1", "H2", "H3"].flatMap((hub, h) =>
+      Array.from({ length: 10 + h * 5 }, (_, i) => transfer(hub, `${hub}R${i}`, 1, i))
+    );
+    const patterns = runDetector(hubs, { detector: "fan_burst", direction: "out" }, undefined, 2);
+
+    assert.deepEqual(patterns.map(p => p.addresses[0].address), ["H3", "H2"]);
+  });
+});
+
+describe("neighbourhoodHops", () => {
+  it("reaches maxHops - 1 transfers out for circular flows", () => {
+    assert.equal(neighbourhoodHops([{ detector: "circular_flow" }]), 3);
+    assert.equal(neighbourhoodHops([{ detector: "circular_flow", maxHops: 6 }, { detector: "fan_burst" }]), 5);
+  });
+
+  it("stays on the address's own transfers for the other detectors", () => {
+    assert.equal(neighbourhoodHops([{ detector: "round_trip" }, { detector: "dust_sweep", maxAmount: "1" }]), 0);
+    assert.equal(neighbourhoodHops([]), 0);
+  });
+});
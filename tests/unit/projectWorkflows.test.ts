@@ -0,0 +1,72 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { normalizeWorkflow } from "../../src/neo4j/projectService/projectWorkflows.js";
+import { WorkflowInput } from "../../src/neo4j/projectService/types.js";
+import { McpError, WorkflowErrorCode } from "../../src/types/errors.js";
+
+const review: WorkflowInput = {
+  name: "Review",
+  statuses: ["draft", "review", "approved", "rejected"],
+  initialStatus: "draft",
+  transitions: {
+    draft: ["review"],
+    review: ["approved", "rejected", "approved"]
+  }
+};
+
+const invalid = (input: WorkflowInput, details: Record<string, unknown>) =>
+  assert.throws(
+    () => normalizeWorkflow(input),
+    (error: unknown) => {
+      assert.ok(error instanceof McpError);
+      assert.equal(error.code, WorkflowErrorCode.INVALID_WORKFLOW);
+      assert.deepEqual(error.details, details);
+      return true;
+    }
+  );
+
+describe("normalizeWorkflow", () => {
+  it("fills in transitions, final statuses and guards", () => {
+    const workflow = normalizeWorkflow(review);
+
+    assert.deepEqual(workflow.transitions, {
+      draft: ["review"],
+      review: ["approved", "rejected"],
+      approved: [],
+      rejected: []
+    });
+    assert.deepEqual(workflow.finalStatuses, ["approved", "rejected"]);
+    assert.deepEqual(workflow.guards, []);
+  });
+
+  it("keeps explicit final statuses", () => {
+    const workflow = normalizeWorkflow({ ...review, finalStatuses: ["approved", "approved"] });
+    assert.deepEqual(workflow.finalStatuses, ["approved"]);
+  });
+
+  it("rejects duplicate statuses", () => {
+    invalid({ ...review, statuses: [...review.statuses, "draft"] }, { duplicates: ["draft"] });
+  });
+
+  it("rejects an initial status outside the workflow", () => {
+    invalid({ ...review, initialStatus: "active" }, { initialStatus: "active" });
+  });
+
+  it("rejects transitions from or to undefined statuses", () => {
+    invalid(
+      { ...review, transitions: { ...review.transitions, archived: ["draft"], rejected: ["deleted"] } },
+      { statuses: ["archived", "deleted"] }
+    );
+  });
+
+  it("rejects undefined final statuses", () => {
+    invalid({ ...review, finalStatuses: ["approved", "done"] }, { statuses: ["done"] });
+  });
+
+  it("rejects guards on undefined statuses", () => {
+    invalid(
+      { ...review, guards: [{ status: "approved", rule: "no_open_tasks" }, { status: "shipped", rule: "no_open_subprojects" }] },
+      { statuses: ["shipped"] }
+    );
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { featureStats, scoreAddress } from "../../src/neo4j/blockchainService/riskFeatures.js";
+import { AddressFeatures } from "../../src/neo4j/blockchainService/types.js";
+
+// Everything but the scored features is the same for every address
+const address = (
+  name: string,
+  values: Partial<Pick<AddressFeatures, "clusteringCoefficient" | "burstiness" | "ageDays" | "pageRank">> = {}
+): AddressFeatures => ({
+  address: name,
+  inDegree: 1,
+  outDegree: 1,
+  counterparties: 2,
+  transferCount: 4,
+  degreeCentrality: 0.5,
+  pageRank: 1,
+  clusteringCoefficient: 0.2,
+  burstiness: 0.2,
+  ageDays: null,
+  firstSeen: null,
+  ...values
+});
+
+// Clustering and burstiness spread 0 to 0.4: median 0.2, MAD 0.1, scale 0.14826
+const POPULATION = [0, 0.1, 0.2, 0.3, 0.4].map((value, i) =>
+  address(`a${i}`, { clusteringCoefficient: value, burstiness: value })
+);
+const STATS = featureStats(POPULATION);
+
+describe("featureStats", () => {
+  it("takes the median and the scaled median absolute deviation", () => {
+    assert.equal(STATS.clusteringCoefficient.median, 0.2);
+    assert.equal(STATS.clusteringCoefficient.center, 0.2);
+    assert.equal(STATS.clusteringCoefficient.scale.toFixed(5), "0.14826");
+  });
+
+  it("falls back to the mean absolute deviation when most addresses share a value", () => {
+    const stats = featureStats([0, 0, 0, 0, 1].map((value, i) => address(`b${i}`, { burstiness: value })));
+    assert.equal(stats.burstiness.scale.toFixed(5), "0.25066");
+  });
+
+  it("has no spread for a constant or unmeasured feature", () => {
+    assert.equal(STATS.pageRank.scale, 0);
+    assert.deepEqual(STATS.ageDays, { median: 0, center: 0, scale: 0 });
+  });
+});
+
+describe("scoreAddress", () => {
+  it("scores a typical address 0", () => {
+    const { score, contributions } = scoreAddress(POPULATION[2], STATS);
+
+    assert.equal(score, 0);
+    assert.ok(contributions.every(entry => entry.contribution === 0 && entry.share === 0));
+  });
+
+  it("combines suspicious-side z-scores as a vector length", () => {
+    const { score, contributions } = scoreAddress(POPULATION[4], STATS);
+
+    // Both features at z = 0.2 / 0.14826 = 1.349, so the score is 1.349 * sqrt(2)
+    assert.equal(score, 1.908);
+    assert.deepEqual(
+      contributions.slice(0, 2).map(({ feature, zScore, contribution, share }) => ({ feature, zScore, contribution, share })),
+      [
+        { feature: "clusteringCoefficient", zScore: 1.349, contribution: 1.349, share: 0.5 },
+        { feature: "burstiness", zScore: 1.349, contribution: 1.349, share: 0.5 }
+      ]
+    );
+  });
+
+  it("ignores features on the unsuspicious side of the median", () => {
+    const { score, contributions } = scoreAddress(POPULATION[0], STATS);
+
+    assert.equal(score, 0);
+    assert.equal(contributions.find(entry => entry.feature === "burstiness")?.zScore, -1.349);
+  });
+
+  it("caps each z-score at 10", () => {
+    const outlier = address("x", { clusteringCoefficient: 100 });
+    const { score, contributions } = scoreAddress(outlier, STATS);
+
+    assert.equal(score, 10);
+    assert.equal(contributions[0].feature, "clusteringCoefficient");
+    assert.equal(contributions[0].share, 1);
+  });
+
+  it("counts young addresses as suspicious on a log scale", () => {
+    const aged = [1, 10, 100, 1000, 10000].map((ageDays, i) => address(`c${i}`, { ageDays }));
+    const stats = featureStats(aged);
+
+    // log1p(0) - log1p(100), over 1.4826 times the median deviation log1p(1000) - log1p(100)
+    assert.equal(scoreAddress(address("new", { ageDays: 0 }), stats).score, 1.357);
+    assert.equal(scoreAddress(address("old", { ageDays: 5000 }), stats).score, 0);
+  });
+
+  it("explains a feature it could not measure", () => {
+    const [entry] = scoreAddress(address("quiet", { burstiness: null }), STATS).contributions
+      .filter(contribution => contribution.feature === "burstiness");
+
+    assert.equal(entry.zScore, 0);
+    assert.match(entry.explanation, /^Too little dated activity/);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseSolanaTransaction } from "../../src/neo4j/blockchainService/solanaIngest.js";
+import { SolanaTransactionResponse } from "../../src/neo4j/blockchainService/types.js";
+
+const SIGNATURE = "5h6xBEauJ3PK6SWCZ1PGjBvj8vDdWG3KpwATGy1ARAXFSDwt8GFXM7W5Ncn16wmqokgpiKRLuS83KUxyZyv2sUYv";
+const PAYER = "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM";
+const RECIPIENT = "HN7cABqLq46Es1jh92dQQisAq662SmxELLLsHHe4YWrH";
+const SYSTEM_PROGRAM = "11111111111111111111111111111111";
+const TOKEN_PROGRAM = "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA";
+
+const transaction = (
+  innerInstructions: Array<{ index: number; instructions: Array<{ programIdIndex: number; stackHeight?: number }> }>,
+  balances: { pre: number[]; post: number[] } = { pre: [5000000000, 0, 1, 1], post: [5000000000, 0, 1, 1] }
+): SolanaTransactionResponse => ({
+  slot: 250000000,
+  blockTime: 1700000000,
+  transaction: {
+    signatures: [SIGNATURE],
+    message: {
+      header: { numRequiredSignatures: 1, numReadonlySignedAccounts: 0, numReadonlyUnsignedAccounts: 2 },
+      accountKeys: [PAYER, RECIPIENT, SYSTEM_PROGRAM, TOKEN_PROGRAM],
+      instructions: [
+        { programIdIndex: 3, accounts: [0, 1], data: "" },
+        { programIdIndex: 2, accounts: [0, 1], data: "" }
+      ]
+    }
+  },
+  meta: {
+    err: null,
+    fee: 5000,
+    preBalances: balances.pre,
+    postBalances: balances.post,
+    innerInstructions: innerInstructions.map(group => ({
+      index: group.index,
+      instructions: group.instructions.map(instruction => ({ accounts: [0, 1], data: "", ...instruction }))
+    }))
+  }
+} as unknown as SolanaTransactionResponse);
+
+const parents = (tx: SolanaTransactionResponse) =>
+  Object.fromEntries(parseSolanaTransaction(tx).instructions.map(instruction => [instruction.path, instruction.parentId]));
+
+describe("parseSolanaTransaction", () => {
+  it("rebuilds the CPI tree from stack heights", () => {
+    const tree = parents(transaction([{
+      index: 0,
+      instructions: [
+        { programIdIndex: 2, stackHeight: 2 },
+        { programIdIndex: 3, stackHeight: 3 },
+        { programIdIndex: 2, stackHeight: 4 },
+        { programIdIndex: 2, stackHeight: 3 },
+        { programIdIndex: 2, stackHeight: 2 }
+      ]
+    }]));
+
+    assert.deepEqual(tree, {
+      "0": null,
+      "1": null,
+      "0.0": `${SIGNATURE}:0`,
+      "0.1": `${SIGNATURE}:0.0`,
+      "0.2": `${SIGNATURE}:0.1`,
+      "0.3": `${SIGNATURE}:0.0`,
+      "0.4": `${SIGNATURE}:0`
+    });
+  });
+
+  it("attaches a call that skips a stack height to the deepest open call", () => {
+    const tree = parents(transaction([{
+      index: 1,
+      instructions: [
+        { programIdIndex: 3, stackHeight: 2 },
+        { programIdIndex: 2, stackHeight: 4 }
+      ]
+    }]));
+
+    assert.equal(tree["1.0"], `${SIGNATURE}:1`);
+    assert.equal(tree["1.1"], `${SIGNATURE}:1.0`);
+  });
+
+  it("treats inner instructions without a stack height as direct children", () => {
+    const tree = parents(transaction([{
+      index: 0,
+      instructions: [{ programIdIndex: 2 }, { programIdIndex: 3 }]
+    }]));
+
+    assert.equal(tree["0.0"], `${SIGNATURE}:0`);
+    assert.equal(tree["0.1"], `${SIGNATURE}:0`);
+  });
+
+  it("keeps each outer instruction's inner calls under it", () => {
+    const parsed = parseSolanaTransaction(transaction([
+      { index: 0, instructions: [{ programIdIndex: 2, stackHeight: 2 }] },
+      { index: 1, instructions: [{ programIdIndex: 3, stackHeight: 2 }, { programIdIndex: 2, stackHeight: 3 }] }
+    ]));
+    const byPath = new Map(parsed.instructions.map(instruction => [instruction.path, instruction]));
+
+    assert.equal(parsed.instructions.length, 5);
+    assert.equal(byPath.get("0.0")?.parentId, `${SIGNATURE}:0`);
+    assert.equal(byPath.get("1.0")?.parentId, `${SIGNATURE}:1`);
+    assert.equal(byPath.get("1.1")?.parentId, `${SIGNATURE}:1.0`);
+    assert.equal(byPath.get("1.1")?.programId, SYSTEM_PROGRAM);
+    assert.equal(byPath.get("1.1")?.stackHeight, 3);
+  });
+
+  it("derives the fee payer's transfer net of the fee", () => {
+    const parsed = parseSolanaTransaction(transaction([], {
+      pre: [5000000000, 0, 1, 1],
+      post: [3999995000, 1000000000, 1, 1]
+    }));
+
+    assert.equal(parsed.transaction.feePayer, PAYER);
+    assert.deepEqual(
+      parsed.transfers.map(transfer => ({ from: transfer.from, to: transfer.to, amount: transfer.amount.toString() })),
+      [{ from: PAYER, to: RECIPIENT, amount: "1000000000" }]
+    );
+  });
+});
@@ -0,0 +1,188 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  compareIntegerStrings,
+  describeDistribution,
+  giniCoefficient,
+  rankTokenFlowPaths,
+  replayBalanceChanges
+} from "../../src/neo4j/blockchainService/tokenLedger.js";
+import { TokenFlowTransfer } from "../../src/neo4j/blockchainService/types.js";
+
+// 2^64 + 1: well past Number.MAX_SAFE_INTEGER
+const HUGE = "18446744073709551617";
+
+const change = (delta: string, post: string | null = null, position = "1") => ({
+  signature: `sig${position}`,
+  position,
+  blockTime: null,
+  delta,
+  post
+});
+
+describe("replayBalanceChanges", () => {
+  it("sums deltas and marks the balance inexact without a post-balance", () => {
+    const history = replayBalanceChanges([change("500"), change("-200"), change("50")]);
+
+    assert.deepEqual(history.map(entry => entry.balance), ["500", "300", "350"]);
+    assert.ok(history.every(entry => !entry.exact));
+  });
+
+  it("resets to a post-balance and stays exact afterwards", () => {
+    const history = replayBalanceChanges([change("500"), change("100", "1000"), change("-1")]);
+
+    assert.deepEqual(
+      history.map(({ balance, exact }) => ({ balance, exact })),
+      [
+        { balance: "500", exact: false },
+        { balance: "1000", exact: true },
+        { balance: "999", exact: true }
+      ]
+    );
+  });
+
+  it("keeps full precision beyond 2^53", () => {
+    const history = replayBalanceChanges([change(HUGE, HUGE), change("1"), change(`-${HUGE}`)]);
+
+    assert.deepEqual(history.map(entry => entry.balance), [HUGE, "18446744073709551618", "1"]);
+  });
+
+  it("lets Sui balances relative to the first change go negative", () => {
+    const [entry] = replayBalanceChanges([change("-25")]);
+    assert.equal(entry.balance, "-25");
+  });
+});
+
+describe("compareIntegerStrings", () => {
+  it("compares by value rather than as text", () => {
+    assert.equal(compareIntegerStrings("9", "10"), -1);
+    assert.equal(compareIntegerStrings(HUGE, "18446744073709551616"), 1);
+    assert.equal(compareIntegerStrings(HUGE, HUGE), 0);
+  });
+
+  it("sorts null first", () => {
+    assert.equal(compareIntegerStrings(null, "0"), -1);
+    assert.equal(compareIntegerStrings("0", null), 1);
+    assert.equal(compareIntegerStrings(null, null), 0);
+  });
+});
+
+describe("rankTokenFlowPaths", () => {
+  const hop = (from: string, to: string, amount: string): TokenFlowTransfer => ({
+    from,
+    to,
+    amount,
+    signature: `${from}-${to}-${amount}`,
+    position: null,
+    blockTime: null
+  });
+
+  it("carries the smallest transfer along each path", () => {
+    const [path] = rankTokenFlowPaths([[hop("A", "B", HUGE), hop("B", "C", "18446744073709551616")]], BigInt(0));
+
+    assert.equal(path.hops, 2);
+    assert.equal(path.amount, "18446744073709551616");
+  });
+
+  it("ranks shorter paths first, then larger amounts", () => {
+    const paths = rankTokenFlowPaths([
+      [hop("A", "X", "900"), hop("X", "C", "900")],
+      [hop("A", "C", "10")],
+      [hop("A", "Y", "5000"), hop("Y", "C", "2000")],
+      [hop("A", "C", "20")]
+    ], BigInt(0));
+
+    assert.deepEqual(paths.map(path => [path.hops, path.amount]), [
+      [1, "20"],
+      [1, "10"],
+      [2, "2000"],
+      [2, "900"]
+    ]);
+  });
+
+  it("drops paths that cannot carry the minimum amount at every hop", () => {
+    const paths = rankTokenFlowPaths([
+      [hop("A", "X", "1000"), hop("X", "C", "99")],
+      [hop("A", "C", "100")]
+    ], BigInt(100));
+
+    assert.deepEqual(paths.map(path => path.amount), ["100"]);
+  });
+});
+
+describe("giniCoefficient", () => {
+  const holders = (...balances: number[]) =>
+    balances.map((balance, i) => ({ address: `h${i}`, balance: BigInt(balance), exact: true }));
+  const gini = (...balances: number[]) =>
+    giniCoefficient(holders(...balances), balances.reduce((sum, balance) => sum + BigInt(balance), BigInt(0)));
+
+  it("is 0 when everyone holds the same", () => {
+    assert.equal(gini(5, 5, 5, 5), 0);
+  });
+
+  it("is 0 for a single holder or none", () => {
+    assert.equal(gini(1000), 0);
+    assert.equal(gini(), 0);
+  });
+
+  it("matches the mean absolute difference definition", () => {
+    assert.equal(gini(3, 1), 0.25);
+    assert.equal(gini(97, 1, 1, 1), 0.72);
+  });
+});
+
+describe("describeDistribution", () => {
+  const holders = (...balances: string[]) =>
+    balances.map((balance, i) => ({ address: `h${i}`, balance: BigInt(balance), exact: i !== 3 }));
+
+  it("counts the fewest holders with more than half", () => {
+    assert.equal(describeDistribution(holders("40", "30", "20", "10"), null, {}, 10).nakamoto, 2);
+    // Exactly half is not a majority
+    assert.equal(describeDistribution(holders("50", "50"), null, {}, 10).nakamoto, 2);
+    assert.equal(describeDistribution(holders("51", "49"), null, {}, 10).nakamoto, 1);
+  });
+
+  it("describes an empty token", () => {
+    assert.deepEqual(describeDistribution([], "100", {}, 10), {
+      at: "100",
+      holderCount: 0,
+      totalHeld: "0",
+      exact: true,
+      gini: 0,
+      nakamoto: 0,
+      labeledShare: 0,
+      labeledHolders: [],
+      topHolders: []
+    });
+  });
+
+  it("keeps totals exact, groups labeled holders by entity and ranks the top holders", () => {
+    const distribution = describeDistribution(
+      holders(HUGE, "18446744073709551615", "1", "1"),
+      null,
+      {
+        h0: { label: "Hot wallet", entity: { id: "ENT_1", name: "Exchange" } },
+        h2: { label: "Cold wallet", entity: { id: "ENT_1", name: "Exchange" } },
+        h3: { label: "Treasury", entity: null }
+      },
+      2
+    );
+
+    assert.equal(distribution.totalHeld, "36893488147419103234");
+    assert.equal(distribution.exact, false);
+    // h0 holds exactly half
+    assert.equal(distribution.nakamoto, 2);
+    assert.deepEqual(
+      distribution.labeledHolders.map(({ name, entityId, addressCount }) => ({ name, entityId, addressCount })),
+      [
+        { name: "Exchange", entityId: "ENT_1", addressCount: 2 },
+        { name: "Treasury", entityId: null, addressCount: 1 }
+      ]
+    );
+    // Shares are truncated to six decimals
+    assert.deepEqual(distribution.topHolders.map(holder => [holder.rank, holder.address, holder.share]), [
+      [1, "h0", 0.5],
+      [2, "h1", 0.499999]
+    ]);
+  });
+});